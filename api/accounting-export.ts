@@ -0,0 +1,358 @@
+/**
+ * Accounting Export API
+ *
+ * GET /api/accounting-export?budget_id=xxx
+ *   - The journal entries for the grant's records not exported yet, any
+ *     accounts that still need to be mapped, and past exports
+ *
+ * GET /api/accounting-export?export_id=xxx
+ *   - Download a past export's file again
+ *
+ * POST /api/accounting-export
+ *   - Export the records not exported yet and download the file; they are
+ *     marked as exported so the next export leaves them out
+ *   - Body: { budget_id, format: 'quickbooks_iif' | 'quickbooks_csv' | 'xero_csv',
+ *       through_date? }
+ *   - Fails while an account is unmapped
+ *
+ * DELETE /api/accounting-export?export_id=xxx
+ *   - Undo an export (org admins), e.g. when the import into the accounting
+ *     system failed; its records are exported again next time
+ *
+ * See api/utils/accounting-export.ts for the entries and file formats.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { validateBody, accountingExportCreateSchema } from './utils/validation';
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_FILES,
+  buildJournalEntries,
+  fetchAccountingConfig,
+  fetchExportSources,
+  formatJournal,
+  type ExportFormat,
+} from './utils/accounting-export.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Columns of an export without its file
+const EXPORT_COLUMNS =
+  'id, org_id, budget_id, grant_id, format, entry_count, total_amount, period_start, period_end, file_name, exported_by, created_at';
+
+function sendFile(res: VercelResponse, format: ExportFormat, fileName: string, content: string) {
+  res.setHeader('Content-Type', EXPORT_FORMAT_FILES[format].content_type);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  return res.status(200).send(content);
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'DELETE'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET/DELETE with export_id - A past export
+  if (req.method === 'DELETE' || (req.method === 'GET' && req.query.export_id)) {
+    const { export_id } = req.query;
+
+    if (!export_id || typeof export_id !== 'string') {
+      return res.status(400).json({ error: 'export_id is required' });
+    }
+
+    const { data: accountingExport, error } = await supabase
+      .from('accounting_exports')
+      .select('*')
+      .eq('id', export_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!accountingExport) {
+      return ErrorHandlers.notFound(res, 'Export', requestId);
+    }
+
+    if (req.method === 'GET') {
+      const accessResult = await verifyOrgAccess(
+        supabase,
+        authResult,
+        accountingExport.org_id,
+        'grants:view',
+      );
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
+      }
+
+      return sendFile(
+        res,
+        accountingExport.format,
+        accountingExport.file_name,
+        accountingExport.content,
+      );
+    }
+
+    const accessResult = await verifyOrgAccess(
+      supabase,
+      authResult,
+      accountingExport.org_id,
+      'grants:edit',
+    );
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    if (accessResult.membership?.role !== 'admin') {
+      return res.status(403).json({ error: 'Only org admins can undo an export' });
+    }
+
+    // Exported records point at the export with ON DELETE SET NULL, so
+    // they become exportable again
+    const { error: deleteError } = await supabase
+      .from('accounting_exports')
+      .delete()
+      .eq('id', accountingExport.id);
+
+    if (deleteError) {
+      return ErrorHandlers.database(res, deleteError, requestId);
+    }
+
+    return res.status(200).json({ success: true });
+  }
+
+  const budgetId = req.method === 'GET' ? req.query.budget_id : req.body?.budget_id;
+
+  if (!budgetId || typeof budgetId !== 'string') {
+    return res.status(400).json({ error: 'budget_id is required' });
+  }
+
+  const { data: budget, error: budgetError } = await supabase
+    .from('grant_budgets')
+    .select('id, grant_id, org_id')
+    .eq('id', budgetId)
+    .maybeSingle();
+
+  if (budgetError) {
+    return ErrorHandlers.database(res, budgetError, requestId);
+  }
+
+  if (!budget) {
+    return ErrorHandlers.notFound(res, 'Budget', requestId);
+  }
+
+  // GET - Pending entries and past exports
+  if (req.method === 'GET') {
+    const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    let pending;
+    let config;
+    try {
+      [pending, config] = await Promise.all([
+        fetchExportSources(supabase, budget.id),
+        fetchAccountingConfig(supabase, budget.org_id),
+      ]);
+    } catch (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    const { data: exports, error: exportsError } = await supabase
+      .from('accounting_exports')
+      .select(EXPORT_COLUMNS)
+      .eq('budget_id', budget.id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (exportsError) {
+      return ErrorHandlers.database(res, exportsError, requestId);
+    }
+
+    const userIds = [...new Set((exports || []).map((record) => record.exported_by))];
+    const { data: profiles } = userIds.length
+      ? await supabase.from('user_profiles').select('id, full_name').in('id', userIds)
+      : { data: [] };
+    const names = new Map((profiles || []).map((profile) => [profile.id, profile.full_name]));
+
+    const journal = buildJournalEntries(
+      pending.sources,
+      budget.grant_id,
+      config.settings,
+      config.mappings,
+    );
+
+    return res.status(200).json({
+      ...journal,
+      awaiting_approval: pending.awaiting_approval,
+      non_cash: pending.non_cash,
+      exports: (exports || []).map((record) => ({
+        ...record,
+        total_amount: Number(record.total_amount),
+        exported_by_name: names.get(record.exported_by) || null,
+      })),
+      formats: EXPORT_FORMATS.map((value) => ({ value, label: EXPORT_FORMAT_FILES[value].label })),
+    });
+  }
+
+  // POST - Export
+  const validation = validateBody(req, res, accountingExportCreateSchema);
+  if (!validation.success) return;
+
+  const { format, through_date } = validation.data;
+
+  const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:edit');
+  if (!accessResult.success) {
+    return sendAuthError(res, accessResult);
+  }
+
+  let pending;
+  let config;
+  try {
+    [pending, config] = await Promise.all([
+      fetchExportSources(supabase, budget.id),
+      fetchAccountingConfig(supabase, budget.org_id),
+    ]);
+  } catch (error) {
+    return ErrorHandlers.database(res, error, requestId);
+  }
+
+  const sources = pending.sources.filter((source) => !through_date || source.date <= through_date);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'There is nothing new to export' });
+  }
+
+  const { warnings } = buildJournalEntries(
+    sources,
+    budget.grant_id,
+    config.settings,
+    config.mappings,
+  );
+  if (warnings.length > 0) {
+    return res.status(400).json({
+      error: 'Map the missing accounts in Settings → Accounting before exporting',
+      warnings,
+    });
+  }
+
+  const { data: grant } = await supabase
+    .from('org_grants_saved')
+    .select('title')
+    .eq('id', budget.grant_id)
+    .maybeSingle();
+
+  const slug = (grant?.title || 'grant')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 50);
+  const fileName = `journal-${slug}-${new Date().toISOString().slice(0, 10)}.${EXPORT_FORMAT_FILES[format].extension}`;
+
+  const { data: accountingExport, error: exportError } = await supabase
+    .from('accounting_exports')
+    .insert({
+      org_id: budget.org_id,
+      budget_id: budget.id,
+      grant_id: budget.grant_id,
+      format,
+      file_name: fileName,
+      exported_by: user.id,
+    })
+    .select('id')
+    .single();
+
+  if (exportError || !accountingExport) {
+    return ErrorHandlers.database(res, exportError, requestId);
+  }
+
+  // Claim the records; ones another export claimed in the meantime are
+  // left out of this file rather than posted twice
+  const claim = (table: 'disbursements' | 'payment_schedules', ids: string[]) =>
+    ids.length
+      ? supabase
+          .from(table)
+          .update({ accounting_export_id: accountingExport.id })
+          .in('id', ids)
+          .is('accounting_export_id', null)
+          .select('id')
+      : Promise.resolve({ data: [] as Array<{ id: string }>, error: null });
+
+  const [disbursementsClaim, schedulesClaim] = await Promise.all([
+    claim(
+      'disbursements',
+      sources.filter((source) => source.kind === 'disbursement').map((source) => source.id),
+    ),
+    claim(
+      'payment_schedules',
+      sources.filter((source) => source.kind === 'payment_schedule').map((source) => source.id),
+    ),
+  ]);
+
+  const claimError = disbursementsClaim.error || schedulesClaim.error;
+  const claimed = new Set(
+    [...(disbursementsClaim.data || []), ...(schedulesClaim.data || [])].map((row) => row.id),
+  );
+  const { entries } = buildJournalEntries(
+    sources.filter((source) => claimed.has(source.id)),
+    budget.grant_id,
+    config.settings,
+    config.mappings,
+  );
+
+  if (claimError || entries.length === 0) {
+    // Releases anything claimed above
+    await supabase.from('accounting_exports').delete().eq('id', accountingExport.id);
+    if (claimError) {
+      return ErrorHandlers.database(res, claimError, requestId);
+    }
+    return res.status(409).json({ error: 'These records were just exported by someone else' });
+  }
+
+  const content = formatJournal(format, entries, config.settings);
+
+  const { error: updateError } = await supabase
+    .from('accounting_exports')
+    .update({
+      entry_count: entries.length,
+      total_amount: Math.round(entries.reduce((sum, entry) => sum + entry.amount, 0) * 100) / 100,
+      period_start: entries[0].date,
+      period_end: entries[entries.length - 1].date,
+      content,
+    })
+    .eq('id', accountingExport.id);
+
+  if (updateError) {
+    await supabase.from('accounting_exports').delete().eq('id', accountingExport.id);
+    return ErrorHandlers.database(res, updateError, requestId);
+  }
+
+  return sendFile(res, format, fileName, content);
+});
@@ -0,0 +1,208 @@
+/**
+ * Accounting Settings API
+ *
+ * GET /api/accounting-settings?org_id=xxx
+ *   - The chart-of-accounts settings and account/class mappings used for
+ *     journal exports, with the budget categories and the grants that have
+ *     a budget to map
+ *
+ * PUT /api/accounting-settings
+ *   - Save the settings and replace every mapping
+ *   - Body: { org_id, settings: { bank_account, revenue_account,
+ *       default_expense_account, tracking_category, xero_tax_rate },
+ *       mappings: [{ grant_id, category, expense_account, revenue_account, class_name }] }
+ *
+ * Any member can view the settings; changing them requires an org admin.
+ * See api/utils/accounting-export.ts for how mappings are applied.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import {
+  verifyUserAuth,
+  verifyOrgMembership,
+  verifyOrgAdmin,
+  sendAuthError,
+} from './utils/auth-middleware.js';
+import { validateBody, accountingSettingsUpdateSchema } from './utils/validation';
+import {
+  MAPPING_CATEGORIES,
+  MAPPING_CATEGORY_LABELS,
+  fetchAccountingConfig,
+} from './utils/accounting-export.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET', 'PUT'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Settings and mappings
+  if (req.method === 'GET') {
+    const { org_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    let config;
+    try {
+      config = await fetchAccountingConfig(supabase, org_id);
+    } catch (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    const { data: budgets, error: budgetsError } = await supabase
+      .from('grant_budgets')
+      .select('grant_id')
+      .eq('org_id', org_id);
+
+    if (budgetsError) {
+      return ErrorHandlers.database(res, budgetsError, requestId);
+    }
+
+    const grantIds = [...new Set((budgets || []).map((budget) => budget.grant_id))];
+    const { data: grants, error: grantsError } = grantIds.length
+      ? await supabase
+          .from('org_grants_saved')
+          .select('id, title')
+          .in('id', grantIds)
+          .order('title', { ascending: true })
+      : { data: [], error: null };
+
+    if (grantsError) {
+      return ErrorHandlers.database(res, grantsError, requestId);
+    }
+
+    return res.status(200).json({
+      ...config,
+      categories: MAPPING_CATEGORIES.map((value) => ({
+        value,
+        label: MAPPING_CATEGORY_LABELS[value],
+      })),
+      grants: grants || [],
+    });
+  }
+
+  // PUT - Save settings and replace mappings
+  const validation = validateBody(req, res, accountingSettingsUpdateSchema);
+  if (!validation.success) return;
+
+  const { org_id, settings, mappings } = validation.data;
+
+  const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+  if (!adminResult.success) {
+    return sendAuthError(res, adminResult);
+  }
+
+  const grantIds = [
+    ...new Set(mappings.map((mapping) => mapping.grant_id).filter((id): id is string => !!id)),
+  ];
+  if (grantIds.length > 0) {
+    const { data: grants, error: grantsError } = await supabase
+      .from('org_grants_saved')
+      .select('id')
+      .eq('org_id', org_id)
+      .in('id', grantIds);
+
+    if (grantsError) {
+      return ErrorHandlers.database(res, grantsError, requestId);
+    }
+
+    if ((grants || []).length !== grantIds.length) {
+      return res
+        .status(400)
+        .json({ error: 'Mappings can only refer to grants of this organization' });
+    }
+  }
+
+  const now = new Date().toISOString();
+  const blankToNull = (value: string | null) => value || null;
+
+  const { error: settingsError } = await supabase.from('accounting_settings').upsert(
+    {
+      org_id,
+      bank_account: blankToNull(settings.bank_account),
+      revenue_account: blankToNull(settings.revenue_account),
+      default_expense_account: blankToNull(settings.default_expense_account),
+      tracking_category: settings.tracking_category,
+      xero_tax_rate: settings.xero_tax_rate,
+      updated_by: user.id,
+      updated_at: now,
+    },
+    { onConflict: 'org_id' },
+  );
+
+  if (settingsError) {
+    return ErrorHandlers.database(res, settingsError, requestId);
+  }
+
+  // Rows that map nothing are dropped rather than stored
+  const rows = mappings
+    .map((mapping) => ({
+      org_id,
+      grant_id: mapping.grant_id,
+      category: mapping.category,
+      expense_account: blankToNull(mapping.expense_account),
+      revenue_account: blankToNull(mapping.revenue_account),
+      class_name: blankToNull(mapping.class_name),
+      updated_at: now,
+    }))
+    .filter((row) => row.expense_account || row.revenue_account || row.class_name);
+
+  const { error: deleteError } = await supabase
+    .from('accounting_mappings')
+    .delete()
+    .eq('org_id', org_id);
+
+  if (deleteError) {
+    return ErrorHandlers.database(res, deleteError, requestId);
+  }
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('accounting_mappings').insert(rows);
+    if (insertError) {
+      return ErrorHandlers.database(res, insertError, requestId);
+    }
+  }
+
+  let config;
+  try {
+    config = await fetchAccountingConfig(supabase, org_id);
+  } catch (error) {
+    return ErrorHandlers.database(res, error, requestId);
+  }
+
+  return res.status(200).json(config);
+});
@@ -0,0 +1,235 @@
+/**
+ * Admin Grant Duplicates API
+ *
+ * Endpoints for reviewing cross-source duplicate matches
+ * GET /api/admin/duplicates?status=pending|confirmed|rejected - List matches
+ * PATCH /api/admin/duplicates?id=... - Confirm or reject a match ({ action: 'confirm' | 'reject' })
+ * POST /api/admin/duplicates - Mark two grants as duplicates manually
+ *
+ * Confirmed matches hide the duplicate catalog record for every organization,
+ * so all methods require a platform admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { orderCanonical, type DedupCandidate } from '../../lib/grants/dedup.js';
+import { rateLimitAdmin, handleRateLimit } from '../utils/ratelimit';
+
+const GRANT_COLUMNS =
+  'id, source_key, external_id, title, agency, opportunity_number, close_date, aln_codes, cfda_numbers, content_hash, first_seen_at';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Apply rate limiting (30 req/min per IP)
+  const rateLimitResult = await rateLimitAdmin(req);
+  if (handleRateLimit(res, rateLimitResult)) {
+    return;
+  }
+
+  // Initialize Supabase client
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  }
+
+  const token = authHeader.substring(7);
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // SECURITY: Verify user is a platform admin (NOT organization admin)
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('is_platform_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    console.error('Error checking platform admin status:', profileError);
+    return res.status(500).json({ error: 'Failed to verify admin access' });
+  }
+
+  if (!profile?.is_platform_admin) {
+    return res.status(403).json({ error: 'Platform admin access required' });
+  }
+
+  if (req.method === 'GET') {
+    return handleListDuplicates(req, res, supabase);
+  } else if (req.method === 'PATCH') {
+    return handleResolveDuplicate(req, res, supabase, user.id);
+  } else if (req.method === 'POST') {
+    return handleManualDuplicate(req, res, supabase, user.id);
+  } else {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+async function handleListDuplicates(
+  req: VercelRequest,
+  res: VercelResponse,
+  supabase: SupabaseClient,
+) {
+  const { status = 'pending', limit = '50' } = req.query;
+
+  let query = supabase
+    .from('grant_duplicates')
+    .select(
+      `
+      *,
+      primary:grants_catalog!primary_grant_id(${GRANT_COLUMNS}),
+      duplicate:grants_catalog!duplicate_grant_id(${GRANT_COLUMNS})
+    `,
+    )
+    .order('match_score', { ascending: false })
+    .limit(Math.min(parseInt(String(limit), 10) || 50, 200));
+
+  if (status === 'pending') {
+    query = query.eq('is_confirmed', false).eq('is_rejected', false);
+  } else if (status === 'confirmed') {
+    query = query.eq('is_confirmed', true);
+  } else if (status === 'rejected') {
+    query = query.eq('is_rejected', true);
+  } else {
+    return res.status(400).json({ error: 'status must be pending, confirmed or rejected' });
+  }
+
+  const { data: duplicates, error } = await query;
+
+  if (error) {
+    console.error('Error fetching duplicates:', error);
+    return res.status(500).json({ error: 'Failed to fetch duplicates' });
+  }
+
+  return res.status(200).json({ duplicates });
+}
+
+async function handleResolveDuplicate(
+  req: VercelRequest,
+  res: VercelResponse,
+  supabase: SupabaseClient,
+  userId: string,
+) {
+  const { id } = req.query;
+  const { action } = req.body || {};
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  if (action !== 'confirm' && action !== 'reject') {
+    return res.status(400).json({ error: 'action must be confirm or reject' });
+  }
+
+  const now = new Date().toISOString();
+  const updates =
+    action === 'confirm'
+      ? {
+          is_confirmed: true,
+          is_rejected: false,
+          confirmed_by: userId,
+          confirmed_at: now,
+          rejected_by: null,
+          rejected_at: null,
+        }
+      : {
+          is_confirmed: false,
+          is_rejected: true,
+          rejected_by: userId,
+          rejected_at: now,
+          confirmed_by: null,
+          confirmed_at: null,
+        };
+
+  const { data: duplicate, error } = await supabase
+    .from('grant_duplicates')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving duplicate:', error);
+    return res.status(500).json({ error: 'Failed to update duplicate' });
+  }
+
+  if (!duplicate) {
+    return res.status(404).json({ error: 'Duplicate match not found' });
+  }
+
+  return res.status(200).json({ duplicate });
+}
+
+async function handleManualDuplicate(
+  req: VercelRequest,
+  res: VercelResponse,
+  supabase: SupabaseClient,
+  userId: string,
+) {
+  const { grant_id, duplicate_of_id } = req.body || {};
+
+  if (!grant_id || !duplicate_of_id || grant_id === duplicate_of_id) {
+    return res.status(400).json({ error: 'grant_id and a different duplicate_of_id are required' });
+  }
+
+  const { data: grants, error: grantsError } = await supabase
+    .from('grants_catalog')
+    .select(GRANT_COLUMNS)
+    .in('id', [grant_id, duplicate_of_id]);
+
+  if (grantsError || !grants || grants.length !== 2) {
+    return res.status(404).json({ error: 'Grant not found' });
+  }
+
+  const [primary, duplicate] = orderCanonical(
+    grants[0] as DedupCandidate,
+    grants[1] as DedupCandidate,
+  );
+
+  // Drop any automatic match for the pair in the opposite orientation
+  await supabase
+    .from('grant_duplicates')
+    .delete()
+    .eq('primary_grant_id', duplicate.id)
+    .eq('duplicate_grant_id', primary.id);
+
+  const now = new Date().toISOString();
+  const { data: match, error } = await supabase
+    .from('grant_duplicates')
+    .upsert(
+      {
+        primary_grant_id: primary.id,
+        duplicate_grant_id: duplicate.id,
+        match_score: 1,
+        match_method: 'manual',
+        is_confirmed: true,
+        is_rejected: false,
+        confirmed_by: userId,
+        confirmed_at: now,
+      },
+      { onConflict: 'primary_grant_id,duplicate_grant_id' },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating manual duplicate:', error);
+    return res.status(500).json({ error: 'Failed to mark duplicate' });
+  }
+
+  return res.status(201).json({ duplicate: match });
+}
@@ -0,0 +1,265 @@
+/**
+ * Admin Grant Sources API
+ *
+ * Endpoints for onboarding feed-based grant sources (state portals, foundations)
+ * GET /api/admin/grant-sources - List sources and available adapters
+ * POST /api/admin/grant-sources - Create or update a feed source
+ * POST /api/admin/grant-sources?dry_run=true - Preview a feed mapping without saving
+ *
+ * Sources are global (shared by every organization), so all methods require a
+ * platform admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  FeedGrantAdapter,
+  getAvailableAdapters,
+  validateFeedConfig,
+} from '../../lib/grants/adapters/index.js';
+import type { FeedConfig, GrantSource } from '../../lib/grants/types.js';
+import { rateLimitAdmin, handleRateLimit } from '../utils/ratelimit';
+
+const SOURCE_TYPES = ['federal', 'state', 'private', 'custom'];
+const SYNC_FREQUENCIES = ['hourly', 'daily', 'weekly', 'manual'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Apply rate limiting (30 req/min per IP)
+  const rateLimitResult = await rateLimitAdmin(req);
+  if (handleRateLimit(res, rateLimitResult)) {
+    return;
+  }
+
+  // Initialize Supabase client
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  }
+
+  const token = authHeader.substring(7);
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // SECURITY: Verify user is a platform admin (NOT organization admin)
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('is_platform_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    console.error('Error checking platform admin status:', profileError);
+    return res.status(500).json({ error: 'Failed to verify admin access' });
+  }
+
+  if (!profile?.is_platform_admin) {
+    return res.status(403).json({ error: 'Platform admin access required' });
+  }
+
+  if (req.method === 'GET') {
+    return handleListSources(res, supabase);
+  } else if (req.method === 'POST' && req.query.dry_run === 'true') {
+    return handleDryRun(req, res, supabase);
+  } else if (req.method === 'POST') {
+    return handleSaveSource(req, res, supabase);
+  } else {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+async function handleListSources(res: VercelResponse, supabase: SupabaseClient) {
+  const { data: sources, error } = await supabase
+    .from('grant_sources')
+    .select('*')
+    .order('source_name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching grant sources:', error);
+    return res.status(500).json({ error: 'Failed to fetch grant sources' });
+  }
+
+  return res.status(200).json({
+    sources,
+    adapters: getAvailableAdapters(),
+  });
+}
+
+/**
+ * Map a feed without saving anything
+ *
+ * Body: { source_key?, feed_config?, sample?, limit? }
+ * - feed_config defaults to the saved config of source_key
+ * - sample is a pasted feed body used instead of fetching the URL
+ * - The API key is only used with a saved source's saved config; a config from
+ *   the request could send it to any URL, so {{api_key}} headers are refused
+ */
+async function handleDryRun(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient) {
+  const { source_key, feed_config, sample, limit } = req.body || {};
+
+  let source: GrantSource | null = null;
+
+  if (source_key) {
+    const { data } = await supabase
+      .from('grant_sources')
+      .select('*')
+      .eq('source_key', source_key)
+      .maybeSingle();
+
+    source = data as GrantSource | null;
+
+    if (!source && !feed_config) {
+      return res.status(404).json({ error: `Source not found: ${source_key}` });
+    }
+  }
+
+  const config: FeedConfig | undefined = feed_config || source?.feed_config || undefined;
+
+  if (!config) {
+    return res.status(400).json({ error: 'feed_config is required' });
+  }
+
+  const configErrors = validateFeedConfig(config);
+  if (configErrors.length > 0) {
+    return res.status(400).json({ error: 'Invalid feed_config', details: configErrors });
+  }
+
+  const usesApiKey = Object.values(config.headers || {}).some(
+    (value) => typeof value === 'string' && value.includes('{{api_key}}'),
+  );
+  if (feed_config && usesApiKey) {
+    return res.status(400).json({
+      error: 'Unsaved feed configs cannot use {{api_key}} headers - save the source first',
+    });
+  }
+
+  if (sample !== undefined && typeof sample !== 'string') {
+    return res.status(400).json({ error: 'sample must be a string' });
+  }
+
+  const now = new Date().toISOString();
+  const previewSource: GrantSource = source || {
+    id: '',
+    source_key: source_key || 'feed_preview',
+    source_name: req.body.source_name || 'Feed preview',
+    source_type: 'state',
+    api_enabled: true,
+    api_base_url: config.feed_url,
+    api_key_required: false,
+    sync_enabled: false,
+    sync_frequency: 'manual',
+    created_at: now,
+    updated_at: now,
+  };
+
+  try {
+    const apiKey =
+      source && !feed_config
+        ? process.env[`${source.source_key.toUpperCase()}_API_KEY`]
+        : undefined;
+    const adapter = new FeedGrantAdapter(previewSource, apiKey, config);
+    const result = await adapter.dryRun(sample, Math.min(Number(limit) || 25, 100));
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Feed dry run error:', error);
+    return res.status(500).json({
+      error: 'Dry run failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create or update a feed source (upsert on source_key)
+ */
+async function handleSaveSource(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient) {
+  const {
+    source_key,
+    source_name,
+    source_type = 'state',
+    feed_config,
+    api_key_required = false,
+    rate_limit_per_minute,
+    sync_enabled = false,
+    sync_frequency = 'daily',
+  } = req.body || {};
+
+  if (!source_key || typeof source_key !== 'string' || !/^[a-z0-9_]+$/.test(source_key)) {
+    return res
+      .status(400)
+      .json({ error: 'source_key is required (lowercase letters, numbers and underscores)' });
+  }
+
+  if (!source_name || typeof source_name !== 'string') {
+    return res.status(400).json({ error: 'source_name is required' });
+  }
+
+  if (!SOURCE_TYPES.includes(source_type)) {
+    return res.status(400).json({ error: `source_type must be one of ${SOURCE_TYPES.join(', ')}` });
+  }
+
+  if (!SYNC_FREQUENCIES.includes(sync_frequency)) {
+    return res
+      .status(400)
+      .json({ error: `sync_frequency must be one of ${SYNC_FREQUENCIES.join(', ')}` });
+  }
+
+  // Built-in adapters keep their own code path
+  const builtInKeys = getAvailableAdapters()
+    .map((adapter) => adapter.key)
+    .filter((key) => key !== 'feed');
+  if (builtInKeys.includes(source_key)) {
+    return res
+      .status(400)
+      .json({ error: `${source_key} is a built-in source and cannot use a feed mapping` });
+  }
+
+  const configErrors = validateFeedConfig(feed_config);
+  if (configErrors.length > 0) {
+    return res.status(400).json({ error: 'Invalid feed_config', details: configErrors });
+  }
+
+  const { data: source, error } = await supabase
+    .from('grant_sources')
+    .upsert(
+      {
+        source_key,
+        source_name,
+        source_type,
+        api_enabled: true,
+        api_base_url: feed_config.feed_url || null,
+        api_key_required,
+        rate_limit_per_minute: rate_limit_per_minute || null,
+        sync_enabled,
+        sync_frequency,
+        feed_config,
+      },
+      { onConflict: 'source_key' },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving grant source:', error);
+    return res.status(500).json({ error: 'Failed to save grant source' });
+  }
+
+  return res.status(200).json({ source });
+}
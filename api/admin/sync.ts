@@ -2,15 +2,21 @@
  * Admin Sync API
  *
  * Endpoints for managing grant source synchronization
- * POST /api/admin/sync - Trigger a sync job
- * GET /api/admin/sync - Get sync history
+ * POST /api/admin/sync - Trigger a sync job ({ source_key, job_type, external_id })
+ *                        or resume a checkpointed one ({ job_id })
+ * GET /api/admin/sync?source_key=... - Get sync history for a source
+ * GET /api/admin/sync - Get recent jobs across all sources, with progress
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { SyncService } from '../../lib/grants/SyncService.js';
+import type { SyncJob } from '../../lib/grants/types.js';
 import { rateLimitAdmin, handleRateLimit } from '../utils/ratelimit';
 
+// Full syncs pause at a checkpoint after this long; the hourly cron resumes them
+const TIME_BUDGET_MS = 45 * 1000;
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Apply rate limiting (30 req/min per IP)
   const rateLimitResult = await rateLimitAdmin(req);
@@ -72,7 +78,26 @@ async function handleTriggerSync(
   supabaseUrl: string,
   supabaseServiceKey: string
 ) {
-  const { source_key, job_type = 'full', external_id } = req.body;
+  const { source_key, job_type = 'full', external_id, job_id } = req.body;
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  if (job_id) {
+    try {
+      const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
+      const job = await syncService.resumeSync(job_id, { deadline });
+
+      return res.status(200).json({
+        message: getJobMessage(job),
+        job,
+      });
+    } catch (error) {
+      console.error('Sync resume error:', error);
+      return res.status(500).json({
+        error: 'Sync failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
 
   if (!source_key) {
     return res.status(400).json({ error: 'source_key is required' });
@@ -84,10 +109,10 @@ async function handleTriggerSync(
 
   try {
     const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
-    const job = await syncService.runSync(source_key, job_type as any, external_id);
+    const job = await syncService.runSync(source_key, job_type as any, external_id, { deadline });
 
     return res.status(200).json({
-      message: 'Sync job completed',
+      message: getJobMessage(job),
       job,
     });
   } catch (error) {
@@ -107,12 +132,18 @@ async function handleGetSyncHistory(
 ) {
   const { source_key } = req.query;
 
-  if (!source_key || typeof source_key !== 'string') {
-    return res.status(400).json({ error: 'source_key is required' });
+  if (source_key !== undefined && typeof source_key !== 'string') {
+    return res.status(400).json({ error: 'source_key must be a string' });
   }
 
   try {
     const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
+
+    if (!source_key) {
+      const jobs = await syncService.getRecentJobs();
+      return res.status(200).json({ jobs });
+    }
+
     const history = await syncService.getSyncHistory(source_key);
 
     return res.status(200).json({ history });
@@ -123,3 +154,10 @@ async function handleGetSyncHistory(
     });
   }
 }
+
+function getJobMessage(job: SyncJob): string {
+  if (job.status === 'pending') {
+    return `Sync job paused after ${job.pages_completed || 0} pages; the sync cron will resume it`;
+  }
+  return 'Sync job completed';
+}
@@ -7,7 +7,7 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { Resend } from 'resend';
+import { notifyUser } from '../utils/notifications.js';
 
 /**
  * Generates HTML email for grant alert notifications
@@ -149,7 +149,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         let query = supabase
           .from('grants_catalog')
           .select('*')
-          .eq('is_active', true);
+          .eq('is_active', true)
+          .eq('record_type', 'opportunity')
+          .is('canonical_grant_id', null); // Skip confirmed cross-source duplicates
 
         // Apply filters from alert
         if (alert.keyword) {
@@ -259,6 +261,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
           emailsQueued++;
           alertsWithMatches.push({
+            user_id: alert.user_id,
+            org_id: alert.org_id,
             alert_name: alert.name,
             user_email: userEmail,
             user_name: alert.user_profiles?.full_name || 'User',
@@ -281,36 +285,51 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // Send email notifications using Resend
+    // Send email notifications as each user's notification preferences allow
     if (emailsQueued > 0) {
-      const resendApiKey = process.env.RESEND_API_KEY;
-
-      if (!resendApiKey) {
-        console.error('[Alert Check] RESEND_API_KEY not configured - emails cannot be sent');
-        console.log('[Alert Check] Alerts with matches (not sent):', alertsWithMatches);
-      } else {
-        const resend = new Resend(resendApiKey);
-        let emailsSent = 0;
-        let emailsFailed = 0;
-
-        for (const alert of alertsWithMatches) {
-          try {
-            await resend.emails.send({
+      let emailsSent = 0;
+      let emailsHeld = 0;
+      let emailsFailed = 0;
+
+      for (const alert of alertsWithMatches) {
+        const subject = `${alert.matches_count} New Grant${alert.matches_count === 1 ? '' : 's'} Match Your Alert: ${alert.alert_name}`;
+
+        try {
+          const delivery = await notifyUser(supabase, {
+            user_id: alert.user_id,
+            org_id: alert.org_id,
+            event: 'alert_match',
+            title: subject,
+            message: alert.matches.slice(0, 3).map((match: any) => match.title).join('; '),
+            action_url: '/discover',
+            digest_items: alert.matches.map((match: any) => ({
+              title: `New grant match: ${match.title}`,
+              message: `${match.agency || 'Unknown agency'} (alert: ${alert.alert_name})`,
+              action_url: '/discover',
+            })),
+            email: {
               from: 'GrantCue Alerts <alerts@grantcue.com>',
               to: alert.user_email,
-              subject: `${alert.matches_count} New Grant${alert.matches_count === 1 ? '' : 's'} Match Your Alert: ${alert.alert_name}`,
+              subject,
               html: generateAlertEmailHTML(alert),
-            });
+            },
+          });
+
+          if (delivery.email === 'sent') {
             emailsSent++;
             console.log(`[Alert Check] Email sent to ${alert.user_email} for alert "${alert.alert_name}"`);
-          } catch (error) {
+          } else if (delivery.email === 'held') {
+            emailsHeld++;
+          } else if (delivery.email === 'failed') {
             emailsFailed++;
-            console.error(`[Alert Check] Failed to send email to ${alert.user_email}:`, error);
           }
+        } catch (error) {
+          emailsFailed++;
+          console.error(`[Alert Check] Failed to send email to ${alert.user_email}:`, error);
         }
-
-        console.log(`[Alert Check] Email summary: ${emailsSent} sent, ${emailsFailed} failed out of ${emailsQueued} queued`);
       }
+
+      console.log(`[Alert Check] Email summary: ${emailsSent} sent, ${emailsHeld} held for digest, ${emailsFailed} failed out of ${emailsQueued} queued`);
     }
 
     return res.status(200).json({
@@ -0,0 +1,207 @@
+/**
+ * Organization API Keys API
+ *
+ * GET /api/api-keys?org_id=xxx
+ *   - List the organization's keys (never the key itself) and the available scopes
+ *
+ * POST /api/api-keys
+ *   - Create a key
+ *   - Body: { org_id: string, name: string, scopes: string[], expires_at?: string | null }
+ *   - The plaintext key is only included in this response
+ *
+ * DELETE /api/api-keys?id=xxx
+ *   - Revoke a key
+ *
+ * All methods require an org admin signed in with a user session; API keys
+ * cannot manage other keys.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserAuth, verifyOrgAdmin, sendAuthError } from './utils/auth-middleware.js';
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  extractApiKey,
+  generateApiKey,
+  isApiKeyScope,
+} from './utils/api-keys.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const MAX_KEYS_PER_ORG = 25;
+
+// Columns safe to return; key_hash never leaves the server
+const API_KEY_COLUMNS =
+  'id, org_id, name, key_prefix, scopes, created_by, created_at, expires_at, last_used_at, last_used_ip, revoked_at';
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  if (extractApiKey(req.headers)) {
+    return res.status(403).json({ error: 'API keys cannot be used to manage API keys' });
+  }
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - List keys
+  if (req.method === 'GET') {
+    const { org_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    const { data: keys, error } = await supabase
+      .from('org_api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('org_id', org_id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({
+      keys,
+      scopes: API_KEY_SCOPES.map((scope) => ({
+        scope,
+        description: API_KEY_SCOPE_DESCRIPTIONS[scope],
+      })),
+    });
+  }
+
+  // POST - Create key
+  if (req.method === 'POST') {
+    const { org_id, name, scopes, expires_at } = req.body || {};
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    if (!name || typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return res.status(400).json({ error: 'name is required (max 100 characters)' });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({ error: 'At least one scope is required' });
+    }
+
+    const invalidScopes = scopes.filter((scope) => !isApiKeyScope(scope));
+    if (invalidScopes.length > 0) {
+      return res.status(400).json({
+        error: `Invalid scopes: ${invalidScopes.join(', ')}. Valid scopes: ${API_KEY_SCOPES.join(', ')}`,
+      });
+    }
+
+    if (expires_at !== undefined && expires_at !== null) {
+      const expiresAt = new Date(expires_at);
+      if (typeof expires_at !== 'string' || isNaN(expiresAt.getTime())) {
+        return res.status(400).json({ error: 'expires_at must be an ISO date' });
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'expires_at must be in the future' });
+      }
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    const { count } = await supabase
+      .from('org_api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('org_id', org_id)
+      .is('revoked_at', null);
+
+    if ((count || 0) >= MAX_KEYS_PER_ORG) {
+      return res.status(400).json({
+        error: `Organizations can have at most ${MAX_KEYS_PER_ORG} active API keys. Revoke unused keys first.`,
+      });
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data: apiKey, error } = await supabase
+      .from('org_api_keys')
+      .insert({
+        org_id,
+        name: name.trim(),
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: Array.from(new Set(scopes)),
+        created_by: user.id,
+        expires_at: expires_at || null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(201).json({ key: apiKey, secret: key });
+  }
+
+  // DELETE - Revoke key
+  if (req.method === 'DELETE') {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'id is required' });
+    }
+
+    const { data: existing } = await supabase
+      .from('org_api_keys')
+      .select('org_id, revoked_at')
+      .eq('id', id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, existing.org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    if (existing.revoked_at) {
+      return res.status(400).json({ error: 'API key is already revoked' });
+    }
+
+    const { data: apiKey, error } = await supabase
+      .from('org_api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ key: apiKey });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'DELETE'], requestId);
+});
@@ -1,10 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { Resend } from 'resend';
+import { notifyGrantEvent, notifyUser } from './utils/notifications.js';
+import { applyStageTaskTemplates } from './utils/task-templates.js';
+import { checkStageEntry } from './utils/pipeline-stages.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const resendApiKey = process.env.RESEND_API_KEY;
 
 if (!supabaseUrl || !supabaseServiceKey) {
   console.error('Missing Supabase environment variables');
@@ -108,18 +109,14 @@ function generateApprovalRequestEmailHTML(data: {
 }
 
 /**
- * Sends email notifications to approvers
+ * Notifies approvers by email, Slack and Teams as their notification
+ * preferences allow (the in-app notification is created by a trigger)
  */
 async function sendApprovalEmails(
   supabase: any,
   requestId: string,
   approverIds: string[]
 ) {
-  if (!resendApiKey) {
-    console.warn('[Approval Requests] RESEND_API_KEY not configured - skipping email notifications');
-    return;
-  }
-
   // Get request details
   const { data: request } = await supabase
     .from('approval_requests')
@@ -148,34 +145,41 @@ async function sendApprovalEmails(
     return;
   }
 
-  const resend = new Resend(resendApiKey);
-  const approvalUrl = `https://grantcue.com/pipeline?approval=${requestId}`;
+  const approvalPath = `/pipeline?approval=${requestId}`;
+  const grantTitle = request.grant?.title || 'Grant Application';
+  const subject = `Approval Required: ${grantTitle}`;
+  const html = generateApprovalRequestEmailHTML({
+    requester_name: request.requester?.full_name || 'A team member',
+    grant_title: grantTitle,
+    from_stage: request.from_stage,
+    to_stage: request.to_stage,
+    request_notes: request.request_notes,
+    org_name: request.organization?.name || 'Your Organization',
+    approval_url: `https://grantcue.com${approvalPath}`,
+  });
 
   for (const approver of approvers) {
-    if (!approver.email) {
-      console.warn(`[Approval Requests] Skipping approver ${approver.id} - no email found`);
-      continue;
-    }
-
     try {
-      await resend.emails.send({
-        from: 'GrantCue Approvals <approvals@grantcue.com>',
-        to: approver.email,
-        subject: `Approval Required: ${request.grant?.title || 'Grant Application'}`,
-        html: generateApprovalRequestEmailHTML({
-          requester_name: request.requester?.full_name || 'A team member',
-          grant_title: request.grant?.title || 'Grant Application',
-          from_stage: request.from_stage,
-          to_stage: request.to_stage,
-          request_notes: request.request_notes,
-          org_name: request.organization?.name || 'Your Organization',
-          approval_url: approvalUrl,
-        }),
+      const delivery = await notifyUser(supabase, {
+        user_id: approver.id,
+        org_id: request.org_id,
+        event: 'approval_requested',
+        title: subject,
+        message: `${request.requester?.full_name || 'A team member'} asks to move ${grantTitle} from ${request.from_stage} to ${request.to_stage}.`,
+        action_url: approvalPath,
+        grant_id: request.grant_id,
+        urgent: true,
+        email: {
+          from: 'GrantCue Approvals <approvals@grantcue.com>',
+          to: approver.email || undefined,
+          subject,
+          html,
+        },
       });
 
-      console.log(`[Approval Requests] Email sent to ${approver.email} for request ${requestId}`);
+      console.log(`[Approval Requests] Notified approver ${approver.id} for request ${requestId} (email: ${delivery.email})`);
     } catch (error) {
-      console.error(`[Approval Requests] Failed to send email to ${approver.email}:`, error);
+      console.error(`[Approval Requests] Failed to notify approver ${approver.id}:`, error);
     // Import sanitizeError from error-handler
     const { sanitizeError } = await import('./utils/error-handler.js');
     }
@@ -280,6 +284,7 @@ export default async function handler(
       case 'POST': {
         // Create a new approval request
         const { grant_id, from_stage, to_stage, request_notes } = req.body;
+        const origin = req.headers.origin || 'https://grantcue.com';
 
         if (!grant_id || !from_stage || !to_stage) {
           return res.status(400).json({ error: 'Missing required fields' });
@@ -288,7 +293,7 @@ export default async function handler(
         // Get the grant and verify access
         const { data: grant } = await supabase
           .from('org_grants_saved')
-          .select('org_id, status')
+          .select('*')
           .eq('id', grant_id)
           .single();
 
@@ -315,6 +320,15 @@ export default async function handler(
           });
         }
 
+        // The grant has to meet the target stage's requirements before approval is requested
+        const stageCheck = await checkStageEntry(supabase, grant.org_id, to_stage, grant);
+        if (stageCheck.error) {
+          return res.status(400).json({
+            error: stageCheck.error,
+            missing_fields: stageCheck.missing_fields,
+          });
+        }
+
         // Find applicable workflow
         const { data: workflow } = await supabase
           .from('approval_workflows')
@@ -345,6 +359,16 @@ export default async function handler(
             return res.status(500).json({ error: 'Failed to update grant status' });
           }
 
+          await notifyGrantEvent(grant_id, 'grant.stage_changed', origin, {
+            from_stage,
+            to_stage,
+            changed_by: user.id,
+          });
+
+          await applyStageTaskTemplates(supabase, grant_id, to_stage, user.id).catch((templateError) => {
+            console.error('Error applying stage task templates:', templateError);
+          });
+
           return res.status(200).json({
             auto_approved: true,
             message: 'Stage transition auto-approved for admin'
@@ -405,6 +429,15 @@ export default async function handler(
           });
         }
 
+        await notifyGrantEvent(grant_id, 'approval.requested', origin, {
+          approval_request_id: request.id,
+          from_stage,
+          to_stage,
+          requested_by: user.id,
+          request_notes: request_notes || null,
+          approval_level: 1,
+        });
+
         return res.status(201).json({ request });
       }
 
@@ -412,6 +445,7 @@ export default async function handler(
         // Approve or reject a request
         const { id } = req.query;
         const { decision, comments } = req.body;
+        const origin = req.headers.origin || 'https://grantcue.com';
 
         if (!id || typeof id !== 'string') {
           return res.status(400).json({ error: 'Request id is required' });
@@ -521,6 +555,14 @@ export default async function handler(
             })
             .eq('id', id);
 
+          await notifyGrantEvent(request.grant_id, 'approval.rejected', origin, {
+            approval_request_id: id,
+            from_stage: request.from_stage,
+            to_stage: request.to_stage,
+            decided_by: user.id,
+            rejection_reason: comments || null,
+          });
+
           return res.status(200).json({
             decision: 'rejected',
             message: 'Approval request rejected'
@@ -577,6 +619,15 @@ export default async function handler(
               });
             }
 
+            await notifyGrantEvent(request.grant_id, 'approval.requested', origin, {
+              approval_request_id: id,
+              from_stage: request.from_stage,
+              to_stage: request.to_stage,
+              requested_by: request.requested_by,
+              request_notes: request.request_notes,
+              approval_level: request.current_approval_level + 1,
+            });
+
             return res.status(200).json({
               decision: 'approved',
               message: 'Approval recorded, moved to next level',
@@ -607,6 +658,27 @@ export default async function handler(
               });
             }
 
+            await notifyGrantEvent(request.grant_id, 'approval.approved', origin, {
+              approval_request_id: id,
+              from_stage: request.from_stage,
+              to_stage: request.to_stage,
+              decided_by: user.id,
+              comments: comments || null,
+            });
+
+            await notifyGrantEvent(request.grant_id, 'grant.stage_changed', origin, {
+              from_stage: request.from_stage,
+              to_stage: request.to_stage,
+              changed_by: user.id,
+              approval_request_id: id,
+            });
+
+            await applyStageTaskTemplates(supabase, request.grant_id, request.to_stage, user.id).catch(
+              (templateError) => {
+                console.error('Error applying stage task templates:', templateError);
+              }
+            );
+
             return res.status(200).json({
               decision: 'approved',
               message: 'Request fully approved, grant status updated',
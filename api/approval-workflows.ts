@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { fetchPipelineStages, workflowTransitionError } from './utils/pipeline-stages.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -121,6 +122,15 @@ export default async function handler(
           return res.status(403).json({ error: 'Only admins can create workflows' });
         }
 
+        const transitionError = workflowTransitionError(
+          await fetchPipelineStages(supabase, workflowData.org_id),
+          workflowData.from_stage,
+          workflowData.to_stage
+        );
+        if (transitionError) {
+          return res.status(400).json({ error: transitionError });
+        }
+
         // Validate approval chain
         if (!workflowData.approval_chain || workflowData.approval_chain.length === 0) {
           return res.status(400).json({ error: 'approval_chain must have at least one level' });
@@ -181,7 +191,7 @@ export default async function handler(
         // Get the workflow to verify permissions
         const { data: workflow } = await supabase
           .from('approval_workflows')
-          .select('org_id')
+          .select('org_id, from_stage, to_stage')
           .eq('id', id)
           .single();
 
@@ -201,6 +211,17 @@ export default async function handler(
           return res.status(403).json({ error: 'Only admins can update workflows' });
         }
 
+        if (updates.from_stage || updates.to_stage) {
+          const transitionError = workflowTransitionError(
+            await fetchPipelineStages(supabase, workflow.org_id),
+            updates.from_stage || workflow.from_stage,
+            updates.to_stage || workflow.to_stage
+          );
+          if (transitionError) {
+            return res.status(400).json({ error: transitionError });
+          }
+        }
+
         // If updating to active and changing stage transition, check for conflicts
         if (updates.is_active && (updates.from_stage || updates.to_stage)) {
           const { data: currentWorkflow } = await supabase
@@ -0,0 +1,144 @@
+/**
+ * Budget Builder API
+ *
+ * GET /api/budget-builder?budget_id=xxx
+ *   - The budget's builder inputs (budget periods, fringe rates, personnel,
+ *     other direct costs, indirect rate) and the calculated totals per period
+ *     and category
+ *
+ * PUT /api/budget-builder
+ *   - Replace the builder inputs, recalculate, and roll the totals up into the
+ *     budget's line items and proposed amount
+ *   - Body: { budget_id, periods, fringe_rates, personnel, cost_items,
+ *     indirect_rate, indirect_base }
+ *
+ * See api/utils/budget-builder.ts for how costs are calculated.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { notifyGrantEvent } from './utils/notifications.js';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { validateBody, budgetBuilderUpdateSchema } from './utils/validation';
+import {
+  calculateBudget,
+  fetchBuilderInputs,
+  rollupToLineItems,
+  saveBuilderInputs,
+} from './utils/budget-builder.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const BUDGET_COLUMNS =
+  'id, grant_id, org_id, status, proposed_amount, awarded_amount, indirect_rate, indirect_base';
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Builder inputs and calculated totals
+  if (req.method === 'GET') {
+    const { budget_id } = req.query;
+
+    if (!budget_id || typeof budget_id !== 'string') {
+      return res.status(400).json({ error: 'budget_id is required' });
+    }
+
+    const { data: budget, error } = await supabase
+      .from('grant_budgets')
+      .select(BUDGET_COLUMNS)
+      .eq('id', budget_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!budget) {
+      return ErrorHandlers.notFound(res, 'Budget', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    const inputs = await fetchBuilderInputs(supabase, budget);
+
+    return res.status(200).json({ inputs, calculation: calculateBudget(inputs) });
+  }
+
+  // PUT - Save inputs and roll up into line items
+  if (req.method === 'PUT') {
+    const validation = validateBody(req, res, budgetBuilderUpdateSchema);
+    if (!validation.success) return;
+
+    const { budget_id, ...inputs } = validation.data;
+
+    const { data: budget, error } = await supabase
+      .from('grant_budgets')
+      .select(BUDGET_COLUMNS)
+      .eq('id', budget_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!budget) {
+      return ErrorHandlers.notFound(res, 'Budget', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:edit');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    const calculation = calculateBudget(inputs);
+
+    await saveBuilderInputs(supabase, budget, inputs);
+    await rollupToLineItems(supabase, budget, inputs, calculation);
+
+    await notifyGrantEvent(
+      budget.grant_id,
+      'budget.updated',
+      req.headers.origin || 'https://grantcue.com',
+      {
+        budget_id: budget.id,
+        status: budget.status,
+        previous_status: budget.status,
+        proposed_amount: calculation.total,
+        awarded_amount: Number(budget.awarded_amount),
+        changed_fields: ['proposed_amount', 'line_items'],
+        updated_by: user.id,
+      },
+    );
+
+    return res.status(200).json({ inputs, calculation });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'PUT'], requestId);
+});
@@ -0,0 +1,172 @@
+/**
+ * Budget Export API
+ *
+ * GET /api/budget-export?budget_id=xxx
+ *   - The budget laid out as the SF-424A (Sections A-F) by budget period and
+ *     object class, the narrative budget justification, and any totals that
+ *     don't reconcile (line items against the budget builder, categories
+ *     against the proposed amount, match against the required match)
+ *   - Returns { form, issues, documents: { sf424a, justification } }; the
+ *     documents are layout blocks the app prints to PDF
+ *
+ * GET /api/budget-export?budget_id=xxx&format=xlsx
+ *   - Both documents as an Excel workbook
+ *
+ * See api/utils/sf424a.ts for how the form is filled in.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { calculateBudget, fetchBuilderInputs } from './utils/budget-builder.js';
+import {
+  blocksToRows,
+  buildSf424a,
+  justificationBlocks,
+  reconcileBudget,
+  sf424aBlocks,
+} from './utils/sf424a.js';
+import { buildXlsx } from './utils/xlsx.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const { budget_id, format = 'json' } = req.query;
+
+  if (!budget_id || typeof budget_id !== 'string') {
+    return res.status(400).json({ error: 'budget_id is required' });
+  }
+
+  if (format !== 'json' && format !== 'xlsx') {
+    return res.status(400).json({ error: 'format must be json or xlsx' });
+  }
+
+  const { data: budget, error } = await supabase
+    .from('grant_budgets')
+    .select(
+      'id, grant_id, org_id, proposed_amount, match_required, match_amount, budget_period_start, budget_period_end, indirect_rate, indirect_base',
+    )
+    .eq('id', budget_id)
+    .maybeSingle();
+
+  if (error) {
+    return ErrorHandlers.database(res, error, requestId);
+  }
+
+  if (!budget) {
+    return ErrorHandlers.notFound(res, 'Budget', requestId);
+  }
+
+  const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+  if (!accessResult.success) {
+    return sendAuthError(res, accessResult);
+  }
+
+  const [{ data: grant }, { data: org }, { data: lineItems, error: lineItemsError }, inputs] =
+    await Promise.all([
+      supabase
+        .from('org_grants_saved')
+        .select('title, aln, agency')
+        .eq('id', budget.grant_id)
+        .maybeSingle(),
+      supabase.from('organizations').select('name').eq('id', budget.org_id).maybeSingle(),
+      supabase
+        .from('budget_line_items')
+        .select('category, description, notes, proposed_amount, builder_generated')
+        .eq('budget_id', budget.id)
+        .order('line_number', { ascending: true, nullsFirst: false }),
+      fetchBuilderInputs(supabase, budget),
+    ]);
+
+  if (lineItemsError) {
+    return ErrorHandlers.database(res, lineItemsError, requestId);
+  }
+
+  // Budgets that were never built in the budget builder use their line items
+  const builder =
+    inputs.periods.length > 0 ? { inputs, calculation: calculateBudget(inputs) } : null;
+
+  const items = (lineItems || []).map((item) => ({
+    ...item,
+    proposed_amount: Number(item.proposed_amount),
+  }));
+
+  const exportBudget = {
+    proposed_amount: Number(budget.proposed_amount),
+    match_required: budget.match_required,
+    match_amount: Number(budget.match_amount),
+    budget_period_start: budget.budget_period_start,
+    budget_period_end: budget.budget_period_end,
+  };
+
+  const form = buildSf424a(
+    { title: grant?.title || 'Grant', aln: grant?.aln || null, agency: grant?.agency || null },
+    org?.name || 'Applicant',
+    exportBudget,
+    items,
+    builder,
+  );
+
+  const issues = reconcileBudget(form, exportBudget, items, !!builder);
+
+  const documents = {
+    sf424a: sf424aBlocks(form),
+    justification: justificationBlocks(form, items, builder),
+  };
+
+  if (format === 'xlsx') {
+    const workbook = buildXlsx([
+      {
+        name: 'SF-424A',
+        rows: blocksToRows(documents.sf424a),
+        column_widths: [45, 28, 22, 22, 22, 22, 22],
+      },
+      {
+        name: 'Budget Justification',
+        rows: blocksToRows(documents.justification),
+        column_widths: [80, 16, 16, 16, 16, 16, 16],
+      },
+    ]);
+
+    const slug = (grant?.title || 'grant')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .slice(0, 50);
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="sf-424a-${slug}.xlsx"`);
+    return res.status(200).send(workbook);
+  }
+
+  return res.status(200).json({ form, issues, documents });
+});
@@ -0,0 +1,497 @@
+/**
+ * Budget Revisions API
+ *
+ * GET /api/budget-revisions?budget_id=xxx
+ *   - The budget's revision requests with their before/after amounts
+ *
+ * POST /api/budget-revisions
+ *   - Request a revision; org admins are asked to approve it
+ *   - Body: { budget_id, reason, lines: [{ line_item_id, after_amount }] }
+ *   - One pending revision per budget
+ *
+ * PATCH /api/budget-revisions?revision_id=xxx
+ *   - Approve or reject a pending revision (org admins other than the
+ *     requester). Approving writes the new amounts to the line items.
+ *   - Body: { decision: 'approved' | 'rejected', comments? }
+ *
+ * DELETE /api/budget-revisions?revision_id=xxx
+ *   - Cancel a pending revision (requester or org admin)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { notifyGrantEvent, notifyUser } from './utils/notifications.js';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import {
+  validateBody,
+  budgetRevisionCreateSchema,
+  budgetRevisionDecisionSchema,
+} from './utils/validation';
+import { CATEGORY_LABELS } from './utils/budget-builder.js';
+import {
+  applyBudgetRevision,
+  budgetedAmountColumn,
+  calculateVariance,
+  fetchBudgetRevisions,
+  fetchVarianceInputs,
+} from './utils/budget-variance.js';
+import { generateBudgetRevisionEmail } from '../lib/emails/budget-revision-template.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const BUDGET_COLUMNS =
+  'id, grant_id, org_id, status, proposed_amount, awarded_amount, budget_period_start, budget_period_end, rebudget_threshold_percent';
+
+function categoryLabel(category: string): string {
+  return (CATEGORY_LABELS as Record<string, string>)[category] || category;
+}
+
+/**
+ * Asks the org's admins, other than the requester, to approve a revision
+ */
+async function notifyRevisionApprovers(
+  supabase: any,
+  revision: {
+    id: string;
+    org_id: string;
+    grant_id: string;
+    requested_by: string;
+    reason: string;
+    transfer_percent: number;
+    threshold_percent: number;
+  },
+  lines: Array<{
+    category: string;
+    description: string;
+    before_amount: number;
+    after_amount: number;
+  }>,
+) {
+  const [{ data: admins }, { data: requester }, { data: grant }, { data: org }] = await Promise.all(
+    [
+      supabase
+        .from('org_members')
+        .select('user_id')
+        .eq('org_id', revision.org_id)
+        .eq('role', 'admin')
+        .neq('user_id', revision.requested_by),
+      supabase
+        .from('user_profiles')
+        .select('full_name')
+        .eq('id', revision.requested_by)
+        .maybeSingle(),
+      supabase.from('org_grants_saved').select('title').eq('id', revision.grant_id).maybeSingle(),
+      supabase.from('organizations').select('name').eq('id', revision.org_id).maybeSingle(),
+    ],
+  );
+
+  if (!admins || admins.length === 0) {
+    console.warn(`[Budget Revisions] No approvers for revision ${revision.id}`);
+    return;
+  }
+
+  const requesterName = requester?.full_name || 'A team member';
+  const grantTitle = grant?.title || 'Grant';
+  const subject = `Budget Revision Approval Required: ${grantTitle}`;
+  const html = generateBudgetRevisionEmail({
+    requester_name: requesterName,
+    grant_title: grantTitle,
+    grant_id: revision.grant_id,
+    reason: revision.reason,
+    lines: lines.map((line) => ({ ...line, category_label: categoryLabel(line.category) })),
+    transfer_percent: revision.transfer_percent,
+    threshold_percent: revision.threshold_percent,
+    org_name: org?.name || 'Your Organization',
+  });
+
+  for (const admin of admins) {
+    try {
+      const delivery = await notifyUser(supabase, {
+        user_id: admin.user_id,
+        org_id: revision.org_id,
+        event: 'approval_requested',
+        title: subject,
+        message: `${requesterName} requested a budget revision for ${grantTitle}.`,
+        action_url: `/grants/${revision.grant_id}`,
+        grant_id: revision.grant_id,
+        urgent: true,
+        in_app: {
+          type: 'system',
+          related_grant_id: revision.grant_id,
+          metadata: { budget_revision_id: revision.id },
+        },
+        email: {
+          from: 'GrantCue Approvals <approvals@grantcue.com>',
+          subject,
+          html,
+        },
+      });
+
+      console.log(
+        `[Budget Revisions] Notified approver ${admin.user_id} for revision ${revision.id} (email: ${delivery.email})`,
+      );
+    } catch (error) {
+      console.error(`[Budget Revisions] Failed to notify approver ${admin.user_id}:`, error);
+    }
+  }
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Revisions of a budget
+  if (req.method === 'GET') {
+    const { budget_id } = req.query;
+
+    if (!budget_id || typeof budget_id !== 'string') {
+      return res.status(400).json({ error: 'budget_id is required' });
+    }
+
+    const { data: budget, error } = await supabase
+      .from('grant_budgets')
+      .select('id, org_id')
+      .eq('id', budget_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!budget) {
+      return ErrorHandlers.notFound(res, 'Budget', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    const revisions = await fetchBudgetRevisions(supabase, budget.id);
+
+    return res.status(200).json({ revisions });
+  }
+
+  // POST - Request a revision
+  if (req.method === 'POST') {
+    const validation = validateBody(req, res, budgetRevisionCreateSchema);
+    if (!validation.success) return;
+
+    const { budget_id, reason, lines } = validation.data;
+
+    const { data: budget, error } = await supabase
+      .from('grant_budgets')
+      .select(BUDGET_COLUMNS)
+      .eq('id', budget_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!budget) {
+      return ErrorHandlers.notFound(res, 'Budget', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:edit');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    const { lineItems, expenses } = await fetchVarianceInputs(supabase, budget.id);
+    const column = budgetedAmountColumn(budget);
+    const lineItemsById = new Map(lineItems.map((item) => [item.id, item]));
+
+    const missing = lines.find((line) => !lineItemsById.has(line.line_item_id));
+    if (missing) {
+      return res
+        .status(400)
+        .json({ error: `Line item ${missing.line_item_id} is not part of this budget` });
+    }
+
+    const revisionLines = lines
+      .map((line) => {
+        const item = lineItemsById.get(line.line_item_id)!;
+        return {
+          line_item_id: item.id,
+          category: item.category,
+          description: item.description,
+          before_amount: item[column],
+          after_amount: line.after_amount,
+        };
+      })
+      .filter((line) => line.after_amount !== line.before_amount);
+
+    if (revisionLines.length === 0) {
+      return res.status(400).json({ error: 'The revision does not change any amounts' });
+    }
+
+    const variance = calculateVariance(
+      {
+        awarded_amount: Number(budget.awarded_amount),
+        budget_period_start: budget.budget_period_start,
+        budget_period_end: budget.budget_period_end,
+        rebudget_threshold_percent: Number(budget.rebudget_threshold_percent),
+      },
+      lineItems,
+      expenses,
+      new Date().toISOString().split('T')[0],
+    );
+
+    const beforeTotal = lineItems.reduce((sum, item) => sum + item[column], 0);
+    const change = revisionLines.reduce(
+      (sum, line) => sum + line.after_amount - line.before_amount,
+      0,
+    );
+
+    const { data: revision, error: createError } = await supabase
+      .from('budget_revisions')
+      .insert({
+        budget_id: budget.id,
+        grant_id: budget.grant_id,
+        org_id: budget.org_id,
+        reason,
+        before_total: beforeTotal,
+        after_total: beforeTotal + change,
+        transfer_percent: variance.cumulative_transfer_percent,
+        threshold_percent: variance.threshold_percent,
+        requested_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      // Unique index on pending revisions per budget
+      if (createError.code === '23505') {
+        return res.status(409).json({ error: 'This budget already has a pending revision' });
+      }
+      return ErrorHandlers.database(res, createError, requestId);
+    }
+
+    const { error: linesError } = await supabase
+      .from('budget_revision_lines')
+      .insert(
+        revisionLines.map((line) => ({ ...line, revision_id: revision.id, org_id: budget.org_id })),
+      );
+
+    if (linesError) {
+      await supabase.from('budget_revisions').delete().eq('id', revision.id);
+      return ErrorHandlers.database(res, linesError, requestId);
+    }
+
+    notifyRevisionApprovers(supabase, revision, revisionLines).catch((notifyError) => {
+      console.error('Error notifying budget revision approvers:', notifyError);
+    });
+
+    return res.status(201).json({ revision: { ...revision, lines: revisionLines } });
+  }
+
+  // PATCH - Approve or reject
+  if (req.method === 'PATCH') {
+    const { revision_id } = req.query;
+
+    if (!revision_id || typeof revision_id !== 'string') {
+      return res.status(400).json({ error: 'revision_id is required' });
+    }
+
+    const validation = validateBody(req, res, budgetRevisionDecisionSchema);
+    if (!validation.success) return;
+
+    const { decision, comments } = validation.data;
+
+    if (authResult.apiKey) {
+      return res
+        .status(403)
+        .json({ error: 'Budget revisions must be decided by a signed-in admin' });
+    }
+
+    const { data: revision, error } = await supabase
+      .from('budget_revisions')
+      .select(
+        '*, lines:budget_revision_lines (line_item_id, description, before_amount, after_amount)',
+      )
+      .eq('id', revision_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!revision) {
+      return ErrorHandlers.notFound(res, 'Budget revision', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(
+      supabase,
+      authResult,
+      revision.org_id,
+      'grants:edit',
+    );
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    if (accessResult.membership?.role !== 'admin') {
+      return res
+        .status(403)
+        .json({ error: 'Only org admins can approve or reject budget revisions' });
+    }
+
+    if (revision.requested_by === user.id) {
+      return res.status(403).json({ error: 'You cannot decide your own budget revision' });
+    }
+
+    if (revision.status !== 'pending') {
+      return res.status(400).json({ error: `Revision is already ${revision.status}` });
+    }
+
+    const { data: budget, error: budgetError } = await supabase
+      .from('grant_budgets')
+      .select(BUDGET_COLUMNS)
+      .eq('id', revision.budget_id)
+      .single();
+
+    if (budgetError) {
+      return ErrorHandlers.database(res, budgetError, requestId);
+    }
+
+    if (decision === 'approved') {
+      const conflict = await applyBudgetRevision(
+        supabase,
+        budget,
+        revision.lines.map((line: any) => ({
+          ...line,
+          before_amount: Number(line.before_amount),
+          after_amount: Number(line.after_amount),
+        })),
+      );
+
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('budget_revisions')
+      .update({
+        status: decision,
+        decided_by: user.id,
+        decided_at: new Date().toISOString(),
+        decision_comments: comments || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', revision.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      return ErrorHandlers.database(res, updateError, requestId);
+    }
+
+    if (decision === 'approved') {
+      const column = budgetedAmountColumn(budget);
+      const change = Number(revision.after_total) - Number(revision.before_total);
+
+      await notifyGrantEvent(
+        budget.grant_id,
+        'budget.updated',
+        req.headers.origin || 'https://grantcue.com',
+        {
+          budget_id: budget.id,
+          status: budget.status,
+          previous_status: budget.status,
+          proposed_amount:
+            Number(budget.proposed_amount) + (column === 'proposed_amount' ? change : 0),
+          awarded_amount:
+            Number(budget.awarded_amount) + (column === 'awarded_amount' ? change : 0),
+          changed_fields: change !== 0 ? ['line_items', column] : ['line_items'],
+          updated_by: user.id,
+          budget_revision_id: revision.id,
+        },
+      );
+    }
+
+    return res.status(200).json({ revision: updated });
+  }
+
+  // DELETE - Cancel a pending revision
+  if (req.method === 'DELETE') {
+    const { revision_id } = req.query;
+
+    if (!revision_id || typeof revision_id !== 'string') {
+      return res.status(400).json({ error: 'revision_id is required' });
+    }
+
+    const { data: revision, error } = await supabase
+      .from('budget_revisions')
+      .select('id, org_id, requested_by, status')
+      .eq('id', revision_id)
+      .maybeSingle();
+
+    if (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    if (!revision) {
+      return ErrorHandlers.notFound(res, 'Budget revision', requestId);
+    }
+
+    const accessResult = await verifyOrgAccess(
+      supabase,
+      authResult,
+      revision.org_id,
+      'grants:edit',
+    );
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    if (revision.requested_by !== user.id && accessResult.membership?.role !== 'admin') {
+      return res
+        .status(403)
+        .json({ error: 'Only the requester or an admin can cancel this revision' });
+    }
+
+    if (revision.status !== 'pending') {
+      return res
+        .status(400)
+        .json({ error: `Cannot cancel a revision that is already ${revision.status}` });
+    }
+
+    const { error: cancelError } = await supabase
+      .from('budget_revisions')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', revision.id);
+
+    if (cancelError) {
+      return ErrorHandlers.database(res, cancelError, requestId);
+    }
+
+    return res.status(200).json({ success: true });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'PATCH', 'DELETE'], requestId);
+});
@@ -0,0 +1,94 @@
+/**
+ * Budget Variance API
+ *
+ * GET /api/budget-variance?budget_id=xxx
+ *   - Budgeted, actual and projected spending per category and line item,
+ *     from the budget's approved expenses, projected to the end of the
+ *     budget period at the current burn rate
+ *   - Flags categories whose projected overspending, as a transfer from
+ *     other categories, exceeds the budget's rebudgeting threshold, and
+ *     the budget when cumulative transfers do
+ *
+ * The threshold is the budget's rebudget_threshold_percent, set with
+ * PATCH /api/budgets. See api/utils/budget-variance.ts for the calculation.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { calculateVariance, fetchVarianceInputs } from './utils/budget-variance.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const { budget_id } = req.query;
+
+  if (!budget_id || typeof budget_id !== 'string') {
+    return res.status(400).json({ error: 'budget_id is required' });
+  }
+
+  const { data: budget, error } = await supabase
+    .from('grant_budgets')
+    .select(
+      'id, org_id, awarded_amount, budget_period_start, budget_period_end, rebudget_threshold_percent',
+    )
+    .eq('id', budget_id)
+    .maybeSingle();
+
+  if (error) {
+    return ErrorHandlers.database(res, error, requestId);
+  }
+
+  if (!budget) {
+    return ErrorHandlers.notFound(res, 'Budget', requestId);
+  }
+
+  const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+  if (!accessResult.success) {
+    return sendAuthError(res, accessResult);
+  }
+
+  const { lineItems, expenses } = await fetchVarianceInputs(supabase, budget.id);
+
+  const variance = calculateVariance(
+    {
+      awarded_amount: Number(budget.awarded_amount),
+      budget_period_start: budget.budget_period_start,
+      budget_period_end: budget.budget_period_end,
+      rebudget_threshold_percent: Number(budget.rebudget_threshold_percent),
+    },
+    lineItems,
+    expenses,
+    new Date().toISOString().split('T')[0],
+  );
+
+  return res.status(200).json({ variance });
+});
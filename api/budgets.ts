@@ -2,6 +2,8 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { setCorsHeaders } from './utils/cors.js';
 import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { notifyGrantEvent } from './utils/notifications.js';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -29,22 +31,13 @@ export default wrapHandler(async function handler(
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  // Verify authentication
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return ErrorHandlers.unauthorized(res, 'Missing or invalid authorization header', undefined, requestId);
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
   }
 
-  const token = authHeader.substring(7);
-
-  const {
-    data: { user },
-    error: authError,
-  } = await supabase.auth.getUser(token);
-
-  if (authError || !user) {
-    return ErrorHandlers.unauthorized(res, 'Unauthorized', undefined, requestId);
-  }
+  const user = authResult.user!;
     // GET - Get budget for a grant
     if (req.method === 'GET') {
       const { grant_id, org_id, budget_id } = req.query;
@@ -70,15 +63,9 @@ export default wrapHandler(async function handler(
         }
 
         // Verify access
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('id')
-          .eq('org_id', budget.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return ErrorHandlers.forbidden(res, 'Access denied', undefined, requestId);
+        const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         // Get budget summary separately (it's a view, not a table)
@@ -106,15 +93,9 @@ export default wrapHandler(async function handler(
 
         if (budget) {
           // Verify access
-          const { data: membership } = await supabase
-            .from('org_members')
-            .select('id')
-            .eq('org_id', budget.org_id)
-            .eq('user_id', user.id)
-            .single();
-
-          if (!membership) {
-            return res.status(403).json({ error: 'Access denied' });
+          const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:view');
+          if (!accessResult.success) {
+            return sendAuthError(res, accessResult);
           }
 
           // Get budget summary separately (it's a view, not a table)
@@ -132,15 +113,9 @@ export default wrapHandler(async function handler(
 
       if (org_id && typeof org_id === 'string') {
         // List all budgets for org
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('id')
-          .eq('org_id', org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, org_id, 'grants:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         const { data: budgets, error } = await supabase
@@ -186,15 +161,9 @@ export default wrapHandler(async function handler(
       }
 
       // Verify access
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', budgetData.org_id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+      const accessResult = await verifyOrgAccess(supabase, authResult, budgetData.org_id, 'grants:edit');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
       }
 
       const { data: budget, error } = await supabase
@@ -231,6 +200,14 @@ export default wrapHandler(async function handler(
         await supabase.from('budget_line_items').insert(lineItems);
       }
 
+      await notifyGrantEvent(budget.grant_id, 'budget.created', req.headers.origin || 'https://grantcue.com', {
+        budget_id: budget.id,
+        status: budget.status,
+        proposed_amount: Number(budget.proposed_amount),
+        awarded_amount: Number(budget.awarded_amount),
+        created_by: user.id,
+      });
+
       return res.status(201).json({ budget });
     }
 
@@ -246,7 +223,7 @@ export default wrapHandler(async function handler(
       // Verify access
       const { data: budget } = await supabase
         .from('grant_budgets')
-        .select('org_id')
+        .select('org_id, status')
         .eq('id', budget_id)
         .single();
 
@@ -254,15 +231,9 @@ export default wrapHandler(async function handler(
         return res.status(404).json({ error: 'Budget not found' });
       }
 
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', budget.org_id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+      const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:edit');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
       }
 
       const { data: updatedBudget, error } = await supabase
@@ -277,6 +248,16 @@ export default wrapHandler(async function handler(
 
       if (error) throw error;
 
+      await notifyGrantEvent(updatedBudget.grant_id, 'budget.updated', req.headers.origin || 'https://grantcue.com', {
+        budget_id: updatedBudget.id,
+        status: updatedBudget.status,
+        previous_status: budget.status,
+        proposed_amount: Number(updatedBudget.proposed_amount),
+        awarded_amount: Number(updatedBudget.awarded_amount),
+        changed_fields: Object.keys(updates),
+        updated_by: user.id,
+      });
+
       return res.status(200).json({ budget: updatedBudget });
     }
 
@@ -299,15 +280,9 @@ export default wrapHandler(async function handler(
         return res.status(404).json({ error: 'Budget not found' });
       }
 
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', budget.org_id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+      const accessResult = await verifyOrgAccess(supabase, authResult, budget.org_id, 'grants:delete');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
       }
 
       const { error } = await supabase
@@ -132,6 +132,57 @@ export default async function handler(
       }
     }
 
+    // Add upcoming occurrences of recurring tasks and compliance requirements
+    const today = new Date().toISOString().split('T')[0];
+    const recurring = 'recurrence_rule.not.is.null,recurrence_parent_id.not.is.null';
+
+    const [{ data: recurringTasks }, { data: recurringRequirements }] = await Promise.all([
+      supabase
+        .from('grant_tasks')
+        .select('id, title, due_date, recurrence_date, org_grants_saved!inner(title)')
+        .eq('org_id', orgId)
+        .neq('status', 'completed')
+        .or(recurring)
+        .gte('due_date', today),
+      supabase
+        .from('compliance_requirements')
+        .select('id, title, due_date, recurrence_date, org_grants_saved!inner(title)')
+        .eq('org_id', orgId)
+        .eq('completed', false)
+        .or(recurring)
+        .gte('due_date', today),
+    ]);
+
+    const recurringItems = [
+      ...(recurringTasks || []).map((item: any) => ({ ...item, uidPrefix: 'task', label: 'Task' })),
+      ...(recurringRequirements || []).map((item: any) => ({ ...item, uidPrefix: 'compliance', label: 'Compliance' })),
+    ];
+
+    const dtstamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+    for (const item of recurringItems) {
+      // RFC 5545 TEXT: backslash first so the escapes added after it stay intact
+      const escape = (value: string) =>
+        value
+          .replace(/\\/g, '\\\\')
+          .replace(/;/g, '\\;')
+          .replace(/,/g, '\\,')
+          .replace(/\r?\n/g, '\\n');
+      const period = item.recurrence_date ? `\\nPeriod ending: ${item.recurrence_date}` : '';
+
+      icsLines.push(
+        'BEGIN:VEVENT',
+        `UID:${item.uidPrefix}-${item.id}@grantcue.com`,
+        `DTSTAMP:${dtstamp}`,
+        `DTSTART;VALUE=DATE:${item.due_date.slice(0, 10).replace(/-/g, '')}`,
+        `SUMMARY:${item.label} Due: ${escape(item.title)}`,
+        `DESCRIPTION:Grant: ${escape(item.org_grants_saved.title)}${period}`,
+        'STATUS:CONFIRMED',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+
     icsLines.push('END:VCALENDAR');
 
     const icsContent = icsLines.join('\r\n');
@@ -19,6 +19,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { validateQuery, validateBody, validateId, commentQuerySchema, commentCreateSchema, commentUpdateSchema } from '../utils/validation';
+import { notifyMentionedUsers } from '../utils/mention-notifications.js';
 
 interface CreateCommentRequest {
   grant_id: string;
@@ -202,7 +203,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Get grant to verify access and get org_id
       const { data: grant, error: grantError } = await supabase
         .from('org_grants_saved')
-        .select('org_id')
+        .select('org_id, title')
         .eq('id', grant_id)
         .single();
 
@@ -248,6 +249,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       console.log(`[Grant Comments] Created comment ${newComment.id} by ${user.email}`);
 
+      await notifyMentionedUsers(supabase, {
+        org_id: grant.org_id,
+        grant_id,
+        author_id: user.id,
+        mentioned_user_ids: finalMentions,
+        content,
+        context_type: 'grant',
+        context_title: grant.title,
+      });
+
       return res.status(201).json({
         comment: newComment,
         message: 'Comment created successfully',
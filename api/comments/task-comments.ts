@@ -16,6 +16,7 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { notifyMentionedUsers } from '../utils/mention-notifications.js';
 
 interface CreateCommentRequest {
   task_id: string;
@@ -195,7 +196,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Get task to verify access
       const { data: task, error: taskError } = await supabase
         .from('grant_tasks')
-        .select('org_id')
+        .select('org_id, grant_id, title')
         .eq('id', task_id)
         .single();
 
@@ -237,6 +238,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       console.log(`[Task Comments] Created comment ${newComment.id}`);
 
+      await notifyMentionedUsers(supabase, {
+        org_id: task.org_id,
+        grant_id: task.grant_id,
+        author_id: user.id,
+        mentioned_user_ids: finalMentions,
+        content,
+        context_type: 'task',
+        context_title: task.title,
+      });
+
       return res.status(201).json({
         comment: newComment,
         message: 'Comment created successfully',
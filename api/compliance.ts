@@ -1,6 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { setCorsHeaders } from './utils/cors.js';
+import { notifyGrantEvent } from './utils/notifications.js';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import {
+  clearUpcomingOccurrences,
+  generateOccurrences,
+  resolveRecurrenceFields,
+} from './utils/recurrence.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -22,20 +29,13 @@ export default async function handler(
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
   }
 
-  const token = authHeader.substring(7);
-  const {
-    data: { user },
-    error: authError,
-  } = await supabase.auth.getUser(token);
-
-  if (authError || !user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+  const user = authResult.user!;
 
   try {
     // GET - List compliance requirements
@@ -54,18 +54,20 @@ export default async function handler(
 
       if (org_id) {
         // Verify access
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('id')
-          .eq('org_id', org_id as string)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, org_id as string, 'grants:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         query = query.eq('org_id', org_id);
+      } else if (authResult.apiKey) {
+        // API keys only ever see their own organization
+        const accessResult = await verifyOrgAccess(supabase, authResult, authResult.apiKey.org_id, 'grants:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
+        }
+
+        query = query.eq('org_id', authResult.apiKey.org_id);
       }
 
       const { data: requirements, error } = await query.order('due_date', { ascending: true, nullsFirst: false });
@@ -99,15 +101,15 @@ export default async function handler(
       }
 
       // Verify access
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', data.org_id)
-        .eq('user_id', user.id)
-        .single();
+      const accessResult = await verifyOrgAccess(supabase, authResult, data.org_id, 'grants:edit');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
+      }
 
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+      // A repeating requirement is due on its first occurrence
+      const recurrence = resolveRecurrenceFields(data);
+      if (!recurrence.fields) {
+        return res.status(400).json({ error: recurrence.error });
       }
 
       const { data: requirement, error } = await supabase
@@ -125,12 +127,28 @@ export default async function handler(
           documentation_required: data.documentation_required || false,
           is_critical: data.is_critical || false,
           notes: data.notes,
+          ...recurrence.fields,
         })
         .select()
         .single();
 
       if (error) throw error;
 
+      if (requirement.recurrence_rule) {
+        await generateOccurrences(supabase, 'compliance', requirement).catch((recurrenceError) => {
+          console.error('Error generating compliance occurrences:', recurrenceError);
+        });
+      }
+
+      await notifyGrantEvent(requirement.grant_id, 'compliance.requirement_created', req.headers.origin || 'https://grantcue.com', {
+        requirement_id: requirement.id,
+        requirement_type: requirement.requirement_type,
+        requirement_title: requirement.title,
+        due_date: requirement.due_date,
+        is_critical: requirement.is_critical,
+        created_by: user.id,
+      });
+
       return res.status(201).json({ requirement });
     }
 
@@ -146,7 +164,7 @@ export default async function handler(
       // Verify access
       const { data: requirement } = await supabase
         .from('compliance_requirements')
-        .select('org_id, completed')
+        .select('org_id, completed, recurrence_rule, recurrence_start, recurrence_offset_days, recurrence_parent_id')
         .eq('id', requirement_id)
         .single();
 
@@ -154,15 +172,38 @@ export default async function handler(
         return res.status(404).json({ error: 'Compliance requirement not found' });
       }
 
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', requirement.org_id)
-        .eq('user_id', user.id)
-        .single();
+      const accessResult = await verifyOrgAccess(supabase, authResult, requirement.org_id, 'grants:edit');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
+      }
+
+      // Changing the schedule replaces the series' upcoming occurrences
+      const schedule = {
+        recurrence_rule: updates.recurrence_rule !== undefined ? updates.recurrence_rule : requirement.recurrence_rule,
+        recurrence_start: updates.recurrence_start !== undefined ? updates.recurrence_start : requirement.recurrence_start,
+        recurrence_offset_days: updates.recurrence_offset_days ?? requirement.recurrence_offset_days,
+      };
+      const scheduleChanged =
+        (schedule.recurrence_rule || null) !== (requirement.recurrence_rule || null) ||
+        (schedule.recurrence_start || null) !== (requirement.recurrence_start || null) ||
+        (schedule.recurrence_offset_days || 0) !== (requirement.recurrence_offset_days || 0);
+
+      delete updates.recurrence_rule;
+      delete updates.recurrence_start;
+      delete updates.recurrence_offset_days;
+      delete updates.recurrence_parent_id;
+      delete updates.recurrence_date;
+
+      if (scheduleChanged) {
+        if (requirement.recurrence_parent_id) {
+          return res.status(400).json({ error: 'Change the schedule on the first requirement of the series' });
+        }
 
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+        const recurrence = resolveRecurrenceFields(schedule);
+        if (!recurrence.fields) {
+          return res.status(400).json({ error: recurrence.error });
+        }
+        Object.assign(updates, recurrence.fields);
       }
 
       // If marking as completed, set completion fields
@@ -189,6 +230,27 @@ export default async function handler(
 
       if (error) throw error;
 
+      if (scheduleChanged) {
+        try {
+          await clearUpcomingOccurrences(supabase, 'compliance', requirement_id);
+          await generateOccurrences(supabase, 'compliance', updatedRequirement);
+        } catch (recurrenceError) {
+          console.error('Error regenerating compliance occurrences:', recurrenceError);
+        }
+      }
+
+      if (updatedRequirement.completed && !requirement.completed) {
+        await notifyGrantEvent(updatedRequirement.grant_id, 'compliance.requirement_completed', req.headers.origin || 'https://grantcue.com', {
+          requirement_id: updatedRequirement.id,
+          requirement_type: updatedRequirement.requirement_type,
+          requirement_title: updatedRequirement.title,
+          due_date: updatedRequirement.due_date,
+          is_critical: updatedRequirement.is_critical,
+          completed_by: user.id,
+          completed_at: updatedRequirement.completed_at,
+        });
+      }
+
       return res.status(200).json({ requirement: updatedRequirement });
     }
 
@@ -211,17 +273,14 @@ export default async function handler(
         return res.status(404).json({ error: 'Compliance requirement not found' });
       }
 
-      const { data: membership } = await supabase
-        .from('org_members')
-        .select('id')
-        .eq('org_id', requirement.org_id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (!membership) {
-        return res.status(403).json({ error: 'Access denied' });
+      const accessResult = await verifyOrgAccess(supabase, authResult, requirement.org_id, 'grants:delete');
+      if (!accessResult.success) {
+        return sendAuthError(res, accessResult);
       }
 
+      // Deleting a series removes its upcoming occurrences; completed ones are kept
+      await clearUpcomingOccurrences(supabase, 'compliance', requirement_id);
+
       const { error } = await supabase
         .from('compliance_requirements')
         .delete()
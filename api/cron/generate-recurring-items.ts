@@ -0,0 +1,58 @@
+/**
+ * Recurring Items Generator (Cron Job)
+ *
+ * Creates the upcoming occurrences of recurring tasks and compliance
+ * requirements. Rule expansion and the generation horizon live in
+ * utils/recurrence.ts.
+ * Run this via cron daily, before deadline reminders go out
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { generateAllOccurrences } from '../utils/recurrence.js';
+import { verifyCronAuth } from '../utils/auth.js';
+import { createRequestLogger } from '../utils/logger';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const logger = createRequestLogger(req, { module: 'cron/generate-recurring-items' });
+
+  // Verify this is a cron request using timing-safe comparison
+  const authHeader = req.headers.authorization;
+
+  if (!verifyCronAuth(authHeader)) {
+    logger.warn('Unauthorized cron request attempt');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // Only allow POST or GET for cron
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const stats = await generateAllOccurrences(supabase);
+
+    logger.info('Recurring items generated', stats);
+
+    return res.status(200).json({
+      message: 'Recurring items generated',
+      ...stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Recurring item generation failed', error);
+    return res.status(500).json({
+      error: 'Recurring item generation failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
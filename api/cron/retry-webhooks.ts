@@ -0,0 +1,57 @@
+/**
+ * Webhook Retry Worker (Cron Job)
+ *
+ * Redelivers webhook deliveries whose next_attempt_at has passed.
+ * Backoff schedule and dead-lettering live in utils/webhook-delivery.ts.
+ * Run this via cron every 5 minutes
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { processWebhookRetries } from '../utils/webhook-delivery.js';
+import { verifyCronAuth } from '../utils/auth.js';
+import { createRequestLogger } from '../utils/logger';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const logger = createRequestLogger(req, { module: 'cron/retry-webhooks' });
+
+  // Verify this is a cron request using timing-safe comparison
+  const authHeader = req.headers.authorization;
+
+  if (!verifyCronAuth(authHeader)) {
+    logger.warn('Unauthorized cron request attempt');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // Only allow POST or GET for cron
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const stats = await processWebhookRetries(supabase);
+
+    logger.info('Webhook retries completed', stats);
+
+    return res.status(200).json({
+      message: 'Webhook retries completed',
+      ...stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Webhook retries failed', error);
+    return res.status(500).json({
+      error: 'Webhook retries failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
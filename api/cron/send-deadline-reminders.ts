@@ -2,7 +2,13 @@
  * Cron Job: Send Deadline Reminders
  *
  * Runs daily to send email reminders for upcoming grant deadlines
- * based on organization notification settings (30d, 14d, 7d, 3d, 1d, same day)
+ * based on organization notification settings (30d, 14d, 7d, 3d, 1d, same day),
+ * and for occurrences of recurring tasks (7d, 1d, same day) and compliance
+ * requirements (their reminder_days_before, same day)
+ *
+ * Organization settings decide which reminders go out; each member's
+ * notification preferences decide which channels (email, in-app, Slack,
+ * Teams) they reach them on, per deadline type
  *
  * Configure in vercel.json:
  * {
@@ -15,11 +21,16 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { Resend } from 'resend';
 import { generateDeadlineReminderEmail } from '../../lib/emails/report-templates.js';
 import { verifyCronAuth } from '../utils/auth.js';
-
-const resend = new Resend(process.env.RESEND_API_KEY);
+import { decidedStageKeys, fetchPipelineStages } from '../utils/pipeline-stages.js';
+import { notifyUser, type DeliveryResult } from '../utils/notifications.js';
+import {
+  fetchNotificationPreferences,
+  routeChannel,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '../utils/notification-preferences.js';
 
 interface OrganizationSettings {
   org_id: string;
@@ -44,6 +55,7 @@ interface OrganizationSettings {
   internal_deadline_reminders_3d: boolean;
   internal_deadline_reminders_1d: boolean;
   internal_deadline_reminders_0d: boolean;
+  recurring_deadline_reminders_enabled: boolean;
 }
 
 interface Grant {
@@ -53,9 +65,32 @@ interface Grant {
   close_date: string;
   status: string | null;
   org_id: string;
-  deadline_type?: 'external' | 'loi' | 'internal';
+  deadline_type?: DeadlineType;
+}
+
+type DeadlineType = 'external' | 'loi' | 'internal' | 'recurring';
+
+const DEADLINE_EVENTS: Record<DeadlineType, NotificationEventType> = {
+  external: 'deadline_external',
+  loi: 'deadline_loi',
+  internal: 'deadline_internal',
+  recurring: 'deadline_recurring',
+};
+
+interface RecurringItemDue {
+  kind: 'task' | 'compliance';
+  id: string;
+  title: string;
+  due_date: string;
+  days_until: number;
+  assigned_to: string | null;
+  grant_id: string;
+  grant_title: string;
+  agency: string | null;
 }
 
+const RECURRING_TASK_REMINDER_DAYS = [7, 1, 0];
+
 interface OrgMember {
   user_id: string;
   email: string;
@@ -90,6 +125,7 @@ async function getOrganizationsWithSettings(supabase: any): Promise<Organization
       internal_deadline_reminders_3d,
       internal_deadline_reminders_1d,
       internal_deadline_reminders_0d,
+      recurring_deadline_reminders_enabled,
       organizations!inner(name)
     `);
 
@@ -121,6 +157,7 @@ async function getOrganizationsWithSettings(supabase: any): Promise<Organization
     internal_deadline_reminders_3d: row.internal_deadline_reminders_3d ?? true,
     internal_deadline_reminders_1d: row.internal_deadline_reminders_1d ?? true,
     internal_deadline_reminders_0d: row.internal_deadline_reminders_0d ?? true,
+    recurring_deadline_reminders_enabled: row.recurring_deadline_reminders_enabled ?? true,
   }));
 }
 
@@ -130,7 +167,8 @@ async function getOrganizationsWithSettings(supabase: any): Promise<Organization
 async function getGrantsWithDeadline(
   supabase: any,
   orgId: string,
-  daysUntil: number
+  daysUntil: number,
+  decidedStages: string[]
 ): Promise<Grant[]> {
   // Calculate the target date (start and end of day)
   const targetDate = new Date();
@@ -146,7 +184,7 @@ async function getGrantsWithDeadline(
     .eq('org_id', orgId)
     .gte('close_date', targetDate.toISOString())
     .lte('close_date', endOfTargetDate.toISOString())
-    .not('status', 'in', '("awarded", "rejected", "withdrawn")'); // Exclude completed grants
+    .not('status', 'in', `(${decidedStages.join(',')})`); // Exclude grants that are decided or closed
 
   if (error) {
     console.error(`[Deadline Reminders] Error fetching grants for org ${orgId}, days ${daysUntil}:`, error);
@@ -170,7 +208,8 @@ async function getGrantsWithDeadline(
 async function getGrantsWithLOIDeadline(
   supabase: any,
   orgId: string,
-  daysUntil: number
+  daysUntil: number,
+  decidedStages: string[]
 ): Promise<Grant[]> {
   const targetDate = new Date();
   targetDate.setDate(targetDate.getDate() + daysUntil);
@@ -185,7 +224,7 @@ async function getGrantsWithLOIDeadline(
     .eq('org_id', orgId)
     .gte('loi_deadline', targetDate.toISOString())
     .lte('loi_deadline', endOfTargetDate.toISOString())
-    .not('status', 'in', '("awarded", "rejected", "withdrawn")');
+    .not('status', 'in', `(${decidedStages.join(',')})`);
 
   if (error) {
     console.error(`[Deadline Reminders] Error fetching LOI grants for org ${orgId}, days ${daysUntil}:`, error);
@@ -209,7 +248,8 @@ async function getGrantsWithLOIDeadline(
 async function getGrantsWithInternalDeadline(
   supabase: any,
   orgId: string,
-  daysUntil: number
+  daysUntil: number,
+  decidedStages: string[]
 ): Promise<Grant[]> {
   const targetDate = new Date();
   targetDate.setDate(targetDate.getDate() + daysUntil);
@@ -224,7 +264,7 @@ async function getGrantsWithInternalDeadline(
     .eq('org_id', orgId)
     .gte('internal_deadline', targetDate.toISOString())
     .lte('internal_deadline', endOfTargetDate.toISOString())
-    .not('status', 'in', '("awarded", "rejected", "withdrawn")');
+    .not('status', 'in', `(${decidedStages.join(',')})`);
 
   if (error) {
     console.error(`[Deadline Reminders] Error fetching internal deadline grants for org ${orgId}, days ${daysUntil}:`, error);
@@ -242,6 +282,81 @@ async function getGrantsWithInternalDeadline(
   }));
 }
 
+/**
+ * Get open occurrences of recurring tasks and compliance requirements that
+ * reach a reminder day today
+ */
+async function getRecurringItemsDue(supabase: any, orgId: string): Promise<RecurringItemDue[]> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const horizon = new Date(today);
+  horizon.setDate(horizon.getDate() + 366);
+
+  const daysUntil = (dueDate: string) => {
+    const due = new Date(`${dueDate.slice(0, 10)}T00:00:00`);
+    return Math.round((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+  };
+
+  const recurring = 'recurrence_rule.not.is.null,recurrence_parent_id.not.is.null';
+
+  const [tasksResult, requirementsResult] = await Promise.all([
+    supabase
+      .from('grant_tasks')
+      .select('id, title, due_date, assigned_to, grant_id, org_grants_saved!inner(title, agency)')
+      .eq('org_id', orgId)
+      .neq('status', 'completed')
+      .or(recurring)
+      .gte('due_date', today.toISOString())
+      .lte('due_date', horizon.toISOString()),
+    supabase
+      .from('compliance_requirements')
+      .select('id, title, due_date, reminder_days_before, grant_id, org_grants_saved!inner(title, agency)')
+      .eq('org_id', orgId)
+      .eq('completed', false)
+      .or(recurring)
+      .gte('due_date', today.toISOString().split('T')[0])
+      .lte('due_date', horizon.toISOString().split('T')[0]),
+  ]);
+
+  if (tasksResult.error || requirementsResult.error) {
+    console.error(`[Deadline Reminders] Error fetching recurring items for org ${orgId}:`, tasksResult.error || requirementsResult.error);
+    return [];
+  }
+
+  const tasks: RecurringItemDue[] = (tasksResult.data || [])
+    .map((task: any) => ({
+      kind: 'task' as const,
+      id: task.id,
+      title: task.title,
+      due_date: task.due_date,
+      days_until: daysUntil(task.due_date),
+      assigned_to: task.assigned_to,
+      grant_id: task.grant_id,
+      grant_title: task.org_grants_saved.title,
+      agency: task.org_grants_saved.agency,
+    }))
+    .filter((task: RecurringItemDue) => RECURRING_TASK_REMINDER_DAYS.includes(task.days_until));
+
+  const requirements: RecurringItemDue[] = (requirementsResult.data || [])
+    .filter((requirement: any) => {
+      const days = daysUntil(requirement.due_date);
+      return days === 0 || days === (requirement.reminder_days_before ?? 30);
+    })
+    .map((requirement: any) => ({
+      kind: 'compliance' as const,
+      id: requirement.id,
+      title: requirement.title,
+      due_date: requirement.due_date,
+      days_until: daysUntil(requirement.due_date),
+      assigned_to: null,
+      grant_id: requirement.grant_id,
+      grant_title: requirement.org_grants_saved.title,
+      agency: requirement.org_grants_saved.agency,
+    }));
+
+  return [...tasks, ...requirements];
+}
+
 /**
  * Get organization members (recipients for notifications)
  */
@@ -296,47 +411,112 @@ async function getOrgMembers(supabase: any, orgId: string): Promise<OrgMember[]>
 }
 
 /**
- * Send deadline reminder email to a recipient
+ * Send a deadline reminder to a recipient by email, Slack and Teams, as
+ * their preferences for the deadline type allow; returns how the email went
  */
-async function sendDeadlineEmail(
+async function sendDeadlineReminder(
+  supabase: any,
   recipient: OrgMember,
+  preferences: NotificationPreferences,
   orgName: string,
   daysUntil: number,
   grants: Grant[],
-  deadlineType: 'external' | 'loi' | 'internal' = 'external'
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const emailHtml = generateDeadlineReminderEmail({
-      orgName,
-      userName: recipient.full_name || 'User',
-      daysUntil,
-      grants,
-    });
+  deadlineType: DeadlineType = 'external'
+): Promise<DeliveryResult> {
+  const emailHtml = generateDeadlineReminderEmail({
+    orgName,
+    userName: recipient.full_name || 'User',
+    daysUntil,
+    grants,
+    itemLabel: deadlineType === 'recurring' ? 'recurring item' : undefined,
+  });
+
+  const daysText = daysUntil === 0 ? 'Today' : daysUntil === 1 ? 'Tomorrow' : `in ${daysUntil} Days`;
+  const deadlineTypeLabel = deadlineType === 'loi' ? 'LOI' : deadlineType === 'internal' ? 'Internal' : '';
+  const deadlineTypeText = deadlineTypeLabel ? ` (${deadlineTypeLabel})` : '';
+  const subject = deadlineType === 'recurring'
+    ? `${grants.length} Recurring Item${grants.length === 1 ? '' : 's'} Due ${daysText} - ${orgName}`
+    : `${grants.length} Grant${grants.length === 1 ? '' : 's'}${deadlineTypeText} Due ${daysText} - ${orgName}`;
+
+  const titles = grants.slice(0, 3).map((grant) => grant.title).join('; ');
+  const delivery = await notifyUser(
+    supabase,
+    {
+      user_id: recipient.user_id,
+      org_id: preferences.org_id,
+      event: DEADLINE_EVENTS[deadlineType],
+      title: subject,
+      message: grants.length > 3 ? `${titles} and ${grants.length - 3} more` : titles,
+      action_url: grants.length === 1 ? `/grants/${grants[0].id}` : '/pipeline',
+      // Same-day deadlines go out even when the user gets a digest
+      urgent: daysUntil === 0,
+      digest_items: grants.map((grant) => ({
+        grant_id: grant.id,
+        title: `${deadlineTypeLabel || (deadlineType === 'recurring' ? 'Recurring item' : 'Grant')} deadline ${daysText.toLowerCase()}: ${grant.title}`,
+        message: grant.agency ? `Agency: ${grant.agency}` : `Due ${daysText.toLowerCase()}`,
+        action_url: `/grants/${grant.id}`,
+      })),
+      email: {
+        from: 'GrantCue Deadlines <deadlines@grantcue.com>',
+        to: recipient.email,
+        subject,
+        html: emailHtml,
+      },
+    },
+    preferences
+  );
 
-    const daysText = daysUntil === 0 ? 'Today' : daysUntil === 1 ? 'Tomorrow' : `in ${daysUntil} Days`;
-    const deadlineTypeLabel = deadlineType === 'loi' ? 'LOI' : deadlineType === 'internal' ? 'Internal' : '';
-    const deadlineTypeText = deadlineTypeLabel ? ` (${deadlineTypeLabel})` : '';
-    const subject = `${grants.length} Grant${grants.length === 1 ? '' : 's'}${deadlineTypeText} Due ${daysText} - ${orgName}`;
+  if (delivery.email === 'sent') {
+    console.log(`[Deadline Reminders] Sent ${deadlineType} email to ${recipient.email} for ${grants.length} grants (${daysUntil} days)`);
+  }
+  return delivery.email;
+}
 
-    const result = await resend.emails.send({
-      from: 'GrantCue Deadlines <deadlines@grantcue.com>',
-      to: recipient.email,
-      subject,
-      html: emailHtml,
-    });
+/**
+ * Members who want in-app reminders for a deadline type
+ */
+function inAppRecipients(
+  members: OrgMember[],
+  preferences: Map<string, NotificationPreferences>,
+  deadlineType: DeadlineType
+): OrgMember[] {
+  return members.filter(
+    (member) => routeChannel(preferences.get(member.user_id)!, DEADLINE_EVENTS[deadlineType], 'in_app') === 'send'
+  );
+}
 
-    if (result.error) {
-      throw result.error;
-    }
+/**
+ * Create in-app notifications for recurring task and compliance occurrences
+ */
+async function createRecurringInAppNotifications(
+  supabase: any,
+  orgId: string,
+  recipients: OrgMember[],
+  item: RecurringItemDue
+): Promise<void> {
+  const daysText = item.days_until === 0 ? 'today' : item.days_until === 1 ? 'tomorrow' : `in ${item.days_until} days`;
+  const label = item.kind === 'task' ? 'Task' : 'Compliance requirement';
 
-    console.log(`[Deadline Reminders] Sent ${deadlineType} email to ${recipient.email} for ${grants.length} grants (${daysUntil} days)`);
-    return { success: true };
-  } catch (error) {
-    console.error(`[Deadline Reminders] Failed to send email to ${recipient.email}:`, error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+  for (const member of recipients) {
+    try {
+      await supabase.from('in_app_notifications').insert({
+        user_id: member.user_id,
+        org_id: orgId,
+        type: 'deadline_reminder',
+        title: `${label} due ${daysText}: ${item.title}`,
+        message: `${item.title} for ${item.grant_title} is due ${daysText}.`,
+        action_url: `/grants/${item.grant_id}`,
+        metadata: {
+          grant_id: item.grant_id,
+          [item.kind === 'task' ? 'task_id' : 'requirement_id']: item.id,
+          days_until: item.days_until,
+          due_date: item.due_date,
+          deadline_type: 'recurring',
+        },
+      });
+    } catch (error) {
+      console.error(`[Deadline Reminders] Failed to create in-app notification for user ${member.user_id}:`, error);
+    }
   }
 }
 
@@ -349,7 +529,7 @@ async function createInAppNotifications(
   members: OrgMember[],
   grants: Grant[],
   daysUntil: number,
-  deadlineType: 'external' | 'loi' | 'internal' = 'external'
+  deadlineType: DeadlineType = 'external'
 ): Promise<void> {
   const daysText = daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
   const deadlineTypeLabel = deadlineType === 'loi' ? 'LOI Deadline' : deadlineType === 'internal' ? 'Internal Deadline' : 'Deadline';
@@ -466,13 +646,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         continue;
       }
 
+      const preferences = await fetchNotificationPreferences(
+        supabase,
+        org.org_id,
+        members.map((member) => member.user_id)
+      );
+
+      const decidedStages = decidedStageKeys(await fetchPipelineStages(supabase, org.org_id));
+
       // Process external deadlines
       for (const interval of reminderIntervals) {
         if (!org[interval.setting as keyof OrganizationSettings]) {
           continue;
         }
 
-        const grants = await getGrantsWithDeadline(supabase, org.org_id, interval.days);
+        const grants = await getGrantsWithDeadline(supabase, org.org_id, interval.days, decidedStages);
 
         if (grants.length > 0) {
           console.log(`[Deadline Reminders] Found ${grants.length} external deadline grants for ${org.org_name} at ${interval.days} days`);
@@ -481,19 +669,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           let failedCount = 0;
 
           for (const member of members) {
-            const result = await sendDeadlineEmail(member, org.org_name, interval.days, grants, 'external');
-            if (result.success) {
+            const result = await sendDeadlineReminder(supabase, member, preferences.get(member.user_id)!, org.org_name, interval.days, grants, 'external');
+            if (result === 'sent') {
               sentCount++;
-            } else {
+            } else if (result === 'failed') {
               failedCount++;
             }
           }
 
-          await createInAppNotifications(supabase, org.org_id, members, grants, interval.days, 'external');
+          const inAppMembers = inAppRecipients(members, preferences, 'external');
+          await createInAppNotifications(supabase, org.org_id, inAppMembers, grants, interval.days, 'external');
 
           totalEmailsSent += sentCount;
           totalEmailsFailed += failedCount;
-          totalNotifications += grants.length * members.length;
+          totalNotifications += grants.length * inAppMembers.length;
 
           orgResult.reminders.push({
             type: 'external',
@@ -513,7 +702,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             continue;
           }
 
-          const grants = await getGrantsWithLOIDeadline(supabase, org.org_id, interval.days);
+          const grants = await getGrantsWithLOIDeadline(supabase, org.org_id, interval.days, decidedStages);
 
           if (grants.length > 0) {
             console.log(`[Deadline Reminders] Found ${grants.length} LOI deadline grants for ${org.org_name} at ${interval.days} days`);
@@ -522,19 +711,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             let failedCount = 0;
 
             for (const member of members) {
-              const result = await sendDeadlineEmail(member, org.org_name, interval.days, grants, 'loi');
-              if (result.success) {
+              const result = await sendDeadlineReminder(supabase, member, preferences.get(member.user_id)!, org.org_name, interval.days, grants, 'loi');
+              if (result === 'sent') {
                 sentCount++;
-              } else {
+              } else if (result === 'failed') {
                 failedCount++;
               }
             }
 
-            await createInAppNotifications(supabase, org.org_id, members, grants, interval.days, 'loi');
+            const inAppMembers = inAppRecipients(members, preferences, 'loi');
+            await createInAppNotifications(supabase, org.org_id, inAppMembers, grants, interval.days, 'loi');
 
             totalEmailsSent += sentCount;
             totalEmailsFailed += failedCount;
-            totalNotifications += grants.length * members.length;
+            totalNotifications += grants.length * inAppMembers.length;
 
             orgResult.reminders.push({
               type: 'loi',
@@ -555,7 +745,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             continue;
           }
 
-          const grants = await getGrantsWithInternalDeadline(supabase, org.org_id, interval.days);
+          const grants = await getGrantsWithInternalDeadline(supabase, org.org_id, interval.days, decidedStages);
 
           if (grants.length > 0) {
             console.log(`[Deadline Reminders] Found ${grants.length} internal deadline grants for ${org.org_name} at ${interval.days} days`);
@@ -564,19 +754,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             let failedCount = 0;
 
             for (const member of members) {
-              const result = await sendDeadlineEmail(member, org.org_name, interval.days, grants, 'internal');
-              if (result.success) {
+              const result = await sendDeadlineReminder(supabase, member, preferences.get(member.user_id)!, org.org_name, interval.days, grants, 'internal');
+              if (result === 'sent') {
                 sentCount++;
-              } else {
+              } else if (result === 'failed') {
                 failedCount++;
               }
             }
 
-            await createInAppNotifications(supabase, org.org_id, members, grants, interval.days, 'internal');
+            const inAppMembers = inAppRecipients(members, preferences, 'internal');
+            await createInAppNotifications(supabase, org.org_id, inAppMembers, grants, interval.days, 'internal');
 
             totalEmailsSent += sentCount;
             totalEmailsFailed += failedCount;
-            totalNotifications += grants.length * members.length;
+            totalNotifications += grants.length * inAppMembers.length;
 
             orgResult.reminders.push({
               type: 'internal',
@@ -590,6 +781,75 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
       }
 
+      // Process recurring tasks and compliance requirements; tasks go to their
+      // assignee, everything else to the whole organization
+      if (org.recurring_deadline_reminders_enabled) {
+        const items = await getRecurringItemsDue(supabase, org.org_id);
+
+        if (items.length > 0) {
+          console.log(`[Deadline Reminders] Found ${items.length} recurring items for ${org.org_name}`);
+
+          const recipientsFor = (item: RecurringItemDue) => {
+            const assignee = item.assigned_to && members.find((member) => member.user_id === item.assigned_to);
+            return assignee ? [assignee] : members;
+          };
+
+          let sentCount = 0;
+          let failedCount = 0;
+
+          for (const daysUntil of Array.from(new Set(items.map((item) => item.days_until)))) {
+            const dueItems = items.filter((item) => item.days_until === daysUntil);
+
+            for (const member of members) {
+              const memberItems = dueItems.filter((item) => recipientsFor(item).includes(member));
+              if (memberItems.length === 0) {
+                continue;
+              }
+
+              const result = await sendDeadlineReminder(
+                supabase,
+                member,
+                preferences.get(member.user_id)!,
+                org.org_name,
+                daysUntil,
+                memberItems.map((item) => ({
+                  id: item.grant_id,
+                  title: `${item.title} — ${item.grant_title}`,
+                  agency: item.agency,
+                  close_date: item.due_date,
+                  status: item.kind === 'task' ? 'task' : 'compliance requirement',
+                  org_id: org.org_id,
+                  deadline_type: 'recurring' as const,
+                })),
+                'recurring'
+              );
+              if (result === 'sent') {
+                sentCount++;
+              } else if (result === 'failed') {
+                failedCount++;
+              }
+            }
+          }
+
+          const inAppMembers = inAppRecipients(members, preferences, 'recurring');
+          for (const item of items) {
+            const recipients = recipientsFor(item).filter((member) => inAppMembers.includes(member));
+            await createRecurringInAppNotifications(supabase, org.org_id, recipients, item);
+            totalNotifications += recipients.length;
+          }
+
+          totalEmailsSent += sentCount;
+          totalEmailsFailed += failedCount;
+
+          orgResult.reminders.push({
+            type: 'recurring',
+            items_count: items.length,
+            emails_sent: sentCount,
+            emails_failed: failedCount,
+          });
+        }
+      }
+
       if (orgResult.reminders.length > 0) {
         results.push(orgResult);
       }
@@ -0,0 +1,266 @@
+/**
+ * Cron Job: Send Notification Digests
+ *
+ * Runs hourly and flushes each user's notification outbox: the emails they
+ * held back (digest delivery or quiet hours) go out as one digest grouped by
+ * grant, hourly or once a day at their digest hour, as they chose. Urgent
+ * items held only by quiet hours go out on the first run after quiet hours
+ * end. Items older than 30 days that have been sent are cleaned up.
+ *
+ * Configure in vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/send-notification-digests",
+ *     "schedule": "15 * * * *"
+ *   }]
+ * }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import { generateDigestEmail } from '../../lib/emails/digest-template.js';
+import { verifyCronAuth } from '../utils/auth.js';
+import {
+  fetchNotificationPreferences,
+  isDigestDue,
+  type NotificationPreferences,
+} from '../utils/notification-preferences.js';
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+const RETENTION_DAYS = 30;
+
+// Per run; anything beyond waits for the next run
+const MAX_PENDING_ITEMS = 5000;
+
+interface OutboxItem {
+  id: string;
+  user_id: string;
+  org_id: string;
+  grant_id: string | null;
+  title: string;
+  message: string;
+  action_url: string;
+  urgent: boolean;
+  created_at: string;
+}
+
+/**
+ * Digest sections: one per grant in order of first item, then everything
+ * without a grant
+ */
+function groupByGrant(
+  items: OutboxItem[],
+  grantTitles: Map<string, string>,
+): Array<{ heading: string; items: OutboxItem[] }> {
+  const groups = new Map<string, OutboxItem[]>();
+  const ungrouped: OutboxItem[] = [];
+
+  for (const item of items) {
+    if (item.grant_id) {
+      groups.set(item.grant_id, [...(groups.get(item.grant_id) || []), item]);
+    } else {
+      ungrouped.push(item);
+    }
+  }
+
+  const sections = Array.from(groups, ([grantId, grantItems]) => ({
+    heading: grantTitles.get(grantId) || 'Grant',
+    items: grantItems,
+  }));
+
+  if (ungrouped.length > 0) {
+    sections.push({ heading: sections.length > 0 ? 'Other updates' : 'Updates', items: ungrouped });
+  }
+
+  return sections;
+}
+
+/**
+ * Email and name of a digest recipient
+ */
+async function getRecipient(
+  supabase: any,
+  userId: string,
+): Promise<{ email: string; full_name: string } | null> {
+  try {
+    const { data: userData, error } = await supabase.auth.admin.getUserById(userId);
+    if (error || !userData?.user?.email) {
+      return null;
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('full_name')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return {
+      email: userData.user.email,
+      full_name: profile?.full_name || userData.user.email,
+    };
+  } catch (error) {
+    console.error(`[Notification Digests] Error fetching user ${userId}:`, error);
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request using timing-safe comparison
+  const authHeader = req.headers.authorization;
+
+  if (!verifyCronAuth(authHeader)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  if (!process.env.RESEND_API_KEY) {
+    return res.status(500).json({ error: 'RESEND_API_KEY not configured' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const now = new Date();
+
+  try {
+    const { data: pending, error: pendingError } = await supabase
+      .from('notification_outbox')
+      .select('id, user_id, org_id, grant_id, title, message, action_url, urgent, created_at')
+      .is('sent_at', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_PENDING_ITEMS);
+
+    if (pendingError) {
+      throw pendingError;
+    }
+
+    // One digest per user and organization
+    const byRecipient = new Map<string, OutboxItem[]>();
+    for (const item of (pending || []) as OutboxItem[]) {
+      const key = `${item.org_id}:${item.user_id}`;
+      byRecipient.set(key, [...(byRecipient.get(key) || []), item]);
+    }
+
+    const orgIds = Array.from(new Set((pending || []).map((item) => item.org_id)));
+    const grantIds = Array.from(
+      new Set((pending || []).map((item) => item.grant_id).filter(Boolean)),
+    ) as string[];
+
+    const [{ data: orgs }, { data: grants }] = await Promise.all([
+      orgIds.length > 0
+        ? supabase.from('organizations').select('id, name').in('id', orgIds)
+        : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+      grantIds.length > 0
+        ? supabase.from('org_grants_saved').select('id, title').in('id', grantIds)
+        : Promise.resolve({ data: [] as { id: string; title: string }[] }),
+    ]);
+
+    const orgNames = new Map((orgs || []).map((org) => [org.id, org.name]));
+    const grantTitles = new Map((grants || []).map((grant) => [grant.id, grant.title]));
+
+    const preferencesByOrg = new Map<string, Map<string, NotificationPreferences>>();
+    for (const orgId of orgIds) {
+      const userIds = Array.from(
+        new Set(
+          (pending || []).filter((item) => item.org_id === orgId).map((item) => item.user_id),
+        ),
+      );
+      preferencesByOrg.set(orgId, await fetchNotificationPreferences(supabase, orgId, userIds));
+    }
+
+    let digestsSent = 0;
+    let digestsFailed = 0;
+    let itemsSent = 0;
+
+    for (const items of byRecipient.values()) {
+      const { user_id: userId, org_id: orgId } = items[0];
+      const preferences = preferencesByOrg.get(orgId)!.get(userId)!;
+      const hasUrgent = items.some((item) => item.urgent);
+
+      if (!isDigestDue(preferences, hasUrgent, now)) {
+        continue;
+      }
+
+      const recipient = await getRecipient(supabase, userId);
+      if (!recipient) {
+        continue;
+      }
+
+      const orgName = orgNames.get(orgId) || 'Your Organization';
+
+      try {
+        const result = await resend.emails.send({
+          from: 'GrantCue <notifications@grantcue.com>',
+          to: recipient.email,
+          subject: `${items.length} Update${items.length === 1 ? '' : 's'} - ${orgName}`,
+          html: generateDigestEmail({
+            recipient_name: recipient.full_name,
+            org_name: orgName,
+            frequency: preferences.digest_frequency,
+            groups: groupByGrant(items, grantTitles),
+          }),
+        });
+
+        if (result.error) {
+          throw result.error;
+        }
+      } catch (error) {
+        console.error(`[Notification Digests] Failed to send digest to ${recipient.email}:`, error);
+        digestsFailed++;
+        continue;
+      }
+
+      digestsSent++;
+      itemsSent += items.length;
+
+      const itemIds = items.map((item) => item.id);
+      await supabase
+        .from('notification_outbox')
+        .update({ sent_at: now.toISOString() })
+        .in('id', itemIds);
+
+      // Urgent-only flushes don't count as the daily digest
+      if (items.some((item) => !item.urgent)) {
+        await supabase
+          .from('notification_preferences')
+          .update({ last_digest_at: now.toISOString() })
+          .eq('user_id', userId)
+          .eq('org_id', orgId);
+      }
+    }
+
+    const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await supabase
+      .from('notification_outbox')
+      .delete()
+      .not('sent_at', 'is', null)
+      .lt('sent_at', cutoff.toISOString());
+
+    console.log(
+      `[Notification Digests] Sent ${digestsSent} digests with ${itemsSent} items (${digestsFailed} failed); ${byRecipient.size} recipients had pending items`,
+    );
+
+    return res.status(200).json({
+      message: 'Notification digests processed',
+      timestamp: now.toISOString(),
+      summary: {
+        recipients_pending: byRecipient.size,
+        digests_sent: digestsSent,
+        digests_failed: digestsFailed,
+        items_sent: itemsSent,
+      },
+    });
+  } catch (error) {
+    console.error('[Notification Digests] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Failed to send notification digests',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
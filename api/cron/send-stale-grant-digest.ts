@@ -0,0 +1,260 @@
+/**
+ * Cron Job: Send Stale Grant Digest
+ *
+ * Runs daily and emails each grant owner (assigned_to) the grants they own
+ * that have sat in a stage longer than the stage's stale_after_days. Stages
+ * without a threshold, and terminal stages, are never flagged. Organizations
+ * can turn the digest off with organization_settings.stale_grant_digest_enabled.
+ *
+ * Configure in vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/send-stale-grant-digest",
+ *     "schedule": "30 9 * * *"
+ *   }]
+ * }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import { generateStaleGrantDigestEmail } from '../../lib/emails/report-templates.js';
+import { verifyCronAuth } from '../utils/auth.js';
+import { fetchPipelineStages, type PipelineStage } from '../utils/pipeline-stages.js';
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StaleGrant {
+  id: string;
+  title: string;
+  agency: string | null;
+  status: string;
+  assigned_to: string;
+  stage_label: string;
+  days_in_stage: number;
+  stale_after_days: number;
+}
+
+/**
+ * Grants in the organization that have outstayed their stage's threshold
+ */
+async function getStaleGrants(
+  supabase: any,
+  orgId: string,
+  stages: PipelineStage[],
+  now: Date,
+): Promise<StaleGrant[]> {
+  const thresholds = new Map(
+    stages
+      .filter((stage) => stage.stale_after_days && !stage.is_terminal)
+      .map((stage) => [stage.key, stage]),
+  );
+
+  if (thresholds.size === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('org_grants_saved')
+    .select('id, title, agency, status, assigned_to, stage_updated_at, saved_at')
+    .eq('org_id', orgId)
+    .in('status', Array.from(thresholds.keys()))
+    .not('assigned_to', 'is', null);
+
+  if (error) {
+    console.error(`[Stale Grants] Error fetching grants for org ${orgId}:`, error);
+    return [];
+  }
+
+  const staleGrants: StaleGrant[] = [];
+  for (const grant of data || []) {
+    const stage = thresholds.get(grant.status)!;
+    const enteredAt = new Date(grant.stage_updated_at || grant.saved_at);
+    const daysInStage = Math.floor((now.getTime() - enteredAt.getTime()) / DAY_MS);
+
+    if (daysInStage >= stage.stale_after_days!) {
+      staleGrants.push({
+        id: grant.id,
+        title: grant.title,
+        agency: grant.agency,
+        status: grant.status,
+        assigned_to: grant.assigned_to,
+        stage_label: stage.label,
+        days_in_stage: daysInStage,
+        stale_after_days: stage.stale_after_days!,
+      });
+    }
+  }
+
+  // Longest-waiting first
+  return staleGrants.sort((a, b) => b.days_in_stage - a.days_in_stage);
+}
+
+/**
+ * Email and name of a grant owner
+ */
+async function getOwner(
+  supabase: any,
+  userId: string,
+): Promise<{ email: string; full_name: string } | null> {
+  try {
+    const { data: userData, error } = await supabase.auth.admin.getUserById(userId);
+    if (error || !userData?.user?.email) {
+      return null;
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('full_name')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return {
+      email: userData.user.email,
+      full_name: profile?.full_name || userData.user.email,
+    };
+  } catch (error) {
+    console.error(`[Stale Grants] Error fetching user ${userId}:`, error);
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request using timing-safe comparison
+  const authHeader = req.headers.authorization;
+
+  if (!verifyCronAuth(authHeader)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  if (!process.env.RESEND_API_KEY) {
+    return res.status(500).json({ error: 'RESEND_API_KEY not configured' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const now = new Date();
+
+  try {
+    const { data: orgs, error: orgsError } = await supabase
+      .from('organization_settings')
+      .select('org_id, stale_grant_digest_enabled, organizations!inner(name)');
+
+    if (orgsError) {
+      throw orgsError;
+    }
+
+    const results = [];
+    let totalEmailsSent = 0;
+    let totalEmailsFailed = 0;
+
+    for (const org of (orgs || []) as any[]) {
+      if (org.stale_grant_digest_enabled === false) {
+        continue;
+      }
+
+      const orgName = org.organizations?.name || 'Unknown Organization';
+      const stages = await fetchPipelineStages(supabase, org.org_id);
+      const staleGrants = await getStaleGrants(supabase, org.org_id, stages, now);
+
+      if (staleGrants.length === 0) {
+        continue;
+      }
+
+      // One digest per owner
+      const byOwner = new Map<string, StaleGrant[]>();
+      for (const grant of staleGrants) {
+        byOwner.set(grant.assigned_to, [...(byOwner.get(grant.assigned_to) || []), grant]);
+      }
+
+      let sentCount = 0;
+      let failedCount = 0;
+
+      for (const [ownerId, grants] of byOwner) {
+        const owner = await getOwner(supabase, ownerId);
+        if (!owner) {
+          continue;
+        }
+
+        try {
+          const result = await resend.emails.send({
+            from: 'GrantCue Pipeline <deadlines@grantcue.com>',
+            to: owner.email,
+            subject: `${grants.length} Stale Grant${grants.length === 1 ? '' : 's'} Need Attention - ${orgName}`,
+            html: generateStaleGrantDigestEmail({
+              orgName,
+              userName: owner.full_name,
+              grants,
+            }),
+          });
+
+          if (result.error) {
+            throw result.error;
+          }
+
+          sentCount++;
+        } catch (error) {
+          console.error(`[Stale Grants] Failed to send digest to ${owner.email}:`, error);
+          failedCount++;
+        }
+
+        await supabase.from('in_app_notifications').insert({
+          user_id: ownerId,
+          org_id: org.org_id,
+          type: 'system',
+          title: `${grants.length} of your grants ${grants.length === 1 ? 'has' : 'have'} gone stale`,
+          message: grants
+            .slice(0, 3)
+            .map((grant) => `${grant.title} (${grant.days_in_stage} days in ${grant.stage_label})`)
+            .join('; '),
+          action_url: grants.length === 1 ? `/grants/${grants[0].id}` : '/pipeline',
+          metadata: {
+            grant_ids: grants.map((grant) => grant.id),
+            digest: 'stale_grants',
+          },
+        });
+      }
+
+      totalEmailsSent += sentCount;
+      totalEmailsFailed += failedCount;
+
+      results.push({
+        org_id: org.org_id,
+        org_name: orgName,
+        stale_grants: staleGrants.length,
+        owners_notified: byOwner.size,
+        emails_sent: sentCount,
+        emails_failed: failedCount,
+      });
+    }
+
+    console.log(
+      `[Stale Grants] Sent ${totalEmailsSent} digests (${totalEmailsFailed} failed) across ${results.length} organizations`,
+    );
+
+    return res.status(200).json({
+      message: 'Stale grant digests sent',
+      timestamp: now.toISOString(),
+      summary: {
+        organizations_processed: results.length,
+        emails_sent: totalEmailsSent,
+        emails_failed: totalEmailsFailed,
+      },
+      results,
+    });
+  } catch (error) {
+    console.error('[Stale Grants] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Failed to send stale grant digests',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
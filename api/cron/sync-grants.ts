@@ -1,12 +1,15 @@
 /**
- * Cron Job: Nightly Grant Sync
+ * Cron Job: Grant Sync
  *
- * Runs daily to sync grants from enabled sources
+ * Runs hourly. Each tick first resumes checkpointed jobs (paused at the time
+ * budget, retrying after a failure, or cut off mid-page), then starts syncs for
+ * enabled sources that are due according to their sync_frequency, and finally
+ * sends grant.catalog_changed for saved grants whose catalog record changed.
  * Configure in vercel.json:
  * {
  *   "crons": [{
  *     "path": "/api/cron/sync-grants",
- *     "schedule": "0 2 * * *"
+ *     "schedule": "0 * * * *"
  *   }]
  * }
  */
@@ -14,7 +17,27 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { SyncService } from '../../lib/grants/SyncService.js';
+import type { GrantSource } from '../../lib/grants/types.js';
 import { verifyCronAuth } from '../utils/auth.js';
+import { notifyCatalogChanges } from '../utils/catalog-changes.js';
+
+// Stop starting new pages after this long; maxDuration for this function is 300s
+const TIME_BUDGET_MS = 240 * 1000;
+
+// Minimum time since last_sync_at before a source is synced again (an hour of
+// slack so a daily source doesn't slip by one tick each day)
+const SYNC_INTERVALS_MS: Record<string, number> = {
+  hourly: 0,
+  daily: 23 * 60 * 60 * 1000,
+  weekly: (7 * 24 - 1) * 60 * 60 * 1000,
+};
+
+function isSourceDue(source: GrantSource): boolean {
+  const interval = SYNC_INTERVALS_MS[source.sync_frequency];
+  if (interval === undefined) return false; // manual
+
+  return !source.last_sync_at || Date.now() - new Date(source.last_sync_at).getTime() >= interval;
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Verify this is a cron request using timing-safe comparison
@@ -35,7 +58,44 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
   try {
+    const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
+    const results = [];
+
+    // Resume checkpointed jobs before starting anything new
+    const resumableJobs = await syncService.getResumableJobs();
+
+    for (const pendingJob of resumableJobs) {
+      if (Date.now() >= deadline) break;
+
+      try {
+        console.log(`Resuming sync job ${pendingJob.id} from page ${pendingJob.checkpoint_page}...`);
+
+        const job = await syncService.resumeSync(pendingJob.id, { deadline });
+
+        results.push({
+          job_id: job.id,
+          resumed: true,
+          status: job.status,
+          pages_completed: job.pages_completed,
+          total_pages: job.total_pages,
+          grants_fetched: job.grants_fetched,
+          grants_created: job.grants_created,
+          grants_updated: job.grants_updated,
+        });
+      } catch (error) {
+        console.error(`Error resuming sync job ${pendingJob.id}:`, error);
+        results.push({
+          job_id: pendingJob.id,
+          resumed: true,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
     // Get all sources that are enabled for sync
     const { data: sources, error: sourcesError } = await supabase
       .from('grant_sources')
@@ -46,35 +106,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       throw sourcesError;
     }
 
-    if (!sources || sources.length === 0) {
-      return res.status(200).json({
-        message: 'No sources configured for sync',
-        results: [],
-      });
-    }
+    // Sources with an unfinished job are left to that job
+    const { data: unfinishedJobs } = await supabase
+      .from('sync_jobs')
+      .select('source_id')
+      .in('status', ['pending', 'running']);
 
-    const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
-    const results = [];
+    const busySourceIds = new Set((unfinishedJobs || []).map((job) => job.source_id));
+
+    // Sync each enabled source that is due
+    for (const source of (sources || []) as GrantSource[]) {
+      if (busySourceIds.has(source.id) || !isSourceDue(source)) continue;
+      if (Date.now() >= deadline) break;
 
-    // Sync each enabled source
-    for (const source of sources) {
       try {
         console.log(`Starting sync for ${source.source_key}...`);
 
         // Determine job type based on last sync
         const jobType = source.last_sync_at ? 'incremental' : 'full';
 
-        const job = await syncService.runSync(source.source_key, jobType as any);
+        const job = await syncService.runSync(source.source_key, jobType, undefined, { deadline });
 
         results.push({
           source_key: source.source_key,
           status: job.status,
+          pages_completed: job.pages_completed,
+          total_pages: job.total_pages,
           grants_fetched: job.grants_fetched,
           grants_created: job.grants_created,
           grants_updated: job.grants_updated,
         });
 
-        console.log(`Completed sync for ${source.source_key}`);
+        console.log(`Finished sync run for ${source.source_key} (${job.status})`);
       } catch (error) {
         console.error(`Error syncing ${source.source_key}:`, error);
         results.push({
@@ -85,10 +148,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
+    // Tell orgs tracking changed grants what moved
+    const catalogNotifications = await notifyCatalogChanges(supabase);
+
     return res.status(200).json({
       message: 'Sync completed',
       timestamp: new Date().toISOString(),
       results,
+      catalog_notifications: catalogNotifications,
     });
   } catch (error) {
     console.error('Cron sync error:', error);
@@ -0,0 +1,91 @@
+/**
+ * Assistance Listing Links API
+ *
+ * GET /api/grants/assistance-listings?catalog_grant_id=xxx
+ *   - For an opportunity, the SAM.gov Assistance Listings (programs) it is
+ *     posted under; for an assistance listing, the opportunities posted under it.
+ *     Records are linked through shared ALN/CFDA numbers.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from '../utils/cors.js';
+import { SyncService } from '../../lib/grants/SyncService.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin, { methods: 'GET, OPTIONS' });
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  }
+
+  const token = authHeader.substring(7);
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { catalog_grant_id } = req.query;
+
+  if (!catalog_grant_id || typeof catalog_grant_id !== 'string') {
+    return res.status(400).json({ error: 'catalog_grant_id is required' });
+  }
+
+  try {
+    // The catalog is shared by all organizations, so any signed-in user can read it
+    const { data: grant, error: grantError } = await supabase
+      .from('grants_catalog')
+      .select('id, record_type')
+      .eq('id', catalog_grant_id)
+      .maybeSingle();
+
+    if (grantError) throw grantError;
+
+    if (!grant) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+
+    const syncService = new SyncService(supabaseUrl, supabaseServiceKey);
+
+    if (grant.record_type === 'assistance_listing') {
+      return res.status(200).json({
+        record_type: grant.record_type,
+        assistance_listings: [],
+        opportunities: await syncService.getOpportunitiesForAssistanceListing(grant.id),
+      });
+    }
+
+    return res.status(200).json({
+      record_type: grant.record_type,
+      assistance_listings: await syncService.getAssistanceListingsForGrant(grant.id),
+      opportunities: [],
+    });
+  } catch (error) {
+    console.error('Error fetching assistance listing links:', error);
+    return res.status(500).json({ error: 'Failed to fetch assistance listing links' });
+  }
+}
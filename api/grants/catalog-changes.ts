@@ -0,0 +1,117 @@
+/**
+ * Catalog Changes API
+ *
+ * GET /api/grants/catalog-changes?grant_id=xxx
+ *   - Version history of the catalog record behind a saved grant, newest first,
+ *     with field labels and display values for the diff
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from '../utils/cors.js';
+import { formatCatalogValue, getCatalogFieldLabel } from '../../lib/grants/catalog-history.js';
+import type { CatalogChange } from '../../lib/grants/types.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin, { methods: 'GET, OPTIONS' });
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  }
+
+  const token = authHeader.substring(7);
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { grant_id, limit = '20' } = req.query;
+
+  if (!grant_id || typeof grant_id !== 'string') {
+    return res.status(400).json({ error: 'grant_id is required' });
+  }
+
+  try {
+    const { data: grant } = await supabase
+      .from('org_grants_saved')
+      .select('id, org_id, catalog_grant_id')
+      .eq('id', grant_id)
+      .maybeSingle();
+
+    if (!grant) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+
+    // Verify user is org member
+    const { data: membership } = await supabase
+      .from('org_members')
+      .select('id')
+      .eq('org_id', grant.org_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!grant.catalog_grant_id) {
+      return res.status(200).json({ current_version: null, changes: [] });
+    }
+
+    const [{ data: catalogGrant }, { data: changes, error: changesError }] = await Promise.all([
+      supabase
+        .from('grants_catalog')
+        .select('version')
+        .eq('id', grant.catalog_grant_id)
+        .maybeSingle(),
+      supabase
+        .from('grants_catalog_changes')
+        .select('id, version, changes, changed_at')
+        .eq('catalog_grant_id', grant.catalog_grant_id)
+        .order('version', { ascending: false })
+        .limit(Math.min(parseInt(String(limit), 10) || 20, 100)),
+    ]);
+
+    if (changesError) throw changesError;
+
+    return res.status(200).json({
+      current_version: catalogGrant?.version ?? null,
+      changes: ((changes || []) as CatalogChange[]).map((version) => ({
+        ...version,
+        changes: version.changes.map((change) => ({
+          ...change,
+          label: getCatalogFieldLabel(change.field),
+          old_display: formatCatalogValue(change.field, change.old_value),
+          new_display: formatCatalogValue(change.field, change.new_value),
+        })),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching catalog changes:', error);
+    return res.status(500).json({ error: 'Failed to fetch catalog changes' });
+  }
+}
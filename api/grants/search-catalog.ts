@@ -73,6 +73,8 @@ export default async function handler(
       .from('grants_catalog')
       .select('*')
       .eq('source_key', 'grants_gov')
+      .eq('record_type', 'opportunity')
+      .is('canonical_grant_id', null) // Confirmed duplicates collapse into their canonical record
       .eq('is_active', true);
 
     // Full-text search if keyword provided
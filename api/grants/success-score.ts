@@ -8,6 +8,7 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { fetchPipelineStages } from '../utils/pipeline-stages.js';
 
 interface ScoreFactors {
   agency_history: number;
@@ -50,7 +51,11 @@ async function calculateAgencyHistoryFactor(
     return { score: 0.5, winRate: null }; // Neutral if no history
   }
 
-  const awardedCount = pastGrants.filter((g: any) => g.status === 'awarded').length;
+  // Stages with a won outcome count as wins (e.g. Awarded, Closed Out)
+  const stages = await fetchPipelineStages(supabase, orgId);
+  const wonStages = stages.filter((stage) => stage.outcome === 'won').map((stage) => stage.key);
+
+  const awardedCount = pastGrants.filter((g: any) => wonStages.includes(g.status)).length;
   const totalCount = pastGrants.length;
   const winRate = awardedCount / totalCount;
 
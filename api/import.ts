@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { defaultStageKey, fetchPipelineStages, stagesForPipeline } from './utils/pipeline-stages.js';
+import { canAccessPipeline, resolvePipeline } from './utils/pipelines.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -57,10 +59,11 @@ export default async function handler(
   }
 
   try {
-    const { grants, org_id, user_id } = req.body as {
+    const { grants, org_id, user_id, pipeline_id } = req.body as {
       grants: ImportGrant[];
       org_id: string;
       user_id: string;
+      pipeline_id?: string;
     };
 
     if (!grants || !Array.isArray(grants)) {
@@ -108,6 +111,17 @@ export default async function handler(
       }
     };
 
+    // Grants go to the given pipeline, or the organization's default one
+    const pipeline = await resolvePipeline(supabase, org_id, pipeline_id);
+    if (!pipeline || !canAccessPipeline(pipeline, user.id, membership.role)) {
+      return res.status(400).json({ error: 'Pipeline not found' });
+    }
+
+    // Statuses the pipeline has no stage for start in its first open stage
+    const stages = stagesForPipeline(await fetchPipelineStages(supabase, org_id), pipeline.id);
+    const stageKeys = new Set(stages.map((stage) => stage.key));
+    const fallbackStage = defaultStageKey(stages);
+
     // Prepare grants for insert
     const grantsToInsert = grants.map(grant => ({
       org_id,
@@ -119,7 +133,8 @@ export default async function handler(
       aln: grant.aln || null,
       open_date: convertToISO(grant.open_date),
       close_date: convertToISO(grant.close_date),
-      status: grant.status || 'researching',
+      status: grant.status && stageKeys.has(grant.status) ? grant.status : fallbackStage,
+      pipeline_id: pipeline.id,
       priority: grant.priority || 'medium',
       assigned_to: grant.assigned_to || null,
       notes: grant.notes || null,
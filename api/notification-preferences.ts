@@ -0,0 +1,156 @@
+/**
+ * Notification Preferences API
+ *
+ * GET /api/notification-preferences?org_id=xxx
+ *   - The signed-in user's routing of each event type to email, in-app,
+ *     Slack and Teams, immediate or digest delivery, digest schedule and
+ *     quiet hours, with defaults filled in
+ *   - Also reports which chat channels the organization has connected
+ *
+ * PUT /api/notification-preferences
+ *   - Update the signed-in user's preferences in an organization
+ *   - Body: { org_id, routes?, quiet_hours_start?, quiet_hours_end?, timezone?,
+ *     digest_frequency?, digest_hour? }
+ *   - Events left out of routes keep their current routing
+ *
+ * Every member manages only their own preferences. Organization settings
+ * still decide which deadline reminders are sent at all.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserAuth, verifyOrgMembership, sendAuthError } from './utils/auth-middleware.js';
+import { validateBody, notificationPreferencesUpdateSchema } from './utils/validation';
+import { PREFERENCE_COLUMNS, resolvePreferences } from './utils/notification-preferences.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+/**
+ * Which chat integrations the organization has connected
+ */
+async function fetchConnectedChannels(
+  supabase: SupabaseClient,
+  orgId: string,
+): Promise<{ slack: boolean; teams: boolean }> {
+  const { data } = await supabase
+    .from('integrations')
+    .select('integration_type')
+    .eq('org_id', orgId)
+    .eq('is_active', true)
+    .in('integration_type', ['slack', 'microsoft_teams']);
+
+  const types = new Set((data || []).map((integration) => integration.integration_type));
+  return { slack: types.has('slack'), teams: types.has('microsoft_teams') };
+}
+
+async function fetchStoredPreferences(supabase: SupabaseClient, userId: string, orgId: string) {
+  return supabase
+    .from('notification_preferences')
+    .select(PREFERENCE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Current preferences
+  if (req.method === 'GET') {
+    const { org_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const [{ data: row, error }, channels] = await Promise.all([
+      fetchStoredPreferences(supabase, user.id, org_id),
+      fetchConnectedChannels(supabase, org_id),
+    ]);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({
+      preferences: resolvePreferences(row, user.id, org_id),
+      channels,
+    });
+  }
+
+  // PUT - Update preferences
+  if (req.method === 'PUT') {
+    const validation = validateBody(req, res, notificationPreferencesUpdateSchema);
+    if (!validation.success) return;
+
+    const { org_id, routes, ...settings } = validation.data;
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const { data: existing, error: fetchError } = await fetchStoredPreferences(
+      supabase,
+      user.id,
+      org_id,
+    );
+
+    if (fetchError) {
+      return res.status(500).json({ error: fetchError.message });
+    }
+
+    const { data: row, error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        {
+          user_id: user.id,
+          org_id,
+          routing: { ...(existing?.routing || {}), ...(routes || {}) },
+          quiet_hours_start:
+            settings.quiet_hours_start !== undefined
+              ? settings.quiet_hours_start
+              : existing?.quiet_hours_start || null,
+          quiet_hours_end:
+            settings.quiet_hours_end !== undefined
+              ? settings.quiet_hours_end
+              : existing?.quiet_hours_end || null,
+          timezone: settings.timezone || existing?.timezone || 'UTC',
+          digest_frequency: settings.digest_frequency || existing?.digest_frequency || 'daily',
+          digest_hour: settings.digest_hour ?? existing?.digest_hour ?? 8,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,org_id' },
+      )
+      .select(PREFERENCE_COLUMNS)
+      .single();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ preferences: resolvePreferences(row, user.id, org_id) });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'PUT'], requestId);
+});
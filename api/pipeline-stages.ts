@@ -0,0 +1,208 @@
+/**
+ * Pipeline Stages API
+ *
+ * GET /api/pipeline-stages?org_id=xxx[&pipeline_id=xxx]
+ *   - List the organization's stages in order, with the grant fields a stage
+ *     can require; with pipeline_id, only that pipeline's and shared stages
+ *
+ * PUT /api/pipeline-stages
+ *   - Replace a pipeline's stages (the default pipeline's unless pipeline_id is given)
+ *   - Body: { org_id, pipeline_id?, stages: [{ key?, label, color, outcome?, is_terminal?,
+ *       show_on_board?, required_fields?, wip_limit?, wip_limit_mode?, stale_after_days? }] }
+ *   - Stages are matched by key; a stage without a key is new and gets one
+ *     from its label. Stages left out are removed, which fails while grants
+ *     are still in them. Approval workflows for a removed stage are deleted.
+ *     Shared stages (archived) stay shared and must be included.
+ *
+ * Any member can list stages; changing them requires an org admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import {
+  verifyUserAuth,
+  verifyOrgMembership,
+  verifyOrgAdmin,
+  sendAuthError,
+} from './utils/auth-middleware.js';
+import { validateBody, pipelineStagesUpdateSchema } from './utils/validation';
+import {
+  ARCHIVED_STAGE_KEY,
+  STAGE_REQUIRED_FIELDS,
+  fetchPipelineStages,
+  stageKeyFromLabel,
+  stagesForPipeline,
+} from './utils/pipeline-stages.js';
+import { resolvePipeline } from './utils/pipelines.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - List stages
+  if (req.method === 'GET') {
+    const { org_id, pipeline_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const allStages = await fetchPipelineStages(supabase, org_id);
+    const stages =
+      typeof pipeline_id === 'string' ? stagesForPipeline(allStages, pipeline_id) : allStages;
+
+    return res.status(200).json({
+      stages,
+      required_field_options: Object.entries(STAGE_REQUIRED_FIELDS).map(([value, label]) => ({
+        value,
+        label,
+      })),
+    });
+  }
+
+  // PUT - Replace stages
+  if (req.method === 'PUT') {
+    const validation = validateBody(req, res, pipelineStagesUpdateSchema);
+    if (!validation.success) return;
+
+    const { org_id, pipeline_id, stages } = validation.data;
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    const pipeline = await resolvePipeline(supabase, org_id, pipeline_id);
+    if (!pipeline) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    const allStages = await fetchPipelineStages(supabase, org_id);
+    const existing = stagesForPipeline(allStages, pipeline.id);
+    const existingKeys = new Set(existing.map((stage) => stage.key));
+    const sharedKeys = new Set(
+      existing.filter((stage) => !stage.pipeline_id).map((stage) => stage.key),
+    );
+
+    const givenKeys = stages.map((stage) => stage.key).filter((key): key is string => !!key);
+    const unknownKey = givenKeys.find((key) => !existingKeys.has(key));
+    if (unknownKey) {
+      return res.status(400).json({ error: `Unknown stage: ${unknownKey}` });
+    }
+    if (new Set(givenKeys).size !== givenKeys.length) {
+      return res.status(400).json({ error: 'Each stage can only appear once' });
+    }
+    if (!givenKeys.includes(ARCHIVED_STAGE_KEY)) {
+      return res.status(400).json({ error: 'The Archived stage cannot be removed' });
+    }
+
+    // Keys are unique across every pipeline of the organization
+    const taken = new Set([...allStages.map((stage) => stage.key), ...givenKeys]);
+    const rows = stages.map((stage, position) => {
+      const key = stage.key || stageKeyFromLabel(stage.label, taken);
+      taken.add(key);
+      const isArchived = key === ARCHIVED_STAGE_KEY;
+
+      return {
+        org_id,
+        pipeline_id: isArchived || sharedKeys.has(key) ? null : pipeline.id,
+        key,
+        label: stage.label,
+        color: stage.color,
+        position,
+        outcome: isArchived ? null : stage.outcome || null,
+        is_terminal: isArchived || (stage.is_terminal ?? false),
+        show_on_board: stage.show_on_board ?? true,
+        required_fields: isArchived ? [] : stage.required_fields || [],
+        wip_limit: isArchived ? null : stage.wip_limit || null,
+        wip_limit_mode: stage.wip_limit_mode || 'warn',
+        stale_after_days: isArchived ? null : stage.stale_after_days || null,
+        updated_at: new Date().toISOString(),
+      };
+    });
+
+    if (!rows.some((row) => !row.is_terminal)) {
+      return res.status(400).json({ error: 'At least one stage must not be terminal' });
+    }
+
+    // Grants must be moved out of a stage before it can be removed
+    const removedKeys = existing
+      .map((stage) => stage.key)
+      .filter((key) => !rows.some((row) => row.key === key));
+
+    if (removedKeys.length > 0) {
+      const { data: grantsInRemoved, error: countError } = await supabase
+        .from('org_grants_saved')
+        .select('status')
+        .eq('org_id', org_id)
+        .in('status', removedKeys);
+
+      if (countError) {
+        return res.status(500).json({ error: countError.message });
+      }
+
+      if (grantsInRemoved && grantsInRemoved.length > 0) {
+        const blocking = existing.find((stage) => stage.key === grantsInRemoved[0].status);
+        const count = grantsInRemoved.filter((grant) => grant.status === blocking?.key).length;
+        return res.status(409).json({
+          error: `${count} grant${count === 1 ? ' is' : 's are'} still in ${blocking?.label}. Move them to another stage before removing it.`,
+          stage: blocking?.key,
+        });
+      }
+    }
+
+    const { error: upsertError } = await supabase
+      .from('pipeline_stages')
+      .upsert(rows, { onConflict: 'org_id,key' });
+
+    if (upsertError) {
+      return res.status(500).json({ error: upsertError.message });
+    }
+
+    if (removedKeys.length > 0) {
+      // Templates for a removed stage fall back to being applied by hand
+      await supabase
+        .from('task_templates')
+        .update({ apply_on_stage: null })
+        .eq('org_id', org_id)
+        .in('apply_on_stage', removedKeys);
+
+      const { error: deleteError } = await supabase
+        .from('pipeline_stages')
+        .delete()
+        .eq('org_id', org_id)
+        .in('key', removedKeys);
+
+      if (deleteError) {
+        return res.status(500).json({ error: deleteError.message });
+      }
+    }
+
+    return res.status(200).json({
+      stages: stagesForPipeline(await fetchPipelineStages(supabase, org_id), pipeline.id),
+    });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'PUT'], requestId);
+});
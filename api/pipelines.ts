@@ -0,0 +1,369 @@
+/**
+ * Pipelines API
+ *
+ * GET /api/pipelines?org_id=xxx
+ *   - List the organization's pipelines the user can access, in order, with
+ *     their members and how many grants each holds
+ *
+ * POST /api/pipelines
+ *   - Create a pipeline
+ *   - Body: { org_id, name, description?, color?, member_ids?, copy_stages_from? }
+ *   - The new pipeline starts with a copy of another pipeline's stages (the
+ *     default pipeline unless copy_stages_from is given), under new keys
+ *
+ * PATCH /api/pipelines?id=xxx
+ *   - Rename, recolor, reorder or make a pipeline the default
+ *   - member_ids, when given, replace the members; an empty list opens the
+ *     pipeline to the whole organization
+ *
+ * DELETE /api/pipelines?id=xxx
+ *   - Delete a pipeline with its stages and their approval workflows; fails
+ *     for the default pipeline and while grants are still in it
+ *
+ * Any member can list the pipelines they can access; changing them requires
+ * an org admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import {
+  verifyUserAuth,
+  verifyOrgMembership,
+  verifyOrgAdmin,
+  sendAuthError,
+} from './utils/auth-middleware.js';
+import {
+  validateBody,
+  validateId,
+  pipelineCreateSchema,
+  pipelineUpdateSchema,
+} from './utils/validation';
+import {
+  fetchPipelineStages,
+  stageKeyFromLabel,
+  stagesForPipeline,
+} from './utils/pipeline-stages.js';
+import { canAccessPipeline, fetchPipelines, resolvePipeline } from './utils/pipelines.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+/**
+ * Whether every user is a member of the organization
+ */
+async function validateMembers(
+  supabase: SupabaseClient,
+  orgId: string,
+  userIds: string[],
+): Promise<boolean> {
+  if (userIds.length === 0) {
+    return true;
+  }
+
+  const { data } = await supabase
+    .from('org_members')
+    .select('user_id')
+    .eq('org_id', orgId)
+    .in('user_id', userIds);
+
+  return new Set((data || []).map((member) => member.user_id)).size === new Set(userIds).size;
+}
+
+async function replaceMembers(
+  supabase: SupabaseClient,
+  pipelineId: string,
+  userIds: string[],
+): Promise<string | null> {
+  const { error: deleteError } = await supabase
+    .from('pipeline_members')
+    .delete()
+    .eq('pipeline_id', pipelineId);
+
+  if (deleteError) {
+    return deleteError.message;
+  }
+
+  if (userIds.length === 0) {
+    return null;
+  }
+
+  const { error: insertError } = await supabase
+    .from('pipeline_members')
+    .insert([...new Set(userIds)].map((user_id) => ({ pipeline_id: pipelineId, user_id })));
+
+  return insertError ? insertError.message : null;
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - List pipelines
+  if (req.method === 'GET') {
+    const { org_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const role = membershipResult.membership!.role;
+    const pipelines = (await fetchPipelines(supabase, org_id)).filter((pipeline) =>
+      canAccessPipeline(pipeline, user.id, role),
+    );
+
+    const { data: grants, error } = await supabase
+      .from('org_grants_saved')
+      .select('pipeline_id')
+      .eq('org_id', org_id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    const grantCounts = new Map<string, number>();
+    for (const grant of grants || []) {
+      grantCounts.set(grant.pipeline_id, (grantCounts.get(grant.pipeline_id) || 0) + 1);
+    }
+
+    return res.status(200).json({
+      pipelines: pipelines.map((pipeline) => ({
+        ...pipeline,
+        grant_count: grantCounts.get(pipeline.id) || 0,
+      })),
+    });
+  }
+
+  // POST - Create pipeline
+  if (req.method === 'POST') {
+    const validation = validateBody(req, res, pipelineCreateSchema);
+    if (!validation.success) return;
+
+    const { org_id, member_ids, copy_stages_from, ...fields } = validation.data;
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    const source = await resolvePipeline(supabase, org_id, copy_stages_from);
+    if (!source) {
+      return res.status(400).json({ error: 'Pipeline to copy stages from not found' });
+    }
+
+    if (!(await validateMembers(supabase, org_id, member_ids || []))) {
+      return res.status(400).json({ error: 'Members must belong to this organization' });
+    }
+
+    const existing = await fetchPipelines(supabase, org_id);
+
+    const { data: pipeline, error } = await supabase
+      .from('pipelines')
+      .insert({
+        org_id,
+        name: fields.name.trim(),
+        description: fields.description || null,
+        color: fields.color || 'blue',
+        position: existing.length,
+        created_by: user.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A pipeline with this name already exists' });
+      }
+      return res.status(500).json({ error: error.message });
+    }
+
+    // Stage keys are unique across the organization, so copies get new ones
+    const stages = await fetchPipelineStages(supabase, org_id);
+    const taken = new Set(stages.map((stage) => stage.key));
+    const rows = stagesForPipeline(stages, source.id)
+      .filter((stage) => stage.pipeline_id)
+      .map((stage, position) => {
+        const key = stageKeyFromLabel(`${fields.name} ${stage.label}`, taken);
+        taken.add(key);
+
+        return {
+          org_id,
+          pipeline_id: pipeline.id,
+          key,
+          label: stage.label,
+          color: stage.color,
+          position,
+          outcome: stage.outcome,
+          is_terminal: stage.is_terminal,
+          show_on_board: stage.show_on_board,
+          required_fields: stage.required_fields,
+          wip_limit: stage.wip_limit,
+          wip_limit_mode: stage.wip_limit_mode,
+          stale_after_days: stage.stale_after_days,
+        };
+      });
+
+    const { error: stagesError } = await supabase.from('pipeline_stages').insert(rows);
+    const membersError = stagesError
+      ? null
+      : await replaceMembers(supabase, pipeline.id, member_ids || []);
+
+    if (stagesError || membersError) {
+      await supabase.from('pipelines').delete().eq('id', pipeline.id);
+      return res.status(500).json({ error: stagesError?.message || membersError });
+    }
+
+    const created = (await fetchPipelines(supabase, org_id)).find((p) => p.id === pipeline.id);
+    return res.status(201).json({ pipeline: { ...created, grant_count: 0 } });
+  }
+
+  // PATCH - Update pipeline
+  if (req.method === 'PATCH') {
+    const idValidation = validateId(req, res);
+    if (!idValidation.success) return;
+
+    const validation = validateBody(req, res, pipelineUpdateSchema);
+    if (!validation.success) return;
+
+    const id = idValidation.data;
+    const { member_ids, is_default, ...fields } = validation.data;
+
+    const { data: existing } = await supabase
+      .from('pipelines')
+      .select('org_id, is_default')
+      .eq('id', id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, existing.org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    if (member_ids && !(await validateMembers(supabase, existing.org_id, member_ids))) {
+      return res.status(400).json({ error: 'Members must belong to this organization' });
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (fields.name !== undefined) updates.name = fields.name.trim();
+    if (fields.description !== undefined) updates.description = fields.description || null;
+    if (fields.color !== undefined) updates.color = fields.color;
+    if (fields.position !== undefined) updates.position = fields.position;
+
+    // Only one default per organization, so the current one is cleared first
+    if (is_default && !existing.is_default) {
+      await supabase
+        .from('pipelines')
+        .update({ is_default: false })
+        .eq('org_id', existing.org_id)
+        .eq('is_default', true);
+      updates.is_default = true;
+    }
+
+    const { error } = await supabase.from('pipelines').update(updates).eq('id', id);
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A pipeline with this name already exists' });
+      }
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (member_ids !== undefined) {
+      const membersError = await replaceMembers(supabase, id, member_ids);
+      if (membersError) {
+        return res.status(500).json({ error: membersError });
+      }
+    }
+
+    const pipeline = (await fetchPipelines(supabase, existing.org_id)).find((p) => p.id === id);
+    return res.status(200).json({ pipeline });
+  }
+
+  // DELETE - Delete pipeline
+  if (req.method === 'DELETE') {
+    const idValidation = validateId(req, res);
+    if (!idValidation.success) return;
+
+    const id = idValidation.data;
+
+    const { data: existing } = await supabase
+      .from('pipelines')
+      .select('org_id, name, is_default')
+      .eq('id', id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, existing.org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    if (existing.is_default) {
+      return res
+        .status(400)
+        .json({ error: 'Make another pipeline the default before deleting this one' });
+    }
+
+    const { count, error: countError } = await supabase
+      .from('org_grants_saved')
+      .select('id', { count: 'exact', head: true })
+      .eq('pipeline_id', id);
+
+    if (countError) {
+      return res.status(500).json({ error: countError.message });
+    }
+
+    if (count) {
+      return res.status(409).json({
+        error: `${count} grant${count === 1 ? ' is' : 's are'} still in ${existing.name}. Move them to another pipeline before deleting it.`,
+      });
+    }
+
+    // Templates for the pipeline's stages fall back to being applied by hand
+    const stageKeys = (await fetchPipelineStages(supabase, existing.org_id))
+      .filter((stage) => stage.pipeline_id === id)
+      .map((stage) => stage.key);
+
+    if (stageKeys.length > 0) {
+      await supabase
+        .from('task_templates')
+        .update({ apply_on_stage: null })
+        .eq('org_id', existing.org_id)
+        .in('apply_on_stage', stageKeys);
+    }
+
+    const { error } = await supabase.from('pipelines').delete().eq('id', id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ success: true });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'PATCH', 'DELETE'], requestId);
+});
@@ -162,6 +162,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .from('grants_catalog')
       .select('*')
       .eq('is_active', true)
+      .eq('record_type', 'opportunity')
+      .is('canonical_grant_id', null) // Skip confirmed cross-source duplicates
       .in('opportunity_status', ['posted', 'forecasted'])
       .gte('close_date', new Date().toISOString())
       .order('posted_date', { ascending: false })
@@ -0,0 +1,363 @@
+/**
+ * Bank Reconciliation API
+ *
+ * GET /api/reconciliation?org_id=xxx
+ *   - Recent statement imports and the number of disbursements still
+ *     unreconciled
+ *
+ * POST /api/reconciliation
+ *   - Suggest matches between statement rows and the org's unreconciled
+ *     disbursements and open payment schedules; nothing is saved
+ *   - Body: { org_id, rows: [{ row, date, amount, description, reference }] }
+ *     with amounts positive for money in and negative for money out
+ *
+ * PUT /api/reconciliation
+ *   - Reconcile the reviewed matches: matched disbursements are marked
+ *     reconciled, and a payment received is recorded (reconciled) for each
+ *     matched payment schedule, which is marked received
+ *   - Body: { org_id, file_name, rows, matches: [{ row, kind, id }] }
+ *
+ * See api/utils/reconciliation.ts for the matching rules.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { setCorsHeaders } from './utils/cors.js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import {
+  validateBody,
+  reconciliationMatchSchema,
+  reconciliationApplySchema,
+} from './utils/validation';
+import {
+  fetchReconciliationCandidates,
+  matchStatementRows,
+  statementPeriod,
+} from './utils/reconciliation.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // Set secure CORS headers based on whitelisted origins
+  setCorsHeaders(res, req.headers.origin);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'PUT'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Import history
+  if (req.method === 'GET') {
+    const { org_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, org_id, 'grants:view');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    const [reconciliations, unreconciled] = await Promise.all([
+      supabase
+        .from('bank_reconciliations')
+        .select('*')
+        .eq('org_id', org_id)
+        .order('created_at', { ascending: false })
+        .limit(20),
+      supabase
+        .from('disbursements')
+        .select('id', { count: 'exact', head: true })
+        .eq('org_id', org_id)
+        .eq('reconciled', false),
+    ]);
+
+    for (const result of [reconciliations, unreconciled]) {
+      if (result.error) {
+        return ErrorHandlers.database(res, result.error, requestId);
+      }
+    }
+
+    const userIds = [
+      ...new Set((reconciliations.data || []).map((record) => record.reconciled_by)),
+    ];
+    const { data: profiles } = userIds.length
+      ? await supabase.from('user_profiles').select('id, full_name').in('id', userIds)
+      : { data: [] };
+    const names = new Map((profiles || []).map((profile) => [profile.id, profile.full_name]));
+
+    return res.status(200).json({
+      reconciliations: (reconciliations.data || []).map((record) => ({
+        ...record,
+        reconciled_by_name: names.get(record.reconciled_by) || null,
+      })),
+      unreconciled_count: unreconciled.count || 0,
+    });
+  }
+
+  // POST - Suggest matches
+  if (req.method === 'POST') {
+    const validation = validateBody(req, res, reconciliationMatchSchema);
+    if (!validation.success) return;
+
+    const { org_id, rows } = validation.data;
+
+    const accessResult = await verifyOrgAccess(supabase, authResult, org_id, 'grants:edit');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
+    }
+
+    let candidates;
+    try {
+      candidates = await fetchReconciliationCandidates(supabase, org_id, rows);
+    } catch (error) {
+      return ErrorHandlers.database(res, error, requestId);
+    }
+
+    const result = matchStatementRows(rows, candidates);
+
+    return res.status(200).json({ ...result, candidates });
+  }
+
+  // PUT - Reconcile the reviewed matches
+  const validation = validateBody(req, res, reconciliationApplySchema);
+  if (!validation.success) return;
+
+  const { org_id, file_name, rows, matches } = validation.data;
+
+  const accessResult = await verifyOrgAccess(supabase, authResult, org_id, 'grants:edit');
+  if (!accessResult.success) {
+    return sendAuthError(res, accessResult);
+  }
+
+  const rowsByNumber = new Map(rows.map((row) => [row.row, row]));
+  const disbursementMatches = matches.filter((match) => match.kind === 'disbursement');
+  const scheduleMatches = matches.filter((match) => match.kind === 'payment_schedule');
+
+  const [disbursementsResult, schedulesResult, receiptsResult] = await Promise.all([
+    disbursementMatches.length
+      ? supabase
+          .from('disbursements')
+          .select('id, reconciled')
+          .eq('org_id', org_id)
+          .in(
+            'id',
+            disbursementMatches.map((match) => match.id),
+          )
+      : { data: [], error: null },
+    scheduleMatches.length
+      ? supabase
+          .from('payment_schedules')
+          .select('id, budget_id, payment_name, received, status')
+          .eq('org_id', org_id)
+          .in(
+            'id',
+            scheduleMatches.map((match) => match.id),
+          )
+      : { data: [], error: null },
+    scheduleMatches.length
+      ? supabase
+          .from('disbursements')
+          .select('payment_schedule_id')
+          .in(
+            'payment_schedule_id',
+            scheduleMatches.map((match) => match.id),
+          )
+      : { data: [], error: null },
+  ]);
+
+  for (const result of [disbursementsResult, schedulesResult, receiptsResult]) {
+    if (result.error) {
+      return ErrorHandlers.database(res, result.error, requestId);
+    }
+  }
+
+  // Records reconciled or received since the matches were suggested are
+  // skipped rather than failing the whole statement
+  const skipped: Array<{ row: number; reason: string }> = [];
+
+  const disbursements = new Map(
+    (disbursementsResult.data || []).map((disbursement) => [disbursement.id, disbursement]),
+  );
+  const reconcilable = disbursementMatches.filter((match) => {
+    const disbursement = disbursements.get(match.id);
+    if (!disbursement) {
+      skipped.push({ row: match.row, reason: 'Disbursement not found' });
+      return false;
+    }
+    if (disbursement.reconciled) {
+      skipped.push({ row: match.row, reason: 'Disbursement is already reconciled' });
+      return false;
+    }
+    return true;
+  });
+
+  const schedules = new Map(
+    (schedulesResult.data || []).map((schedule) => [schedule.id, schedule]),
+  );
+  const recordedSchedules = new Set(
+    (receiptsResult.data || []).map((receipt) => receipt.payment_schedule_id as string),
+  );
+  const receivable = scheduleMatches.filter((match) => {
+    const schedule = schedules.get(match.id);
+    const row = rowsByNumber.get(match.row)!;
+    if (!schedule) {
+      skipped.push({ row: match.row, reason: 'Payment schedule not found' });
+      return false;
+    }
+    if (
+      schedule.received ||
+      schedule.status === 'cancelled' ||
+      recordedSchedules.has(schedule.id)
+    ) {
+      skipped.push({ row: match.row, reason: 'Payment is already recorded' });
+      return false;
+    }
+    if (row.amount <= 0) {
+      skipped.push({ row: match.row, reason: 'Scheduled payments can only match money in' });
+      return false;
+    }
+    return true;
+  });
+
+  const matchedRows = new Set([...reconcilable, ...receivable].map((match) => match.row));
+  const { start, end } = statementPeriod(rows);
+
+  const { data: reconciliation, error: reconciliationError } = await supabase
+    .from('bank_reconciliations')
+    .insert({
+      org_id,
+      file_name,
+      statement_start: start,
+      statement_end: end,
+      row_count: rows.length,
+      matched_count: matchedRows.size,
+      unmatched_rows: rows.filter((row) => !matchedRows.has(row.row)),
+      reconciled_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (reconciliationError || !reconciliation) {
+    return ErrorHandlers.database(res, reconciliationError, requestId);
+  }
+
+  const now = new Date().toISOString();
+  const reconciledFields = {
+    reconciled: true,
+    reconciled_at: now,
+    reconciled_by: user.id,
+    reconciliation_id: reconciliation.id,
+  };
+
+  if (reconcilable.length > 0) {
+    const { error: updateError } = await supabase
+      .from('disbursements')
+      .update({ ...reconciledFields, updated_at: now })
+      .in(
+        'id',
+        reconcilable.map((match) => match.id),
+      )
+      .eq('reconciled', false);
+
+    if (updateError) {
+      await supabase.from('bank_reconciliations').delete().eq('id', reconciliation.id);
+      return ErrorHandlers.database(res, updateError, requestId);
+    }
+  }
+
+  if (receivable.length > 0) {
+    const { error: insertError } = await supabase.from('disbursements').insert(
+      receivable.map((match) => {
+        const schedule = schedules.get(match.id)!;
+        const row = rowsByNumber.get(match.row)!;
+        return {
+          budget_id: schedule.budget_id,
+          org_id,
+          disbursement_type: 'payment_received',
+          amount: row.amount,
+          disbursement_date: row.date,
+          reference_number: row.reference,
+          description: schedule.payment_name,
+          payment_schedule_id: schedule.id,
+          approved: true,
+          approved_by: user.id,
+          approved_at: now,
+          ...reconciledFields,
+          created_by: user.id,
+        };
+      }),
+    );
+
+    if (insertError) {
+      // Undo the disbursements reconciled above along with the import
+      await supabase
+        .from('disbursements')
+        .update({
+          reconciled: false,
+          reconciled_at: null,
+          reconciled_by: null,
+          reconciliation_id: null,
+        })
+        .eq('reconciliation_id', reconciliation.id);
+      await supabase.from('bank_reconciliations').delete().eq('id', reconciliation.id);
+      return ErrorHandlers.database(res, insertError, requestId);
+    }
+
+    const scheduleUpdates = await Promise.all(
+      receivable.map((match) => {
+        const row = rowsByNumber.get(match.row)!;
+        return supabase
+          .from('payment_schedules')
+          .update({
+            received: true,
+            status: 'received',
+            actual_amount: row.amount,
+            actual_date: row.date,
+            updated_at: now,
+          })
+          .eq('id', match.id);
+      }),
+    );
+
+    // The payments are recorded and linked, so a failed status update
+    // doesn't undo the import
+    for (const result of scheduleUpdates) {
+      if (result.error) {
+        console.error(
+          `[Reconciliation ${requestId}] Failed to mark payment schedule received:`,
+          result.error,
+        );
+      }
+    }
+  }
+
+  return res.status(200).json({
+    reconciliation,
+    reconciled: reconcilable.length,
+    payments_recorded: receivable.length,
+    skipped,
+  });
+});
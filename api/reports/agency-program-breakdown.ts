@@ -34,6 +34,7 @@ interface ReportFilters {
   startDate?: string;
   endDate?: string;
   status?: string[];
+  pipelineId?: string;
   groupBy?: 'agency' | 'program' | 'both';
   timelineGranularity?: 'month' | 'quarter' | 'year';
 }
@@ -77,6 +78,9 @@ async function generateAgencyBreakdown(
   if (filters.status && filters.status.length > 0) {
     query = query.in('status', filters.status);
   }
+  if (filters.pipelineId) {
+    query = query.eq('pipeline_id', filters.pipelineId);
+  }
 
   const { data: grants, error } = await query;
 
@@ -186,6 +190,9 @@ async function generateProgramBreakdown(
   if (filters.status && filters.status.length > 0) {
     query = query.in('status', filters.status);
   }
+  if (filters.pipelineId) {
+    query = query.eq('pipeline_id', filters.pipelineId);
+  }
 
   const { data: grants, error } = await query;
 
@@ -257,6 +264,9 @@ async function generateTimelineData(
   if (filters.status && filters.status.length > 0) {
     query = query.in('status', filters.status);
   }
+  if (filters.pipelineId) {
+    query = query.eq('pipeline_id', filters.pipelineId);
+  }
 
   const { data: grants, error } = await query;
 
@@ -356,6 +366,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       startDate: params.start_date,
       endDate: params.end_date,
       status: params.status ? (Array.isArray(params.status) ? params.status : [params.status]) : undefined,
+      pipelineId: params.pipeline_id || undefined,
       groupBy: params.group_by || 'both',
       timelineGranularity: params.timeline_granularity || 'month',
     };
@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { setCorsHeaders } from './utils/cors.js';
+import { notifyGrantEvent } from './utils/notifications.js';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { applyStageTaskTemplates } from './utils/task-templates.js';
+import { checkStageEntry, fetchPipelineStages, stageAfterPipelineMove } from './utils/pipeline-stages.js';
+import { canAccessPipeline, resolvePipeline } from './utils/pipelines.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -9,19 +14,6 @@ if (!supabaseUrl || !supabaseServiceKey) {
   console.error('Missing Supabase environment variables');
 }
 
-const VALID_STATUSES = [
-  'researching',
-  'go-no-go',
-  'drafting',
-  'submitted',
-  'awarded',
-  'not-funded',
-  'closed-out',
-  'rejected',
-  'withdrawn',
-  'archived'
-];
-
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -41,22 +33,13 @@ export default async function handler(
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  // Verify authentication
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
   }
 
-  const token = authHeader.substring(7);
-
-  const {
-    data: { user },
-    error: authError,
-  } = await supabase.auth.getUser(token);
-
-  if (authError || !user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+  const user = authResult.user!;
 
   try {
     if (req.method !== 'PATCH') {
@@ -73,7 +56,7 @@ export default async function handler(
     // Verify the grant belongs to an organization the user is a member of
     const { data: grant, error: grantError } = await supabase
       .from('org_grants_saved')
-      .select('org_id')
+      .select('*')
       .eq('id', grantId)
       .single();
 
@@ -91,29 +74,35 @@ export default async function handler(
       });
     }
 
-    const { data: membership } = await supabase
-      .from('org_members')
-      .select('*')
-      .eq('org_id', grant.org_id)
-      .eq('user_id', user.id)
-      .single();
-
-    if (!membership) {
-      return res.status(403).json({ error: 'Access denied to this grant' });
+    const accessResult = await verifyOrgAccess(supabase, authResult, grant.org_id, 'grants:edit');
+    if (!accessResult.success) {
+      return sendAuthError(res, accessResult);
     }
 
-    const { status, assigned_to, priority, close_date, loi_deadline, internal_deadline } = req.body;
-
-    // Validate status if provided
-    if (status && !VALID_STATUSES.includes(status)) {
-      return res.status(400).json({
-        error: 'Invalid status',
-        validStatuses: VALID_STATUSES,
-      });
+    const { assigned_to, priority, close_date, loi_deadline, internal_deadline, pipeline_id } = req.body;
+    let { status } = req.body;
+
+    // Moving to another pipeline keeps a shared stage (archived), otherwise
+    // the grant starts over in the pipeline's first open stage
+    const movingPipeline = !!pipeline_id && pipeline_id !== grant.pipeline_id;
+    if (movingPipeline) {
+      const pipeline = await resolvePipeline(supabase, grant.org_id, pipeline_id);
+      if (!pipeline || !canAccessPipeline(pipeline, user.id, accessResult.membership?.role)) {
+        return res.status(400).json({ error: 'Pipeline not found' });
+      }
+
+      if (!status) {
+        status = stageAfterPipelineMove(
+          await fetchPipelineStages(supabase, grant.org_id),
+          grant.status,
+          pipeline.id
+        );
+      }
     }
 
     // Build update object
     const updateData: any = {};
+    if (movingPipeline) updateData.pipeline_id = pipeline_id;
     if (status) updateData.status = status;
     if (assigned_to !== undefined) updateData.assigned_to = assigned_to;
     if (priority) updateData.priority = priority;
@@ -125,6 +114,20 @@ export default async function handler(
       return res.status(400).json({ error: 'No fields to update' });
     }
 
+    // The target stage must exist in the grant's pipeline and its required fields must be filled
+    if (status && (status !== grant.status || movingPipeline)) {
+      const stageCheck = await checkStageEntry(supabase, grant.org_id, status, {
+        ...grant,
+        ...updateData,
+      });
+      if (stageCheck.error) {
+        return res.status(400).json({
+          error: stageCheck.error,
+          missing_fields: stageCheck.missing_fields,
+        });
+      }
+    }
+
     // Update grant
     const { data, error } = await supabase
       .from('org_grants_saved')
@@ -138,6 +141,35 @@ export default async function handler(
       return res.status(500).json({ error: 'Failed to update grant' });
     }
 
+    const origin = req.headers.origin || 'https://grantcue.com';
+
+    if (status && status !== grant.status) {
+      await notifyGrantEvent(grantId, 'grant.stage_changed', origin, {
+        from_stage: grant.status,
+        to_stage: status,
+        changed_by: user.id,
+        ...(movingPipeline && { from_pipeline_id: grant.pipeline_id, to_pipeline_id: pipeline_id }),
+      });
+
+      // Tasks from stage templates shouldn't block the status change itself
+      await applyStageTaskTemplates(supabase, grantId, status, user.id).catch((templateError) => {
+        console.error('Error applying stage task templates:', templateError);
+      });
+    }
+
+    const changedFields = Object.keys(updateData).filter(
+      (field) => field !== 'status' && field !== 'pipeline_id'
+    );
+    if (changedFields.length > 0) {
+      await notifyGrantEvent(grantId, 'grant.updated', origin, {
+        changed_fields: changedFields,
+        assigned_to_id: data.assigned_to,
+        priority: data.priority,
+        loi_deadline: data.loi_deadline,
+        internal_deadline: data.internal_deadline,
+      });
+    }
+
     return res.status(200).json({ grant: data });
   } catch (error) {
     console.error('Error in grant status update API:', error);
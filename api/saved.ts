@@ -6,6 +6,9 @@ import { setCorsHeaders } from './utils/cors.js';
 import { validateQuery, validateBody, validateId, savedGrantQuerySchema, savedGrantCreateSchema, savedGrantUpdateSchema } from './utils/validation';
 import { fetchWithTimeout, TimeoutPresets } from './utils/timeout.js';
 import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import { checkStageEntry, defaultStageKey, fetchPipelineStages, stageAfterPipelineMove, stagesForPipeline } from './utils/pipeline-stages.js';
+import { canAccessPipeline, fetchAccessiblePipelineIds, resolvePipeline } from './utils/pipelines.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -30,6 +33,7 @@ interface SavedGrantRequest {
   status?: string;
   priority?: string;
   assigned_to?: string;
+  pipeline_id?: string;
 }
 
 export default wrapHandler(async function handler(
@@ -53,22 +57,13 @@ export default wrapHandler(async function handler(
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  // Verify authentication
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return ErrorHandlers.unauthorized(res, 'Missing or invalid authorization header', undefined, requestId);
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
   }
 
-  const token = authHeader.substring(7);
-
-  const {
-    data: { user },
-    error: authError,
-  } = await supabase.auth.getUser(token);
-
-  if (authError || !user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+  const user = authResult.user!;
 
   try {
     switch (req.method) {
@@ -77,25 +72,35 @@ export default wrapHandler(async function handler(
         const validationResult = validateQuery(req, res, savedGrantQuerySchema);
         if (!validationResult.success) return;
 
-        const { org_id, format } = validationResult.data;
+        const { org_id, pipeline_id, format } = validationResult.data;
 
         // Verify user is a member of the organization
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this organization' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, org_id, 'grants:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
-        const { data, error } = await supabase
+        // Pipelines with members only show their grants to those members
+        const accessiblePipelineIds = await fetchAccessiblePipelineIds(
+          supabase,
+          org_id,
+          user.id,
+          accessResult.membership?.role
+        );
+
+        let query = supabase
           .from('org_grants_saved')
           .select('*')
-          .eq('org_id', org_id)
-          .order('saved_at', { ascending: false});
+          .eq('org_id', org_id);
+
+        if (pipeline_id) {
+          query = query.eq('pipeline_id', pipeline_id);
+        }
+        if (accessiblePipelineIds) {
+          query = query.in('pipeline_id', accessiblePipelineIds);
+        }
+
+        const { data, error } = await query.order('saved_at', { ascending: false});
 
         if (error) {
           console.error('Error fetching saved grants:', error);
@@ -251,19 +256,13 @@ export default wrapHandler(async function handler(
         const grantData = validationResult.data;
 
         // Verify user is a member of the organization
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', grantData.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this organization' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, grantData.org_id, 'grants:create');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
-        // Ensure the user_id in the request matches the authenticated user
-        if (grantData.user_id !== user.id) {
+        // Ensure the user_id in the request matches the authenticated user (defaults to it)
+        if (grantData.user_id && grantData.user_id !== user.id) {
           return res.status(403).json({ error: 'Cannot save grants for other users' });
         }
 
@@ -287,11 +286,31 @@ export default wrapHandler(async function handler(
           }
         };
 
+        const pipeline = await resolvePipeline(supabase, grantData.org_id, grantData.pipeline_id);
+        if (!pipeline || !canAccessPipeline(pipeline, user.id, accessResult.membership?.role)) {
+          return res.status(400).json({ error: 'Pipeline not found' });
+        }
+
+        // Grants start in the pipeline's first open stage unless one is given
+        const status = grantData.status || defaultStageKey(
+          stagesForPipeline(await fetchPipelineStages(supabase, grantData.org_id), pipeline.id)
+        );
+        const stageCheck = await checkStageEntry(supabase, grantData.org_id, status, {
+          ...grantData,
+          pipeline_id: pipeline.id,
+        });
+        if (stageCheck.error) {
+          return res.status(400).json({
+            error: stageCheck.error,
+            missing_fields: stageCheck.missing_fields,
+          });
+        }
+
         const { data, error } = await supabase
           .from('org_grants_saved')
           .insert({
             org_id: grantData.org_id,
-            user_id: grantData.user_id,
+            user_id: user.id,
             external_source: 'grants.gov',
             external_id: grantData.external_id,
             title: grantData.title,
@@ -302,7 +321,8 @@ export default wrapHandler(async function handler(
             close_date: convertToISO(grantData.close_date),
             loi_deadline: convertToISO(grantData.loi_deadline),
             description: grantData.description || null,
-            status: grantData.status || 'researching', // Default to researching if not provided
+            status,
+            pipeline_id: pipeline.id,
             priority: grantData.priority || 'medium', // Default to medium if not provided
             assigned_to: grantData.assigned_to || null,
           })
@@ -327,7 +347,7 @@ export default wrapHandler(async function handler(
           const { error: tasksError } = await supabase.rpc('create_default_grant_tasks', {
             p_grant_id: data.id,
             p_org_id: grantData.org_id,
-            p_user_id: grantData.user_id,
+            p_user_id: user.id,
           });
 
           if (tasksError) {
@@ -388,7 +408,7 @@ export default wrapHandler(async function handler(
         // Get the grant to verify access
         const { data: grant } = await supabase
           .from('org_grants_saved')
-          .select('org_id, close_date, google_calendar_event_id')
+          .select('*')
           .eq('id', id)
           .single();
 
@@ -397,20 +417,47 @@ export default wrapHandler(async function handler(
         }
 
         // Verify user is a member of the organization
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', grant.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this grant' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, grant.org_id, 'grants:edit');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         // Use validated updates directly (schema already filters allowed fields)
         const updateData = updates;
 
+        // Moving to another pipeline keeps a shared stage, otherwise starts over
+        if (updateData.pipeline_id && updateData.pipeline_id !== grant.pipeline_id) {
+          const pipeline = await resolvePipeline(supabase, grant.org_id, updateData.pipeline_id);
+          if (!pipeline || !canAccessPipeline(pipeline, user.id, accessResult.membership?.role)) {
+            return res.status(400).json({ error: 'Pipeline not found' });
+          }
+
+          if (!updateData.status) {
+            updateData.status = stageAfterPipelineMove(
+              await fetchPipelineStages(supabase, grant.org_id),
+              grant.status,
+              pipeline.id
+            );
+          }
+        }
+
+        if (
+          updateData.status &&
+          (updateData.status !== grant.status ||
+            (updateData.pipeline_id && updateData.pipeline_id !== grant.pipeline_id))
+        ) {
+          const stageCheck = await checkStageEntry(supabase, grant.org_id, updateData.status, {
+            ...grant,
+            ...updateData,
+          });
+          if (stageCheck.error) {
+            return res.status(400).json({
+              error: stageCheck.error,
+              missing_fields: stageCheck.missing_fields,
+            });
+          }
+        }
+
         // Perform the update
         const { data: updated, error } = await supabase
           .from('org_grants_saved')
@@ -439,6 +486,7 @@ export default wrapHandler(async function handler(
             grant_deadline: updated.close_date,
             action_url: `${origin}/grants/${updated.id}`,
             metadata: {
+              changed_fields: Object.keys(updateData),
               updated_fields: Object.keys(updateData),
               status: updated.status,
               priority: updated.priority,
@@ -483,15 +531,9 @@ export default wrapHandler(async function handler(
           return res.status(404).json({ error: 'Grant not found' });
         }
 
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', grant.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this grant' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, grant.org_id, 'grants:delete');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         // Delete from Google Calendar first (async, don't wait)
@@ -0,0 +1,319 @@
+/**
+ * Task Templates API
+ *
+ * GET /api/task-templates?org_id=xxx[&grant_id=xxx]
+ *   - List the organization's templates with their items
+ *   - With grant_id, each template gets a match_rank (2 = funder, 1 = agency,
+ *     0 = general, null = targets a different grant) and matches come first
+ *
+ * POST /api/task-templates
+ *   - Create a template
+ *   - Body: { org_id, name, description?, funder_id?, agency?, apply_on_stage?, is_active?, items? }
+ *
+ * PATCH /api/task-templates?id=xxx
+ *   - Update a template; items, when given, replace the existing ones
+ *
+ * DELETE /api/task-templates?id=xxx
+ *   - Delete a template (tasks already created from it are kept)
+ *
+ * Any member can list templates; changing them requires an org admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import {
+  verifyUserAuth,
+  verifyOrgMembership,
+  verifyOrgAdmin,
+  sendAuthError,
+} from './utils/auth-middleware.js';
+import {
+  validateBody,
+  validateId,
+  taskTemplateCreateSchema,
+  taskTemplateUpdateSchema,
+} from './utils/validation';
+import {
+  TEMPLATE_GRANT_COLUMNS,
+  templateMatchRank,
+  type TaskTemplate,
+  type TemplateGrant,
+} from './utils/task-templates.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+type TemplateItemInput = NonNullable<
+  ReturnType<typeof taskTemplateCreateSchema.parse>['items']
+>[number];
+
+function sortItems(template: TaskTemplate): TaskTemplate {
+  return {
+    ...template,
+    task_template_items: [...(template.task_template_items || [])].sort(
+      (a, b) => a.position - b.position,
+    ),
+  };
+}
+
+async function fetchTemplate(supabase: SupabaseClient, id: string): Promise<TaskTemplate | null> {
+  const { data } = await supabase
+    .from('task_templates')
+    .select('*, task_template_items(*)')
+    .eq('id', id)
+    .single();
+
+  return data ? sortItems(data as TaskTemplate) : null;
+}
+
+/**
+ * Replace a template's items with the given list, in order
+ */
+async function replaceItems(
+  supabase: SupabaseClient,
+  templateId: string,
+  items: TemplateItemInput[],
+): Promise<string | null> {
+  const { error: deleteError } = await supabase
+    .from('task_template_items')
+    .delete()
+    .eq('template_id', templateId);
+
+  if (deleteError) {
+    return deleteError.message;
+  }
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const { error } = await supabase.from('task_template_items').insert(
+    items.map((item, index) => ({
+      template_id: templateId,
+      title: item.title.trim(),
+      description: item.description || null,
+      task_type: item.task_type || 'custom',
+      due_offset_days: item.due_offset_days ?? null,
+      due_offset_from: item.due_offset_from || 'close_date',
+      default_assignee_role: item.default_assignee_role || null,
+      is_required: item.is_required ?? false,
+      estimated_days: item.estimated_days ?? null,
+      position: index,
+    })),
+  );
+
+  return error ? error.message : null;
+}
+
+async function validateFunder(
+  supabase: SupabaseClient,
+  orgId: string,
+  funderId: string | null | undefined,
+): Promise<boolean> {
+  if (!funderId) {
+    return true;
+  }
+
+  const { data: funder } = await supabase
+    .from('funders')
+    .select('id')
+    .eq('id', funderId)
+    .eq('org_id', orgId)
+    .single();
+
+  return !!funder;
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - List templates
+  if (req.method === 'GET') {
+    const { org_id, grant_id } = req.query;
+
+    if (!org_id || typeof org_id !== 'string') {
+      return res.status(400).json({ error: 'org_id is required' });
+    }
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const { data, error } = await supabase
+      .from('task_templates')
+      .select('*, task_template_items(*)')
+      .eq('org_id', org_id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    const templates = ((data || []) as TaskTemplate[]).map(sortItems);
+
+    if (!grant_id || typeof grant_id !== 'string') {
+      return res.status(200).json({ templates });
+    }
+
+    const { data: grant } = await supabase
+      .from('org_grants_saved')
+      .select(TEMPLATE_GRANT_COLUMNS)
+      .eq('id', grant_id)
+      .eq('org_id', org_id)
+      .single();
+
+    if (!grant) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+
+    const ranked = templates
+      .map((template) => ({
+        ...template,
+        match_rank: templateMatchRank(template, grant as TemplateGrant),
+      }))
+      .sort((a, b) => (b.match_rank ?? -1) - (a.match_rank ?? -1));
+
+    return res.status(200).json({ templates: ranked });
+  }
+
+  // POST - Create template
+  if (req.method === 'POST') {
+    const validation = validateBody(req, res, taskTemplateCreateSchema);
+    if (!validation.success) return;
+
+    const { org_id, items, ...fields } = validation.data;
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    if (!(await validateFunder(supabase, org_id, fields.funder_id))) {
+      return res.status(400).json({ error: 'Funder not found in this organization' });
+    }
+
+    const { data: template, error } = await supabase
+      .from('task_templates')
+      .insert({
+        org_id,
+        name: fields.name.trim(),
+        description: fields.description || null,
+        funder_id: fields.funder_id || null,
+        agency: fields.agency?.trim() || null,
+        apply_on_stage: fields.apply_on_stage || null,
+        is_active: fields.is_active ?? true,
+        created_by: user.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    const itemsError = await replaceItems(supabase, template.id, items || []);
+    if (itemsError) {
+      await supabase.from('task_templates').delete().eq('id', template.id);
+      return res.status(500).json({ error: itemsError });
+    }
+
+    return res.status(201).json({ template: await fetchTemplate(supabase, template.id) });
+  }
+
+  // PATCH - Update template
+  if (req.method === 'PATCH') {
+    const idValidation = validateId(req, res);
+    if (!idValidation.success) return;
+
+    const validation = validateBody(req, res, taskTemplateUpdateSchema);
+    if (!validation.success) return;
+
+    const id = idValidation.data;
+    const { items, ...fields } = validation.data;
+
+    const existing = await fetchTemplate(supabase, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, existing.org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    if (!(await validateFunder(supabase, existing.org_id, fields.funder_id))) {
+      return res.status(400).json({ error: 'Funder not found in this organization' });
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (fields.name !== undefined) updates.name = fields.name.trim();
+    if (fields.description !== undefined) updates.description = fields.description || null;
+    if (fields.funder_id !== undefined) updates.funder_id = fields.funder_id || null;
+    if (fields.agency !== undefined) updates.agency = fields.agency?.trim() || null;
+    if (fields.apply_on_stage !== undefined) updates.apply_on_stage = fields.apply_on_stage || null;
+    if (fields.is_active !== undefined) updates.is_active = fields.is_active;
+
+    const { error } = await supabase.from('task_templates').update(updates).eq('id', id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (items !== undefined) {
+      const itemsError = await replaceItems(supabase, id, items);
+      if (itemsError) {
+        return res.status(500).json({ error: itemsError });
+      }
+    }
+
+    return res.status(200).json({ template: await fetchTemplate(supabase, id) });
+  }
+
+  // DELETE - Delete template
+  if (req.method === 'DELETE') {
+    const idValidation = validateId(req, res);
+    if (!idValidation.success) return;
+
+    const id = idValidation.data;
+
+    const { data: existing } = await supabase
+      .from('task_templates')
+      .select('org_id')
+      .eq('id', id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, existing.org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    const { error } = await supabase.from('task_templates').delete().eq('id', id);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ success: true });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'PATCH', 'DELETE'], requestId);
+});
@@ -0,0 +1,86 @@
+/**
+ * Apply Task Template API
+ *
+ * POST /api/task-templates/apply
+ *   - Create a template's tasks on a grant
+ *   - Body: { template_id: string, grant_id: string }
+ *   - Items already applied to the grant are skipped
+ *
+ * Accepts API keys with the tasks:create scope.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from '../utils/auth-middleware.js';
+import { validateBody, taskTemplateApplySchema } from '../utils/validation';
+import {
+  TEMPLATE_GRANT_COLUMNS,
+  applyTaskTemplate,
+  type TaskTemplate,
+  type TemplateGrant,
+} from '../utils/task-templates.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method !== 'POST') {
+    return ErrorHandlers.methodNotAllowed(res, ['POST'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  const validation = validateBody(req, res, taskTemplateApplySchema);
+  if (!validation.success) return;
+
+  const { template_id, grant_id } = validation.data;
+
+  const { data: template } = await supabase
+    .from('task_templates')
+    .select('*, task_template_items(*)')
+    .eq('id', template_id)
+    .single();
+
+  if (!template) {
+    return res.status(404).json({ error: 'Template not found' });
+  }
+
+  const accessResult = await verifyOrgAccess(supabase, authResult, template.org_id, 'tasks:create');
+  if (!accessResult.success) {
+    return sendAuthError(res, accessResult);
+  }
+
+  const { data: grant } = await supabase
+    .from('org_grants_saved')
+    .select(TEMPLATE_GRANT_COLUMNS)
+    .eq('id', grant_id)
+    .eq('org_id', template.org_id)
+    .single();
+
+  if (!grant) {
+    return res.status(404).json({ error: 'Grant not found' });
+  }
+
+  const result = await applyTaskTemplate(
+    supabase,
+    template as TaskTemplate,
+    grant as TemplateGrant,
+    user.id,
+  );
+
+  return res.status(result.created.length > 0 ? 201 : 200).json(result);
+});
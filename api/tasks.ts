@@ -1,13 +1,23 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { Resend } from 'resend';
 import { generateTaskAssignmentEmail } from '../lib/emails/task-assignment-template.js';
-import { sendNotifications, getAssignedUserName } from './utils/notifications.js';
+import { sendNotifications, getAssignedUserName, notifyUser } from './utils/notifications.js';
 import { validateQuery, validateBody, validateId, taskQuerySchema, taskCreateSchema, taskUpdateSchema } from './utils/validation';
+import { verifyUserOrApiKey, verifyOrgAccess, sendAuthError } from './utils/auth-middleware.js';
+import {
+  computeTaskSchedule,
+  fetchGrantDependencies,
+  setTaskDependencies,
+  syncBlockedStatuses,
+} from './utils/task-dependencies.js';
+import {
+  clearUpcomingOccurrences,
+  generateOccurrences,
+  resolveRecurrenceFields,
+} from './utils/recurrence.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const resendApiKey = process.env.RESEND_API_KEY;
 
 if (!supabaseUrl || !supabaseServiceKey) {
   console.error('Missing Supabase environment variables');
@@ -25,11 +35,17 @@ interface TaskRequest {
   position?: number;
   is_required?: boolean;
   notes?: string;
+  estimated_days?: number | null;
+  depends_on?: string[];
+  recurrence_rule?: string | null;
+  recurrence_start?: string | null;
+  recurrence_offset_days?: number;
   created_by: string;
 }
 
 /**
- * Sends task assignment email notification
+ * Notifies a task's assignee by email and in-app, as their notification
+ * preferences for task assignments allow
  */
 async function sendTaskAssignmentEmail(
   supabase: any,
@@ -38,11 +54,6 @@ async function sendTaskAssignmentEmail(
   assignerId: string,
   isReassignment: boolean = false
 ) {
-  if (!resendApiKey) {
-    console.warn('[Task Assignment] RESEND_API_KEY not configured - skipping email notification');
-    return;
-  }
-
   try {
     // Get task details with grant information
     const { data: task } = await supabase
@@ -76,11 +87,6 @@ async function sendTaskAssignmentEmail(
 
     const { data: assigneeAuth } = await supabase.auth.admin.getUserById(assigneeId);
 
-    if (!assigneeAuth?.user?.email) {
-      console.warn(`[Task Assignment] Skipping email - assignee ${assigneeId} has no email`);
-      return;
-    }
-
     // Get assigner details
     const { data: assigner } = await supabase
       .from('user_profiles')
@@ -97,27 +103,42 @@ async function sendTaskAssignmentEmail(
       .eq('id', task.org_id)
       .single();
 
-    const resend = new Resend(resendApiKey);
-
-    await resend.emails.send({
-      from: 'GrantCue Tasks <tasks@grantcue.com>',
-      to: assigneeAuth.user.email,
-      subject: `${isReassignment ? 'Task Reassigned' : 'New Task Assigned'}: ${task.title}`,
-      html: generateTaskAssignmentEmail({
-        assignee_name: assignee?.full_name || assigneeAuth.user.email,
-        assigner_name: assigner?.full_name || assignerAuth?.user?.email || 'A team member',
-        task_title: task.title,
-        task_description: task.description,
-        task_due_date: task.due_date,
-        grant_title: task.org_grants_saved.title,
-        grant_id: task.grant_id,
-        task_id: task.id,
-        org_name: org?.name || 'Your Organization',
-        is_reassignment: isReassignment,
-      }),
+    const assignerName = assigner?.full_name || assignerAuth?.user?.email || 'A team member';
+    const subject = `${isReassignment ? 'Task Reassigned' : 'New Task Assigned'}: ${task.title}`;
+
+    const delivery = await notifyUser(supabase, {
+      user_id: assigneeId,
+      org_id: task.org_id,
+      event: 'task_assigned',
+      title: subject,
+      message: `${assignerName} ${isReassignment ? 'reassigned' : 'assigned'} you "${task.title}" on ${task.org_grants_saved.title}.`,
+      action_url: `/grants/${task.grant_id}`,
+      grant_id: task.grant_id,
+      in_app: {
+        type: 'task_assigned',
+        related_grant_id: task.grant_id,
+        related_task_id: task.id,
+      },
+      email: {
+        from: 'GrantCue Tasks <tasks@grantcue.com>',
+        to: assigneeAuth?.user?.email,
+        subject,
+        html: generateTaskAssignmentEmail({
+          assignee_name: assignee?.full_name || assigneeAuth?.user?.email || 'there',
+          assigner_name: assignerName,
+          task_title: task.title,
+          task_description: task.description,
+          task_due_date: task.due_date,
+          grant_title: task.org_grants_saved.title,
+          grant_id: task.grant_id,
+          task_id: task.id,
+          org_name: org?.name || 'Your Organization',
+          is_reassignment: isReassignment,
+        }),
+      },
     });
 
-    console.log(`[Task Assignment] Email sent to ${assigneeAuth.user.email} for task "${task.title}"`);
+    console.log(`[Task Assignment] Notified ${assigneeId} for task "${task.title}" (email: ${delivery.email}, in-app: ${delivery.in_app})`);
   } catch (error) {
     console.error('[Task Assignment] Failed to send email notification:', error);
     // Import sanitizeError from error-handler
@@ -136,22 +157,13 @@ export default async function handler(
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  // Verify authentication
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  // Verify authentication (user session or org API key)
+  const authResult = await verifyUserOrApiKey(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
   }
 
-  const token = authHeader.substring(7);
-
-  const {
-    data: { user },
-    error: authError,
-  } = await supabase.auth.getUser(token);
-
-  if (authError || !user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+  const user = authResult.user!;
 
   try {
     switch (req.method) {
@@ -162,10 +174,31 @@ export default async function handler(
 
         const { grant_id, org_id } = validationResult.data;
 
+        // Without a grant, list the tasks of every grant in the organization (timeline view)
+        if (!grant_id) {
+          const accessResult = await verifyOrgAccess(supabase, authResult, org_id as string, 'tasks:view');
+          if (!accessResult.success) {
+            return sendAuthError(res, accessResult);
+          }
+
+          const { data, error } = await supabase
+            .from('grant_tasks')
+            .select('id, grant_id, title, task_type, status, assigned_to, due_date, estimated_days, is_required, created_at')
+            .eq('org_id', org_id as string)
+            .order('due_date', { ascending: true, nullsFirst: false });
+
+          if (error) {
+            console.error('Error fetching tasks:', error);
+            return res.status(500).json({ error: 'Failed to fetch tasks' });
+          }
+
+          return res.status(200).json({ tasks: data || [] });
+        }
+
         // Verify the grant belongs to an organization the user is a member of
         const { data: grant } = await supabase
           .from('org_grants_saved')
-          .select('org_id')
+          .select('org_id, internal_deadline, close_date')
           .eq('id', grant_id)
           .single();
 
@@ -173,15 +206,9 @@ export default async function handler(
           return res.status(404).json({ error: 'Grant not found' });
         }
 
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', grant.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this grant' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, grant.org_id, 'tasks:view');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
         const query = supabase
@@ -201,7 +228,19 @@ export default async function handler(
           return res.status(500).json({ error: 'Failed to fetch tasks' });
         }
 
-        return res.status(200).json({ tasks: data });
+        const dependencies = await fetchGrantDependencies(supabase, grant_id);
+        const tasks = (data || []).map((task) => ({
+          ...task,
+          depends_on: dependencies
+            .filter((dependency) => dependency.task_id === task.id)
+            .map((dependency) => dependency.depends_on_task_id),
+        }));
+
+        return res.status(200).json({
+          tasks,
+          dependencies,
+          schedule: computeTaskSchedule(tasks, dependencies, grant),
+        });
       }
 
       case 'POST': {
@@ -212,22 +251,22 @@ export default async function handler(
         const taskData = validationResult.data;
 
         // Verify user is a member of the organization
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', taskData.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this organization' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, taskData.org_id, 'tasks:create');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
-        // Ensure the created_by matches the authenticated user
-        if (taskData.created_by !== user.id) {
+        // Ensure the created_by matches the authenticated user (defaults to it)
+        if (taskData.created_by && taskData.created_by !== user.id) {
           return res.status(403).json({ error: 'Cannot create tasks for other users' });
         }
 
+        // A repeating task is due on its first occurrence
+        const recurrence = resolveRecurrenceFields(taskData);
+        if (!recurrence.fields) {
+          return res.status(400).json({ error: recurrence.error });
+        }
+
         const { data, error } = await supabase
           .from('grant_tasks')
           .insert({
@@ -242,7 +281,9 @@ export default async function handler(
             position: taskData.position || 0,
             is_required: taskData.is_required || false,
             notes: taskData.notes || null,
-            created_by: taskData.created_by,
+            estimated_days: taskData.estimated_days ?? null,
+            created_by: user.id,
+            ...recurrence.fields,
           })
           .select()
           .single();
@@ -252,6 +293,27 @@ export default async function handler(
           return res.status(500).json({ error: 'Failed to create task' });
         }
 
+        if (data.recurrence_rule) {
+          await generateOccurrences(supabase, 'task', data).catch((recurrenceError) => {
+            console.error('Error generating task occurrences:', recurrenceError);
+          });
+        }
+
+        if (taskData.depends_on && taskData.depends_on.length > 0) {
+          const dependencyError = await setTaskDependencies(supabase, data, taskData.depends_on, user.id);
+          if (dependencyError) {
+            await supabase.from('grant_tasks').delete().eq('id', data.id);
+            return res.status(400).json({ error: dependencyError });
+          }
+
+          // Starts blocked when any predecessor is unfinished
+          const { blocked } = await syncBlockedStatuses(supabase, data.grant_id);
+          if (blocked.includes(data.id)) {
+            data.status = 'blocked';
+            data.auto_blocked = true;
+          }
+        }
+
         // Send email notification if task is assigned to someone
         if (data.assigned_to) {
           sendTaskAssignmentEmail(
@@ -314,7 +376,7 @@ export default async function handler(
         // Verify the task belongs to an organization the user is a member of
         const { data: task } = await supabase
           .from('grant_tasks')
-          .select('org_id, assigned_to, grant_id')
+          .select('org_id, assigned_to, grant_id, status, recurrence_rule, recurrence_start, recurrence_offset_days, recurrence_parent_id')
           .eq('id', id)
           .single();
 
@@ -322,15 +384,29 @@ export default async function handler(
           return res.status(404).json({ error: 'Task not found' });
         }
 
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', task.org_id)
-          .eq('user_id', user.id)
-          .single();
+        const accessResult = await verifyOrgAccess(supabase, authResult, task.org_id, 'tasks:edit');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
+        }
+
+        // Changing the schedule replaces the series' upcoming occurrences
+        const schedule = {
+          recurrence_rule: updates.recurrence_rule !== undefined ? updates.recurrence_rule : task.recurrence_rule,
+          recurrence_start: updates.recurrence_start !== undefined ? updates.recurrence_start : task.recurrence_start,
+          recurrence_offset_days: updates.recurrence_offset_days ?? task.recurrence_offset_days,
+        };
+        const scheduleChanged =
+          (schedule.recurrence_rule || null) !== (task.recurrence_rule || null) ||
+          (schedule.recurrence_start || null) !== (task.recurrence_start || null) ||
+          (schedule.recurrence_offset_days || 0) !== (task.recurrence_offset_days || 0);
+
+        if (scheduleChanged && task.recurrence_parent_id) {
+          return res.status(400).json({ error: 'Change the schedule on the first task of the series' });
+        }
 
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this task' });
+        const recurrence = scheduleChanged ? resolveRecurrenceFields(schedule) : null;
+        if (recurrence && !recurrence.fields) {
+          return res.status(400).json({ error: recurrence.error });
         }
 
         // Track if assignment is changing
@@ -351,6 +427,33 @@ export default async function handler(
         if (updates.position !== undefined) updateData.position = updates.position;
         if (updates.is_required !== undefined) updateData.is_required = updates.is_required;
         if (updates.notes !== undefined) updateData.notes = updates.notes;
+        if (updates.estimated_days !== undefined) updateData.estimated_days = updates.estimated_days;
+        // A status set by hand clears auto_blocked, so a task blocked by hand is
+        // never unblocked automatically. Setting it back to pending while a
+        // predecessor is still open blocks it again below.
+        const statusChanged = updates.status !== undefined && updates.status !== task.status;
+        if (statusChanged) updateData.auto_blocked = false;
+        if (recurrence?.fields) Object.assign(updateData, recurrence.fields);
+
+        // Predecessors are replaced first so an invalid list rejects the whole
+        // update; they are restored if the task update then fails
+        const taskRef = { id, grant_id: task.grant_id, org_id: task.org_id };
+        let previousDependsOn: string[] | null = null;
+        if (updates.depends_on !== undefined) {
+          previousDependsOn = (await fetchGrantDependencies(supabase, task.grant_id))
+            .filter((dependency) => dependency.task_id === id)
+            .map((dependency) => dependency.depends_on_task_id);
+
+          const dependencyError = await setTaskDependencies(
+            supabase,
+            taskRef,
+            updates.depends_on,
+            user.id
+          );
+          if (dependencyError) {
+            return res.status(400).json({ error: dependencyError });
+          }
+        }
 
         const { data, error } = await supabase
           .from('grant_tasks')
@@ -361,9 +464,37 @@ export default async function handler(
 
         if (error) {
           console.error('Error updating task:', error);
+          if (previousDependsOn) {
+            await setTaskDependencies(supabase, taskRef, previousDependsOn, user.id).catch(
+              (restoreError) => {
+                console.error('Error restoring task dependencies:', restoreError);
+              }
+            );
+          }
           return res.status(500).json({ error: 'Failed to update task' });
         }
 
+        if (scheduleChanged) {
+          try {
+            await clearUpcomingOccurrences(supabase, 'task', id);
+            await generateOccurrences(supabase, 'task', data);
+          } catch (recurrenceError) {
+            console.error('Error regenerating task occurrences:', recurrenceError);
+          }
+        }
+
+        // Completing or reopening a task, or changing its predecessors, can
+        // block or unblock other tasks of the grant
+        let affectedTaskIds: string[] = [];
+        if (statusChanged || updates.depends_on !== undefined) {
+          const { blocked, unblocked } = await syncBlockedStatuses(supabase, task.grant_id);
+          if (blocked.includes(id)) {
+            data.status = 'blocked';
+            data.auto_blocked = true;
+          }
+          affectedTaskIds = [...blocked, ...unblocked].filter((taskId) => taskId !== id);
+        }
+
         // Send email notification if task assignment changed
         if ((isNewAssignment || isReassignment) && newAssignedTo) {
           sendTaskAssignmentEmail(
@@ -409,7 +540,7 @@ export default async function handler(
           })();
         }
 
-        return res.status(200).json({ task: data });
+        return res.status(200).json({ task: data, affected_task_ids: affectedTaskIds });
       }
 
       case 'DELETE': {
@@ -421,7 +552,7 @@ export default async function handler(
         // Verify the task belongs to an organization the user is a member of
         const { data: task } = await supabase
           .from('grant_tasks')
-          .select('org_id')
+          .select('org_id, grant_id')
           .eq('id', id)
           .single();
 
@@ -429,17 +560,14 @@ export default async function handler(
           return res.status(404).json({ error: 'Task not found' });
         }
 
-        const { data: membership } = await supabase
-          .from('org_members')
-          .select('*')
-          .eq('org_id', task.org_id)
-          .eq('user_id', user.id)
-          .single();
-
-        if (!membership) {
-          return res.status(403).json({ error: 'Access denied to this task' });
+        const accessResult = await verifyOrgAccess(supabase, authResult, task.org_id, 'tasks:delete');
+        if (!accessResult.success) {
+          return sendAuthError(res, accessResult);
         }
 
+        // Deleting a series removes its upcoming occurrences; completed ones are kept
+        await clearUpcomingOccurrences(supabase, 'task', id);
+
         const { error } = await supabase
           .from('grant_tasks')
           .delete()
@@ -450,6 +578,11 @@ export default async function handler(
           return res.status(500).json({ error: 'Failed to delete task' });
         }
 
+        // Successors waiting only on this task are unblocked
+        await syncBlockedStatuses(supabase, task.grant_id).catch((syncError) => {
+          console.error('Error unblocking dependent tasks:', syncError);
+        });
+
         return res.status(200).json({ message: 'Task deleted successfully' });
       }
 
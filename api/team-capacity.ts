@@ -0,0 +1,195 @@
+/**
+ * Team Capacity API
+ *
+ * GET /api/team-capacity?org_id=xxx[&candidate_grant_id=xxx]
+ *   - Forecast each member's workload for the next 12 weeks against their
+ *     weekly capacity, with overbooked weeks and suggested reassignments
+ *   - With candidate_grant_id, also report the load that committing to that
+ *     grant would add for its owner (the go/no-go what-if)
+ *
+ * PATCH /api/team-capacity
+ *   - Set members' weekly hours and the organization's effort estimates
+ *   - Body: { org_id, members?: [{ user_id, weekly_hours }], effort?: [{ kind, key, hours }] }
+ *
+ * Any member can view the forecast; changing capacity requires an org admin.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import {
+  verifyUserAuth,
+  verifyOrgMembership,
+  verifyOrgAdmin,
+  sendAuthError,
+} from './utils/auth-middleware.js';
+import {
+  validateBody,
+  validateQuery,
+  teamCapacityQuerySchema,
+  teamCapacityUpdateSchema,
+} from './utils/validation';
+import {
+  DEFAULT_WEEKLY_HOURS,
+  closedStageKeys,
+  buildCapacityForecast,
+  fetchEffortSettings,
+  type CapacityGrant,
+  type CapacityMember,
+  type CapacityTask,
+} from './utils/capacity.js';
+import { fetchPipelineStages } from './utils/pipeline-stages.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const authResult = await verifyUserAuth(req, supabase);
+  if (!authResult.success) {
+    return sendAuthError(res, authResult);
+  }
+
+  const user = authResult.user!;
+
+  // GET - Capacity forecast
+  if (req.method === 'GET') {
+    const validation = validateQuery(req, res, teamCapacityQuerySchema);
+    if (!validation.success) return;
+
+    const { org_id, candidate_grant_id } = validation.data;
+
+    const membershipResult = await verifyOrgMembership(supabase, user.id, org_id);
+    if (!membershipResult.success) {
+      return sendAuthError(res, membershipResult);
+    }
+
+    const closedStages = closedStageKeys(await fetchPipelineStages(supabase, org_id));
+
+    const [membersResult, capacityResult, grantsResult, effort] = await Promise.all([
+      (supabase.rpc as any)('get_org_team_members', { org_uuid: org_id }),
+      supabase.from('org_members').select('user_id, weekly_capacity_hours').eq('org_id', org_id),
+      supabase
+        .from('org_grants_saved')
+        .select('id, title, status, external_source, assigned_to, internal_deadline, close_date')
+        .eq('org_id', org_id)
+        .not('status', 'in', `(${closedStages.join(',')})`),
+      fetchEffortSettings(supabase, org_id),
+    ]);
+
+    if (membersResult.error || capacityResult.error || grantsResult.error) {
+      console.error(
+        'Failed to load capacity data:',
+        membersResult.error || capacityResult.error || grantsResult.error,
+      );
+      return res.status(500).json({ error: 'Failed to load capacity data' });
+    }
+
+    const grants = (grantsResult.data || []) as CapacityGrant[];
+
+    let tasks: CapacityTask[] = [];
+    if (grants.length > 0) {
+      const { data, error } = await supabase
+        .from('grant_tasks')
+        .select('id, grant_id, title, task_type, status, assigned_to, due_date, estimated_days')
+        .in(
+          'grant_id',
+          grants.map((grant) => grant.id),
+        );
+
+      if (error) {
+        return res.status(500).json({ error: error.message });
+      }
+      tasks = (data || []) as CapacityTask[];
+    }
+
+    const capacityByUser = new Map<string, number | null>(
+      (capacityResult.data || []).map((row) => [row.user_id, row.weekly_capacity_hours]),
+    );
+
+    const members: CapacityMember[] = (membersResult.data || []).map((member: any) => {
+      const hours = capacityByUser.get(member.user_id);
+      return {
+        user_id: member.user_id,
+        name: member.full_name || member.email || 'Unknown',
+        weekly_capacity:
+          hours === null || hours === undefined ? DEFAULT_WEEKLY_HOURS : Number(hours),
+      };
+    });
+
+    if (candidate_grant_id && !grants.some((grant) => grant.id === candidate_grant_id)) {
+      return res.status(404).json({ error: 'Grant not found or already closed' });
+    }
+
+    const forecast = buildCapacityForecast(
+      members,
+      grants,
+      tasks,
+      effort,
+      new Date(),
+      candidate_grant_id,
+    );
+
+    return res.status(200).json({
+      ...forecast,
+      settings: {
+        default_weekly_hours: DEFAULT_WEEKLY_HOURS,
+        effort,
+      },
+    });
+  }
+
+  // PATCH - Update capacity settings
+  if (req.method === 'PATCH') {
+    const validation = validateBody(req, res, teamCapacityUpdateSchema);
+    if (!validation.success) return;
+
+    const { org_id, members, effort } = validation.data;
+
+    const adminResult = await verifyOrgAdmin(supabase, user.id, org_id);
+    if (!adminResult.success) {
+      return sendAuthError(res, adminResult);
+    }
+
+    for (const member of members || []) {
+      const { error } = await supabase
+        .from('org_members')
+        .update({ weekly_capacity_hours: member.weekly_hours })
+        .eq('org_id', org_id)
+        .eq('user_id', member.user_id);
+
+      if (error) {
+        return res.status(500).json({ error: error.message });
+      }
+    }
+
+    if (effort && effort.length > 0) {
+      const { error } = await supabase.from('workload_effort_estimates').upsert(
+        effort.map((estimate) => ({
+          org_id,
+          kind: estimate.kind,
+          key: estimate.key.trim(),
+          hours: estimate.hours,
+          updated_by: user.id,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'org_id,kind,key' },
+      );
+
+      if (error) {
+        return res.status(500).json({ error: error.message });
+      }
+    }
+
+    return res.status(200).json({ success: true });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'PATCH'], requestId);
+});
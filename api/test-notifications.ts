@@ -7,6 +7,7 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { sendNotifications } from './utils/notifications.js';
+import { isWebhookEventType, WEBHOOK_EVENT_TYPES } from './utils/webhook-events.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'GET' && req.method !== 'POST') {
@@ -19,12 +20,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'org_id query parameter is required' });
   }
 
-  const eventType = (event as string) || 'grant.saved';
+  const eventType = event || 'grant.saved';
 
   // Validate event type
-  const validEvents = ['grant.saved', 'grant.updated', 'grant.task_assigned', 'grant.deadline_approaching', 'grant.deadline_passed'];
-  if (!validEvents.includes(eventType)) {
-    return res.status(400).json({ error: `Invalid event type. Must be one of: ${validEvents.join(', ')}` });
+  if (!isWebhookEventType(eventType)) {
+    return res.status(400).json({ error: `Invalid event type. Must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}` });
   }
 
   try {
@@ -0,0 +1,191 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildJournalEntries,
+  DEFAULT_ACCOUNTING_SETTINGS,
+  formatIif,
+  formatQuickBooksCsv,
+  formatXeroCsv,
+  resolveMapping,
+  type AccountingMapping,
+  type AccountingSettings,
+  type ExportSource,
+} from '../accounting-export.js';
+
+const settings: AccountingSettings = {
+  ...DEFAULT_ACCOUNTING_SETTINGS,
+  bank_account: '1000 Checking',
+  revenue_account: '4000 Grant Revenue',
+  default_expense_account: '6000 Program Expenses',
+};
+
+const mappings: AccountingMapping[] = [
+  {
+    grant_id: 'grant-1',
+    category: 'personnel',
+    expense_account: '6100 Salaries',
+    revenue_account: null,
+    class_name: null,
+  },
+  {
+    grant_id: 'grant-1',
+    category: null,
+    expense_account: null,
+    revenue_account: null,
+    class_name: 'HRSA Grant',
+  },
+  {
+    grant_id: null,
+    category: 'travel',
+    expense_account: '6200 Travel',
+    revenue_account: null,
+    class_name: 'Unused',
+  },
+];
+
+const sources: ExportSource[] = [
+  {
+    kind: 'payment_schedule',
+    id: 'cccccccc-0000',
+    entry_type: 'receipt',
+    date: '2025-03-10',
+    amount: 10000,
+    category: null,
+    description: 'Q1 drawdown',
+    reference: null,
+  },
+  {
+    kind: 'disbursement',
+    id: 'abcdef12-0000',
+    entry_type: 'expense',
+    date: '2025-03-05',
+    amount: 1234.5,
+    category: 'personnel',
+    description: 'March payroll, staff',
+    reference: 'PR-3',
+  },
+  {
+    kind: 'disbursement',
+    id: 'bbbbbbbb-0000',
+    entry_type: 'refund',
+    date: '2025-03-01',
+    amount: 50,
+    category: 'travel',
+    description: 'Airfare "refund"\tcredit',
+    reference: null,
+  },
+];
+
+describe('resolveMapping', () => {
+  it('prefers the most specific mapping for each field', () => {
+    assert.deepEqual(resolveMapping(settings, mappings, 'grant-1', 'personnel'), {
+      expense_account: '6100 Salaries',
+      revenue_account: '4000 Grant Revenue',
+      class_name: 'HRSA Grant',
+    });
+    assert.deepEqual(resolveMapping(settings, mappings, 'grant-2', 'travel'), {
+      expense_account: '6200 Travel',
+      revenue_account: '4000 Grant Revenue',
+      class_name: 'Unused',
+    });
+    assert.equal(
+      resolveMapping(settings, mappings, 'grant-2', 'supplies').expense_account,
+      '6000 Program Expenses',
+    );
+  });
+});
+
+describe('buildJournalEntries', () => {
+  it('builds balanced entries, oldest first', () => {
+    const { entries, warnings } = buildJournalEntries(sources, 'grant-1', settings, mappings);
+
+    assert.deepEqual(warnings, []);
+    assert.deepEqual(
+      entries.map((entry) => [
+        entry.number,
+        entry.lines.map((line) => [line.account, line.debit, line.credit]),
+      ]),
+      [
+        [
+          'D-BBBBBBBB',
+          [
+            ['1000 Checking', 50, 0],
+            ['6200 Travel', 0, 50],
+          ],
+        ],
+        [
+          'D-ABCDEF12',
+          [
+            ['6100 Salaries', 1234.5, 0],
+            ['1000 Checking', 0, 1234.5],
+          ],
+        ],
+        [
+          'P-CCCCCCCC',
+          [
+            ['1000 Checking', 10000, 0],
+            ['4000 Grant Revenue', 0, 10000],
+          ],
+        ],
+      ],
+    );
+    assert.equal(entries[1].memo, 'March payroll, staff (Ref PR-3)');
+  });
+
+  it('warns about accounts that still need to be set up', () => {
+    const { entries, warnings } = buildJournalEntries(
+      sources,
+      'grant-2',
+      { ...DEFAULT_ACCOUNTING_SETTINGS },
+      [],
+    );
+
+    assert.deepEqual(warnings, [
+      'No bank account is set',
+      'No expense account is set for Travel expenses',
+      'No expense account is set for Personnel expenses',
+      'No revenue account is set for this grant',
+    ]);
+    assert.equal(entries[0].lines[0].account, null);
+  });
+});
+
+describe('journal formats', () => {
+  const { entries } = buildJournalEntries(sources, 'grant-1', settings, mappings);
+
+  it('writes IIF with signed amounts and tab-free fields', () => {
+    const lines = formatIif(entries.slice(0, 1)).split('\r\n');
+
+    assert.deepEqual(lines, [
+      '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+      '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+      '!ENDTRNS',
+      "TRNS\t\tGENERAL JOURNAL\t03/01/2025\t1000 Checking\tHRSA Grant\t50.00\tD-BBBBBBBB\tAirfare 'refund' credit",
+      "SPL\t\tGENERAL JOURNAL\t03/01/2025\t6200 Travel\tHRSA Grant\t-50.00\tD-BBBBBBBB\tAirfare 'refund' credit",
+      'ENDTRNS',
+      '',
+    ]);
+  });
+
+  it('writes QuickBooks Online CSV with quoted fields where needed', () => {
+    const lines = formatQuickBooksCsv(entries.slice(1, 2)).split('\r\n');
+
+    assert.deepEqual(lines, [
+      'Journal No,Journal Date,Account Name,Debits,Credits,Description,Class',
+      'D-ABCDEF12,03/05/2025,6100 Salaries,1234.50,,"March payroll, staff (Ref PR-3)",HRSA Grant',
+      'D-ABCDEF12,03/05/2025,1000 Checking,,1234.50,"March payroll, staff (Ref PR-3)",HRSA Grant',
+      '',
+    ]);
+  });
+
+  it('writes Xero CSV with the journal number in the narration', () => {
+    const lines = formatXeroCsv(entries.slice(0, 1), settings).split('\r\n');
+
+    assert.deepEqual(lines, [
+      '*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount,TrackingName1,TrackingOption1',
+      '"D-BBBBBBBB Airfare ""refund""\tcredit",03/01/2025,"Airfare ""refund""\tcredit",1000 Checking,Tax Exempt,50.00,Grant,HRSA Grant',
+      '"D-BBBBBBBB Airfare ""refund""\tcredit",03/01/2025,"Airfare ""refund""\tcredit",6200 Travel,Tax Exempt,-50.00,Grant,HRSA Grant',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateBudget,
+  personnelSalary,
+  type BudgetBuilderInputs,
+  type CostItem,
+  type PersonnelRow,
+} from '../budget-builder.js';
+
+const investigator: PersonnelRow = {
+  name: 'Principal Investigator',
+  position_title: null,
+  employee_class: 'Faculty',
+  annual_salary: 100000,
+  effort_percent: 50,
+  months: 12,
+  escalation_percent: 3,
+  first_period: 1,
+  last_period: null,
+};
+
+function item(overrides: Partial<CostItem>): CostItem {
+  return {
+    period_number: 1,
+    category: 'supplies',
+    description: 'Item',
+    amount: 0,
+    subrecipient: null,
+    mtdc_excluded: false,
+    ...overrides,
+  };
+}
+
+function inputs(overrides: Partial<BudgetBuilderInputs> = {}): BudgetBuilderInputs {
+  return {
+    periods: [
+      { period_number: 2, start_date: null, end_date: null },
+      { period_number: 1, start_date: null, end_date: null },
+    ],
+    fringe_rates: [{ employee_class: 'faculty ', rate: 30 }],
+    personnel: [investigator],
+    cost_items: [
+      item({ category: 'equipment', amount: 10000 }),
+      item({ category: 'supplies', amount: 2000 }),
+      item({ category: 'contractual', amount: 20000, subrecipient: 'Acme University' }),
+      item({ category: 'other_direct', amount: 1000, mtdc_excluded: true }),
+      item({
+        period_number: 2,
+        category: 'contractual',
+        amount: 15000,
+        subrecipient: ' acme university ',
+      }),
+    ],
+    indirect_rate: 50,
+    indirect_base: 'mtdc',
+    ...overrides,
+  };
+}
+
+describe('personnelSalary', () => {
+  it('escalates the salary each period and applies effort and months', () => {
+    assert.equal(personnelSalary(investigator, 1), 50000);
+    assert.equal(personnelSalary(investigator, 2), 51500);
+    assert.equal(personnelSalary({ ...investigator, months: 9 }, 3), 39783.75);
+  });
+
+  it('charges nothing outside the periods the person works', () => {
+    assert.equal(personnelSalary({ ...investigator, first_period: 2 }, 1), 0);
+    assert.equal(personnelSalary({ ...investigator, last_period: 1 }, 2), 0);
+  });
+});
+
+describe('calculateBudget', () => {
+  it('leaves equipment, excluded items and subawards past $25,000 out of the MTDC base', () => {
+    const budget = calculateBudget(inputs());
+    const [first, second] = budget.periods;
+
+    assert.equal(first.period_number, 1);
+    assert.equal(first.total_direct, 98000);
+    assert.equal(first.indirect_base_amount, 87000);
+    assert.equal(first.categories.indirect_costs, 43500);
+    assert.equal(first.total, 141500);
+
+    // The subrecipient has $5,000 of its allowance left in the second period
+    assert.equal(second.categories.fringe_benefits, 15450);
+    assert.equal(second.total_direct, 81950);
+    assert.equal(second.indirect_base_amount, 71950);
+    assert.equal(second.categories.indirect_costs, 35975);
+
+    assert.equal(budget.total_direct, 179950);
+    assert.equal(budget.indirect_base_amount, 158950);
+    assert.equal(budget.total_indirect, 79475);
+    assert.equal(budget.total, 259425);
+    assert.equal(budget.categories.contractual, 35000);
+    assert.deepEqual(budget.warnings, []);
+  });
+
+  it('tracks the $25,000 allowance separately for each subrecipient', () => {
+    const budget = calculateBudget(
+      inputs({
+        personnel: [],
+        cost_items: [
+          item({ category: 'contractual', amount: 30000, subrecipient: 'Acme' }),
+          item({ category: 'contractual', amount: 30000, subrecipient: 'Beta' }),
+        ],
+      }),
+    );
+    assert.equal(budget.periods[0].indirect_base_amount, 50000);
+  });
+
+  it('applies the rate to all direct costs on a TDC base', () => {
+    const budget = calculateBudget(inputs({ indirect_base: 'tdc' }));
+    assert.equal(budget.indirect_base_amount, budget.total_direct);
+    assert.equal(budget.total_indirect, 89975);
+  });
+
+  it('warns about missing fringe rates and items outside the budget periods', () => {
+    const budget = calculateBudget(
+      inputs({
+        personnel: [{ ...investigator, employee_class: 'Staff' }],
+        cost_items: [item({ period_number: 3, amount: 500 })],
+      }),
+    );
+    assert.equal(budget.categories.fringe_benefits, 0);
+    assert.equal(budget.categories.supplies, 0);
+    assert.deepEqual(budget.warnings, [
+      'No fringe rate for employee class "Staff"; no fringe was charged',
+      "1 cost item is in a budget period that doesn't exist and was left out",
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  matchStatementRows,
+  scoreMatch,
+  statementPeriod,
+  type ReconciliationCandidate,
+  type StatementRow,
+} from '../reconciliation.js';
+
+function row(overrides: Partial<StatementRow>): StatementRow {
+  return {
+    row: 1,
+    date: '2025-03-03',
+    amount: -1000,
+    description: 'Payment',
+    reference: null,
+    ...overrides,
+  };
+}
+
+function candidate(overrides: Partial<ReconciliationCandidate>): ReconciliationCandidate {
+  return {
+    kind: 'disbursement',
+    id: 'd1',
+    budget_id: 'budget-1',
+    grant_id: 'grant-1',
+    grant_title: 'Community Health Workers',
+    type: 'expense',
+    date: '2025-03-01',
+    amount: -1000,
+    either_direction: false,
+    description: 'Supplies',
+    reference: null,
+    ...overrides,
+  };
+}
+
+describe('scoreMatch', () => {
+  it('requires the amount and direction to agree', () => {
+    assert.equal(scoreMatch(row({ amount: -1000.01 }), candidate({})), null);
+    assert.equal(scoreMatch(row({ amount: 1000 }), candidate({})), null);
+    assert.notEqual(scoreMatch(row({ amount: 1000 }), candidate({ either_direction: true })), null);
+  });
+
+  it('scores close dates as high confidence', () => {
+    assert.deepEqual(scoreMatch(row({}), candidate({})), {
+      confidence: 'high',
+      score: 73,
+      days_apart: 2,
+      reference_matched: false,
+    });
+  });
+
+  it('gives scheduled payments a wider window at lower confidence', () => {
+    const scheduled = candidate({ kind: 'payment_schedule', date: '2025-03-23' });
+    assert.deepEqual(scoreMatch(row({}), scheduled), {
+      confidence: 'medium',
+      score: 66,
+      days_apart: 20,
+      reference_matched: false,
+    });
+    assert.equal(scoreMatch(row({}), candidate({ date: '2025-03-15' })), null);
+  });
+
+  it('widens the window when the reference number appears in the row', () => {
+    const referenced = candidate({ date: '2025-03-15', reference: 'CHK-10452' });
+    assert.equal(scoreMatch(row({ description: 'Check 10452 cleared' }), referenced), null);
+    assert.deepEqual(scoreMatch(row({ description: 'CHK 10452 cleared' }), referenced), {
+      confidence: 'high',
+      score: 104,
+      days_apart: 12,
+      reference_matched: true,
+    });
+    assert.equal(scoreMatch(row({ reference: '10452' }), referenced)?.reference_matched, true);
+  });
+
+  it('ignores references too short to be meaningful', () => {
+    assert.equal(
+      scoreMatch(row({ reference: '12' }), candidate({ reference: '12' }))?.reference_matched,
+      false,
+    );
+  });
+});
+
+describe('matchStatementRows', () => {
+  it('matches each row and candidate once, best score first', () => {
+    const rows = [
+      row({ row: 1, date: '2025-03-03' }),
+      row({ row: 2, date: '2025-03-10' }),
+      row({ row: 3, date: '2025-03-05', amount: 5000 }),
+      row({ row: 4, date: '2025-03-08', amount: -42 }),
+    ];
+    const candidates = [
+      candidate({ id: 'd1', date: '2025-03-02' }),
+      candidate({ id: 'd2', date: '2025-03-10' }),
+      candidate({ kind: 'payment_schedule', id: 's1', date: '2025-03-20', amount: 5000 }),
+      candidate({ id: 'd3', date: '2025-03-06', amount: -999 }),
+      candidate({ id: 'd4', date: '2025-05-01', amount: -999 }),
+    ];
+
+    const result = matchStatementRows(rows, candidates);
+
+    assert.deepEqual(
+      result.matches.map((match) => [match.row, match.id, match.confidence]),
+      [
+        [1, 'd1', 'high'],
+        [2, 'd2', 'high'],
+        [3, 's1', 'medium'],
+      ],
+    );
+    assert.deepEqual(result.unmatched_rows, [4]);
+    assert.deepEqual(result.unmatched_candidates, ['disbursement:d3']);
+  });
+
+  it('prefers a recorded disbursement over the scheduled payment it settles', () => {
+    const result = matchStatementRows(
+      [row({ amount: 5000 })],
+      [
+        candidate({ kind: 'payment_schedule', id: 's1', date: '2025-03-03', amount: 5000 }),
+        candidate({ id: 'd1', date: '2025-03-03', amount: 5000, type: 'receipt' }),
+      ],
+    );
+    assert.deepEqual(
+      result.matches.map((match) => match.id),
+      ['d1'],
+    );
+    assert.deepEqual(result.unmatched_candidates, ['payment_schedule:s1']);
+  });
+});
+
+describe('statementPeriod', () => {
+  it('spans the first and last statement dates', () => {
+    assert.deepEqual(
+      statementPeriod([row({ date: '2025-03-10' }), row({ date: '2025-02-28T15:00:00Z' })]),
+      { start: '2025-02-28', end: '2025-03-10' },
+    );
+    assert.deepEqual(statementPeriod([]), { start: null, end: null });
+  });
+});
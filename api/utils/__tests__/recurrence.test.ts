@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  resolveRecurrenceFields,
+  type RecurrenceRule,
+} from '../recurrence.js';
+
+function rule(value: string): RecurrenceRule {
+  const { rule, error } = parseRecurrenceRule(value);
+  assert.equal(error, null);
+  return rule as RecurrenceRule;
+}
+
+describe('parseRecurrenceRule', () => {
+  it('accepts the RRULE prefix and normalizes the rule', () => {
+    const parsed = rule('rrule:freq=monthly;interval=3;bymonthday=-1');
+    assert.deepEqual(parsed, {
+      freq: 'MONTHLY',
+      interval: 3,
+      byMonthDay: -1,
+      count: null,
+      until: null,
+    });
+    assert.equal(formatRecurrenceRule(parsed), 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1');
+    assert.equal(
+      formatRecurrenceRule(rule('FREQ=WEEKLY;UNTIL=20251231T000000Z')),
+      'FREQ=WEEKLY;UNTIL=20251231',
+    );
+  });
+
+  it('rejects unsupported or inconsistent rules', () => {
+    for (const [value, error] of [
+      ['FREQ=MONTHLY;BYDAY=MO', 'Unsupported recurrence rule part: BYDAY'],
+      ['FREQ=HOURLY', 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a positive whole number'],
+      ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY only applies to MONTHLY or YEARLY rules'],
+      ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY must be a single day between -31 and 31'],
+      ['FREQ=DAILY;UNTIL=soon', 'UNTIL must be a date (YYYYMMDD)'],
+      ['FREQ=DAILY;COUNT=2;UNTIL=20250101', 'A recurrence rule cannot have both COUNT and UNTIL'],
+    ]) {
+      assert.deepEqual(parseRecurrenceRule(value), { rule: null, error }, value);
+    }
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('expands quarter ends counted from the end of the month', () => {
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1'), '2025-03-31', '2025-12-31'),
+      ['2025-03-31', '2025-06-30', '2025-09-30', '2025-12-31'],
+    );
+  });
+
+  it('moves days past the end of a short month to its last day', () => {
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=MONTHLY;BYMONTHDAY=31'), '2025-01-31', '2025-04-30'),
+      ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30'],
+    );
+    assert.deepEqual(expandRecurrence(rule('FREQ=YEARLY'), '2024-02-29', '2026-12-31'), [
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+    ]);
+  });
+
+  it('skips a BYMONTHDAY before the start date in the first month', () => {
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=MONTHLY;BYMONTHDAY=15'), '2025-01-20', '2025-03-31'),
+      ['2025-02-15', '2025-03-15'],
+    );
+  });
+
+  it('stops at COUNT, UNTIL or the end date', () => {
+    assert.deepEqual(expandRecurrence(rule('FREQ=WEEKLY;COUNT=3'), '2025-01-01', '2025-12-31'), [
+      '2025-01-01',
+      '2025-01-08',
+      '2025-01-15',
+    ]);
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=DAILY;INTERVAL=2;UNTIL=20250105'), '2025-01-01', '2025-12-31'),
+      ['2025-01-01', '2025-01-03', '2025-01-05'],
+    );
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=MONTHLY'), '2025-01-10', '2025-12-31', '2025-03-01'),
+      ['2025-01-10', '2025-02-10'],
+    );
+  });
+
+  it('ignores the end date when the rule has its own COUNT', () => {
+    assert.deepEqual(
+      expandRecurrence(rule('FREQ=MONTHLY;COUNT=3'), '2025-01-10', '2025-12-31', '2025-02-01'),
+      ['2025-01-10', '2025-02-10', '2025-03-10'],
+    );
+  });
+});
+
+describe('resolveRecurrenceFields', () => {
+  it('sets the first occurrence and its due date', () => {
+    assert.deepEqual(
+      resolveRecurrenceFields({
+        recurrence_rule: 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1',
+        recurrence_start: '2025-03-15T00:00:00Z',
+        recurrence_offset_days: 30,
+      }),
+      {
+        fields: {
+          recurrence_rule: 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1',
+          recurrence_start: '2025-03-15',
+          recurrence_offset_days: 30,
+          recurrence_date: '2025-03-31',
+          due_date: '2025-04-30',
+        },
+        error: null,
+      },
+    );
+  });
+
+  it('requires a start date and clears the schedule without a rule', () => {
+    assert.deepEqual(resolveRecurrenceFields({ recurrence_rule: 'FREQ=DAILY' }), {
+      fields: null,
+      error: 'recurrence_start is required with a recurrence rule',
+    });
+    assert.equal(resolveRecurrenceFields({ recurrence_rule: null }).fields?.recurrence_rule, null);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateBudget, type BudgetBuilderInputs } from '../budget-builder.js';
+import { buildSf424a, reconcileBudget, type ExportBudget, type ExportLineItem } from '../sf424a.js';
+
+const grant = { title: 'Community Health Workers', aln: '93.001', agency: 'HHS' };
+
+const budget: ExportBudget = {
+  proposed_amount: 90000,
+  match_required: true,
+  match_amount: 10000,
+  budget_period_start: '2025-07-01',
+  budget_period_end: '2026-06-30',
+};
+
+function lineItem(category: string, amount: number, builderGenerated = false): ExportLineItem {
+  return {
+    category,
+    description: category,
+    notes: null,
+    proposed_amount: amount,
+    builder_generated: builderGenerated,
+  };
+}
+
+const lineItems = [
+  lineItem('personnel', 50000),
+  lineItem('fringe_benefits', 15000),
+  lineItem('travel', 5000),
+  lineItem('indirect_costs', 20000),
+  lineItem('match_cash', 7000),
+  lineItem('match_in_kind', 3000),
+];
+
+const builderInputs: BudgetBuilderInputs = {
+  periods: [
+    { period_number: 1, start_date: '2025-07-01', end_date: '2026-06-30' },
+    { period_number: 2, start_date: '2026-07-01', end_date: '2027-06-30' },
+  ],
+  fringe_rates: [{ employee_class: 'Staff', rate: 20 }],
+  personnel: [
+    {
+      name: 'Coordinator',
+      position_title: null,
+      employee_class: 'Staff',
+      annual_salary: 60000,
+      effort_percent: 100,
+      months: 12,
+      escalation_percent: 0,
+      first_period: 1,
+      last_period: null,
+    },
+  ],
+  cost_items: [],
+  indirect_rate: 10,
+  indirect_base: 'mtdc',
+};
+
+describe('buildSf424a', () => {
+  it('totals a single budget period from the line items', () => {
+    const form = buildSf424a(grant, 'Applicant Org', budget, lineItems, null);
+
+    assert.equal(form.periods.length, 1);
+    assert.equal(form.periods[0].total_direct, 70000);
+    assert.equal(form.periods[0].total, 90000);
+    assert.equal(form.federal_total, 90000);
+    assert.deepEqual(form.non_federal, { applicant: 10000, state: 0, other: 0, total: 10000 });
+    assert.deepEqual(form.cash_needs, {
+      federal: [90000, 22500, 22500, 22500, 22500],
+      non_federal: [10000, 2500, 2500, 2500, 2500],
+    });
+    assert.deepEqual(form.future_funding, [0, 0, 0, 0]);
+  });
+
+  it('puts the rounding difference of the quarters in the last one', () => {
+    const form = buildSf424a(grant, 'Applicant Org', budget, [lineItem('travel', 100.01)], null);
+    assert.deepEqual(form.cash_needs.federal, [100.01, 25, 25, 25, 25.01]);
+  });
+
+  it('falls back to the required match when there are no match line items', () => {
+    const form = buildSf424a(grant, 'Applicant Org', budget, lineItems.slice(0, 4), null);
+    assert.equal(form.non_federal.total, 10000);
+  });
+
+  it('uses the budget builder periods and spreads the match over them', () => {
+    const calculation = calculateBudget(builderInputs);
+    const form = buildSf424a(grant, 'Applicant Org', budget, lineItems, {
+      inputs: builderInputs,
+      calculation,
+    });
+
+    assert.equal(form.periods.length, 2);
+    assert.equal(form.periods[0].total, 79200);
+    assert.equal(form.federal_total, 158400);
+    assert.deepEqual(form.future_funding, [79200, 0, 0, 0]);
+    assert.equal(form.cash_needs.non_federal[0], 5000);
+  });
+});
+
+describe('reconcileBudget', () => {
+  it('passes a budget whose line items add up', () => {
+    const form = buildSf424a(grant, 'Applicant Org', budget, lineItems, null);
+    assert.deepEqual(reconcileBudget(form, budget, lineItems, false), []);
+  });
+
+  it('reports a proposed amount and match that do not add up', () => {
+    const items = [...lineItems.slice(0, 4), lineItem('match_cash', 4000)];
+    const changed = { ...budget, proposed_amount: 95000 };
+    const form = buildSf424a(grant, 'Applicant Org', changed, items, null);
+
+    assert.deepEqual(reconcileBudget(form, changed, items, false), [
+      {
+        category: null,
+        message: "The budget categories don't add up to the proposed amount",
+        expected: 90000,
+        actual: 95000,
+      },
+      {
+        category: 'match',
+        message: "Match line items don't add up to the required match",
+        expected: 10000,
+        actual: 4000,
+      },
+    ]);
+  });
+
+  it('compares builder budgets category by category', () => {
+    const calculation = calculateBudget(builderInputs);
+    const items = [
+      lineItem('personnel', 120000, true),
+      lineItem('personnel', 500),
+      lineItem('fringe_benefits', 24000, true),
+      lineItem('indirect_costs', 14400, true),
+    ];
+    const changed = { ...budget, proposed_amount: 158400, match_required: false };
+    const form = buildSf424a(grant, 'Applicant Org', changed, items, {
+      inputs: builderInputs,
+      calculation,
+    });
+
+    assert.deepEqual(reconcileBudget(form, changed, items, true), [
+      {
+        category: 'personnel',
+        message:
+          "Personnel line items include hand-entered amounts on top of the budget builder's total",
+        expected: 120000,
+        actual: 120500,
+      },
+    ]);
+  });
+});
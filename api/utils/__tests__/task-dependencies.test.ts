@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeTaskSchedule,
+  findDependencyCycle,
+  type SchedulableTask,
+  type TaskDependency,
+} from '../task-dependencies.js';
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+
+function depends(taskId: string, dependsOnTaskId: string): TaskDependency {
+  return { task_id: taskId, depends_on_task_id: dependsOnTaskId };
+}
+
+describe('findDependencyCycle', () => {
+  const chain = [depends('b', 'a'), depends('c', 'b')];
+
+  it('allows new predecessors that do not loop back', () => {
+    assert.equal(findDependencyCycle(chain, 'd', ['c']), null);
+    assert.equal(findDependencyCycle(chain, 'c', ['a', 'b']), null);
+  });
+
+  it('returns the cycle starting and ending with the task', () => {
+    assert.deepEqual(findDependencyCycle(chain, 'a', ['c']), ['a', 'c', 'b', 'a']);
+    assert.deepEqual(findDependencyCycle([], 'a', ['a']), ['a', 'a']);
+  });
+});
+
+describe('computeTaskSchedule', () => {
+  const tasks: SchedulableTask[] = [
+    { id: 'a', status: 'pending', estimated_days: 2 },
+    { id: 'b', status: 'pending', estimated_days: 3 },
+    { id: 'c', status: 'pending' },
+  ];
+  const dependencies = [depends('b', 'a')];
+
+  it('finds the critical path and slack against the internal deadline', () => {
+    const schedule = computeTaskSchedule(
+      tasks,
+      dependencies,
+      { internal_deadline: '2025-01-10', close_date: '2025-02-01' },
+      NOW,
+    );
+
+    assert.equal(schedule.deadline, '2025-01-10');
+    assert.equal(schedule.deadline_source, 'internal_deadline');
+    assert.equal(schedule.projected_finish, '2025-01-06');
+    assert.equal(schedule.slack_days, 4);
+    assert.deepEqual(schedule.critical_path, ['a', 'b']);
+    assert.deepEqual(schedule.negative_slack_task_ids, []);
+
+    const b = schedule.tasks.find((entry) => entry.task_id === 'b');
+    assert.deepEqual(b, {
+      task_id: 'b',
+      earliest_start: '2025-01-03',
+      earliest_finish: '2025-01-06',
+      latest_finish: '2025-01-10',
+      slack_days: 4,
+      is_critical: true,
+      blocked_by: ['a'],
+    });
+    assert.equal(schedule.tasks.find((entry) => entry.task_id === 'c')?.slack_days, 8);
+  });
+
+  it('flags tasks that cannot finish before the deadline', () => {
+    const schedule = computeTaskSchedule(tasks, dependencies, { close_date: '2025-01-04' }, NOW);
+
+    assert.equal(schedule.deadline_source, 'close_date');
+    assert.equal(schedule.slack_days, -2);
+    assert.deepEqual(schedule.negative_slack_task_ids, ['a', 'b']);
+  });
+
+  it('lets successors of completed tasks start today', () => {
+    const schedule = computeTaskSchedule(
+      [{ ...tasks[0], status: 'completed' }, tasks[1]],
+      dependencies,
+      {},
+      NOW,
+    );
+
+    assert.equal(schedule.deadline, null);
+    assert.equal(schedule.slack_days, null);
+    assert.deepEqual(schedule.tasks, [
+      {
+        task_id: 'b',
+        earliest_start: '2025-01-01',
+        earliest_finish: '2025-01-04',
+        latest_finish: null,
+        slack_days: null,
+        is_critical: false,
+        blocked_by: [],
+      },
+    ]);
+  });
+
+  it("uses a task's own deadline when it is earlier than the grant's", () => {
+    const schedule = computeTaskSchedule(
+      [tasks[0], tasks[1], { ...tasks[2], due_date: '2025-01-02' }],
+      dependencies,
+      { internal_deadline: '2025-01-10' },
+      NOW,
+    );
+
+    assert.equal(schedule.tasks.find((entry) => entry.task_id === 'c')?.slack_days, 0);
+    assert.deepEqual(schedule.critical_path, ['c']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWebhookEnvelope, type WebhookEventData } from '../webhook-events.js';
+
+const updated = {
+  grant_id: 'grant-1',
+  grant_title: 'Community Health Workers',
+  action_url: 'https://grantcue.com/grants/grant-1',
+  changed_fields: ['priority'],
+  priority: 'high',
+};
+
+describe('buildWebhookEnvelope', () => {
+  it('wraps valid data in the v2 envelope and keeps extra fields', () => {
+    const envelope = buildWebhookEnvelope(2, 'grant.updated', 'org-1', {
+      ...updated,
+      custom_field: 'kept',
+    });
+
+    assert.ok('id' in envelope && envelope.id.startsWith('evt_'));
+    assert.equal(envelope.event, 'grant.updated');
+    assert.deepEqual(envelope.data, { ...updated, custom_field: 'kept' });
+  });
+
+  it('uses the legacy envelope for version 1', () => {
+    const envelope = buildWebhookEnvelope(1, 'grant.updated', 'org-1', updated);
+
+    assert.deepEqual(Object.keys(envelope).sort(), ['data', 'event', 'timestamp']);
+  });
+
+  it('rejects data that breaks the event schema', () => {
+    const { changed_fields: _changedFields, ...missing } = updated;
+
+    assert.throws(
+      () =>
+        buildWebhookEnvelope(
+          2,
+          'grant.updated',
+          'org-1',
+          missing as WebhookEventData<'grant.updated'>,
+        ),
+      /grant\.updated payload does not match its schema: changed_fields/,
+    );
+  });
+});
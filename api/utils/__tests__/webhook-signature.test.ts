@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  buildDeliveryHeaders,
+  getSigningSecrets,
+  type WebhookRecord,
+} from '../webhook-delivery.js';
+import {
+  buildSignatureHeader,
+  computeWebhookSignature,
+  parseSignatureHeader,
+  verifyWebhookSignature,
+} from '../webhook-signature.js';
+
+const payload = JSON.stringify({ event: 'grant.saved', data: { id: 'grant-1' } });
+const now = () => Math.floor(Date.now() / 1000);
+
+const webhook: WebhookRecord = {
+  id: 'webhook-1',
+  org_id: 'org-1',
+  name: 'Receiver',
+  url: 'https://hooks.example.com/grantcue',
+  secret: 'whsec_current',
+  previous_secret: 'whsec_previous',
+  previous_secret_expires_at: new Date(Date.now() + 3600 * 1000).toISOString(),
+  payload_version: 2,
+  is_active: true,
+  total_deliveries: 0,
+  failed_deliveries: 0,
+  consecutive_failures: 0,
+};
+
+describe('buildSignatureHeader', () => {
+  it('signs the timestamped payload with every secret', () => {
+    const header = buildSignatureHeader(payload, ['a', 'b'], 1711111111);
+    assert.equal(
+      header,
+      `t=1711111111,v1=${computeWebhookSignature('a', 1711111111, payload)},v1=${computeWebhookSignature('b', 1711111111, payload)}`,
+    );
+    assert.equal(parseSignatureHeader(header)?.timestamp, 1711111111);
+  });
+
+  it('rejects headers without a timestamp or signature', () => {
+    assert.equal(parseSignatureHeader('v1=abc'), null);
+    assert.equal(parseSignatureHeader('t=1711111111'), null);
+    assert.equal(parseSignatureHeader('t=soon,v1=abc'), null);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a fresh signature made with any trusted secret', () => {
+    const header = buildSignatureHeader(payload, ['whsec_new', 'whsec_old']);
+    assert.deepEqual(verifyWebhookSignature(payload, header, 'whsec_old'), { valid: true });
+    assert.deepEqual(verifyWebhookSignature(payload, header, ['whsec_other', 'whsec_new']), {
+      valid: true,
+    });
+  });
+
+  it('rejects a modified body or an unknown secret', () => {
+    const header = buildSignatureHeader(payload, ['whsec_new']);
+    assert.deepEqual(verifyWebhookSignature(`${payload} `, header, 'whsec_new'), {
+      valid: false,
+      reason: 'No matching signature',
+    });
+    assert.deepEqual(verifyWebhookSignature(payload, header, 'whsec_other'), {
+      valid: false,
+      reason: 'No matching signature',
+    });
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const stale = buildSignatureHeader(payload, ['whsec_new'], now() - 301);
+    const future = buildSignatureHeader(payload, ['whsec_new'], now() + 301);
+    const reason = 'Signature timestamp outside the tolerance window';
+
+    assert.deepEqual(verifyWebhookSignature(payload, stale, 'whsec_new'), {
+      valid: false,
+      reason,
+    });
+    assert.deepEqual(verifyWebhookSignature(payload, future, 'whsec_new'), {
+      valid: false,
+      reason,
+    });
+    assert.deepEqual(verifyWebhookSignature(payload, stale, 'whsec_new', 600), { valid: true });
+  });
+
+  it('explains missing and malformed headers', () => {
+    assert.deepEqual(verifyWebhookSignature(payload, undefined, 'whsec_new'), {
+      valid: false,
+      reason: 'Missing signature header',
+    });
+    assert.deepEqual(verifyWebhookSignature(payload, 'sha256=abc', 'whsec_new'), {
+      valid: false,
+      reason: 'Malformed signature header',
+    });
+  });
+});
+
+describe('buildDeliveryHeaders', () => {
+  it('signs version 2 deliveries with the current and unexpired previous secret', () => {
+    const headers = buildDeliveryHeaders(webhook, 'delivery-1', payload);
+
+    assert.equal(headers['X-Webhook-Delivery-Id'], 'delivery-1');
+    assert.equal(headers['X-Webhook-Signature-Timestamped'], undefined);
+    assert.equal(parseSignatureHeader(headers['X-Webhook-Signature'])?.signatures.length, 2);
+    assert.deepEqual(
+      verifyWebhookSignature(payload, headers['X-Webhook-Signature'], 'whsec_previous'),
+      { valid: true },
+    );
+  });
+
+  it('keeps the legacy signature for version 1 deliveries', () => {
+    const headers = buildDeliveryHeaders({ ...webhook, payload_version: 1 }, 'delivery-1', payload);
+
+    assert.equal(
+      headers['X-Webhook-Signature'],
+      crypto.createHmac('sha256', 'whsec_current').update(payload).digest('hex'),
+    );
+    assert.deepEqual(
+      verifyWebhookSignature(payload, headers['X-Webhook-Signature-Timestamped'], 'whsec_current'),
+      { valid: true },
+    );
+  });
+
+  it('drops the previous secret once its overlap window has passed', () => {
+    const expired = { ...webhook, previous_secret_expires_at: '2020-01-01T00:00:00Z' };
+    assert.deepEqual(getSigningSecrets(expired), ['whsec_current']);
+  });
+});
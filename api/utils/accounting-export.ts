@@ -0,0 +1,516 @@
+/**
+ * Accounting Export
+ *
+ * Turns a grant's approved disbursements and received payments into
+ * balanced journal entries and writes them in the import formats of
+ * QuickBooks Desktop (IIF), QuickBooks Online (journal CSV) and Xero
+ * (manual journal CSV):
+ *
+ *   expense             Dr expense account   Cr bank account
+ *   negative adjustment Dr bank account      Cr expense account
+ *   payment received    Dr bank account      Cr revenue account
+ *
+ * Received payment schedules without a recorded payment are exported as
+ * payments received. In-kind items never touch the bank and are left out.
+ *
+ * Accounts and classes come from the org's accounting settings and
+ * mappings; the most specific mapping wins (grant and category, then
+ * grant, then category, then the defaults). Each exported record is
+ * stamped with its export so it is never posted twice.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ROLLUP_CATEGORIES, CATEGORY_LABELS } from './budget-builder.js';
+
+export const EXPORT_FORMATS = ['quickbooks_iif', 'quickbooks_csv', 'xero_csv'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_FILES: Record<
+  ExportFormat,
+  { label: string; extension: string; content_type: string }
+> = {
+  quickbooks_iif: {
+    label: 'QuickBooks Desktop (IIF)',
+    extension: 'iif',
+    content_type: 'text/plain; charset=utf-8',
+  },
+  quickbooks_csv: {
+    label: 'QuickBooks Online (CSV)',
+    extension: 'csv',
+    content_type: 'text/csv; charset=utf-8',
+  },
+  xero_csv: {
+    label: 'Xero (CSV)',
+    extension: 'csv',
+    content_type: 'text/csv; charset=utf-8',
+  },
+};
+
+// Budget categories an expense account can be mapped for; in-kind match
+// isn't exported
+export const MAPPING_CATEGORIES = [...ROLLUP_CATEGORIES, 'match_cash'] as const;
+
+export type MappingCategory = (typeof MAPPING_CATEGORIES)[number];
+
+export const MAPPING_CATEGORY_LABELS: Record<MappingCategory, string> = {
+  ...CATEGORY_LABELS,
+  match_cash: 'Cash Match',
+};
+
+export interface AccountingSettings {
+  bank_account: string | null;
+  revenue_account: string | null;
+  default_expense_account: string | null;
+  tracking_category: string;
+  xero_tax_rate: string;
+}
+
+export const DEFAULT_ACCOUNTING_SETTINGS: AccountingSettings = {
+  bank_account: null,
+  revenue_account: null,
+  default_expense_account: null,
+  tracking_category: 'Grant',
+  xero_tax_rate: 'Tax Exempt',
+};
+
+export interface AccountingMapping {
+  grant_id: string | null;
+  category: MappingCategory | null;
+  expense_account: string | null;
+  revenue_account: string | null;
+  class_name: string | null;
+}
+
+export type SourceKind = 'disbursement' | 'payment_schedule';
+
+export type EntryType = 'expense' | 'refund' | 'receipt';
+
+export interface ExportSource {
+  kind: SourceKind;
+  id: string;
+  entry_type: EntryType;
+  date: string;
+  // Always positive; entry_type gives the direction
+  amount: number;
+  category: string | null;
+  description: string;
+  reference: string | null;
+}
+
+export interface JournalLine {
+  // Null when no account is mapped; such entries block the export
+  account: string | null;
+  debit: number;
+  credit: number;
+  class_name: string | null;
+}
+
+export interface JournalEntry {
+  number: string;
+  kind: SourceKind;
+  id: string;
+  entry_type: EntryType;
+  date: string;
+  amount: number;
+  category: string | null;
+  memo: string;
+  lines: JournalLine[];
+}
+
+export interface JournalResult {
+  entries: JournalEntry[];
+  // Accounts that still need to be set up
+  warnings: string[];
+}
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = (value || '').trim();
+  return trimmed || null;
+}
+
+/**
+ * Accounts and class for one grant and budget category
+ */
+export function resolveMapping(
+  settings: AccountingSettings,
+  mappings: AccountingMapping[],
+  grantId: string,
+  category: string | null,
+): { expense_account: string | null; revenue_account: string | null; class_name: string | null } {
+  const scopes = [
+    category ? mappings.find((m) => m.grant_id === grantId && m.category === category) : undefined,
+    mappings.find((m) => m.grant_id === grantId && m.category === null),
+    category ? mappings.find((m) => m.grant_id === null && m.category === category) : undefined,
+  ];
+
+  const first = (field: 'expense_account' | 'revenue_account' | 'class_name') =>
+    scopes.map((mapping) => clean(mapping?.[field])).find((value) => value !== null) ?? null;
+
+  return {
+    expense_account: first('expense_account') ?? clean(settings.default_expense_account),
+    revenue_account: first('revenue_account') ?? clean(settings.revenue_account),
+    class_name: first('class_name'),
+  };
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Journal entries for the given records, oldest first
+ */
+export function buildJournalEntries(
+  sources: ExportSource[],
+  grantId: string,
+  settings: AccountingSettings,
+  mappings: AccountingMapping[],
+): JournalResult {
+  const warnings = new Set<string>();
+  const bank = clean(settings.bank_account);
+  if (!bank && sources.length > 0) {
+    warnings.add('No bank account is set');
+  }
+
+  const entries = [...sources]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    .map((source): JournalEntry => {
+      const mapping = resolveMapping(settings, mappings, grantId, source.category);
+      const amount = round(source.amount);
+
+      let debit: string | null;
+      let credit: string | null;
+      if (source.entry_type === 'receipt') {
+        if (!mapping.revenue_account) {
+          warnings.add('No revenue account is set for this grant');
+        }
+        debit = bank;
+        credit = mapping.revenue_account;
+      } else {
+        if (!mapping.expense_account) {
+          const label =
+            MAPPING_CATEGORY_LABELS[source.category as MappingCategory] || 'uncategorized';
+          warnings.add(`No expense account is set for ${label} expenses`);
+        }
+        debit = source.entry_type === 'expense' ? mapping.expense_account : bank;
+        credit = source.entry_type === 'expense' ? bank : mapping.expense_account;
+      }
+
+      return {
+        number: `${source.kind === 'disbursement' ? 'D' : 'P'}-${source.id.slice(0, 8).toUpperCase()}`,
+        kind: source.kind,
+        id: source.id,
+        entry_type: source.entry_type,
+        date: source.date,
+        amount,
+        category: source.category,
+        memo: source.reference
+          ? `${source.description} (Ref ${source.reference})`
+          : source.description,
+        lines: [
+          { account: debit, debit: amount, credit: 0, class_name: mapping.class_name },
+          { account: credit, debit: 0, credit: amount, class_name: mapping.class_name },
+        ],
+      };
+    });
+
+  return { entries, warnings: [...warnings] };
+}
+
+// MM/DD/YYYY, which all three imports accept for US companies
+function formatDate(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-');
+  return `${month}/${day}/${year}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvRow(values: string[]): string {
+  return values.map(csvField).join(',');
+}
+
+// IIF is tab-delimited with no quoting
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ').replace(/"/g, "'");
+}
+
+/**
+ * QuickBooks Desktop IIF general journal transactions
+ */
+export function formatIif(entries: JournalEntry[]): string {
+  const columns = ['TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const rows = [['!TRNS', ...columns], ['!SPL', 'SPLID', ...columns.slice(1)], ['!ENDTRNS']];
+
+  for (const entry of entries) {
+    entry.lines.forEach((line, index) => {
+      rows.push([
+        index === 0 ? 'TRNS' : 'SPL',
+        '',
+        'GENERAL JOURNAL',
+        formatDate(entry.date),
+        iifField(line.account || ''),
+        iifField(line.class_name || ''),
+        // Debits positive, credits negative
+        formatAmount(line.debit - line.credit),
+        entry.number,
+        iifField(entry.memo),
+      ]);
+    });
+    rows.push(['ENDTRNS']);
+  }
+
+  return rows.map((row) => row.join('\t')).join('\r\n') + '\r\n';
+}
+
+/**
+ * QuickBooks Online journal entry import CSV
+ */
+export function formatQuickBooksCsv(entries: JournalEntry[]): string {
+  const rows = [
+    csvRow([
+      'Journal No',
+      'Journal Date',
+      'Account Name',
+      'Debits',
+      'Credits',
+      'Description',
+      'Class',
+    ]),
+  ];
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      rows.push(
+        csvRow([
+          entry.number,
+          formatDate(entry.date),
+          line.account || '',
+          line.debit ? formatAmount(line.debit) : '',
+          line.credit ? formatAmount(line.credit) : '',
+          entry.memo,
+          line.class_name || '',
+        ]),
+      );
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * Xero manual journal import CSV. Xero groups lines into journals by
+ * narration and date, so the narration starts with the journal number.
+ */
+export function formatXeroCsv(entries: JournalEntry[], settings: AccountingSettings): string {
+  const rows = [
+    csvRow([
+      '*Narration',
+      '*Date',
+      'Description',
+      '*AccountCode',
+      '*TaxRate',
+      '*Amount',
+      'TrackingName1',
+      'TrackingOption1',
+    ]),
+  ];
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      rows.push(
+        csvRow([
+          `${entry.number} ${entry.memo}`,
+          formatDate(entry.date),
+          entry.memo,
+          line.account || '',
+          settings.xero_tax_rate,
+          // Debits positive, credits negative
+          formatAmount(line.debit - line.credit),
+          line.class_name ? settings.tracking_category : '',
+          line.class_name || '',
+        ]),
+      );
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+export function formatJournal(
+  format: ExportFormat,
+  entries: JournalEntry[],
+  settings: AccountingSettings,
+): string {
+  switch (format) {
+    case 'quickbooks_iif':
+      return formatIif(entries);
+    case 'quickbooks_csv':
+      return formatQuickBooksCsv(entries);
+    case 'xero_csv':
+      return formatXeroCsv(entries, settings);
+  }
+}
+
+/**
+ * The org's accounting settings (defaults when never saved) and mappings
+ */
+export async function fetchAccountingConfig(
+  supabase: SupabaseClient,
+  orgId: string,
+): Promise<{ settings: AccountingSettings; mappings: AccountingMapping[] }> {
+  const [settingsResult, mappingsResult] = await Promise.all([
+    supabase.from('accounting_settings').select('*').eq('org_id', orgId).maybeSingle(),
+    supabase
+      .from('accounting_mappings')
+      .select('grant_id, category, expense_account, revenue_account, class_name')
+      .eq('org_id', orgId),
+  ]);
+
+  if (settingsResult.error) {
+    throw settingsResult.error;
+  }
+  if (mappingsResult.error) {
+    throw mappingsResult.error;
+  }
+
+  const saved = settingsResult.data;
+  return {
+    settings: saved
+      ? {
+          bank_account: saved.bank_account,
+          revenue_account: saved.revenue_account,
+          default_expense_account: saved.default_expense_account,
+          tracking_category: saved.tracking_category,
+          xero_tax_rate: saved.xero_tax_rate,
+        }
+      : DEFAULT_ACCOUNTING_SETTINGS,
+    mappings: (mappingsResult.data || []) as AccountingMapping[],
+  };
+}
+
+export interface ExportSources {
+  sources: ExportSource[];
+  // Records not exported yet that are left out, and why
+  awaiting_approval: number;
+  non_cash: number;
+}
+
+/**
+ * A budget's records not exported yet, or with exportId, the records of
+ * that export
+ */
+export async function fetchExportSources(
+  supabase: SupabaseClient,
+  budgetId: string,
+  exportId: string | null = null,
+): Promise<ExportSources> {
+  let disbursementsQuery = supabase
+    .from('disbursements')
+    .select(
+      'id, disbursement_type, amount, disbursement_date, category, payment_method, description, vendor_payee, reference_number, approved, payment_schedule_id',
+    )
+    .eq('budget_id', budgetId);
+  let schedulesQuery = supabase
+    .from('payment_schedules')
+    .select('id, payment_name, expected_amount, expected_date, actual_amount, actual_date')
+    .eq('budget_id', budgetId)
+    .eq('received', true);
+
+  if (exportId) {
+    disbursementsQuery = disbursementsQuery.eq('accounting_export_id', exportId);
+    schedulesQuery = schedulesQuery.eq('accounting_export_id', exportId);
+  } else {
+    disbursementsQuery = disbursementsQuery.is('accounting_export_id', null);
+    schedulesQuery = schedulesQuery.is('accounting_export_id', null);
+  }
+
+  const [disbursements, schedules, receipts, exportedSchedules] = await Promise.all([
+    disbursementsQuery,
+    schedulesQuery,
+    // Schedules with a payment recorded are exported through the payment
+    supabase
+      .from('disbursements')
+      .select('payment_schedule_id')
+      .eq('budget_id', budgetId)
+      .not('payment_schedule_id', 'is', null),
+    // ...unless the schedule itself was exported before the payment was
+    // recorded
+    supabase
+      .from('payment_schedules')
+      .select('id')
+      .eq('budget_id', budgetId)
+      .not('accounting_export_id', 'is', null),
+  ]);
+
+  for (const result of [disbursements, schedules, receipts, exportedSchedules]) {
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  const recordedSchedules = new Set(
+    (receipts.data || []).map((receipt) => receipt.payment_schedule_id as string),
+  );
+  const postedSchedules = new Set((exportedSchedules.data || []).map((schedule) => schedule.id));
+
+  const result: ExportSources = { sources: [], awaiting_approval: 0, non_cash: 0 };
+
+  for (const disbursement of disbursements.data || []) {
+    if (disbursement.category === 'match_in_kind' || disbursement.payment_method === 'in_kind') {
+      result.non_cash++;
+      continue;
+    }
+    if (!disbursement.approved) {
+      result.awaiting_approval++;
+      continue;
+    }
+
+    const amount = Number(disbursement.amount);
+    if (
+      amount === 0 ||
+      (!exportId &&
+        disbursement.payment_schedule_id &&
+        postedSchedules.has(disbursement.payment_schedule_id))
+    ) {
+      continue;
+    }
+
+    const isReceipt = disbursement.disbursement_type === 'payment_received';
+    result.sources.push({
+      kind: 'disbursement',
+      id: disbursement.id,
+      entry_type: isReceipt ? 'receipt' : amount < 0 ? 'refund' : 'expense',
+      date: disbursement.disbursement_date,
+      amount: Math.abs(amount),
+      category: isReceipt ? null : disbursement.category,
+      description: [disbursement.vendor_payee, disbursement.description].filter(Boolean).join(': '),
+      reference: disbursement.reference_number,
+    });
+  }
+
+  for (const schedule of schedules.data || []) {
+    if (recordedSchedules.has(schedule.id)) {
+      continue;
+    }
+
+    result.sources.push({
+      kind: 'payment_schedule',
+      id: schedule.id,
+      entry_type: 'receipt',
+      date: schedule.actual_date || schedule.expected_date,
+      amount: Math.abs(Number(schedule.actual_amount ?? schedule.expected_amount)),
+      category: null,
+      description: schedule.payment_name,
+      reference: null,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,139 @@
+/**
+ * Organization API Keys
+ *
+ * Keys look like `gck_<random>` and are sent either as
+ * `Authorization: Bearer gck_...` or in an `X-API-Key` header. Only a SHA-256
+ * hash is stored, so the plaintext is shown once when the key is created.
+ *
+ * A request made with a key acts as the admin who created it, limited to the
+ * key's scopes. Scopes reuse the permission names from src/lib/rbac.ts;
+ * budgets and compliance requirements belong to a grant, so they are covered
+ * by the grant scopes.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const API_KEY_PREFIX = 'gck_';
+export const API_KEY_HEADER = 'X-API-Key';
+
+// Characters of the key kept in plaintext for display
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// last_used_at is only written when older than this, to avoid a write per request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export const API_KEY_SCOPES = [
+  'grants:view',
+  'grants:create',
+  'grants:edit',
+  'grants:delete',
+  'tasks:view',
+  'tasks:create',
+  'tasks:edit',
+  'tasks:delete',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'grants:view': 'Read saved grants, budgets and compliance requirements',
+  'grants:create': 'Save new grants',
+  'grants:edit': 'Update grants and stages; create and update budgets and compliance requirements',
+  'grants:delete': 'Remove saved grants, budgets and compliance requirements',
+  'tasks:view': 'Read grant tasks',
+  'tasks:create': 'Create grant tasks',
+  'tasks:edit': 'Update grant tasks',
+  'tasks:delete': 'Delete grant tasks',
+};
+
+export interface ApiKeyContext {
+  id: string;
+  org_id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  created_by: string;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * New random key with its display prefix and stored hash
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API key sent with the request, if any
+ */
+export function extractApiKey(
+  headers: Record<string, string | string[] | undefined>,
+): string | null {
+  const headerKey = headers[API_KEY_HEADER.toLowerCase()];
+  if (typeof headerKey === 'string' && headerKey.startsWith(API_KEY_PREFIX)) {
+    return headerKey;
+  }
+
+  const authHeader = headers.authorization;
+  if (typeof authHeader === 'string' && authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+/**
+ * Look up an active key and record its use
+ *
+ * @returns The key, or null when it is unknown, revoked or expired
+ */
+export async function authenticateApiKey(
+  supabase: SupabaseClient,
+  key: string,
+  ip?: string | null,
+): Promise<ApiKeyContext | null> {
+  const { data: apiKey } = await supabase
+    .from('org_api_keys')
+    .select('id, org_id, name, scopes, created_by, expires_at, last_used_at, revoked_at')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (!apiKey || apiKey.revoked_at) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= now) {
+    return null;
+  }
+
+  if (
+    !apiKey.last_used_at ||
+    now - new Date(apiKey.last_used_at).getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    const { error } = await supabase
+      .from('org_api_keys')
+      .update({ last_used_at: new Date(now).toISOString(), last_used_ip: ip || null })
+      .eq('id', apiKey.id);
+
+    if (error) {
+      console.error('[API Keys] Failed to record key use:', error);
+    }
+  }
+
+  return {
+    id: apiKey.id,
+    org_id: apiKey.org_id,
+    name: apiKey.name,
+    scopes: ((apiKey.scopes as string[]) || []).filter(isApiKeyScope),
+    created_by: apiKey.created_by,
+  };
+}
@@ -8,6 +8,7 @@
  * - Role-based access control (RBAC)
  * - Platform admin verification
  * - CRON job authentication
+ * - Organization API keys (scoped, see ./api-keys.ts)
  *
  * SECURITY BEST PRACTICES:
  * - Always verify authentication before processing requests
@@ -20,6 +21,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { verifyCronAuth } from './auth.js';
+import {
+  authenticateApiKey,
+  extractApiKey,
+  type ApiKeyContext,
+  type ApiKeyScope,
+} from './api-keys.js';
 
 export interface AuthenticatedUser {
   id: string;
@@ -47,6 +54,10 @@ export interface PlatformAdminResult extends AuthResult {
   isPlatformAdmin?: boolean;
 }
 
+export interface UserOrApiKeyResult extends AuthResult {
+  apiKey?: ApiKeyContext;
+}
+
 /**
  * Extract and verify user JWT token from authorization header
  *
@@ -320,6 +331,105 @@ export async function verifyUserOrCron(
   };
 }
 
+/**
+ * Authenticate a request made with either a user JWT or an organization API key
+ *
+ * API key requests act as the key's creator; `apiKey` is set so callers can
+ * enforce scopes with verifyOrgAccess.
+ *
+ * @param req - The Vercel request object
+ * @param supabase - Supabase client instance
+ * @returns UserOrApiKeyResult with user data (and the key, if one was used)
+ *
+ * @example
+ * const authResult = await verifyUserOrApiKey(req, supabase);
+ * if (!authResult.success) {
+ *   return sendAuthError(res, authResult);
+ * }
+ * const user = authResult.user!;
+ */
+export async function verifyUserOrApiKey(
+  req: VercelRequest,
+  supabase: SupabaseClient
+): Promise<UserOrApiKeyResult> {
+  const key = extractApiKey(req.headers);
+
+  if (!key) {
+    return verifyUserAuth(req, supabase);
+  }
+
+  try {
+    const ip = (req.headers['x-forwarded-for'] as string) || req.socket?.remoteAddress || null;
+    const apiKey = await authenticateApiKey(supabase, key, ip);
+
+    if (!apiKey) {
+      console.warn('[Auth] API key authentication failed: unknown, revoked or expired key');
+      return { success: false, ...AUTH_ERRORS.INVALID_API_KEY };
+    }
+
+    return {
+      success: true,
+      user: { id: apiKey.created_by } as AuthenticatedUser,
+      apiKey,
+    };
+  } catch (error) {
+    console.error('[Auth] Error verifying API key:', error);
+    return {
+      success: false,
+      error: 'Authentication verification failed',
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Verify a user or API key may act on the specified organization
+ *
+ * Users need to be members. API keys must belong to the organization, include
+ * the required scope, and their creator must still be a member.
+ *
+ * @param supabase - Supabase client instance
+ * @param authResult - Successful result of verifyUserOrApiKey
+ * @param orgId - The organization ID being accessed
+ * @param scope - Scope an API key needs for this action
+ * @returns OrgMembershipResult with membership data if successful
+ *
+ * @example
+ * const accessResult = await verifyOrgAccess(supabase, authResult, orgId, 'tasks:edit');
+ * if (!accessResult.success) {
+ *   return sendAuthError(res, accessResult);
+ * }
+ */
+export async function verifyOrgAccess(
+  supabase: SupabaseClient,
+  authResult: UserOrApiKeyResult,
+  orgId: string,
+  scope: ApiKeyScope
+): Promise<OrgMembershipResult> {
+  const { apiKey } = authResult;
+
+  if (apiKey) {
+    if (apiKey.org_id !== orgId) {
+      console.warn(`[Auth] API key ${apiKey.id} attempted access to org ${orgId}`);
+      return {
+        success: false,
+        error: 'Access denied - API key does not belong to this organization',
+        statusCode: 403,
+      };
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      return {
+        success: false,
+        error: `Access denied - API key is missing the ${scope} scope`,
+        statusCode: 403,
+      };
+    }
+  }
+
+  return verifyOrgMembership(supabase, authResult.user!.id, orgId);
+}
+
 /**
  * Helper to create a Supabase client with proper authentication
  *
@@ -378,6 +488,10 @@ export const AUTH_ERRORS = {
     statusCode: 401,
     error: 'Unauthorized - invalid CRON secret',
   },
+  INVALID_API_KEY: {
+    statusCode: 401,
+    error: 'Unauthorized - Invalid, revoked or expired API key',
+  },
 } as const;
 
 /**
@@ -0,0 +1,529 @@
+/**
+ * Budget Builder
+ *
+ * Calculates a grant budget from its inputs and rolls the totals up into
+ * budget_line_items, replacing totals pasted in by hand.
+ *
+ * - Personnel cost per budget period is the annual salary, escalated by the
+ *   person's escalation rate for every period after the first, times their
+ *   effort and the months they work in the period.
+ * - Fringe benefits apply the rate of each person's employee class.
+ * - Indirect costs apply the negotiated rate to modified total direct costs
+ *   (2 CFR 200.1): total direct costs less equipment, items marked as
+ *   excluded, and the part of each subaward beyond its first $25,000 over the
+ *   whole project. Budgets on a total direct cost base apply the rate to
+ *   everything.
+ *
+ * The rollup keeps one builder-generated line item per category. A category
+ * the builder fills for the first time takes over an existing hand-entered
+ * line item of that category, so disbursements already linked to it stay
+ * linked.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const BUILDER_COST_CATEGORIES = [
+  'travel',
+  'equipment',
+  'supplies',
+  'contractual',
+  'construction',
+  'other_direct',
+] as const;
+
+export type BuilderCostCategory = (typeof BUILDER_COST_CATEGORIES)[number];
+
+export const ROLLUP_CATEGORIES = [
+  'personnel',
+  'fringe_benefits',
+  ...BUILDER_COST_CATEGORIES,
+  'indirect_costs',
+] as const;
+
+export type RollupCategory = (typeof ROLLUP_CATEGORIES)[number];
+
+export const CATEGORY_LABELS: Record<RollupCategory, string> = {
+  personnel: 'Personnel',
+  fringe_benefits: 'Fringe Benefits',
+  travel: 'Travel',
+  equipment: 'Equipment',
+  supplies: 'Supplies',
+  contractual: 'Contractual',
+  construction: 'Construction',
+  other_direct: 'Other Direct Costs',
+  indirect_costs: 'Indirect Costs',
+};
+
+// Portion of each subaward that counts toward the MTDC base
+export const SUBAWARD_MTDC_LIMIT = 25000;
+
+export const MAX_BUDGET_PERIODS = 10;
+
+export type IndirectBase = 'mtdc' | 'tdc';
+
+export interface BudgetPeriod {
+  period_number: number;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface FringeRate {
+  employee_class: string;
+  // Percent of salary
+  rate: number;
+}
+
+export interface PersonnelRow {
+  id?: string;
+  name: string;
+  position_title: string | null;
+  employee_class: string;
+  // Base salary in the first period
+  annual_salary: number;
+  effort_percent: number;
+  // Months on the project in each period
+  months: number;
+  escalation_percent: number;
+  first_period: number;
+  // null for through the last period
+  last_period: number | null;
+}
+
+export interface CostItem {
+  id?: string;
+  period_number: number;
+  category: BuilderCostCategory;
+  description: string;
+  amount: number;
+  // Set for subawards; the $25,000 MTDC allowance is per subrecipient
+  subrecipient: string | null;
+  mtdc_excluded: boolean;
+}
+
+export interface BudgetBuilderInputs {
+  periods: BudgetPeriod[];
+  fringe_rates: FringeRate[];
+  personnel: PersonnelRow[];
+  cost_items: CostItem[];
+  indirect_rate: number;
+  indirect_base: IndirectBase;
+}
+
+export interface PeriodTotals extends BudgetPeriod {
+  categories: Record<RollupCategory, number>;
+  total_direct: number;
+  indirect_base_amount: number;
+  total: number;
+}
+
+export interface PersonnelCost {
+  name: string;
+  employee_class: string;
+  periods: Array<{ period_number: number; salary: number; fringe: number }>;
+}
+
+export interface BudgetCalculation {
+  periods: PeriodTotals[];
+  categories: Record<RollupCategory, number>;
+  personnel: PersonnelCost[];
+  total_direct: number;
+  indirect_base_amount: number;
+  total_indirect: number;
+  total: number;
+  // Inputs that were ignored or look wrong, e.g. an employee class without a fringe rate
+  warnings: string[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function emptyCategories(): Record<RollupCategory, number> {
+  const categories = {} as Record<RollupCategory, number>;
+  for (const category of ROLLUP_CATEGORIES) {
+    categories[category] = 0;
+  }
+  return categories;
+}
+
+function classKey(employeeClass: string): string {
+  return employeeClass.trim().toLowerCase();
+}
+
+/**
+ * Salary charged to the project for a person in a budget period
+ */
+export function personnelSalary(person: PersonnelRow, periodNumber: number): number {
+  if (
+    periodNumber < person.first_period ||
+    (person.last_period !== null && periodNumber > person.last_period)
+  ) {
+    return 0;
+  }
+
+  const escalated =
+    person.annual_salary * Math.pow(1 + person.escalation_percent / 100, periodNumber - 1);
+
+  return roundCents(escalated * (person.effort_percent / 100) * (person.months / 12));
+}
+
+/**
+ * Per-period and total costs of a budget built from its inputs
+ */
+export function calculateBudget(inputs: BudgetBuilderInputs): BudgetCalculation {
+  const warnings: string[] = [];
+  const periods = [...inputs.periods].sort((a, b) => a.period_number - b.period_number);
+  const periodNumbers = new Set(periods.map((period) => period.period_number));
+
+  const fringeRates = new Map(
+    inputs.fringe_rates.map((fringe) => [classKey(fringe.employee_class), fringe.rate]),
+  );
+
+  const missingClasses = new Set<string>();
+  for (const person of inputs.personnel) {
+    if (!fringeRates.has(classKey(person.employee_class))) {
+      missingClasses.add(person.employee_class);
+    }
+  }
+  for (const employeeClass of missingClasses) {
+    warnings.push(`No fringe rate for employee class "${employeeClass}"; no fringe was charged`);
+  }
+
+  const strayItems = inputs.cost_items.filter((item) => !periodNumbers.has(item.period_number));
+  if (strayItems.length > 0) {
+    warnings.push(
+      `${strayItems.length} cost item${strayItems.length === 1 ? ' is' : 's are'} in a budget period that doesn't exist and ${strayItems.length === 1 ? 'was' : 'were'} left out`,
+    );
+  }
+
+  const personnel: PersonnelCost[] = inputs.personnel.map((person) => ({
+    name: person.name,
+    employee_class: person.employee_class,
+    periods: [],
+  }));
+
+  // Remaining MTDC allowance per subrecipient, used up in period order
+  const subawardAllowance = new Map<string, number>();
+
+  const periodTotals: PeriodTotals[] = periods.map((period) => {
+    const categories = emptyCategories();
+
+    inputs.personnel.forEach((person, index) => {
+      const salary = personnelSalary(person, period.period_number);
+      const fringe = roundCents(
+        salary * ((fringeRates.get(classKey(person.employee_class)) || 0) / 100),
+      );
+
+      categories.personnel += salary;
+      categories.fringe_benefits += fringe;
+      personnel[index].periods.push({ period_number: period.period_number, salary, fringe });
+    });
+
+    let excludedFromBase = 0;
+    for (const item of inputs.cost_items) {
+      if (item.period_number !== period.period_number) {
+        continue;
+      }
+
+      categories[item.category] += item.amount;
+
+      if (item.category === 'equipment' || item.mtdc_excluded) {
+        excludedFromBase += item.amount;
+      } else if (item.subrecipient?.trim()) {
+        const key = item.subrecipient.trim().toLowerCase();
+        const allowance = subawardAllowance.get(key) ?? SUBAWARD_MTDC_LIMIT;
+        const counted = Math.min(item.amount, allowance);
+        subawardAllowance.set(key, allowance - counted);
+        excludedFromBase += item.amount - counted;
+      }
+    }
+
+    for (const category of ROLLUP_CATEGORIES) {
+      categories[category] = roundCents(categories[category]);
+    }
+
+    const totalDirect = roundCents(
+      ROLLUP_CATEGORIES.filter((category) => category !== 'indirect_costs').reduce(
+        (sum, category) => sum + categories[category],
+        0,
+      ),
+    );
+    const baseAmount =
+      inputs.indirect_base === 'tdc' ? totalDirect : roundCents(totalDirect - excludedFromBase);
+
+    categories.indirect_costs = roundCents(baseAmount * (inputs.indirect_rate / 100));
+
+    return {
+      ...period,
+      categories,
+      total_direct: totalDirect,
+      indirect_base_amount: baseAmount,
+      total: roundCents(totalDirect + categories.indirect_costs),
+    };
+  });
+
+  const categories = emptyCategories();
+  for (const period of periodTotals) {
+    for (const category of ROLLUP_CATEGORIES) {
+      categories[category] = roundCents(categories[category] + period.categories[category]);
+    }
+  }
+
+  const sum = (field: 'total_direct' | 'indirect_base_amount' | 'total') =>
+    roundCents(periodTotals.reduce((total, period) => total + period[field], 0));
+
+  return {
+    periods: periodTotals,
+    categories,
+    personnel,
+    total_direct: sum('total_direct'),
+    indirect_base_amount: sum('indirect_base_amount'),
+    total_indirect: categories.indirect_costs,
+    total: sum('total'),
+    warnings,
+  };
+}
+
+/**
+ * Line item description for a category, listing what went into it
+ */
+function describeCategory(
+  category: RollupCategory,
+  inputs: BudgetBuilderInputs,
+  calculation: BudgetCalculation,
+): string {
+  const periodCount = calculation.periods.length;
+  const periodsText = `${periodCount} budget period${periodCount === 1 ? '' : 's'}`;
+
+  if (category === 'personnel') {
+    const people = inputs.personnel.map(
+      (person) =>
+        `${person.name}${person.position_title ? `, ${person.position_title}` : ''} (${person.effort_percent}% effort, ${person.months} months)`,
+    );
+    return `Personnel over ${periodsText}: ${people.join('; ')}`;
+  }
+
+  if (category === 'fringe_benefits') {
+    const classes = new Set(inputs.personnel.map((person) => classKey(person.employee_class)));
+    const rates = inputs.fringe_rates
+      .filter((fringe) => classes.has(classKey(fringe.employee_class)))
+      .map((fringe) => `${fringe.employee_class} ${fringe.rate}%`);
+    return `Fringe benefits at ${rates.join(', ') || 'no rate'} of salaries`;
+  }
+
+  if (category === 'indirect_costs') {
+    const base =
+      inputs.indirect_base === 'tdc' ? 'total direct costs' : 'modified total direct costs';
+    return `Indirect costs at the negotiated rate of ${inputs.indirect_rate}% of ${base}`;
+  }
+
+  const items = Array.from(
+    new Set(
+      inputs.cost_items
+        .filter((item) => item.category === category)
+        .map((item) => item.description.trim()),
+    ),
+  );
+  return `${CATEGORY_LABELS[category]}: ${items.join('; ')}`;
+}
+
+/**
+ * Builder inputs of a budget, with its indirect rate
+ */
+export async function fetchBuilderInputs(
+  supabase: SupabaseClient,
+  budget: { id: string; indirect_rate: number | string | null; indirect_base: IndirectBase | null },
+): Promise<BudgetBuilderInputs> {
+  const [periods, fringeRates, personnel, costItems] = await Promise.all([
+    supabase
+      .from('budget_periods')
+      .select('period_number, start_date, end_date')
+      .eq('budget_id', budget.id)
+      .order('period_number', { ascending: true }),
+    supabase
+      .from('budget_fringe_rates')
+      .select('employee_class, rate')
+      .eq('budget_id', budget.id)
+      .order('employee_class', { ascending: true }),
+    supabase
+      .from('budget_personnel')
+      .select(
+        'id, name, position_title, employee_class, annual_salary, effort_percent, months, escalation_percent, first_period, last_period',
+      )
+      .eq('budget_id', budget.id)
+      .order('position', { ascending: true }),
+    supabase
+      .from('budget_cost_items')
+      .select('id, period_number, category, description, amount, subrecipient, mtdc_excluded')
+      .eq('budget_id', budget.id)
+      .order('period_number', { ascending: true })
+      .order('position', { ascending: true }),
+  ]);
+
+  for (const result of [periods, fringeRates, personnel, costItems]) {
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  // NUMERIC columns come back as strings
+  return {
+    periods: periods.data || [],
+    fringe_rates: (fringeRates.data || []).map((fringe) => ({
+      ...fringe,
+      rate: Number(fringe.rate),
+    })),
+    personnel: (personnel.data || []).map((person) => ({
+      ...person,
+      annual_salary: Number(person.annual_salary),
+      effort_percent: Number(person.effort_percent),
+      months: Number(person.months),
+      escalation_percent: Number(person.escalation_percent),
+    })),
+    cost_items: (costItems.data || []).map((item) => ({ ...item, amount: Number(item.amount) })),
+    indirect_rate: Number(budget.indirect_rate) || 0,
+    indirect_base: budget.indirect_base || 'mtdc',
+  };
+}
+
+/**
+ * Replace a budget's builder inputs
+ */
+export async function saveBuilderInputs(
+  supabase: SupabaseClient,
+  budget: { id: string; org_id: string },
+  inputs: BudgetBuilderInputs,
+): Promise<void> {
+  const tables = ['budget_periods', 'budget_fringe_rates', 'budget_personnel', 'budget_cost_items'];
+  for (const table of tables) {
+    const { error } = await supabase.from(table).delete().eq('budget_id', budget.id);
+    if (error) {
+      throw error;
+    }
+  }
+
+  const owner = { budget_id: budget.id, org_id: budget.org_id };
+  const inserts: Array<[string, object[]]> = [
+    ['budget_periods', inputs.periods.map((period) => ({ ...owner, ...period }))],
+    ['budget_fringe_rates', inputs.fringe_rates.map((fringe) => ({ ...owner, ...fringe }))],
+    [
+      'budget_personnel',
+      inputs.personnel.map(({ id: _id, ...person }, position) => ({
+        ...owner,
+        ...person,
+        position,
+      })),
+    ],
+    [
+      'budget_cost_items',
+      inputs.cost_items.map(({ id: _id, ...item }, position) => ({ ...owner, ...item, position })),
+    ],
+  ];
+
+  for (const [table, rows] of inserts) {
+    if (rows.length === 0) {
+      continue;
+    }
+    const { error } = await supabase.from(table).insert(rows);
+    if (error) {
+      throw error;
+    }
+  }
+
+  const { error } = await supabase
+    .from('grant_budgets')
+    .update({
+      indirect_rate: inputs.indirect_rate,
+      indirect_base: inputs.indirect_base,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', budget.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Write the calculated category totals to the budget's line items and its
+ * proposed amount
+ *
+ * Categories that drop to zero lose their builder line item, unless spending
+ * is already recorded against it; then it stays at a zero budget.
+ */
+export async function rollupToLineItems(
+  supabase: SupabaseClient,
+  budget: { id: string; org_id: string },
+  inputs: BudgetBuilderInputs,
+  calculation: BudgetCalculation,
+): Promise<void> {
+  const { data: lineItems, error: fetchError } = await supabase
+    .from('budget_line_items')
+    .select('id, category, line_number, spent_amount, committed_amount, builder_generated')
+    .eq('budget_id', budget.id)
+    .order('line_number', { ascending: true, nullsFirst: false });
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const existing = lineItems || [];
+  const now = new Date().toISOString();
+
+  for (const [index, category] of ROLLUP_CATEGORIES.entries()) {
+    const amount = calculation.categories[category];
+    const generated = existing.find((item) => item.builder_generated && item.category === category);
+
+    if (amount === 0) {
+      if (!generated) {
+        continue;
+      }
+
+      const hasSpending =
+        Number(generated.spent_amount) > 0 || Number(generated.committed_amount) > 0;
+      const { error } = hasSpending
+        ? await supabase
+            .from('budget_line_items')
+            .update({ proposed_amount: 0, updated_at: now })
+            .eq('id', generated.id)
+        : await supabase.from('budget_line_items').delete().eq('id', generated.id);
+
+      if (error) {
+        throw error;
+      }
+      continue;
+    }
+
+    const target =
+      generated || existing.find((item) => !item.builder_generated && item.category === category);
+    const values = {
+      description: describeCategory(category, inputs, calculation),
+      proposed_amount: amount,
+      builder_generated: true,
+      updated_at: now,
+    };
+
+    const { error } = target
+      ? await supabase.from('budget_line_items').update(values).eq('id', target.id)
+      : await supabase.from('budget_line_items').insert({
+          ...values,
+          budget_id: budget.id,
+          org_id: budget.org_id,
+          category,
+          line_number: index + 1,
+        });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  const { error } = await supabase
+    .from('grant_budgets')
+    .update({ proposed_amount: calculation.total, updated_at: now })
+    .eq('id', budget.id);
+
+  if (error) {
+    throw error;
+  }
+}
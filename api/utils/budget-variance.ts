@@ -0,0 +1,407 @@
+/**
+ * Budget Variance
+ *
+ * Compares each budget category and line item with the approved expenses
+ * recorded against it in disbursements, and projects spending to the end of
+ * the budget period at the rate spent so far.
+ *
+ * Spending projected beyond a category's budget has to come out of another
+ * category: a transfer. Under 2 CFR 200.308 cumulative transfers among direct
+ * cost categories above 10% of the total budget need prior approval, so each
+ * budget has a configurable rebudgeting threshold and categories (and the
+ * budget as a whole) are flagged when their transfers exceed it. Budget
+ * revisions move the budgeted amounts once an org admin approves them.
+ *
+ * Cost-share categories (match_cash, match_in_kind) are tracked separately
+ * and left out; indirect costs count toward the total but aren't a direct
+ * cost category to transfer into.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ROLLUP_CATEGORIES } from './budget-builder.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MATCH_CATEGORIES = ['match_cash', 'match_in_kind'];
+
+export interface VarianceBudget {
+  awarded_amount: number;
+  budget_period_start: string | null;
+  budget_period_end: string | null;
+  rebudget_threshold_percent: number;
+}
+
+export interface VarianceLineItem {
+  id: string;
+  category: string;
+  description: string;
+  proposed_amount: number;
+  awarded_amount: number;
+}
+
+// An approved expense
+export interface VarianceExpense {
+  amount: number;
+  disbursement_date: string;
+  category: string | null;
+  line_item_id: string | null;
+}
+
+export interface VarianceAmounts {
+  budgeted: number;
+  actual: number;
+  // budgeted - actual; negative when overspent
+  variance: number;
+  // Of the budgeted amount; null without a budget
+  variance_percent: number | null;
+  // Actual plus the current spending rate over the rest of the period
+  projected: number;
+  projected_variance: number;
+}
+
+export interface LineVariance extends VarianceAmounts {
+  line_item_id: string;
+  category: string;
+  description: string;
+}
+
+export interface CategoryVariance extends VarianceAmounts {
+  category: string;
+  over_budget: boolean;
+  projected_over_budget: boolean;
+  // Projected overspending that has to move in from other categories
+  transfer_amount: number;
+  // Of the total budget
+  transfer_percent: number;
+  exceeds_threshold: boolean;
+  lines: LineVariance[];
+}
+
+export interface BudgetVariance extends VarianceAmounts {
+  as_of: string;
+  period_start: string | null;
+  period_end: string | null;
+  // False without a budget period end; projections then equal actuals
+  projection_available: boolean;
+  elapsed_percent: number | null;
+  daily_burn_rate: number;
+  // When spending at the current rate uses up the budget
+  projected_depletion_date: string | null;
+  threshold_percent: number;
+  threshold_amount: number;
+  cumulative_transfer_amount: number;
+  cumulative_transfer_percent: number;
+  requires_revision: boolean;
+  // Expenses with neither a category nor a line item
+  unassigned_actual: number;
+  categories: CategoryVariance[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toDay(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Line item column holding the budgeted amount: the awarded amounts once the
+ * budget has an award, the proposed amounts before
+ */
+export function budgetedAmountColumn(budget: {
+  awarded_amount: number | string | null;
+}): 'awarded_amount' | 'proposed_amount' {
+  return Number(budget.awarded_amount) > 0 ? 'awarded_amount' : 'proposed_amount';
+}
+
+function amounts(budgeted: number, actual: number, projected: number): VarianceAmounts {
+  return {
+    budgeted: roundCents(budgeted),
+    actual: roundCents(actual),
+    variance: roundCents(budgeted - actual),
+    variance_percent:
+      budgeted > 0 ? Math.round(((budgeted - actual) / budgeted) * 1000) / 10 : null,
+    projected: roundCents(projected),
+    projected_variance: roundCents(budgeted - projected),
+  };
+}
+
+/**
+ * Variance of a budget's categories and line items as of a date (YYYY-MM-DD)
+ */
+export function calculateVariance(
+  budget: VarianceBudget,
+  lineItems: VarianceLineItem[],
+  expenses: VarianceExpense[],
+  asOf: string,
+): BudgetVariance {
+  const column = budgetedAmountColumn(budget);
+  const items = lineItems.filter((item) => !MATCH_CATEGORIES.includes(item.category));
+  const itemsById = new Map(lineItems.map((item) => [item.id, item]));
+  const today = toDay(asOf);
+
+  // Expenses before the period start count from their own date
+  const firstExpense = expenses.reduce<number | null>((first, expense) => {
+    const day = toDay(expense.disbursement_date);
+    return first === null || day < first ? day : first;
+  }, null);
+  const start = budget.budget_period_start ? toDay(budget.budget_period_start) : firstExpense;
+  const end = budget.budget_period_end ? toDay(budget.budget_period_end) : null;
+
+  // Days spent so far and days left, both counting today
+  const totalDays = start !== null && end !== null ? Math.max(end - start + 1, 1) : null;
+  const elapsedDays =
+    start === null
+      ? 0
+      : Math.max(0, Math.min(today - start + 1, totalDays ?? Number.MAX_SAFE_INTEGER));
+  const remainingDays = totalDays !== null ? totalDays - elapsedDays : 0;
+  const project = (actual: number) =>
+    elapsedDays > 0 ? actual + (actual / elapsedDays) * remainingDays : actual;
+
+  const lineActuals = new Map<string, number>();
+  const categoryActuals = new Map<string, number>();
+  let unassigned = 0;
+
+  for (const expense of expenses) {
+    const lineItem = expense.line_item_id ? itemsById.get(expense.line_item_id) : undefined;
+    const category = expense.category || lineItem?.category || null;
+
+    if (lineItem) {
+      lineActuals.set(lineItem.id, (lineActuals.get(lineItem.id) || 0) + expense.amount);
+    }
+    if (!category) {
+      unassigned += expense.amount;
+    } else if (!MATCH_CATEGORIES.includes(category)) {
+      categoryActuals.set(category, (categoryActuals.get(category) || 0) + expense.amount);
+    }
+  }
+
+  const categoryNames = [
+    ...new Set([...items.map((item) => item.category), ...categoryActuals.keys()]),
+  ].sort(
+    (a, b) =>
+      ROLLUP_CATEGORIES.indexOf(a as (typeof ROLLUP_CATEGORIES)[number]) -
+      ROLLUP_CATEGORIES.indexOf(b as (typeof ROLLUP_CATEGORIES)[number]),
+  );
+
+  const categoryRows = categoryNames.map((category) => {
+    const categoryItems = items.filter((item) => item.category === category);
+    const budgeted = categoryItems.reduce((sum, item) => sum + item[column], 0);
+    const actual = categoryActuals.get(category) || 0;
+    const lines = categoryItems.map((item) => {
+      const lineActual = lineActuals.get(item.id) || 0;
+      return {
+        line_item_id: item.id,
+        category: item.category,
+        description: item.description,
+        ...amounts(item[column], lineActual, project(lineActual)),
+      };
+    });
+    return { category, ...amounts(budgeted, actual, project(actual)), lines };
+  });
+
+  const totalBudgeted = roundCents(categoryRows.reduce((sum, row) => sum + row.budgeted, 0));
+  const totalActual = categoryRows.reduce((sum, row) => sum + row.actual, 0) + unassigned;
+  const thresholdPercent = Number(budget.rebudget_threshold_percent);
+  const percentOfTotal = (amount: number) =>
+    totalBudgeted > 0 ? Math.round((amount / totalBudgeted) * 10000) / 100 : 0;
+
+  const categories: CategoryVariance[] = categoryRows.map((row) => {
+    const transfer =
+      row.category === 'indirect_costs' ? 0 : roundCents(Math.max(0, -row.projected_variance));
+    return {
+      ...row,
+      over_budget: row.actual > row.budgeted,
+      projected_over_budget: row.projected > row.budgeted,
+      transfer_amount: transfer,
+      transfer_percent: percentOfTotal(transfer),
+      exceeds_threshold: transfer > 0 && percentOfTotal(transfer) > thresholdPercent,
+    };
+  });
+
+  const cumulativeTransfer = roundCents(
+    categories.reduce((sum, category) => sum + category.transfer_amount, 0),
+  );
+  const dailyRate = elapsedDays > 0 ? totalActual / elapsedDays : 0;
+
+  return {
+    as_of: asOf,
+    period_start: start !== null ? fromDay(start) : null,
+    period_end: end !== null ? fromDay(end) : null,
+    projection_available: totalDays !== null,
+    elapsed_percent: totalDays !== null ? Math.round((elapsedDays / totalDays) * 1000) / 10 : null,
+    daily_burn_rate: roundCents(dailyRate),
+    projected_depletion_date:
+      start !== null && dailyRate > 0 && totalBudgeted > 0
+        ? fromDay(start + Math.ceil(totalBudgeted / dailyRate) - 1)
+        : null,
+    ...amounts(totalBudgeted, totalActual, project(totalActual)),
+    threshold_percent: thresholdPercent,
+    threshold_amount: roundCents((totalBudgeted * thresholdPercent) / 100),
+    cumulative_transfer_amount: cumulativeTransfer,
+    cumulative_transfer_percent: percentOfTotal(cumulativeTransfer),
+    requires_revision:
+      cumulativeTransfer > 0 && percentOfTotal(cumulativeTransfer) > thresholdPercent,
+    unassigned_actual: roundCents(unassigned),
+    categories,
+  };
+}
+
+/**
+ * Line items and approved expenses of a budget
+ */
+export async function fetchVarianceInputs(
+  supabase: SupabaseClient,
+  budgetId: string,
+): Promise<{ lineItems: VarianceLineItem[]; expenses: VarianceExpense[] }> {
+  const [lineItems, expenses] = await Promise.all([
+    supabase
+      .from('budget_line_items')
+      .select('id, category, description, proposed_amount, awarded_amount')
+      .eq('budget_id', budgetId)
+      .order('line_number', { ascending: true, nullsFirst: false }),
+    // Matches how grant_budgets.total_spent is kept
+    supabase
+      .from('disbursements')
+      .select('amount, disbursement_date, category, line_item_id')
+      .eq('budget_id', budgetId)
+      .eq('disbursement_type', 'expense')
+      .eq('approved', true),
+  ]);
+
+  for (const result of [lineItems, expenses]) {
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  // NUMERIC columns come back as strings
+  return {
+    lineItems: (lineItems.data || []).map((item) => ({
+      ...item,
+      proposed_amount: Number(item.proposed_amount),
+      awarded_amount: Number(item.awarded_amount),
+    })),
+    expenses: (expenses.data || []).map((expense) => ({
+      ...expense,
+      amount: Number(expense.amount),
+    })),
+  };
+}
+
+/**
+ * Budget revisions of a budget with their lines and the names of who
+ * requested and decided them, newest first
+ */
+export async function fetchBudgetRevisions(supabase: SupabaseClient, budgetId: string) {
+  const { data, error } = await supabase
+    .from('budget_revisions')
+    .select(
+      '*, lines:budget_revision_lines (id, line_item_id, category, description, before_amount, after_amount)',
+    )
+    .eq('budget_id', budgetId)
+    .order('requested_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const revisions = data || [];
+  const userIds = [
+    ...new Set(revisions.flatMap((revision) => [revision.requested_by, revision.decided_by])),
+  ].filter(Boolean);
+
+  const { data: profiles } = userIds.length
+    ? await supabase.from('user_profiles').select('id, full_name').in('id', userIds)
+    : { data: [] };
+  const names = new Map((profiles || []).map((profile) => [profile.id, profile.full_name]));
+
+  return revisions.map((revision) => ({
+    ...revision,
+    before_total: Number(revision.before_total),
+    after_total: Number(revision.after_total),
+    transfer_percent: Number(revision.transfer_percent),
+    threshold_percent: Number(revision.threshold_percent),
+    requested_by_name: names.get(revision.requested_by) || null,
+    decided_by_name: revision.decided_by ? names.get(revision.decided_by) || null : null,
+    lines: (revision.lines || []).map((line: any) => ({
+      ...line,
+      before_amount: Number(line.before_amount),
+      after_amount: Number(line.after_amount),
+    })),
+  }));
+}
+
+/**
+ * Write an approved revision's amounts to the budget's line items, and move
+ * the budget's total by any change in the revision's total
+ *
+ * @returns Error message when a line item changed since the revision was
+ *   requested, or null once applied
+ */
+export async function applyBudgetRevision(
+  supabase: SupabaseClient,
+  budget: { id: string; awarded_amount: number | string; proposed_amount: number | string },
+  lines: Array<{
+    line_item_id: string | null;
+    description: string;
+    before_amount: number;
+    after_amount: number;
+  }>,
+): Promise<string | null> {
+  const column = budgetedAmountColumn(budget);
+  const lineItemIds = lines.map((line) => line.line_item_id).filter((id): id is string => !!id);
+
+  const { data: current, error: fetchError } = await supabase
+    .from('budget_line_items')
+    .select('id, proposed_amount, awarded_amount')
+    .eq('budget_id', budget.id)
+    .in('id', lineItemIds);
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const currentById = new Map((current || []).map((item) => [item.id, Number(item[column])]));
+  for (const line of lines) {
+    if (!line.line_item_id || !currentById.has(line.line_item_id)) {
+      return `The line item "${line.description}" no longer exists`;
+    }
+    if (roundCents(currentById.get(line.line_item_id)!) !== roundCents(line.before_amount)) {
+      return `The budget for "${line.description}" changed after the revision was requested`;
+    }
+  }
+
+  for (const line of lines) {
+    const { error } = await supabase
+      .from('budget_line_items')
+      .update({ [column]: line.after_amount, updated_at: new Date().toISOString() })
+      .eq('id', line.line_item_id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  const change = lines.reduce((sum, line) => sum + line.after_amount - line.before_amount, 0);
+  if (roundCents(change) !== 0) {
+    const { error } = await supabase
+      .from('grant_budgets')
+      .update({
+        [column]: roundCents(Number(budget[column]) + change),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', budget.id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  return null;
+}
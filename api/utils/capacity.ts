@@ -0,0 +1,499 @@
+/**
+ * Team Capacity Forecast
+ *
+ * Projects each member's workload over the coming weeks and compares it with
+ * their weekly capacity.
+ *
+ * - Open tasks count for their type's effort (hours), spread evenly over the
+ *   working days before they are due. The window is the task's
+ *   `estimated_days`, or two weeks when unset. Overdue tasks land in the
+ *   current week. Undated tasks fall back to the grant's internal deadline or
+ *   close date; failing that they are reported as unscheduled.
+ * - Grants being drafted also carry the effort for their source (e.g. a
+ *   Grants.gov application), less the effort already broken out into tasks,
+ *   spread from today to the grant's deadline for its owner.
+ *
+ * Overbooked weeks are those where load exceeds capacity. Reassignments are
+ * suggested greedily: the largest tasks in an overbooked week move to the
+ * teammate who stays furthest under capacity while the task is being worked.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decidedStageKeys, type PipelineStage } from './pipeline-stages.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FORECAST_WEEKS = 12;
+export const DEFAULT_WEEKLY_HOURS = 40;
+const DEFAULT_TASK_WINDOW_DAYS = 14;
+const MAX_SUGGESTIONS = 20;
+
+// Grants whose remaining application effort counts against their owner
+export const COMMITTED_STAGES = ['drafting'];
+
+/**
+ * Stages that no longer generate work: submitted, and every decided stage
+ */
+export function closedStageKeys(stages: PipelineStage[]): string[] {
+  return ['submitted', ...decidedStageKeys(stages)];
+}
+
+export const DEFAULT_TASK_TYPE_HOURS: Record<string, number> = {
+  research: 4,
+  budget: 8,
+  narrative: 16,
+  letters: 4,
+  documents: 4,
+  submission: 4,
+  custom: 4,
+};
+
+export const DEFAULT_GRANT_SOURCE_HOURS: Record<string, number> = {
+  'grants.gov': 60,
+  custom: 30,
+};
+
+export interface EffortSettings {
+  task_type_hours: Record<string, number>;
+  grant_source_hours: Record<string, number>;
+}
+
+export interface CapacityMember {
+  user_id: string;
+  name: string;
+  weekly_capacity: number;
+}
+
+export interface CapacityTask {
+  id: string;
+  grant_id: string;
+  title: string;
+  task_type: string;
+  status: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  estimated_days: number | null;
+}
+
+export interface CapacityGrant {
+  id: string;
+  title: string;
+  status: string;
+  external_source: string | null;
+  assigned_to: string | null;
+  internal_deadline: string | null;
+  close_date: string | null;
+}
+
+export interface MemberForecast {
+  user_id: string;
+  name: string;
+  weekly_capacity: number;
+  load: number[];
+  utilization: (number | null)[];
+  overbooked_weeks: number[];
+  peak_utilization: number | null;
+  unscheduled_hours: number;
+}
+
+export interface ReassignmentSuggestion {
+  task_id: string;
+  task_title: string;
+  grant_id: string;
+  grant_title: string;
+  hours: number;
+  from_user_id: string;
+  to_user_id: string;
+  week_start: string;
+}
+
+export interface CandidateImpact {
+  grant_id: string;
+  title: string;
+  already_committed: boolean;
+  owner_id: string | null;
+  hours: number;
+  added: number[];
+  newly_overbooked_weeks: number[];
+}
+
+export interface CapacityForecast {
+  weeks: string[];
+  members: MemberForecast[];
+  unassigned: { load: number[]; unscheduled_hours: number };
+  suggestions: ReassignmentSuggestion[];
+  candidate: CandidateImpact | null;
+}
+
+function toDay(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function isWorkday(day: number): boolean {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+// Monday of the week containing the day
+function weekStart(day: number): number {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return day - ((weekday + 6) % 7);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Spread hours evenly over the working days from start to end (inclusive) and
+ * total them per forecast week. Work due before today lands in the first week.
+ */
+export function distributeHours(
+  hours: number,
+  startDay: number,
+  endDay: number,
+  firstWeek: number,
+  today: number,
+): number[] {
+  const buckets = new Array(FORECAST_WEEKS).fill(0);
+  if (hours <= 0) {
+    return buckets;
+  }
+
+  if (endDay < today) {
+    buckets[0] = hours;
+    return buckets;
+  }
+
+  const days: number[] = [];
+  for (let day = Math.max(startDay, today); day <= endDay; day++) {
+    if (isWorkday(day)) {
+      days.push(day);
+    }
+  }
+  if (days.length === 0) {
+    days.push(Math.max(startDay, today, Math.min(endDay, today)));
+  }
+
+  const perDay = hours / days.length;
+  days.forEach((day) => {
+    const week = Math.floor((day - firstWeek) / 7);
+    if (week >= 0 && week < FORECAST_WEEKS) {
+      buckets[week] += perDay;
+    }
+  });
+  return buckets;
+}
+
+function grantDeadline(grant: CapacityGrant | undefined): number | null {
+  return grant ? (toDay(grant.internal_deadline) ?? toDay(grant.close_date)) : null;
+}
+
+function taskHours(task: CapacityTask, effort: EffortSettings): number {
+  return (
+    effort.task_type_hours[task.task_type] ??
+    effort.task_type_hours.custom ??
+    DEFAULT_TASK_TYPE_HOURS.custom
+  );
+}
+
+function grantHours(grant: CapacityGrant, effort: EffortSettings): number {
+  const source = grant.external_source || 'custom';
+  return (
+    effort.grant_source_hours[source] ??
+    effort.grant_source_hours.custom ??
+    DEFAULT_GRANT_SOURCE_HOURS.custom
+  );
+}
+
+/**
+ * Weekly load of a grant's application effort not yet broken out into tasks
+ */
+function residualGrantLoad(
+  grant: CapacityGrant,
+  grantTasks: CapacityTask[],
+  effort: EffortSettings,
+  firstWeek: number,
+  today: number,
+): { hours: number; load: number[] } | null {
+  const deadline = grantDeadline(grant);
+  if (deadline === null || deadline < today) {
+    return null;
+  }
+  const taskTotal = grantTasks.reduce((sum, task) => sum + taskHours(task, effort), 0);
+  const hours = Math.max(0, grantHours(grant, effort) - taskTotal);
+  return { hours, load: distributeHours(hours, today, deadline, firstWeek, today) };
+}
+
+function utilizationOf(load: number, capacity: number): number | null {
+  if (capacity <= 0) {
+    return load > 0 ? null : 0;
+  }
+  return load / capacity;
+}
+
+function isOverbooked(load: number, capacity: number): boolean {
+  return load > capacity + 0.05;
+}
+
+/**
+ * Forecast workload and suggest reassignments
+ *
+ * @param candidateGrantId - A grant not yet committed to (e.g. at go/no-go)
+ *   whose application effort is added on top of the forecast
+ */
+export function buildCapacityForecast(
+  members: CapacityMember[],
+  grants: CapacityGrant[],
+  tasks: CapacityTask[],
+  effort: EffortSettings,
+  now: Date = new Date(),
+  candidateGrantId?: string,
+): CapacityForecast {
+  const today = Math.floor(now.getTime() / DAY_MS);
+  const firstWeek = weekStart(today);
+  const weeks = Array.from({ length: FORECAST_WEEKS }, (_, i) => formatDay(firstWeek + i * 7));
+
+  const grantsById = new Map(grants.map((grant) => [grant.id, grant]));
+  const memberIds = new Set(members.map((member) => member.user_id));
+  const loads = new Map<string, number[]>(
+    members.map((m) => [m.user_id, new Array(FORECAST_WEEKS).fill(0)]),
+  );
+  const unscheduled = new Map<string, number>();
+  const unassignedLoad = new Array(FORECAST_WEEKS).fill(0);
+  const taskLoads = new Map<string, number[]>();
+
+  const addLoad = (userId: string | null, load: number[]) => {
+    const target = userId && memberIds.has(userId) ? loads.get(userId)! : unassignedLoad;
+    load.forEach((hours, week) => {
+      target[week] += hours;
+    });
+  };
+
+  // Open tasks of grants still being worked (callers leave out closed grants)
+  const openTasks = tasks.filter(
+    (task) => task.status !== 'completed' && grantsById.has(task.grant_id),
+  );
+
+  openTasks.forEach((task) => {
+    const hours = taskHours(task, effort);
+    const end = toDay(task.due_date) ?? grantDeadline(grantsById.get(task.grant_id));
+    if (end === null) {
+      const key = task.assigned_to && memberIds.has(task.assigned_to) ? task.assigned_to : '';
+      unscheduled.set(key, (unscheduled.get(key) || 0) + hours);
+      return;
+    }
+    const windowDays =
+      task.estimated_days && task.estimated_days > 0
+        ? task.estimated_days
+        : DEFAULT_TASK_WINDOW_DAYS;
+    const load = distributeHours(hours, end - windowDays + 1, end, firstWeek, today);
+    taskLoads.set(task.id, load);
+    addLoad(task.assigned_to, load);
+  });
+
+  // Remaining application effort on committed grants
+  const tasksByGrant = new Map<string, CapacityTask[]>();
+  tasks.forEach((task) => {
+    tasksByGrant.set(task.grant_id, [...(tasksByGrant.get(task.grant_id) || []), task]);
+  });
+
+  grants
+    .filter((grant) => COMMITTED_STAGES.includes(grant.status))
+    .forEach((grant) => {
+      const residual = residualGrantLoad(
+        grant,
+        tasksByGrant.get(grant.id) || [],
+        effort,
+        firstWeek,
+        today,
+      );
+      if (residual) {
+        addLoad(grant.assigned_to, residual.load);
+      }
+    });
+
+  // Reassignment suggestions, applied to a copy of the loads as they are made
+  const suggestions: ReassignmentSuggestion[] = [];
+  const working = new Map(Array.from(loads.entries()).map(([id, load]) => [id, [...load]]));
+  const capacity = new Map(members.map((m) => [m.user_id, m.weekly_capacity]));
+  const moved = new Set<string>();
+
+  const overbookedMembers = members
+    .filter((m) => working.get(m.user_id)!.some((load) => isOverbooked(load, m.weekly_capacity)))
+    .sort((a, b) => Math.max(...working.get(b.user_id)!) - Math.max(...working.get(a.user_id)!));
+
+  for (const member of overbookedMembers) {
+    const memberLoad = working.get(member.user_id)!;
+
+    for (let week = 0; week < FORECAST_WEEKS && suggestions.length < MAX_SUGGESTIONS; week++) {
+      const movable = openTasks
+        .filter((task) => task.assigned_to === member.user_id && !moved.has(task.id))
+        .filter((task) => (taskLoads.get(task.id)?.[week] || 0) > 0)
+        .sort((a, b) => taskLoads.get(b.id)![week] - taskLoads.get(a.id)![week]);
+
+      for (const task of movable) {
+        if (
+          !isOverbooked(memberLoad[week], member.weekly_capacity) ||
+          suggestions.length >= MAX_SUGGESTIONS
+        ) {
+          break;
+        }
+
+        const load = taskLoads.get(task.id)!;
+        const activeWeeks = load.map((hours, i) => (hours > 0 ? i : -1)).filter((i) => i >= 0);
+
+        // Teammate with the lowest peak utilization after taking the task
+        let best: { userId: string; peak: number } | null = null;
+        for (const other of members) {
+          const otherCapacity = capacity.get(other.user_id) || 0;
+          if (other.user_id === member.user_id || otherCapacity <= 0) {
+            continue;
+          }
+          const otherLoad = working.get(other.user_id)!;
+          const fits = activeWeeks.every(
+            (i) => !isOverbooked(otherLoad[i] + load[i], otherCapacity),
+          );
+          if (!fits) {
+            continue;
+          }
+          const peak = Math.max(
+            ...activeWeeks.map((i) => (otherLoad[i] + load[i]) / otherCapacity),
+          );
+          if (!best || peak < best.peak) {
+            best = { userId: other.user_id, peak };
+          }
+        }
+
+        if (!best) {
+          continue;
+        }
+
+        const targetLoad = working.get(best.userId)!;
+        load.forEach((hours, i) => {
+          memberLoad[i] -= hours;
+          targetLoad[i] += hours;
+        });
+        moved.add(task.id);
+
+        const grant = grantsById.get(task.grant_id);
+        suggestions.push({
+          task_id: task.id,
+          task_title: task.title,
+          grant_id: task.grant_id,
+          grant_title: grant?.title || '',
+          hours: round(taskHours(task, effort)),
+          from_user_id: member.user_id,
+          to_user_id: best.userId,
+          week_start: weeks[week],
+        });
+      }
+    }
+  }
+
+  // What-if: take on another grant
+  let candidate: CandidateImpact | null = null;
+  const candidateGrant = candidateGrantId ? grantsById.get(candidateGrantId) : undefined;
+  if (candidateGrant) {
+    const alreadyCommitted = COMMITTED_STAGES.includes(candidateGrant.status);
+    const residual = alreadyCommitted
+      ? null
+      : residualGrantLoad(
+          candidateGrant,
+          tasksByGrant.get(candidateGrant.id) || [],
+          effort,
+          firstWeek,
+          today,
+        );
+    const added = residual ? residual.load : new Array(FORECAST_WEEKS).fill(0);
+    const ownerId =
+      candidateGrant.assigned_to && memberIds.has(candidateGrant.assigned_to)
+        ? candidateGrant.assigned_to
+        : null;
+    const ownerLoad = ownerId ? loads.get(ownerId)! : null;
+    const ownerCapacity = ownerId ? capacity.get(ownerId) || 0 : 0;
+
+    candidate = {
+      grant_id: candidateGrant.id,
+      title: candidateGrant.title,
+      already_committed: alreadyCommitted,
+      owner_id: ownerId,
+      hours: round(residual?.hours || 0),
+      added: added.map(round),
+      newly_overbooked_weeks: ownerLoad
+        ? added
+            .map((hours, i) =>
+              hours > 0 &&
+              !isOverbooked(ownerLoad[i], ownerCapacity) &&
+              isOverbooked(ownerLoad[i] + hours, ownerCapacity)
+                ? i
+                : -1,
+            )
+            .filter((i) => i >= 0)
+        : [],
+    };
+  }
+
+  return {
+    weeks,
+    members: members.map((member) => {
+      const load = loads.get(member.user_id)!;
+      const utilization = load.map((hours) => utilizationOf(hours, member.weekly_capacity));
+      const known = utilization.filter((value): value is number => value !== null);
+      return {
+        user_id: member.user_id,
+        name: member.name,
+        weekly_capacity: member.weekly_capacity,
+        load: load.map(round),
+        utilization: utilization.map((value) =>
+          value === null ? null : Math.round(value * 100) / 100,
+        ),
+        overbooked_weeks: load
+          .map((hours, i) => (isOverbooked(hours, member.weekly_capacity) ? i : -1))
+          .filter((i) => i >= 0),
+        peak_utilization: known.length > 0 ? Math.round(Math.max(...known) * 100) / 100 : null,
+        unscheduled_hours: round(unscheduled.get(member.user_id) || 0),
+      };
+    }),
+    unassigned: {
+      load: unassignedLoad.map(round),
+      unscheduled_hours: round(unscheduled.get('') || 0),
+    },
+    suggestions,
+    candidate,
+  };
+}
+
+/**
+ * The organization's effort estimates, falling back to the defaults
+ */
+export async function fetchEffortSettings(
+  supabase: SupabaseClient,
+  orgId: string,
+): Promise<EffortSettings> {
+  const { data } = await supabase
+    .from('workload_effort_estimates')
+    .select('kind, key, hours')
+    .eq('org_id', orgId);
+
+  const settings: EffortSettings = {
+    task_type_hours: { ...DEFAULT_TASK_TYPE_HOURS },
+    grant_source_hours: { ...DEFAULT_GRANT_SOURCE_HOURS },
+  };
+
+  (data || []).forEach((row) => {
+    const target =
+      row.kind === 'task_type' ? settings.task_type_hours : settings.grant_source_hours;
+    target[row.key] = Number(row.hours);
+  });
+
+  return settings;
+}
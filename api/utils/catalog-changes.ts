@@ -0,0 +1,83 @@
+/**
+ * Catalog Change Notifications
+ *
+ * Sends grant.catalog_changed for catalog versions recorded by the sync to
+ * every org that has the grant saved (org_grants_saved.catalog_grant_id).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CatalogChange, CatalogFieldChange } from '../../lib/grants/types.js';
+import { sendNotifications } from './notifications.js';
+
+// Unnotified versions handled per call; the rest wait for the next sync run
+const BATCH_SIZE = 200;
+
+// Long text is summarized as "changed" rather than sent in full
+const OMITTED_VALUE_FIELDS = new Set(['description']);
+
+function toNotificationChanges(changes: CatalogFieldChange[]): CatalogFieldChange[] {
+  return changes.map((change) =>
+    OMITTED_VALUE_FIELDS.has(change.field)
+      ? { field: change.field, old_value: null, new_value: null }
+      : change,
+  );
+}
+
+/**
+ * Notify orgs tracking grants whose catalog record changed, then mark the
+ * versions as notified
+ *
+ * @returns Number of notifications sent
+ */
+export async function notifyCatalogChanges(supabase: SupabaseClient): Promise<number> {
+  const { data: changes, error } = await supabase
+    .from('grants_catalog_changes')
+    .select('id, catalog_grant_id, version, changes, changed_at')
+    .is('notified_at', null)
+    .order('changed_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('[CatalogChanges] Error fetching unnotified changes:', error);
+    return 0;
+  }
+
+  const origin = process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : 'https://grantcue.com';
+  let sent = 0;
+
+  for (const change of (changes || []) as CatalogChange[]) {
+    const { data: savedGrants } = await supabase
+      .from('org_grants_saved')
+      .select('id, org_id, title, agency, close_date')
+      .eq('catalog_grant_id', change.catalog_grant_id);
+
+    for (const saved of savedGrants || []) {
+      await sendNotifications({
+        event: 'grant.catalog_changed',
+        org_id: saved.org_id,
+        grant_id: saved.id,
+        grant_title: saved.title,
+        grant_agency: saved.agency || undefined,
+        grant_deadline: saved.close_date || undefined,
+        action_url: `${origin}/grants/${saved.id}`,
+        metadata: {
+          catalog_grant_id: change.catalog_grant_id,
+          catalog_version: change.version,
+          changed_at: change.changed_at,
+          changed_fields: change.changes.map((c) => c.field),
+          changes: toNotificationChanges(change.changes),
+        },
+      });
+      sent++;
+    }
+
+    await supabase
+      .from('grants_catalog_changes')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('id', change.id);
+  }
+
+  return sent;
+}
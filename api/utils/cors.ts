@@ -78,7 +78,7 @@ export function setCorsHeaders(
   // Set allowed headers
   res.setHeader(
     'Access-Control-Allow-Headers',
-    options?.headers || 'Content-Type, Authorization'
+    options?.headers || 'Content-Type, Authorization, X-API-Key'
   );
 }
 
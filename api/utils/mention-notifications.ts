@@ -0,0 +1,92 @@
+/**
+ * Mention Notifications
+ *
+ * Tells users they were @mentioned in a grant or task comment by email,
+ * Slack and Teams, as their notification preferences allow. The in-app
+ * mention feed (mention_notifications) is filled by a database trigger.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateMentionEmail } from '../../lib/emails/mention-template.js';
+import { notifyUser } from './notifications.js';
+import { fetchNotificationPreferences } from './notification-preferences.js';
+
+interface MentionContext {
+  org_id: string;
+  grant_id: string;
+  author_id: string;
+  mentioned_user_ids: string[];
+  content: string;
+  context_type: 'grant' | 'task';
+  context_title: string;
+}
+
+/**
+ * Comment text with @[Name](user-id) markup turned into @Name
+ */
+function plainMentionText(content: string): string {
+  return content.replace(/@\[([^\]]+)\]\([a-f0-9-]+\)/g, '@$1');
+}
+
+/**
+ * Notify everyone mentioned in a new comment except its author
+ *
+ * Failures are logged; a comment is never rejected because a notification
+ * could not be sent.
+ */
+export async function notifyMentionedUsers(
+  supabase: SupabaseClient,
+  context: MentionContext,
+): Promise<void> {
+  const recipients = context.mentioned_user_ids.filter((id) => id !== context.author_id);
+  if (recipients.length === 0) {
+    return;
+  }
+
+  try {
+    const [{ data: author }, { data: org }, { data: profiles }, preferences] = await Promise.all([
+      supabase.from('user_profiles').select('full_name').eq('id', context.author_id).maybeSingle(),
+      supabase.from('organizations').select('name').eq('id', context.org_id).maybeSingle(),
+      supabase.from('user_profiles').select('id, full_name').in('id', recipients),
+      fetchNotificationPreferences(supabase, context.org_id, recipients),
+    ]);
+
+    const authorName = author?.full_name || 'A team member';
+    const commentText = plainMentionText(context.content);
+    const subject = `${authorName} mentioned you on ${context.context_title}`;
+
+    for (const userId of recipients) {
+      const recipientName =
+        profiles?.find((profile) => profile.id === userId)?.full_name || 'there';
+
+      await notifyUser(
+        supabase,
+        {
+          user_id: userId,
+          org_id: context.org_id,
+          event: 'mention',
+          title: subject,
+          message: commentText.length > 200 ? `${commentText.slice(0, 200)}…` : commentText,
+          action_url: `/grants/${context.grant_id}`,
+          grant_id: context.grant_id,
+          email: {
+            from: 'GrantCue <notifications@grantcue.com>',
+            subject,
+            html: generateMentionEmail({
+              recipient_name: recipientName,
+              author_name: authorName,
+              comment_text: commentText,
+              context_title: context.context_title,
+              context_type: context.context_type,
+              grant_id: context.grant_id,
+              org_name: org?.name || 'your organization',
+            }),
+          },
+        },
+        preferences.get(userId),
+      );
+    }
+  } catch (error) {
+    console.error('[Mentions] Failed to notify mentioned users:', error);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Notification Preferences
+ *
+ * Each user picks, per organization, which channels (email, in-app, Slack,
+ * Teams) each kind of event reaches them on, whether it is delivered right
+ * away or left for the digest, and quiet hours in their own time zone.
+ * Held emails wait in notification_outbox until the user's hourly or daily
+ * digest; urgent items skip the digest but still wait out quiet hours.
+ * Stored sparsely in notification_preferences.routing; anything not stored
+ * falls back to DEFAULT_ROUTES, which match how notifications were sent
+ * before preferences existed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'task_assigned',
+  'mention',
+  'approval_requested',
+  'deadline_external',
+  'deadline_loi',
+  'deadline_internal',
+  'deadline_recurring',
+  'alert_match',
+] as const;
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+export const NOTIFICATION_CHANNELS = ['email', 'in_app', 'slack', 'teams'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export type NotificationDelivery = 'immediate' | 'digest';
+
+export type DigestFrequency = 'hourly' | 'daily';
+
+export interface NotificationRoute {
+  email: boolean;
+  in_app: boolean;
+  slack: boolean;
+  teams: boolean;
+  delivery: NotificationDelivery;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  org_id: string;
+  routes: Record<NotificationEventType, NotificationRoute>;
+  // 'HH:MM' in the user's time zone; both null when quiet hours are off
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  digest_frequency: DigestFrequency;
+  // Hour of the day (user's time zone) the daily digest goes out
+  digest_hour: number;
+  last_digest_at: string | null;
+}
+
+export const PREFERENCE_COLUMNS =
+  'routing, quiet_hours_start, quiet_hours_end, timezone, digest_frequency, digest_hour, last_digest_at';
+
+/**
+ * 'send' delivers now, 'hold' keeps it off the channel for now (digest
+ * delivery or quiet hours; in-app is never held), 'off' means the user
+ * doesn't want this event on the channel
+ */
+export type ChannelDecision = 'send' | 'hold' | 'off';
+
+const PERSONAL_ROUTE: NotificationRoute = {
+  email: true,
+  in_app: true,
+  slack: false,
+  teams: false,
+  delivery: 'immediate',
+};
+
+// Task assignments were already announced in the org's Slack/Teams channel
+export const DEFAULT_ROUTES: Record<NotificationEventType, NotificationRoute> = {
+  task_assigned: { ...PERSONAL_ROUTE, slack: true, teams: true },
+  mention: PERSONAL_ROUTE,
+  approval_requested: PERSONAL_ROUTE,
+  deadline_external: PERSONAL_ROUTE,
+  deadline_loi: PERSONAL_ROUTE,
+  deadline_internal: PERSONAL_ROUTE,
+  deadline_recurring: PERSONAL_ROUTE,
+  alert_match: PERSONAL_ROUTE,
+};
+
+/**
+ * Preferences from a stored row (or none), filled in with the defaults
+ */
+export function resolvePreferences(
+  row: {
+    routing?: Partial<Record<string, Partial<NotificationRoute>>> | null;
+    quiet_hours_start?: string | null;
+    quiet_hours_end?: string | null;
+    timezone?: string | null;
+    digest_frequency?: DigestFrequency | null;
+    digest_hour?: number | null;
+    last_digest_at?: string | null;
+  } | null,
+  userId: string,
+  orgId: string,
+): NotificationPreferences {
+  const routes = {} as Record<NotificationEventType, NotificationRoute>;
+  for (const event of NOTIFICATION_EVENT_TYPES) {
+    routes[event] = { ...DEFAULT_ROUTES[event], ...(row?.routing?.[event] || {}) };
+  }
+
+  return {
+    user_id: userId,
+    org_id: orgId,
+    routes,
+    // TIME columns come back as HH:MM:SS
+    quiet_hours_start: row?.quiet_hours_start?.slice(0, 5) || null,
+    quiet_hours_end: row?.quiet_hours_end?.slice(0, 5) || null,
+    timezone: row?.timezone || 'UTC',
+    digest_frequency: row?.digest_frequency || 'daily',
+    digest_hour: row?.digest_hour ?? 8,
+    last_digest_at: row?.last_digest_at || null,
+  };
+}
+
+/**
+ * Preferences of several users in an organization, keyed by user ID
+ *
+ * Every requested user gets an entry; users who never saved preferences get
+ * the defaults.
+ */
+export async function fetchNotificationPreferences(
+  supabase: SupabaseClient,
+  orgId: string,
+  userIds: string[],
+): Promise<Map<string, NotificationPreferences>> {
+  const preferences = new Map<string, NotificationPreferences>();
+  if (userIds.length === 0) {
+    return preferences;
+  }
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select(`user_id, ${PREFERENCE_COLUMNS}`)
+    .eq('org_id', orgId)
+    .in('user_id', userIds);
+
+  if (error) {
+    console.error('[Notification Preferences] Error fetching preferences:', error);
+  }
+
+  const rows = new Map((data || []).map((row) => [row.user_id, row]));
+  for (const userId of userIds) {
+    preferences.set(userId, resolvePreferences(rows.get(userId) || null, userId, orgId));
+  }
+
+  return preferences;
+}
+
+/**
+ * Calendar date and minutes past midnight of a time in a time zone
+ */
+function localTime(date: Date, timeZone: string): { date: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    // Unknown time zone
+    return {
+      date: date.toISOString().slice(0, 10),
+      minutes: date.getUTCHours() * 60 + date.getUTCMinutes(),
+    };
+  }
+
+  const value = (type: string) => parts.find((part) => part.type === type)?.value || '0';
+  return {
+    date: `${value('year')}-${value('month')}-${value('day')}`,
+    minutes: Number(value('hour')) * 60 + Number(value('minute')),
+  };
+}
+
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether it is currently within the user's quiet hours
+ *
+ * Quiet hours may wrap past midnight (e.g. 22:00–07:00).
+ */
+export function isQuietHours(
+  preferences: NotificationPreferences,
+  now: Date = new Date(),
+): boolean {
+  if (!preferences.quiet_hours_start || !preferences.quiet_hours_end) {
+    return false;
+  }
+
+  const start = parseMinutes(preferences.quiet_hours_start);
+  const end = parseMinutes(preferences.quiet_hours_end);
+  const current = localTime(now, preferences.timezone).minutes;
+
+  if (start === end) {
+    return false;
+  }
+
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Whether the user's held emails should go out as a digest now
+ *
+ * Hourly digests go out on every run; daily digests once a day from
+ * digest_hour on. Urgent items go out on the first run after quiet hours.
+ */
+export function isDigestDue(
+  preferences: NotificationPreferences,
+  hasUrgent: boolean,
+  now: Date = new Date(),
+): boolean {
+  if (isQuietHours(preferences, now)) {
+    return false;
+  }
+
+  if (hasUrgent || preferences.digest_frequency === 'hourly') {
+    return true;
+  }
+
+  const today = localTime(now, preferences.timezone);
+  if (today.minutes < preferences.digest_hour * 60) {
+    return false;
+  }
+
+  return (
+    !preferences.last_digest_at ||
+    localTime(new Date(preferences.last_digest_at), preferences.timezone).date < today.date
+  );
+}
+
+/**
+ * How an event should reach a user on a channel right now
+ *
+ * In-app notifications are silent, so they are never held for quiet hours
+ * or the digest. Urgent events skip the digest but not quiet hours.
+ */
+export function routeChannel(
+  preferences: NotificationPreferences,
+  event: NotificationEventType,
+  channel: NotificationChannel,
+  now: Date = new Date(),
+  urgent: boolean = false,
+): ChannelDecision {
+  const route = preferences.routes[event];
+
+  if (!route[channel]) {
+    return 'off';
+  }
+
+  if (channel === 'in_app') {
+    return 'send';
+  }
+
+  return (route.delivery === 'digest' && !urgent) || isQuietHours(preferences, now)
+    ? 'hold'
+    : 'send';
+}
@@ -2,17 +2,95 @@
  * Notification Utility
  *
  * Handles sending notifications to Slack, Teams, and custom webhooks
- * for grant-related events
+ * for grant-related events, and notifications addressed to a single user
+ * (email, in-app, Slack, Teams) routed by that user's notification
+ * preferences. Emails the user holds back are queued in the notification
+ * outbox for their digest. Webhooks feed other systems and ignore user
+ * preferences.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
+import { Resend } from 'resend';
+import { formatCatalogValue, getCatalogFieldLabel } from '../../lib/grants/catalog-history.js';
+import type { CatalogFieldChange } from '../../lib/grants/types.js';
+import { queueWebhookDelivery } from './webhook-delivery.js';
+import {
+  buildWebhookEnvelope,
+  isWebhookPayloadVersion,
+  type WebhookEventData,
+  type WebhookEventType,
+} from './webhook-events.js';
+import {
+  fetchNotificationPreferences,
+  routeChannel,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from './notification-preferences.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const resendApiKey = process.env.RESEND_API_KEY;
 
-interface NotificationPayload {
-  event: string;
+/**
+ * Channel events that are about a single user (assigned_to_id); the org's
+ * Slack/Teams post goes out only when that user routes the event there
+ */
+const USER_CHANNEL_EVENTS: Partial<Record<WebhookEventType, NotificationEventType>> = {
+  'grant.task_assigned': 'task_assigned',
+};
+
+export type InAppNotificationType =
+  | 'grant_alert'
+  | 'deadline_reminder'
+  | 'task_assigned'
+  | 'team_update'
+  | 'system';
+
+export interface UserNotification {
+  user_id: string;
+  org_id: string;
+  event: NotificationEventType;
+  title: string;
+  message: string;
+  // Path in the app, e.g. /grants/:id
+  action_url: string;
+  // Saved grant the notification is about; groups it in the digest
+  grant_id?: string;
+  // Skips digest delivery (same-day deadlines, approval requests)
+  urgent?: boolean;
+  // Left out when the in-app notification is created elsewhere (mentions and
+  // approval requests are created by database triggers)
+  in_app?: {
+    type: InAppNotificationType;
+    related_grant_id?: string;
+    related_task_id?: string;
+    metadata?: Record<string, any>;
+  };
+  // Left out for events without an email
+  email?: {
+    from: string;
+    subject: string;
+    html: string;
+    // Looked up from the user's account when not given
+    to?: string;
+  };
+  // What goes into the digest when the email is held; one item for the
+  // whole notification when left out
+  digest_items?: DigestItem[];
+}
+
+export interface DigestItem {
+  grant_id?: string;
+  title: string;
+  message: string;
+  action_url: string;
+}
+
+export type DeliveryResult = 'sent' | 'held' | 'off' | 'failed';
+
+export interface NotificationPayload {
+  event: WebhookEventType;
   org_id: string;
   grant_id: string;
   grant_title: string;
@@ -36,6 +114,18 @@ interface TeamsMessage {
   attachments: any[];
 }
 
+/**
+ * One line per changed catalog field for grant.catalog_changed
+ */
+function formatCatalogChanges(payload: NotificationPayload): string[] {
+  const changes: CatalogFieldChange[] = payload.metadata?.changes || [];
+  return changes.map((change) =>
+    change.old_value === null && change.new_value === null
+      ? `${getCatalogFieldLabel(change.field)} changed`
+      : `${getCatalogFieldLabel(change.field)}: ${formatCatalogValue(change.field, change.old_value)} → ${formatCatalogValue(change.field, change.new_value)}`
+  );
+}
+
 /**
  * Format notification message for Slack
  */
@@ -105,6 +195,83 @@ function formatSlackMessage(payload: NotificationPayload): SlackMessage {
       });
       break;
 
+    case 'grant.catalog_changed':
+      emoji = '🔄';
+      text = `Opportunity changed: ${payload.grant_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *Opportunity Changed*\n\n*${payload.grant_title}*${payload.grant_agency ? `\n_${payload.grant_agency}_` : ''}\n${formatCatalogChanges(payload).map((line) => `• ${line}`).join('\n')}`,
+        },
+      });
+      break;
+
+    case 'grant.stage_changed':
+      emoji = '➡️';
+      text = `Stage changed: ${payload.grant_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *Stage Changed*\n\n*${payload.grant_title}*\n${payload.metadata?.from_stage} → *${payload.metadata?.to_stage}*`,
+        },
+      });
+      break;
+
+    case 'approval.requested':
+      emoji = '🙋';
+      text = `Approval requested: ${payload.grant_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *Approval Requested*\n\n*${payload.grant_title}*\n${payload.metadata?.from_stage} → ${payload.metadata?.to_stage} (level ${payload.metadata?.approval_level})`,
+        },
+      });
+      break;
+
+    case 'approval.approved':
+    case 'approval.rejected': {
+      const approved = payload.event === 'approval.approved';
+      emoji = approved ? '👍' : '👎';
+      text = `Approval ${approved ? 'granted' : 'rejected'}: ${payload.grant_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *Approval ${approved ? 'Granted' : 'Rejected'}*\n\n*${payload.grant_title}*\n${payload.metadata?.from_stage} → ${payload.metadata?.to_stage}${!approved && payload.metadata?.rejection_reason ? `\nReason: ${payload.metadata.rejection_reason}` : ''}`,
+        },
+      });
+      break;
+    }
+
+    case 'budget.created':
+    case 'budget.updated':
+      emoji = '💰';
+      text = `Budget ${payload.event === 'budget.created' ? 'created' : 'updated'}: ${payload.grant_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *Budget ${payload.event === 'budget.created' ? 'Created' : 'Updated'}*\n\n*${payload.grant_title}*\nStatus: ${payload.metadata?.status}\nProposed: $${Number(payload.metadata?.proposed_amount || 0).toLocaleString('en-US')}`,
+        },
+      });
+      break;
+
+    case 'compliance.requirement_created':
+    case 'compliance.requirement_completed':
+      emoji = payload.event === 'compliance.requirement_completed' ? '☑️' : '📑';
+      text = `${payload.event === 'compliance.requirement_completed' ? 'Compliance requirement completed' : 'Compliance requirement added'}: ${payload.metadata?.requirement_title}`;
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *${payload.event === 'compliance.requirement_completed' ? 'Compliance Requirement Completed' : 'Compliance Requirement Added'}*\n\n*${payload.metadata?.requirement_title}*\nGrant: ${payload.grant_title}${payload.metadata?.due_date ? `\n📅 Due: ${new Date(payload.metadata.due_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}` : ''}`,
+        },
+      });
+      break;
+
     default:
       text = `Grant event: ${payload.event}`;
       blocks.push({
@@ -175,6 +342,55 @@ function formatTeamsMessage(payload: NotificationPayload): TeamsMessage {
       text = payload.grant_title;
       break;
 
+    case 'grant.catalog_changed':
+      title = '🔄 Opportunity Changed';
+      color = 'FD7E14';
+      text = `${payload.grant_title}\n\n${formatCatalogChanges(payload).join('\n\n')}`;
+      break;
+
+    case 'grant.stage_changed':
+      title = '➡️ Stage Changed';
+      color = '0078D4';
+      text = `${payload.grant_title}\n\n${payload.metadata?.from_stage} → ${payload.metadata?.to_stage}`;
+      break;
+
+    case 'approval.requested':
+      title = '🙋 Approval Requested';
+      color = '7C3AED';
+      text = `${payload.grant_title}\n\n${payload.metadata?.from_stage} → ${payload.metadata?.to_stage}`;
+      break;
+
+    case 'approval.approved':
+      title = '👍 Approval Granted';
+      color = '28A745';
+      text = `${payload.grant_title}\n\n${payload.metadata?.from_stage} → ${payload.metadata?.to_stage}`;
+      break;
+
+    case 'approval.rejected':
+      title = '👎 Approval Rejected';
+      color = 'DC3545';
+      text = `${payload.grant_title}${payload.metadata?.rejection_reason ? `\n\nReason: ${payload.metadata.rejection_reason}` : ''}`;
+      break;
+
+    case 'budget.created':
+    case 'budget.updated':
+      title = payload.event === 'budget.created' ? '💰 Budget Created' : '💰 Budget Updated';
+      color = '20C997';
+      text = `${payload.grant_title}\n\nStatus: ${payload.metadata?.status}`;
+      break;
+
+    case 'compliance.requirement_created':
+      title = '📑 Compliance Requirement Added';
+      color = '0078D4';
+      text = `${payload.metadata?.requirement_title} - ${payload.grant_title}`;
+      break;
+
+    case 'compliance.requirement_completed':
+      title = '☑️ Compliance Requirement Completed';
+      color = '28A745';
+      text = `${payload.metadata?.requirement_title} - ${payload.grant_title}`;
+      break;
+
     default:
       title = payload.event;
       text = payload.grant_title;
@@ -243,118 +459,44 @@ function formatTeamsMessage(payload: NotificationPayload): TeamsMessage {
   };
 }
 
-/**
- * Sign webhook payload with secret
- */
-function signPayload(payload: string, secret: string): string {
-  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
-}
-
 /**
  * Send notification to a webhook endpoint
+ *
+ * Failed deliveries are queued for retry (see webhook-delivery.ts)
  */
 async function sendWebhook(
   webhook: any,
   payload: NotificationPayload,
   supabase: SupabaseClient
 ): Promise<void> {
-  const webhookPayload = {
-    event: payload.event,
-    timestamp: new Date().toISOString(),
-    data: {
-      grant_id: payload.grant_id,
-      grant_title: payload.grant_title,
-      grant_agency: payload.grant_agency,
-      grant_deadline: payload.grant_deadline,
-      task_id: payload.task_id,
-      task_title: payload.task_title,
-      assigned_to_id: payload.assigned_to_id,
-      assigned_to_name: payload.assigned_to_name,
-      action_url: payload.action_url,
-      ...payload.metadata,
-    },
-  };
-
-  const payloadString = JSON.stringify(webhookPayload);
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'User-Agent': 'GrantCue-Webhook/1.0',
-  };
-
-  // Add signature if secret is provided
-  if (webhook.secret) {
-    headers['X-Webhook-Signature'] = signPayload(payloadString, webhook.secret);
-  }
-
+  const data = {
+    grant_id: payload.grant_id,
+    grant_title: payload.grant_title,
+    grant_agency: payload.grant_agency,
+    grant_deadline: payload.grant_deadline,
+    task_id: payload.task_id,
+    task_title: payload.task_title,
+    assigned_to_id: payload.assigned_to_id,
+    assigned_to_name: payload.assigned_to_name,
+    action_url: payload.action_url,
+    ...payload.metadata,
+  } as WebhookEventData<typeof payload.event>;
+
+  // Payloads that break the event schema are dropped rather than delivered
+  let webhookPayload;
   try {
-    const response = await fetch(webhook.url, {
-      method: 'POST',
-      headers,
-      body: payloadString,
-    });
-
-    const responseBody = await response.text();
-
-    // Log delivery
-    await supabase.from('webhook_deliveries').insert({
-      webhook_id: webhook.id,
-      event_type: payload.event,
-      payload: webhookPayload,
-      response_status: response.status,
-      response_body: responseBody.substring(0, 1000), // Limit to 1000 chars
-      delivered_at: new Date().toISOString(),
-      error_message: response.ok ? null : `HTTP ${response.status}: ${responseBody.substring(0, 200)}`,
-    });
-
-    // Update webhook stats
-    if (response.ok) {
-      await supabase
-        .from('webhooks')
-        .update({
-          last_triggered_at: new Date().toISOString(),
-          total_deliveries: webhook.total_deliveries + 1,
-        })
-        .eq('id', webhook.id);
-    } else {
-      await supabase
-        .from('webhooks')
-        .update({
-          last_triggered_at: new Date().toISOString(),
-          total_deliveries: webhook.total_deliveries + 1,
-          failed_deliveries: webhook.failed_deliveries + 1,
-        })
-        .eq('id', webhook.id);
-    }
-
-    console.log(
-      `[Notifications] Webhook ${webhook.name} delivered with status ${response.status}`
+    webhookPayload = buildWebhookEnvelope(
+      isWebhookPayloadVersion(webhook.payload_version) ? webhook.payload_version : 1,
+      payload.event,
+      payload.org_id,
+      data
     );
   } catch (error) {
-    console.error(`[Notifications] Failed to send webhook ${webhook.name}:`, error);
-    // Import sanitizeError from error-handler
-    const { sanitizeError } = await import('../utils/error-handler.js');
-
-    // Log failed delivery
-    await supabase.from('webhook_deliveries').insert({
-      webhook_id: webhook.id,
-      event_type: payload.event,
-      payload: webhookPayload,
-      response_status: null,
-      response_body: null,
-      delivered_at: new Date().toISOString(),
-      error_message: sanitizeError(error),
-    });
-
-    // Update webhook stats
-    await supabase
-      .from('webhooks')
-      .update({
-        last_triggered_at: new Date().toISOString(),
-        total_deliveries: webhook.total_deliveries + 1,
-        failed_deliveries: webhook.failed_deliveries + 1,
-      })
-      .eq('id', webhook.id);
+    console.error(`[Webhooks] Not delivering to webhook ${webhook.name}:`, error);
+    return;
   }
+
+  await queueWebhookDelivery(supabase, webhook, payload.event, webhookPayload);
 }
 
 /**
@@ -472,10 +614,17 @@ export async function sendNotifications(payload: NotificationPayload): Promise<v
     if (integrationsError) {
       console.error('[Notifications] Error fetching integrations:', integrationsError);
     } else if (integrations && integrations.length > 0) {
+      const recipientEvent = payload.assigned_to_id ? USER_CHANNEL_EVENTS[payload.event] : undefined;
+      const recipientPreferences = recipientEvent
+        ? (await fetchNotificationPreferences(supabase, payload.org_id, [payload.assigned_to_id!])).get(payload.assigned_to_id!)
+        : undefined;
+      const recipientAllows = (channel: NotificationChannel) =>
+        !recipientPreferences || routeChannel(recipientPreferences, recipientEvent!, channel) === 'send';
+
       for (const integration of integrations) {
-        if (integration.integration_type === 'slack' && integration.webhook_url) {
+        if (integration.integration_type === 'slack' && integration.webhook_url && recipientAllows('slack')) {
           await sendSlackNotification(integration, payload, supabase);
-        } else if (integration.integration_type === 'microsoft_teams' && integration.webhook_url) {
+        } else if (integration.integration_type === 'microsoft_teams' && integration.webhook_url && recipientAllows('teams')) {
           await sendTeamsNotification(integration, payload, supabase);
         }
       }
@@ -487,6 +636,284 @@ export async function sendNotifications(payload: NotificationPayload): Promise<v
   }
 }
 
+/**
+ * Post a notification addressed to one user in the org's Slack or Teams channel
+ */
+async function postUserChannelMessage(
+  integration: any,
+  recipientName: string,
+  notification: UserNotification,
+  appUrl: string
+): Promise<boolean> {
+  const url = `${appUrl}${notification.action_url}`;
+  const body =
+    integration.integration_type === 'slack'
+      ? {
+          text: `${recipientName}: ${notification.title}`,
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `*For ${recipientName}*\n\n*${notification.title}*\n${notification.message}`,
+              },
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: { type: 'plain_text', text: 'Open in GrantCue', emoji: true },
+                  url,
+                  style: 'primary',
+                },
+              ],
+            },
+          ],
+        }
+      : {
+          type: 'message',
+          attachments: [
+            {
+              contentType: 'application/vnd.microsoft.card.adaptive',
+              content: {
+                type: 'AdaptiveCard',
+                body: [
+                  { type: 'TextBlock', size: 'Small', isSubtle: true, text: `For ${recipientName}`, wrap: true },
+                  { type: 'TextBlock', size: 'Large', weight: 'Bolder', text: notification.title, wrap: true },
+                  { type: 'TextBlock', text: notification.message, wrap: true },
+                ],
+                actions: [{ type: 'Action.OpenUrl', title: 'Open in GrantCue', url }],
+                $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                version: '1.4',
+              },
+            },
+          ],
+        };
+
+  try {
+    const response = await fetch(integration.webhook_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      console.error(`[Notifications] ${integration.integration_type} message failed: ${response.status}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error(`[Notifications] Failed to post ${integration.integration_type} message:`, error);
+    return false;
+  }
+}
+
+/**
+ * Queue a held email in the user's notification outbox for their digest
+ */
+async function holdForDigest(
+  supabase: SupabaseClient,
+  notification: UserNotification
+): Promise<boolean> {
+  const items = notification.digest_items || [
+    {
+      grant_id: notification.grant_id,
+      title: notification.title,
+      message: notification.message,
+      action_url: notification.action_url,
+    },
+  ];
+
+  const { error } = await supabase.from('notification_outbox').insert(
+    items.map((item) => ({
+      user_id: notification.user_id,
+      org_id: notification.org_id,
+      event: notification.event,
+      grant_id: item.grant_id || null,
+      title: item.title,
+      message: item.message,
+      action_url: item.action_url,
+      urgent: !!notification.urgent,
+    }))
+  );
+
+  if (error) {
+    console.error(`[Notifications] Failed to queue digest items for ${notification.user_id}:`, error);
+  }
+  return !error;
+}
+
+/**
+ * Notify one user of an event on each channel their preferences route it to
+ *
+ * A held email (digest delivery or quiet hours) is queued for the user's
+ * digest; held Slack and Teams messages are not sent, and the in-app
+ * notification stays the record of the event. Slack and Teams messages go
+ * to the organization's connected channel, addressed to the user. Pass
+ * preferences when notifying many users of one organization to avoid a
+ * lookup per user.
+ */
+export async function notifyUser(
+  supabase: SupabaseClient,
+  notification: UserNotification,
+  preferences?: NotificationPreferences,
+  appUrl: string = 'https://grantcue.com'
+): Promise<Record<NotificationChannel, DeliveryResult>> {
+  const prefs =
+    preferences ||
+    (await fetchNotificationPreferences(supabase, notification.org_id, [notification.user_id])).get(notification.user_id)!;
+  const now = new Date();
+  const urgent = !!notification.urgent;
+  const results: Record<NotificationChannel, DeliveryResult> = {
+    email: 'off',
+    in_app: 'off',
+    slack: 'off',
+    teams: 'off',
+  };
+
+  // In-app
+  if (notification.in_app && routeChannel(prefs, notification.event, 'in_app', now) === 'send') {
+    const { error } = await supabase.from('in_app_notifications').insert({
+      user_id: notification.user_id,
+      org_id: notification.org_id,
+      type: notification.in_app.type,
+      title: notification.title,
+      message: notification.message,
+      action_url: notification.action_url,
+      related_grant_id: notification.in_app.related_grant_id || null,
+      related_task_id: notification.in_app.related_task_id || null,
+      metadata: { ...notification.in_app.metadata, event: notification.event },
+    });
+
+    if (error) {
+      console.error(`[Notifications] Failed to create in-app notification for ${notification.user_id}:`, error);
+    }
+    results.in_app = error ? 'failed' : 'sent';
+  }
+
+  // Email
+  const emailDecision = notification.email ? routeChannel(prefs, notification.event, 'email', now, urgent) : 'off';
+  if (emailDecision === 'hold') {
+    results.email = (await holdForDigest(supabase, notification)) ? 'held' : 'failed';
+  } else if (emailDecision === 'send' && notification.email) {
+    if (!resendApiKey) {
+      console.warn('[Notifications] RESEND_API_KEY not configured - skipping email');
+      results.email = 'failed';
+    } else {
+      let to = notification.email.to;
+      if (!to) {
+        const { data: userData } = await supabase.auth.admin.getUserById(notification.user_id);
+        to = userData?.user?.email;
+      }
+
+      if (!to) {
+        console.warn(`[Notifications] Skipping email - user ${notification.user_id} has no email`);
+        results.email = 'failed';
+      } else {
+        try {
+          const result = await new Resend(resendApiKey).emails.send({
+            from: notification.email.from,
+            to,
+            subject: notification.email.subject,
+            html: notification.email.html,
+          });
+
+          if (result.error) {
+            throw result.error;
+          }
+          results.email = 'sent';
+        } catch (error) {
+          console.error(`[Notifications] Failed to send email to ${to}:`, error);
+          results.email = 'failed';
+        }
+      }
+    }
+  }
+
+  // Slack and Teams; channel events about one user are posted by sendNotifications
+  const chatChannels = (['slack', 'teams'] as const).filter(
+    (channel) => !Object.values(USER_CHANNEL_EVENTS).includes(notification.event) && routeChannel(prefs, notification.event, channel, now, urgent) !== 'off'
+  );
+
+  if (chatChannels.length > 0) {
+    const { data: integrations } = await supabase
+      .from('integrations')
+      .select('integration_type, webhook_url')
+      .eq('org_id', notification.org_id)
+      .eq('is_active', true)
+      .in('integration_type', ['slack', 'microsoft_teams']);
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('full_name')
+      .eq('id', notification.user_id)
+      .maybeSingle();
+    const recipientName = profile?.full_name || 'a team member';
+
+    for (const channel of chatChannels) {
+      const integration = (integrations || []).find(
+        (i: any) => i.integration_type === (channel === 'slack' ? 'slack' : 'microsoft_teams') && i.webhook_url
+      );
+      if (!integration) {
+        continue;
+      }
+
+      if (routeChannel(prefs, notification.event, channel, now, urgent) === 'hold') {
+        results[channel] = 'held';
+      } else {
+        results[channel] = (await postUserChannelMessage(integration, recipientName, notification, appUrl)) ? 'sent' : 'failed';
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Send an event for a saved grant, looking up the grant details
+ *
+ * For endpoints that only have the grant ID at hand; failures are logged.
+ */
+export async function notifyGrantEvent(
+  grantId: string,
+  event: WebhookEventType,
+  origin: string,
+  metadata: Record<string, any>
+): Promise<void> {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: grant } = await supabase
+      .from('org_grants_saved')
+      .select('org_id, title, agency, close_date')
+      .eq('id', grantId)
+      .single();
+
+    if (!grant) {
+      return;
+    }
+
+    await sendNotifications({
+      event,
+      org_id: grant.org_id,
+      grant_id: grantId,
+      grant_title: grant.title,
+      grant_agency: grant.agency || undefined,
+      grant_deadline: grant.close_date || undefined,
+      action_url: `${origin}/grants/${grantId}`,
+      metadata,
+    });
+  } catch (error) {
+    console.error(`[Notifications] Error sending ${event} notifications:`, error);
+  }
+}
+
 /**
  * Helper to get assigned user's name
  */
@@ -0,0 +1,384 @@
+/**
+ * Pipeline Stages
+ *
+ * Each organization keeps its own ordered list of stages (pipeline_stages);
+ * org_grants_saved.status and approval workflows store a stage key. A stage
+ * can carry an outcome (won/lost), be terminal (the grant's active life is
+ * over), and list grant fields that must be filled before a grant moves into
+ * it. A stage can also cap how many grants it holds (wip_limit; "block" mode
+ * refuses moves past the cap, "warn" only flags them on the board) and mark
+ * grants as stale after a number of days in it. New organizations are seeded
+ * with DEFAULT_PIPELINE_STAGES.
+ *
+ * Stages belong to one of the organization's pipelines (see ./pipelines.ts),
+ * except shared stages such as archived, which have no pipeline_id and are
+ * available in all of them. Keys stay unique across the organization, so a
+ * stage key alone identifies its pipeline.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type StageOutcome = 'won' | 'lost';
+
+export type WipLimitMode = 'warn' | 'block';
+
+export interface PipelineStage {
+  id?: string;
+  org_id?: string;
+  pipeline_id?: string | null;
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  outcome: StageOutcome | null;
+  is_terminal: boolean;
+  show_on_board: boolean;
+  required_fields: string[];
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
+  stale_after_days: number | null;
+}
+
+// Used by the Archive action, so every organization keeps it
+export const ARCHIVED_STAGE_KEY = 'archived';
+
+// Grant fields a stage can require, with the label used in error messages
+export const STAGE_REQUIRED_FIELDS: Record<string, string> = {
+  assigned_to: 'Owner',
+  priority: 'Priority',
+  close_date: 'Application deadline',
+  loi_deadline: 'LOI deadline',
+  internal_deadline: 'Internal deadline',
+  funder_id: 'Funder',
+  program: 'Program',
+  aln: 'Assistance listing (ALN)',
+  description: 'Description',
+  notes: 'Notes',
+};
+
+export const STAGE_COLORS = [
+  'blue',
+  'cyan',
+  'teal',
+  'green',
+  'lime',
+  'yellow',
+  'orange',
+  'red',
+  'pink',
+  'grape',
+  'violet',
+  'indigo',
+  'gray',
+  'dark',
+] as const;
+
+// Mirrors seed_default_pipeline_stages() in 20250331_add_pipeline_stages.sql
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  {
+    key: 'researching',
+    label: 'Researching',
+    color: 'blue',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'go-no-go',
+    label: 'Go/No-Go',
+    color: 'yellow',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'drafting',
+    label: 'Drafting',
+    color: 'grape',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'submitted',
+    label: 'Submitted',
+    color: 'orange',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'awarded',
+    label: 'Awarded',
+    color: 'green',
+    outcome: 'won',
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'not-funded',
+    label: 'Not Funded',
+    color: 'red',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: true,
+  },
+  {
+    key: 'closed-out',
+    label: 'Closed Out',
+    color: 'teal',
+    outcome: 'won',
+    is_terminal: true,
+    show_on_board: true,
+  },
+  {
+    key: 'rejected',
+    label: 'Rejected',
+    color: 'pink',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: false,
+  },
+  {
+    key: 'withdrawn',
+    label: 'Withdrawn',
+    color: 'gray',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: false,
+  },
+  {
+    key: ARCHIVED_STAGE_KEY,
+    label: 'Archived',
+    color: 'dark',
+    outcome: null,
+    is_terminal: true,
+    show_on_board: false,
+  },
+].map(
+  (stage, position) =>
+    ({
+      ...stage,
+      position,
+      required_fields: [],
+      wip_limit: null,
+      wip_limit_mode: 'warn',
+      stale_after_days: null,
+    }) as PipelineStage,
+);
+
+/**
+ * Fetch an organization's stages in order
+ *
+ * Falls back to the defaults for an organization that has none yet.
+ */
+export async function fetchPipelineStages(
+  supabase: SupabaseClient,
+  orgId: string,
+): Promise<PipelineStage[]> {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data && data.length > 0 ? (data as PipelineStage[]) : DEFAULT_PIPELINE_STAGES;
+}
+
+/**
+ * Stages a grant in the given pipeline can be in, including shared stages
+ */
+export function stagesForPipeline(
+  stages: PipelineStage[],
+  pipelineId: string | null | undefined,
+): PipelineStage[] {
+  return stages.filter((stage) => !stage.pipeline_id || stage.pipeline_id === pipelineId);
+}
+
+/**
+ * Why an approval workflow can't cover the transition, or null when it can
+ *
+ * Both stages must exist and belong to the same pipeline; shared stages
+ * (archived) pair with any pipeline's stages.
+ */
+export function workflowTransitionError(
+  stages: PipelineStage[],
+  fromStage: string,
+  toStage: string,
+): string | null {
+  const from = stages.find((stage) => stage.key === fromStage);
+  const to = stages.find((stage) => stage.key === toStage);
+
+  if (!from || !to) {
+    return 'Unknown pipeline stage';
+  }
+
+  if (from.pipeline_id && to.pipeline_id && from.pipeline_id !== to.pipeline_id) {
+    return 'Both stages must belong to the same pipeline';
+  }
+
+  return null;
+}
+
+/**
+ * Stage a grant ends up in when it moves to another pipeline
+ *
+ * A stage shared by every pipeline is kept; otherwise the grant starts over in
+ * the target pipeline's first open stage.
+ */
+export function stageAfterPipelineMove(
+  stages: PipelineStage[],
+  currentStatus: string,
+  pipelineId: string,
+): string {
+  const targetStages = stagesForPipeline(stages, pipelineId);
+  return targetStages.some((stage) => stage.key === currentStatus)
+    ? currentStatus
+    : defaultStageKey(targetStages);
+}
+
+/**
+ * Key for a new stage, e.g. "LOI Submitted" -> "loi-submitted"
+ */
+export function stageKeyFromLabel(label: string, taken: Set<string>): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 45) || 'stage';
+
+  let key = base;
+  for (let suffix = 2; taken.has(key); suffix++) {
+    key = `${base}-${suffix}`;
+  }
+  return key;
+}
+
+/**
+ * Stage new grants start in: the first stage that isn't terminal
+ */
+export function defaultStageKey(stages: PipelineStage[]): string {
+  return (stages.find((stage) => !stage.is_terminal) || stages[0]).key;
+}
+
+/**
+ * Stages whose grants no longer need application deadline reminders
+ */
+export function decidedStageKeys(stages: PipelineStage[]): string[] {
+  return stages.filter((stage) => stage.is_terminal || stage.outcome).map((stage) => stage.key);
+}
+
+/**
+ * Required fields of a stage that are empty on the grant
+ */
+export function missingRequiredFields(
+  stage: PipelineStage,
+  grant: Record<string, unknown>,
+): string[] {
+  return (stage.required_fields || []).filter((field) => {
+    const value = grant[field];
+    return value === null || value === undefined || (typeof value === 'string' && !value.trim());
+  });
+}
+
+export interface StageEntryCheck {
+  stage: PipelineStage | null;
+  missing_fields: string[];
+  error: string | null;
+}
+
+/**
+ * Check that a grant (with any pending changes applied) can move into a stage
+ *
+ * Fails when the stage is unknown or belongs to another pipeline than the
+ * grant's, its required fields are empty, or it has a blocking WIP limit that
+ * is already reached.
+ */
+export async function checkStageEntry(
+  supabase: SupabaseClient,
+  orgId: string,
+  stageKey: string,
+  grant: Record<string, unknown>,
+): Promise<StageEntryCheck> {
+  const stages = await fetchPipelineStages(supabase, orgId);
+  const stage = stages.find((s) => s.key === stageKey) || null;
+
+  if (!stage) {
+    return {
+      stage: null,
+      missing_fields: [],
+      error: `Unknown pipeline stage: ${stageKey}`,
+    };
+  }
+
+  if (grant.pipeline_id && stage.pipeline_id && stage.pipeline_id !== grant.pipeline_id) {
+    return {
+      stage,
+      missing_fields: [],
+      error: `${stage.label} is not a stage of this grant's pipeline`,
+    };
+  }
+
+  const missing = missingRequiredFields(stage, grant);
+  if (missing.length > 0) {
+    const labels = missing.map((field) => STAGE_REQUIRED_FIELDS[field] || field);
+    return {
+      stage,
+      missing_fields: missing,
+      error: `${stage.label} requires: ${labels.join(', ')}`,
+    };
+  }
+
+  if (stage.wip_limit && stage.wip_limit_mode === 'block') {
+    const { count, error } = await supabase
+      .from('org_grants_saved')
+      .select('id', { count: 'exact', head: true })
+      .eq('org_id', orgId)
+      .eq('status', stage.key);
+
+    if (error) {
+      throw error;
+    }
+
+    if ((count || 0) >= stage.wip_limit) {
+      return {
+        stage,
+        missing_fields: [],
+        error: `${stage.label} is at its limit of ${stage.wip_limit} grant${stage.wip_limit === 1 ? '' : 's'}. Move a grant out of it first.`,
+      };
+    }
+  }
+
+  return { stage, missing_fields: [], error: null };
+}
+
+/**
+ * Terminal stage keys by organization, for jobs that span every organization
+ *
+ * Organizations without stages of their own use the default terminal stages.
+ */
+export async function fetchTerminalStagesByOrg(
+  supabase: SupabaseClient,
+): Promise<(orgId: string) => string[]> {
+  const { data, error } = await supabase.from('pipeline_stages').select('org_id, key, is_terminal');
+
+  if (error) {
+    throw error;
+  }
+
+  const byOrg = new Map<string, string[]>();
+  for (const row of (data || []) as Pick<PipelineStage, 'org_id' | 'key' | 'is_terminal'>[]) {
+    const keys = byOrg.get(row.org_id!) || [];
+    byOrg.set(row.org_id!, row.is_terminal ? [...keys, row.key] : keys);
+  }
+
+  const defaults = DEFAULT_PIPELINE_STAGES.filter((stage) => stage.is_terminal).map(
+    (stage) => stage.key,
+  );
+  return (orgId: string) => byOrg.get(orgId) || defaults;
+}
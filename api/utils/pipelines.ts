@@ -0,0 +1,94 @@
+/**
+ * Pipelines
+ *
+ * An organization can run several named pipelines (pipelines table), each with
+ * its own stages and approval workflows. Every grant belongs to one pipeline
+ * (org_grants_saved.pipeline_id); grants saved without one go to the
+ * organization's default pipeline. A pipeline with members is only visible
+ * to those members and org admins; one without members is open to everyone
+ * in the organization.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface Pipeline {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  position: number;
+  is_default: boolean;
+  member_ids: string[];
+}
+
+/**
+ * Fetch an organization's pipelines in order, with their members
+ */
+export async function fetchPipelines(supabase: SupabaseClient, orgId: string): Promise<Pipeline[]> {
+  const { data, error } = await supabase
+    .from('pipelines')
+    .select('id, org_id, name, description, color, position, is_default, pipeline_members(user_id)')
+    .eq('org_id', orgId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(({ pipeline_members, ...pipeline }: any) => ({
+    ...pipeline,
+    member_ids: (pipeline_members || []).map((member: { user_id: string }) => member.user_id),
+  }));
+}
+
+/**
+ * Whether a user can see and work a pipeline's grants
+ */
+export function canAccessPipeline(
+  pipeline: Pick<Pipeline, 'member_ids'>,
+  userId: string,
+  role: string | undefined,
+): boolean {
+  return (
+    role === 'admin' || pipeline.member_ids.length === 0 || pipeline.member_ids.includes(userId)
+  );
+}
+
+/**
+ * IDs of the pipelines a user can access, or null when they can access all of them
+ */
+export async function fetchAccessiblePipelineIds(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string,
+  role: string | undefined,
+): Promise<string[] | null> {
+  if (role === 'admin') {
+    return null;
+  }
+
+  const pipelines = await fetchPipelines(supabase, orgId);
+  const accessible = pipelines.filter((pipeline) => canAccessPipeline(pipeline, userId, role));
+
+  return accessible.length === pipelines.length ? null : accessible.map((pipeline) => pipeline.id);
+}
+
+/**
+ * The given pipeline of the organization, or its default pipeline when none is given
+ *
+ * Returns null when the pipeline isn't the organization's.
+ */
+export async function resolvePipeline(
+  supabase: SupabaseClient,
+  orgId: string,
+  pipelineId?: string | null,
+): Promise<Pipeline | null> {
+  const pipelines = await fetchPipelines(supabase, orgId);
+
+  if (pipelineId) {
+    return pipelines.find((pipeline) => pipeline.id === pipelineId) || null;
+  }
+
+  return pipelines.find((pipeline) => pipeline.is_default) || pipelines[0] || null;
+}
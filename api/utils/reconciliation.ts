@@ -0,0 +1,366 @@
+/**
+ * Bank Reconciliation
+ *
+ * Matches the rows of a bank or general-ledger statement to the org's
+ * unreconciled disbursements and to payment schedules still waiting on a
+ * payment. Amounts have to agree to the cent and the money has to move the
+ * right way (expenses out, payments received in); dates within a window and
+ * a reference number found in the statement row decide between candidates.
+ *
+ * Each statement row and each candidate is matched at most once, best
+ * score first. Nothing is written here; the reviewer confirms the matches
+ * and api/reconciliation.ts applies them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far a statement date may be from the recorded date. Scheduled
+// payments only have an expected date, so they get a wider window; a
+// matching reference number widens it further.
+const DISBURSEMENT_WINDOW_DAYS = 10;
+const SCHEDULE_WINDOW_DAYS = 45;
+const REFERENCE_WINDOW_DAYS = 90;
+
+// Dates this close make an amount match a high-confidence one
+const HIGH_CONFIDENCE_DAYS = 3;
+
+export interface StatementRow {
+  // 1-based row number in the statement
+  row: number;
+  date: string;
+  // Positive for money in, negative for money out
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export type CandidateKind = 'disbursement' | 'payment_schedule';
+
+export interface ReconciliationCandidate {
+  kind: CandidateKind;
+  id: string;
+  budget_id: string;
+  grant_id: string | null;
+  grant_title: string | null;
+  // disbursement_type, or 'scheduled_payment'
+  type: string;
+  date: string;
+  // Signed like statement rows; adjustments can match either way
+  amount: number;
+  either_direction: boolean;
+  description: string;
+  reference: string | null;
+}
+
+export type MatchConfidence = 'high' | 'medium';
+
+export interface ReconciliationMatch {
+  row: number;
+  kind: CandidateKind;
+  id: string;
+  confidence: MatchConfidence;
+  score: number;
+  days_apart: number;
+  reference_matched: boolean;
+}
+
+export interface MatchResult {
+  matches: ReconciliationMatch[];
+  unmatched_rows: number[];
+  // Candidates dated within the statement period that nothing matched
+  unmatched_candidates: string[];
+}
+
+function toDay(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function normalizeReference(text: string | null | undefined): string {
+  return (text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function candidateKey(candidate: { kind: CandidateKind; id: string }): string {
+  return `${candidate.kind}:${candidate.id}`;
+}
+
+/**
+ * Whether the candidate's reference number (check number, invoice, ACH
+ * trace) appears in the statement row. Short references like "1" would
+ * match almost anything, so they don't count.
+ */
+function referenceMatches(row: StatementRow, candidate: ReconciliationCandidate): boolean {
+  const reference = normalizeReference(candidate.reference);
+  if (reference.length < 3) {
+    return false;
+  }
+
+  const rowReference = normalizeReference(row.reference);
+  return (
+    rowReference === reference ||
+    (rowReference.length >= 3 && reference.includes(rowReference)) ||
+    normalizeReference(`${row.reference || ''} ${row.description}`).includes(reference)
+  );
+}
+
+function amountMatches(row: StatementRow, candidate: ReconciliationCandidate): boolean {
+  if (candidate.either_direction) {
+    return Math.abs(Math.abs(row.amount) - Math.abs(candidate.amount)) < 0.005;
+  }
+  return Math.abs(row.amount - candidate.amount) < 0.005;
+}
+
+/**
+ * Score a statement row against a candidate; null when they can't match
+ */
+export function scoreMatch(
+  row: StatementRow,
+  candidate: ReconciliationCandidate,
+): Omit<ReconciliationMatch, 'row' | 'kind' | 'id'> | null {
+  if (!amountMatches(row, candidate)) {
+    return null;
+  }
+
+  const daysApart = Math.abs(toDay(row.date) - toDay(candidate.date));
+  const referenceMatched = referenceMatches(row, candidate);
+  const window = referenceMatched
+    ? REFERENCE_WINDOW_DAYS
+    : candidate.kind === 'payment_schedule'
+      ? SCHEDULE_WINDOW_DAYS
+      : DISBURSEMENT_WINDOW_DAYS;
+
+  if (daysApart > window) {
+    return null;
+  }
+
+  // Recorded disbursements beat scheduled payments, so a payment already
+  // logged isn't recorded a second time
+  const score =
+    60 +
+    (referenceMatched ? 30 : 0) +
+    Math.round(10 * (1 - daysApart / window)) +
+    (candidate.kind === 'disbursement' ? 5 : 0);
+
+  return {
+    confidence: referenceMatched || daysApart <= HIGH_CONFIDENCE_DAYS ? 'high' : 'medium',
+    score,
+    days_apart: daysApart,
+    reference_matched: referenceMatched,
+  };
+}
+
+/**
+ * Suggest a match for each statement row
+ */
+export function matchStatementRows(
+  rows: StatementRow[],
+  candidates: ReconciliationCandidate[],
+): MatchResult {
+  const pairs: ReconciliationMatch[] = [];
+
+  for (const row of rows) {
+    for (const candidate of candidates) {
+      const scored = scoreMatch(row, candidate);
+      if (scored) {
+        pairs.push({ row: row.row, kind: candidate.kind, id: candidate.id, ...scored });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => b.score - a.score || a.days_apart - b.days_apart || a.row - b.row);
+
+  const matchedRows = new Set<number>();
+  const matchedCandidates = new Set<string>();
+  const matches: ReconciliationMatch[] = [];
+
+  for (const pair of pairs) {
+    const key = candidateKey(pair);
+    if (matchedRows.has(pair.row) || matchedCandidates.has(key)) {
+      continue;
+    }
+    matchedRows.add(pair.row);
+    matchedCandidates.add(key);
+    matches.push(pair);
+  }
+
+  matches.sort((a, b) => a.row - b.row);
+
+  const { start, end } = statementPeriod(rows);
+
+  return {
+    matches,
+    unmatched_rows: rows.filter((row) => !matchedRows.has(row.row)).map((row) => row.row),
+    unmatched_candidates: candidates
+      .filter(
+        (candidate) =>
+          !matchedCandidates.has(candidateKey(candidate)) &&
+          start !== null &&
+          end !== null &&
+          candidate.date >= start &&
+          candidate.date <= end,
+      )
+      .map(candidateKey),
+  };
+}
+
+/**
+ * First and last date on the statement
+ */
+export function statementPeriod(rows: StatementRow[]): {
+  start: string | null;
+  end: string | null;
+} {
+  if (rows.length === 0) {
+    return { start: null, end: null };
+  }
+
+  const days = rows.map((row) => toDay(row.date));
+  return { start: fromDay(Math.min(...days)), end: fromDay(Math.max(...days)) };
+}
+
+/**
+ * Load the org's unreconciled disbursements and open payment schedules
+ * dated close enough to the statement period to match one of its rows
+ */
+export async function fetchReconciliationCandidates(
+  supabase: SupabaseClient,
+  orgId: string,
+  rows: StatementRow[],
+): Promise<ReconciliationCandidate[]> {
+  const { start, end } = statementPeriod(rows);
+  if (!start || !end) {
+    return [];
+  }
+
+  const from = fromDay(toDay(start) - REFERENCE_WINDOW_DAYS);
+  const to = fromDay(toDay(end) + REFERENCE_WINDOW_DAYS);
+
+  const [disbursements, schedules, receipts] = await Promise.all([
+    supabase
+      .from('disbursements')
+      .select(
+        'id, budget_id, disbursement_type, amount, disbursement_date, description, vendor_payee, reference_number',
+      )
+      .eq('org_id', orgId)
+      .eq('reconciled', false)
+      .gte('disbursement_date', from)
+      .lte('disbursement_date', to),
+    supabase
+      .from('payment_schedules')
+      .select('id, budget_id, payment_name, expected_amount, expected_date')
+      .eq('org_id', orgId)
+      .eq('received', false)
+      .neq('status', 'cancelled')
+      .gte('expected_date', from)
+      .lte('expected_date', to),
+    // Schedules with a payment already recorded are matched through it
+    supabase
+      .from('disbursements')
+      .select('payment_schedule_id')
+      .eq('org_id', orgId)
+      .not('payment_schedule_id', 'is', null),
+  ]);
+
+  for (const result of [disbursements, schedules, receipts]) {
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  const recordedSchedules = new Set(
+    (receipts.data || []).map((receipt) => receipt.payment_schedule_id as string),
+  );
+  const openSchedules = (schedules.data || []).filter(
+    (schedule) => !recordedSchedules.has(schedule.id),
+  );
+
+  const budgetIds = [
+    ...new Set([
+      ...(disbursements.data || []).map((disbursement) => disbursement.budget_id),
+      ...openSchedules.map((schedule) => schedule.budget_id),
+    ]),
+  ];
+  const grants = await fetchBudgetGrants(supabase, budgetIds);
+
+  return [
+    ...(disbursements.data || []).map((disbursement): ReconciliationCandidate => {
+      const amount = Number(disbursement.amount);
+      return {
+        kind: 'disbursement',
+        id: disbursement.id,
+        budget_id: disbursement.budget_id,
+        grant_id: grants.get(disbursement.budget_id)?.grant_id ?? null,
+        grant_title: grants.get(disbursement.budget_id)?.title ?? null,
+        type: disbursement.disbursement_type,
+        date: disbursement.disbursement_date,
+        amount: disbursement.disbursement_type === 'expense' ? -Math.abs(amount) : amount,
+        either_direction: disbursement.disbursement_type === 'adjustment',
+        description: [disbursement.vendor_payee, disbursement.description]
+          .filter(Boolean)
+          .join(': '),
+        reference: disbursement.reference_number,
+      };
+    }),
+    ...openSchedules.map(
+      (schedule): ReconciliationCandidate => ({
+        kind: 'payment_schedule',
+        id: schedule.id,
+        budget_id: schedule.budget_id,
+        grant_id: grants.get(schedule.budget_id)?.grant_id ?? null,
+        grant_title: grants.get(schedule.budget_id)?.title ?? null,
+        type: 'scheduled_payment',
+        date: schedule.expected_date,
+        amount: Math.abs(Number(schedule.expected_amount)),
+        either_direction: false,
+        description: schedule.payment_name,
+        reference: null,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Grant id and title of each budget
+ */
+async function fetchBudgetGrants(
+  supabase: SupabaseClient,
+  budgetIds: string[],
+): Promise<Map<string, { grant_id: string; title: string | null }>> {
+  const grants = new Map<string, { grant_id: string; title: string | null }>();
+  if (budgetIds.length === 0) {
+    return grants;
+  }
+
+  const { data: budgets, error } = await supabase
+    .from('grant_budgets')
+    .select('id, grant_id')
+    .in('id', budgetIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const grantIds = [...new Set((budgets || []).map((budget) => budget.grant_id))];
+  const { data: savedGrants, error: grantsError } = grantIds.length
+    ? await supabase.from('org_grants_saved').select('id, title').in('id', grantIds)
+    : { data: [], error: null };
+
+  if (grantsError) {
+    throw grantsError;
+  }
+
+  const titles = new Map((savedGrants || []).map((grant) => [grant.id, grant.title as string]));
+  for (const budget of budgets || []) {
+    grants.set(budget.id, {
+      grant_id: budget.grant_id,
+      title: titles.get(budget.grant_id) ?? null,
+    });
+  }
+
+  return grants;
+}
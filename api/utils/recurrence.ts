@@ -0,0 +1,488 @@
+/**
+ * Recurring Tasks and Compliance Requirements
+ *
+ * A grant task or compliance requirement can carry an RRULE-style schedule.
+ * The rule is expanded from `recurrence_start` (the first period end) and
+ * each occurrence is due `recurrence_offset_days` after its period end, so a
+ * quarterly financial report due 30 days after each quarter is
+ * `FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1` starting on the first quarter end
+ * with an offset of 30.
+ *
+ * The row holding the rule is itself the first occurrence. Later occurrences
+ * are generated as copies pointing back to it (`recurrence_parent_id`) once
+ * they are due within the generation horizon, both when the rule is saved and
+ * by the daily cron. Without COUNT or UNTIL the series ends with the grant's
+ * budget period, when one is set.
+ *
+ * Supported rule parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * BYMONTHDAY (a single day; negative counts from the month end, and days past
+ * the end of a short month fall on its last day), COUNT and UNTIL.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchTerminalStagesByOrg } from './pipeline-stages.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences are generated once they are due within this many days
+export const RECURRENCE_HORIZON_DAYS = 180;
+const MAX_NEW_OCCURRENCES = 12;
+// Guards against rules that never reach the horizon (e.g. a tiny UNTIL)
+const MAX_EXPANSION_STEPS = 5000;
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurringKind = 'task' | 'compliance';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byMonthDay: number | null;
+  count: number | null;
+  until: string | null;
+}
+
+export interface RecurringSeries {
+  id: string;
+  grant_id: string;
+  org_id: string;
+  recurrence_rule: string | null;
+  recurrence_start: string | null;
+  recurrence_offset_days: number | null;
+  recurrence_date: string | null;
+  [field: string]: unknown;
+}
+
+interface RecurringTable {
+  table: string;
+  // Fields copied from the series onto each generated occurrence
+  copy: string[];
+  // Filter matching occurrences that have not been completed
+  open: (query: any) => any;
+  initial: Record<string, unknown>;
+}
+
+const RECURRING_TABLES: Record<RecurringKind, RecurringTable> = {
+  task: {
+    table: 'grant_tasks',
+    copy: [
+      'grant_id',
+      'org_id',
+      'title',
+      'description',
+      'task_type',
+      'assigned_to',
+      'is_required',
+      'estimated_days',
+      'position',
+      'created_by',
+    ],
+    open: (query) => query.neq('status', 'completed'),
+    initial: { status: 'pending' },
+  },
+  compliance: {
+    table: 'compliance_requirements',
+    copy: [
+      'grant_id',
+      'org_id',
+      'requirement_type',
+      'title',
+      'description',
+      'regulation_reference',
+      'policy_url',
+      'reminder_days_before',
+      'documentation_required',
+      'is_critical',
+    ],
+    open: (query) => query.eq('completed', false),
+    initial: { status: 'pending', completed: false },
+  },
+};
+
+function toDay(value: string): number {
+  return Math.floor(Date.parse(`${value.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function todayDay(): number {
+  return Math.floor(Date.now() / DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Parse an RRULE (with or without the `RRULE:` prefix)
+ */
+export function parseRecurrenceRule(
+  value: string,
+): { rule: RecurrenceRule; error: null } | { rule: null; error: string } {
+  const parts = new Map<string, string>();
+  for (const part of value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')) {
+    if (!part) {
+      continue;
+    }
+    const [key, ...rest] = part.split('=');
+    parts.set(key.trim().toUpperCase(), rest.join('=').trim().toUpperCase());
+  }
+
+  const unsupported = Array.from(parts.keys()).filter(
+    (key) => !['FREQ', 'INTERVAL', 'BYMONTHDAY', 'COUNT', 'UNTIL'].includes(key),
+  );
+  if (unsupported.length > 0) {
+    return { rule: null, error: `Unsupported recurrence rule part: ${unsupported.join(', ')}` };
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    return { rule: null, error: 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY' };
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 1000) {
+    return { rule: null, error: 'INTERVAL must be a positive whole number' };
+  }
+
+  let byMonthDay: number | null = null;
+  if (parts.has('BYMONTHDAY')) {
+    if (freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      return { rule: null, error: 'BYMONTHDAY only applies to MONTHLY or YEARLY rules' };
+    }
+    byMonthDay = Number(parts.get('BYMONTHDAY'));
+    if (!Number.isInteger(byMonthDay) || byMonthDay === 0 || Math.abs(byMonthDay) > 31) {
+      return { rule: null, error: 'BYMONTHDAY must be a single day between -31 and 31' };
+    }
+  }
+
+  let count: number | null = null;
+  if (parts.has('COUNT')) {
+    count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1 || count > 1000) {
+      return { rule: null, error: 'COUNT must be between 1 and 1000' };
+    }
+  }
+
+  let until: string | null = null;
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match || isNaN(Date.parse(`${match[1]}-${match[2]}-${match[3]}`))) {
+      return { rule: null, error: 'UNTIL must be a date (YYYYMMDD)' };
+    }
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  if (count !== null && until !== null) {
+    return { rule: null, error: 'A recurrence rule cannot have both COUNT and UNTIL' };
+  }
+
+  return {
+    rule: { freq: freq as RecurrenceFrequency, interval, byMonthDay, count, until },
+    error: null,
+  };
+}
+
+/**
+ * The k-th step of the rule from the start date (before COUNT/UNTIL apply)
+ */
+function stepDay(rule: RecurrenceRule, start: number, step: number): number {
+  if (rule.freq === 'DAILY') {
+    return start + step * rule.interval;
+  }
+  if (rule.freq === 'WEEKLY') {
+    return start + step * rule.interval * 7;
+  }
+
+  const startDate = new Date(start * DAY_MS);
+  const months = rule.freq === 'MONTHLY' ? step * rule.interval : step * rule.interval * 12;
+  const year = startDate.getUTCFullYear() + Math.floor((startDate.getUTCMonth() + months) / 12);
+  const month = (startDate.getUTCMonth() + months) % 12;
+  const length = daysInMonth(year, month);
+
+  let day = rule.byMonthDay ?? startDate.getUTCDate();
+  day = day < 0 ? Math.max(1, length + day + 1) : Math.min(day, length);
+
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+
+/**
+ * Period ends of a rule in order, from its start up to `through` (inclusive)
+ *
+ * @param endsOn - Last allowed period end when the rule has no COUNT or UNTIL
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  start: string,
+  through: string,
+  endsOn?: string | null,
+): string[] {
+  const startDay = toDay(start);
+  const throughDay = toDay(through);
+  const untilDay = rule.until
+    ? toDay(rule.until)
+    : rule.count === null && endsOn
+      ? toDay(endsOn)
+      : null;
+
+  const occurrences: string[] = [];
+  let emitted = 0;
+
+  for (let step = 0; step < MAX_EXPANSION_STEPS; step++) {
+    const day = stepDay(rule, startDay, step);
+    // A BYMONTHDAY before the start date in the first month is not an occurrence
+    if (day < startDay) {
+      continue;
+    }
+    if ((untilDay !== null && day > untilDay) || day > throughDay) {
+      break;
+    }
+    if (rule.count !== null && emitted >= rule.count) {
+      break;
+    }
+    occurrences.push(formatDay(day));
+    emitted++;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Due date of the occurrence covering a period end
+ */
+export function occurrenceDueDate(periodEnd: string, offsetDays: number | null): string {
+  return formatDay(toDay(periodEnd) + (offsetDays || 0));
+}
+
+/**
+ * The first occurrence's period end and due date, for the row holding the rule
+ */
+export function firstOccurrence(
+  rule: RecurrenceRule,
+  start: string,
+  offsetDays: number | null,
+): { recurrence_date: string; due_date: string } | null {
+  // One full interval after the start always holds an occurrence (or the rule has ended)
+  const through = formatDay(toDay(start) + rule.interval * 366 + 31);
+  const [first] = expandRecurrence({ ...rule, count: 1 }, start, through);
+  return first ? { recurrence_date: first, due_date: occurrenceDueDate(first, offsetDays) } : null;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    rule.interval !== 1 && `INTERVAL=${rule.interval}`,
+    rule.byMonthDay !== null && `BYMONTHDAY=${rule.byMonthDay}`,
+    rule.count !== null && `COUNT=${rule.count}`,
+    rule.until !== null && `UNTIL=${rule.until.replace(/-/g, '')}`,
+  ]
+    .filter(Boolean)
+    .join(';');
+}
+
+export interface RecurrenceInput {
+  recurrence_rule?: string | null;
+  recurrence_start?: string | null;
+  recurrence_offset_days?: number | null;
+}
+
+/**
+ * Columns to store for a series' schedule. With a rule, the row's own
+ * due_date and recurrence_date are set to its first occurrence; without one,
+ * the schedule is cleared and the due date is left alone.
+ */
+export function resolveRecurrenceFields(
+  input: RecurrenceInput,
+): { fields: Record<string, unknown>; error: null } | { fields: null; error: string } {
+  if (!input.recurrence_rule) {
+    return {
+      fields: {
+        recurrence_rule: null,
+        recurrence_start: null,
+        recurrence_offset_days: 0,
+        recurrence_date: null,
+      },
+      error: null,
+    };
+  }
+
+  if (!input.recurrence_start) {
+    return { fields: null, error: 'recurrence_start is required with a recurrence rule' };
+  }
+
+  const { rule, error } = parseRecurrenceRule(input.recurrence_rule);
+  if (!rule) {
+    return { fields: null, error };
+  }
+
+  const offset = input.recurrence_offset_days || 0;
+  const first = firstOccurrence(rule, input.recurrence_start, offset);
+  if (!first) {
+    return { fields: null, error: 'The recurrence rule has no occurrences' };
+  }
+
+  return {
+    fields: {
+      recurrence_rule: formatRecurrenceRule(rule),
+      recurrence_start: input.recurrence_start.slice(0, 10),
+      recurrence_offset_days: offset,
+      ...first,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Last day of the grant's budget period, if any budget sets one
+ */
+export async function fetchBudgetPeriodEnd(
+  supabase: SupabaseClient,
+  grantId: string,
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('grant_budgets')
+    .select('budget_period_end')
+    .eq('grant_id', grantId)
+    .not('budget_period_end', 'is', null)
+    .order('budget_period_end', { ascending: false })
+    .limit(1);
+
+  return data?.[0]?.budget_period_end || null;
+}
+
+/**
+ * Create the occurrences of a series that are due within the horizon and do
+ * not exist yet. Occurrences due before today are not back-filled.
+ *
+ * @returns The number of occurrences created
+ */
+export async function generateOccurrences(
+  supabase: SupabaseClient,
+  kind: RecurringKind,
+  series: RecurringSeries,
+): Promise<number> {
+  const config = RECURRING_TABLES[kind];
+  if (!series.recurrence_rule || !series.recurrence_start) {
+    return 0;
+  }
+
+  const { rule } = parseRecurrenceRule(series.recurrence_rule);
+  if (!rule) {
+    return 0;
+  }
+
+  const today = todayDay();
+  const offset = series.recurrence_offset_days || 0;
+  const through = formatDay(today + RECURRENCE_HORIZON_DAYS - offset);
+  const budgetEnd = await fetchBudgetPeriodEnd(supabase, series.grant_id);
+
+  const { data: existing, error: existingError } = await supabase
+    .from(config.table)
+    .select('recurrence_date')
+    .eq('recurrence_parent_id', series.id);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const taken = new Set(
+    (existing || []).map((row: { recurrence_date: string }) => row.recurrence_date),
+  );
+  const first = series.recurrence_date || series.recurrence_start;
+
+  const missing = expandRecurrence(rule, series.recurrence_start, through, budgetEnd)
+    .filter((periodEnd) => periodEnd > first && !taken.has(periodEnd))
+    .filter((periodEnd) => toDay(periodEnd) + offset >= today)
+    .slice(0, MAX_NEW_OCCURRENCES);
+
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  const rows = missing.map((periodEnd) => ({
+    ...Object.fromEntries(config.copy.map((field) => [field, series[field] ?? null])),
+    ...config.initial,
+    due_date: occurrenceDueDate(periodEnd, offset),
+    recurrence_parent_id: series.id,
+    recurrence_date: periodEnd,
+  }));
+
+  const { error } = await supabase.from(config.table).upsert(rows, {
+    onConflict: 'recurrence_parent_id,recurrence_date',
+    ignoreDuplicates: true,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return rows.length;
+}
+
+/**
+ * Remove a series' upcoming occurrences that have not been completed, before
+ * its rule changes or stops. Completed occurrences are kept as history.
+ */
+export async function clearUpcomingOccurrences(
+  supabase: SupabaseClient,
+  kind: RecurringKind,
+  seriesId: string,
+): Promise<void> {
+  const config = RECURRING_TABLES[kind];
+
+  const { error } = await config
+    .open(supabase.from(config.table).delete().eq('recurrence_parent_id', seriesId))
+    .gte('due_date', formatDay(todayDay()));
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Generate upcoming occurrences for every series of every organization
+ *
+ * Series on grants in a terminal stage are skipped.
+ */
+export async function generateAllOccurrences(
+  supabase: SupabaseClient,
+): Promise<{ series: number; created: number; failed: number }> {
+  const totals = { series: 0, created: 0, failed: 0 };
+  const terminalStages = await fetchTerminalStagesByOrg(supabase);
+
+  for (const kind of Object.keys(RECURRING_TABLES) as RecurringKind[]) {
+    const config = RECURRING_TABLES[kind];
+
+    const { data, error } = await supabase
+      .from(config.table)
+      .select('*, org_grants_saved!inner(status)')
+      .not('recurrence_rule', 'is', null);
+
+    if (error) {
+      throw error;
+    }
+
+    const active = ((data || []) as (RecurringSeries & { org_grants_saved: { status: string } })[]).filter(
+      (series) => !terminalStages(series.org_id).includes(series.org_grants_saved.status),
+    );
+
+    for (const series of active) {
+      totals.series++;
+      try {
+        totals.created += await generateOccurrences(supabase, kind, series);
+      } catch (generateError) {
+        totals.failed++;
+        console.error(
+          `[Recurrence] Failed to generate occurrences for ${kind} ${series.id}:`,
+          generateError,
+        );
+      }
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,639 @@
+/**
+ * SF-424A and Budget Justification
+ *
+ * Lays a grant budget out as the federal SF-424A (Budget Information -
+ * Non-Construction Programs), Sections A-F, and as a narrative budget
+ * justification, and checks that the figures reconcile.
+ *
+ * Object class amounts by budget period come from the budget builder (see
+ * ./budget-builder.ts) when the budget was built there; otherwise the budget's
+ * line items fill a single budget period. Section B shows four budget periods
+ * per block, like the form; longer projects continue in further blocks.
+ * Non-federal amounts are the budget's cash and in-kind match. First-year cash
+ * needs (Section D) are spread evenly over the quarters.
+ *
+ * Both documents are returned as ExportBlocks so the spreadsheet and the
+ * printable version share one layout.
+ */
+
+import type { BudgetCalculation, BudgetBuilderInputs } from './budget-builder.js';
+import { CATEGORY_LABELS, ROLLUP_CATEGORIES, type RollupCategory } from './budget-builder.js';
+import type { XlsxRow } from './xlsx.js';
+
+// Budget periods per Section B block, as on the printed form
+const PERIODS_PER_BLOCK = 4;
+
+// Section E covers the four funding periods after the first
+const FUTURE_PERIODS = 4;
+
+// Reconciliation tolerance for rounding
+const TOLERANCE = 0.5;
+
+export type ExportCell = string | number | null;
+
+export type ExportBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | {
+      type: 'table';
+      header: string[];
+      rows: Array<{ cells: ExportCell[]; bold?: boolean }>;
+    };
+
+export interface ExportBudget {
+  proposed_amount: number;
+  match_required: boolean;
+  match_amount: number;
+  budget_period_start: string | null;
+  budget_period_end: string | null;
+}
+
+export interface ExportLineItem {
+  category: string;
+  description: string;
+  notes: string | null;
+  proposed_amount: number;
+  builder_generated: boolean;
+}
+
+export interface Sf424aPeriod {
+  period_number: number;
+  start_date: string | null;
+  end_date: string | null;
+  categories: Record<RollupCategory, number>;
+  total_direct: number;
+  total: number;
+}
+
+export interface Sf424aForm {
+  applicant: string;
+  program: string;
+  aln: string | null;
+  agency: string | null;
+  periods: Sf424aPeriod[];
+  federal_total: number;
+  non_federal: { applicant: number; state: number; other: number; total: number };
+  // Section D: first year's total, then each quarter
+  cash_needs: { federal: number[]; non_federal: number[] };
+  // Section E: federal totals of the funding periods after the first
+  future_funding: number[];
+  direct_charges_note: string;
+  indirect_charges_note: string;
+}
+
+export interface ReconciliationIssue {
+  category: string | null;
+  message: string;
+  expected: number;
+  actual: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sumOf(values: number[]): number {
+  return roundCents(values.reduce((sum, value) => sum + value, 0));
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function periodLabel(period: {
+  period_number: number;
+  start_date: string | null;
+  end_date: string | null;
+}) {
+  const dates =
+    period.start_date && period.end_date ? ` (${period.start_date} to ${period.end_date})` : '';
+  return `Budget Period ${period.period_number}${dates}`;
+}
+
+function lineItemTotals(lineItems: ExportLineItem[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const item of lineItems) {
+    totals[item.category] = roundCents((totals[item.category] || 0) + Number(item.proposed_amount));
+  }
+  return totals;
+}
+
+/**
+ * Split an amount into four quarters, with the rounding difference in the last
+ */
+function quarters(amount: number): number[] {
+  const quarter = roundCents(amount / 4);
+  return [quarter, quarter, quarter, roundCents(amount - quarter * 3)];
+}
+
+/**
+ * Object class amounts per budget period
+ */
+function formPeriods(
+  budget: ExportBudget,
+  lineItems: ExportLineItem[],
+  calculation: BudgetCalculation | null,
+): Sf424aPeriod[] {
+  if (calculation && calculation.periods.length > 0) {
+    return calculation.periods.map((period) => ({
+      period_number: period.period_number,
+      start_date: period.start_date,
+      end_date: period.end_date,
+      categories: period.categories,
+      total_direct: period.total_direct,
+      total: period.total,
+    }));
+  }
+
+  const totals = lineItemTotals(lineItems);
+  const categories = {} as Record<RollupCategory, number>;
+  for (const category of ROLLUP_CATEGORIES) {
+    categories[category] = totals[category] || 0;
+  }
+  const totalDirect = sumOf(
+    ROLLUP_CATEGORIES.filter((category) => category !== 'indirect_costs').map(
+      (category) => categories[category],
+    ),
+  );
+
+  return [
+    {
+      period_number: 1,
+      start_date: budget.budget_period_start,
+      end_date: budget.budget_period_end,
+      categories,
+      total_direct: totalDirect,
+      total: roundCents(totalDirect + categories.indirect_costs),
+    },
+  ];
+}
+
+/**
+ * SF-424A figures for a budget
+ */
+export function buildSf424a(
+  grant: { title: string; aln: string | null; agency: string | null },
+  applicant: string,
+  budget: ExportBudget,
+  lineItems: ExportLineItem[],
+  builder: { inputs: BudgetBuilderInputs; calculation: BudgetCalculation } | null,
+): Sf424aForm {
+  const periods = formPeriods(budget, lineItems, builder?.calculation || null);
+  const federalTotal = sumOf(periods.map((period) => period.total));
+
+  const totals = lineItemTotals(lineItems);
+  const matchTotal = roundCents((totals.match_cash || 0) + (totals.match_in_kind || 0));
+  const nonFederal =
+    matchTotal > 0 ? matchTotal : budget.match_required ? Number(budget.match_amount) || 0 : 0;
+
+  // Match is assumed to be spent at the same pace as the federal budget
+  const firstYearNonFederal =
+    federalTotal > 0 ? roundCents((nonFederal * periods[0].total) / federalTotal) : nonFederal;
+
+  const indirectNote = builder
+    ? builder.inputs.indirect_rate > 0
+      ? `Negotiated indirect cost rate of ${builder.inputs.indirect_rate}% applied to ${
+          builder.inputs.indirect_base === 'tdc'
+            ? 'total direct costs'
+            : 'modified total direct costs (excluding equipment, subaward amounts over $25,000 and other excluded costs)'
+        }.`
+      : 'No indirect costs are requested.'
+    : periods[0].categories.indirect_costs > 0
+      ? 'Indirect costs as budgeted; see the budget justification.'
+      : 'No indirect costs are requested.';
+
+  return {
+    applicant,
+    program: grant.title,
+    aln: grant.aln,
+    agency: grant.agency,
+    periods,
+    federal_total: federalTotal,
+    non_federal: { applicant: nonFederal, state: 0, other: 0, total: nonFederal },
+    cash_needs: {
+      federal: [periods[0].total, ...quarters(periods[0].total)],
+      non_federal: [firstYearNonFederal, ...quarters(firstYearNonFederal)],
+    },
+    future_funding: Array.from(
+      { length: FUTURE_PERIODS },
+      (_, index) => periods[index + 1]?.total || 0,
+    ),
+    direct_charges_note: `Total direct charges of ${formatCurrency(
+      sumOf(periods.map((period) => period.total_direct)),
+    )} over ${periods.length} budget period${periods.length === 1 ? '' : 's'}.`,
+    indirect_charges_note: indirectNote,
+  };
+}
+
+/**
+ * Differences between the form, the budget's line items and its amounts
+ */
+export function reconcileBudget(
+  form: Sf424aForm,
+  budget: ExportBudget,
+  lineItems: ExportLineItem[],
+  builtWithBuilder: boolean,
+): ReconciliationIssue[] {
+  const issues: ReconciliationIssue[] = [];
+  const totals = lineItemTotals(lineItems);
+
+  if (lineItems.length === 0) {
+    issues.push({
+      category: null,
+      message: 'The budget has no line items',
+      expected: form.federal_total,
+      actual: 0,
+    });
+  }
+
+  if (builtWithBuilder) {
+    for (const category of ROLLUP_CATEGORIES) {
+      const formTotal = sumOf(form.periods.map((period) => period.categories[category]));
+      const itemTotal = totals[category] || 0;
+
+      if (Math.abs(formTotal - itemTotal) > TOLERANCE) {
+        const handEntered = lineItems.some(
+          (item) => item.category === category && !item.builder_generated,
+        );
+        issues.push({
+          category,
+          message: handEntered
+            ? `${CATEGORY_LABELS[category]} line items include hand-entered amounts on top of the budget builder's total`
+            : `${CATEGORY_LABELS[category]} line items don't match the budget builder; recalculate the budget`,
+          expected: formTotal,
+          actual: itemTotal,
+        });
+      }
+    }
+  }
+
+  if (Math.abs(form.federal_total - Number(budget.proposed_amount)) > TOLERANCE) {
+    issues.push({
+      category: null,
+      message: "The budget categories don't add up to the proposed amount",
+      expected: form.federal_total,
+      actual: Number(budget.proposed_amount),
+    });
+  }
+
+  const matchTotal = roundCents((totals.match_cash || 0) + (totals.match_in_kind || 0));
+  if (
+    budget.match_required &&
+    matchTotal > 0 &&
+    Math.abs(matchTotal - Number(budget.match_amount)) > TOLERANCE
+  ) {
+    issues.push({
+      category: 'match',
+      message: "Match line items don't add up to the required match",
+      expected: Number(budget.match_amount),
+      actual: matchTotal,
+    });
+  }
+
+  return issues;
+}
+
+const SECTION_B_ROWS: Array<[string, RollupCategory]> = [
+  ['a. Personnel', 'personnel'],
+  ['b. Fringe Benefits', 'fringe_benefits'],
+  ['c. Travel', 'travel'],
+  ['d. Equipment', 'equipment'],
+  ['e. Supplies', 'supplies'],
+  ['f. Contractual', 'contractual'],
+  ['g. Construction', 'construction'],
+  ['h. Other', 'other_direct'],
+];
+
+/**
+ * The SF-424A, section by section
+ */
+export function sf424aBlocks(form: Sf424aForm): ExportBlock[] {
+  const blocks: ExportBlock[] = [
+    { type: 'heading', text: 'BUDGET INFORMATION - Non-Construction Programs (SF-424A)' },
+    {
+      type: 'paragraph',
+      text: [
+        `Applicant: ${form.applicant}`,
+        `Program: ${form.program}`,
+        form.aln ? `Assistance Listing: ${form.aln}` : null,
+        form.agency ? `Agency: ${form.agency}` : null,
+      ]
+        .filter(Boolean)
+        .join(' | '),
+    },
+    { type: 'heading', text: 'SECTION A - BUDGET SUMMARY' },
+    {
+      type: 'table',
+      header: [
+        'Grant Program Function or Activity',
+        'Assistance Listing Number',
+        'Unobligated Funds: Federal',
+        'Unobligated Funds: Non-Federal',
+        'New or Revised Budget: Federal',
+        'New or Revised Budget: Non-Federal',
+        'Total',
+      ],
+      rows: [
+        {
+          cells: [
+            `1. ${form.program}`,
+            form.aln,
+            null,
+            null,
+            form.federal_total,
+            form.non_federal.total,
+            roundCents(form.federal_total + form.non_federal.total),
+          ],
+        },
+        {
+          cells: [
+            '5. Totals',
+            null,
+            0,
+            0,
+            form.federal_total,
+            form.non_federal.total,
+            roundCents(form.federal_total + form.non_federal.total),
+          ],
+          bold: true,
+        },
+      ],
+    },
+    { type: 'heading', text: 'SECTION B - BUDGET CATEGORIES' },
+  ];
+
+  for (let start = 0; start < form.periods.length; start += PERIODS_PER_BLOCK) {
+    const periods = form.periods.slice(start, start + PERIODS_PER_BLOCK);
+    const row = (label: string, values: number[], bold = false) => ({
+      cells: [label, ...values, sumOf(values)],
+      bold,
+    });
+
+    blocks.push({
+      type: 'table',
+      header: ['6. Object Class Categories', ...periods.map(periodLabel), 'Total (5)'],
+      rows: [
+        ...SECTION_B_ROWS.map(([label, category]) =>
+          row(
+            label,
+            periods.map((period) => period.categories[category]),
+          ),
+        ),
+        row(
+          'i. Total Direct Charges (sum of 6a-6h)',
+          periods.map((period) => period.total_direct),
+          true,
+        ),
+        row(
+          'j. Indirect Charges',
+          periods.map((period) => period.categories.indirect_costs),
+        ),
+        row(
+          'k. TOTALS (sum of 6i and 6j)',
+          periods.map((period) => period.total),
+          true,
+        ),
+        row(
+          '7. Program Income',
+          periods.map(() => 0),
+        ),
+      ],
+    });
+  }
+
+  blocks.push(
+    { type: 'heading', text: 'SECTION C - NON-FEDERAL RESOURCES' },
+    {
+      type: 'table',
+      header: [
+        '(a) Grant Program',
+        '(b) Applicant',
+        '(c) State',
+        '(d) Other Sources',
+        '(e) TOTALS',
+      ],
+      rows: [
+        {
+          cells: [
+            `8. ${form.program}`,
+            form.non_federal.applicant,
+            form.non_federal.state,
+            form.non_federal.other,
+            form.non_federal.total,
+          ],
+        },
+        {
+          cells: [
+            '12. TOTAL (sum of lines 8-11)',
+            form.non_federal.applicant,
+            form.non_federal.state,
+            form.non_federal.other,
+            form.non_federal.total,
+          ],
+          bold: true,
+        },
+      ],
+    },
+    { type: 'heading', text: 'SECTION D - FORECASTED CASH NEEDS' },
+    {
+      type: 'table',
+      header: [
+        '',
+        'Total for 1st Year',
+        '1st Quarter',
+        '2nd Quarter',
+        '3rd Quarter',
+        '4th Quarter',
+      ],
+      rows: [
+        { cells: ['13. Federal', ...form.cash_needs.federal] },
+        { cells: ['14. Non-Federal', ...form.cash_needs.non_federal] },
+        {
+          cells: [
+            '15. TOTAL (sum of lines 13 and 14)',
+            ...form.cash_needs.federal.map((amount, index) =>
+              roundCents(amount + form.cash_needs.non_federal[index]),
+            ),
+          ],
+          bold: true,
+        },
+      ],
+    },
+    {
+      type: 'heading',
+      text: 'SECTION E - BUDGET ESTIMATES OF FEDERAL FUNDS NEEDED FOR BALANCE OF THE PROJECT',
+    },
+    {
+      type: 'table',
+      header: ['(a) Grant Program', '(b) First', '(c) Second', '(d) Third', '(e) Fourth'],
+      rows: [
+        { cells: [`16. ${form.program}`, ...form.future_funding] },
+        { cells: ['20. TOTAL (sum of lines 16-19)', ...form.future_funding], bold: true },
+      ],
+    },
+    { type: 'heading', text: 'SECTION F - OTHER BUDGET INFORMATION' },
+    { type: 'paragraph', text: `21. Direct Charges: ${form.direct_charges_note}` },
+    { type: 'paragraph', text: `22. Indirect Charges: ${form.indirect_charges_note}` },
+    { type: 'paragraph', text: '23. Remarks: See the attached budget justification.' },
+  );
+
+  return blocks;
+}
+
+/**
+ * Detail rows of a category from the budget builder, with an amount per period
+ */
+function builderDetails(
+  category: RollupCategory,
+  builder: { inputs: BudgetBuilderInputs; calculation: BudgetCalculation },
+): Array<{ label: string; amounts: number[] }> {
+  const { inputs, calculation } = builder;
+  const periodNumbers = calculation.periods.map((period) => period.period_number);
+
+  if (category === 'personnel') {
+    return inputs.personnel.map((person, index) => ({
+      label: `${person.name}${person.position_title ? `, ${person.position_title}` : ''}: ${
+        person.effort_percent
+      }% effort for ${person.months} months at a base salary of ${formatCurrency(
+        person.annual_salary,
+      )}${person.escalation_percent > 0 ? `, escalated ${person.escalation_percent}% a year` : ''}`,
+      amounts: calculation.personnel[index].periods.map((period) => period.salary),
+    }));
+  }
+
+  if (category === 'fringe_benefits') {
+    const rates = new Map(
+      inputs.fringe_rates.map((fringe) => [fringe.employee_class.trim().toLowerCase(), fringe]),
+    );
+    const byClass = new Map<string, number[]>();
+    for (const person of calculation.personnel) {
+      const key = person.employee_class.trim().toLowerCase();
+      const amounts = byClass.get(key) || periodNumbers.map(() => 0);
+      person.periods.forEach((period, index) => {
+        amounts[index] = roundCents(amounts[index] + period.fringe);
+      });
+      byClass.set(key, amounts);
+    }
+    return Array.from(byClass, ([key, amounts]) => {
+      const fringe = rates.get(key);
+      return {
+        label: fringe
+          ? `${fringe.employee_class} at ${fringe.rate}% of salaries`
+          : `${key} (no fringe rate)`,
+        amounts,
+      };
+    });
+  }
+
+  if (category === 'indirect_costs') {
+    return [
+      {
+        label: `${inputs.indirect_rate}% of the ${inputs.indirect_base === 'tdc' ? 'total' : 'modified total'} direct cost base`,
+        amounts: calculation.periods.map((period) => period.categories.indirect_costs),
+      },
+      {
+        label: 'Indirect cost base (for reference, not charged)',
+        amounts: calculation.periods.map((period) => period.indirect_base_amount),
+      },
+    ];
+  }
+
+  return inputs.cost_items
+    .filter((item) => item.category === category)
+    .map((item) => ({
+      label: `${item.description}${item.subrecipient ? ` (subaward to ${item.subrecipient})` : ''}${
+        item.mtdc_excluded ? ' - excluded from the indirect cost base' : ''
+      }`,
+      amounts: periodNumbers.map((number) => (number === item.period_number ? item.amount : 0)),
+    }));
+}
+
+/**
+ * The narrative budget justification: one section per category, built from
+ * the line item descriptions and, for built budgets, the builder's detail
+ */
+export function justificationBlocks(
+  form: Sf424aForm,
+  lineItems: ExportLineItem[],
+  builder: { inputs: BudgetBuilderInputs; calculation: BudgetCalculation } | null,
+): ExportBlock[] {
+  const blocks: ExportBlock[] = [
+    { type: 'heading', text: `Budget Justification: ${form.program}` },
+    {
+      type: 'paragraph',
+      text: `${form.applicant} requests ${formatCurrency(form.federal_total)} over ${
+        form.periods.length
+      } budget period${form.periods.length === 1 ? '' : 's'}${
+        form.non_federal.total > 0
+          ? `, with ${formatCurrency(form.non_federal.total)} in non-federal match`
+          : ''
+      }.`,
+    },
+  ];
+
+  const periodHeader = form.periods.map((period) => `Period ${period.period_number}`);
+  const sections: Array<[string, string]> = [
+    ...ROLLUP_CATEGORIES.map((category): [string, string] => [category, CATEGORY_LABELS[category]]),
+    ['match_cash', 'Cash Match'],
+    ['match_in_kind', 'In-Kind Match'],
+  ];
+
+  for (const [category, label] of sections) {
+    const items = lineItems.filter((item) => item.category === category);
+    const rollupCategory = ROLLUP_CATEGORIES.find((rollup) => rollup === category);
+    const amounts = rollupCategory
+      ? form.periods.map((period) => period.categories[rollupCategory])
+      : [];
+    const total = rollupCategory
+      ? sumOf(amounts)
+      : sumOf(items.map((item) => Number(item.proposed_amount)));
+
+    if (total === 0 && items.length === 0) {
+      continue;
+    }
+
+    blocks.push({ type: 'heading', text: `${label}: ${formatCurrency(total)}` });
+
+    for (const item of items) {
+      if (item.description?.trim()) {
+        blocks.push({ type: 'paragraph', text: item.description.trim() });
+      }
+      if (item.notes?.trim()) {
+        blocks.push({ type: 'paragraph', text: item.notes.trim() });
+      }
+    }
+
+    const details = builder && rollupCategory ? builderDetails(rollupCategory, builder) : [];
+    if (details.length > 0) {
+      blocks.push({
+        type: 'table',
+        header: ['Item', ...periodHeader, 'Total'],
+        rows: [
+          ...details.map((detail) => ({
+            cells: [detail.label, ...detail.amounts, sumOf(detail.amounts)],
+          })),
+          { cells: ['Total', ...amounts, total], bold: true },
+        ],
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Spreadsheet rows of a document, tables separated by a blank row
+ */
+export function blocksToRows(blocks: ExportBlock[]): XlsxRow[] {
+  const rows: XlsxRow[] = [];
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      rows.push({ cells: [block.text], bold: true });
+    } else if (block.type === 'paragraph') {
+      rows.push({ cells: [block.text] });
+    } else {
+      rows.push({ cells: block.header, bold: true }, ...block.rows, { cells: [] });
+    }
+  }
+  return rows;
+}
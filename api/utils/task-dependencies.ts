@@ -0,0 +1,402 @@
+/**
+ * Task Dependencies and Critical Path
+ *
+ * A task may depend on other tasks of the same grant. Tasks with unfinished
+ * predecessors are moved to `blocked` (and flagged `auto_blocked`) and return
+ * to `pending` once every predecessor is completed; tasks blocked by hand are
+ * left alone.
+ *
+ * The schedule is a classic critical-path pass in calendar days: a forward
+ * pass from today using `estimated_days` (1 when unset) gives each open task
+ * its earliest finish, and a backward pass from the grant's internal_deadline
+ * (or close_date) and each task's own deadline gives its latest finish. Slack
+ * is the difference; negative slack means the task cannot finish in time.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ESTIMATED_DAYS = 1;
+
+export interface TaskDependency {
+  task_id: string;
+  depends_on_task_id: string;
+}
+
+export interface SchedulableTask {
+  id: string;
+  status: string;
+  estimated_days?: number | null;
+  due_date?: string | null;
+  internal_deadline?: string | null;
+}
+
+export interface GrantDeadlines {
+  internal_deadline?: string | null;
+  close_date?: string | null;
+}
+
+export interface TaskScheduleEntry {
+  task_id: string;
+  earliest_start: string;
+  earliest_finish: string;
+  latest_finish: string | null;
+  slack_days: number | null;
+  is_critical: boolean;
+  blocked_by: string[];
+}
+
+export interface TaskSchedule {
+  deadline: string | null;
+  deadline_source: 'internal_deadline' | 'close_date' | null;
+  projected_finish: string | null;
+  slack_days: number | null;
+  critical_path: string[];
+  negative_slack_task_ids: string[];
+  tasks: TaskScheduleEntry[];
+}
+
+function toDay(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function minOf(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? Math.min(...present) : null;
+}
+
+function groupBy(dependencies: TaskDependency[], key: keyof TaskDependency) {
+  const other: keyof TaskDependency = key === 'task_id' ? 'depends_on_task_id' : 'task_id';
+  const map = new Map<string, string[]>();
+  for (const dependency of dependencies) {
+    const list = map.get(dependency[key]) || [];
+    list.push(dependency[other]);
+    map.set(dependency[key], list);
+  }
+  return map;
+}
+
+/**
+ * Check whether giving `taskId` the predecessors `dependsOn` would create a cycle
+ *
+ * @param dependencies - Current dependencies of the grant
+ * @returns The cycle as task IDs (starting and ending with taskId), or null
+ */
+export function findDependencyCycle(
+  dependencies: TaskDependency[],
+  taskId: string,
+  dependsOn: string[],
+): string[] | null {
+  // The task's current predecessors are being replaced
+  const predecessors = groupBy(
+    dependencies.filter((dependency) => dependency.task_id !== taskId),
+    'task_id',
+  );
+  predecessors.set(taskId, dependsOn);
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): boolean => {
+    if (id === taskId && path.length > 0) {
+      return true;
+    }
+    if (visited.has(id)) {
+      return false;
+    }
+    visited.add(id);
+    path.push(id);
+    for (const predecessor of predecessors.get(id) || []) {
+      if (visit(predecessor)) {
+        return true;
+      }
+    }
+    path.pop();
+    return false;
+  };
+
+  return visit(taskId) ? [...path, taskId] : null;
+}
+
+/**
+ * Tasks in dependency order (predecessors first). Tasks caught in a cycle,
+ * which the API prevents, are appended at the end.
+ */
+function topologicalOrder<T extends SchedulableTask>(
+  tasks: T[],
+  dependencies: TaskDependency[],
+): T[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const successors = groupBy(dependencies, 'depends_on_task_id');
+  const remaining = new Map<string, number>(tasks.map((task) => [task.id, 0]));
+
+  for (const dependency of dependencies) {
+    if (byId.has(dependency.task_id) && byId.has(dependency.depends_on_task_id)) {
+      remaining.set(dependency.task_id, (remaining.get(dependency.task_id) || 0) + 1);
+    }
+  }
+
+  const queue = tasks.filter((task) => remaining.get(task.id) === 0);
+  const order: T[] = [];
+
+  while (queue.length > 0) {
+    const task = queue.shift()!;
+    order.push(task);
+    for (const successorId of successors.get(task.id) || []) {
+      const count = (remaining.get(successorId) ?? 0) - 1;
+      remaining.set(successorId, count);
+      if (count === 0 && byId.has(successorId)) {
+        queue.push(byId.get(successorId)!);
+      }
+    }
+  }
+
+  const ordered = new Set(order.map((task) => task.id));
+  return [...order, ...tasks.filter((task) => !ordered.has(task.id))];
+}
+
+/**
+ * Compute earliest/latest finish, slack and the critical path for a grant's tasks
+ */
+export function computeTaskSchedule(
+  tasks: SchedulableTask[],
+  dependencies: TaskDependency[],
+  grant: GrantDeadlines,
+  now: Date = new Date(),
+): TaskSchedule {
+  const today = Math.floor(now.getTime() / DAY_MS);
+  const deadlineSource = grant.internal_deadline
+    ? 'internal_deadline'
+    : grant.close_date
+      ? 'close_date'
+      : null;
+  const deadline = toDay(grant.internal_deadline) ?? toDay(grant.close_date);
+
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const predecessors = groupBy(dependencies, 'task_id');
+  const successors = groupBy(dependencies, 'depends_on_task_id');
+  const isOpen = (task: SchedulableTask | undefined) => !!task && task.status !== 'completed';
+  const duration = (task: SchedulableTask) => task.estimated_days ?? DEFAULT_ESTIMATED_DAYS;
+
+  const order = topologicalOrder(tasks, dependencies);
+  const earliestFinish = new Map<string, number>();
+  const latestStart = new Map<string, number | null>();
+  const latestFinish = new Map<string, number | null>();
+
+  // Forward pass: completed tasks never delay their successors
+  for (const task of order) {
+    if (!isOpen(task)) {
+      continue;
+    }
+    const start = Math.max(
+      today,
+      ...(predecessors.get(task.id) || []).map((id) => earliestFinish.get(id) ?? today),
+    );
+    earliestFinish.set(task.id, start + duration(task));
+  }
+
+  // Backward pass
+  for (const task of [...order].reverse()) {
+    if (!isOpen(task)) {
+      continue;
+    }
+    const finish = minOf([
+      deadline,
+      toDay(task.internal_deadline) ?? toDay(task.due_date),
+      ...(successors.get(task.id) || [])
+        .filter((id) => isOpen(byId.get(id)))
+        .map((id) => latestStart.get(id) ?? null),
+    ]);
+    latestFinish.set(task.id, finish);
+    latestStart.set(task.id, finish === null ? null : finish - duration(task));
+  }
+
+  const entries: TaskScheduleEntry[] = order.filter(isOpen).map((task) => {
+    const finish = earliestFinish.get(task.id)!;
+    const lateFinish = latestFinish.get(task.id) ?? null;
+    return {
+      task_id: task.id,
+      earliest_start: fromDay(finish - duration(task)),
+      earliest_finish: fromDay(finish),
+      latest_finish: lateFinish === null ? null : fromDay(lateFinish),
+      slack_days: lateFinish === null ? null : lateFinish - finish,
+      is_critical: false,
+      blocked_by: (predecessors.get(task.id) || []).filter((id) => isOpen(byId.get(id))),
+    };
+  });
+
+  const minSlack = minOf(entries.map((entry) => entry.slack_days));
+  for (const entry of entries) {
+    entry.is_critical = minSlack !== null && entry.slack_days === minSlack;
+  }
+
+  const projectedFinish = entries.length > 0 ? Math.max(...earliestFinish.values()) : null;
+
+  return {
+    deadline: deadline === null ? null : fromDay(deadline),
+    deadline_source: deadlineSource,
+    projected_finish: projectedFinish === null ? null : fromDay(projectedFinish),
+    slack_days: minSlack,
+    critical_path: entries.filter((entry) => entry.is_critical).map((entry) => entry.task_id),
+    negative_slack_task_ids: entries
+      .filter((entry) => entry.slack_days !== null && entry.slack_days < 0)
+      .map((entry) => entry.task_id),
+    tasks: entries,
+  };
+}
+
+/**
+ * All dependencies between the tasks of a grant
+ */
+export async function fetchGrantDependencies(
+  supabase: SupabaseClient,
+  grantId: string,
+): Promise<TaskDependency[]> {
+  const { data, error } = await supabase
+    .from('grant_task_dependencies')
+    .select('task_id, depends_on_task_id')
+    .eq('grant_id', grantId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as TaskDependency[];
+}
+
+/**
+ * Replace a task's predecessors
+ *
+ * @returns An error message when a predecessor is invalid or a cycle would form
+ */
+export async function setTaskDependencies(
+  supabase: SupabaseClient,
+  task: { id: string; grant_id: string; org_id: string },
+  dependsOn: string[],
+  userId: string,
+): Promise<string | null> {
+  const uniqueIds = Array.from(new Set(dependsOn));
+
+  if (uniqueIds.includes(task.id)) {
+    return 'A task cannot depend on itself';
+  }
+
+  if (uniqueIds.length > 0) {
+    const { data: predecessors } = await supabase
+      .from('grant_tasks')
+      .select('id')
+      .eq('grant_id', task.grant_id)
+      .in('id', uniqueIds);
+
+    if ((predecessors || []).length !== uniqueIds.length) {
+      return 'Dependencies must be tasks of the same grant';
+    }
+  }
+
+  const dependencies = await fetchGrantDependencies(supabase, task.grant_id);
+  const cycle = findDependencyCycle(dependencies, task.id, uniqueIds);
+  if (cycle) {
+    return `Dependency cycle detected: ${cycle.join(' -> ')}`;
+  }
+
+  const current = dependencies
+    .filter((dependency) => dependency.task_id === task.id)
+    .map((dependency) => dependency.depends_on_task_id);
+  const removed = current.filter((id) => !uniqueIds.includes(id));
+  const added = uniqueIds.filter((id) => !current.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('grant_task_dependencies')
+      .delete()
+      .eq('task_id', task.id)
+      .in('depends_on_task_id', removed);
+    if (error) {
+      throw error;
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase.from('grant_task_dependencies').insert(
+      added.map((dependsOnId) => ({
+        task_id: task.id,
+        depends_on_task_id: dependsOnId,
+        grant_id: task.grant_id,
+        org_id: task.org_id,
+        created_by: userId,
+      })),
+    );
+    if (error) {
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Block pending tasks with unfinished predecessors and unblock auto-blocked
+ * tasks whose predecessors are all completed
+ *
+ * @returns IDs of tasks whose status changed
+ */
+export async function syncBlockedStatuses(
+  supabase: SupabaseClient,
+  grantId: string,
+): Promise<{ blocked: string[]; unblocked: string[] }> {
+  const [{ data: tasks, error }, dependencies] = await Promise.all([
+    supabase.from('grant_tasks').select('id, status, auto_blocked').eq('grant_id', grantId),
+    fetchGrantDependencies(supabase, grantId),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  const statusById = new Map((tasks || []).map((task) => [task.id, task.status as string]));
+  const predecessors = groupBy(dependencies, 'task_id');
+  const hasOpenPredecessor = (id: string) =>
+    (predecessors.get(id) || []).some((predecessorId) => {
+      const status = statusById.get(predecessorId);
+      return status !== undefined && status !== 'completed';
+    });
+
+  const blocked = (tasks || [])
+    .filter((task) => task.status === 'pending' && hasOpenPredecessor(task.id))
+    .map((task) => task.id);
+  const unblocked = (tasks || [])
+    .filter(
+      (task) => task.status === 'blocked' && task.auto_blocked && !hasOpenPredecessor(task.id),
+    )
+    .map((task) => task.id);
+
+  if (blocked.length > 0) {
+    const { error: blockError } = await supabase
+      .from('grant_tasks')
+      .update({ status: 'blocked', auto_blocked: true })
+      .in('id', blocked);
+    if (blockError) {
+      throw blockError;
+    }
+  }
+
+  if (unblocked.length > 0) {
+    const { error: unblockError } = await supabase
+      .from('grant_tasks')
+      .update({ status: 'pending', auto_blocked: false })
+      .in('id', unblocked);
+    if (unblockError) {
+      throw unblockError;
+    }
+  }
+
+  return { blocked, unblocked };
+}
@@ -0,0 +1,274 @@
+/**
+ * Task Templates
+ *
+ * Org-level sets of tasks that are copied onto a grant. Due dates are offsets
+ * from the grant's close date or LOI deadline, and assignees are resolved from
+ * a role at apply time. Each created task records its template item, so
+ * applying a template twice only adds the items that are missing.
+ *
+ * A template can target a funder or an agency. When a grant enters a stage,
+ * only the most specific active templates for that stage are applied: funder
+ * templates win over agency templates, which win over general ones.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Assignee role meaning "whoever owns the grant"
+export const GRANT_OWNER_ROLE = 'grant_owner';
+
+export const TEMPLATE_TASK_TYPES = [
+  'research',
+  'budget',
+  'narrative',
+  'letters',
+  'documents',
+  'submission',
+  'custom',
+] as const;
+
+export interface TaskTemplateItem {
+  id: string;
+  template_id: string;
+  title: string;
+  description: string | null;
+  task_type: string;
+  due_offset_days: number | null;
+  due_offset_from: 'close_date' | 'loi_deadline';
+  default_assignee_role: string | null;
+  is_required: boolean;
+  estimated_days: number | null;
+  position: number;
+}
+
+export interface TaskTemplate {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  funder_id: string | null;
+  agency: string | null;
+  apply_on_stage: string | null;
+  is_active: boolean;
+  task_template_items?: TaskTemplateItem[];
+}
+
+export interface TemplateGrant {
+  id: string;
+  org_id: string;
+  agency: string | null;
+  funder_id: string | null;
+  close_date: string | null;
+  loi_deadline: string | null;
+  assigned_to: string | null;
+}
+
+export const TEMPLATE_GRANT_COLUMNS =
+  'id, org_id, agency, funder_id, close_date, loi_deadline, assigned_to';
+
+/**
+ * How specifically a template targets a grant: 2 for its funder, 1 for its
+ * agency, 0 for a general template, null when it targets something else
+ */
+export function templateMatchRank(template: TaskTemplate, grant: TemplateGrant): number | null {
+  if (template.funder_id) {
+    return template.funder_id === grant.funder_id ? 2 : null;
+  }
+  if (template.agency) {
+    return grant.agency?.trim().toLowerCase() === template.agency.trim().toLowerCase() ? 1 : null;
+  }
+  return 0;
+}
+
+/**
+ * The most specific matching templates
+ */
+export function selectMatchingTemplates(
+  templates: TaskTemplate[],
+  grant: TemplateGrant,
+): TaskTemplate[] {
+  const ranked = templates
+    .map((template) => ({ template, rank: templateMatchRank(template, grant) }))
+    .filter((entry): entry is { template: TaskTemplate; rank: number } => entry.rank !== null);
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const best = Math.max(...ranked.map((entry) => entry.rank));
+  return ranked.filter((entry) => entry.rank === best).map((entry) => entry.template);
+}
+
+/**
+ * Due date (YYYY-MM-DD) for an item on a grant, or null when the item has no
+ * offset or the grant lacks the date it is relative to
+ */
+export function computeTemplateDueDate(
+  item: Pick<TaskTemplateItem, 'due_offset_days' | 'due_offset_from'>,
+  grant: Pick<TemplateGrant, 'close_date' | 'loi_deadline'>,
+): string | null {
+  if (item.due_offset_days === null) {
+    return null;
+  }
+  const base = item.due_offset_from === 'loi_deadline' ? grant.loi_deadline : grant.close_date;
+  const time = base ? Date.parse(base) : NaN;
+  if (isNaN(time)) {
+    return null;
+  }
+  return new Date(time + item.due_offset_days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Map each assignee role to a member of the organization
+ */
+async function resolveAssignees(
+  supabase: SupabaseClient,
+  grant: TemplateGrant,
+  roles: string[],
+): Promise<Map<string, string | null>> {
+  const assignees = new Map<string, string | null>();
+  const rbacRoles = roles.filter((role) => role !== GRANT_OWNER_ROLE);
+
+  if (roles.includes(GRANT_OWNER_ROLE)) {
+    assignees.set(GRANT_OWNER_ROLE, grant.assigned_to);
+  }
+
+  if (rbacRoles.length === 0) {
+    return assignees;
+  }
+
+  const { data: assignments } = await supabase
+    .from('user_role_assignments')
+    .select('user_id, assigned_at, roles(name)')
+    .eq('org_id', grant.org_id)
+    .order('assigned_at', { ascending: true });
+
+  for (const role of rbacRoles) {
+    const holders = (assignments || [])
+      .filter((assignment) => {
+        const assigned = assignment.roles as unknown as
+          | { name: string }
+          | { name: string }[]
+          | null;
+        const names = Array.isArray(assigned) ? assigned.map((r) => r.name) : [assigned?.name];
+        return names.includes(role);
+      })
+      .map((assignment) => assignment.user_id as string);
+
+    // Prefer the grant owner when they hold the role
+    const owner = holders.find((userId) => userId === grant.assigned_to);
+    assignees.set(role, owner || holders[0] || null);
+  }
+
+  return assignees;
+}
+
+/**
+ * Create the template's tasks on a grant, skipping items already applied
+ *
+ * Assignment notifications are not sent for template tasks; a template can
+ * create many tasks at once.
+ */
+export async function applyTaskTemplate(
+  supabase: SupabaseClient,
+  template: TaskTemplate,
+  grant: TemplateGrant,
+  userId: string,
+): Promise<{ created: Record<string, unknown>[]; skipped: number }> {
+  const items = [...(template.task_template_items || [])].sort((a, b) => a.position - b.position);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('grant_tasks')
+    .select('position, template_item_id')
+    .eq('grant_id', grant.id);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const appliedItemIds = new Set((existing || []).map((task) => task.template_item_id));
+  const pending = items.filter((item) => !appliedItemIds.has(item.id));
+
+  if (pending.length === 0) {
+    return { created: [], skipped: items.length };
+  }
+
+  const roles = Array.from(
+    new Set(
+      pending.map((item) => item.default_assignee_role).filter((role): role is string => !!role),
+    ),
+  );
+  const assignees = await resolveAssignees(supabase, grant, roles);
+  const lastPosition = Math.max(0, ...(existing || []).map((task) => task.position || 0));
+
+  const { data: created, error } = await supabase
+    .from('grant_tasks')
+    .insert(
+      pending.map((item, index) => ({
+        grant_id: grant.id,
+        org_id: grant.org_id,
+        title: item.title,
+        description: item.description,
+        task_type: item.task_type,
+        status: 'pending',
+        assigned_to: item.default_assignee_role
+          ? assignees.get(item.default_assignee_role) || null
+          : null,
+        due_date: computeTemplateDueDate(item, grant),
+        position: lastPosition + index + 1,
+        is_required: item.is_required,
+        estimated_days: item.estimated_days,
+        template_item_id: item.id,
+        created_by: userId,
+      })),
+    )
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return { created: created || [], skipped: items.length - pending.length };
+}
+
+/**
+ * Apply the active templates for a stage to a grant that just entered it
+ *
+ * @returns Number of tasks created
+ */
+export async function applyStageTaskTemplates(
+  supabase: SupabaseClient,
+  grantId: string,
+  stage: string,
+  userId: string,
+): Promise<number> {
+  const { data: grant } = await supabase
+    .from('org_grants_saved')
+    .select(TEMPLATE_GRANT_COLUMNS)
+    .eq('id', grantId)
+    .single();
+
+  if (!grant) {
+    return 0;
+  }
+
+  const { data: templates, error } = await supabase
+    .from('task_templates')
+    .select('*, task_template_items(*)')
+    .eq('org_id', grant.org_id)
+    .eq('apply_on_stage', stage)
+    .eq('is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  let createdCount = 0;
+  for (const template of selectMatchingTemplates((templates || []) as TaskTemplate[], grant)) {
+    const { created } = await applyTaskTemplate(supabase, template, grant, userId);
+    createdCount += created.length;
+  }
+
+  return createdCount;
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { NOTIFICATION_EVENT_TYPES } from './notification-preferences.js';
+import { BUILDER_COST_CATEGORIES, MAX_BUDGET_PERIODS } from './budget-builder.js';
+import { EXPORT_FORMATS, MAPPING_CATEGORIES } from './accounting-export.js';
 
 /**
  * Validation Schemas for Grant Tracker API
@@ -27,6 +30,11 @@ export const dateStringSchema = z.string().datetime({ message: 'Invalid date for
   z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, { message: 'Date must be in MM/DD/YYYY format' })
 ).optional().nullable();
 
+// Pipeline stage key (see api/utils/pipeline-stages.ts)
+export const stageKeySchema = z.string().max(50).regex(/^[a-z0-9][a-z0-9-]*$/, {
+  message: 'Stage key must use lowercase letters, numbers and hyphens',
+});
+
 export const paginationSchema = z.object({
   limit: z.number().int().min(1).max(100).optional().default(20),
   offset: z.number().int().min(0).optional().default(0),
@@ -54,7 +62,8 @@ export const grantDetailsSchema = z.object({
 
 export const savedGrantCreateSchema = z.object({
   org_id: uuidSchema,
-  user_id: uuidSchema,
+  // Defaults to the authenticated user (or the creator of the API key)
+  user_id: uuidSchema.optional(),
   external_id: z.string().min(1, { message: 'External ID is required' }),
   title: z.string().min(1, { message: 'Title is required' }).max(500),
   agency: z.string().max(500).optional(),
@@ -65,14 +74,20 @@ export const savedGrantCreateSchema = z.object({
   loi_deadline: dateStringSchema,
   internal_deadline: dateStringSchema,
   description: z.string().max(50000).optional(),
-  status: z.enum(['researching', 'planning', 'writing', 'submitted', 'awarded', 'rejected', 'withdrawn']).optional(),
+  // Checked against the organization's pipeline stages
+  status: stageKeySchema.optional(),
   priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
   assigned_to: uuidSchema.optional(),
+  // Defaults to the organization's default pipeline
+  pipeline_id: uuidSchema.optional(),
 });
 
 export const savedGrantUpdateSchema = z.object({
   notes: z.string().max(10000).optional(),
-  status: z.enum(['researching', 'planning', 'writing', 'submitted', 'awarded', 'rejected', 'withdrawn']).optional(),
+  // Checked against the organization's pipeline stages
+  status: stageKeySchema.optional(),
+  // Moves the grant; without a status it goes to the pipeline's first open stage
+  pipeline_id: uuidSchema.optional(),
   priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
   assigned_to: uuidSchema.optional().nullable(),
   description: z.string().max(50000).optional(),
@@ -88,6 +103,7 @@ export const savedGrantUpdateSchema = z.object({
 
 export const savedGrantQuerySchema = z.object({
   org_id: uuidSchema,
+  pipeline_id: uuidSchema.optional(),
   format: z.enum(['json', 'csv']).optional(),
 });
 
@@ -95,6 +111,15 @@ export const savedGrantQuerySchema = z.object({
 // Task-related Schemas
 // ============================================
 
+// RRULE schedule shared by tasks and compliance requirements (see utils/recurrence)
+const recurrenceFields = {
+  recurrence_rule: z.string().max(200).optional().nullable(),
+  recurrence_start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' }).optional().nullable(),
+  recurrence_offset_days: z.number().int().min(-365).max(365).optional(),
+};
+
+export const recurrenceSchema = z.object(recurrenceFields);
+
 export const taskCreateSchema = z.object({
   grant_id: uuidSchema,
   org_id: uuidSchema,
@@ -107,7 +132,11 @@ export const taskCreateSchema = z.object({
   position: z.number().int().min(0).optional(),
   is_required: z.boolean().optional(),
   notes: z.string().max(10000).optional(),
-  created_by: uuidSchema,
+  estimated_days: z.number().int().min(0).max(365).optional().nullable(),
+  depends_on: z.array(uuidSchema).max(50).optional(),
+  ...recurrenceFields,
+  // Defaults to the authenticated user (or the creator of the API key)
+  created_by: uuidSchema.optional(),
 });
 
 export const taskUpdateSchema = z.object({
@@ -120,13 +149,325 @@ export const taskUpdateSchema = z.object({
   position: z.number().int().min(0).optional(),
   is_required: z.boolean().optional(),
   notes: z.string().max(10000).optional(),
+  estimated_days: z.number().int().min(0).max(365).optional().nullable(),
+  // Replaces the task's predecessors
+  depends_on: z.array(uuidSchema).max(50).optional(),
+  ...recurrenceFields,
 }).strict();
 
 export const taskQuerySchema = z.object({
-  grant_id: uuidSchema,
+  grant_id: uuidSchema.optional(),
   org_id: uuidSchema.optional(),
+}).refine((query) => query.grant_id || query.org_id, {
+  message: 'grant_id or org_id is required',
+  path: ['grant_id'],
+});
+
+export const taskTemplateItemSchema = z.object({
+  title: z.string().min(1, { message: 'Title is required' }).max(500),
+  description: z.string().max(10000).optional().nullable(),
+  task_type: z.enum(['research', 'budget', 'narrative', 'letters', 'documents', 'submission', 'custom']).optional(),
+  due_offset_days: z.number().int().min(-3650).max(3650).optional().nullable(),
+  due_offset_from: z.enum(['close_date', 'loi_deadline']).optional(),
+  default_assignee_role: z.string().max(100).optional().nullable(),
+  is_required: z.boolean().optional(),
+  estimated_days: z.number().int().min(0).max(365).optional().nullable(),
+});
+
+export const taskTemplateCreateSchema = z.object({
+  org_id: uuidSchema,
+  name: z.string().min(1, { message: 'Name is required' }).max(200),
+  description: z.string().max(10000).optional().nullable(),
+  funder_id: uuidSchema.optional().nullable(),
+  agency: z.string().max(200).optional().nullable(),
+  apply_on_stage: z.string().max(50).optional().nullable(),
+  is_active: z.boolean().optional(),
+  items: z.array(taskTemplateItemSchema).max(100).optional(),
+});
+
+export const taskTemplateUpdateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(10000).optional().nullable(),
+  funder_id: uuidSchema.optional().nullable(),
+  agency: z.string().max(200).optional().nullable(),
+  apply_on_stage: z.string().max(50).optional().nullable(),
+  is_active: z.boolean().optional(),
+  // Replaces the template's items
+  items: z.array(taskTemplateItemSchema).max(100).optional(),
+}).strict();
+
+export const taskTemplateApplySchema = z.object({
+  template_id: uuidSchema,
+  grant_id: uuidSchema,
 });
 
+export const teamCapacityQuerySchema = z.object({
+  org_id: uuidSchema,
+  candidate_grant_id: uuidSchema.optional(),
+});
+
+export const teamCapacityUpdateSchema = z.object({
+  org_id: uuidSchema,
+  // null resets a member to the default weekly hours
+  members: z.array(z.object({
+    user_id: uuidSchema,
+    weekly_hours: z.number().min(0).max(168).nullable(),
+  })).max(500).optional(),
+  effort: z.array(z.object({
+    kind: z.enum(['task_type', 'grant_source']),
+    key: z.string().min(1).max(100),
+    hours: z.number().min(0).max(10000),
+  })).max(100).optional(),
+}).strict();
+
+export const pipelineStageSchema = z.object({
+  // Omitted for a new stage; derived from the label
+  key: stageKeySchema.optional(),
+  label: z.string().trim().min(1, { message: 'Stage name is required' }).max(100),
+  color: z.enum(['blue', 'cyan', 'teal', 'green', 'lime', 'yellow', 'orange', 'red', 'pink', 'grape', 'violet', 'indigo', 'gray', 'dark']),
+  outcome: z.enum(['won', 'lost']).nullable().optional(),
+  is_terminal: z.boolean().optional(),
+  show_on_board: z.boolean().optional(),
+  required_fields: z.array(z.enum(['assigned_to', 'priority', 'close_date', 'loi_deadline', 'internal_deadline', 'funder_id', 'program', 'aln', 'description', 'notes'])).max(10).optional(),
+  wip_limit: z.number().int().positive().max(1000).nullable().optional(),
+  wip_limit_mode: z.enum(['warn', 'block']).optional(),
+  stale_after_days: z.number().int().positive().max(365).nullable().optional(),
+});
+
+export const pipelineStagesUpdateSchema = z.object({
+  org_id: uuidSchema,
+  // Defaults to the organization's default pipeline
+  pipeline_id: uuidSchema.optional(),
+  // The full list in order; stages left out are removed
+  stages: z.array(pipelineStageSchema).min(1).max(30),
+}).strict();
+
+const pipelineColorSchema = z.enum(['blue', 'cyan', 'teal', 'green', 'lime', 'yellow', 'orange', 'red', 'pink', 'grape', 'violet', 'indigo', 'gray', 'dark']);
+
+export const pipelineCreateSchema = z.object({
+  org_id: uuidSchema,
+  name: z.string().trim().min(1, { message: 'Pipeline name is required' }).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  color: pipelineColorSchema.optional(),
+  // Empty for a pipeline open to the whole organization
+  member_ids: z.array(uuidSchema).max(500).optional(),
+  // Pipeline whose stages are copied; defaults to the default pipeline
+  copy_stages_from: uuidSchema.optional(),
+}).strict();
+
+export const pipelineUpdateSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Pipeline name is required' }).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  color: pipelineColorSchema.optional(),
+  position: z.number().int().min(0).max(1000).optional(),
+  // Only true; another pipeline must be made default instead
+  is_default: z.literal(true).optional(),
+  member_ids: z.array(uuidSchema).max(500).optional(),
+}).strict();
+
+// ============================================
+// Notification Preference Schemas
+// ============================================
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+  message: 'Time must be HH:MM',
+});
+
+export const notificationRouteSchema = z.object({
+  email: z.boolean(),
+  in_app: z.boolean(),
+  slack: z.boolean(),
+  teams: z.boolean(),
+  delivery: z.enum(['immediate', 'digest']),
+}).strict();
+
+export const notificationPreferencesUpdateSchema = z.object({
+  org_id: uuidSchema,
+  // Events left out keep their current routing
+  routes: z.partialRecord(z.enum(NOTIFICATION_EVENT_TYPES), notificationRouteSchema).optional(),
+  // Both null turns quiet hours off
+  quiet_hours_start: timeOfDaySchema.nullable().optional(),
+  quiet_hours_end: timeOfDaySchema.nullable().optional(),
+  timezone: z.string().max(100).refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Unknown time zone' }).optional(),
+  digest_frequency: z.enum(['hourly', 'daily']).optional(),
+  // Hour of the day the daily digest goes out, in the user's time zone
+  digest_hour: z.number().int().min(0).max(23).optional(),
+}).strict().refine(
+  (data) => (data.quiet_hours_start === undefined) === (data.quiet_hours_end === undefined)
+    && (data.quiet_hours_start === null) === (data.quiet_hours_end === null),
+  { message: 'Quiet hours need both a start and an end' },
+);
+
+// ============================================
+// Budget Builder Schemas
+// ============================================
+
+const percentSchema = z.number().min(0).max(100);
+const periodNumberSchema = z.number().int().min(1).max(MAX_BUDGET_PERIODS);
+const amountSchema = z.number().min(0).max(9999999999);
+
+export const budgetBuilderUpdateSchema = z.object({
+  budget_id: uuidSchema,
+  periods: z.array(z.object({
+    period_number: periodNumberSchema,
+    start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+    end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  }).strict()).min(1, { message: 'At least one budget period is required' }).max(MAX_BUDGET_PERIODS),
+  fringe_rates: z.array(z.object({
+    employee_class: z.string().trim().min(1).max(100),
+    rate: percentSchema,
+  }).strict()).max(50),
+  personnel: z.array(z.object({
+    name: z.string().trim().min(1, { message: 'Name is required' }).max(200),
+    position_title: z.string().max(200).nullable(),
+    employee_class: z.string().trim().min(1).max(100),
+    annual_salary: amountSchema,
+    effort_percent: percentSchema,
+    months: z.number().min(0).max(12),
+    escalation_percent: percentSchema,
+    first_period: periodNumberSchema,
+    last_period: periodNumberSchema.nullable(),
+  }).strict()).max(200),
+  cost_items: z.array(z.object({
+    period_number: periodNumberSchema,
+    category: z.enum(BUILDER_COST_CATEGORIES),
+    description: z.string().trim().min(1, { message: 'Description is required' }).max(1000),
+    amount: amountSchema,
+    subrecipient: z.string().max(200).nullable(),
+    mtdc_excluded: z.boolean(),
+  }).strict()).max(1000),
+  indirect_rate: percentSchema,
+  indirect_base: z.enum(['mtdc', 'tdc']),
+}).strict().refine(
+  (data) => new Set(data.periods.map((period) => period.period_number)).size === data.periods.length,
+  { message: 'Budget period numbers must be unique' },
+).refine(
+  (data) => new Set(data.fringe_rates.map((fringe) => fringe.employee_class.toLowerCase())).size === data.fringe_rates.length,
+  { message: 'Each employee class can only have one fringe rate' },
+).refine(
+  (data) => data.personnel.every((person) => person.last_period === null || person.last_period >= person.first_period),
+  { message: 'A person\'s last budget period can\'t be before their first' },
+);
+
+// ============================================
+// Budget Revision Schemas
+// ============================================
+
+export const budgetRevisionCreateSchema = z.object({
+  budget_id: uuidSchema,
+  reason: z.string().trim().min(1, { message: 'A reason is required' }).max(5000),
+  lines: z.array(z.object({
+    line_item_id: uuidSchema,
+    after_amount: amountSchema,
+  }).strict()).min(1, { message: 'Change at least one line item' }).max(200),
+}).strict().refine(
+  (data) => new Set(data.lines.map((line) => line.line_item_id)).size === data.lines.length,
+  { message: 'Each line item can only be changed once' },
+);
+
+export const budgetRevisionDecisionSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  comments: z.string().max(5000).nullable().optional(),
+}).strict();
+
+// ============================================
+// Bank Reconciliation Schemas
+// ============================================
+
+// A statement row as parsed from the bank or general-ledger CSV
+// (see api/utils/reconciliation.ts)
+const statementRowSchema = z.object({
+  row: z.number().int().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' }),
+  amount: z.number().min(-9999999999).max(9999999999),
+  description: z.string().max(1000),
+  reference: z.string().max(255).nullable(),
+}).strict();
+
+const statementRowsSchema = z.array(statementRowSchema)
+  .min(1, { message: 'The statement has no rows' })
+  .max(5000, { message: 'Statements are limited to 5000 rows' })
+  .refine(
+    (rows) => new Set(rows.map((row) => row.row)).size === rows.length,
+    { message: 'Row numbers must be unique' },
+  );
+
+export const reconciliationMatchSchema = z.object({
+  org_id: uuidSchema,
+  rows: statementRowsSchema,
+}).strict();
+
+export const reconciliationApplySchema = z.object({
+  org_id: uuidSchema,
+  file_name: z.string().trim().min(1).max(255),
+  rows: statementRowsSchema,
+  matches: z.array(z.object({
+    row: z.number().int().min(1),
+    kind: z.enum(['disbursement', 'payment_schedule']),
+    id: uuidSchema,
+  }).strict()).max(5000),
+}).strict().refine(
+  (data) => {
+    const rows = new Set(data.rows.map((row) => row.row));
+    return data.matches.every((match) => rows.has(match.row));
+  },
+  { message: 'Matches must refer to statement rows' },
+).refine(
+  (data) =>
+    new Set(data.matches.map((match) => match.row)).size === data.matches.length &&
+    new Set(data.matches.map((match) => `${match.kind}:${match.id}`)).size === data.matches.length,
+  { message: 'Each row and each record can only be matched once' },
+);
+
+// ============================================
+// Accounting Export Schemas
+// ============================================
+
+// Account name (QuickBooks) or code (Xero); blank clears it
+const accountSchema = z.string().trim().max(255).nullable();
+
+export const accountingSettingsUpdateSchema = z.object({
+  org_id: uuidSchema,
+  settings: z.object({
+    bank_account: accountSchema,
+    revenue_account: accountSchema,
+    default_expense_account: accountSchema,
+    tracking_category: z.string().trim().min(1, { message: 'Tracking category is required' }).max(100),
+    xero_tax_rate: z.string().trim().min(1, { message: 'Xero tax rate is required' }).max(100),
+  }).strict(),
+  // Replaces every mapping of the organization
+  mappings: z.array(z.object({
+    grant_id: uuidSchema.nullable(),
+    category: z.enum(MAPPING_CATEGORIES).nullable(),
+    expense_account: accountSchema,
+    revenue_account: accountSchema,
+    class_name: z.string().trim().max(255).nullable(),
+  }).strict()).max(2000),
+}).strict().refine(
+  (data) => data.mappings.every((mapping) => mapping.grant_id !== null || mapping.category !== null),
+  { message: 'A mapping needs a grant, a budget category or both' },
+).refine(
+  (data) => data.mappings.every((mapping) => mapping.category === null || !mapping.revenue_account),
+  { message: 'Revenue accounts can only be mapped for a whole grant' },
+).refine(
+  (data) => new Set(data.mappings.map((mapping) => `${mapping.grant_id}:${mapping.category}`)).size === data.mappings.length,
+  { message: 'Each grant and category can only be mapped once' },
+);
+
+export const accountingExportCreateSchema = z.object({
+  budget_id: uuidSchema,
+  format: z.enum(EXPORT_FORMATS),
+  // Only records dated on or before this day, e.g. to close a month
+  through_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' }).nullable().optional(),
+}).strict();
+
 // ============================================
 // Comment-related Schemas
 // ============================================
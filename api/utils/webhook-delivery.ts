@@ -0,0 +1,428 @@
+/**
+ * Webhook Delivery Queue
+ *
+ * Delivers custom webhook payloads and records every delivery in
+ * webhook_deliveries. Failed attempts are retried by the webhook retry cron on
+ * an exponential backoff schedule; deliveries that exhaust it are dead-lettered.
+ * A webhook that fails WEBHOOK_DISABLE_THRESHOLD attempts in a row is disabled
+ * and the org's admins get an in-app notification.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { fetchWithTimeout, TimeoutPresets } from './timeout.js';
+import { assertPublicUrl } from '../../lib/grants/feed-url.js';
+import {
+  buildSignatureHeader,
+  WEBHOOK_DELIVERY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMPED_SIGNATURE_HEADER,
+} from './webhook-signature.js';
+
+// Minutes to wait before each retry; one initial attempt plus one per entry
+export const WEBHOOK_RETRY_SCHEDULE_MINUTES = [5, 15, 60, 180, 360, 720];
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_SCHEDULE_MINUTES.length + 1;
+
+// Consecutive failed attempts (across deliveries) before a webhook is disabled
+export const WEBHOOK_DISABLE_THRESHOLD = 10;
+
+// Due retries handled per cron run
+const RETRY_BATCH_SIZE = 50;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'dead_letter';
+
+export interface WebhookRecord {
+  id: string;
+  org_id: string;
+  name: string;
+  url: string;
+  secret: string | null;
+  previous_secret: string | null;
+  previous_secret_expires_at: string | null;
+  payload_version: number;
+  is_active: boolean;
+  total_deliveries: number;
+  failed_deliveries: number;
+  consecutive_failures: number;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+}
+
+/**
+ * Sign webhook payload with secret (legacy scheme for payload version 1)
+ */
+export function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Secrets deliveries are currently signed with: the active secret, plus the
+ * previous one while its rotation overlap lasts
+ */
+export function getSigningSecrets(webhook: WebhookRecord, now: Date = new Date()): string[] {
+  const secrets = webhook.secret ? [webhook.secret] : [];
+  if (
+    webhook.previous_secret &&
+    webhook.previous_secret_expires_at &&
+    new Date(webhook.previous_secret_expires_at) > now
+  ) {
+    secrets.push(webhook.previous_secret);
+  }
+  return secrets;
+}
+
+/**
+ * Delay before the retry that follows the given (1-based) failed attempt
+ */
+export function getRetryDelayMs(attemptCount: number): number | null {
+  const minutes = WEBHOOK_RETRY_SCHEDULE_MINUTES[attemptCount - 1];
+  return minutes === undefined ? null : minutes * 60 * 1000;
+}
+
+/**
+ * Record a new delivery and make the first attempt
+ */
+export async function queueWebhookDelivery(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  eventType: string,
+  payload: Record<string, any>,
+  redeliveryOf?: string,
+): Promise<WebhookDeliveryRecord | null> {
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      webhook_id: webhook.id,
+      event_type: eventType,
+      payload,
+      status: 'pending',
+      attempt_count: 0,
+      redelivery_of: redeliveryOf || null,
+    })
+    .select()
+    .single();
+
+  if (error || !delivery) {
+    console.error(`[Webhooks] Failed to record delivery for webhook ${webhook.name}:`, error);
+    return null;
+  }
+
+  return attemptDelivery(supabase, webhook, delivery as WebhookDeliveryRecord);
+}
+
+/**
+ * Request headers for a delivery, signed with the webhook's current secrets
+ *
+ * Signed per attempt so the signature timestamp is fresh.
+ */
+export function buildDeliveryHeaders(
+  webhook: WebhookRecord,
+  deliveryId: string,
+  payloadString: string,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'GrantCue-Webhook/1.0',
+    [WEBHOOK_DELIVERY_ID_HEADER]: deliveryId,
+  };
+
+  // Add signature if secret is provided
+  if (webhook.secret) {
+    const timestamped = buildSignatureHeader(payloadString, getSigningSecrets(webhook));
+    if (webhook.payload_version >= 2) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = timestamped;
+    } else {
+      // Version 1 receivers verify the legacy signature; the timestamped one
+      // goes alongside so they can switch without changing payload version
+      headers[WEBHOOK_SIGNATURE_HEADER] = signPayload(payloadString, webhook.secret);
+      headers[WEBHOOK_TIMESTAMPED_SIGNATURE_HEADER] = timestamped;
+    }
+  }
+
+  return headers;
+}
+
+export interface WebhookRequestResult {
+  responseStatus: number | null;
+  responseHeaders: Record<string, string>;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number;
+}
+
+/**
+ * POST a signed payload to a URL without recording anything
+ *
+ * Webhook URLs are user-entered, so they must be on a public host and
+ * redirects are never followed - otherwise the server could be pointed at
+ * internal or cloud metadata endpoints.
+ *
+ * @param trustedUrl Skip the public host check for server-configured URLs
+ */
+export async function postWebhookRequest(
+  url: string,
+  headers: Record<string, string>,
+  payloadString: string,
+  trustedUrl: boolean = false,
+): Promise<WebhookRequestResult> {
+  const startedAt = Date.now();
+  const result: WebhookRequestResult = {
+    responseStatus: null,
+    responseHeaders: {},
+    responseBody: null,
+    errorMessage: null,
+    durationMs: 0,
+  };
+
+  if (!trustedUrl) {
+    try {
+      await assertPublicUrl(url, 'Webhook URL');
+    } catch (error) {
+      result.errorMessage = error instanceof Error ? error.message : 'Invalid webhook URL';
+      return result;
+    }
+  }
+
+  try {
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers,
+      body: payloadString,
+      redirect: 'manual',
+      timeoutMs: TimeoutPresets.EXTERNAL_API_FAST,
+    });
+
+    result.responseStatus = response.status;
+    result.responseHeaders = Object.fromEntries(response.headers.entries());
+    result.responseBody = (await response.text()).substring(0, 1000); // Limit to 1000 chars
+
+    if (response.status >= 300 && response.status < 400) {
+      result.errorMessage = `HTTP ${response.status}: redirects are not followed; use the final URL`;
+    } else if (!response.ok) {
+      result.errorMessage = `HTTP ${response.status}: ${result.responseBody.substring(0, 200)}`;
+    }
+  } catch (error) {
+    const { sanitizeError } = await import('./error-handler.js');
+    result.errorMessage = sanitizeError(error);
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
+
+/**
+ * POST a delivery's payload to the webhook and record the outcome
+ *
+ * @returns The updated delivery
+ */
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  delivery: WebhookDeliveryRecord,
+): Promise<WebhookDeliveryRecord> {
+  const payloadString = JSON.stringify(delivery.payload);
+  const headers = buildDeliveryHeaders(webhook, delivery.id, payloadString);
+  const attemptCount = (delivery.attempt_count || 0) + 1;
+
+  const { responseStatus, responseBody, errorMessage } = await postWebhookRequest(
+    webhook.url,
+    headers,
+    payloadString,
+  );
+
+  if (errorMessage) {
+    console.error(`[Webhooks] Failed to send webhook ${webhook.name}: ${errorMessage}`);
+  }
+
+  const now = new Date();
+  const succeeded = errorMessage === null;
+  const retryDelay = succeeded ? null : getRetryDelayMs(attemptCount);
+
+  let status: WebhookDeliveryStatus = 'delivered';
+  if (!succeeded) {
+    status = retryDelay !== null ? 'retrying' : 'dead_letter';
+  }
+
+  const updates = {
+    status,
+    attempt_count: attemptCount,
+    next_attempt_at:
+      retryDelay !== null ? new Date(now.getTime() + retryDelay).toISOString() : null,
+    response_status: responseStatus,
+    response_body: responseBody,
+    error_message: errorMessage,
+    delivered_at: now.toISOString(),
+  };
+
+  await supabase.from('webhook_deliveries').update(updates).eq('id', delivery.id);
+
+  await recordWebhookResult(supabase, webhook, succeeded, errorMessage);
+
+  console.log(
+    `[Webhooks] Webhook ${webhook.name} attempt ${attemptCount} for ${delivery.event_type}: ${status}`,
+  );
+
+  return { ...delivery, ...updates };
+}
+
+/**
+ * Update webhook stats and disable it after too many consecutive failures
+ */
+async function recordWebhookResult(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  succeeded: boolean,
+  errorMessage: string | null,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const consecutiveFailures = succeeded ? 0 : (webhook.consecutive_failures || 0) + 1;
+  const shouldDisable =
+    webhook.is_active && !succeeded && consecutiveFailures >= WEBHOOK_DISABLE_THRESHOLD;
+
+  const updates: Record<string, any> = {
+    last_triggered_at: now,
+    total_deliveries: (webhook.total_deliveries || 0) + 1,
+    failed_deliveries: (webhook.failed_deliveries || 0) + (succeeded ? 0 : 1),
+    consecutive_failures: consecutiveFailures,
+  };
+
+  if (shouldDisable) {
+    updates.is_active = false;
+    updates.disabled_at = now;
+    updates.disabled_reason = `Disabled after ${consecutiveFailures} consecutive failed deliveries. Last error: ${errorMessage}`;
+  }
+
+  await supabase.from('webhooks').update(updates).eq('id', webhook.id);
+
+  // Keep the in-memory record current for callers delivering several events in a row
+  Object.assign(webhook, updates);
+
+  if (shouldDisable) {
+    await disableWebhookDeliveries(supabase, webhook);
+  }
+}
+
+/**
+ * Dead-letter a disabled webhook's queued retries and tell the org's admins
+ */
+async function disableWebhookDeliveries(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+): Promise<void> {
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'dead_letter',
+      next_attempt_at: null,
+    })
+    .eq('webhook_id', webhook.id)
+    .eq('status', 'retrying');
+
+  const { data: admins } = await supabase
+    .from('org_members')
+    .select('user_id')
+    .eq('org_id', webhook.org_id)
+    .eq('role', 'admin');
+
+  for (const admin of admins || []) {
+    try {
+      await supabase.from('in_app_notifications').insert({
+        user_id: admin.user_id,
+        org_id: webhook.org_id,
+        type: 'system',
+        title: `Webhook disabled: ${webhook.name}`,
+        message: `${webhook.name} failed ${WEBHOOK_DISABLE_THRESHOLD} deliveries in a row and has been disabled. Fix the endpoint, re-enable the webhook and redeliver any missed events.`,
+        action_url: '/settings/calendar',
+        action_label: 'Review webhooks',
+      });
+    } catch (error) {
+      console.error(`[Webhooks] Failed to notify admin ${admin.user_id}:`, error);
+    }
+  }
+
+  console.warn(`[Webhooks] Webhook ${webhook.name} disabled after repeated failures`);
+}
+
+/**
+ * Retry deliveries whose next_attempt_at has passed (called by the retry cron)
+ */
+export async function processWebhookRetries(
+  supabase: SupabaseClient,
+): Promise<{ attempted: number; delivered: number; failed: number }> {
+  const { data: dueDeliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, webhook:webhooks(*)')
+    .eq('status', 'retrying')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  const stats = { attempted: 0, delivered: 0, failed: 0 };
+
+  for (const { webhook, ...delivery } of dueDeliveries || []) {
+    // Webhook was switched off since the delivery was queued
+    if (!webhook || !webhook.is_active) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'dead_letter', next_attempt_at: null })
+        .eq('id', delivery.id);
+      continue;
+    }
+
+    const result = await attemptDelivery(
+      supabase,
+      webhook as WebhookRecord,
+      delivery as WebhookDeliveryRecord,
+    );
+
+    stats.attempted++;
+    if (result.status === 'delivered') {
+      stats.delivered++;
+    } else {
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Redeliver a delivery on request
+ *
+ * A queued retry is attempted immediately in place; a finished delivery is sent
+ * again as a new delivery linked through redelivery_of.
+ */
+export async function redeliverWebhookDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDeliveryRecord,
+  webhook: WebhookRecord,
+): Promise<WebhookDeliveryRecord | null> {
+  if (delivery.status === 'retrying') {
+    return attemptDelivery(supabase, webhook, delivery);
+  }
+
+  return queueWebhookDelivery(
+    supabase,
+    webhook,
+    delivery.event_type,
+    delivery.payload,
+    delivery.id,
+  );
+}
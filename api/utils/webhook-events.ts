@@ -0,0 +1,403 @@
+/**
+ * Webhook Event Registry
+ *
+ * Every event delivered to custom webhooks, with a Zod schema for its `data`
+ * object. The schemas are the source of truth for the TypeScript types below,
+ * for subscription validation in api/webhooks.ts and for the JSON Schemas
+ * published by GET /api/webhooks/events.
+ *
+ * Within a payload version fields may be added but never removed or retyped,
+ * so the data schemas allow additional properties.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+
+// =====================================================
+// Payload envelope versions
+// =====================================================
+
+/**
+ * 1 - legacy `{ event, timestamp, data }` envelope, kept for webhooks created
+ *     before the registry existed
+ * 2 - `{ id, event, version, created_at, org_id, data }`; `id` is stable across
+ *     retries and redeliveries so receivers can de-duplicate
+ */
+export const WEBHOOK_PAYLOAD_VERSIONS = [1, 2] as const;
+export const CURRENT_WEBHOOK_PAYLOAD_VERSION = 2;
+
+export type WebhookPayloadVersion = (typeof WEBHOOK_PAYLOAD_VERSIONS)[number];
+
+// =====================================================
+// Data schemas
+// =====================================================
+
+const dateString = z.string().describe('ISO 8601 date or timestamp');
+
+// Every event concerns a saved grant
+const grantContext = {
+  grant_id: z.string().describe('Saved grant ID (org_grants_saved.id)'),
+  grant_title: z.string(),
+  grant_agency: z.string().nullable().optional(),
+  grant_deadline: dateString.nullable().optional().describe('Application close date'),
+  action_url: z.string().describe('Link to the grant in GrantCue'),
+};
+
+const grantSavedSchema = z.looseObject({
+  ...grantContext,
+  status: z.string().optional().describe('Pipeline stage the grant was saved into'),
+  priority: z.string().nullable().optional(),
+});
+
+const grantUpdatedSchema = z.looseObject({
+  ...grantContext,
+  changed_fields: z.array(z.string()).describe('Grant fields changed by the update'),
+  assigned_to_id: z.string().nullable().optional(),
+  priority: z.string().nullable().optional(),
+  loi_deadline: dateString.nullable().optional(),
+  internal_deadline: dateString.nullable().optional(),
+});
+
+const grantStageChangedSchema = z.looseObject({
+  ...grantContext,
+  from_stage: z.string(),
+  to_stage: z.string(),
+  changed_by: z.string().nullable().describe('User who moved the grant'),
+  approval_request_id: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('Approval request that authorized the move, if one was required'),
+});
+
+const grantDeadlineApproachingSchema = z.looseObject({
+  ...grantContext,
+  status: z.string(),
+  days_until_deadline: z.number().int(),
+});
+
+const grantDeadlinePassedSchema = z.looseObject({
+  ...grantContext,
+  status: z.string(),
+  days_overdue: z.number().int(),
+});
+
+const grantCatalogChangedSchema = z.looseObject({
+  ...grantContext,
+  catalog_grant_id: z.string(),
+  catalog_version: z.number().int(),
+  changed_at: dateString,
+  changed_fields: z.array(z.string()),
+  changes: z
+    .array(
+      z.object({
+        field: z.string(),
+        old_value: z.unknown(),
+        new_value: z.unknown(),
+      }),
+    )
+    .describe('Before/after values; long text fields are reported with null values'),
+});
+
+const grantTaskAssignedSchema = z.looseObject({
+  ...grantContext,
+  task_id: z.string(),
+  task_title: z.string(),
+  assigned_to_id: z.string(),
+  assigned_to_name: z.string(),
+});
+
+const approvalContext = {
+  ...grantContext,
+  approval_request_id: z.string(),
+  from_stage: z.string(),
+  to_stage: z.string(),
+};
+
+const approvalRequestedSchema = z.looseObject({
+  ...approvalContext,
+  requested_by: z.string(),
+  request_notes: z.string().nullable().optional(),
+  approval_level: z.number().int().describe('Approval level now awaiting decisions'),
+});
+
+const approvalApprovedSchema = z.looseObject({
+  ...approvalContext,
+  decided_by: z.string().describe('Approver whose decision completed the request'),
+  comments: z.string().nullable().optional(),
+});
+
+const approvalRejectedSchema = z.looseObject({
+  ...approvalContext,
+  decided_by: z.string(),
+  rejection_reason: z.string().nullable().optional(),
+});
+
+const budgetContext = {
+  ...grantContext,
+  budget_id: z.string(),
+  status: z.string(),
+  proposed_amount: z.number(),
+  awarded_amount: z.number(),
+};
+
+const budgetCreatedSchema = z.looseObject({
+  ...budgetContext,
+  created_by: z.string(),
+});
+
+const budgetUpdatedSchema = z.looseObject({
+  ...budgetContext,
+  previous_status: z.string().nullable(),
+  changed_fields: z.array(z.string()),
+  updated_by: z.string(),
+});
+
+const complianceContext = {
+  ...grantContext,
+  requirement_id: z.string(),
+  requirement_type: z.string(),
+  requirement_title: z.string(),
+  due_date: dateString.nullable().optional(),
+  is_critical: z.boolean(),
+};
+
+const complianceRequirementCreatedSchema = z.looseObject({
+  ...complianceContext,
+  created_by: z.string(),
+});
+
+const complianceRequirementCompletedSchema = z.looseObject({
+  ...complianceContext,
+  completed_by: z.string(),
+  completed_at: dateString,
+});
+
+// =====================================================
+// Registry
+// =====================================================
+
+export type WebhookEventCategory = 'grant' | 'task' | 'approval' | 'budget' | 'compliance';
+
+interface WebhookEventDefinition<S extends z.ZodType = z.ZodType> {
+  label: string;
+  description: string;
+  category: WebhookEventCategory;
+  schema: S;
+}
+
+function defineEvent<S extends z.ZodType>(
+  definition: WebhookEventDefinition<S>,
+): WebhookEventDefinition<S> {
+  return definition;
+}
+
+export const WEBHOOK_EVENTS = {
+  'grant.saved': defineEvent({
+    label: 'Grant Saved',
+    description: 'A grant was added to the pipeline.',
+    category: 'grant',
+    schema: grantSavedSchema,
+  }),
+  'grant.updated': defineEvent({
+    label: 'Grant Updated',
+    description: 'Assignment, priority or deadlines of a saved grant changed.',
+    category: 'grant',
+    schema: grantUpdatedSchema,
+  }),
+  'grant.stage_changed': defineEvent({
+    label: 'Stage Changed',
+    description: 'A grant moved to another pipeline stage.',
+    category: 'grant',
+    schema: grantStageChangedSchema,
+  }),
+  'grant.deadline_approaching': defineEvent({
+    label: 'Deadline Approaching',
+    description: 'A grant closes within 14 days. Sent daily by the deadline check.',
+    category: 'grant',
+    schema: grantDeadlineApproachingSchema,
+  }),
+  'grant.deadline_passed': defineEvent({
+    label: 'Deadline Passed',
+    description: 'An active grant passed its close date.',
+    category: 'grant',
+    schema: grantDeadlinePassedSchema,
+  }),
+  'grant.catalog_changed': defineEvent({
+    label: 'Opportunity Changed',
+    description: 'The funding opportunity behind a saved grant changed at its source.',
+    category: 'grant',
+    schema: grantCatalogChangedSchema,
+  }),
+  'grant.task_assigned': defineEvent({
+    label: 'Task Assigned',
+    description: 'A grant task was created for or reassigned to a team member.',
+    category: 'task',
+    schema: grantTaskAssignedSchema,
+  }),
+  'approval.requested': defineEvent({
+    label: 'Approval Requested',
+    description:
+      'A stage transition needs approval, or an approved level moved the request to the next level.',
+    category: 'approval',
+    schema: approvalRequestedSchema,
+  }),
+  'approval.approved': defineEvent({
+    label: 'Approval Granted',
+    description: 'All required approvals were given and the grant moved to the requested stage.',
+    category: 'approval',
+    schema: approvalApprovedSchema,
+  }),
+  'approval.rejected': defineEvent({
+    label: 'Approval Rejected',
+    description: 'An approver rejected a stage transition request.',
+    category: 'approval',
+    schema: approvalRejectedSchema,
+  }),
+  'budget.created': defineEvent({
+    label: 'Budget Created',
+    description: 'A budget was created for a grant.',
+    category: 'budget',
+    schema: budgetCreatedSchema,
+  }),
+  'budget.updated': defineEvent({
+    label: 'Budget Updated',
+    description: 'Budget amounts, period or status changed.',
+    category: 'budget',
+    schema: budgetUpdatedSchema,
+  }),
+  'compliance.requirement_created': defineEvent({
+    label: 'Compliance Requirement Added',
+    description: 'A compliance requirement was added to a grant.',
+    category: 'compliance',
+    schema: complianceRequirementCreatedSchema,
+  }),
+  'compliance.requirement_completed': defineEvent({
+    label: 'Compliance Requirement Completed',
+    description: 'A compliance requirement was marked complete.',
+    category: 'compliance',
+    schema: complianceRequirementCompletedSchema,
+  }),
+};
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+// Subscriptions for webhooks created without an explicit event list
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEventType[] = [
+  'grant.saved',
+  'grant.deadline_approaching',
+];
+
+/**
+ * `data` object of an event
+ */
+export type WebhookEventData<E extends WebhookEventType> = z.infer<
+  (typeof WEBHOOK_EVENTS)[E]['schema']
+>;
+
+export interface WebhookEnvelopeV1<E extends WebhookEventType = WebhookEventType> {
+  event: E;
+  timestamp: string;
+  data: WebhookEventData<E>;
+}
+
+export interface WebhookEnvelopeV2<E extends WebhookEventType = WebhookEventType> {
+  id: string;
+  event: E;
+  version: 2;
+  created_at: string;
+  org_id: string;
+  data: WebhookEventData<E>;
+}
+
+export type WebhookEnvelope<E extends WebhookEventType = WebhookEventType> =
+  | WebhookEnvelopeV1<E>
+  | WebhookEnvelopeV2<E>;
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, value);
+}
+
+export function isWebhookPayloadVersion(value: unknown): value is WebhookPayloadVersion {
+  return WEBHOOK_PAYLOAD_VERSIONS.includes(value as WebhookPayloadVersion);
+}
+
+/**
+ * Validate a webhook's subscription list
+ *
+ * @returns Error message, or null if every entry is a registered event
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'events must be a non-empty array of event types';
+  }
+
+  const unknownEvents = events.filter((event) => !isWebhookEventType(event));
+  if (unknownEvents.length > 0) {
+    return `Unknown event types: ${unknownEvents.join(', ')}. See GET /api/webhooks/events for the catalog.`;
+  }
+
+  return null;
+}
+
+/**
+ * Build the delivery body for an event in the webhook's payload version
+ *
+ * The data is parsed with the event schema first, so receivers never get a
+ * payload that breaks the published schema.
+ *
+ * @throws Error when the data does not match the event schema
+ */
+export function buildWebhookEnvelope<E extends WebhookEventType>(
+  version: WebhookPayloadVersion,
+  event: E,
+  orgId: string,
+  data: WebhookEventData<E>,
+): WebhookEnvelope<E> {
+  const result = WEBHOOK_EVENTS[event].schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `${event} payload does not match its schema: ${result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ')}`,
+    );
+  }
+  const parsed = result.data as WebhookEventData<E>;
+
+  const createdAt = new Date().toISOString();
+
+  if (version === 1) {
+    return { event, timestamp: createdAt, data: parsed };
+  }
+
+  return {
+    id: `evt_${crypto.randomUUID()}`,
+    event,
+    version: 2,
+    created_at: createdAt,
+    org_id: orgId,
+    data: parsed,
+  };
+}
+
+/**
+ * Public catalog of events with the JSON Schema of each event's data
+ */
+export function getWebhookEventCatalog() {
+  return {
+    current_version: CURRENT_WEBHOOK_PAYLOAD_VERSION,
+    versions: WEBHOOK_PAYLOAD_VERSIONS,
+    events: WEBHOOK_EVENT_TYPES.map((type) => {
+      const definition = WEBHOOK_EVENTS[type];
+      return {
+        type,
+        label: definition.label,
+        description: definition.description,
+        category: definition.category,
+        data_schema: z.toJSONSchema(definition.schema, { unrepresentable: 'any' }),
+      };
+    }),
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Webhook Sample Payloads
+ *
+ * Realistic `data` objects for every registered event, built around one of the
+ * org's saved grants. Used by the webhook test console; placeholder IDs are
+ * prefixed with `sample_` so receivers can tell them apart from real records.
+ */
+
+import type { WebhookEventData, WebhookEventType } from './webhook-events.js';
+
+export interface SampleGrant {
+  id: string;
+  title: string;
+  agency: string | null;
+  close_date: string | null;
+  status: string;
+  priority: string | null;
+  loi_deadline: string | null;
+  internal_deadline: string | null;
+  assigned_to: string | null;
+  catalog_grant_id: string | null;
+}
+
+export interface SampleContext {
+  origin: string;
+  userId: string;
+  userName: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stage a sample stage_changed/approval event moves the grant to
+const NEXT_STAGE: Record<string, string> = {
+  researching: 'go-no-go',
+  'go-no-go': 'drafting',
+  drafting: 'submitted',
+  submitted: 'awarded',
+  awarded: 'closed-out',
+};
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/**
+ * Sample `data` for an event about the given grant
+ */
+export function buildSampleEventData<E extends WebhookEventType>(
+  event: E,
+  grant: SampleGrant,
+  context: SampleContext,
+): WebhookEventData<E> {
+  const now = new Date();
+  const closeDate = grant.close_date
+    ? new Date(grant.close_date)
+    : new Date(now.getTime() + 14 * DAY_MS);
+  const toStage = NEXT_STAGE[grant.status] || 'submitted';
+  const base = {
+    grant_id: grant.id,
+    grant_title: grant.title,
+    grant_agency: grant.agency,
+    grant_deadline: grant.close_date,
+    action_url: `${context.origin}/grants/${grant.id}`,
+  };
+  const budget = {
+    budget_id: 'sample_budget',
+    status: 'draft',
+    proposed_amount: 250000,
+    awarded_amount: 0,
+  };
+  const requirement = {
+    requirement_id: 'sample_requirement',
+    requirement_type: 'reporting',
+    requirement_title: 'Quarterly financial report',
+    due_date: new Date(now.getTime() + 30 * DAY_MS).toISOString().split('T')[0],
+    is_critical: true,
+  };
+
+  const samples: { [K in WebhookEventType]: () => WebhookEventData<K> } = {
+    'grant.saved': () => ({ ...base, status: grant.status, priority: grant.priority }),
+    'grant.updated': () => ({
+      ...base,
+      changed_fields: ['assigned_to', 'internal_deadline'],
+      assigned_to_id: grant.assigned_to || context.userId,
+      priority: grant.priority,
+      loi_deadline: grant.loi_deadline,
+      internal_deadline:
+        grant.internal_deadline ||
+        new Date(closeDate.getTime() - 7 * DAY_MS).toISOString().split('T')[0],
+    }),
+    'grant.stage_changed': () => ({
+      ...base,
+      from_stage: grant.status,
+      to_stage: toStage,
+      changed_by: context.userId,
+      approval_request_id: null,
+    }),
+    'grant.deadline_approaching': () => ({
+      ...base,
+      status: grant.status,
+      days_until_deadline: Math.max(daysBetween(now, closeDate), 1),
+    }),
+    'grant.deadline_passed': () => ({
+      ...base,
+      status: grant.status,
+      days_overdue: Math.max(daysBetween(closeDate, now), 1),
+    }),
+    'grant.catalog_changed': () => ({
+      ...base,
+      catalog_grant_id: grant.catalog_grant_id || 'sample_catalog_grant',
+      catalog_version: 2,
+      changed_at: now.toISOString(),
+      changed_fields: ['close_date', 'award_ceiling'],
+      changes: [
+        {
+          field: 'close_date',
+          old_value: grant.close_date,
+          new_value: new Date(closeDate.getTime() + 14 * DAY_MS).toISOString(),
+        },
+        { field: 'award_ceiling', old_value: 500000, new_value: 750000 },
+      ],
+    }),
+    'grant.task_assigned': () => ({
+      ...base,
+      task_id: 'sample_task',
+      task_title: 'Draft project narrative',
+      assigned_to_id: context.userId,
+      assigned_to_name: context.userName,
+    }),
+    'approval.requested': () => ({
+      ...base,
+      approval_request_id: 'sample_approval_request',
+      from_stage: grant.status,
+      to_stage: toStage,
+      requested_by: context.userId,
+      request_notes: 'Narrative and budget are ready for review.',
+      approval_level: 1,
+    }),
+    'approval.approved': () => ({
+      ...base,
+      approval_request_id: 'sample_approval_request',
+      from_stage: grant.status,
+      to_stage: toStage,
+      decided_by: context.userId,
+      comments: 'Looks good.',
+    }),
+    'approval.rejected': () => ({
+      ...base,
+      approval_request_id: 'sample_approval_request',
+      from_stage: grant.status,
+      to_stage: toStage,
+      decided_by: context.userId,
+      rejection_reason: 'Budget justification is missing indirect costs.',
+    }),
+    'budget.created': () => ({ ...base, ...budget, created_by: context.userId }),
+    'budget.updated': () => ({
+      ...base,
+      ...budget,
+      status: 'submitted',
+      previous_status: 'draft',
+      changed_fields: ['status'],
+      updated_by: context.userId,
+    }),
+    'compliance.requirement_created': () => ({
+      ...base,
+      ...requirement,
+      created_by: context.userId,
+    }),
+    'compliance.requirement_completed': () => ({
+      ...base,
+      ...requirement,
+      completed_by: context.userId,
+      completed_at: now.toISOString(),
+    }),
+  };
+
+  return samples[event]();
+}
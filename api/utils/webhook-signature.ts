@@ -0,0 +1,139 @@
+/**
+ * Webhook Signatures
+ *
+ * Version 2 webhooks are signed Stripe-style:
+ *
+ *   X-Webhook-Signature: t=1711111111,v1=5257a869e7...,v1=9f2c...
+ *
+ * `t` is the Unix time of the attempt and each `v1` is the hex HMAC-SHA256 of
+ * `${t}.${body}` with one of the webhook's valid secrets (two while a rotated
+ * secret is still inside its overlap window). Receivers accept the request if
+ * any `v1` matches and `t` is recent, which stops captured deliveries from
+ * being replayed. X-Webhook-Delivery-Id identifies the delivery for receivers
+ * that also de-duplicate.
+ *
+ * Version 1 webhooks keep the legacy X-Webhook-Signature - the hex HMAC-SHA256
+ * of the body with the active secret - so existing receivers keep working. The
+ * timestamped signature is sent alongside as X-Webhook-Signature-Timestamped
+ * for receivers moving off the legacy scheme.
+ *
+ * This module only depends on Node's crypto so receivers can copy it as is.
+ */
+
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMPED_SIGNATURE_HEADER = 'X-Webhook-Signature-Timestamped';
+export const WEBHOOK_DELIVERY_ID_HEADER = 'X-Webhook-Delivery-Id';
+
+// Only scheme so far; a new scheme gets a new key next to v1 in the header
+export const WEBHOOK_SIGNATURE_SCHEME = 'v1';
+
+// Maximum age of a signature timestamp accepted by verifyWebhookSignature
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type WebhookVerificationResult = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Random secret for a new or rotated webhook
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * HMAC of the timestamped payload with one secret
+ */
+export function computeWebhookSignature(
+  secret: string,
+  timestamp: number,
+  payload: string,
+): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Signature header value for a payload, signed with every given secret
+ */
+export function buildSignatureHeader(
+  payload: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const signatures = secrets.map(
+    (secret) =>
+      `${WEBHOOK_SIGNATURE_SCHEME}=${computeWebhookSignature(secret, timestamp, payload)}`,
+  );
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Split a signature header into its timestamp and v1 signatures
+ */
+export function parseSignatureHeader(
+  header: string,
+): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (!value) {
+      continue;
+    }
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === WEBHOOK_SIGNATURE_SCHEME) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verify a delivery on the receiving side
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param header - X-Webhook-Signature value
+ * @param secrets - Secret(s) the receiver currently trusts
+ * @param toleranceSeconds - Maximum age of the signature timestamp
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | null | undefined,
+  secrets: string | string[],
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+): WebhookVerificationResult {
+  if (!header) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  const age = Math.floor(Date.now() / 1000) - parsed.timestamp;
+  if (Math.abs(age) > toleranceSeconds) {
+    return { valid: false, reason: 'Signature timestamp outside the tolerance window' };
+  }
+
+  const trusted = Array.isArray(secrets) ? secrets : [secrets];
+  const matches = trusted.some((secret) => {
+    const expected = computeWebhookSignature(secret, parsed.timestamp, payload);
+    return parsed.signatures.some((signature) => safeEqualHex(signature, expected));
+  });
+
+  return matches ? { valid: true } : { valid: false, reason: 'No matching signature' };
+}
@@ -26,6 +26,7 @@ interface SavedView {
   due_in_days?: number;
   sort_by?: string;
   is_shared?: boolean;
+  pipeline_id?: string | null;
 }
 
 export default async function handler(
@@ -59,8 +60,8 @@ export default async function handler(
   try {
     switch (req.method) {
       case 'GET': {
-        // List saved views for an organization
-        const { org_id } = req.query;
+        // List saved views for an organization, optionally for one pipeline
+        const { org_id, pipeline_id } = req.query;
 
         if (!org_id || typeof org_id !== 'string') {
           return res.status(400).json({ error: 'org_id is required' });
@@ -79,12 +80,21 @@ export default async function handler(
         }
 
         // Get views that are either created by user or shared within org
-        const { data, error } = await supabase
+        let query = supabase
           .from('saved_views')
           .select('*')
           .eq('org_id', org_id)
-          .or(`created_by.eq.${user.id},and(is_shared.eq.true)`)
-          .order('created_at', { ascending: false});
+          .or(`created_by.eq.${user.id},and(is_shared.eq.true)`);
+
+        // A pipeline's views plus the ones shown in every pipeline
+        if (pipeline_id !== undefined) {
+          if (typeof pipeline_id !== 'string' || !/^[0-9a-f-]{36}$/i.test(pipeline_id)) {
+            return res.status(400).json({ error: 'pipeline_id must be a valid ID' });
+          }
+          query = query.or(`pipeline_id.is.null,pipeline_id.eq.${pipeline_id}`);
+        }
+
+        const { data, error } = await query.order('created_at', { ascending: false});
 
         if (error) {
           console.error('Error fetching saved views:', error);
@@ -121,6 +131,19 @@ export default async function handler(
           return res.status(403).json({ error: 'Cannot create views for other users' });
         }
 
+        if (viewData.pipeline_id) {
+          const { data: pipeline } = await supabase
+            .from('pipelines')
+            .select('id')
+            .eq('id', viewData.pipeline_id)
+            .eq('org_id', viewData.org_id)
+            .maybeSingle();
+
+          if (!pipeline) {
+            return res.status(400).json({ error: 'Pipeline not found' });
+          }
+        }
+
         const { data, error } = await supabase
           .from('saved_views')
           .insert({
@@ -136,6 +159,7 @@ export default async function handler(
             due_in_days: viewData.due_in_days || null,
             sort_by: viewData.sort_by || 'due_soon',
             is_shared: viewData.is_shared || false,
+            pipeline_id: viewData.pipeline_id || null,
           })
           .select()
           .single();
@@ -202,6 +226,7 @@ export default async function handler(
             due_in_days: viewData.due_in_days,
             sort_by: viewData.sort_by,
             is_shared: viewData.is_shared,
+            pipeline_id: viewData.pipeline_id,
             // Note: use_count increment would require an RPC function or separate query
             last_used_at: new Date().toISOString(),
           })
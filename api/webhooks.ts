@@ -1,6 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { ErrorHandlers, generateRequestId, wrapHandler } from './utils/error-handler';
+import { getPublicUrlError } from '../lib/grants/feed-url.js';
+import {
+  CURRENT_WEBHOOK_PAYLOAD_VERSION,
+  DEFAULT_WEBHOOK_EVENTS,
+  WEBHOOK_PAYLOAD_VERSIONS,
+  isWebhookPayloadVersion,
+  validateWebhookEvents,
+} from './utils/webhook-events.js';
 
 // Use server-side environment variables (not VITE_ prefixed)
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -71,7 +79,7 @@ export default wrapHandler(async function handler(
 
   // POST - Create webhook
   if (req.method === 'POST') {
-    const { org_id, name, url, secret, events } = req.body;
+    const { org_id, name, url, secret, events, payload_version } = req.body;
 
     if (!org_id || !name || !url) {
       return res.status(400).json({ error: 'org_id, name, and url are required' });
@@ -89,11 +97,23 @@ export default wrapHandler(async function handler(
       return res.status(403).json({ error: 'Admin access required' });
     }
 
-    // Validate URL
-    try {
-      new URL(url);
-    } catch {
-      return res.status(400).json({ error: 'Invalid URL format' });
+    // Validate URL - the server posts to it, so it must be on a public host
+    const urlError = getPublicUrlError(url, 'url');
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    if (events !== undefined) {
+      const eventsError = validateWebhookEvents(events);
+      if (eventsError) {
+        return res.status(400).json({ error: eventsError });
+      }
+    }
+
+    if (payload_version !== undefined && !isWebhookPayloadVersion(payload_version)) {
+      return res.status(400).json({
+        error: `payload_version must be one of ${WEBHOOK_PAYLOAD_VERSIONS.join(', ')}`,
+      });
     }
 
     const { data: webhook, error } = await supabase
@@ -103,7 +123,8 @@ export default wrapHandler(async function handler(
         name,
         url,
         secret: secret || null,
-        events: events || ['grant.saved', 'grant.deadline_approaching'],
+        events: events || DEFAULT_WEBHOOK_EVENTS,
+        payload_version: payload_version ?? CURRENT_WEBHOOK_PAYLOAD_VERSION,
         created_by: user.id,
       })
       .select()
@@ -119,7 +140,7 @@ export default wrapHandler(async function handler(
   // PATCH - Update webhook
   if (req.method === 'PATCH') {
     const { id } = req.query;
-    const { name, url, secret, events, is_active } = req.body;
+    const { name, url, secret, events, is_active, payload_version } = req.body;
 
     if (!id || typeof id !== 'string') {
       return res.status(400).json({ error: 'webhook id is required' });
@@ -151,16 +172,35 @@ export default wrapHandler(async function handler(
     const updates: any = { updated_at: new Date().toISOString() };
     if (name !== undefined) updates.name = name;
     if (url !== undefined) {
-      try {
-        new URL(url);
-        updates.url = url;
-      } catch {
-        return res.status(400).json({ error: 'Invalid URL format' });
+      const urlError = getPublicUrlError(url, 'url');
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
       }
+      updates.url = url;
     }
     if (secret !== undefined) updates.secret = secret;
-    if (events !== undefined) updates.events = events;
+    if (events !== undefined) {
+      const eventsError = validateWebhookEvents(events);
+      if (eventsError) {
+        return res.status(400).json({ error: eventsError });
+      }
+      updates.events = events;
+    }
+    if (payload_version !== undefined) {
+      if (!isWebhookPayloadVersion(payload_version)) {
+        return res.status(400).json({
+          error: `payload_version must be one of ${WEBHOOK_PAYLOAD_VERSIONS.join(', ')}`,
+        });
+      }
+      updates.payload_version = payload_version;
+    }
     if (is_active !== undefined) updates.is_active = is_active;
+    if (is_active === true) {
+      // Re-enabling clears an automatic disable
+      updates.consecutive_failures = 0;
+      updates.disabled_at = null;
+      updates.disabled_reason = null;
+    }
 
     const { data: updated, error } = await supabase
       .from('webhooks')
@@ -0,0 +1,254 @@
+/**
+ * Webhook Capture Endpoint
+ *
+ * A built-in receiver for checking deliveries end to end.
+ *
+ * POST /api/webhooks/capture?webhook_id=xxx
+ *   - Public; records the request and checks its signature against the
+ *     webhook's secrets. Point a webhook here, or use target 'capture' in the
+ *     test console.
+ *
+ * GET /api/webhooks/capture?webhook_id=xxx
+ *   - List recent captures (org members)
+ *
+ * DELETE /api/webhooks/capture?webhook_id=xxx
+ *   - Clear captures (admins only)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import { handleRateLimit, rateLimitPublic } from '../utils/ratelimit';
+import { getSigningSecrets, signPayload, type WebhookRecord } from '../utils/webhook-delivery.js';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../utils/webhook-signature.js';
+
+// Signatures are computed over the raw body, so it must not be parsed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Captures kept per webhook; older ones are pruned on each capture
+const MAX_CAPTURES_PER_WEBHOOK = 50;
+
+async function readRawBody(req: VercelRequest): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Check a captured request's signature the way a receiver would
+ */
+function checkSignature(
+  webhook: WebhookRecord,
+  body: string,
+  header: string | undefined,
+): { valid: boolean | null; error: string | null } {
+  if (!webhook.secret) {
+    return { valid: null, error: null };
+  }
+
+  if (webhook.payload_version >= 2) {
+    const result = verifyWebhookSignature(body, header, getSigningSecrets(webhook));
+    return result.valid ? { valid: true, error: null } : { valid: false, error: result.reason };
+  }
+
+  // Legacy scheme: plain HMAC of the body
+  if (!header) {
+    return { valid: false, error: 'Missing signature header' };
+  }
+  const expected = Buffer.from(signPayload(body, webhook.secret), 'hex');
+  const received = Buffer.from(header, 'hex');
+  const valid = expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  return valid ? { valid: true, error: null } : { valid: false, error: 'No matching signature' };
+}
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const { webhook_id } = req.query;
+  if (!webhook_id || typeof webhook_id !== 'string') {
+    return res.status(400).json({ error: 'webhook_id is required' });
+  }
+
+  // POST - Capture a delivery (public)
+  if (req.method === 'POST') {
+    const rateLimitResult = await rateLimitPublic(req);
+    if (handleRateLimit(res, rateLimitResult)) {
+      return;
+    }
+
+    const body = await readRawBody(req);
+    if (body === null) {
+      return res.status(413).json({ error: 'Payload too large' });
+    }
+
+    const { data: webhook } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('id', webhook_id)
+      .single();
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const signatureHeader = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as
+      | string
+      | undefined;
+    const deliveryId = req.headers[WEBHOOK_DELIVERY_ID_HEADER.toLowerCase()] as string | undefined;
+    const signature = checkSignature(webhook as WebhookRecord, body, signatureHeader);
+
+    let eventType: string | null = null;
+    try {
+      eventType = JSON.parse(body).event ?? null;
+    } catch {
+      // Not JSON; keep the raw body
+    }
+
+    const { data: capture, error } = await supabase
+      .from('webhook_test_captures')
+      .insert({
+        webhook_id: webhook.id,
+        org_id: webhook.org_id,
+        delivery_id: deliveryId || null,
+        event_type: eventType,
+        headers: req.headers,
+        body,
+        signature_valid: signature.valid,
+        signature_error: signature.error,
+      })
+      .select('id, received_at')
+      .single();
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    // Keep only the most recent captures
+    const { data: stale } = await supabase
+      .from('webhook_test_captures')
+      .select('id')
+      .eq('webhook_id', webhook.id)
+      .order('received_at', { ascending: false })
+      .range(MAX_CAPTURES_PER_WEBHOOK, MAX_CAPTURES_PER_WEBHOOK + 100);
+
+    if (stale && stale.length > 0) {
+      await supabase
+        .from('webhook_test_captures')
+        .delete()
+        .in(
+          'id',
+          stale.map((row) => row.id),
+        );
+    }
+
+    return res.status(200).json({
+      received: true,
+      capture_id: capture.id,
+      signature_valid: signature.valid,
+      signature_error: signature.error,
+    });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST', 'DELETE'], requestId);
+  }
+
+  // Get user from auth header
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return ErrorHandlers.unauthorized(res, 'Unauthorized', undefined, requestId);
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return ErrorHandlers.unauthorized(res, 'Invalid token', undefined, requestId);
+  }
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('org_id')
+    .eq('id', webhook_id)
+    .single();
+
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  const { data: membership } = await supabase
+    .from('org_members')
+    .select('role')
+    .eq('org_id', webhook.org_id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!membership) {
+    return res.status(403).json({ error: 'Not a member of this organization' });
+  }
+
+  // GET - List captures
+  if (req.method === 'GET') {
+    const { data: captures, error } = await supabase
+      .from('webhook_test_captures')
+      .select('*')
+      .eq('webhook_id', webhook_id)
+      .order('received_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ captures });
+  }
+
+  // DELETE - Clear captures
+  if (membership.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  const { error } = await supabase
+    .from('webhook_test_captures')
+    .delete()
+    .eq('webhook_id', webhook_id);
+
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  return res.status(200).json({ success: true });
+});
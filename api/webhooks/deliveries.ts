@@ -0,0 +1,156 @@
+/**
+ * Webhook Deliveries API
+ *
+ * GET /api/webhooks/deliveries?webhook_id=xxx&status=retrying|dead_letter|delivered
+ *   - List recent deliveries for a webhook
+ *
+ * POST /api/webhooks/deliveries?id=xxx
+ *   - Redeliver a delivery (admins only)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import {
+  redeliverWebhookDelivery,
+  type WebhookDeliveryRecord,
+  type WebhookRecord,
+} from '../utils/webhook-delivery.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const DELIVERY_STATUSES = ['pending', 'delivered', 'retrying', 'dead_letter'];
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Get user from auth header
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return ErrorHandlers.unauthorized(res, 'Unauthorized', undefined, requestId);
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return ErrorHandlers.unauthorized(res, 'Invalid token', undefined, requestId);
+  }
+
+  // GET - List deliveries for a webhook
+  if (req.method === 'GET') {
+    const { webhook_id, status, limit = '50' } = req.query;
+
+    if (!webhook_id || typeof webhook_id !== 'string') {
+      return res.status(400).json({ error: 'webhook_id is required' });
+    }
+
+    if (status !== undefined && !DELIVERY_STATUSES.includes(String(status))) {
+      return res
+        .status(400)
+        .json({ error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    const { data: webhook } = await supabase
+      .from('webhooks')
+      .select('org_id')
+      .eq('id', webhook_id)
+      .single();
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    // Check if user is member of org
+    const { data: membership } = await supabase
+      .from('org_members')
+      .select('role')
+      .eq('org_id', webhook.org_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return res.status(403).json({ error: 'Not a member of this organization' });
+    }
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhook_id)
+      .order('created_at', { ascending: false })
+      .limit(Math.min(parseInt(String(limit), 10) || 50, 200));
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ deliveries });
+  }
+
+  // POST - Redeliver
+  if (req.method === 'POST') {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'delivery id is required' });
+    }
+
+    const { data: delivery } = await supabase
+      .from('webhook_deliveries')
+      .select('*, webhook:webhooks(*)')
+      .eq('id', id)
+      .single();
+
+    if (!delivery || !delivery.webhook) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const { webhook, ...deliveryRecord } = delivery;
+
+    // Check if user is admin
+    const { data: membership } = await supabase
+      .from('org_members')
+      .select('role')
+      .eq('org_id', webhook.org_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership || membership.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (deliveryRecord.status === 'pending') {
+      return res.status(409).json({ error: 'Delivery is already in progress' });
+    }
+
+    const result = await redeliverWebhookDelivery(
+      supabase,
+      deliveryRecord as WebhookDeliveryRecord,
+      webhook as WebhookRecord,
+    );
+
+    if (!result) {
+      return res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+
+    return res.status(200).json({ delivery: result });
+  }
+
+  return ErrorHandlers.methodNotAllowed(res, ['GET', 'POST'], requestId);
+});
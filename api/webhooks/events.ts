@@ -0,0 +1,38 @@
+/**
+ * Webhook Event Catalog API
+ *
+ * GET /api/webhooks/events
+ *   - List every webhook event with its description and the JSON Schema of
+ *     its `data` object, plus the supported payload envelope versions
+ *
+ * GET /api/webhooks/events?type=grant.stage_changed
+ *   - A single event
+ *
+ * The catalog is public so integrators can generate types from it.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import { getWebhookEventCatalog } from '../utils/webhook-events.js';
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method !== 'GET') {
+    return ErrorHandlers.methodNotAllowed(res, ['GET'], requestId);
+  }
+
+  const catalog = getWebhookEventCatalog();
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+
+  const { type } = req.query;
+  if (type !== undefined) {
+    const event = catalog.events.find((e) => e.type === type);
+    if (!event) {
+      return res.status(404).json({ error: `Unknown event type: ${type}` });
+    }
+    return res.status(200).json({ ...event, current_version: catalog.current_version });
+  }
+
+  return res.status(200).json(catalog);
+});
@@ -0,0 +1,116 @@
+/**
+ * Webhook Secret Rotation API
+ *
+ * POST /api/webhooks/rotate-secret?id=xxx
+ *   - Generate a new signing secret (admins only)
+ *   - Body: { overlap_hours?: number } - how long deliveries stay signed with
+ *     the old secret as well (default 24, max 168)
+ *   - Version 1 webhooks get a warning: their legacy X-Webhook-Signature uses
+ *     the new secret straight away; only X-Webhook-Signature-Timestamped
+ *     carries the old secret during the overlap
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import { generateWebhookSecret } from '../utils/webhook-signature.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const DEFAULT_OVERLAP_HOURS = 24;
+const MAX_OVERLAP_HOURS = 168;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method !== 'POST') {
+    return ErrorHandlers.methodNotAllowed(res, ['POST'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Get user from auth header
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return ErrorHandlers.unauthorized(res, 'Unauthorized', undefined, requestId);
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return ErrorHandlers.unauthorized(res, 'Invalid token', undefined, requestId);
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'webhook id is required' });
+  }
+
+  const overlapHours = req.body?.overlap_hours ?? DEFAULT_OVERLAP_HOURS;
+  if (typeof overlapHours !== 'number' || overlapHours < 0 || overlapHours > MAX_OVERLAP_HOURS) {
+    return res
+      .status(400)
+      .json({ error: `overlap_hours must be a number between 0 and ${MAX_OVERLAP_HOURS}` });
+  }
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('org_id, secret, payload_version')
+    .eq('id', id)
+    .single();
+
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  // Check if user is admin
+  const { data: membership } = await supabase
+    .from('org_members')
+    .select('role')
+    .eq('org_id', webhook.org_id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!membership || membership.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  const now = new Date();
+  const secret = generateWebhookSecret();
+  const keepPrevious = !!webhook.secret && overlapHours > 0;
+
+  const { data: updated, error } = await supabase
+    .from('webhooks')
+    .update({
+      secret,
+      previous_secret: keepPrevious ? webhook.secret : null,
+      previous_secret_expires_at: keepPrevious
+        ? new Date(now.getTime() + overlapHours * 60 * 60 * 1000).toISOString()
+        : null,
+      secret_rotated_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  const warning =
+    webhook.payload_version < 2
+      ? 'This webhook uses payload version 1: X-Webhook-Signature is signed with the new secret only. Update your receiver now, or verify X-Webhook-Signature-Timestamped, which is signed with both secrets during the overlap.'
+      : null;
+
+  return res.status(200).json({ webhook: updated, secret, warning });
+});
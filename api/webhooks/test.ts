@@ -0,0 +1,169 @@
+/**
+ * Webhook Test Console API
+ *
+ * POST /api/webhooks/test?id=xxx
+ *   - Send a sample event to a webhook (admins only)
+ *   - Body: { event: string, grant_id: string, target?: 'webhook' | 'capture' }
+ *   - target 'capture' sends to the built-in capture endpoint instead of the
+ *     webhook URL, signed with the webhook's secrets
+ *   - Returns the exact request sent, and the response status with the start of
+ *     its body. Test sends are not recorded as deliveries and never retried or
+ *     counted as failures.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { ErrorHandlers, generateRequestId, wrapHandler } from '../utils/error-handler';
+import {
+  buildDeliveryHeaders,
+  postWebhookRequest,
+  type WebhookRecord,
+} from '../utils/webhook-delivery.js';
+import {
+  buildWebhookEnvelope,
+  isWebhookEventType,
+  isWebhookPayloadVersion,
+  WEBHOOK_EVENT_TYPES,
+} from '../utils/webhook-events.js';
+import { buildSampleEventData, type SampleGrant } from '../utils/webhook-samples.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Header marking test sends so receivers can ignore them
+const WEBHOOK_TEST_HEADER = 'X-Webhook-Test';
+
+// Characters of the receiver's response body returned to the console
+const RESPONSE_PREVIEW_LENGTH = 200;
+
+export default wrapHandler(async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method !== 'POST') {
+    return ErrorHandlers.methodNotAllowed(res, ['POST'], requestId);
+  }
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return ErrorHandlers.serverError(res, new Error('Server configuration error'), requestId);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Get user from auth header
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return ErrorHandlers.unauthorized(res, 'Unauthorized', undefined, requestId);
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return ErrorHandlers.unauthorized(res, 'Invalid token', undefined, requestId);
+  }
+
+  const { id } = req.query;
+  const { event, grant_id, target = 'webhook' } = req.body || {};
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'webhook id is required' });
+  }
+
+  if (!isWebhookEventType(event)) {
+    return res
+      .status(400)
+      .json({ error: `event must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}` });
+  }
+
+  if (!grant_id || typeof grant_id !== 'string') {
+    return res.status(400).json({ error: 'grant_id is required' });
+  }
+
+  if (target !== 'webhook' && target !== 'capture') {
+    return res.status(400).json({ error: "target must be 'webhook' or 'capture'" });
+  }
+
+  const { data: webhook } = await supabase.from('webhooks').select('*').eq('id', id).single();
+
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  // Check if user is admin
+  const { data: membership } = await supabase
+    .from('org_members')
+    .select('role')
+    .eq('org_id', webhook.org_id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!membership || membership.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  const { data: grant } = await supabase
+    .from('org_grants_saved')
+    .select(
+      'id, title, agency, close_date, status, priority, loi_deadline, internal_deadline, assigned_to, catalog_grant_id',
+    )
+    .eq('id', grant_id)
+    .eq('org_id', webhook.org_id)
+    .single();
+
+  if (!grant) {
+    return res.status(404).json({ error: 'Grant not found in this organization' });
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('full_name')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  // Links in the payload and the capture URL come from server config, never the request
+  const appUrl = process.env.VITE_APP_URL || 'https://grantcue.com';
+  const data = buildSampleEventData(event, grant as SampleGrant, {
+    origin: appUrl,
+    userId: user.id,
+    userName: profile?.full_name || user.email || 'Team member',
+  });
+
+  const envelope = buildWebhookEnvelope(
+    isWebhookPayloadVersion(webhook.payload_version) ? webhook.payload_version : 1,
+    event,
+    webhook.org_id,
+    data,
+  );
+  const payloadString = JSON.stringify(envelope);
+  const headers = {
+    ...buildDeliveryHeaders(webhook as WebhookRecord, `test_${crypto.randomUUID()}`, payloadString),
+    [WEBHOOK_TEST_HEADER]: 'true',
+  };
+
+  const url =
+    target === 'capture' ? `${appUrl}/api/webhooks/capture?webhook_id=${webhook.id}` : webhook.url;
+
+  const result = await postWebhookRequest(url, headers, payloadString, target === 'capture');
+
+  return res.status(200).json({
+    request: {
+      method: 'POST',
+      url,
+      headers,
+      body: envelope,
+    },
+    response:
+      result.responseStatus !== null
+        ? {
+            status: result.responseStatus,
+            body_preview: result.responseBody?.substring(0, RESPONSE_PREVIEW_LENGTH) ?? null,
+          }
+        : null,
+    error: result.errorMessage,
+    duration_ms: result.durationMs,
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Email Template for Budget Revision Requests
+ *
+ * Generates HTML emails asking org admins to approve a budget revision
+ */
+
+interface BudgetRevisionEmailData {
+  requester_name: string;
+  grant_title: string;
+  grant_id: string;
+  reason: string;
+  lines: Array<{
+    category_label: string;
+    description: string;
+    before_amount: number;
+    after_amount: number;
+  }>;
+  transfer_percent: number;
+  threshold_percent: number;
+  org_name: string;
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+/**
+ * Generates HTML email for budget revision approval requests
+ */
+export function generateBudgetRevisionEmail(data: BudgetRevisionEmailData): string {
+  const linesHTML = data.lines
+    .map(
+      (line) => `
+                <tr>
+                  <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb; color: #111827;">
+                    ${escapeHtml(line.category_label)}
+                    <div style="font-size: 13px; color: #6b7280;">${escapeHtml(line.description)}</div>
+                  </td>
+                  <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #6b7280;">${formatCurrency(line.before_amount)}</td>
+                  <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #111827;">${formatCurrency(line.after_amount)}</td>
+                </tr>`,
+    )
+    .join('');
+
+  const thresholdHTML =
+    data.transfer_percent > data.threshold_percent
+      ? `
+          <tr>
+            <td style="padding: 0 32px 8px;">
+              <div style="padding: 12px; background-color: #fef3c7; border-radius: 6px; color: #92400e;">
+                Projected transfers between categories are ${data.transfer_percent.toFixed(1)}% of the budget, above the ${data.threshold_percent}% rebudgeting threshold.
+              </div>
+            </td>
+          </tr>`
+      : '';
+
+  const grantUrl = `https://grantcue.com/grants/${data.grant_id}`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Budget Revision Approval Required</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9fafb; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 32px 32px 24px; border-bottom: 1px solid #e5e7eb;">
+              <h1 style="margin: 0; font-size: 24px; color: #111827;">⏳ Budget Revision Approval Required</h1>
+              <p style="margin: 8px 0 0; font-size: 16px; color: #6b7280;">
+                ${escapeHtml(data.requester_name)} has requested a budget revision for ${escapeHtml(data.grant_title)}.
+              </p>
+            </td>
+          </tr>
+
+          ${thresholdHTML}
+
+          <!-- Revision Details -->
+          <tr>
+            <td style="padding: 24px 32px;">
+              <strong style="color: #374151;">Reason:</strong>
+              <div style="margin-top: 4px; padding: 12px; background-color: #f9fafb; border-radius: 6px; color: #111827; white-space: pre-wrap;">${escapeHtml(data.reason)}</div>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="margin-top: 16px; font-size: 14px;">
+                <tr>
+                  <th style="padding: 6px 8px; border-bottom: 2px solid #e5e7eb; text-align: left; color: #374151;">Line Item</th>
+                  <th style="padding: 6px 8px; border-bottom: 2px solid #e5e7eb; text-align: right; color: #374151;">Before</th>
+                  <th style="padding: 6px 8px; border-bottom: 2px solid #e5e7eb; text-align: right; color: #374151;">After</th>
+                </tr>
+                ${linesHTML}
+              </table>
+            </td>
+          </tr>
+
+          <!-- CTA Button -->
+          <tr>
+            <td style="padding: 24px 32px; text-align: center;">
+              <a href="${grantUrl}" style="display: inline-block; padding: 12px 32px; background-color: #7c3aed; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                Review Revision
+              </a>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px 32px; border-top: 1px solid #e5e7eb; background-color: #f9fafb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; font-size: 14px; color: #6b7280; text-align: center;">
+                You're receiving this email because you're an admin of ${escapeHtml(data.org_name)}.
+                <br>
+                <a href="https://grantcue.com/settings/notifications" style="color: #7c3aed; text-decoration: none;">Manage your notification settings</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
@@ -0,0 +1,129 @@
+/**
+ * Email Template for Notification Digests
+ *
+ * Generates the hourly or daily digest of a user's held notifications,
+ * grouped by grant
+ */
+
+interface DigestEmailItem {
+  title: string;
+  message: string;
+  // Path in the app, e.g. /grants/:id
+  action_url: string;
+  created_at: string;
+}
+
+interface DigestEmailData {
+  recipient_name: string;
+  org_name: string;
+  frequency: 'hourly' | 'daily';
+  // Grants first; items without a grant under their own heading
+  groups: Array<{
+    heading: string;
+    items: DigestEmailItem[];
+  }>;
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generates HTML email for a notification digest
+ */
+export function generateDigestEmail(data: DigestEmailData): string {
+  const itemCount = data.groups.reduce((sum, group) => sum + group.items.length, 0);
+  const periodText = data.frequency === 'hourly' ? 'in the last hour' : 'since your last digest';
+
+  const groupsHTML = data.groups
+    .map(
+      (group) => `
+          <tr>
+            <td style="padding: 16px 32px 8px;">
+              <h2 style="margin: 0; font-size: 16px; color: #111827;">${escapeHtml(group.heading)}</h2>
+            </td>
+          </tr>
+          ${group.items
+            .map(
+              (item) => `
+          <tr>
+            <td style="padding: 4px 32px;">
+              <a href="https://grantcue.com${item.action_url}" style="display: block; padding: 12px; background-color: #f9fafb; border-left: 3px solid #7c3aed; border-radius: 6px; text-decoration: none;">
+                <div style="font-weight: 600; color: #111827;">${escapeHtml(item.title)}</div>
+                <div style="margin-top: 4px; font-size: 14px; color: #4b5563;">${escapeHtml(item.message)}</div>
+                <div style="margin-top: 4px; font-size: 12px; color: #9ca3af;">
+                  ${new Date(item.created_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </div>
+              </a>
+            </td>
+          </tr>`,
+            )
+            .join('')}`,
+    )
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your notification digest</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9fafb; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 32px 32px 24px; border-bottom: 1px solid #e5e7eb;">
+              <h1 style="margin: 0; font-size: 24px; color: #111827;">📬 Your notification digest</h1>
+              <p style="margin: 8px 0 0; font-size: 16px; color: #6b7280;">
+                Hi ${escapeHtml(data.recipient_name)}, here ${itemCount === 1 ? 'is 1 update' : `are ${itemCount} updates`} from ${escapeHtml(data.org_name)} ${periodText}.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Items by grant -->
+          ${groupsHTML}
+
+          <!-- CTA Button -->
+          <tr>
+            <td style="padding: 24px 32px; text-align: center;">
+              <a href="https://grantcue.com/pipeline" style="display: inline-block; padding: 12px 32px; background-color: #7c3aed; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                Open GrantCue
+              </a>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px 32px; border-top: 1px solid #e5e7eb; background-color: #f9fafb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; font-size: 14px; color: #6b7280; text-align: center;">
+                You're receiving this digest because you chose digest delivery or quiet hours for these notifications.
+                <br>
+                <a href="https://grantcue.com/settings/notifications" style="color: #7c3aed; text-decoration: none;">Manage your notification settings</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
@@ -0,0 +1,104 @@
+/**
+ * Email Template for @mention Notifications
+ *
+ * Generates HTML emails for users mentioned in a grant or task comment
+ */
+
+interface MentionEmailData {
+  recipient_name: string;
+  author_name: string;
+  // Comment text with mention markup already turned into plain @names
+  comment_text: string;
+  context_title: string;
+  context_type: 'grant' | 'task';
+  grant_id: string;
+  org_name: string;
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generates HTML email for @mention notifications
+ */
+export function generateMentionEmail(data: MentionEmailData): string {
+  const grantUrl = `https://grantcue.com/grants/${data.grant_id}`;
+  const contextLabel = data.context_type === 'task' ? 'Task' : 'Grant';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>You were mentioned</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9fafb; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 32px 32px 24px; border-bottom: 1px solid #e5e7eb;">
+              <h1 style="margin: 0; font-size: 24px; color: #111827;">💬 You were mentioned</h1>
+              <p style="margin: 8px 0 0; font-size: 16px; color: #6b7280;">
+                Hi ${escapeHtml(data.recipient_name)}, ${escapeHtml(data.author_name)} mentioned you in a comment.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Comment -->
+          <tr>
+            <td style="padding: 24px 32px;">
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td style="padding: 8px 0;">
+                    <strong style="color: #374151;">${contextLabel}:</strong>
+                    <div style="margin-top: 4px; font-size: 18px; font-weight: 600; color: #111827;">${escapeHtml(data.context_title)}</div>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0;">
+                    <div style="margin-top: 4px; padding: 12px; background-color: #f9fafb; border-left: 3px solid #7c3aed; border-radius: 6px; color: #111827; white-space: pre-wrap;">${escapeHtml(data.comment_text)}</div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- CTA Button -->
+          <tr>
+            <td style="padding: 24px 32px; text-align: center;">
+              <a href="${grantUrl}" style="display: inline-block; padding: 12px 32px; background-color: #7c3aed; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                View Comment
+              </a>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px 32px; border-top: 1px solid #e5e7eb; background-color: #f9fafb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; font-size: 14px; color: #6b7280; text-align: center;">
+                You're receiving this email because you were mentioned in ${escapeHtml(data.org_name)}.
+                <br>
+                <a href="https://grantcue.com/settings/notifications" style="color: #7c3aed; text-decoration: none;">Manage your notification settings</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
@@ -6,13 +6,49 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { createAdapter } from './adapters/index.js';
+import { diffCatalogGrant, TRACKED_CATALOG_FIELDS } from './catalog-history.js';
+import type { BaseGrantAdapter } from './adapters/BaseGrantAdapter.js';
+import {
+  DUPLICATE_THRESHOLD,
+  orderCanonical,
+  normalizeOpportunityNumber,
+  scoreDuplicate,
+  type DedupCandidate,
+} from './dedup.js';
 import type {
+  CatalogGrant,
   GrantSource,
   SyncJob,
   SyncResult,
+  SyncRunOptions,
   JobType,
 } from './types';
 
+// Failed jobs are retried from their checkpoint this many times before giving up
+const MAX_SYNC_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A running job without a heartbeat for this long was cut off mid-page
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Candidates fetched per query in the de-duplication pass, oldest records first
+const DEDUP_CANDIDATE_LIMIT = 50;
+
+/**
+ * Quote a value for a PostgREST filter list, escaping backslashes and double quotes
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Exponential backoff: 15m, 30m, 1h, 2h, 4h (capped at 6h)
+ */
+function getRetryDelay(retryCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1), RETRY_MAX_DELAY_MS);
+}
+
 export class SyncService {
   private supabase;
 
@@ -22,11 +58,15 @@ export class SyncService {
 
   /**
    * Run a sync job for a specific source
+   *
+   * Full syncs are checkpointed after every page. When options.deadline passes
+   * the job is left pending with its checkpoint and resumeSync() picks it up.
    */
   async runSync(
     sourceKey: string,
     jobType: JobType = 'full',
-    singleGrantId?: string
+    singleGrantId?: string,
+    options: SyncRunOptions = {}
   ): Promise<SyncJob> {
     // Get source configuration
     const { data: source, error: sourceError } = await this.supabase
@@ -40,13 +80,16 @@ export class SyncService {
     }
 
     // Create sync job record
+    const now = new Date().toISOString();
     const { data: job, error: jobError } = await this.supabase
       .from('sync_jobs')
       .insert({
         source_id: source.id,
         job_type: jobType,
         status: 'running',
-        started_at: new Date().toISOString(),
+        checkpoint_page: jobType === 'single' ? null : 1,
+        started_at: now,
+        last_heartbeat_at: now,
       })
       .select()
       .single();
@@ -55,39 +98,105 @@ export class SyncService {
       throw new Error('Failed to create sync job');
     }
 
+    return this.executeJob(job as SyncJob, source as GrantSource, singleGrantId, options);
+  }
+
+  /**
+   * Resume a pending (retrying or paused) or interrupted sync job from its checkpoint
+   */
+  async resumeSync(jobId: string, options: SyncRunOptions = {}): Promise<SyncJob> {
+    const { data: job, error } = await this.supabase
+      .from('sync_jobs')
+      .select('*, source:grant_sources(*)')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !job) {
+      throw new Error(`Sync job not found: ${jobId}`);
+    }
+
+    if (job.status !== 'pending' && job.status !== 'running') {
+      throw new Error(`Sync job ${jobId} is ${job.status} and cannot be resumed`);
+    }
+
+    const { source, ...jobRecord } = job;
+
+    await this.supabase
+      .from('sync_jobs')
+      .update({
+        status: 'running',
+        next_retry_at: null,
+        last_heartbeat_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    return this.executeJob(jobRecord as SyncJob, source as GrantSource, undefined, options);
+  }
+
+  /**
+   * Jobs the cron should pick up: pending jobs whose backoff has elapsed, and
+   * running jobs whose heartbeat went stale (the function was cut off mid-page)
+   */
+  async getResumableJobs(): Promise<SyncJob[]> {
+    const { data: jobs } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .in('status', ['pending', 'running'])
+      .order('created_at', { ascending: true });
+
+    const now = Date.now();
+
+    return ((jobs || []) as SyncJob[]).filter((job) => {
+      if (job.status === 'pending') {
+        return !job.next_retry_at || new Date(job.next_retry_at).getTime() <= now;
+      }
+      return !job.last_heartbeat_at || now - new Date(job.last_heartbeat_at).getTime() > STALE_JOB_MS;
+    });
+  }
+
+  /**
+   * Run (or continue) a job and record its outcome
+   */
+  private async executeJob(
+    job: SyncJob,
+    source: GrantSource,
+    singleGrantId: string | undefined,
+    options: SyncRunOptions
+  ): Promise<SyncJob> {
     try {
       // Get API key if required (from environment or config)
-      const apiKey = this.getApiKeyForSource(sourceKey);
+      const apiKey = this.getApiKeyForSource(source.source_key);
 
       // Create adapter
-      const adapter = createAdapter(source as GrantSource, apiKey);
+      const adapter = createAdapter(source, apiKey);
+
+      if (job.job_type === 'single' && singleGrantId) {
+        const result = await this.syncSingleGrant(adapter, singleGrantId);
+        await this.recordPageResult(job, await this.processAndDeduplicate(result, source, adapter));
+      } else if (job.job_type === 'incremental' && source.last_sync_at) {
+        const result = await adapter.performIncrementalSync(new Date(source.last_sync_at));
+        await this.recordPageResult(job, await this.processAndDeduplicate(result, source, adapter));
+      } else {
+        const finished = await this.runCheckpointedSync(job, source, adapter, options);
 
-      let result: SyncResult;
+        if (!finished) {
+          // Out of time - leave the checkpoint for the next cron tick
+          await this.supabase
+            .from('sync_jobs')
+            .update({ status: 'pending', last_heartbeat_at: new Date().toISOString() })
+            .eq('id', job.id);
 
-      // Run appropriate sync type
-      if (jobType === 'single' && singleGrantId) {
-        result = await this.syncSingleGrant(adapter, singleGrantId);
-      } else if (jobType === 'incremental' && source.last_sync_at) {
-        result = await adapter.performIncrementalSync(new Date(source.last_sync_at));
-      } else {
-        // Skip fetching full details during bulk sync to avoid timeout
-        // The search API provides enough data for the catalog
-        result = await adapter.performFullSync(false);
+          return this.getJob(job.id);
+        }
       }
 
-      // Process grants and save to catalog
-      const catalogResult = await this.processSyncResult(result, source as GrantSource, adapter);
-
       // Update job with results
       await this.supabase
         .from('sync_jobs')
         .update({
           status: 'completed',
-          grants_fetched: catalogResult.grants_fetched,
-          grants_created: catalogResult.grants_created,
-          grants_updated: catalogResult.grants_updated,
-          grants_skipped: catalogResult.grants_skipped,
-          duplicates_found: catalogResult.duplicates_found,
+          checkpoint_page: null,
+          next_retry_at: null,
           completed_at: new Date().toISOString(),
         })
         .eq('id', job.id);
@@ -100,22 +209,22 @@ export class SyncService {
         })
         .eq('id', source.id);
 
-      // Return updated job
-      const { data: updatedJob } = await this.supabase
-        .from('sync_jobs')
-        .select('*')
-        .eq('id', job.id)
-        .single();
-
-      return updatedJob as SyncJob;
+      return this.getJob(job.id);
     } catch (error) {
-      // Update job with error
+      // Keep the checkpoint and schedule a retry, or give up after MAX_SYNC_RETRIES
+      const retryCount = (job.retry_count || 0) + 1;
+      const willRetry = job.job_type !== 'single' && retryCount <= MAX_SYNC_RETRIES;
+
       await this.supabase
         .from('sync_jobs')
         .update({
-          status: 'failed',
+          status: willRetry ? 'pending' : 'failed',
           error_message: error instanceof Error ? error.message : 'Unknown error',
-          completed_at: new Date().toISOString(),
+          retry_count: retryCount,
+          next_retry_at: willRetry
+            ? new Date(Date.now() + getRetryDelay(retryCount)).toISOString()
+            : null,
+          completed_at: willRetry ? null : new Date().toISOString(),
         })
         .eq('id', job.id);
 
@@ -123,6 +232,106 @@ export class SyncService {
     }
   }
 
+  /**
+   * Page through a full sync from the job's checkpoint, saving progress after each page
+   *
+   * @returns false if the deadline passed before the last page
+   */
+  private async runCheckpointedSync(
+    job: SyncJob,
+    source: GrantSource,
+    adapter: BaseGrantAdapter,
+    options: SyncRunOptions
+  ): Promise<boolean> {
+    let page = job.checkpoint_page || 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      if (options.deadline && Date.now() >= options.deadline) {
+        return false;
+      }
+
+      // Skip fetching full details during bulk sync to avoid timeout
+      // The search API provides enough data for the catalog
+      const { result, pagination } = await adapter.fetchSyncPage(page, false);
+      const catalogResult = await this.processAndDeduplicate(result, source, adapter);
+
+      hasMore = pagination.has_more;
+      page++;
+
+      await this.recordPageResult(job, catalogResult, {
+        checkpoint_page: hasMore ? page : null,
+        pages_completed: (job.pages_completed || 0) + 1,
+        total_items: pagination.total || null,
+        total_pages:
+          pagination.total && pagination.limit ? Math.ceil(pagination.total / pagination.limit) : null,
+      });
+
+      // Respect rate limits between pages
+      if (hasMore) {
+        await adapter.rateLimitDelay();
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Save catalog results, then match new and changed grants against other sources
+   */
+  private async processAndDeduplicate(
+    result: SyncResult,
+    source: GrantSource,
+    adapter: BaseGrantAdapter
+  ): Promise<SyncResult> {
+    const catalogResult = await this.processSyncResult(result, source, adapter);
+    catalogResult.duplicates_found += await this.deduplicateGrants(
+      catalogResult.changed_grant_ids || []
+    );
+    return catalogResult;
+  }
+
+  /**
+   * Add a batch of results to the job's running totals and bump its heartbeat
+   *
+   * Mutates job so totals keep accumulating across pages within one run.
+   */
+  private async recordPageResult(
+    job: SyncJob,
+    result: SyncResult,
+    progress: Partial<SyncJob> = {}
+  ): Promise<void> {
+    job.grants_fetched = (job.grants_fetched || 0) + result.grants_fetched;
+    job.grants_created = (job.grants_created || 0) + result.grants_created;
+    job.grants_updated = (job.grants_updated || 0) + result.grants_updated;
+    job.grants_skipped = (job.grants_skipped || 0) + result.grants_skipped;
+    job.duplicates_found = (job.duplicates_found || 0) + result.duplicates_found;
+    Object.assign(job, progress);
+
+    await this.supabase
+      .from('sync_jobs')
+      .update({
+        grants_fetched: job.grants_fetched,
+        grants_created: job.grants_created,
+        grants_updated: job.grants_updated,
+        grants_skipped: job.grants_skipped,
+        duplicates_found: job.duplicates_found,
+        ...progress,
+        last_heartbeat_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+  }
+
+  private async getJob(jobId: string): Promise<SyncJob> {
+    const { data: job } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    return job as SyncJob;
+  }
+
   /**
    * Sync a single grant by external ID
    */
@@ -179,6 +388,14 @@ export class SyncService {
 
     try {
       const processedIds = new Set<string>();
+      const changedIds: string[] = [];
+      const existingColumns = [
+        'id',
+        'content_hash',
+        'last_updated_at',
+        'version',
+        ...TRACKED_CATALOG_FIELDS,
+      ].join(', ');
 
       // Process each normalized grant
       for (const normalized of normalizedGrants) {
@@ -188,18 +405,24 @@ export class SyncService {
           const contentHash = adapter.generateContentHash(normalized);
 
           // Check if grant already exists
-          const { data: existing } = await this.supabase
+          const { data: existingRow } = await this.supabase
             .from('grants_catalog')
-            .select('id, content_hash, last_updated_at')
+            .select(existingColumns)
             .eq('source_key', source.source_key)
             .eq('external_id', normalized.external_id)
             .maybeSingle();
+          const existing = existingRow as (CatalogGrant & { version?: number }) | null;
 
           const now = new Date().toISOString();
 
           if (existing) {
+            // The content hash only covers title/agency/close date, so also diff
+            // the tracked fields to catch e.g. award ceiling changes
+            const fieldChanges = diffCatalogGrant(existing, normalized);
+            const version = (existing.version || 1) + (fieldChanges.length > 0 ? 1 : 0);
+
             // Check if content has changed
-            if (existing.content_hash !== contentHash) {
+            if (existing.content_hash !== contentHash || fieldChanges.length > 0) {
               // Update existing grant
               await this.supabase
                 .from('grants_catalog')
@@ -224,11 +447,25 @@ export class SyncService {
                   source_url: normalized.source_url,
                   application_url: normalized.application_url,
                   content_hash: contentHash,
+                  record_type: normalized.record_type || 'opportunity',
+                  program_details: normalized.program_details || null,
+                  version,
                   last_updated_at: now,
                   last_synced_at: now,
                 })
                 .eq('id', existing.id);
 
+              // Record the field-level history for this version
+              if (fieldChanges.length > 0) {
+                await this.supabase.from('grants_catalog_changes').insert({
+                  catalog_grant_id: existing.id,
+                  version,
+                  changes: fieldChanges,
+                  changed_at: now,
+                });
+              }
+
+              changedIds.push(existing.id);
               result.grants_updated++;
             } else {
               // No changes, just update sync timestamp
@@ -241,7 +478,7 @@ export class SyncService {
             }
           } else {
             // Insert new grant
-            await this.supabase
+            const { data: inserted } = await this.supabase
               .from('grants_catalog')
               .insert({
                 source_id: source.id,
@@ -267,12 +504,19 @@ export class SyncService {
                 source_url: normalized.source_url,
                 application_url: normalized.application_url,
                 content_hash: contentHash,
+                record_type: normalized.record_type || 'opportunity',
+                program_details: normalized.program_details || null,
                 first_seen_at: now,
                 last_updated_at: now,
                 last_synced_at: now,
                 is_active: true,
-              });
+              })
+              .select('id')
+              .single();
 
+            if (inserted) {
+              changedIds.push(inserted.id);
+            }
             result.grants_created++;
           }
 
@@ -288,6 +532,7 @@ export class SyncService {
 
       // Update the result counts to reflect actual operations
       result.grants_fetched = processedIds.size;
+      result.changed_grant_ids = changedIds;
     } catch (error) {
       result.errors.push({
         error_code: 'SYNC_ERROR',
@@ -332,6 +577,161 @@ export class SyncService {
     }
   }
 
+  /**
+   * Fuzzy cross-source de-duplication pass
+   *
+   * For each grant, pulls candidates from other sources with the same normalized
+   * opportunity number, then up to DEDUP_CANDIDATE_LIMIT more that share a content
+   * hash, an ALN/CFDA number or a nearby close date, scores them and records
+   * pairs above DUPLICATE_THRESHOLD in grant_duplicates. Pairs an admin already
+   * confirmed or rejected are left alone.
+   *
+   * @returns Number of duplicate pairs recorded
+   */
+  async deduplicateGrants(grantIds: string[]): Promise<number> {
+    const columns =
+      'id, source_key, title, agency, opportunity_number, close_date, cfda_numbers, aln_codes, content_hash, first_seen_at';
+    let found = 0;
+
+    for (const grantId of grantIds) {
+      try {
+        const { data: grant } = await this.supabase
+          .from('grants_catalog')
+          .select(columns)
+          .eq('id', grantId)
+          .eq('record_type', 'opportunity')
+          .maybeSingle();
+
+        if (!grant) continue;
+
+        const candidates = new Map<string, DedupCandidate>();
+
+        // Exact opportunity number matches first, so the fuzzy cap never crowds them out
+        const opportunityNumber = normalizeOpportunityNumber(grant.opportunity_number);
+        if (opportunityNumber) {
+          const { data: exact } = await this.supabase
+            .from('grants_catalog')
+            .select(columns)
+            .neq('source_key', grant.source_key)
+            .eq('record_type', 'opportunity')
+            .eq('is_active', true)
+            .eq('opportunity_number_normalized', opportunityNumber)
+            .order('first_seen_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(DEDUP_CANDIDATE_LIMIT);
+
+          for (const candidate of (exact || []) as DedupCandidate[]) {
+            candidates.set(candidate.id, candidate);
+          }
+        }
+
+        const filters: string[] = [];
+        if (grant.content_hash) {
+          filters.push(`content_hash.eq.${quoteFilterValue(grant.content_hash)}`);
+        }
+        const codes = [...(grant.aln_codes || []), ...(grant.cfda_numbers || [])];
+        if (codes.length > 0) {
+          const list = codes.map(quoteFilterValue).join(',');
+          filters.push(`aln_codes.ov.{${list}}`, `cfda_numbers.ov.{${list}}`);
+        }
+        if (grant.close_date) {
+          const closeDate = new Date(grant.close_date).getTime();
+          const from = new Date(closeDate - 3 * 86400000).toISOString();
+          const to = new Date(closeDate + 3 * 86400000).toISOString();
+          filters.push(`and(close_date.gte.${from},close_date.lte.${to})`);
+        }
+
+        if (filters.length > 0) {
+          const { data: fuzzy } = await this.supabase
+            .from('grants_catalog')
+            .select(columns)
+            .neq('source_key', grant.source_key)
+            .eq('record_type', 'opportunity')
+            .eq('is_active', true)
+            .or(filters.join(','))
+            .order('first_seen_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(DEDUP_CANDIDATE_LIMIT);
+
+          for (const candidate of (fuzzy || []) as DedupCandidate[]) {
+            if (!candidates.has(candidate.id)) {
+              candidates.set(candidate.id, candidate);
+            }
+          }
+        }
+
+        for (const candidate of candidates.values()) {
+          const match = scoreDuplicate(grant as DedupCandidate, candidate);
+          if (match.score < DUPLICATE_THRESHOLD) continue;
+
+          const [primary, duplicate] = orderCanonical(grant as DedupCandidate, candidate);
+
+          const { data: existing } = await this.supabase
+            .from('grant_duplicates')
+            .select('id, is_confirmed, is_rejected, match_method')
+            .or(
+              `and(primary_grant_id.eq.${primary.id},duplicate_grant_id.eq.${duplicate.id}),` +
+                `and(primary_grant_id.eq.${duplicate.id},duplicate_grant_id.eq.${primary.id})`
+            )
+            .maybeSingle();
+
+          // Manual decisions win over re-scoring
+          if (existing && (existing.is_rejected || existing.match_method === 'manual')) {
+            continue;
+          }
+
+          const row = {
+            primary_grant_id: primary.id,
+            duplicate_grant_id: duplicate.id,
+            match_score: match.score,
+            match_method: match.method,
+            match_details: match.signals,
+            is_confirmed: existing?.is_confirmed || match.auto_confirm,
+            ...(match.auto_confirm && !existing?.is_confirmed
+              ? { confirmed_at: new Date().toISOString() }
+              : {}),
+          };
+
+          if (existing) {
+            await this.supabase.from('grant_duplicates').update(row).eq('id', existing.id);
+          } else {
+            await this.supabase.from('grant_duplicates').insert(row);
+          }
+
+          found++;
+        }
+      } catch (error) {
+        console.error(`Error de-duplicating grant ${grantId}:`, error);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Get the Assistance Listings an opportunity belongs to (matched on ALN/CFDA numbers)
+   */
+  async getAssistanceListingsForGrant(grantId: string): Promise<CatalogGrant[]> {
+    const { data, error } = await this.supabase
+      .rpc('get_assistance_listings_for_grant', { p_grant_id: grantId });
+
+    if (error || !data) return [];
+
+    return data as CatalogGrant[];
+  }
+
+  /**
+   * Get the opportunities posted under an Assistance Listing
+   */
+  async getOpportunitiesForAssistanceListing(listingId: string): Promise<CatalogGrant[]> {
+    const { data, error } = await this.supabase
+      .rpc('get_opportunities_for_assistance_listing', { p_listing_id: listingId });
+
+    if (error || !data) return [];
+
+    return data as CatalogGrant[];
+  }
+
   /**
    * Get recent sync jobs for a source
    */
@@ -353,4 +753,19 @@ export class SyncService {
 
     return jobs as SyncJob[];
   }
+
+  /**
+   * Get the most recent jobs across all sources, unfinished jobs first
+   */
+  async getRecentJobs(limit: number = 25): Promise<SyncJob[]> {
+    const { data: jobs } = await this.supabase
+      .from('sync_jobs')
+      .select('*, source:grant_sources(source_key, source_name)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    const unfinished = (job: SyncJob) => (job.status === 'pending' || job.status === 'running' ? 0 : 1);
+
+    return ((jobs || []) as SyncJob[]).sort((a, b) => unfinished(a) - unfinished(b));
+  }
 }
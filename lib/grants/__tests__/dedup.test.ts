@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AUTO_CONFIRM_THRESHOLD,
+  DUPLICATE_THRESHOLD,
+  normalizeOpportunityNumber,
+  orderCanonical,
+  scoreDuplicate,
+  titleSimilarity,
+  type DedupCandidate,
+} from '../dedup.js';
+
+function candidate(overrides: Partial<DedupCandidate>): DedupCandidate {
+  return {
+    id: 'a',
+    source_key: 'grants_gov',
+    title: 'Community Economic Development Program',
+    agency: 'HHS',
+    opportunity_number: 'HHS-2025-ACF-OCS-EE-0012',
+    close_date: '2025-06-30T00:00:00Z',
+    cfda_numbers: ['93.570'],
+    aln_codes: [],
+    content_hash: undefined,
+    first_seen_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  } as DedupCandidate;
+}
+
+describe('normalizeOpportunityNumber', () => {
+  it('ignores case and punctuation', () => {
+    assert.equal(normalizeOpportunityNumber('hhs-2025-acf ocs.ee_0012'), 'HHS2025ACFOCSEE0012');
+  });
+
+  it('returns undefined for empty values', () => {
+    assert.equal(normalizeOpportunityNumber(null), undefined);
+    assert.equal(normalizeOpportunityNumber(' - '), undefined);
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ignores fiscal years, punctuation and filler words', () => {
+    assert.equal(
+      titleSimilarity('FY 2025 Community Economic Development', 'Community & Economic Development'),
+      titleSimilarity('Community Economic Development', 'Community and Economic Development'),
+    );
+    assert.equal(titleSimilarity('The Rural Health Program', 'rural health program'), 1);
+  });
+
+  it('scores unrelated titles low', () => {
+    assert.ok(titleSimilarity('Rural Health Outreach', 'Coastal Resilience Research') < 0.2);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  it('treats identical content hashes as a certain match without auto-confirming', () => {
+    const match = scoreDuplicate(
+      candidate({ content_hash: 'abc' }),
+      candidate({ id: 'b', content_hash: 'abc', title: 'Other' }),
+    );
+    assert.equal(match.score, 1);
+    assert.equal(match.method, 'title_hash');
+    assert.equal(match.auto_confirm, false);
+  });
+
+  it('auto-confirms near-identical records with the same opportunity number', () => {
+    const match = scoreDuplicate(
+      candidate({}),
+      candidate({
+        id: 'b',
+        source_key: 'opengrants',
+        opportunity_number: 'hhs 2025 acf ocs ee 0012',
+        title: 'FY2025 Community Economic Development Program',
+        close_date: '2025-06-30T23:59:00Z',
+      }),
+    );
+    assert.ok(match.score >= AUTO_CONFIRM_THRESHOLD, `score ${match.score}`);
+    assert.equal(match.signals.opportunity_number, 1);
+    assert.equal(match.auto_confirm, true);
+  });
+
+  it('leaves signals missing on either side out of the score', () => {
+    const match = scoreDuplicate(
+      candidate({ opportunity_number: undefined, cfda_numbers: [], close_date: undefined }),
+      candidate({ id: 'b', source_key: 'opengrants' }),
+    );
+    assert.deepEqual(match.signals, { title: 1 });
+    assert.equal(match.score, 1);
+    assert.equal(match.auto_confirm, false);
+  });
+
+  it('keeps dissimilar titles below the threshold even when other signals match', () => {
+    const match = scoreDuplicate(
+      candidate({}),
+      candidate({ id: 'b', source_key: 'opengrants', title: 'Coastal Resilience Research Grants' }),
+    );
+    assert.ok(match.score < DUPLICATE_THRESHOLD, `score ${match.score}`);
+    assert.equal(match.auto_confirm, false);
+  });
+
+  it('scores close dates on a sliding window', () => {
+    const near = scoreDuplicate(
+      candidate({}),
+      candidate({ id: 'b', close_date: '2025-07-07T00:00:00Z' }),
+    );
+    const far = scoreDuplicate(
+      candidate({}),
+      candidate({ id: 'b', close_date: '2025-08-30T00:00:00Z' }),
+    );
+    assert.equal(near.signals.close_date, 0.5);
+    assert.equal(far.signals.close_date, 0);
+  });
+});
+
+describe('orderCanonical', () => {
+  it('prefers Grants.gov over other sources', () => {
+    const grantsGov = candidate({ id: 'z', first_seen_at: '2025-03-01T00:00:00Z' });
+    const other = candidate({ id: 'a', source_key: 'opengrants' });
+    assert.deepEqual(orderCanonical(other, grantsGov), [grantsGov, other]);
+    assert.deepEqual(orderCanonical(grantsGov, other), [grantsGov, other]);
+  });
+
+  it('falls back to the record seen first, then the id', () => {
+    const older = candidate({
+      id: 'z',
+      source_key: 'custom',
+      first_seen_at: '2025-01-01T00:00:00Z',
+    });
+    const newer = candidate({
+      id: 'a',
+      source_key: 'custom',
+      first_seen_at: '2025-02-01T00:00:00Z',
+    });
+    assert.deepEqual(orderCanonical(newer, older), [older, newer]);
+
+    const first = candidate({ id: 'a' });
+    const second = candidate({ id: 'b' });
+    assert.deepEqual(orderCanonical(second, first), [first, second]);
+  });
+});
@@ -10,6 +10,7 @@ import type {
   RawGrantData,
   SourceSearchParams,
   SourceFetchResponse,
+  SyncPage,
   SyncResult,
   GrantSource,
 } from '../types.js';
@@ -91,6 +92,64 @@ export abstract class BaseGrantAdapter {
     return this.source.rate_limit_per_minute || 60;
   }
 
+  /**
+   * Fetch and normalize one page of a full sync
+   *
+   * Fetch errors are thrown so a checkpointed job can retry the same page;
+   * normalization errors are collected on the result.
+   * @param page - Page number (1-based)
+   * @param fetchFullDetails - If true, fetches complete grant details including descriptions
+   */
+  async fetchSyncPage(page: number, fetchFullDetails: boolean = true): Promise<SyncPage> {
+    const result: SyncResult = {
+      grants_fetched: 0,
+      grants_created: 0,
+      grants_updated: 0,
+      grants_skipped: 0,
+      duplicates_found: 0,
+      errors: [],
+      grants: [],
+    };
+
+    const response = await this.fetchGrants({
+      page,
+      limit: 100,
+    });
+
+    result.grants_fetched = response.grants.length;
+
+    // Process each grant - fetch full details if requested, then normalize
+    for (const raw of response.grants) {
+      try {
+        let grantToNormalize = raw;
+
+        // Fetch full details if requested and external_id is available
+        if (fetchFullDetails) {
+          const externalId = (raw as any).id || (raw as any).number;
+          if (externalId) {
+            const fullGrant = await this.fetchSingleGrant(String(externalId));
+            if (fullGrant) {
+              grantToNormalize = fullGrant;
+            }
+            // Rate limit individual detail fetches
+            await new Promise(resolve => setTimeout(resolve, 100));
+          }
+        }
+
+        const normalized = this.normalizeGrant(grantToNormalize);
+        result.grants!.push(normalized);
+      } catch (error) {
+        result.errors.push({
+          error_code: 'NORMALIZATION_ERROR',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    return { result, pagination: response.pagination };
+  }
+
   /**
    * Perform full sync of all grants
    * @param fetchFullDetails - If true, fetches complete grant details including descriptions
@@ -112,43 +171,13 @@ export abstract class BaseGrantAdapter {
       let hasMore = true;
 
       while (hasMore) {
-        const response = await this.fetchGrants({
-          page,
-          limit: 100,
-        });
+        const { result: pageResult, pagination } = await this.fetchSyncPage(page, fetchFullDetails);
 
-        result.grants_fetched += response.grants.length;
-
-        // Process each grant - fetch full details if requested, then normalize
-        for (const raw of response.grants) {
-          try {
-            let grantToNormalize = raw;
-
-            // Fetch full details if requested and external_id is available
-            if (fetchFullDetails) {
-              const externalId = (raw as any).id || (raw as any).number;
-              if (externalId) {
-                const fullGrant = await this.fetchSingleGrant(String(externalId));
-                if (fullGrant) {
-                  grantToNormalize = fullGrant;
-                }
-                // Rate limit individual detail fetches
-                await new Promise(resolve => setTimeout(resolve, 100));
-              }
-            }
-
-            const normalized = this.normalizeGrant(grantToNormalize);
-            result.grants!.push(normalized);
-          } catch (error) {
-            result.errors.push({
-              error_code: 'NORMALIZATION_ERROR',
-              error_message: error instanceof Error ? error.message : 'Unknown error',
-              timestamp: new Date().toISOString(),
-            });
-          }
-        }
+        result.grants_fetched += pageResult.grants_fetched;
+        result.grants!.push(...(pageResult.grants || []));
+        result.errors.push(...pageResult.errors);
 
-        hasMore = response.pagination.has_more;
+        hasMore = pagination.has_more;
         page++;
 
         // Respect rate limits between pages
@@ -215,7 +244,7 @@ export abstract class BaseGrantAdapter {
   /**
    * Rate limit delay based on source configuration
    */
-  protected async rateLimitDelay(): Promise<void> {
+  async rateLimitDelay(): Promise<void> {
     const delayMs = (60 * 1000) / this.getRateLimit();
     await new Promise((resolve) => setTimeout(resolve, delayMs));
   }
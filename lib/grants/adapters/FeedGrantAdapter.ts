@@ -0,0 +1,549 @@
+/**
+ * Generic Feed Source Adapter
+ *
+ * Ingests RSS, Atom and JSON feeds from state and foundation grant portals.
+ * Each grant_sources row carries a feed_config with an XPath/JSONPath mapping
+ * per CatalogGrant field, date formats and a status mapping, so new feeds can be
+ * onboarded without code. Use dryRun() to preview a mapping before enabling sync.
+ */
+
+import crypto from 'crypto';
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat.js';
+import { BaseGrantAdapter } from './BaseGrantAdapter.js';
+import {
+  parseXml,
+  selectJsonPath,
+  selectXPath,
+  xmlTextContent,
+  type XmlElement,
+} from '../feed-paths.js';
+import { assertPublicFeedUrl, getFeedUrlError } from '../feed-url.js';
+import type {
+  CatalogGrant,
+  FeedConfig,
+  FeedDryRunResult,
+  FeedFieldMapping,
+  FeedMappableField,
+  FeedMappingError,
+  GrantSource,
+  OpportunityStatus,
+  RawGrantData,
+  SourceFetchResponse,
+  SourceSearchParams,
+} from '../types.js';
+
+dayjs.extend(customParseFormat);
+
+const TEXT_FIELDS = [
+  'title',
+  'description',
+  'agency',
+  'opportunity_number',
+  'funding_category',
+  'source_url',
+  'application_url',
+] as const;
+
+const NUMBER_FIELDS = [
+  'estimated_funding',
+  'award_floor',
+  'award_ceiling',
+  'expected_awards',
+] as const;
+
+const LIST_FIELDS = ['eligibility_applicants', 'cfda_numbers', 'aln_codes'] as const;
+
+const DATE_FIELDS = ['posted_date', 'open_date', 'close_date'] as const;
+
+const MAPPABLE_FIELDS: FeedMappableField[] = [
+  'external_id',
+  ...TEXT_FIELDS,
+  ...NUMBER_FIELDS,
+  ...LIST_FIELDS,
+  ...DATE_FIELDS,
+  'cost_sharing_required',
+  'opportunity_status',
+];
+
+const OPPORTUNITY_STATUSES: OpportunityStatus[] = ['forecasted', 'posted', 'closed', 'archived'];
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Feed item as handed from fetchGrants() to normalizeGrant()
+ */
+interface FeedItem {
+  index: number;
+  node: unknown;
+}
+
+interface MappedItem {
+  grant: CatalogGrant | null;
+  errors: FeedMappingError[];
+}
+
+/**
+ * Validate a feed configuration before it is saved
+ *
+ * @returns List of problems; empty when the config is usable
+ */
+export function validateFeedConfig(config: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object') {
+    return ['feed_config must be an object'];
+  }
+
+  const feed = config as Partial<FeedConfig>;
+
+  if (!feed.format || !['rss', 'atom', 'json'].includes(feed.format)) {
+    errors.push('format must be one of rss, atom, json');
+  }
+
+  if (!feed.items_path || typeof feed.items_path !== 'string') {
+    errors.push('items_path is required');
+  }
+
+  if (feed.feed_url !== undefined) {
+    const urlError =
+      typeof feed.feed_url === 'string'
+        ? getFeedUrlError(feed.feed_url)
+        : 'feed_url must be a string';
+    if (urlError) {
+      errors.push(urlError);
+    }
+  }
+
+  if (!feed.fields || typeof feed.fields !== 'object') {
+    errors.push('fields mapping is required');
+  } else {
+    for (const [field, mapping] of Object.entries(feed.fields)) {
+      if (!MAPPABLE_FIELDS.includes(field as FeedMappableField)) {
+        errors.push(`fields.${field} is not a mappable CatalogGrant field`);
+        continue;
+      }
+      const path = typeof mapping === 'string' ? mapping : mapping?.path;
+      if (!path || typeof path !== 'string') {
+        errors.push(`fields.${field} must be a path or { path } object`);
+      }
+    }
+    if (!feed.fields.title) {
+      errors.push('fields.title is required');
+    }
+  }
+
+  for (const [value, status] of Object.entries(feed.status_map || {})) {
+    if (!OPPORTUNITY_STATUSES.includes(status)) {
+      errors.push(`status_map["${value}"] must be one of ${OPPORTUNITY_STATUSES.join(', ')}`);
+    }
+  }
+
+  if (feed.default_status && !OPPORTUNITY_STATUSES.includes(feed.default_status)) {
+    errors.push(`default_status must be one of ${OPPORTUNITY_STATUSES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+export class FeedGrantAdapter extends BaseGrantAdapter {
+  private config: FeedConfig;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param config Overrides source.feed_config (used to dry-run unsaved mappings)
+   * @param fetchImpl Optional fetch implementation for recorded fixture responses
+   */
+  constructor(source: GrantSource, apiKey?: string, config?: FeedConfig, fetchImpl?: typeof fetch) {
+    super(source, apiKey);
+
+    const feedConfig = config || source.feed_config;
+    if (!feedConfig) {
+      throw new Error(`Source ${source.source_key} has no feed_config`);
+    }
+
+    this.config = feedConfig;
+    this.fetchImpl = fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Feeds are not paginated - the whole document is one page
+   */
+  async fetchGrants(_params: SourceSearchParams): Promise<SourceFetchResponse> {
+    const body = await this.fetchFeed();
+    const items = this.extractItems(body);
+
+    return {
+      grants: items,
+      pagination: {
+        page: 1,
+        limit: items.length,
+        total: items.length,
+        has_more: false,
+      },
+    };
+  }
+
+  /**
+   * Feeds have no per-item endpoint; find the item in the current document
+   */
+  async fetchSingleGrant(externalId: string): Promise<RawGrantData | null> {
+    const body = await this.fetchFeed();
+    const items = this.extractItems(body);
+
+    return items.find((item) => this.mapItem(item).grant?.external_id === externalId) || null;
+  }
+
+  normalizeGrant(raw: RawGrantData): CatalogGrant {
+    const { grant, errors } = this.mapItem(raw as FeedItem);
+
+    if (!grant) {
+      throw new Error(errors.map((e) => `${e.field}: ${e.message}`).join('; '));
+    }
+
+    return grant;
+  }
+
+  /**
+   * Map the feed without writing anything, reporting per-field mapping errors
+   *
+   * @param content Feed body to use instead of fetching (e.g. a pasted sample)
+   * @param limit Maximum number of items to map
+   */
+  async dryRun(content?: string, limit: number = 25): Promise<FeedDryRunResult> {
+    const result: FeedDryRunResult = { items_found: 0, grants: [], errors: [] };
+
+    let items: FeedItem[];
+    try {
+      items = this.extractItems(content ?? (await this.fetchFeed()));
+    } catch (error) {
+      result.errors.push({
+        item_index: -1,
+        field: 'item',
+        path: this.config.items_path,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return result;
+    }
+
+    result.items_found = items.length;
+
+    for (const item of items.slice(0, limit)) {
+      const { grant, errors } = this.mapItem(item);
+      if (grant) {
+        result.grants.push(grant);
+      }
+      result.errors.push(...errors);
+    }
+
+    return result;
+  }
+
+  private async fetchFeed(): Promise<string> {
+    const url = this.config.feed_url || this.source.api_base_url;
+    if (!url) {
+      throw new Error(`Source ${this.source.source_key} has no feed URL`);
+    }
+
+    if (!this.validateCredentials()) {
+      throw new Error(`API key is required for ${this.source.source_name}`);
+    }
+
+    const accept: Record<string, string> = {
+      Accept:
+        this.config.format === 'json'
+          ? 'application/json'
+          : 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+    };
+
+    const headers = { ...accept };
+    for (const [name, value] of Object.entries(this.config.headers || {})) {
+      headers[name] = value.replace('{{api_key}}', this.apiKey || '');
+    }
+
+    // Follow redirects by hand so every hop is checked for a public host, and
+    // configured headers (which may carry the API key) stay on the feed's origin
+    const origin = new URL(url).origin;
+    let target = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicFeedUrl(target);
+      response = await this.fetchImpl(target, {
+        headers: new URL(target).origin === origin ? headers : accept,
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Feed error for ${this.source.source_name}: too many redirects`);
+      }
+      target = new URL(location, target).toString();
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        `Feed error for ${this.source.source_name}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response.text();
+  }
+
+  private extractItems(body: string): FeedItem[] {
+    let nodes: unknown[];
+
+    if (this.config.format === 'json') {
+      let document: unknown;
+      try {
+        document = JSON.parse(body);
+      } catch {
+        throw new Error('Feed is not valid JSON');
+      }
+      nodes = selectJsonPath(document, this.config.items_path);
+      // '$.grants' pointing at the array itself is as good as '$.grants[*]'
+      if (nodes.length === 1 && Array.isArray(nodes[0])) {
+        nodes = nodes[0];
+      }
+    } else {
+      nodes = selectXPath(parseXml(body), this.config.items_path).filter(
+        (node) => typeof node !== 'string',
+      );
+    }
+
+    return nodes.map((node, index) => ({ index, node }));
+  }
+
+  /**
+   * Evaluate a field path against an item, returning trimmed string values
+   */
+  private selectValues(item: FeedItem, path: string): string[] {
+    if (this.config.format === 'json') {
+      return selectJsonPath(item.node, path)
+        .flatMap((value) => (Array.isArray(value) ? value : [value]))
+        .filter((value) => value !== null && value !== undefined && typeof value !== 'object')
+        .map((value) => String(value).trim())
+        .filter((value) => value.length > 0);
+    }
+
+    return selectXPath(item.node as XmlElement, path)
+      .map((node) => xmlTextContent(node).trim())
+      .filter((value) => value.length > 0);
+  }
+
+  private getMapping(field: FeedMappableField): FeedFieldMapping | undefined {
+    const mapping = this.config.fields[field];
+    if (!mapping) return undefined;
+    return typeof mapping === 'string' ? { path: mapping } : mapping;
+  }
+
+  /**
+   * Map one feed item to a CatalogGrant, collecting an error per failing field
+   *
+   * Only a missing title makes the whole item unusable; other fields that fail
+   * to map are left empty.
+   */
+  private mapItem(item: FeedItem): MappedItem {
+    const errors: FeedMappingError[] = [];
+    const values: Partial<Record<FeedMappableField, string[]>> = {};
+
+    for (const field of MAPPABLE_FIELDS) {
+      const mapping = this.getMapping(field);
+      if (!mapping) continue;
+
+      try {
+        const selected = this.selectValues(item, mapping.path);
+        values[field] = selected.length > 0 ? selected : mapping.default ? [mapping.default] : [];
+      } catch (error) {
+        errors.push({
+          item_index: item.index,
+          field,
+          path: mapping.path,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const fieldError = (field: FeedMappableField, message: string) => {
+      errors.push({ item_index: item.index, field, path: this.getMapping(field)?.path, message });
+    };
+
+    const first = (field: FeedMappableField) => values[field]?.[0];
+
+    const text = (field: (typeof TEXT_FIELDS)[number]) => this.cleanText(first(field));
+
+    const number = (field: (typeof NUMBER_FIELDS)[number]) => {
+      const raw = first(field);
+      if (raw === undefined) return undefined;
+      const parsed = this.parseNumber(raw);
+      if (parsed === undefined) {
+        fieldError(field, `"${raw}" is not a number`);
+      }
+      return parsed;
+    };
+
+    const list = (field: (typeof LIST_FIELDS)[number]) => {
+      const raw = values[field];
+      if (!raw || raw.length === 0) return undefined;
+      const separator = this.getMapping(field)?.separator;
+      const items = separator ? raw.flatMap((value) => value.split(separator)) : raw;
+      return items.map((value) => value.trim()).filter((value) => value.length > 0);
+    };
+
+    const date = (field: (typeof DATE_FIELDS)[number]) => {
+      const raw = first(field);
+      if (raw === undefined) return undefined;
+      const format = this.getMapping(field)?.date_format || this.config.date_format;
+      const parsed = this.parseFeedDate(raw, format);
+      if (!parsed) {
+        fieldError(field, `"${raw}" does not match date format ${format || 'ISO 8601 / RFC 822'}`);
+      }
+      return parsed;
+    };
+
+    const title = text('title');
+    if (!title) {
+      fieldError('title', 'No value found for required field');
+    }
+
+    const closeDate = date('close_date');
+    const status = this.mapStatus(first('opportunity_status'), closeDate, (message) =>
+      fieldError('opportunity_status', message),
+    );
+
+    let costSharing: boolean | undefined;
+    const costSharingRaw = first('cost_sharing_required');
+    if (costSharingRaw !== undefined) {
+      const normalized = costSharingRaw.toLowerCase();
+      if (['true', 'yes', 'y', '1', 'required'].includes(normalized)) {
+        costSharing = true;
+      } else if (['false', 'no', 'n', '0', 'none', 'not required'].includes(normalized)) {
+        costSharing = false;
+      } else {
+        fieldError('cost_sharing_required', `"${costSharingRaw}" is not a yes/no value`);
+      }
+    }
+
+    const sourceUrl = text('source_url');
+
+    // Without a stable ID, fall back to the item link or a hash of its title
+    const externalId =
+      first('external_id') ||
+      sourceUrl ||
+      (title
+        ? crypto.createHash('sha256').update(title.toLowerCase()).digest('hex').substring(0, 32)
+        : undefined);
+
+    if (!title || !externalId) {
+      return { grant: null, errors };
+    }
+
+    const grant: CatalogGrant = {
+      id: '', // Will be set by database
+      source_id: this.source.id,
+      source_key: this.source.source_key,
+      external_id: externalId,
+
+      // Core data
+      title,
+      description: text('description'),
+      agency: text('agency') || this.source.source_name,
+      opportunity_number: text('opportunity_number'),
+
+      // Financial
+      estimated_funding: number('estimated_funding'),
+      award_floor: number('award_floor'),
+      award_ceiling: number('award_ceiling'),
+      expected_awards: number('expected_awards'),
+
+      // Categories
+      funding_category: text('funding_category'),
+      eligibility_applicants: list('eligibility_applicants'),
+      cost_sharing_required: costSharing,
+
+      // Dates
+      posted_date: date('posted_date'),
+      open_date: date('open_date'),
+      close_date: closeDate,
+
+      // Status
+      opportunity_status: status,
+
+      // Additional
+      cfda_numbers: list('cfda_numbers'),
+      aln_codes: list('aln_codes'),
+
+      // Links
+      source_url: sourceUrl,
+      application_url: text('application_url') || sourceUrl,
+
+      // Metadata
+      first_seen_at: new Date().toISOString(),
+      last_updated_at: new Date().toISOString(),
+      last_synced_at: new Date().toISOString(),
+      is_active: status === 'posted' || status === 'forecasted',
+    };
+
+    grant.content_hash = this.generateContentHash(grant);
+
+    for (const error of errors) {
+      error.external_id = externalId;
+    }
+
+    return { grant, errors };
+  }
+
+  /**
+   * Parse a feed date with an optional dayjs format string
+   */
+  private parseFeedDate(value: string, format?: string): string | undefined {
+    if (format) {
+      const parsed = dayjs(value, format, true);
+      return parsed.isValid() ? parsed.toISOString() : undefined;
+    }
+
+    // ISO 8601 and RFC 822 (RSS pubDate) both parse natively
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  }
+
+  /**
+   * Map a source status through status_map, or infer it from the close date
+   */
+  private mapStatus(
+    raw: string | undefined,
+    closeDate: string | undefined,
+    onError: (message: string) => void,
+  ): OpportunityStatus {
+    const fallback = this.config.default_status || 'posted';
+
+    if (raw !== undefined) {
+      const statusMap = Object.fromEntries(
+        Object.entries(this.config.status_map || {}).map(([key, value]) => [
+          key.toLowerCase(),
+          value,
+        ]),
+      );
+      const key = raw.toLowerCase();
+      const mapped =
+        statusMap[key] ||
+        (OPPORTUNITY_STATUSES.includes(key as OpportunityStatus)
+          ? (key as OpportunityStatus)
+          : undefined);
+
+      if (mapped) return mapped;
+
+      onError(`"${raw}" is not in status_map - using ${fallback}`);
+      return fallback;
+    }
+
+    if (closeDate && new Date(closeDate) < new Date()) {
+      return 'closed';
+    }
+
+    return fallback;
+  }
+}
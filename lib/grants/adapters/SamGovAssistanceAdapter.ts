@@ -0,0 +1,299 @@
+/**
+ * SAM.gov Assistance Listings Source Adapter
+ *
+ * Implements fetching and normalization for the SAM.gov Assistance Listings API
+ * (formerly CFDA). Listings are program-level records - objectives, eligibility
+ * and historical obligations - stored in grants_catalog alongside opportunities
+ * and linked to them through shared ALN/CFDA numbers.
+ * https://open.gsa.gov/api/assistance-listings-api/
+ */
+
+import crypto from 'crypto';
+import { BaseGrantAdapter } from './BaseGrantAdapter.js';
+import type {
+  AssistanceListingObligation,
+  CatalogGrant,
+  GrantSource,
+  OpportunityStatus,
+  RawGrantData,
+  SourceFetchResponse,
+  SourceSearchParams,
+} from '../types.js';
+
+interface SamObligation {
+  fiscalYear?: number | string;
+  actual?: number | string | null;
+  estimate?: number | string | null;
+  assistanceType?: string;
+}
+
+interface SamAssistanceListing {
+  assistanceListingId: string; // e.g. "93.243"
+  title: string;
+  popularName?: string;
+  agencyName?: string;
+  subAgencyName?: string;
+  status?: string; // 'Active' | 'Inactive' | 'Archived'
+  objective?: string;
+  publishedDate?: string;
+  lastModifiedDate?: string;
+  archivedDate?: string | null;
+  applicantEligibility?: {
+    description?: string;
+    types?: string[];
+  };
+  beneficiaryEligibility?: {
+    description?: string;
+    types?: string[];
+  };
+  assistanceTypes?: string[];
+  obligations?: SamObligation[];
+  relatedPrograms?: string[];
+  website?: string;
+}
+
+interface SamSearchResponse {
+  totalRecords: number;
+  assistanceListingsData: SamAssistanceListing[];
+}
+
+export class SamGovAssistanceAdapter extends BaseGrantAdapter {
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param fetchImpl Optional fetch implementation - pass a stub that serves
+   *                  recorded fixture responses to exercise the adapter offline
+   */
+  constructor(source: GrantSource, apiKey?: string, fetchImpl?: typeof fetch) {
+    super(source, apiKey);
+    this.fetchImpl = fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  async fetchGrants(params: SourceSearchParams): Promise<SourceFetchResponse> {
+    if (!this.validateCredentials()) {
+      throw new Error('SAM.gov API key is required');
+    }
+
+    const limit = params.limit || 100;
+    const page = params.page || 1;
+
+    const queryParams = new URLSearchParams({
+      api_key: this.apiKey || '',
+      pageNumber: String(page),
+      pageSize: String(limit),
+    });
+
+    if (params.keyword) {
+      queryParams.append('keyword', params.keyword);
+    }
+
+    if (params.agencies && params.agencies.length > 0) {
+      queryParams.append('organizationName', params.agencies.join(','));
+    }
+
+    if (params.modified_since) {
+      queryParams.append('lastModifiedDateFrom', params.modified_since.substring(0, 10));
+    }
+
+    // Active listings only unless statuses are requested explicitly
+    queryParams.append(
+      'status',
+      params.statuses && params.statuses.length > 0 ? params.statuses.join(',') : 'Active',
+    );
+
+    const response = await this.fetchImpl(`${this.getBaseUrl()}/search?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`SAM.gov API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: SamSearchResponse = await response.json();
+
+    const listings = data.assistanceListingsData || [];
+    const total = data.totalRecords || 0;
+
+    return {
+      grants: listings as RawGrantData[],
+      pagination: {
+        page,
+        limit,
+        total,
+        has_more: (page - 1) * limit + listings.length < total,
+      },
+    };
+  }
+
+  async fetchSingleGrant(externalId: string): Promise<RawGrantData | null> {
+    if (!this.validateCredentials()) {
+      throw new Error('SAM.gov API key is required');
+    }
+
+    const endpoint = `${this.getBaseUrl()}/listing/${encodeURIComponent(externalId)}?api_key=${encodeURIComponent(this.apiKey || '')}`;
+
+    try {
+      const response = await this.fetchImpl(endpoint, {
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) return null;
+        throw new Error(`SAM.gov API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return (data.assistanceListing || data) as RawGrantData;
+    } catch (error) {
+      console.error(`Error fetching assistance listing ${externalId}:`, error);
+      return null;
+    }
+  }
+
+  normalizeGrant(raw: RawGrantData): CatalogGrant {
+    const listing = raw as SamAssistanceListing;
+    const aln = this.normalizeAln(listing.assistanceListingId);
+
+    if (!aln) {
+      throw new Error('Assistance listing is missing its ALN - skipping');
+    }
+
+    // Map SAM.gov listing status to our normalized status
+    const statusMap: Record<string, OpportunityStatus> = {
+      active: 'posted',
+      inactive: 'closed',
+      archived: 'archived',
+    };
+
+    const status = statusMap[listing.status?.toLowerCase() || 'active'] || 'posted';
+    const obligations = this.normalizeObligations(listing.obligations);
+    const latestObligation = obligations.find((o) => o.amount !== undefined);
+
+    const catalogGrant: CatalogGrant = {
+      id: '', // Will be set by database
+      source_id: this.source.id,
+      source_key: this.source.source_key,
+      external_id: aln,
+
+      // Core data
+      title: (() => {
+        const cleanedTitle = this.cleanText(listing.title);
+        if (!cleanedTitle) {
+          throw new Error(`Assistance listing ${aln} is missing required title field - skipping`);
+        }
+        return cleanedTitle;
+      })(),
+      description: this.cleanText(listing.objective),
+      agency: this.cleanText(listing.agencyName),
+      opportunity_number: undefined,
+
+      // Financial - most recent fiscal year obligations stand in for program size
+      estimated_funding: latestObligation?.amount,
+      award_floor: undefined,
+      award_ceiling: undefined,
+      expected_awards: undefined,
+
+      // Categories
+      funding_category: this.cleanText(listing.assistanceTypes?.[0]),
+      eligibility_applicants: listing.applicantEligibility?.types,
+      cost_sharing_required: undefined,
+
+      // Dates - listings are standing programs without application windows
+      posted_date: this.parseDate(listing.publishedDate),
+      open_date: undefined,
+      close_date: undefined,
+
+      // Status
+      opportunity_status: status,
+
+      // Additional - the ALN is how opportunities link back to this program
+      cfda_numbers: [aln],
+      aln_codes: [aln],
+
+      // Links
+      source_url:
+        listing.website || `https://sam.gov/search/?index=cfda&keywords=${encodeURIComponent(aln)}`,
+      application_url: undefined,
+
+      // Program-level data
+      record_type: 'assistance_listing',
+      program_details: {
+        popular_name: this.cleanText(listing.popularName),
+        sub_agency: this.cleanText(listing.subAgencyName),
+        objectives: this.cleanText(listing.objective),
+        applicant_eligibility: this.cleanText(listing.applicantEligibility?.description),
+        beneficiary_eligibility: this.cleanText(listing.beneficiaryEligibility?.description),
+        assistance_types: listing.assistanceTypes,
+        obligations,
+        related_programs: listing.relatedPrograms
+          ?.map((program) => this.normalizeAln(program))
+          .filter((program): program is string => !!program),
+      },
+
+      // Metadata
+      first_seen_at: new Date().toISOString(),
+      last_updated_at: new Date().toISOString(),
+      last_synced_at: new Date().toISOString(),
+      is_active: status === 'posted',
+    };
+
+    catalogGrant.content_hash = this.generateContentHash(catalogGrant);
+
+    return catalogGrant;
+  }
+
+  /**
+   * Listings have no close date, so hash the program data as well - otherwise
+   * new fiscal year obligations or revised objectives would never be picked up
+   */
+  generateContentHash(grant: Partial<CatalogGrant>): string {
+    const hashInput = [
+      grant.title?.toLowerCase().trim() || '',
+      grant.agency?.toLowerCase().trim() || '',
+      grant.opportunity_status || '',
+      JSON.stringify(grant.program_details || {}),
+    ].join('|');
+
+    return crypto.createHash('sha256').update(hashInput).digest('hex');
+  }
+
+  private getBaseUrl(): string {
+    return this.source.api_base_url || 'https://api.sam.gov/assistance-listings/v1';
+  }
+
+  /**
+   * Normalize an ALN to the "NN.NNN" form used by Grants.gov alnist/cfdaList
+   */
+  private normalizeAln(value: string | null | undefined): string | undefined {
+    const match = value?.trim().match(/^(\d{2})\.(\w{3})$/);
+    return match ? `${match[1]}.${match[2].toUpperCase()}` : undefined;
+  }
+
+  /**
+   * Convert obligations to numbers, newest fiscal year first
+   */
+  private normalizeObligations(
+    obligations: SamObligation[] | undefined,
+  ): AssistanceListingObligation[] {
+    if (!obligations) return [];
+
+    return obligations
+      .map((obligation) => {
+        const actual = this.parseNumber(obligation.actual);
+        const estimate = this.parseNumber(obligation.estimate);
+        return {
+          fiscal_year: Number(obligation.fiscalYear),
+          amount: actual ?? estimate,
+          is_estimate: actual === undefined && estimate !== undefined,
+          assistance_type: this.cleanText(obligation.assistanceType),
+        };
+      })
+      .filter((obligation) => Number.isFinite(obligation.fiscal_year))
+      .sort((a, b) => b.fiscal_year - a.fiscal_year);
+  }
+}
@@ -0,0 +1,240 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { SamGovAssistanceAdapter } from '../SamGovAssistanceAdapter.js';
+import type { GrantSource, RawGrantData } from '../../types.js';
+
+const fixtureDir = new URL('../__fixtures__/sam-gov/', import.meta.url);
+
+function loadFixture(name: string) {
+  return JSON.parse(readFileSync(new URL(name, fixtureDir), 'utf8'));
+}
+
+const source: GrantSource = {
+  id: 'source-sam-gov',
+  source_key: 'sam_gov_assistance',
+  source_name: 'SAM.gov Assistance Listings',
+  source_type: 'federal',
+  api_enabled: true,
+  api_base_url: 'https://api.sam.gov/assistance-listings/v1',
+  api_key_required: true,
+  // No delay between pages in tests
+  rate_limit_per_minute: 600000,
+  sync_enabled: true,
+  sync_frequency: 'daily',
+  created_at: '2025-03-17T00:00:00Z',
+  updated_at: '2025-03-17T00:00:00Z',
+};
+
+/**
+ * fetch stub that serves fixtures by path and records the requested URLs
+ */
+function fixtureFetch(routes: (url: URL) => string | null) {
+  const requests: URL[] = [];
+  const fetchImpl = (async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    const fixture = routes(url);
+    if (!fixture) {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(readFileSync(new URL(fixture, fixtureDir), 'utf8'), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch;
+  return { fetchImpl, requests };
+}
+
+const searchPages = (url: URL) =>
+  url.pathname.endsWith('/search')
+    ? `search-page-${url.searchParams.get('pageNumber')}.json`
+    : null;
+
+describe('SamGovAssistanceAdapter', () => {
+  const [prns, pilot] = loadFixture('search-page-1.json').assistanceListingsData as RawGrantData[];
+  const [archived] = loadFixture('search-page-2.json').assistanceListingsData as RawGrantData[];
+
+  describe('normalizeGrant', () => {
+    const adapter = new SamGovAssistanceAdapter(source, 'test-key');
+
+    it('maps a listing to an assistance_listing catalog record keyed by its ALN', () => {
+      const grant = adapter.normalizeGrant(prns);
+
+      assert.equal(grant.external_id, '93.243');
+      assert.equal(grant.record_type, 'assistance_listing');
+      assert.equal(grant.source_id, 'source-sam-gov');
+      assert.deepEqual(grant.aln_codes, ['93.243']);
+      assert.deepEqual(grant.cfda_numbers, ['93.243']);
+      assert.equal(grant.agency, 'DEPARTMENT OF HEALTH AND HUMAN SERVICES');
+      assert.equal(grant.funding_category, 'PROJECT GRANTS');
+      assert.equal(grant.opportunity_status, 'posted');
+      assert.equal(grant.is_active, true);
+      assert.equal(grant.close_date, undefined);
+      assert.equal(grant.source_url, 'https://www.samhsa.gov/grants');
+      assert.equal(grant.posted_date, '2003-06-01T00:00:00.000Z');
+    });
+
+    it('keeps program details and drops related programs that are not ALNs', () => {
+      const details = adapter.normalizeGrant(prns).program_details;
+
+      assert.equal(details?.popular_name, 'PRNS');
+      assert.equal(
+        details?.sub_agency,
+        'SUBSTANCE ABUSE AND MENTAL HEALTH SERVICES ADMINISTRATION',
+      );
+      assert.equal(
+        details?.applicant_eligibility,
+        'States, public and private nonprofit entities.',
+      );
+      assert.deepEqual(details?.related_programs, ['93.275', '93.959']);
+    });
+
+    it('uses the newest fiscal year with an amount as the estimated funding', () => {
+      assert.equal(adapter.normalizeGrant(prns).estimated_funding, 1510000000);
+    });
+
+    it('maps inactive and archived listings to closed and archived', () => {
+      assert.equal(adapter.normalizeGrant(archived).opportunity_status, 'archived');
+      assert.equal(adapter.normalizeGrant(archived).is_active, false);
+      assert.equal(
+        adapter.normalizeGrant({ ...prns, status: 'Inactive' }).opportunity_status,
+        'closed',
+      );
+    });
+
+    it('falls back to a SAM.gov search link without a program website', () => {
+      assert.equal(
+        adapter.normalizeGrant(archived).source_url,
+        'https://sam.gov/search/?index=cfda&keywords=47.076',
+      );
+    });
+
+    it('rejects listings with a malformed ALN or no title', () => {
+      assert.throws(() => adapter.normalizeGrant(pilot), /missing its ALN/);
+      assert.throws(
+        () => adapter.normalizeGrant({ ...prns, title: '  ' }),
+        /missing required title/,
+      );
+    });
+
+    it('changes the content hash when obligations change', () => {
+      const before = adapter.normalizeGrant(prns).content_hash;
+      const after = adapter.normalizeGrant({
+        ...prns,
+        obligations: [{ fiscalYear: 2026, estimate: 1600000000 }],
+      }).content_hash;
+
+      assert.ok(before);
+      assert.notEqual(before, after);
+    });
+  });
+
+  describe('normalizeObligations', () => {
+    const adapter = new SamGovAssistanceAdapter(source, 'test-key');
+    const normalizeObligations = (obligations: unknown) =>
+      adapter['normalizeObligations'](
+        obligations as Parameters<SamGovAssistanceAdapter['normalizeObligations']>[0],
+      );
+
+    it('sorts newest fiscal year first and prefers actuals over estimates', () => {
+      assert.deepEqual(normalizeObligations((prns as { obligations: unknown }).obligations), [
+        {
+          fiscal_year: 2025,
+          amount: 1510000000,
+          is_estimate: true,
+          assistance_type: 'Project Grants',
+        },
+        {
+          fiscal_year: 2024,
+          amount: 1498000000,
+          is_estimate: false,
+          assistance_type: 'Project Grants',
+        },
+        {
+          fiscal_year: 2023,
+          amount: 1452000000,
+          is_estimate: false,
+          assistance_type: 'Project Grants',
+        },
+      ]);
+    });
+
+    it('drops years that are not numbers and keeps years without an amount', () => {
+      assert.deepEqual(normalizeObligations((archived as { obligations: unknown }).obligations), [
+        { fiscal_year: 2022, amount: undefined, is_estimate: false, assistance_type: undefined },
+      ]);
+    });
+
+    it('returns nothing for a listing without obligations', () => {
+      assert.deepEqual(normalizeObligations(undefined), []);
+    });
+  });
+
+  describe('pagination', () => {
+    it('passes the page and page size to the search endpoint and reports has_more', async () => {
+      const { fetchImpl, requests } = fixtureFetch(searchPages);
+      const adapter = new SamGovAssistanceAdapter(source, 'test-key', fetchImpl);
+
+      const first = await adapter.fetchGrants({ page: 1, limit: 2 });
+      const second = await adapter.fetchGrants({ page: 2, limit: 2 });
+
+      assert.equal(requests[0].searchParams.get('pageNumber'), '1');
+      assert.equal(requests[0].searchParams.get('pageSize'), '2');
+      assert.equal(requests[0].searchParams.get('status'), 'Active');
+      assert.equal(requests[0].searchParams.get('api_key'), 'test-key');
+      assert.deepEqual(first.pagination, { page: 1, limit: 2, total: 3, has_more: true });
+      assert.deepEqual(second.pagination, { page: 2, limit: 2, total: 3, has_more: false });
+    });
+
+    it('walks every page in a full sync and collects normalization errors', async () => {
+      const { fetchImpl, requests } = fixtureFetch(searchPages);
+      const adapter = new SamGovAssistanceAdapter(source, 'test-key', fetchImpl);
+      // The fixtures are pages of 2; the sync asks for pages of 100
+      const fetchGrants = adapter.fetchGrants.bind(adapter);
+      adapter.fetchGrants = (params) => fetchGrants({ ...params, limit: 2 });
+
+      const result = await adapter.performFullSync(false);
+
+      assert.deepEqual(
+        requests.map((url) => url.searchParams.get('pageNumber')),
+        ['1', '2'],
+      );
+      assert.equal(result.grants_fetched, 3);
+      assert.deepEqual(
+        result.grants?.map((grant) => grant.external_id),
+        ['93.243', '47.076'],
+      );
+      assert.equal(result.errors.length, 1);
+      assert.equal(result.errors[0].error_code, 'NORMALIZATION_ERROR');
+    });
+
+    it('throws on API errors so a checkpointed sync can retry the page', async () => {
+      const { fetchImpl } = fixtureFetch(() => null);
+      const adapter = new SamGovAssistanceAdapter(source, 'test-key', fetchImpl);
+
+      await assert.rejects(adapter.fetchSyncPage(1, false), /SAM.gov API error: 404/);
+    });
+
+    it('requires an API key', async () => {
+      const adapter = new SamGovAssistanceAdapter(source);
+
+      await assert.rejects(adapter.fetchGrants({ page: 1 }), /API key is required/);
+    });
+  });
+
+  describe('fetchSingleGrant', () => {
+    it('unwraps the listing response and returns null for unknown listings', async () => {
+      const { fetchImpl, requests } = fixtureFetch((url) =>
+        url.pathname.endsWith('/listing/93.243') ? 'listing-93.243.json' : null,
+      );
+      const adapter = new SamGovAssistanceAdapter(source, 'test-key', fetchImpl);
+
+      const listing = await adapter.fetchSingleGrant('93.243');
+      assert.equal((listing as { assistanceListingId?: string })?.assistanceListingId, '93.243');
+      assert.equal(requests[0].searchParams.get('api_key'), 'test-key');
+
+      assert.equal(await adapter.fetchSingleGrant('99.999'), null);
+    });
+  });
+});
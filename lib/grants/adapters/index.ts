@@ -8,17 +8,26 @@ import { BaseGrantAdapter } from './BaseGrantAdapter.js';
 import { GrantsGovAdapter } from './GrantsGovAdapter.js';
 import { OpenGrantsAdapter } from './OpenGrantsAdapter.js';
 import { CustomGrantAdapter } from './CustomGrantAdapter.js';
+import { SamGovAssistanceAdapter } from './SamGovAssistanceAdapter.js';
+import { FeedGrantAdapter } from './FeedGrantAdapter.js';
 import type { GrantSource } from '../types.js';
 
 export * from './BaseGrantAdapter.js';
 export * from './GrantsGovAdapter.js';
 export * from './OpenGrantsAdapter.js';
 export * from './CustomGrantAdapter.js';
+export * from './SamGovAssistanceAdapter.js';
+export * from './FeedGrantAdapter.js';
 
 /**
  * Create an adapter for the given source
  */
 export function createAdapter(source: GrantSource, apiKey?: string): BaseGrantAdapter {
+  // Any source with a field mapping (state portals, foundation feeds) uses the generic feed adapter
+  if (source.feed_config) {
+    return new FeedGrantAdapter(source, apiKey);
+  }
+
   switch (source.source_key) {
     case 'grants_gov':
       return new GrantsGovAdapter(source, apiKey);
@@ -26,8 +35,11 @@ export function createAdapter(source: GrantSource, apiKey?: string): BaseGrantAd
     case 'opengrants':
       return new OpenGrantsAdapter(source, apiKey);
 
+    case 'sam_gov_assistance':
+      return new SamGovAssistanceAdapter(source, apiKey);
+
     case 'custom':
-    case 'ca_state_portal': // State portals treated like custom for now
+    case 'ca_state_portal': // Manual curation until a feed_config is set
       return new CustomGrantAdapter(source, apiKey);
 
     default:
@@ -42,6 +54,8 @@ export function getAvailableAdapters(): Array<{ key: string; name: string; type:
   return [
     { key: 'grants_gov', name: 'Grants.gov', type: 'federal' },
     { key: 'opengrants', name: 'OpenGrants', type: 'federal' },
+    { key: 'sam_gov_assistance', name: 'SAM.gov Assistance Listings', type: 'federal' },
+    { key: 'feed', name: 'RSS/Atom/JSON Feed', type: 'state' },
     { key: 'custom', name: 'Custom/Manual Entry', type: 'custom' },
   ];
 }
@@ -0,0 +1,148 @@
+/**
+ * Catalog Change History
+ *
+ * Field-level diffs between a stored catalog record and a freshly synced copy.
+ * SyncService records one grants_catalog_changes row per version; the diff is
+ * also what saved-grant owners see in grant.catalog_changed notifications.
+ */
+
+import type { CatalogFieldChange, CatalogGrant } from './types.js';
+
+export const TRACKED_CATALOG_FIELDS = [
+  'title',
+  'description',
+  'agency',
+  'opportunity_number',
+  'estimated_funding',
+  'award_floor',
+  'award_ceiling',
+  'expected_awards',
+  'funding_category',
+  'eligibility_applicants',
+  'cost_sharing_required',
+  'posted_date',
+  'open_date',
+  'close_date',
+  'opportunity_status',
+  'cfda_numbers',
+  'aln_codes',
+  'source_url',
+  'application_url',
+] as const;
+
+export type TrackedCatalogField = (typeof TRACKED_CATALOG_FIELDS)[number];
+
+export const CATALOG_FIELD_LABELS: Record<TrackedCatalogField, string> = {
+  title: 'Title',
+  description: 'Description',
+  agency: 'Agency',
+  opportunity_number: 'Opportunity number',
+  estimated_funding: 'Estimated total funding',
+  award_floor: 'Award floor',
+  award_ceiling: 'Award ceiling',
+  expected_awards: 'Expected awards',
+  funding_category: 'Funding category',
+  eligibility_applicants: 'Eligible applicants',
+  cost_sharing_required: 'Cost sharing required',
+  posted_date: 'Posted date',
+  open_date: 'Open date',
+  close_date: 'Close date',
+  opportunity_status: 'Status',
+  cfda_numbers: 'CFDA numbers',
+  aln_codes: 'Assistance listing numbers',
+  source_url: 'Source URL',
+  application_url: 'Application URL',
+};
+
+const DATE_FIELDS = new Set<string>(['posted_date', 'open_date', 'close_date']);
+const CURRENCY_FIELDS = new Set<string>(['estimated_funding', 'award_floor', 'award_ceiling']);
+const NUMBER_FIELDS = new Set<string>([...CURRENCY_FIELDS, 'expected_awards']);
+
+type CatalogValue = string | number | boolean | string[] | null;
+
+/**
+ * Normalize a value so database and adapter representations compare equal
+ * (timestamptz vs ISO strings, NUMERIC strings vs numbers, unordered arrays)
+ */
+function normalizeValue(field: string, value: unknown): CatalogValue {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => String(item).trim()).filter(Boolean);
+    return items.length > 0 ? [...items].sort() : null;
+  }
+
+  if (DATE_FIELDS.has(field)) {
+    const time = new Date(String(value)).getTime();
+    return Number.isNaN(time) ? String(value) : new Date(time).toISOString();
+  }
+
+  if (NUMBER_FIELDS.has(field)) {
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+
+  if (typeof value === 'string') return value.trim();
+
+  return value as CatalogValue;
+}
+
+/**
+ * Compare a stored catalog record with a newly normalized one
+ *
+ * @returns One entry per tracked field whose value changed (empty when unchanged)
+ */
+export function diffCatalogGrant(
+  existing: Partial<CatalogGrant>,
+  next: Partial<CatalogGrant>,
+): CatalogFieldChange[] {
+  const changes: CatalogFieldChange[] = [];
+
+  for (const field of TRACKED_CATALOG_FIELDS) {
+    const oldValue = normalizeValue(field, existing[field]);
+    const newValue = normalizeValue(field, next[field]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, old_value: oldValue, new_value: newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Human-readable value for notifications and the grant detail diff
+ */
+export function formatCatalogValue(field: string, value: CatalogValue): string {
+  if (value === null) return '—';
+
+  if (Array.isArray(value)) return value.join(', ');
+
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+  if (DATE_FIELDS.has(field)) {
+    return new Date(String(value)).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    });
+  }
+
+  if (CURRENCY_FIELDS.has(field) && typeof value === 'number') {
+    return value.toLocaleString('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 0,
+    });
+  }
+
+  return String(value);
+}
+
+/**
+ * Label for a changed field, falling back to the column name
+ */
+export function getCatalogFieldLabel(field: string): string {
+  return CATALOG_FIELD_LABELS[field as TrackedCatalogField] || field;
+}
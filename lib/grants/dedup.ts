@@ -0,0 +1,208 @@
+/**
+ * Cross-Source Grant De-duplication
+ *
+ * Scores how likely two catalog records describe the same opportunity, using
+ * opportunity number, ALN/CFDA overlap, normalized title similarity and close
+ * date proximity. Used by SyncService to populate grant_duplicates.
+ */
+
+import type { CatalogGrant, DuplicateMatch } from './types.js';
+
+// Minimum score for a pair to be recorded in grant_duplicates
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Pairs at or above this score with matching opportunity numbers are confirmed automatically
+export const AUTO_CONFIRM_THRESHOLD = 0.95;
+
+// Close dates further apart than this contribute nothing to the score
+const DATE_WINDOW_DAYS = 14;
+
+// Titles less similar than this cap the score below DUPLICATE_THRESHOLD -
+// one agency often posts several NOFOs under the same ALN and deadline
+const MIN_TITLE_SIMILARITY = 0.5;
+
+const SIGNAL_WEIGHTS = {
+  opportunity_number: 0.4,
+  title: 0.3,
+  aln: 0.15,
+  close_date: 0.15,
+} as const;
+
+// Lower rank wins when choosing which record stays canonical
+const SOURCE_PRIORITY: Record<string, number> = {
+  grants_gov: 0,
+  opengrants: 1,
+  custom: 9,
+};
+const DEFAULT_SOURCE_PRIORITY = 5;
+
+const TITLE_STOPWORDS = new Set(['a', 'an', 'and', 'for', 'of', 'the', 'to', 'in', 'on', 'fy']);
+
+export type DedupCandidate = Pick<
+  CatalogGrant,
+  | 'id'
+  | 'source_key'
+  | 'title'
+  | 'agency'
+  | 'opportunity_number'
+  | 'close_date'
+  | 'cfda_numbers'
+  | 'aln_codes'
+  | 'content_hash'
+  | 'first_seen_at'
+>;
+
+export interface DuplicateSignals {
+  opportunity_number?: number;
+  title: number;
+  aln?: number;
+  close_date?: number;
+}
+
+export interface DuplicateScore {
+  score: number;
+  method: DuplicateMatch['match_method'];
+  signals: DuplicateSignals;
+  auto_confirm: boolean;
+}
+
+/**
+ * Normalize an opportunity number for comparison ("HHS-2025-ACF-OCS-EE-0012" === "hhs2025acfocsee0012")
+ */
+export function normalizeOpportunityNumber(value: string | null | undefined): string | undefined {
+  const normalized = value?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized || undefined;
+}
+
+/**
+ * Normalize a title: lowercase, strip punctuation, fiscal years and filler words
+ */
+export function normalizeTitle(title: string | null | undefined): string {
+  return (title || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b(fy|fiscal year)\s*\d{2,4}\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0 && !TITLE_STOPWORDS.has(word))
+    .join(' ');
+}
+
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.substring(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * Trigram similarity of two normalized titles (0..1), comparable to pg_trgm similarity()
+ */
+export function titleSimilarity(
+  a: string | null | undefined,
+  b: string | null | undefined,
+): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = trigrams(left);
+  const rightGrams = trigrams(right);
+  let shared = 0;
+  for (const gram of leftGrams) {
+    if (rightGrams.has(gram)) shared++;
+  }
+
+  return shared / (leftGrams.size + rightGrams.size - shared);
+}
+
+function assistanceNumbers(grant: DedupCandidate): Set<string> {
+  return new Set(
+    [...(grant.aln_codes || []), ...(grant.cfda_numbers || [])].map((code) => code.trim()),
+  );
+}
+
+/**
+ * Score a candidate pair
+ *
+ * Signals missing on either side are left out of the weighted average rather
+ * than counted as mismatches.
+ */
+export function scoreDuplicate(a: DedupCandidate, b: DedupCandidate): DuplicateScore {
+  if (a.content_hash && a.content_hash === b.content_hash) {
+    return {
+      score: 1,
+      method: 'title_hash',
+      signals: { title: 1 },
+      auto_confirm: false,
+    };
+  }
+
+  const signals: DuplicateSignals = { title: titleSimilarity(a.title, b.title) };
+
+  const numberA = normalizeOpportunityNumber(a.opportunity_number);
+  const numberB = normalizeOpportunityNumber(b.opportunity_number);
+  if (numberA && numberB) {
+    signals.opportunity_number = numberA === numberB ? 1 : 0;
+  }
+
+  const alnA = assistanceNumbers(a);
+  const alnB = assistanceNumbers(b);
+  if (alnA.size > 0 && alnB.size > 0) {
+    signals.aln = [...alnA].some((code) => alnB.has(code)) ? 1 : 0;
+  }
+
+  if (a.close_date && b.close_date) {
+    const days =
+      Math.abs(new Date(a.close_date).getTime() - new Date(b.close_date).getTime()) / 86400000;
+    signals.close_date = Number.isNaN(days) ? undefined : Math.max(0, 1 - days / DATE_WINDOW_DAYS);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [signal, weight] of Object.entries(SIGNAL_WEIGHTS)) {
+    const value = signals[signal as keyof DuplicateSignals];
+    if (value !== undefined) {
+      weighted += value * weight;
+      totalWeight += weight;
+    }
+  }
+
+  let score = totalWeight > 0 ? weighted / totalWeight : 0;
+  if (signals.title < MIN_TITLE_SIMILARITY) {
+    score = Math.min(score, DUPLICATE_THRESHOLD - 0.01);
+  }
+  score = Math.round(score * 1000) / 1000;
+
+  return {
+    score,
+    method: 'fuzzy_match',
+    signals,
+    auto_confirm: score >= AUTO_CONFIRM_THRESHOLD && signals.opportunity_number === 1,
+  };
+}
+
+/**
+ * Order a pair so the record that should stay visible comes first
+ *
+ * Preference: source priority (Grants.gov first), then the record seen earliest.
+ */
+export function orderCanonical<T extends DedupCandidate>(a: T, b: T): [T, T] {
+  const rank = (grant: T) => SOURCE_PRIORITY[grant.source_key] ?? DEFAULT_SOURCE_PRIORITY;
+
+  if (rank(a) !== rank(b)) {
+    return rank(a) < rank(b) ? [a, b] : [b, a];
+  }
+
+  const seenA = new Date(a.first_seen_at).getTime();
+  const seenB = new Date(b.first_seen_at).getTime();
+  if (seenA !== seenB) {
+    return seenA < seenB ? [a, b] : [b, a];
+  }
+
+  return a.id < b.id ? [a, b] : [b, a];
+}
@@ -0,0 +1,428 @@
+/**
+ * Feed Path Evaluation
+ *
+ * Minimal XML parser with an XPath subset (for RSS/Atom) and a JSONPath subset
+ * (for JSON feeds), used by the generic feed adapter to pull CatalogGrant fields
+ * out of admin-configured field mappings.
+ *
+ * Supported XPath: child steps (`channel/item`), descendants (`//entry`), `*`, `.`,
+ * attributes (`@href`), `text()`, and predicates `[1]`, `[@rel]`, `[@rel='alternate']`,
+ * `[category='Education']`. Element names match on the qualified name (`dc:date`)
+ * or, for unprefixed steps, on the local name.
+ *
+ * Supported JSONPath: `$`, `.key`, `..key`, `['key']`, `[0]`, `[*]`, `.*`.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode XML character and named entity references
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Find the closing '>' of a tag, skipping over quoted attribute values
+ */
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse an XML document into a lightweight element tree
+ *
+ * The returned element is a synthetic `#document` node whose children are the
+ * top-level nodes. Whitespace-only text nodes are dropped.
+ *
+ * @throws Error when the document is malformed (unclosed or mismatched tags)
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  const appendText = (text: string, decode: boolean) => {
+    if (text.trim().length === 0) return;
+    stack[stack.length - 1].children.push(decode ? decodeEntities(text) : text);
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(xml.substring(pos), true);
+      break;
+    }
+    if (lt > pos) {
+      appendText(xml.substring(pos, lt), true);
+    }
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      pos = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      if (end === -1) {
+        throw new Error('Malformed XML: unterminated CDATA section');
+      }
+      appendText(xml.substring(lt + 9, end), false);
+      pos = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt + 2);
+      pos = end === -1 ? xml.length : end + 2;
+      continue;
+    }
+
+    if (xml.startsWith('<!', lt)) {
+      // DOCTYPE - skip, including any internal subset in [...]
+      const subsetStart = xml.indexOf('[', lt);
+      const tagEnd = xml.indexOf('>', lt);
+      if (subsetStart !== -1 && subsetStart < tagEnd) {
+        const subsetEnd = xml.indexOf(']', subsetStart);
+        pos = xml.indexOf('>', subsetEnd) + 1;
+      } else {
+        pos = tagEnd + 1;
+      }
+      if (pos <= 0) pos = xml.length;
+      continue;
+    }
+
+    const end = findTagEnd(xml, lt + 1);
+    if (end === -1) {
+      throw new Error('Malformed XML: unterminated tag');
+    }
+
+    if (xml[lt + 1] === '/') {
+      const name = xml.substring(lt + 2, end).trim();
+      const current = stack[stack.length - 1];
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Malformed XML: unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      pos = end + 1;
+      continue;
+    }
+
+    let tagContent = xml.substring(lt + 1, end);
+    const selfClosing = tagContent.endsWith('/');
+    if (selfClosing) {
+      tagContent = tagContent.slice(0, -1);
+    }
+
+    const nameMatch = tagContent.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) {
+      throw new Error('Malformed XML: tag without a name');
+    }
+
+    const element: XmlElement = { name: nameMatch[1], attributes: {}, children: [] };
+    const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attrMatch: RegExpExecArray | null;
+    while ((attrMatch = attrPattern.exec(tagContent.substring(nameMatch[0].length))) !== null) {
+      element.attributes[attrMatch[1]] = decodeEntities(attrMatch[3] ?? attrMatch[4] ?? '');
+    }
+
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+    pos = end + 1;
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+
+  return root;
+}
+
+/**
+ * Concatenated text content of a node and its descendants
+ */
+export function xmlTextContent(node: XmlNode): string {
+  if (typeof node === 'string') return node;
+  return node.children.map(xmlTextContent).join('');
+}
+
+/**
+ * Split a path on a separator, ignoring separators inside brackets or quotes
+ */
+function splitPath(path: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of path) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function matchesName(element: XmlElement, step: string): boolean {
+  if (step === '*') return true;
+  if (element.name === step) return true;
+  if (step.includes(':')) return false;
+  const colon = element.name.indexOf(':');
+  return colon !== -1 && element.name.substring(colon + 1) === step;
+}
+
+function childElements(element: XmlElement): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => typeof child !== 'string');
+}
+
+function descendantsOrSelf(element: XmlElement): XmlElement[] {
+  const result: XmlElement[] = [element];
+  for (const child of childElements(element)) {
+    result.push(...descendantsOrSelf(child));
+  }
+  return result;
+}
+
+function applyPredicate(nodes: XmlElement[], predicate: string): XmlElement[] {
+  const trimmed = predicate.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    const node = nodes[parseInt(trimmed, 10) - 1];
+    return node ? [node] : [];
+  }
+
+  const comparison = trimmed.match(/^(@?[^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')$/);
+  if (comparison) {
+    const [, operand, doubleQuoted, singleQuoted] = comparison;
+    const expected = doubleQuoted ?? singleQuoted ?? '';
+    return nodes.filter((node) =>
+      operand.startsWith('@')
+        ? node.attributes[operand.substring(1)] === expected
+        : childElements(node).some(
+            (child) => matchesName(child, operand) && xmlTextContent(child).trim() === expected,
+          ),
+    );
+  }
+
+  if (trimmed.startsWith('@')) {
+    return nodes.filter((node) => node.attributes[trimmed.substring(1)] !== undefined);
+  }
+
+  throw new Error(`Unsupported XPath predicate: [${predicate}]`);
+}
+
+/**
+ * Evaluate an XPath (subset) expression against an element
+ *
+ * @returns Matching elements, or strings for `@attr` and `text()` steps
+ * @throws Error on unsupported syntax
+ */
+export function selectXPath(context: XmlElement, path: string): XmlNode[] {
+  const expression = path.trim();
+  if (!expression) {
+    throw new Error('XPath expression is empty');
+  }
+
+  // A leading '//' searches from the context; a leading '/' is relative to it
+  let descendant = expression.startsWith('//');
+  const steps = splitPath(expression.replace(/^\/+/, ''), '/');
+
+  let current: XmlNode[] = [context];
+
+  for (const rawStep of steps) {
+    if (rawStep === '') {
+      // Empty segment from '//' inside the path
+      descendant = true;
+      continue;
+    }
+
+    const elements = current.filter((node): node is XmlElement => typeof node !== 'string');
+    const scope = descendant ? elements.flatMap(descendantsOrSelf) : elements;
+    descendant = false;
+
+    const predicateStart = rawStep.indexOf('[');
+    const step = predicateStart === -1 ? rawStep : rawStep.substring(0, predicateStart);
+    const predicates =
+      predicateStart === -1
+        ? []
+        : (
+            rawStep.substring(predicateStart).match(/\[((?:[^\]'"]|'[^']*'|"[^"]*")*)\]/g) || []
+          ).map((p) => p.slice(1, -1));
+
+    if (step === '.') {
+      current = scope;
+    } else if (step === 'text()') {
+      current = scope.flatMap((el) =>
+        el.children.filter((child): child is string => typeof child === 'string'),
+      );
+      continue;
+    } else if (step.startsWith('@')) {
+      const attribute = step.substring(1);
+      current = scope
+        .map((el) => el.attributes[attribute])
+        .filter((value): value is string => value !== undefined);
+      continue;
+    } else {
+      // Predicates apply per parent, so evaluate them before merging results
+      current = scope.flatMap((el) => {
+        let matches = childElements(el).filter((child) => matchesName(child, step));
+        for (const predicate of predicates) {
+          matches = applyPredicate(matches, predicate);
+        }
+        return matches;
+      });
+      continue;
+    }
+
+    for (const predicate of predicates) {
+      current = applyPredicate(current as XmlElement[], predicate);
+    }
+  }
+
+  return current;
+}
+
+type JsonPathToken =
+  | { type: 'key'; key: string; recursive: boolean }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard'; recursive: boolean };
+
+function tokenizeJsonPath(path: string): JsonPathToken[] {
+  let expression = path.trim();
+  if (!expression) {
+    throw new Error('JSONPath expression is empty');
+  }
+
+  // Paths without the root marker are relative to the current item
+  if (expression.startsWith('$')) {
+    expression = expression.substring(1);
+  } else if (!expression.startsWith('.') && !expression.startsWith('[')) {
+    expression = `.${expression}`;
+  }
+
+  const tokens: JsonPathToken[] = [];
+  const pattern = /^(?:(\.\.?)(\*|[^.[\]]+)|\[\s*(\*|-?\d+|'[^']*'|"[^"]*")\s*\])/;
+
+  while (expression.length > 0) {
+    const match = expression.match(pattern);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath syntax near "${expression}"`);
+    }
+
+    if (match[1]) {
+      const recursive = match[1] === '..';
+      tokens.push(
+        match[2] === '*'
+          ? { type: 'wildcard', recursive }
+          : { type: 'key', key: match[2], recursive },
+      );
+    } else {
+      const selector = match[3];
+      if (selector === '*') {
+        tokens.push({ type: 'wildcard', recursive: false });
+      } else if (/^-?\d+$/.test(selector)) {
+        tokens.push({ type: 'index', index: parseInt(selector, 10) });
+      } else {
+        tokens.push({ type: 'key', key: selector.slice(1, -1), recursive: false });
+      }
+    }
+
+    expression = expression.substring(match[0].length);
+  }
+
+  return tokens;
+}
+
+function jsonChildren(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+function jsonDescendantsOrSelf(value: unknown): unknown[] {
+  return [value, ...jsonChildren(value).flatMap(jsonDescendantsOrSelf)];
+}
+
+/**
+ * Evaluate a JSONPath (subset) expression against a JSON value
+ *
+ * @returns Matching values (missing keys are skipped, never undefined)
+ * @throws Error on unsupported syntax
+ */
+export function selectJsonPath(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+
+  for (const token of tokenizeJsonPath(path)) {
+    const scope =
+      token.type !== 'index' && token.recursive ? current.flatMap(jsonDescendantsOrSelf) : current;
+
+    if (token.type === 'wildcard') {
+      current = scope.flatMap(jsonChildren);
+    } else if (token.type === 'index') {
+      current = scope.flatMap((item) => {
+        if (!Array.isArray(item)) return [];
+        const element = item[token.index < 0 ? item.length + token.index : token.index];
+        return element === undefined ? [] : [element];
+      });
+    } else {
+      current = scope.flatMap((item) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+        const child = (item as Record<string, unknown>)[token.key];
+        return child === undefined ? [] : [child];
+      });
+    }
+  }
+
+  return current;
+}
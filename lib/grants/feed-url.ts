@@ -0,0 +1,138 @@
+/**
+ * Feed URL Checks
+ *
+ * Feed URLs come from admin-entered feed configs and are fetched server-side,
+ * so they are limited to http(s) URLs on public hosts; webhook URLs are checked
+ * the same way before the server posts to them. Loopback, private,
+ * link-local (including cloud metadata at 169.254.169.254) and other reserved
+ * addresses are refused, both as literal IPs and after DNS resolution.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Separate lists: a BlockList holding ::ffff:0:0/96 matches every IPv4 address
+const NON_PUBLIC_IPV4 = new BlockList();
+const NON_PUBLIC_IPV6 = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // Multicast, reserved and broadcast
+] as const) {
+  NON_PUBLIC_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped - would bypass the IPv4 ranges above
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  NON_PUBLIC_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+const LOCAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return family === 4
+    ? NON_PUBLIC_IPV4.check(address, 'ipv4')
+    : NON_PUBLIC_IPV6.check(address, 'ipv6');
+}
+
+/**
+ * Check a URL without resolving its host
+ *
+ * @param field Name used in the messages, e.g. 'feed_url'
+ * @returns Problem with the URL, or null when it may be fetched
+ */
+export function getPublicUrlError(value: string, field: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `${field} must be a valid URL`;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `${field} must use http or https`;
+  }
+
+  if (url.username || url.password) {
+    return `${field} must not contain credentials`;
+  }
+
+  // IPv6 hosts keep their brackets in URL.hostname
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(hostname)) {
+    return isNonPublicAddress(hostname) ? `${field} must point to a public host` : null;
+  }
+
+  // Single-label names resolve through internal search domains
+  if (
+    !hostname.includes('.') ||
+    LOCAL_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    return `${field} must point to a public host`;
+  }
+
+  return null;
+}
+
+/**
+ * Check a URL and every address its host resolves to, right before fetching
+ *
+ * Callers must not follow redirects automatically; each hop needs this check.
+ *
+ * @throws Error when the URL may not be fetched
+ */
+export async function assertPublicUrl(value: string, field: string): Promise<void> {
+  const urlError = getPublicUrlError(value, field);
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) return;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve host ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+    throw new Error(`${field} must point to a public host`);
+  }
+}
+
+/**
+ * Check a feed URL without resolving its host
+ */
+export function getFeedUrlError(value: string): string | null {
+  return getPublicUrlError(value, 'feed_url');
+}
+
+/**
+ * Check a feed URL and the addresses its host resolves to
+ */
+export function assertPublicFeedUrl(value: string): Promise<void> {
+  return assertPublicUrl(value, 'feed_url');
+}
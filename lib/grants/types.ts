@@ -10,6 +10,7 @@ export type SyncFrequency = 'hourly' | 'daily' | 'weekly' | 'manual';
 export type JobType = 'full' | 'incremental' | 'single';
 export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 export type OpportunityStatus = 'forecasted' | 'posted' | 'closed' | 'archived';
+export type CatalogRecordType = 'opportunity' | 'assistance_listing';
 
 // Grant Source Configuration
 export interface GrantSource {
@@ -25,10 +26,68 @@ export interface GrantSource {
   sync_frequency: SyncFrequency;
   last_sync_at?: string;
   next_sync_at?: string;
+  feed_config?: FeedConfig | null;
   created_at: string;
   updated_at: string;
 }
 
+// Generic feed adapter configuration (stored on grant_sources.feed_config)
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export type FeedMappableField =
+  | 'external_id'
+  | 'title'
+  | 'description'
+  | 'agency'
+  | 'opportunity_number'
+  | 'estimated_funding'
+  | 'award_floor'
+  | 'award_ceiling'
+  | 'expected_awards'
+  | 'funding_category'
+  | 'eligibility_applicants'
+  | 'cost_sharing_required'
+  | 'posted_date'
+  | 'open_date'
+  | 'close_date'
+  | 'opportunity_status'
+  | 'cfda_numbers'
+  | 'aln_codes'
+  | 'source_url'
+  | 'application_url';
+
+export interface FeedFieldMapping {
+  path: string; // XPath (rss/atom) or JSONPath (json), relative to the item
+  date_format?: string; // Overrides FeedConfig.date_format for this field
+  separator?: string; // Split a single value into a list (array fields)
+  default?: string; // Used when the path matches nothing
+}
+
+export interface FeedConfig {
+  format: FeedFormat;
+  feed_url?: string; // Falls back to grant_sources.api_base_url
+  items_path: string; // e.g. 'rss/channel/item', '//entry', '$.data.grants[*]'
+  fields: Partial<Record<FeedMappableField, string | FeedFieldMapping>>;
+  date_format?: string; // dayjs format (e.g. 'MM/DD/YYYY'); ISO 8601 / RFC 822 when omitted
+  status_map?: Record<string, OpportunityStatus>; // Source status value -> normalized status
+  default_status?: OpportunityStatus;
+  headers?: Record<string, string>; // Extra request headers (api key placeholders: {{api_key}})
+}
+
+export interface FeedMappingError {
+  item_index: number;
+  external_id?: string;
+  field: FeedMappableField | 'item';
+  path?: string;
+  message: string;
+}
+
+export interface FeedDryRunResult {
+  items_found: number;
+  grants: CatalogGrant[];
+  errors: FeedMappingError[];
+}
+
 // Normalized grant from catalog
 export interface CatalogGrant {
   id: string;
@@ -41,6 +100,7 @@ export interface CatalogGrant {
   description?: string;
   agency?: string;
   opportunity_number?: string;
+  opportunity_number_normalized?: string | null; // Generated column, see normalizeOpportunityNumber
 
   // Financial
   estimated_funding?: number;
@@ -71,14 +131,39 @@ export interface CatalogGrant {
 
   // Deduplication
   content_hash?: string;
+  canonical_grant_id?: string | null; // Set when confirmed as a duplicate of another record
+
+  // Record kind - opportunities (NOFOs) vs program-level Assistance Listings
+  record_type?: CatalogRecordType;
+  program_details?: AssistanceListingDetails;
 
   // Metadata
+  version?: number; // Bumped whenever a tracked field changes on re-sync
   first_seen_at: string;
   last_updated_at: string;
   last_synced_at: string;
   is_active: boolean;
 }
 
+// Program-level data for Assistance Listings (SAM.gov)
+export interface AssistanceListingDetails {
+  popular_name?: string;
+  sub_agency?: string;
+  objectives?: string;
+  applicant_eligibility?: string;
+  beneficiary_eligibility?: string;
+  assistance_types?: string[];
+  obligations?: AssistanceListingObligation[];
+  related_programs?: string[];
+}
+
+export interface AssistanceListingObligation {
+  fiscal_year: number;
+  amount?: number;
+  is_estimate: boolean;
+  assistance_type?: string;
+}
+
 // Raw grant data from external source (before normalization)
 export interface RawGrantData {
   [key: string]: any; // Flexible to accommodate different source formats
@@ -93,6 +178,7 @@ export interface SyncResult {
   duplicates_found: number;
   errors: SyncError[];
   grants?: CatalogGrant[]; // Optional: normalized grants ready for insertion
+  changed_grant_ids?: string[]; // Catalog IDs created or updated (for de-duplication)
 }
 
 export interface SyncError {
@@ -115,11 +201,28 @@ export interface SyncJob {
   duplicates_found: number;
   error_message?: string;
   retry_count: number;
+  checkpoint_page?: number | null; // Next page to fetch when resumed
+  pages_completed?: number;
+  total_pages?: number | null;
+  total_items?: number | null;
+  next_retry_at?: string | null;
+  last_heartbeat_at?: string | null;
   started_at?: string;
   completed_at?: string;
   created_at: string;
 }
 
+// Options for a time-boxed sync run
+export interface SyncRunOptions {
+  deadline?: number; // Epoch ms; the job checkpoints and stops once passed
+}
+
+// One page of a paginated full sync
+export interface SyncPage {
+  result: SyncResult;
+  pagination: PaginationInfo;
+}
+
 // Search/filter parameters for fetching grants
 export interface SourceSearchParams {
   keyword?: string;
@@ -148,13 +251,32 @@ export interface SourceFetchResponse {
   };
 }
 
+// One field that changed between catalog versions
+export interface CatalogFieldChange {
+  field: string;
+  old_value: string | number | boolean | string[] | null;
+  new_value: string | number | boolean | string[] | null;
+}
+
+// Versioned change record (grants_catalog_changes)
+export interface CatalogChange {
+  id: string;
+  catalog_grant_id: string;
+  version: number;
+  changes: CatalogFieldChange[];
+  changed_at: string;
+  notified_at?: string | null;
+}
+
 // De-duplication match
 export interface DuplicateMatch {
   primary_grant_id: string;
   duplicate_grant_id: string;
   match_score: number;
   match_method: 'title_hash' | 'fuzzy_match' | 'manual';
+  match_details?: Record<string, number>; // Per-signal scores for fuzzy matches
   is_confirmed: boolean;
+  is_rejected?: boolean;
 }
 
 // Saved search (alert) configuration
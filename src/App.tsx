@@ -34,6 +34,7 @@ import { EligibilityWizardPage } from "./pages/EligibilityWizardPage";
 import { ApprovalWorkflowsPage } from "./pages/ApprovalWorkflowsPage";
 import { ApprovalsPage } from "./pages/ApprovalsPage";
 import { FundersPage } from "./pages/FundersPage";
+import { ReconciliationPage } from "./pages/ReconciliationPage";
 import {
   ProfilePage,
   OrganizationPage,
@@ -42,6 +43,11 @@ import {
   NotificationsPage,
   AlertsPage,
   CalendarPage,
+  ApiKeysPage,
+  TaskTemplatesPage,
+  PipelineStagesPage,
+  PipelinesPage,
+  AccountingPage,
   BillingPage,
   ReportsPage,
   DangerZonePage,
@@ -159,6 +165,16 @@ export default function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="/reconciliation"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="ReconciliationPage">
+                            <ReconciliationPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
                     <Route
                       path="/import/granthub"
                       element={
@@ -251,6 +267,56 @@ export default function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="/settings/api-keys"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="ApiKeysPage">
+                            <ApiKeysPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/settings/task-templates"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="TaskTemplatesPage">
+                            <TaskTemplatesPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/settings/pipeline-stages"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="PipelineStagesPage">
+                            <PipelineStagesPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/settings/pipelines"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="PipelinesPage">
+                            <PipelinesPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/settings/accounting"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary boundaryName="AccountingPage">
+                            <AccountingPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
                     <Route
                       path="/settings/billing"
                       element={
@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ActionIcon,
+  Alert,
+  Anchor,
+  Button,
+  Center,
+  Group,
+  Loader,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+  Tooltip,
+} from '@mantine/core';
+import { DateInput } from '@mantine/dates';
+import { notifications } from '@mantine/notifications';
+import { IconAlertTriangle, IconArrowBackUp, IconDownload } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { usePermission } from '../hooks/usePermission';
+import {
+  createAccountingExport,
+  deleteAccountingExport,
+  downloadAccountingExport,
+  fetchAccountingExport,
+} from '../utils/accountingApi';
+import type { AccountingExport, ExportFormat } from '../types/accounting';
+
+interface AccountingExportModalProps {
+  budgetId: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+export function AccountingExportModal({ budgetId, opened, onClose }: AccountingExportModalProps) {
+  const { isAdmin } = usePermission();
+  const queryClient = useQueryClient();
+  const [format, setFormat] = useState<ExportFormat | null>(null);
+  const [throughDate, setThroughDate] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['accountingExport', budgetId],
+    queryFn: () => fetchAccountingExport(budgetId),
+    enabled: opened,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['accountingExport', budgetId] });
+
+  // The last export's format unless another one is picked
+  const selectedFormat = format ?? data?.exports[0]?.format ?? 'quickbooks_iif';
+  const entries = (data?.entries || []).filter(
+    (entry) => !throughDate || entry.date <= throughDate,
+  );
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const formatLabels = new Map((data?.formats || []).map((option) => [option.value, option.label]));
+
+  const exportMutation = useMutation({
+    mutationFn: () => createAccountingExport(budgetId, selectedFormat, throughDate),
+    onSuccess: () => {
+      invalidate();
+      setThroughDate(null);
+      notifications.show({
+        title: 'Journal exported',
+        message: `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} will be left out of future exports.`,
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      notifications.show({ title: 'Export failed', message: error.message, color: 'red' });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (record: AccountingExport) => deleteAccountingExport(record.id),
+    onSuccess: () => {
+      invalidate();
+      notifications.show({
+        title: 'Export undone',
+        message: 'Its entries will be included in the next export.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const handleDownload = async (record: AccountingExport) => {
+    try {
+      await downloadAccountingExport(record.id);
+    } catch (error) {
+      notifications.show({
+        title: 'Download failed',
+        message: error instanceof Error ? error.message : 'Failed to download export',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleUndo = (record: AccountingExport) => {
+    if (
+      window.confirm(
+        `Undo the export of ${dayjs(record.created_at).format('MMM D, YYYY')}? Only do this if its entries were not posted; they will be exported again next time.`,
+      )
+    ) {
+      undoMutation.mutate(record);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Export to Accounting" size="xl">
+      {isLoading ? (
+        <Center py="xl">
+          <Loader size="sm" />
+        </Center>
+      ) : error ? (
+        <Alert color="red" variant="light">
+          {(error as Error).message}
+        </Alert>
+      ) : data ? (
+        <Stack gap="md">
+          <Text size="sm" c="dimmed">
+            Approved expenses and payments received are exported once as balanced journal entries.
+            Entries already exported are left out, so nothing is posted twice.
+          </Text>
+
+          {data.warnings.length > 0 && (
+            <Alert icon={<IconAlertTriangle size={16} />} color="orange" variant="light">
+              <Stack gap={4}>
+                {data.warnings.map((warning) => (
+                  <Text key={warning} size="sm">
+                    {warning}
+                  </Text>
+                ))}
+                <Text size="sm">
+                  Map the missing accounts in{' '}
+                  <Anchor component={Link} to="/settings/accounting" size="sm">
+                    Settings → Accounting
+                  </Anchor>{' '}
+                  before exporting.
+                </Text>
+              </Stack>
+            </Alert>
+          )}
+
+          <Group align="flex-end">
+            <Select
+              label="Format"
+              data={data.formats}
+              value={selectedFormat}
+              onChange={(value) => value && setFormat(value as ExportFormat)}
+              allowDeselect={false}
+              w={240}
+            />
+            <DateInput
+              label="Through date"
+              placeholder="All dates"
+              value={throughDate}
+              onChange={setThroughDate}
+              valueFormat="YYYY-MM-DD"
+              clearable
+              w={160}
+            />
+            <Button
+              leftSection={<IconDownload size={16} />}
+              onClick={() => exportMutation.mutate()}
+              loading={exportMutation.isPending}
+              disabled={entries.length === 0 || data.warnings.length > 0}
+            >
+              Export {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+            </Button>
+          </Group>
+
+          {entries.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="md">
+              Nothing new to export.
+            </Text>
+          ) : (
+            <ScrollArea.Autosize mah={300}>
+              <Table fz="xs" striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Date</Table.Th>
+                    <Table.Th>Journal No</Table.Th>
+                    <Table.Th>Memo</Table.Th>
+                    <Table.Th>Debit</Table.Th>
+                    <Table.Th>Credit</Table.Th>
+                    <Table.Th>Class</Table.Th>
+                    <Table.Th ta="right">Amount</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {entries.map((entry) => (
+                    <Table.Tr key={entry.id}>
+                      <Table.Td>{dayjs(entry.date).format('MMM D, YYYY')}</Table.Td>
+                      <Table.Td>{entry.number}</Table.Td>
+                      <Table.Td>
+                        <Text size="xs" lineClamp={1}>
+                          {entry.memo}
+                        </Text>
+                      </Table.Td>
+                      {entry.lines.map((line) => (
+                        <Table.Td key={line.debit ? 'debit' : 'credit'}>
+                          {line.account || (
+                            <Text span size="xs" c="orange">
+                              Not mapped
+                            </Text>
+                          )}
+                        </Table.Td>
+                      ))}
+                      <Table.Td>{entry.lines[0]?.class_name || '—'}</Table.Td>
+                      <Table.Td ta="right">{formatCurrency(entry.amount)}</Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+                <Table.Tfoot>
+                  <Table.Tr>
+                    <Table.Th colSpan={6}>Total</Table.Th>
+                    <Table.Th ta="right">{formatCurrency(total)}</Table.Th>
+                  </Table.Tr>
+                </Table.Tfoot>
+              </Table>
+            </ScrollArea.Autosize>
+          )}
+
+          {(data.awaiting_approval > 0 || data.non_cash > 0) && (
+            <Text size="xs" c="dimmed">
+              {data.awaiting_approval > 0 &&
+                `${data.awaiting_approval} ${data.awaiting_approval === 1 ? 'disbursement is' : 'disbursements are'} left out until approved. `}
+              {data.non_cash > 0 &&
+                `${data.non_cash} in-kind ${data.non_cash === 1 ? 'item is' : 'items are'} never exported.`}
+            </Text>
+          )}
+
+          <div>
+            <Text size="sm" fw={600} mb="xs">
+              Past Exports
+            </Text>
+            {data.exports.length === 0 ? (
+              <Text size="sm" c="dimmed">
+                This grant hasn&apos;t been exported yet.
+              </Text>
+            ) : (
+              <Table fz="xs" striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Exported</Table.Th>
+                    <Table.Th>Format</Table.Th>
+                    <Table.Th>Period</Table.Th>
+                    <Table.Th ta="right">Entries</Table.Th>
+                    <Table.Th ta="right">Total</Table.Th>
+                    <Table.Th>By</Table.Th>
+                    <Table.Th />
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {data.exports.map((record) => (
+                    <Table.Tr key={record.id}>
+                      <Table.Td>{dayjs(record.created_at).format('MMM D, YYYY')}</Table.Td>
+                      <Table.Td>{formatLabels.get(record.format) || record.format}</Table.Td>
+                      <Table.Td>
+                        {record.period_start && record.period_end
+                          ? `${dayjs(record.period_start).format('MMM D')} – ${dayjs(
+                              record.period_end,
+                            ).format('MMM D, YYYY')}`
+                          : '—'}
+                      </Table.Td>
+                      <Table.Td ta="right">{record.entry_count}</Table.Td>
+                      <Table.Td ta="right">{formatCurrency(record.total_amount)}</Table.Td>
+                      <Table.Td>{record.exported_by_name || '—'}</Table.Td>
+                      <Table.Td>
+                        <Group gap={4} wrap="nowrap" justify="flex-end">
+                          <Tooltip label="Download again">
+                            <ActionIcon
+                              variant="subtle"
+                              color="gray"
+                              onClick={() => handleDownload(record)}
+                              aria-label="Download again"
+                            >
+                              <IconDownload size={14} />
+                            </ActionIcon>
+                          </Tooltip>
+                          {isAdmin && (
+                            <Tooltip label="Undo export">
+                              <ActionIcon
+                                variant="subtle"
+                                color="red"
+                                onClick={() => handleUndo(record)}
+                                loading={
+                                  undoMutation.isPending && undoMutation.variables?.id === record.id
+                                }
+                                aria-label="Undo export"
+                              >
+                                <IconArrowBackUp size={14} />
+                              </ActionIcon>
+                            </Tooltip>
+                          )}
+                        </Group>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </div>
+        </Stack>
+      ) : null}
+    </Modal>
+  );
+}
@@ -32,6 +32,9 @@ import {
 import { notifications } from '@mantine/notifications';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { usePipelines } from '../hooks/usePipelines';
+import { PipelineSelect } from './pipeline/PipelineSelect';
 import { supabase } from '../lib/supabase';
 import {
   fetchWorkflows,
@@ -45,16 +48,20 @@ import type {
   ApprovalLevel,
   GrantStage,
 } from '../types/approvals';
-import { GRANT_STAGES, formatTransitionLabel } from '../types/approvals';
+import { formatTransitionLabel } from '../types/approvals';
 
 interface WorkflowFormProps {
   opened: boolean;
   onClose: () => void;
   workflow?: ApprovalWorkflow | null;
+  // Both stages of the transition come from this pipeline
+  pipelineId: string | null;
 }
 
-function WorkflowForm({ opened, onClose, workflow }: WorkflowFormProps) {
+function WorkflowForm({ opened, onClose, workflow, pipelineId }: WorkflowFormProps) {
   const { currentOrg } = useOrganization();
+  const { stages } = usePipelineStages(pipelineId);
+  const stageOptions = stages.map((stage) => ({ value: stage.key, label: stage.label }));
   const queryClient = useQueryClient();
 
   const [name, setName] = useState(workflow?.name || '');
@@ -242,7 +249,7 @@ function WorkflowForm({ opened, onClose, workflow }: WorkflowFormProps) {
           <Select
             label="From Stage"
             placeholder="Select starting stage"
-            data={GRANT_STAGES}
+            data={stageOptions}
             value={fromStage}
             onChange={(val) => setFromStage(val as GrantStage)}
             required
@@ -250,7 +257,7 @@ function WorkflowForm({ opened, onClose, workflow }: WorkflowFormProps) {
           <Select
             label="To Stage"
             placeholder="Select target stage"
-            data={GRANT_STAGES}
+            data={stageOptions}
             value={toStage}
             onChange={(val) => setToStage(val as GrantStage)}
             required
@@ -371,6 +378,10 @@ function WorkflowForm({ opened, onClose, workflow }: WorkflowFormProps) {
 
 export function ApprovalWorkflowManager() {
   const { currentOrg } = useOrganization();
+  const { getStage, getStageLabel } = usePipelineStages();
+  const { defaultPipeline } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null);
+  const pipelineId = selectedPipelineId || defaultPipeline?.id || null;
   const queryClient = useQueryClient();
   const [formOpened, setFormOpened] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<ApprovalWorkflow | null>(null);
@@ -430,6 +441,13 @@ export function ApprovalWorkflowManager() {
     setEditingWorkflow(null);
   };
 
+  // A workflow belongs to the pipeline of its stages; shared stages (archived) go with any
+  const pipelineWorkflows = (workflows || []).filter((workflow) => {
+    const workflowPipelineId =
+      getStage(workflow.from_stage)?.pipeline_id || getStage(workflow.to_stage)?.pipeline_id;
+    return !pipelineId || !workflowPipelineId || workflowPipelineId === pipelineId;
+  });
+
   if (!currentOrg) {
     return (
       <Alert icon={<IconAlertCircle size={16} />} color="yellow">
@@ -449,14 +467,17 @@ export function ApprovalWorkflowManager() {
             Configure approval requirements for grant stage transitions
           </Text>
         </div>
-        <Button leftSection={<IconPlus size={16} />} onClick={() => setFormOpened(true)}>
-          Create Workflow
-        </Button>
+        <Group align="flex-end">
+          <PipelineSelect value={pipelineId} onChange={setSelectedPipelineId} />
+          <Button leftSection={<IconPlus size={16} />} onClick={() => setFormOpened(true)}>
+            Create Workflow
+          </Button>
+        </Group>
       </Group>
 
       {isLoading ? (
         <Text>Loading workflows...</Text>
-      ) : workflows && workflows.length > 0 ? (
+      ) : pipelineWorkflows.length > 0 ? (
         <Table>
           <Table.Thead>
             <Table.Tr>
@@ -468,7 +489,7 @@ export function ApprovalWorkflowManager() {
             </Table.Tr>
           </Table.Thead>
           <Table.Tbody>
-            {workflows.map((workflow) => (
+            {pipelineWorkflows.map((workflow) => (
               <Table.Tr key={workflow.id}>
                 <Table.Td>
                   <div>
@@ -481,7 +502,7 @@ export function ApprovalWorkflowManager() {
                   </div>
                 </Table.Td>
                 <Table.Td>
-                  <Text size="sm">{formatTransitionLabel(workflow.from_stage, workflow.to_stage)}</Text>
+                  <Text size="sm">{formatTransitionLabel(workflow.from_stage, workflow.to_stage, getStageLabel)}</Text>
                 </Table.Td>
                 <Table.Td>
                   <Badge variant="light">{workflow.approval_chain.length} level(s)</Badge>
@@ -548,7 +569,12 @@ export function ApprovalWorkflowManager() {
         </Alert>
       )}
 
-      <WorkflowForm opened={formOpened} onClose={handleCloseForm} workflow={editingWorkflow} />
+      <WorkflowForm
+        opened={formOpened}
+        onClose={handleCloseForm}
+        workflow={editingWorkflow}
+        pipelineId={pipelineId}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,755 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Center,
+  Checkbox,
+  Divider,
+  Group,
+  Loader,
+  NumberInput,
+  SegmentedControl,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core';
+import { DateInput } from '@mantine/dates';
+import { notifications } from '@mantine/notifications';
+import { IconAlertCircle, IconPlus, IconTrash } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { fetchBudgetBuilder, saveBudgetBuilder } from '../utils/budgetBuilderApi';
+import {
+  BUILDER_COST_CATEGORIES,
+  MAX_BUDGET_PERIODS,
+  ROLLUP_CATEGORY_LABELS,
+  type BudgetBuilderInputs,
+  type BudgetPeriod,
+  type CostItem,
+  type FringeRate,
+  type IndirectBase,
+  type PersonnelRow,
+  type RollupCategory,
+} from '../types/budgetBuilder';
+
+interface BudgetBuilderProps {
+  budgetId: string;
+  grantId: string;
+  // Budget period of the grant, used for the first budget period's dates
+  budgetPeriodStart: string | null;
+  budgetPeriodEnd: string | null;
+}
+
+const COST_CATEGORY_OPTIONS = BUILDER_COST_CATEGORIES.map((category) => ({
+  value: category,
+  label: ROLLUP_CATEGORY_LABELS[category],
+}));
+
+const ROLLUP_ROWS: RollupCategory[] = [
+  'personnel',
+  'fringe_benefits',
+  ...BUILDER_COST_CATEGORIES,
+  'indirect_costs',
+];
+
+const DEFAULT_FRINGE_RATES: FringeRate[] = [
+  { employee_class: 'Faculty', rate: 0 },
+  { employee_class: 'Staff', rate: 0 },
+];
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Dates of the period after the given one: the following day for a year
+ */
+function nextPeriod(previous: BudgetPeriod | undefined, periodNumber: number): BudgetPeriod {
+  if (!previous?.end_date) {
+    return { period_number: periodNumber, start_date: null, end_date: null };
+  }
+
+  const start = dayjs(previous.end_date).add(1, 'day');
+  return {
+    period_number: periodNumber,
+    start_date: start.format('YYYY-MM-DD'),
+    end_date: start.add(1, 'year').subtract(1, 'day').format('YYYY-MM-DD'),
+  };
+}
+
+/**
+ * Builds a grant budget from personnel, fringe rates, other direct costs and
+ * the negotiated indirect rate, and rolls the totals up into the budget's
+ * category line items
+ */
+export function BudgetBuilder({
+  budgetId,
+  grantId,
+  budgetPeriodStart,
+  budgetPeriodEnd,
+}: BudgetBuilderProps) {
+  const queryClient = useQueryClient();
+  // Unsaved edits; null while the form matches what is stored
+  const [draft, setDraft] = useState<BudgetBuilderInputs | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['budgetBuilder', budgetId],
+    queryFn: () => fetchBudgetBuilder(budgetId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (inputs: BudgetBuilderInputs) => saveBudgetBuilder(budgetId, inputs),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['budgetBuilder', budgetId], saved);
+      queryClient.invalidateQueries({ queryKey: ['grantBudget', grantId] });
+      setDraft(null);
+      notifications.show({
+        title: 'Budget calculated',
+        message: `The budget line items now total ${formatCurrency(saved.calculation.total)}.`,
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Center py="lg">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  // A budget that was never built starts with one period and the common classes
+  const saved = data.inputs;
+  const inputs: BudgetBuilderInputs = draft || {
+    ...saved,
+    periods:
+      saved.periods.length > 0
+        ? saved.periods
+        : [{ period_number: 1, start_date: budgetPeriodStart, end_date: budgetPeriodEnd }],
+    fringe_rates: saved.fringe_rates.length > 0 ? saved.fringe_rates : DEFAULT_FRINGE_RATES,
+  };
+  const calculation = data.calculation;
+
+  const update = (changes: Partial<BudgetBuilderInputs>) => setDraft({ ...inputs, ...changes });
+
+  const setPeriodCount = (count: number) => {
+    const periods = inputs.periods.slice(0, count);
+    while (periods.length < count) {
+      periods.push(nextPeriod(periods[periods.length - 1], periods.length + 1));
+    }
+    update({ periods });
+  };
+
+  const updatePeriod = (index: number, changes: Partial<BudgetPeriod>) =>
+    update({
+      periods: inputs.periods.map((period, i) =>
+        i === index ? { ...period, ...changes } : period,
+      ),
+    });
+
+  const updateFringe = (index: number, changes: Partial<FringeRate>) =>
+    update({
+      fringe_rates: inputs.fringe_rates.map((fringe, i) =>
+        i === index ? { ...fringe, ...changes } : fringe,
+      ),
+    });
+
+  const updatePerson = (index: number, changes: Partial<PersonnelRow>) =>
+    update({
+      personnel: inputs.personnel.map((person, i) =>
+        i === index ? { ...person, ...changes } : person,
+      ),
+    });
+
+  const updateCostItem = (index: number, changes: Partial<CostItem>) =>
+    update({
+      cost_items: inputs.cost_items.map((item, i) =>
+        i === index ? { ...item, ...changes } : item,
+      ),
+    });
+
+  const periodOptions = inputs.periods.map((period) => ({
+    value: String(period.period_number),
+    label: `Period ${period.period_number}`,
+  }));
+  const classOptions = Array.from(
+    new Set(inputs.fringe_rates.map((fringe) => fringe.employee_class).filter(Boolean)),
+  );
+
+  const incomplete =
+    inputs.personnel.some((person) => !person.name.trim() || !person.employee_class) ||
+    inputs.cost_items.some((item) => !item.description.trim()) ||
+    inputs.fringe_rates.some((fringe) => !fringe.employee_class.trim());
+
+  return (
+    <Stack gap="lg">
+      {/* Budget periods */}
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Title order={4}>Budget Periods</Title>
+          <NumberInput
+            aria-label="Number of budget periods"
+            w={120}
+            min={1}
+            max={MAX_BUDGET_PERIODS}
+            value={inputs.periods.length}
+            onChange={(value) =>
+              setPeriodCount(Math.min(Math.max(Number(value) || 1, 1), MAX_BUDGET_PERIODS))
+            }
+            suffix={inputs.periods.length === 1 ? ' period' : ' periods'}
+          />
+        </Group>
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="xs">
+          {inputs.periods.map((period, index) => (
+            <Group key={period.period_number} gap="xs" wrap="nowrap">
+              <Text size="sm" w={70}>
+                Period {period.period_number}
+              </Text>
+              <DateInput
+                aria-label={`Period ${period.period_number} start`}
+                placeholder="Start date"
+                value={period.start_date}
+                onChange={(value) => updatePeriod(index, { start_date: value })}
+                valueFormat="YYYY-MM-DD"
+                clearable
+              />
+              <DateInput
+                aria-label={`Period ${period.period_number} end`}
+                placeholder="End date"
+                value={period.end_date}
+                onChange={(value) => updatePeriod(index, { end_date: value })}
+                valueFormat="YYYY-MM-DD"
+                minDate={period.start_date || undefined}
+                clearable
+              />
+            </Group>
+          ))}
+        </SimpleGrid>
+      </Stack>
+
+      <Divider />
+
+      {/* Fringe rates */}
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Title order={4}>Fringe Rates</Title>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPlus size={14} />}
+            onClick={() =>
+              update({ fringe_rates: [...inputs.fringe_rates, { employee_class: '', rate: 0 }] })
+            }
+          >
+            Add Class
+          </Button>
+        </Group>
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="xs">
+          {inputs.fringe_rates.map((fringe, index) => (
+            <Group key={index} gap="xs" wrap="nowrap">
+              <TextInput
+                aria-label="Employee class"
+                placeholder="Employee class"
+                value={fringe.employee_class}
+                onChange={(e) => updateFringe(index, { employee_class: e.currentTarget.value })}
+                style={{ flex: 1 }}
+              />
+              <NumberInput
+                aria-label={`${fringe.employee_class || 'Class'} fringe rate`}
+                w={110}
+                min={0}
+                max={100}
+                decimalScale={3}
+                suffix="%"
+                value={fringe.rate}
+                onChange={(value) => updateFringe(index, { rate: Number(value) || 0 })}
+              />
+              <ActionIcon
+                variant="subtle"
+                color="red"
+                aria-label="Remove class"
+                onClick={() =>
+                  update({ fringe_rates: inputs.fringe_rates.filter((_, i) => i !== index) })
+                }
+              >
+                <IconTrash size={16} />
+              </ActionIcon>
+            </Group>
+          ))}
+        </SimpleGrid>
+      </Stack>
+
+      <Divider />
+
+      {/* Personnel */}
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Title order={4}>Personnel</Title>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPlus size={14} />}
+            onClick={() =>
+              update({
+                personnel: [
+                  ...inputs.personnel,
+                  {
+                    name: '',
+                    position_title: null,
+                    employee_class: classOptions[0] || '',
+                    annual_salary: 0,
+                    effort_percent: 100,
+                    months: 12,
+                    escalation_percent: 3,
+                    first_period: 1,
+                    last_period: null,
+                  },
+                ],
+              })
+            }
+          >
+            Add Person
+          </Button>
+        </Group>
+        {inputs.personnel.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            No personnel yet
+          </Text>
+        ) : (
+          <Table.ScrollContainer minWidth={1000}>
+            <Table verticalSpacing={4}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Name</Table.Th>
+                  <Table.Th>Position</Table.Th>
+                  <Table.Th>Class</Table.Th>
+                  <Table.Th>Annual salary</Table.Th>
+                  <Table.Th>Effort</Table.Th>
+                  <Table.Th>Months</Table.Th>
+                  <Table.Th>Escalation</Table.Th>
+                  <Table.Th>Periods</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {inputs.personnel.map((person, index) => (
+                  <Table.Tr key={person.id || index}>
+                    <Table.Td>
+                      <TextInput
+                        aria-label="Name"
+                        value={person.name}
+                        onChange={(e) => updatePerson(index, { name: e.currentTarget.value })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <TextInput
+                        aria-label="Position"
+                        value={person.position_title || ''}
+                        onChange={(e) =>
+                          updatePerson(index, { position_title: e.currentTarget.value || null })
+                        }
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Select
+                        aria-label="Employee class"
+                        w={140}
+                        data={classOptions}
+                        value={person.employee_class || null}
+                        onChange={(value) => updatePerson(index, { employee_class: value || '' })}
+                        allowDeselect={false}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        aria-label="Annual salary"
+                        w={130}
+                        min={0}
+                        prefix="$"
+                        thousandSeparator=","
+                        decimalScale={2}
+                        value={person.annual_salary}
+                        onChange={(value) =>
+                          updatePerson(index, { annual_salary: Number(value) || 0 })
+                        }
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        aria-label="Effort"
+                        w={90}
+                        min={0}
+                        max={100}
+                        suffix="%"
+                        value={person.effort_percent}
+                        onChange={(value) =>
+                          updatePerson(index, { effort_percent: Number(value) || 0 })
+                        }
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        aria-label="Months per period"
+                        w={80}
+                        min={0}
+                        max={12}
+                        decimalScale={2}
+                        value={person.months}
+                        onChange={(value) => updatePerson(index, { months: Number(value) || 0 })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        aria-label="Annual escalation"
+                        w={90}
+                        min={0}
+                        max={100}
+                        decimalScale={3}
+                        suffix="%"
+                        value={person.escalation_percent}
+                        onChange={(value) =>
+                          updatePerson(index, { escalation_percent: Number(value) || 0 })
+                        }
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap={4} wrap="nowrap">
+                        <Select
+                          aria-label="First period"
+                          w={110}
+                          data={periodOptions}
+                          value={String(person.first_period)}
+                          onChange={(value) =>
+                            value && updatePerson(index, { first_period: Number(value) })
+                          }
+                          allowDeselect={false}
+                        />
+                        <Select
+                          aria-label="Last period"
+                          w={110}
+                          data={periodOptions}
+                          placeholder="Last"
+                          value={person.last_period ? String(person.last_period) : null}
+                          onChange={(value) =>
+                            updatePerson(index, { last_period: value ? Number(value) : null })
+                          }
+                          clearable
+                        />
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        aria-label="Remove person"
+                        onClick={() =>
+                          update({ personnel: inputs.personnel.filter((_, i) => i !== index) })
+                        }
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Table.ScrollContainer>
+        )}
+      </Stack>
+
+      <Divider />
+
+      {/* Other direct costs */}
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Title order={4}>Other Direct Costs</Title>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPlus size={14} />}
+            onClick={() =>
+              update({
+                cost_items: [
+                  ...inputs.cost_items,
+                  {
+                    period_number: 1,
+                    category: 'travel',
+                    description: '',
+                    amount: 0,
+                    subrecipient: null,
+                    mtdc_excluded: false,
+                  },
+                ],
+              })
+            }
+          >
+            Add Cost
+          </Button>
+        </Group>
+        {inputs.cost_items.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            No other direct costs yet
+          </Text>
+        ) : (
+          <Table.ScrollContainer minWidth={900}>
+            <Table verticalSpacing={4}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Period</Table.Th>
+                  <Table.Th>Category</Table.Th>
+                  <Table.Th>Description</Table.Th>
+                  <Table.Th>Amount</Table.Th>
+                  <Table.Th>Subrecipient</Table.Th>
+                  <Table.Th>Excluded from MTDC</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {inputs.cost_items.map((item, index) => (
+                  <Table.Tr key={item.id || index}>
+                    <Table.Td>
+                      <Select
+                        aria-label="Budget period"
+                        w={110}
+                        data={periodOptions}
+                        value={String(item.period_number)}
+                        onChange={(value) =>
+                          value && updateCostItem(index, { period_number: Number(value) })
+                        }
+                        allowDeselect={false}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Select
+                        aria-label="Category"
+                        w={150}
+                        data={COST_CATEGORY_OPTIONS}
+                        value={item.category}
+                        onChange={(value) =>
+                          value &&
+                          updateCostItem(index, {
+                            category: value as CostItem['category'],
+                            subrecipient: value === 'contractual' ? item.subrecipient : null,
+                          })
+                        }
+                        allowDeselect={false}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <TextInput
+                        aria-label="Description"
+                        value={item.description}
+                        onChange={(e) =>
+                          updateCostItem(index, { description: e.currentTarget.value })
+                        }
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        aria-label="Amount"
+                        w={120}
+                        min={0}
+                        prefix="$"
+                        thousandSeparator=","
+                        decimalScale={2}
+                        value={item.amount}
+                        onChange={(value) => updateCostItem(index, { amount: Number(value) || 0 })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <TextInput
+                        aria-label="Subrecipient"
+                        placeholder={item.category === 'contractual' ? 'For subawards' : ''}
+                        value={item.subrecipient || ''}
+                        onChange={(e) =>
+                          updateCostItem(index, { subrecipient: e.currentTarget.value || null })
+                        }
+                        disabled={item.category !== 'contractual'}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Center>
+                        <Checkbox
+                          aria-label="Excluded from MTDC"
+                          checked={item.category === 'equipment' || item.mtdc_excluded}
+                          onChange={(e) =>
+                            updateCostItem(index, { mtdc_excluded: e.currentTarget.checked })
+                          }
+                          disabled={item.category === 'equipment'}
+                        />
+                      </Center>
+                    </Table.Td>
+                    <Table.Td>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        aria-label="Remove cost"
+                        onClick={() =>
+                          update({ cost_items: inputs.cost_items.filter((_, i) => i !== index) })
+                        }
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Table.ScrollContainer>
+        )}
+        <Text size="xs" c="dimmed">
+          Equipment is always excluded from modified total direct costs (MTDC), and only the first
+          $25,000 of each subaward counts. Mark participant support, tuition remission, rent and
+          patient care as excluded.
+        </Text>
+      </Stack>
+
+      <Divider />
+
+      {/* Indirect costs */}
+      <Stack gap="xs">
+        <Title order={4}>Indirect Costs</Title>
+        <Group align="flex-end">
+          <NumberInput
+            label="Negotiated rate"
+            w={160}
+            min={0}
+            max={100}
+            decimalScale={3}
+            suffix="%"
+            value={inputs.indirect_rate}
+            onChange={(value) => update({ indirect_rate: Number(value) || 0 })}
+          />
+          <SegmentedControl
+            value={inputs.indirect_base}
+            onChange={(value) => update({ indirect_base: value as IndirectBase })}
+            data={[
+              { value: 'mtdc', label: 'Modified total direct costs' },
+              { value: 'tdc', label: 'Total direct costs' },
+            ]}
+          />
+        </Group>
+      </Stack>
+
+      <Divider />
+
+      {/* Calculated totals */}
+      <Stack gap="xs">
+        <Title order={4}>Calculated Budget</Title>
+        {draft && (
+          <Text size="sm" c="dimmed">
+            Showing the last saved calculation. Calculate to include your changes.
+          </Text>
+        )}
+        {calculation.warnings.length > 0 && (
+          <Alert icon={<IconAlertCircle size={16} />} color="yellow" variant="light">
+            <Stack gap={2}>
+              {calculation.warnings.map((warning) => (
+                <Text key={warning} size="sm">
+                  {warning}
+                </Text>
+              ))}
+            </Stack>
+          </Alert>
+        )}
+        {calculation.periods.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            Nothing calculated yet
+          </Text>
+        ) : (
+          <Table.ScrollContainer minWidth={600}>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Category</Table.Th>
+                  {calculation.periods.map((period) => (
+                    <Table.Th key={period.period_number} ta="right">
+                      Period {period.period_number}
+                    </Table.Th>
+                  ))}
+                  <Table.Th ta="right">Total</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {ROLLUP_ROWS.filter((category) => calculation.categories[category] > 0).map(
+                  (category) => (
+                    <Table.Tr key={category}>
+                      <Table.Td>{ROLLUP_CATEGORY_LABELS[category]}</Table.Td>
+                      {calculation.periods.map((period) => (
+                        <Table.Td key={period.period_number} ta="right">
+                          {formatCurrency(period.categories[category])}
+                        </Table.Td>
+                      ))}
+                      <Table.Td ta="right">
+                        {formatCurrency(calculation.categories[category])}
+                      </Table.Td>
+                    </Table.Tr>
+                  ),
+                )}
+                <Table.Tr>
+                  <Table.Td>
+                    <Text size="sm" c="dimmed">
+                      Indirect cost base
+                    </Text>
+                  </Table.Td>
+                  {calculation.periods.map((period) => (
+                    <Table.Td key={period.period_number} ta="right">
+                      <Text size="sm" c="dimmed">
+                        {formatCurrency(period.indirect_base_amount)}
+                      </Text>
+                    </Table.Td>
+                  ))}
+                  <Table.Td ta="right">
+                    <Text size="sm" c="dimmed">
+                      {formatCurrency(calculation.indirect_base_amount)}
+                    </Text>
+                  </Table.Td>
+                </Table.Tr>
+                <Table.Tr>
+                  <Table.Td fw={700}>Total</Table.Td>
+                  {calculation.periods.map((period) => (
+                    <Table.Td key={period.period_number} ta="right" fw={700}>
+                      {formatCurrency(period.total)}
+                    </Table.Td>
+                  ))}
+                  <Table.Td ta="right" fw={700}>
+                    {formatCurrency(calculation.total)}
+                  </Table.Td>
+                </Table.Tr>
+              </Table.Tbody>
+            </Table>
+          </Table.ScrollContainer>
+        )}
+      </Stack>
+
+      <Group justify="flex-end">
+        {draft && (
+          <Button variant="default" onClick={() => setDraft(null)}>
+            Discard
+          </Button>
+        )}
+        <Button
+          disabled={incomplete}
+          loading={saveMutation.isPending}
+          onClick={() => saveMutation.mutate(inputs)}
+        >
+          Calculate & Save
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
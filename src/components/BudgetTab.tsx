@@ -1,11 +1,16 @@
-import { Stack, Text, Group, Progress, Badge, Paper, SimpleGrid, Alert, RingProgress, Center, Button, Modal, NumberInput, Switch, TextInput } from "@mantine/core";
-import { IconAlertCircle, IconCurrencyDollar, IconTrendingUp, IconTrendingDown, IconPlus } from "@tabler/icons-react";
+import { Stack, Text, Group, Progress, Badge, Paper, SimpleGrid, Alert, RingProgress, Center, Button, Modal, NumberInput, Switch, TextInput, Menu, Loader } from '@mantine/core';
+import { IconAlertCircle, IconCurrencyDollar, IconTrendingUp, IconTrendingDown, IconPlus, IconCalculator, IconDownload, IconFileSpreadsheet, IconPrinter, IconReceipt } from '@tabler/icons-react';
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import { notifications } from "@mantine/notifications";
 import { DateInput } from "@mantine/dates";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { BudgetBuilder } from './BudgetBuilder';
+import { BudgetVariance } from './BudgetVariance';
+import { AccountingExportModal } from './AccountingExportModal';
+import { fetchBudgetExport, downloadBudgetWorkbook } from '../utils/budgetExportApi';
+import { printBudgetDocument } from '../utils/printBudgetDocument';
 
 interface BudgetTabProps {
   grantId: string;
@@ -31,6 +36,7 @@ interface BudgetLineItem {
   proposed_amount: number;
   awarded_amount: number;
   spent_amount: number;
+  builder_generated?: boolean;
 }
 
 export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
@@ -38,6 +44,8 @@ export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
   const queryClient = useQueryClient();
   const [createModalOpened, setCreateModalOpened] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [builderOpened, setBuilderOpened] = useState(false);
+  const [accountingOpened, setAccountingOpened] = useState(false);
 
   // Form state
   const [proposedAmount, setProposedAmount] = useState<number>(0);
@@ -64,6 +72,30 @@ export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
     },
   });
 
+  // Loaded when the export menu opens, so printing can open its window right away
+  const budgetId: string | undefined = data?.budget?.id;
+  const exportQuery = useQuery({
+    queryKey: ['budgetExport', budgetId],
+    queryFn: () => fetchBudgetExport(budgetId as string),
+    enabled: false,
+  });
+
+  const handleDownloadWorkbook = async () => {
+    if (!budgetId) {
+      return;
+    }
+
+    try {
+      await downloadBudgetWorkbook(budgetId);
+    } catch (err) {
+      notifications.show({
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to export budget',
+        color: 'red',
+      });
+    }
+  };
+
   const handleCreateBudget = async () => {
     if (!user || !orgId) {
       notifications.show({
@@ -417,7 +449,74 @@ export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
 
       {/* Line Items - Mini P&L */}
       <Paper p="md" withBorder>
-        <Text size="sm" fw={600} mb="md">Budget by Category</Text>
+        <Group justify="space-between" mb="md">
+          <Text size="sm" fw={600}>Budget by Category</Text>
+          <Group gap="xs">
+            <Menu position="bottom-end" width={300} onOpen={() => exportQuery.refetch()}>
+              <Menu.Target>
+                <Button size="xs" variant="default" leftSection={<IconDownload size={14} />}>
+                  Export
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Item
+                  leftSection={<IconFileSpreadsheet size={14} />}
+                  onClick={handleDownloadWorkbook}
+                >
+                  SF-424A & justification (Excel)
+                </Menu.Item>
+                <Menu.Item
+                  leftSection={<IconPrinter size={14} />}
+                  disabled={!exportQuery.data}
+                  onClick={() => exportQuery.data && printBudgetDocument('SF-424A', exportQuery.data.documents.sf424a)}
+                >
+                  SF-424A (PDF)
+                </Menu.Item>
+                <Menu.Item
+                  leftSection={<IconPrinter size={14} />}
+                  disabled={!exportQuery.data}
+                  onClick={() => exportQuery.data && printBudgetDocument('Budget Justification', exportQuery.data.documents.justification)}
+                >
+                  Budget justification (PDF)
+                </Menu.Item>
+                <Menu.Divider />
+                <Menu.Item
+                  leftSection={<IconReceipt size={14} />}
+                  onClick={() => setAccountingOpened(true)}
+                >
+                  Journal entries (QuickBooks / Xero)
+                </Menu.Item>
+                {exportQuery.isFetching && (
+                  <Menu.Label>
+                    <Group gap={6}>
+                      <Loader size={12} />
+                      Checking budget totals...
+                    </Group>
+                  </Menu.Label>
+                )}
+                {!exportQuery.isFetching && exportQuery.data && exportQuery.data.issues.length > 0 && (
+                  <>
+                    <Menu.Divider />
+                    <Menu.Label c="yellow.8">Totals do not reconcile</Menu.Label>
+                    {exportQuery.data.issues.map((issue) => (
+                      <Text key={issue.message} size="xs" px="sm" pb={4}>
+                        {issue.message}: {formatCurrency(issue.actual)} vs {formatCurrency(issue.expected)}
+                      </Text>
+                    ))}
+                  </>
+                )}
+              </Menu.Dropdown>
+            </Menu>
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconCalculator size={14} />}
+              onClick={() => setBuilderOpened(true)}
+            >
+              Budget Builder
+            </Button>
+          </Group>
+        </Group>
 
         <Stack gap="sm">
           {budget.budget_line_items && budget.budget_line_items.length > 0 ? (
@@ -434,9 +533,14 @@ export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
                 <Paper key={item.id} p="sm" withBorder style={{ backgroundColor: 'var(--mantine-color-gray-0)' }}>
                   <Group justify="space-between" mb="xs">
                     <div>
-                      <Text size="sm" fw={500}>
-                        {categoryLabels[item.category] || item.category}
-                      </Text>
+                      <Group gap={6}>
+                        <Text size="sm" fw={500}>
+                          {categoryLabels[item.category] || item.category}
+                        </Text>
+                        {item.builder_generated && (
+                          <Badge size="xs" variant="outline" color="gray">Calculated</Badge>
+                        )}
+                      </Group>
                       {item.description && (
                         <Text size="xs" c="dimmed">{item.description}</Text>
                       )}
@@ -473,6 +577,29 @@ export function BudgetTab({ grantId, orgId }: BudgetTabProps) {
           )}
         </Stack>
       </Paper>
+
+      {/* Budget vs. Actual and Revisions */}
+      <BudgetVariance budgetId={budget.id} grantId={grantId} categoryLabels={categoryLabels} />
+
+      <Modal
+        opened={builderOpened}
+        onClose={() => setBuilderOpened(false)}
+        title="Budget Builder"
+        size="100%"
+      >
+        <BudgetBuilder
+          budgetId={budget.id}
+          grantId={grantId}
+          budgetPeriodStart={budget.budget_period_start || null}
+          budgetPeriodEnd={budget.budget_period_end || null}
+        />
+      </Modal>
+
+      <AccountingExportModal
+        budgetId={budget.id}
+        opened={accountingOpened}
+        onClose={() => setAccountingOpened(false)}
+      />
     </Stack>
   );
 }
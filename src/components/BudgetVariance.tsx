@@ -0,0 +1,580 @@
+import { Fragment, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Badge,
+  Button,
+  Center,
+  Group,
+  Loader,
+  Modal,
+  NumberInput,
+  Paper,
+  Stack,
+  Table,
+  Text,
+  Textarea,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconAlertTriangle, IconArrowsExchange } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { useAuth } from '../contexts/AuthContext';
+import { usePermission } from '../hooks/usePermission';
+import {
+  cancelBudgetRevision,
+  decideBudgetRevision,
+  fetchBudgetRevisions,
+  fetchBudgetVariance,
+  requestBudgetRevision,
+  updateRebudgetThreshold,
+} from '../utils/budgetVarianceApi';
+import type {
+  BudgetRevision,
+  BudgetRevisionStatus,
+  CategoryVariance,
+} from '../types/budgetVariance';
+
+interface BudgetVarianceProps {
+  budgetId: string;
+  grantId: string;
+  categoryLabels: Record<string, string>;
+}
+
+const STATUS_COLORS: Record<BudgetRevisionStatus, string> = {
+  pending: 'yellow',
+  approved: 'green',
+  rejected: 'red',
+  cancelled: 'gray',
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function varianceColor(amount: number): string | undefined {
+  return amount < 0 ? 'red' : undefined;
+}
+
+function CategoryFlags({ category }: { category: CategoryVariance }) {
+  return (
+    <Group gap={4}>
+      {category.exceeds_threshold && (
+        <Badge size="xs" color="orange" variant="light">
+          Exceeds threshold
+        </Badge>
+      )}
+      {category.over_budget ? (
+        <Badge size="xs" color="red" variant="light">
+          Over budget
+        </Badge>
+      ) : (
+        category.projected_over_budget && (
+          <Badge size="xs" color="yellow" variant="light">
+            Projected over
+          </Badge>
+        )
+      )}
+    </Group>
+  );
+}
+
+/**
+ * Budget-vs-actual variance per category and line item with the burn
+ * projection to the end of the budget period, the rebudgeting threshold, and
+ * budget revision requests and their approval
+ */
+export function BudgetVariance({ budgetId, grantId, categoryLabels }: BudgetVarianceProps) {
+  const { user } = useAuth();
+  const { isAdmin } = usePermission();
+  const queryClient = useQueryClient();
+  const [revisionOpened, setRevisionOpened] = useState(false);
+  const [reason, setReason] = useState('');
+  // Requested amount per line item; lines left out keep their budget
+  const [afterAmounts, setAfterAmounts] = useState<Record<string, number>>({});
+  const [decisionComments, setDecisionComments] = useState('');
+
+  const varianceQuery = useQuery({
+    queryKey: ['budgetVariance', budgetId],
+    queryFn: () => fetchBudgetVariance(budgetId),
+  });
+
+  const revisionsQuery = useQuery({
+    queryKey: ['budgetRevisions', budgetId],
+    queryFn: () => fetchBudgetRevisions(budgetId),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['budgetVariance', budgetId] });
+    queryClient.invalidateQueries({ queryKey: ['budgetRevisions', budgetId] });
+    queryClient.invalidateQueries({ queryKey: ['grantBudget', grantId] });
+  };
+
+  const showError = (error: Error) => {
+    notifications.show({ title: 'Error', message: error.message, color: 'red' });
+  };
+
+  const thresholdMutation = useMutation({
+    mutationFn: (percent: number) => updateRebudgetThreshold(budgetId, percent),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['budgetVariance', budgetId] }),
+    onError: showError,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      requestBudgetRevision({
+        budget_id: budgetId,
+        reason,
+        lines: Object.entries(afterAmounts).map(([line_item_id, after_amount]) => ({
+          line_item_id,
+          after_amount,
+        })),
+      }),
+    onSuccess: () => {
+      refresh();
+      setRevisionOpened(false);
+      setReason('');
+      setAfterAmounts({});
+      notifications.show({
+        title: 'Revision requested',
+        message: 'Org admins have been asked to approve the budget revision.',
+        color: 'green',
+      });
+    },
+    onError: showError,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: 'approved' | 'rejected' }) =>
+      decideBudgetRevision(id, decision, decisionComments),
+    onSuccess: (_, { decision }) => {
+      refresh();
+      setDecisionComments('');
+      notifications.show({
+        title: decision === 'approved' ? 'Revision approved' : 'Revision rejected',
+        message:
+          decision === 'approved'
+            ? 'The new amounts have been applied to the budget.'
+            : 'The budget is unchanged.',
+        color: decision === 'approved' ? 'green' : 'gray',
+      });
+    },
+    onError: showError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => cancelBudgetRevision(id),
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  if (varianceQuery.isLoading) {
+    return (
+      <Paper p="md" withBorder>
+        <Center>
+          <Loader size="sm" />
+        </Center>
+      </Paper>
+    );
+  }
+
+  const variance = varianceQuery.data;
+  if (!variance) {
+    return null;
+  }
+
+  const revisions = revisionsQuery.data || [];
+  const pending = revisions.find((revision) => revision.status === 'pending');
+  const history = revisions.filter((revision) => revision.status !== 'pending');
+  const lines = variance.categories.flatMap((category) => category.lines);
+  const revisionChange = lines.reduce(
+    (sum, line) =>
+      sum +
+      (line.line_item_id in afterAmounts ? afterAmounts[line.line_item_id] - line.budgeted : 0),
+    0,
+  );
+
+  const openRevision = () => {
+    setAfterAmounts({});
+    setReason('');
+    setRevisionOpened(true);
+  };
+
+  const renderRevisionLines = (revision: BudgetRevision) => (
+    <Table fz="xs" withTableBorder>
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th>Line item</Table.Th>
+          <Table.Th ta="right">Before</Table.Th>
+          <Table.Th ta="right">After</Table.Th>
+          <Table.Th ta="right">Change</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {revision.lines.map((line) => (
+          <Table.Tr key={line.id}>
+            <Table.Td>
+              {categoryLabels[line.category] || line.category}: {line.description}
+            </Table.Td>
+            <Table.Td ta="right">{formatCurrency(line.before_amount)}</Table.Td>
+            <Table.Td ta="right">{formatCurrency(line.after_amount)}</Table.Td>
+            <Table.Td ta="right" c={varianceColor(line.after_amount - line.before_amount)}>
+              {line.after_amount - line.before_amount >= 0 ? '+' : ''}
+              {formatCurrency(line.after_amount - line.before_amount)}
+            </Table.Td>
+          </Table.Tr>
+        ))}
+      </Table.Tbody>
+    </Table>
+  );
+
+  return (
+    <Paper p="md" withBorder>
+      <Group justify="space-between" mb="md" align="flex-end">
+        <Text size="sm" fw={600}>
+          Budget vs. Actual
+        </Text>
+        <Group gap="xs" align="flex-end">
+          <NumberInput
+            size="xs"
+            w={170}
+            label="Rebudgeting threshold"
+            suffix="% of budget"
+            min={0}
+            max={100}
+            decimalScale={2}
+            defaultValue={variance.threshold_percent}
+            key={variance.threshold_percent}
+            onBlur={(event) => {
+              const percent = Number(event.currentTarget.value.replace(/[^\d.]/g, ''));
+              if (!isNaN(percent) && percent !== variance.threshold_percent) {
+                thresholdMutation.mutate(Math.min(percent, 100));
+              }
+            }}
+          />
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconArrowsExchange size={14} />}
+            onClick={openRevision}
+            disabled={!!pending || lines.length === 0}
+          >
+            Request Revision
+          </Button>
+        </Group>
+      </Group>
+
+      <Stack gap="sm">
+        {variance.requires_revision && (
+          <Alert icon={<IconAlertTriangle size={16} />} color="orange" variant="light">
+            <Text size="xs">
+              Projected spending moves {formatCurrency(variance.cumulative_transfer_amount)} (
+              {variance.cumulative_transfer_percent.toFixed(1)}% of the budget) between categories,
+              above the {variance.threshold_percent}% rebudgeting threshold. Transfers this large
+              need a budget revision approved before the money is spent.
+            </Text>
+          </Alert>
+        )}
+
+        <Text size="xs" c="dimmed">
+          {variance.projection_available
+            ? `${variance.elapsed_percent?.toFixed(0)}% of the budget period elapsed. At ${formatCurrency(
+                variance.daily_burn_rate,
+              )}/day, spending reaches ${formatCurrency(variance.projected)} by ${dayjs(
+                variance.period_end,
+              ).format('MMM D, YYYY')}${
+                variance.projected_depletion_date &&
+                variance.period_end &&
+                variance.projected_depletion_date <= variance.period_end
+                  ? ` and uses up the budget on ${dayjs(variance.projected_depletion_date).format('MMM D, YYYY')}`
+                  : ''
+              }.`
+            : 'Set a budget period end date to project spending.'}
+          {variance.unassigned_actual > 0 &&
+            ` ${formatCurrency(variance.unassigned_actual)} of expenses have no category.`}
+        </Text>
+
+        <Table.ScrollContainer minWidth={760}>
+          <Table fz="xs" striped={false}>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Category</Table.Th>
+                <Table.Th ta="right">Budgeted</Table.Th>
+                <Table.Th ta="right">Actual</Table.Th>
+                <Table.Th ta="right">Variance</Table.Th>
+                <Table.Th ta="right">Projected</Table.Th>
+                <Table.Th ta="right">Projected variance</Table.Th>
+                <Table.Th ta="right">Transfer</Table.Th>
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {variance.categories.map((category) => (
+                <Fragment key={category.category}>
+                  <Table.Tr>
+                    <Table.Td fw={600}>
+                      {categoryLabels[category.category] || category.category}
+                    </Table.Td>
+                    <Table.Td ta="right">{formatCurrency(category.budgeted)}</Table.Td>
+                    <Table.Td ta="right">{formatCurrency(category.actual)}</Table.Td>
+                    <Table.Td ta="right" c={varianceColor(category.variance)}>
+                      {formatCurrency(category.variance)}
+                    </Table.Td>
+                    <Table.Td ta="right">{formatCurrency(category.projected)}</Table.Td>
+                    <Table.Td ta="right" c={varianceColor(category.projected_variance)}>
+                      {formatCurrency(category.projected_variance)}
+                    </Table.Td>
+                    <Table.Td ta="right">
+                      {category.transfer_amount > 0
+                        ? `${category.transfer_percent.toFixed(1)}%`
+                        : '—'}
+                    </Table.Td>
+                    <Table.Td>
+                      <CategoryFlags category={category} />
+                    </Table.Td>
+                  </Table.Tr>
+                  {category.lines.length > 1 &&
+                    category.lines.map((line) => (
+                      <Table.Tr key={line.line_item_id}>
+                        <Table.Td pl="lg" c="dimmed">
+                          {line.description}
+                        </Table.Td>
+                        <Table.Td ta="right" c="dimmed">
+                          {formatCurrency(line.budgeted)}
+                        </Table.Td>
+                        <Table.Td ta="right" c="dimmed">
+                          {formatCurrency(line.actual)}
+                        </Table.Td>
+                        <Table.Td ta="right" c={varianceColor(line.variance) || 'dimmed'}>
+                          {formatCurrency(line.variance)}
+                        </Table.Td>
+                        <Table.Td ta="right" c="dimmed">
+                          {formatCurrency(line.projected)}
+                        </Table.Td>
+                        <Table.Td ta="right" c={varianceColor(line.projected_variance) || 'dimmed'}>
+                          {formatCurrency(line.projected_variance)}
+                        </Table.Td>
+                        <Table.Td />
+                        <Table.Td />
+                      </Table.Tr>
+                    ))}
+                </Fragment>
+              ))}
+              <Table.Tr>
+                <Table.Td fw={700}>Total</Table.Td>
+                <Table.Td ta="right" fw={700}>
+                  {formatCurrency(variance.budgeted)}
+                </Table.Td>
+                <Table.Td ta="right" fw={700}>
+                  {formatCurrency(variance.actual)}
+                </Table.Td>
+                <Table.Td ta="right" fw={700} c={varianceColor(variance.variance)}>
+                  {formatCurrency(variance.variance)}
+                </Table.Td>
+                <Table.Td ta="right" fw={700}>
+                  {formatCurrency(variance.projected)}
+                </Table.Td>
+                <Table.Td ta="right" fw={700} c={varianceColor(variance.projected_variance)}>
+                  {formatCurrency(variance.projected_variance)}
+                </Table.Td>
+                <Table.Td ta="right" fw={700}>
+                  {variance.cumulative_transfer_percent.toFixed(1)}%
+                </Table.Td>
+                <Table.Td />
+              </Table.Tr>
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+
+        {pending && (
+          <Paper p="sm" withBorder bg="var(--mantine-color-yellow-0)">
+            <Stack gap="xs">
+              <Group justify="space-between">
+                <Text size="sm" fw={600}>
+                  Revision awaiting approval
+                </Text>
+                <Text size="xs" c="dimmed">
+                  Requested by {pending.requested_by_name || 'a team member'}{' '}
+                  {dayjs(pending.requested_at).format('MMM D, YYYY')}
+                </Text>
+              </Group>
+              <Text size="xs" style={{ whiteSpace: 'pre-wrap' }}>
+                {pending.reason}
+              </Text>
+              {renderRevisionLines(pending)}
+              {isAdmin && pending.requested_by !== user?.id && (
+                <Textarea
+                  size="xs"
+                  placeholder="Comments (optional)"
+                  value={decisionComments}
+                  onChange={(event) => setDecisionComments(event.currentTarget.value)}
+                  autosize
+                  minRows={1}
+                />
+              )}
+              <Group justify="flex-end" gap="xs">
+                {(isAdmin || pending.requested_by === user?.id) && (
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    color="gray"
+                    loading={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(pending.id)}
+                  >
+                    Cancel request
+                  </Button>
+                )}
+                {isAdmin && pending.requested_by !== user?.id && (
+                  <>
+                    <Button
+                      size="xs"
+                      variant="light"
+                      color="red"
+                      loading={
+                        decideMutation.isPending &&
+                        decideMutation.variables?.decision === 'rejected'
+                      }
+                      onClick={() =>
+                        decideMutation.mutate({ id: pending.id, decision: 'rejected' })
+                      }
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="xs"
+                      color="green"
+                      loading={
+                        decideMutation.isPending &&
+                        decideMutation.variables?.decision === 'approved'
+                      }
+                      onClick={() =>
+                        decideMutation.mutate({ id: pending.id, decision: 'approved' })
+                      }
+                    >
+                      Approve
+                    </Button>
+                  </>
+                )}
+              </Group>
+            </Stack>
+          </Paper>
+        )}
+
+        {history.length > 0 && (
+          <Stack gap={4}>
+            <Text size="xs" fw={600} c="dimmed">
+              Revision history
+            </Text>
+            {history.map((revision) => (
+              <Group key={revision.id} gap="xs" wrap="nowrap">
+                <Badge size="xs" variant="light" color={STATUS_COLORS[revision.status]}>
+                  {revision.status}
+                </Badge>
+                <Text size="xs" lineClamp={1}>
+                  {dayjs(revision.requested_at).format('MMM D, YYYY')}: {revision.reason} (
+                  {revision.lines.length} line{revision.lines.length === 1 ? '' : 's'},{' '}
+                  {formatCurrency(revision.before_total)} → {formatCurrency(revision.after_total)})
+                  {revision.decided_by_name && ` by ${revision.decided_by_name}`}
+                </Text>
+              </Group>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      <Modal
+        opened={revisionOpened}
+        onClose={() => setRevisionOpened(false)}
+        title="Request Budget Revision"
+        size="lg"
+      >
+        <Stack gap="md">
+          <Text size="xs" c="dimmed">
+            Enter the new budget for each line item to change. Org admins approve the revision
+            before the amounts change.
+          </Text>
+
+          <Table fz="xs">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Line item</Table.Th>
+                <Table.Th ta="right">Current</Table.Th>
+                <Table.Th ta="right">Projected</Table.Th>
+                <Table.Th w={150}>New budget</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {lines.map((line) => (
+                <Table.Tr key={line.line_item_id}>
+                  <Table.Td>
+                    <Text size="xs" fw={500}>
+                      {categoryLabels[line.category] || line.category}
+                    </Text>
+                    <Text size="xs" c="dimmed" lineClamp={1}>
+                      {line.description}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td ta="right">{formatCurrency(line.budgeted)}</Table.Td>
+                  <Table.Td ta="right" c={varianceColor(line.projected_variance)}>
+                    {formatCurrency(line.projected)}
+                  </Table.Td>
+                  <Table.Td>
+                    <NumberInput
+                      size="xs"
+                      prefix="$"
+                      thousandSeparator=","
+                      decimalScale={2}
+                      min={0}
+                      value={afterAmounts[line.line_item_id] ?? line.budgeted}
+                      onChange={(value) => {
+                        const { [line.line_item_id]: _previous, ...rest } = afterAmounts;
+                        const amount = Number(value) || 0;
+                        setAfterAmounts(
+                          amount === line.budgeted
+                            ? rest
+                            : { ...rest, [line.line_item_id]: amount },
+                        );
+                      }}
+                    />
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+
+          <Text size="xs" c={revisionChange === 0 ? 'dimmed' : 'orange'}>
+            Net change to the budget: {revisionChange >= 0 ? '+' : ''}
+            {formatCurrency(revisionChange)}
+          </Text>
+
+          <Textarea
+            label="Reason"
+            description="Why the amounts need to move"
+            value={reason}
+            onChange={(event) => setReason(event.currentTarget.value)}
+            autosize
+            minRows={3}
+            required
+          />
+
+          <Group justify="flex-end">
+            <Button variant="outline" onClick={() => setRevisionOpened(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => requestMutation.mutate()}
+              loading={requestMutation.isPending}
+              disabled={!reason.trim() || Object.keys(afterAmounts).length === 0}
+            >
+              Submit for Approval
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Paper>
+  );
+}
@@ -0,0 +1,148 @@
+import { Stack, Text, Group, Badge, Paper, Alert, Loader, Center, Table } from '@mantine/core';
+import { IconAlertCircle, IconArrowRight, IconHistory } from '@tabler/icons-react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import dayjs from 'dayjs';
+
+interface CatalogChangesTabProps {
+  grantId: string;
+}
+
+interface CatalogFieldChange {
+  field: string;
+  label: string;
+  old_display: string;
+  new_display: string;
+}
+
+interface CatalogVersion {
+  id: string;
+  version: number;
+  changed_at: string;
+  changes: CatalogFieldChange[];
+}
+
+interface CatalogChangesResponse {
+  current_version: number | null;
+  changes: CatalogVersion[];
+}
+
+// Fields whose change usually means re-planning the application
+const KEY_FIELDS = new Set([
+  'close_date',
+  'open_date',
+  'award_ceiling',
+  'award_floor',
+  'opportunity_status',
+]);
+
+// Long text is listed as changed, not diffed inline
+const SUMMARY_ONLY_FIELDS = new Set(['description']);
+
+export function CatalogChangesTab({ grantId }: CatalogChangesTabProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['catalogChanges', grantId],
+    queryFn: async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`/api/grants/catalog-changes?grant_id=${grantId}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch catalog changes');
+      }
+
+      return response.json() as Promise<CatalogChangesResponse>;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Center py="xl">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+        <Text size="sm">{error.message}</Text>
+      </Alert>
+    );
+  }
+
+  if (!data || data.changes.length === 0) {
+    return (
+      <Alert icon={<IconHistory size={16} />} color="blue" variant="light">
+        <Text size="sm">
+          No changes to this opportunity have been detected since it was first synced. Deadline,
+          funding and status changes from the source will appear here.
+        </Text>
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      {data.changes.map((version) => (
+        <Paper key={version.id} p="md" withBorder>
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Group gap="xs">
+                <Badge variant="light">Version {version.version}</Badge>
+                {version.version === data.current_version && (
+                  <Badge variant="light" color="green">
+                    Current
+                  </Badge>
+                )}
+              </Group>
+              <Text size="xs" c="dimmed">
+                {dayjs(version.changed_at).format('MMM D, YYYY h:mm A')}
+              </Text>
+            </Group>
+
+            <Table>
+              <Table.Tbody>
+                {version.changes.map((change) => (
+                  <Table.Tr key={change.field}>
+                    <Table.Td w={200}>
+                      <Text size="sm" fw={KEY_FIELDS.has(change.field) ? 600 : 400}>
+                        {change.label}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {SUMMARY_ONLY_FIELDS.has(change.field) ? (
+                        <Text size="sm" c="dimmed">
+                          Updated
+                        </Text>
+                      ) : (
+                        <Group gap="xs" wrap="nowrap">
+                          <Text size="sm" c="red" td="line-through">
+                            {change.old_display}
+                          </Text>
+                          <IconArrowRight size={14} />
+                          <Text size="sm" c="green">
+                            {change.new_display}
+                          </Text>
+                        </Group>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
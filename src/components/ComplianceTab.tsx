@@ -10,12 +10,15 @@ import {
   IconPlus,
   IconEdit,
   IconTrash,
+  IconRepeat,
 } from "@tabler/icons-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import { DateInput } from "@mantine/dates";
 import { notifications } from "@mantine/notifications";
 import { supabase } from "../lib/supabase";
+import { RecurrenceFields } from './RecurrenceFields';
+import { describeRecurrence, EMPTY_RECURRENCE } from '../utils/recurrence';
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
 
@@ -52,6 +55,11 @@ interface ComplianceRequirement {
   completed_by: string | null;
   status: string;
   notes: string | null;
+  recurrence_rule: string | null;
+  recurrence_start: string | null;
+  recurrence_offset_days: number;
+  recurrence_parent_id: string | null;
+  recurrence_date: string | null;
 }
 
 export function ComplianceTab({ grantId }: ComplianceTabProps) {
@@ -71,6 +79,7 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
     documentation_required: false,
     is_critical: false,
     notes: '',
+    ...EMPTY_RECURRENCE,
   });
 
   const { data, isLoading, error } = useQuery({
@@ -102,6 +111,9 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
         documentation_required: requirement.documentation_required,
         is_critical: requirement.is_critical,
         notes: requirement.notes || '',
+        recurrence_rule: requirement.recurrence_rule,
+        recurrence_start: requirement.recurrence_start,
+        recurrence_offset_days: requirement.recurrence_offset_days || 0,
       });
     } else {
       setEditingRequirement(null);
@@ -115,6 +127,7 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
         documentation_required: false,
         is_critical: false,
         notes: '',
+        ...EMPTY_RECURRENCE,
       });
     }
     setModalOpen(true);
@@ -146,6 +159,14 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
         documentation_required: formData.documentation_required,
         is_critical: formData.is_critical,
         notes: formData.notes || null,
+        // Occurrences follow the schedule of the requirement that generated them
+        ...(editingRequirement?.recurrence_parent_id
+          ? {}
+          : {
+              recurrence_rule: formData.recurrence_rule,
+              recurrence_start: formData.recurrence_start,
+              recurrence_offset_days: formData.recurrence_offset_days,
+            }),
       };
 
       const url = editingRequirement
@@ -161,7 +182,10 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
         body: JSON.stringify(payload),
       });
 
-      if (!response.ok) throw new Error('Failed to save requirement');
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to save requirement');
+      }
 
       notifications.show({
         title: 'Success',
@@ -514,6 +538,22 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
                               </Text>
                             </Group>
                             <Group gap="xs">
+                              {req.recurrence_rule && (
+                                <Badge
+                                  color="grape"
+                                  variant="light"
+                                  size="sm"
+                                  leftSection={<IconRepeat size={12} />}
+                                  title={describeRecurrence(req.recurrence_rule, req.recurrence_offset_days) || undefined}
+                                >
+                                  Repeats
+                                </Badge>
+                              )}
+                              {req.recurrence_parent_id && req.recurrence_date && (
+                                <Badge color="grape" variant="outline" size="sm">
+                                  Period ending {dayjs(req.recurrence_date).format('MMM D, YYYY')}
+                                </Badge>
+                              )}
                               <Badge color={status.color} variant="light" size="sm">
                                 {status.label}
                               </Badge>
@@ -680,6 +720,22 @@ export function ComplianceTab({ grantId }: ComplianceTabProps) {
             clearable
           />
 
+          {editingRequirement?.recurrence_parent_id ? (
+            <Text size="xs" c="dimmed">
+              Part of a repeating series. Change the schedule on the series&apos; first requirement.
+            </Text>
+          ) : (
+            <RecurrenceFields
+              value={{
+                recurrence_rule: formData.recurrence_rule,
+                recurrence_start: formData.recurrence_start,
+                recurrence_offset_days: formData.recurrence_offset_days,
+              }}
+              onChange={(recurrence) => setFormData({ ...formData, ...recurrence })}
+              description="The due date follows the schedule. Later occurrences are added as they come up."
+            />
+          )}
+
           <Switch
             label="Documentation Required"
             checked={formData.documentation_required}
@@ -45,6 +45,7 @@ import { printGrantBrief } from "../utils/printGrant";
 import { stripHtml } from "../utils/htmlUtils";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { usePipelineStages } from '../hooks/usePipelineStages';
 
 interface Grant {
   id: string;
@@ -59,6 +60,7 @@ interface Grant {
   internal_deadline: string | null;
   description: string | null;
   status: string;
+  pipeline_id?: string;
   priority: string | null;
   notes: string | null;
   org_id: string;
@@ -91,6 +93,7 @@ export function GrantDetailDrawer({
 }: GrantDetailDrawerProps) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { stages } = usePipelineStages(grant?.pipeline_id);
   const [activeTab, setActiveTab] = useState<string | null>("tasks");
   const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [notesValue, setNotesValue] = useState("");
@@ -395,12 +398,7 @@ export function GrantDetailDrawer({
                   updateGrantMutation.mutate({ field: 'status', value });
                 }
               }}
-              data={[
-                { value: 'researching', label: 'Researching' },
-                { value: 'drafting', label: 'Drafting' },
-                { value: 'submitted', label: 'Submitted' },
-                { value: 'awarded', label: 'Awarded' },
-              ]}
+              data={stages.map((stage) => ({ value: stage.key, label: stage.label }))}
               size="xs"
               w={130}
               styles={{
@@ -42,6 +42,8 @@ interface ImportWizardProps {
   opened: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // Pipeline the grants are imported into; the default pipeline otherwise
+  pipelineId?: string | null;
 }
 
 interface ImportState {
@@ -54,7 +56,7 @@ interface ImportState {
   importProgress: number;
 }
 
-export function ImportWizard({ opened, onClose, onSuccess }: ImportWizardProps) {
+export function ImportWizard({ opened, onClose, onSuccess, pipelineId }: ImportWizardProps) {
   const { currentOrg } = useOrganization();
   const { user } = useAuth();
   const [active, setActive] = useState(0);
@@ -186,6 +188,7 @@ export function ImportWizard({ opened, onClose, onSuccess }: ImportWizardProps)
           grants: validRows,
           org_id: validRows[0]?.org_id,
           user_id: validRows[0]?.user_id,
+          pipeline_id: pipelineId || undefined,
         }),
       });
 
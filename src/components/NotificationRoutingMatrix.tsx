@@ -0,0 +1,307 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Button,
+  Center,
+  Checkbox,
+  Divider,
+  Group,
+  Loader,
+  Paper,
+  SegmentedControl,
+  Select,
+  SimpleGrid,
+  Stack,
+  Switch,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+} from '../utils/notificationPreferencesApi';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  type NotificationChannel,
+  type DigestFrequency,
+  type NotificationDelivery,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '../types/notificationPreferences';
+
+interface NotificationRoutingMatrixProps {
+  orgId: string;
+}
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'in_app', label: 'In-app' },
+  { key: 'slack', label: 'Slack' },
+  { key: 'teams', label: 'Teams' },
+];
+
+const DIGEST_HOURS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: `${String(hour).padStart(2, '0')}:00`,
+}));
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone').map((zone) => ({
+  value: zone,
+  label: zone.replace(/_/g, ' '),
+}));
+
+/**
+ * The signed-in user's own routing of each kind of notification to email,
+ * in-app, Slack and Teams, with digest delivery and quiet hours
+ */
+export function NotificationRoutingMatrix({ orgId }: NotificationRoutingMatrixProps) {
+  const queryClient = useQueryClient();
+  // Unsaved edits; null while the form matches what is stored
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notificationPreferences', orgId],
+    queryFn: () => fetchNotificationPreferences(orgId),
+  });
+
+  const preferences = draft || data?.preferences;
+  const channels = data?.channels;
+
+  const saveMutation = useMutation({
+    mutationFn: (updates: NotificationPreferences) =>
+      updateNotificationPreferences(orgId, {
+        routes: updates.routes,
+        quiet_hours_start: updates.quiet_hours_start,
+        quiet_hours_end: updates.quiet_hours_end,
+        timezone: updates.timezone,
+        digest_frequency: updates.digest_frequency,
+        digest_hour: updates.digest_hour,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notificationPreferences', orgId] });
+      setDraft(null);
+      notifications.show({
+        title: 'Preferences saved',
+        message: 'Your notifications will follow the new routing.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const channelAvailable = useMemo(
+    () => ({
+      email: true,
+      in_app: true,
+      slack: !!channels?.slack,
+      teams: !!channels?.teams,
+    }),
+    [channels],
+  );
+
+  if (isLoading || !preferences) {
+    return (
+      <Paper p="md" withBorder>
+        <Center py="lg">
+          <Loader size="sm" />
+        </Center>
+      </Paper>
+    );
+  }
+
+  const setChannel = (event: NotificationEventType, channel: NotificationChannel, on: boolean) => {
+    setDraft({
+      ...preferences,
+      routes: {
+        ...preferences.routes,
+        [event]: { ...preferences.routes[event], [channel]: on },
+      },
+    });
+  };
+
+  const setDelivery = (event: NotificationEventType, delivery: NotificationDelivery) => {
+    setDraft({
+      ...preferences,
+      routes: { ...preferences.routes, [event]: { ...preferences.routes[event], delivery } },
+    });
+  };
+
+  const quietHoursOn = !!(preferences.quiet_hours_start || preferences.quiet_hours_end);
+  const quietHoursIncomplete =
+    quietHoursOn && (!preferences.quiet_hours_start || !preferences.quiet_hours_end);
+
+  return (
+    <Paper p="md" withBorder>
+      <Stack gap="md">
+        <div>
+          <Title order={3} size="h4" mb="xs">
+            My Notifications
+          </Title>
+          <Text size="sm" c="dimmed">
+            Choose where each kind of notification reaches you. These preferences are yours alone;
+            the organization settings below decide which deadline reminders are sent at all.
+          </Text>
+        </div>
+
+        <Divider />
+
+        <Table.ScrollContainer minWidth={600}>
+          <Table verticalSpacing="xs">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Notification</Table.Th>
+                {CHANNELS.map((channel) => (
+                  <Table.Th key={channel.key} ta="center">
+                    {channel.label}
+                  </Table.Th>
+                ))}
+                <Table.Th>Delivery</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {NOTIFICATION_EVENT_TYPES.map((event) => {
+                const route = preferences.routes[event];
+
+                return (
+                  <Table.Tr key={event}>
+                    <Table.Td>
+                      <Text size="sm">{NOTIFICATION_EVENT_LABELS[event]}</Text>
+                    </Table.Td>
+                    {CHANNELS.map((channel) => (
+                      <Table.Td key={channel.key}>
+                        <Center>
+                          <Tooltip
+                            label={`${channel.label} is not connected for this organization`}
+                            disabled={channelAvailable[channel.key]}
+                          >
+                            <Checkbox
+                              aria-label={`${NOTIFICATION_EVENT_LABELS[event]} by ${channel.label}`}
+                              checked={route[channel.key]}
+                              onChange={(e) =>
+                                setChannel(event, channel.key, e.currentTarget.checked)
+                              }
+                              disabled={!channelAvailable[channel.key]}
+                            />
+                          </Tooltip>
+                        </Center>
+                      </Table.Td>
+                    ))}
+                    <Table.Td>
+                      <SegmentedControl
+                        size="xs"
+                        value={route.delivery}
+                        onChange={(value) => setDelivery(event, value as NotificationDelivery)}
+                        data={[
+                          { value: 'immediate', label: 'Immediately' },
+                          { value: 'digest', label: 'Digest' },
+                        ]}
+                      />
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+
+        <Text size="xs" c="dimmed">
+          Digest notifications are collected and emailed together instead of one by one; Slack and
+          Teams skip them. Same-day deadlines and approval requests still arrive right away. In-app
+          notifications are never held back.
+        </Text>
+
+        <SimpleGrid cols={{ base: 1, sm: 3 }}>
+          <Select
+            label="Send my digest"
+            data={[
+              { value: 'hourly', label: 'Hourly' },
+              { value: 'daily', label: 'Daily' },
+            ]}
+            value={preferences.digest_frequency}
+            onChange={(value) =>
+              value && setDraft({ ...preferences, digest_frequency: value as DigestFrequency })
+            }
+            allowDeselect={false}
+          />
+          {preferences.digest_frequency === 'daily' && (
+            <Select
+              label="At"
+              data={DIGEST_HOURS}
+              value={String(preferences.digest_hour)}
+              onChange={(value) =>
+                value && setDraft({ ...preferences, digest_hour: Number(value) })
+              }
+              allowDeselect={false}
+            />
+          )}
+        </SimpleGrid>
+
+        <Divider />
+
+        <Switch
+          label="Quiet hours"
+          description="No email, Slack or Teams notifications during these hours; emails wait for the next digest"
+          checked={quietHoursOn}
+          onChange={(e) =>
+            setDraft({
+              ...preferences,
+              quiet_hours_start: e.currentTarget.checked ? '22:00' : null,
+              quiet_hours_end: e.currentTarget.checked ? '07:00' : null,
+            })
+          }
+        />
+
+        <SimpleGrid cols={{ base: 1, sm: 3 }}>
+          <TextInput
+            type="time"
+            label="From"
+            value={preferences.quiet_hours_start || ''}
+            onChange={(e) =>
+              setDraft({ ...preferences, quiet_hours_start: e.currentTarget.value || null })
+            }
+            disabled={!quietHoursOn}
+          />
+          <TextInput
+            type="time"
+            label="Until"
+            value={preferences.quiet_hours_end || ''}
+            onChange={(e) =>
+              setDraft({ ...preferences, quiet_hours_end: e.currentTarget.value || null })
+            }
+            disabled={!quietHoursOn}
+          />
+          <Select
+            label="Time zone"
+            data={TIME_ZONES}
+            value={preferences.timezone}
+            onChange={(value) => value && setDraft({ ...preferences, timezone: value })}
+            searchable
+            allowDeselect={false}
+          />
+        </SimpleGrid>
+
+        <Group justify="flex-end">
+          {draft && (
+            <Button variant="default" onClick={() => setDraft(null)}>
+              Discard
+            </Button>
+          )}
+          <Button
+            disabled={!draft || quietHoursIncomplete}
+            loading={saveMutation.isPending}
+            onClick={() => draft && saveMutation.mutate(draft)}
+          >
+            Save My Preferences
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+}
@@ -26,6 +26,7 @@ import {
 import { notifications } from '@mantine/notifications';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { usePipelineStages } from '../hooks/usePipelineStages';
 import {
   fetchApprovalRequests,
   approveOrRejectRequest,
@@ -35,7 +36,6 @@ import {
   formatTransitionLabel,
   getApprovalProgress,
   isRequestExpired,
-  getStageColor,
 } from '../types/approvals';
 
 interface ApprovalActionModalProps {
@@ -46,6 +46,7 @@ interface ApprovalActionModalProps {
 
 function ApprovalActionModal({ request, opened, onClose }: ApprovalActionModalProps) {
   const queryClient = useQueryClient();
+  const { getStageLabel, getStageColor } = usePipelineStages();
   const [decision, setDecision] = useState<ApprovalDecision>('approved');
   const [comments, setComments] = useState('');
 
@@ -113,9 +114,13 @@ function ApprovalActionModal({ request, opened, onClose }: ApprovalActionModalPr
                 Transition
               </Text>
               <Group gap="xs">
-                <Badge color={getStageColor(request.from_stage)}>{request.from_stage}</Badge>
+                <Badge color={getStageColor(request.from_stage)}>
+                  {getStageLabel(request.from_stage)}
+                </Badge>
                 <IconChevronRight size={14} />
-                <Badge color={getStageColor(request.to_stage)}>{request.to_stage}</Badge>
+                <Badge color={getStageColor(request.to_stage)}>
+                  {getStageLabel(request.to_stage)}
+                </Badge>
               </Group>
             </Group>
             <Group justify="space-between">
@@ -227,6 +232,7 @@ interface ApprovalRequestCardProps {
 }
 
 function ApprovalRequestCard({ request, canApprove, onAction }: ApprovalRequestCardProps) {
+  const { getStageLabel } = usePipelineStages();
   const expired = isRequestExpired(request);
   const progress = getApprovalProgress(request);
 
@@ -250,7 +256,7 @@ function ApprovalRequestCard({ request, canApprove, onAction }: ApprovalRequestC
                 {request.grant?.title || 'Unknown Grant'}
               </Text>
               <Text size="xs" c="dimmed">
-                {formatTransitionLabel(request.from_stage, request.to_stage)}
+                {formatTransitionLabel(request.from_stage, request.to_stage, getStageLabel)}
               </Text>
             </div>
           </Group>
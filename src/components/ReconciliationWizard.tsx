@@ -0,0 +1,630 @@
+import { useMemo, useState } from 'react';
+import {
+  Modal,
+  Stepper,
+  Button,
+  Group,
+  Stack,
+  Text,
+  Select,
+  FileButton,
+  Table,
+  Alert,
+  Badge,
+  Card,
+  ScrollArea,
+  SegmentedControl,
+  Pagination,
+} from '@mantine/core';
+import {
+  IconUpload,
+  IconCheck,
+  IconAlertCircle,
+  IconColumns,
+  IconListCheck,
+} from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import dayjs from 'dayjs';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { parseCSV, detectDelimiter, readFileAsText, type ParseResult } from '../utils/csvParser';
+import { detectStatementColumns, parseStatement } from '../utils/statementParser';
+import { applyReconciliation, suggestReconciliationMatches } from '../utils/reconciliationApi';
+import type {
+  MatchSuggestions,
+  ReconciliationCandidate,
+  ReconciliationResult,
+  StatementColumns,
+  StatementRow,
+} from '../types/reconciliation';
+
+interface ReconciliationWizardProps {
+  opened: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type ReviewFilter = 'all' | 'matched' | 'unmatched';
+
+const ROWS_PER_PAGE = 50;
+
+const COLUMN_FIELDS: Array<{ field: keyof StatementColumns; label: string; description: string }> =
+  [
+    { field: 'date', label: 'Date', description: 'Transaction or posting date' },
+    { field: 'amount', label: 'Amount', description: 'Signed amount, negative for money out' },
+    { field: 'money_in', label: 'Money in', description: 'Deposits or credits' },
+    { field: 'money_out', label: 'Money out', description: 'Withdrawals or debits' },
+    { field: 'description', label: 'Description', description: 'Payee, memo or narrative' },
+    { field: 'reference', label: 'Reference', description: 'Check number or transaction ID' },
+  ];
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function candidateKey(candidate: { kind: string; id: string }): string {
+  return `${candidate.kind}:${candidate.id}`;
+}
+
+function candidateLabel(candidate: ReconciliationCandidate): string {
+  const kind =
+    candidate.kind === 'payment_schedule' ? 'Scheduled payment' : candidate.type.replace('_', ' ');
+  return [
+    dayjs(candidate.date).format('MMM D'),
+    formatCurrency(Math.abs(candidate.amount)),
+    candidate.grant_title,
+    `${kind}: ${candidate.description}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+// Whether money moving the row's way can settle the candidate
+function sameDirection(row: StatementRow, candidate: ReconciliationCandidate): boolean {
+  return candidate.either_direction || Math.sign(row.amount) === Math.sign(candidate.amount);
+}
+
+export function ReconciliationWizard({ opened, onClose, onSuccess }: ReconciliationWizardProps) {
+  const { currentOrg } = useOrganization();
+  const [active, setActive] = useState(0);
+  const [file, setFile] = useState<File | null>(null);
+  const [csvData, setCsvData] = useState<ParseResult | null>(null);
+  const [columns, setColumns] = useState<StatementColumns | null>(null);
+  const [statementRows, setStatementRows] = useState<StatementRow[]>([]);
+  const [suggestions, setSuggestions] = useState<MatchSuggestions | null>(null);
+  // Candidate key chosen for each statement row
+  const [selections, setSelections] = useState<Record<number, string | null>>({});
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [page, setPage] = useState(1);
+  const [matching, setMatching] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+
+  const candidatesByKey = useMemo(
+    () =>
+      new Map(
+        (suggestions?.candidates || []).map((candidate) => [candidateKey(candidate), candidate]),
+      ),
+    [suggestions],
+  );
+
+  // Step 1: File Upload
+  const handleFileSelect = async (selected: File | null) => {
+    if (!selected) {
+      return;
+    }
+
+    try {
+      const content = await readFileAsText(selected);
+      const parsed = parseCSV(content, detectDelimiter(content));
+
+      if (parsed.headers.length === 0) {
+        throw new Error(parsed.errors[0] || 'No headers found in CSV');
+      }
+
+      if (parsed.errors.length > 0) {
+        notifications.show({
+          title: 'CSV Parse Warnings',
+          message: parsed.errors.slice(0, 5).join('\n'),
+          color: 'yellow',
+        });
+      }
+
+      setFile(selected);
+      setCsvData(parsed);
+      setColumns(detectStatementColumns(parsed.headers));
+      setActive(1);
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to parse CSV',
+        color: 'red',
+      });
+    }
+  };
+
+  // Step 2: Columns
+  const hasAmountColumns =
+    !!columns && (!!columns.amount || !!columns.money_in || !!columns.money_out);
+
+  const handleColumnChange = (field: keyof StatementColumns, header: string | null) => {
+    setColumns((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const next = { ...prev, [field]: header };
+      // A signed amount column replaces the in/out columns and vice versa
+      if (field === 'amount' && header) {
+        next.money_in = null;
+        next.money_out = null;
+      }
+      if ((field === 'money_in' || field === 'money_out') && header) {
+        next.amount = null;
+      }
+      return next;
+    });
+  };
+
+  const handleSwapInOut = () => {
+    setColumns((prev) => prev && { ...prev, money_in: prev.money_out, money_out: prev.money_in });
+  };
+
+  const handleMatch = async () => {
+    if (!currentOrg || !csvData || !columns) {
+      return;
+    }
+
+    const parsed = parseStatement(csvData.rows, columns);
+
+    if (parsed.errors.length > 0) {
+      notifications.show({
+        title: `${parsed.errors.length} rows skipped`,
+        message: parsed.errors.slice(0, 5).join('\n'),
+        color: 'yellow',
+      });
+    }
+
+    if (parsed.rows.length === 0) {
+      notifications.show({
+        title: 'Nothing to reconcile',
+        message: 'No rows with a date and amount were found. Check the column mapping.',
+        color: 'red',
+      });
+      return;
+    }
+
+    setMatching(true);
+    try {
+      const matched = await suggestReconciliationMatches(currentOrg.id, parsed.rows);
+      setStatementRows(parsed.rows);
+      setSuggestions(matched);
+      setSelections(
+        Object.fromEntries(matched.matches.map((match) => [match.row, candidateKey(match)])),
+      );
+      setFilter('all');
+      setPage(1);
+      setActive(2);
+    } catch (error) {
+      notifications.show({
+        title: 'Matching Error',
+        message: error instanceof Error ? error.message : 'Failed to match statement rows',
+        color: 'red',
+      });
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  // Step 3: Review
+  const suggestedByRow = useMemo(
+    () => new Map((suggestions?.matches || []).map((match) => [match.row, match])),
+    [suggestions],
+  );
+  const selectedKeys = useMemo(
+    () => new Set(Object.values(selections).filter((key): key is string => !!key)),
+    [selections],
+  );
+  const matchedCount = selectedKeys.size;
+  const filteredRows = statementRows.filter((row) =>
+    filter === 'all' ? true : filter === 'matched' ? !!selections[row.row] : !selections[row.row],
+  );
+  const pageRows = filteredRows.slice((page - 1) * ROWS_PER_PAGE, page * ROWS_PER_PAGE);
+  const unmatchedRecords = (suggestions?.unmatched_candidates || [])
+    .filter((key) => !selectedKeys.has(key))
+    .map((key) => candidatesByKey.get(key))
+    .filter((candidate): candidate is ReconciliationCandidate => !!candidate);
+
+  // Suggestions without a reference or a close date that are still selected
+  const mediumMatches = (suggestions?.matches || []).filter(
+    (match) => match.confidence === 'medium' && selections[match.row] === candidateKey(match),
+  );
+
+  const handleClearMedium = () => {
+    setSelections((prev) => ({
+      ...prev,
+      ...Object.fromEntries(mediumMatches.map((match) => [match.row, null])),
+    }));
+  };
+
+  const candidateOptions = (row: StatementRow) => {
+    const current = selections[row.row];
+    return (suggestions?.candidates || [])
+      .filter(
+        (candidate) =>
+          sameDirection(row, candidate) &&
+          (candidateKey(candidate) === current || !selectedKeys.has(candidateKey(candidate))),
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(Math.abs(a.amount) - Math.abs(row.amount)) -
+            Math.abs(Math.abs(b.amount) - Math.abs(row.amount)) ||
+          Math.abs(dayjs(a.date).diff(row.date, 'day')) -
+            Math.abs(dayjs(b.date).diff(row.date, 'day')),
+      )
+      .slice(0, 50)
+      .map((candidate) => ({ value: candidateKey(candidate), label: candidateLabel(candidate) }));
+  };
+
+  const handleApply = async () => {
+    if (!currentOrg || !file) {
+      return;
+    }
+
+    setApplying(true);
+    try {
+      const applied = await applyReconciliation({
+        org_id: currentOrg.id,
+        file_name: file.name,
+        rows: statementRows,
+        matches: Object.entries(selections).flatMap(([row, key]) => {
+          const candidate = key ? candidatesByKey.get(key) : undefined;
+          return candidate ? [{ row: Number(row), kind: candidate.kind, id: candidate.id }] : [];
+        }),
+      });
+
+      setResult(applied);
+      setActive(3);
+      onSuccess();
+    } catch (error) {
+      notifications.show({
+        title: 'Reconciliation Error',
+        message: error instanceof Error ? error.message : 'Failed to reconcile',
+        color: 'red',
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleClose = () => {
+    setActive(0);
+    setFile(null);
+    setCsvData(null);
+    setColumns(null);
+    setStatementRows([]);
+    setSuggestions(null);
+    setSelections({});
+    setResult(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      title="Reconcile Bank Statement"
+      size="90%"
+      closeOnClickOutside={false}
+    >
+      <Stepper active={active}>
+        {/* Step 1: Upload */}
+        <Stepper.Step label="Upload" description="Select CSV file" icon={<IconUpload size={18} />}>
+          <Stack gap="md" py="md">
+            <Alert icon={<IconAlertCircle size={16} />} color="blue">
+              <Text size="sm">
+                Upload a CSV export from your bank or general ledger. Each row is matched to
+                unreconciled expenses and payments across your grants, and to scheduled payments
+                that haven&apos;t arrived yet.
+              </Text>
+            </Alert>
+
+            <Card withBorder>
+              <Stack gap="md">
+                <FileButton onChange={handleFileSelect} accept=".csv,.txt">
+                  {(props) => (
+                    <Button {...props} fullWidth leftSection={<IconUpload size={16} />}>
+                      Choose CSV File
+                    </Button>
+                  )}
+                </FileButton>
+
+                {file && (
+                  <Alert color="green" icon={<IconCheck size={16} />}>
+                    <Group justify="space-between">
+                      <div>
+                        <Text size="sm" fw={500}>
+                          {file.name}
+                        </Text>
+                        <Text size="xs" c="dimmed">
+                          {csvData?.rows.length || 0} rows found
+                        </Text>
+                      </div>
+                      <Button onClick={() => setActive(1)}>Continue</Button>
+                    </Group>
+                  </Alert>
+                )}
+              </Stack>
+            </Card>
+          </Stack>
+        </Stepper.Step>
+
+        {/* Step 2: Columns */}
+        <Stepper.Step label="Columns" description="Match columns" icon={<IconColumns size={18} />}>
+          <Stack gap="md" py="md">
+            <Text size="sm">
+              Choose the statement column for each field. Use either a signed amount or separate
+              money in and money out columns.
+            </Text>
+
+            {csvData && columns && (
+              <Table>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Field</Table.Th>
+                    <Table.Th>CSV Column</Table.Th>
+                    <Table.Th>Sample Value</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {COLUMN_FIELDS.map(({ field, label, description }) => (
+                    <Table.Tr key={field}>
+                      <Table.Td>
+                        <Text size="sm" fw={500}>
+                          {label}
+                          {field === 'date' && ' *'}
+                        </Text>
+                        <Text size="xs" c="dimmed">
+                          {description}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Select
+                          size="xs"
+                          placeholder="Not in this file"
+                          data={csvData.headers}
+                          value={columns[field]}
+                          onChange={(value) => handleColumnChange(field, value)}
+                          clearable
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="xs" c="dimmed" lineClamp={1}>
+                          {csvData.rows[0]?.[columns[field] ?? ''] || '—'}
+                        </Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+
+            {columns && (columns.money_in || columns.money_out) && (
+              <Group gap="xs">
+                <Button variant="subtle" size="xs" onClick={handleSwapInOut}>
+                  Swap money in and money out
+                </Button>
+                <Text size="xs" c="dimmed">
+                  General-ledger exports of a cash account record money in as debits.
+                </Text>
+              </Group>
+            )}
+
+            <Group justify="space-between">
+              <Button variant="subtle" onClick={() => setActive(0)}>
+                Back
+              </Button>
+              <Button
+                onClick={handleMatch}
+                loading={matching}
+                disabled={!columns?.date || !hasAmountColumns}
+              >
+                Find Matches
+              </Button>
+            </Group>
+          </Stack>
+        </Stepper.Step>
+
+        {/* Step 3: Review */}
+        <Stepper.Step
+          label="Review"
+          description="Confirm matches"
+          icon={<IconListCheck size={18} />}
+        >
+          <Stack gap="md" py="md">
+            <Group justify="space-between">
+              <Group gap="xs">
+                <Badge color="green" size="lg">
+                  {matchedCount} Matched
+                </Badge>
+                <Badge color="gray" size="lg">
+                  {statementRows.length - matchedCount} Unmatched
+                </Badge>
+              </Group>
+              <SegmentedControl
+                size="xs"
+                value={filter}
+                onChange={(value) => {
+                  setFilter(value as ReviewFilter);
+                  setPage(1);
+                }}
+                data={[
+                  { label: 'All rows', value: 'all' },
+                  { label: 'Matched', value: 'matched' },
+                  { label: 'Unmatched', value: 'unmatched' },
+                ]}
+              />
+            </Group>
+
+            <ScrollArea h={420}>
+              <Table striped fz="xs">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Row</Table.Th>
+                    <Table.Th>Date</Table.Th>
+                    <Table.Th>Description</Table.Th>
+                    <Table.Th ta="right">Amount</Table.Th>
+                    <Table.Th w="45%">Matched Record</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {pageRows.map((row) => {
+                    const selectedKey = selections[row.row];
+                    const selected = selectedKey ? candidatesByKey.get(selectedKey) : undefined;
+                    const suggested = suggestedByRow.get(row.row);
+                    const difference = selected
+                      ? Math.abs(row.amount) - Math.abs(selected.amount)
+                      : 0;
+
+                    return (
+                      <Table.Tr key={row.row}>
+                        <Table.Td c="dimmed">{row.row}</Table.Td>
+                        <Table.Td>{dayjs(row.date).format('MMM D, YYYY')}</Table.Td>
+                        <Table.Td>
+                          <Text size="xs" lineClamp={1}>
+                            {row.description || '—'}
+                          </Text>
+                          {row.reference && (
+                            <Text size="xs" c="dimmed">
+                              Ref {row.reference}
+                            </Text>
+                          )}
+                        </Table.Td>
+                        <Table.Td ta="right" c={row.amount < 0 ? undefined : 'green'}>
+                          {formatCurrency(row.amount)}
+                        </Table.Td>
+                        <Table.Td>
+                          <Group gap={6} wrap="nowrap">
+                            <Select
+                              size="xs"
+                              style={{ flex: 1 }}
+                              placeholder="No match"
+                              data={candidateOptions(row)}
+                              value={selectedKey || null}
+                              onChange={(value) =>
+                                setSelections((prev) => ({ ...prev, [row.row]: value }))
+                              }
+                              searchable
+                              clearable
+                            />
+                            {selected && suggested && selectedKey === candidateKey(suggested) && (
+                              <Badge
+                                size="xs"
+                                variant="light"
+                                color={suggested.confidence === 'high' ? 'green' : 'yellow'}
+                              >
+                                {suggested.reference_matched ? 'Reference' : suggested.confidence}
+                              </Badge>
+                            )}
+                          </Group>
+                          {selected && Math.abs(difference) >= 0.005 && (
+                            <Text size="xs" c="red" mt={2}>
+                              Differs from the record by {formatCurrency(difference)}
+                            </Text>
+                          )}
+                        </Table.Td>
+                      </Table.Tr>
+                    );
+                  })}
+                </Table.Tbody>
+              </Table>
+            </ScrollArea>
+
+            {filteredRows.length > ROWS_PER_PAGE && (
+              <Group justify="center">
+                <Pagination
+                  size="sm"
+                  total={Math.ceil(filteredRows.length / ROWS_PER_PAGE)}
+                  value={page}
+                  onChange={setPage}
+                />
+              </Group>
+            )}
+
+            {unmatchedRecords.length > 0 && (
+              <Alert icon={<IconAlertCircle size={16} />} color="yellow" variant="light">
+                <Text size="sm" fw={500} mb={4}>
+                  {unmatchedRecords.length} recorded{' '}
+                  {unmatchedRecords.length === 1 ? 'item is' : 'items are'} dated within this
+                  statement but not on it
+                </Text>
+                <Stack gap={2}>
+                  {unmatchedRecords.slice(0, 10).map((candidate) => (
+                    <Text key={candidateKey(candidate)} size="xs">
+                      {candidateLabel(candidate)}
+                    </Text>
+                  ))}
+                  {unmatchedRecords.length > 10 && (
+                    <Text size="xs" c="dimmed">
+                      ...and {unmatchedRecords.length - 10} more
+                    </Text>
+                  )}
+                </Stack>
+              </Alert>
+            )}
+
+            <Group justify="space-between">
+              <Group gap="xs">
+                <Button variant="subtle" onClick={() => setActive(1)}>
+                  Back to Columns
+                </Button>
+                {mediumMatches.length > 0 && (
+                  <Button variant="subtle" color="gray" onClick={handleClearMedium}>
+                    Clear {mediumMatches.length} medium-confidence{' '}
+                    {mediumMatches.length === 1 ? 'match' : 'matches'}
+                  </Button>
+                )}
+              </Group>
+              <Button onClick={handleApply} loading={applying} disabled={matchedCount === 0}>
+                Reconcile {matchedCount} {matchedCount === 1 ? 'Match' : 'Matches'}
+              </Button>
+            </Group>
+          </Stack>
+        </Stepper.Step>
+
+        <Stepper.Completed>
+          <Stack align="center" gap="md" py="xl">
+            <IconCheck size={48} color="green" />
+            <Text size="lg" fw={500}>
+              Reconciliation Complete
+            </Text>
+            {result && (
+              <Stack gap={4} align="center">
+                <Text size="sm">
+                  {result.reconciled} {result.reconciled === 1 ? 'disbursement' : 'disbursements'}{' '}
+                  reconciled
+                  {result.payments_recorded > 0 &&
+                    `, ${result.payments_recorded} scheduled ${
+                      result.payments_recorded === 1 ? 'payment' : 'payments'
+                    } recorded as received`}
+                </Text>
+                <Text size="sm" c="dimmed">
+                  {result.reconciliation.row_count - result.reconciliation.matched_count} statement
+                  rows left unmatched
+                </Text>
+                {result.skipped.length > 0 && (
+                  <Alert icon={<IconAlertCircle size={16} />} color="yellow" mt="sm">
+                    {result.skipped.map((skip) => (
+                      <Text key={skip.row} size="xs">
+                        Row {skip.row}: {skip.reason}
+                      </Text>
+                    ))}
+                  </Alert>
+                )}
+              </Stack>
+            )}
+            <Button onClick={handleClose}>Close</Button>
+          </Stack>
+        </Stepper.Completed>
+      </Stepper>
+    </Modal>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Group, NumberInput, Select, Stack, Text, TextInput } from '@mantine/core';
+import {
+  RECURRENCE_PRESETS,
+  buildRecurrenceRule,
+  splitRecurrenceRule,
+  type RecurrenceEnd,
+  type RecurrencePreset,
+  type RecurrenceValue,
+} from '../utils/recurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+  // Shown under the schedule, e.g. to explain how occurrences are created
+  description?: string;
+}
+
+/**
+ * Repeat settings for a task or compliance requirement
+ */
+export function RecurrenceFields({ value, onChange, description }: RecurrenceFieldsProps) {
+  const [parts, setParts] = useState(() => ({
+    ...splitRecurrenceRule(value.recurrence_rule),
+    customRule: value.recurrence_rule || '',
+  }));
+
+  const update = (changes: Partial<typeof parts>, valueChanges: Partial<RecurrenceValue> = {}) => {
+    const next = { ...parts, ...changes };
+    setParts(next);
+    onChange({
+      ...value,
+      ...valueChanges,
+      recurrence_rule: buildRecurrenceRule(
+        next.preset,
+        next.end,
+        next.until,
+        next.count,
+        next.customRule,
+      ),
+    });
+  };
+
+  return (
+    <Stack gap="xs">
+      <Select
+        label="Repeats"
+        data={RECURRENCE_PRESETS.map(({ value: preset, label }) => ({ value: preset, label }))}
+        value={parts.preset}
+        onChange={(preset) => update({ preset: (preset as RecurrencePreset) || 'none' })}
+        allowDeselect={false}
+      />
+
+      {parts.preset !== 'none' && (
+        <>
+          {parts.preset === 'custom' && (
+            <TextInput
+              label="Rule"
+              description="RRULE with FREQ, INTERVAL, BYMONTHDAY, COUNT or UNTIL"
+              placeholder="FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1"
+              value={parts.customRule}
+              onChange={(event) => update({ customRule: event.currentTarget.value })}
+            />
+          )}
+          <Group grow align="flex-start">
+            <TextInput
+              label="First period ends"
+              type="date"
+              required
+              value={value.recurrence_start || ''}
+              onChange={(event) =>
+                onChange({ ...value, recurrence_start: event.currentTarget.value || null })
+              }
+            />
+            <NumberInput
+              label="Due days after period end"
+              min={-365}
+              max={365}
+              value={value.recurrence_offset_days}
+              onChange={(offset) =>
+                onChange({
+                  ...value,
+                  recurrence_offset_days: typeof offset === 'number' ? offset : 0,
+                })
+              }
+            />
+          </Group>
+          {parts.preset !== 'custom' && (
+            <Group grow align="flex-start">
+              <Select
+                label="Ends"
+                data={[
+                  { value: 'budget', label: 'When the budget period ends' },
+                  { value: 'until', label: 'On a date' },
+                  { value: 'count', label: 'After a number of periods' },
+                ]}
+                value={parts.end}
+                onChange={(end) => update({ end: (end as RecurrenceEnd) || 'budget' })}
+                allowDeselect={false}
+              />
+              {parts.end === 'until' && (
+                <TextInput
+                  label="Last period ends"
+                  type="date"
+                  value={parts.until || ''}
+                  onChange={(event) => update({ until: event.currentTarget.value || null })}
+                />
+              )}
+              {parts.end === 'count' && (
+                <NumberInput
+                  label="Periods"
+                  min={1}
+                  max={1000}
+                  value={parts.count ?? ''}
+                  onChange={(count) => update({ count: typeof count === 'number' ? count : null })}
+                />
+              )}
+            </Group>
+          )}
+          {description && (
+            <Text size="xs" c="dimmed">
+              {description}
+            </Text>
+          )}
+        </>
+      )}
+    </Stack>
+  );
+}
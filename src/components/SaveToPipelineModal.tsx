@@ -4,13 +4,9 @@ import { useQuery } from "@tanstack/react-query";
 import { useOrganization } from "../contexts/OrganizationContext";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { supabase } from "../lib/supabase";
-
-const PIPELINE_STAGES = [
-  { value: "researching", label: "Researching" },
-  { value: "drafting", label: "Drafting" },
-  { value: "submitted", label: "Submitted" },
-  { value: "awarded", label: "Awarded" },
-];
+import { usePipelineStages } from "../hooks/usePipelineStages";
+import { usePipelines } from "../hooks/usePipelines";
+import { PipelineSelect } from "./pipeline/PipelineSelect";
 
 const PRIORITY_OPTIONS = [
   { value: "low", label: "Low" },
@@ -25,9 +21,12 @@ interface SaveToPipelineModalProps {
   onSave: (data: SaveToPipelineData) => Promise<void>;
   grantTitle: string;
   saving?: boolean;
+  // Preselected pipeline; the organization's default pipeline otherwise
+  defaultPipelineId?: string | null;
 }
 
 export interface SaveToPipelineData {
+  pipeline_id: string | null;
   status: string;
   priority: string;
   assigned_to: string | null;
@@ -39,9 +38,16 @@ export function SaveToPipelineModal({
   onSave,
   grantTitle,
   saving = false,
+  defaultPipelineId = null,
 }: SaveToPipelineModalProps) {
   const { currentOrg } = useOrganization();
-  const [status, setStatus] = useState<string>("researching");
+  const { defaultPipeline } = usePipelines();
+  // Until one is picked, grants go into the preselected or default pipeline
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
+  const targetPipelineId = pipelineId || defaultPipelineId || defaultPipeline?.id || null;
+  const { stages } = usePipelineStages(targetPipelineId);
+  // Until a stage is picked, grants go into the first open stage
+  const [status, setStatus] = useState<string | null>(null);
   const [priority, setPriority] = useState<string>("medium");
   const [assignedTo, setAssignedTo] = useState<string | null>(null);
 
@@ -68,14 +74,20 @@ export function SaveToPipelineModal({
     enabled: !!currentOrg?.id && opened,
   });
 
+  const stageOptions = stages
+    .filter((stage) => !stage.is_terminal)
+    .map((stage) => ({ value: stage.key, label: stage.label }));
+
   const handleSave = async () => {
     await onSave({
-      status,
+      pipeline_id: targetPipelineId,
+      status: status || stageOptions[0]?.value,
       priority,
       assigned_to: assignedTo,
     });
     // Reset form
-    setStatus("researching");
+    setPipelineId(null);
+    setStatus(null);
     setPriority("medium");
     setAssignedTo(null);
     onClose();
@@ -83,7 +95,8 @@ export function SaveToPipelineModal({
 
   const handleClose = () => {
     // Reset form on close
-    setStatus("researching");
+    setPipelineId(null);
+    setStatus(null);
     setPriority("medium");
     setAssignedTo(null);
     onClose();
@@ -102,12 +115,23 @@ export function SaveToPipelineModal({
           Configure how to save <strong>{grantTitle}</strong> to your pipeline
         </Text>
 
+        <PipelineSelect
+          description="Which pipeline should this grant be worked in?"
+          value={targetPipelineId}
+          onChange={(value) => {
+            setPipelineId(value);
+            // Stages differ between pipelines
+            setStatus(null);
+          }}
+          w="100%"
+        />
+
         <Select
           label="Pipeline Stage"
           description="Which stage is this grant in?"
-          data={PIPELINE_STAGES}
-          value={status}
-          onChange={(val) => setStatus(val || "researching")}
+          data={stageOptions}
+          value={status || stageOptions[0]?.value || null}
+          onChange={setStatus}
           required
         />
 
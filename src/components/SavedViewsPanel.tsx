@@ -24,6 +24,7 @@ import {
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import { supabase } from "../lib/supabase";
+import { usePipelines } from '../hooks/usePipelines';
 
 interface SavedView {
   id: string;
@@ -39,6 +40,8 @@ interface SavedView {
   due_in_days: number | null;
   sort_by: string;
   is_shared: boolean;
+  // null when the view is shown in every pipeline
+  pipeline_id: string | null;
   use_count: number;
   last_used_at: string | null;
   created_at: string;
@@ -57,6 +60,8 @@ interface SavedViewsPanelProps {
     sort_by: string;
   };
   onLoadView: (view: SavedView) => void;
+  // Shows this pipeline's views plus the ones for every pipeline
+  pipelineId?: string | null;
 }
 
 export function SavedViewsPanel({
@@ -64,17 +69,20 @@ export function SavedViewsPanel({
   userId,
   currentFilters,
   onLoadView,
+  pipelineId,
 }: SavedViewsPanelProps) {
   const queryClient = useQueryClient();
+  const { getPipeline } = usePipelines();
   const [saveModalOpen, setSaveModalOpen] = useState(false);
   const [viewName, setViewName] = useState("");
   const [viewDescription, setViewDescription] = useState("");
   const [isShared, setIsShared] = useState(false);
+  const [pipelineOnly, setPipelineOnly] = useState(true);
   const [saving, setSaving] = useState(false);
 
   // Fetch saved views
   const { data, isLoading } = useQuery<{ views: SavedView[] }>({
-    queryKey: ["savedViews", orgId, userId],
+    queryKey: ['savedViews', orgId, userId, pipelineId],
     queryFn: async () => {
       // Get auth token
       const { data: { session } } = await supabase.auth.getSession();
@@ -83,7 +91,7 @@ export function SavedViewsPanel({
       }
 
       const response = await fetch(
-        `/api/views?org_id=${orgId}&user_id=${userId}`,
+        `/api/views?org_id=${orgId}&user_id=${userId}${pipelineId ? `&pipeline_id=${pipelineId}` : ''}`,
         {
           headers: {
             'Authorization': `Bearer ${session.access_token}`,
@@ -140,6 +148,7 @@ export function SavedViewsPanel({
             : null,
           sort_by: currentFilters.sort_by,
           is_shared: isShared,
+          pipeline_id: pipelineId && pipelineOnly ? pipelineId : null,
         }),
       });
 
@@ -159,6 +168,7 @@ export function SavedViewsPanel({
       setViewName("");
       setViewDescription("");
       setIsShared(false);
+      setPipelineOnly(true);
     } catch (error) {
       notifications.show({
         title: "Error",
@@ -320,6 +330,11 @@ export function SavedViewsPanel({
                             </Group>
                           </Badge>
                         )}
+                        {view.pipeline_id && getPipeline(view.pipeline_id) && (
+                          <Badge size="xs" variant="outline" color={getPipeline(view.pipeline_id)?.color}>
+                            {getPipeline(view.pipeline_id)?.name}
+                          </Badge>
+                        )}
                       </Group>
                       <Text size="xs" c="dimmed" lineClamp={1}>
                         {view.description || formatViewLabel(view)}
@@ -459,6 +474,14 @@ export function SavedViewsPanel({
             checked={isShared}
             onChange={(e) => setIsShared(e.currentTarget.checked)}
           />
+          {pipelineId && (
+            <Checkbox
+              label={`Only show in ${getPipeline(pipelineId)?.name || 'this pipeline'}`}
+              description="Otherwise the view is available in every pipeline"
+              checked={pipelineOnly}
+              onChange={(e) => setPipelineOnly(e.currentTarget.checked)}
+            />
+          )}
 
           <Group justify="flex-end" gap="sm">
             <Button
@@ -21,6 +21,11 @@ import {
   IconShieldLock,
   IconShieldCheck,
   IconAlertTriangle,
+  IconKey,
+  IconListCheck,
+  IconLayoutKanban,
+  IconGitBranch,
+  IconReceipt,
 } from '@tabler/icons-react';
 import { AppHeader } from './AppHeader';
 import { NoOrganization } from './NoOrganization';
@@ -75,6 +80,36 @@ export function SettingsLayout({ children }: SettingsLayoutProps) {
       label: 'Calendar & Integrations',
       icon: IconCalendar,
     },
+    {
+      value: 'api-keys',
+      path: '/settings/api-keys',
+      label: 'API Keys',
+      icon: IconKey,
+    },
+    {
+      value: 'task-templates',
+      path: '/settings/task-templates',
+      label: 'Task Templates',
+      icon: IconListCheck,
+    },
+    {
+      value: 'pipelines',
+      path: '/settings/pipelines',
+      label: 'Pipelines',
+      icon: IconGitBranch,
+    },
+    {
+      value: 'pipeline-stages',
+      path: '/settings/pipeline-stages',
+      label: 'Pipeline Stages',
+      icon: IconLayoutKanban,
+    },
+    {
+      value: 'accounting',
+      path: '/settings/accounting',
+      label: 'Accounting',
+      icon: IconReceipt,
+    },
     {
       value: 'billing',
       path: '/settings/billing',
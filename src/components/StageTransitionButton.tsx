@@ -8,22 +8,75 @@ import {
   Alert,
   Badge,
   Group,
+  Select,
+  Text,
+  TextInput,
 } from '@mantine/core';
 import {
   IconChevronDown,
   IconCheck,
   IconLock,
   IconArrowRight,
+  IconAlertCircle,
 } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import {
-  createApprovalRequest,
-  checkTransitionRequiresApproval,
-} from '../utils/approvalsApi';
+import { createApprovalRequest, fetchWorkflows } from '../utils/approvalsApi';
+import { usePipelineStages } from '../hooks/usePipelineStages';
 import type { GrantStage } from '../types/approvals';
-import { COMMON_STAGE_TRANSITIONS, getStageLabel, getStageColor } from '../types/approvals';
+import {
+  ARCHIVED_STAGE_KEY,
+  missingRequiredFields,
+  requiredFieldLabel,
+  stagesForPipeline,
+  type PipelineStage,
+  type StageRequiredField,
+} from '../types/pipelineStages';
+
+// Required fields that can be filled in while moving the grant (see api/saved-status.ts)
+const INLINE_FIELDS: StageRequiredField[] = [
+  'assigned_to',
+  'priority',
+  'close_date',
+  'loi_deadline',
+  'internal_deadline',
+];
+
+const PRIORITY_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+type GrantFields = Record<string, unknown>;
+
+/**
+ * Save grant fields, and the stage when given, through the status endpoint
+ */
+async function updateGrant(grantId: string, updates: Record<string, string>) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`/api/saved-status?id=${grantId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update grant stage');
+  }
+}
 
 interface StageTransitionButtonProps {
   grantId: string;
@@ -36,8 +89,10 @@ interface TransitionModalProps {
   opened: boolean;
   onClose: () => void;
   grantId: string;
+  orgId: string;
+  grant: GrantFields;
   fromStage: GrantStage;
-  toStage: GrantStage;
+  toStage: PipelineStage;
   requiresApproval: boolean;
   onSuccess?: () => void;
 }
@@ -46,31 +101,64 @@ function TransitionModal({
   opened,
   onClose,
   grantId,
+  orgId,
+  grant,
   fromStage,
   toStage,
   requiresApproval,
   onSuccess,
 }: TransitionModalProps) {
   const queryClient = useQueryClient();
+  const { getStageLabel, getStageColor } = usePipelineStages();
   const [notes, setNotes] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
 
-  const directUpdateMutation = useMutation({
-    mutationFn: async () => {
-      const { error } = await (supabase
-        .from('org_grants_saved') as any)
-        .update({ status: toStage })
-        .eq('id', grantId);
+  // Fields the target stage requires that the grant doesn't have yet
+  const missing = missingRequiredFields(toStage, grant);
+  const inlineMissing = missing.filter((field) => INLINE_FIELDS.includes(field));
+  const blockingMissing = missing.filter((field) => !INLINE_FIELDS.includes(field));
+  const stillMissing = missingRequiredFields(toStage, { ...grant, ...fieldValues });
 
-      if (error) throw error;
+  const { data: teamMembers = [] } = useQuery<{ value: string; label: string }[]>({
+    queryKey: ['teamMembers', orgId],
+    queryFn: async () => {
+      const { data, error } = await (supabase.rpc as any)('get_org_team_members', {
+        org_uuid: orgId,
+      });
+
+      if (error) {
+        console.error('Failed to fetch team members:', error);
+        return [];
+      }
+
+      return (data || [])
+        .filter((member: any) => member.user_id)
+        .map((member: any) => ({
+          value: member.user_id,
+          label: member.full_name || member.email || 'Unknown User',
+        }));
     },
+    enabled: opened && inlineMissing.includes('assigned_to'),
+  });
+
+  const setField = (field: string, value: string | null) =>
+    setFieldValues((current) => ({ ...current, [field]: value || '' }));
+
+  const filledFields = () =>
+    Object.fromEntries(Object.entries(fieldValues).filter(([, value]) => value));
+
+  const directUpdateMutation = useMutation({
+    mutationFn: () => updateGrant(grantId, { ...filledFields(), status: toStage.key }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['savedGrants'] });
+      queryClient.invalidateQueries({ queryKey: ['stageTransitionGrant', grantId] });
       notifications.show({
         title: 'Success',
-        message: `Grant moved to ${getStageLabel(toStage)}`,
+        message: `Grant moved to ${toStage.label}`,
         color: 'green',
       });
       setNotes('');
+      setFieldValues({});
       onClose();
       onSuccess?.();
     },
@@ -84,9 +172,16 @@ function TransitionModal({
   });
 
   const approvalRequestMutation = useMutation({
-    mutationFn: createApprovalRequest,
+    mutationFn: async (request: Parameters<typeof createApprovalRequest>[0]) => {
+      // Required fields are saved first so the request meets the stage's requirements
+      if (Object.keys(filledFields()).length > 0) {
+        await updateGrant(grantId, filledFields());
+      }
+      return createApprovalRequest(request);
+    },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['approvalRequests'] });
+      queryClient.invalidateQueries({ queryKey: ['stageTransitionGrant', grantId] });
 
       if ('auto_approved' in result && result.auto_approved) {
         notifications.show({
@@ -104,6 +199,7 @@ function TransitionModal({
       }
 
       setNotes('');
+      setFieldValues({});
       onClose();
       onSuccess?.();
     },
@@ -121,7 +217,7 @@ function TransitionModal({
       approvalRequestMutation.mutate({
         grant_id: grantId,
         from_stage: fromStage,
-        to_stage: toStage,
+        to_stage: toStage.key,
         request_notes: notes.trim() || undefined,
       });
     } else {
@@ -133,7 +229,7 @@ function TransitionModal({
     <Modal
       opened={opened}
       onClose={onClose}
-      title={`Move to ${getStageLabel(toStage)}`}
+      title={`Move to ${toStage.label}`}
       size="md"
     >
       <Stack gap="md">
@@ -142,11 +238,57 @@ function TransitionModal({
             {getStageLabel(fromStage)}
           </Badge>
           <IconArrowRight size={20} />
-          <Badge color={getStageColor(toStage)} size="lg">
-            {getStageLabel(toStage)}
+          <Badge color={toStage.color} size="lg">
+            {toStage.label}
           </Badge>
         </Group>
 
+        {missing.length > 0 && (
+          <Stack gap="xs">
+            <Text size="sm" fw={500}>
+              {toStage.label} requires:
+            </Text>
+            {inlineMissing.map((field) =>
+              field === 'assigned_to' ? (
+                <Select
+                  key={field}
+                  label={requiredFieldLabel(field)}
+                  placeholder="Select a team member"
+                  data={teamMembers}
+                  value={fieldValues[field] || null}
+                  onChange={(value) => setField(field, value)}
+                  searchable
+                  required
+                />
+              ) : field === 'priority' ? (
+                <Select
+                  key={field}
+                  label={requiredFieldLabel(field)}
+                  data={PRIORITY_OPTIONS}
+                  value={fieldValues[field] || null}
+                  onChange={(value) => setField(field, value)}
+                  required
+                />
+              ) : (
+                <TextInput
+                  key={field}
+                  label={requiredFieldLabel(field)}
+                  type="date"
+                  value={fieldValues[field] || ''}
+                  onChange={(e) => setField(field, e.currentTarget.value)}
+                  required
+                />
+              ),
+            )}
+            {blockingMissing.length > 0 && (
+              <Alert icon={<IconAlertCircle size={16} />} color="orange" variant="light">
+                Fill in {blockingMissing.map(requiredFieldLabel).join(', ')} on the grant before
+                moving it to {toStage.label}.
+              </Alert>
+            )}
+          </Stack>
+        )}
+
         {requiresApproval ? (
           <Alert icon={<IconLock size={16} />} color="blue" variant="light">
             This stage transition requires approval. Your request will be sent to the appropriate
@@ -177,6 +319,7 @@ function TransitionModal({
           <Button
             onClick={handleSubmit}
             loading={directUpdateMutation.isPending || approvalRequestMutation.isPending}
+            disabled={stillMissing.length > 0}
           >
             {requiresApproval ? 'Request Approval' : 'Update Stage'}
           </Button>
@@ -192,41 +335,35 @@ export function StageTransitionButton({
   currentStage,
   onStageChanged,
 }: StageTransitionButtonProps) {
+  const { stages } = usePipelineStages();
   const [transitionModalOpened, setTransitionModalOpened] = useState(false);
   const [selectedTransition, setSelectedTransition] = useState<{
-    to: GrantStage;
+    to: PipelineStage;
     requiresApproval: boolean;
   } | null>(null);
 
-  // Get available transitions for current stage
-  const availableTransitions = COMMON_STAGE_TRANSITIONS.filter(
-    (t) => t.from === currentStage
-  );
+  // Workflows decide which moves need approval
+  const { data: workflows } = useQuery({
+    queryKey: ['approvalWorkflows', orgId, 'active'],
+    queryFn: () => fetchWorkflows(orgId, true),
+  });
 
-  // Check approval requirements for each transition
-  const { data: transitionsWithApproval } = useQuery({
-    queryKey: ['stageTransitions', orgId, currentStage],
+  // Current values of the fields stages can require
+  const { data: grant } = useQuery<GrantFields>({
+    queryKey: ['stageTransitionGrant', grantId],
     queryFn: async () => {
-      const results = await Promise.all(
-        availableTransitions.map(async (transition) => {
-          const { requiresApproval, workflowId } = await checkTransitionRequiresApproval(
-            orgId,
-            transition.from,
-            transition.to
-          );
-          return {
-            ...transition,
-            requiresApproval,
-            workflowId,
-          };
-        })
-      );
-      return results;
+      const { data, error } = await supabase
+        .from('org_grants_saved')
+        .select('*')
+        .eq('id', grantId)
+        .single();
+
+      if (error) throw error;
+      return data as GrantFields;
     },
-    enabled: availableTransitions.length > 0,
   });
 
-  const handleTransitionClick = (toStage: GrantStage, requiresApproval: boolean) => {
+  const handleTransitionClick = (toStage: PipelineStage, requiresApproval: boolean) => {
     setSelectedTransition({ to: toStage, requiresApproval });
     setTransitionModalOpened(true);
   };
@@ -236,10 +373,25 @@ export function StageTransitionButton({
     setSelectedTransition(null);
   };
 
-  if (!transitionsWithApproval || transitionsWithApproval.length === 0) {
+  // Every other stage of the grant's pipeline is a possible move; archiving has its own action
+  const targetStages = grant
+    ? stagesForPipeline(stages, grant.pipeline_id as string).filter(
+        (stage) => stage.key !== currentStage && stage.key !== ARCHIVED_STAGE_KEY,
+      )
+    : [];
+
+  if (!workflows || !grant || targetStages.length === 0) {
     return null;
   }
 
+  const transitions = targetStages.map((stage) => ({
+    stage,
+    requiresApproval: workflows.some(
+      (w) => w.from_stage === currentStage && w.to_stage === stage.key,
+    ),
+    missingCount: missingRequiredFields(stage, grant).length,
+  }));
+
   return (
     <>
       <Menu position="bottom-end" shadow="md">
@@ -255,9 +407,9 @@ export function StageTransitionButton({
 
         <Menu.Dropdown>
           <Menu.Label>Move to:</Menu.Label>
-          {transitionsWithApproval.map((transition) => (
+          {transitions.map((transition) => (
             <Menu.Item
-              key={transition.to}
+              key={transition.stage.key}
               leftSection={
                 transition.requiresApproval ? (
                   <IconLock size={14} />
@@ -266,15 +418,22 @@ export function StageTransitionButton({
                 )
               }
               rightSection={
-                transition.requiresApproval && (
-                  <Badge size="xs" color="blue" variant="light">
-                    Approval Required
-                  </Badge>
-                )
+                <Group gap={4} wrap="nowrap">
+                  {transition.missingCount > 0 && (
+                    <Badge size="xs" color="orange" variant="light">
+                      {transition.missingCount} required
+                    </Badge>
+                  )}
+                  {transition.requiresApproval && (
+                    <Badge size="xs" color="blue" variant="light">
+                      Approval Required
+                    </Badge>
+                  )}
+                </Group>
               }
-              onClick={() => handleTransitionClick(transition.to, transition.requiresApproval)}
+              onClick={() => handleTransitionClick(transition.stage, transition.requiresApproval)}
             >
-              {transition.label}
+              {transition.stage.label}
             </Menu.Item>
           ))}
         </Menu.Dropdown>
@@ -285,6 +444,8 @@ export function StageTransitionButton({
           opened={transitionModalOpened}
           onClose={handleCloseModal}
           grantId={grantId}
+          orgId={orgId}
+          grant={grant}
           fromStage={currentStage}
           toStage={selectedTransition.to}
           requiresApproval={selectedTransition.requiresApproval}
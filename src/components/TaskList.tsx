@@ -14,6 +14,10 @@ import {
   Menu,
   Progress,
   Box,
+  MultiSelect,
+  NumberInput,
+  Alert,
+  Tooltip,
 } from "@mantine/core";
 import {
   IconPlus,
@@ -24,12 +28,20 @@ import {
   IconUser,
   IconCheck,
   IconGripVertical,
+  IconLock,
+  IconAlertTriangle,
+  IconListCheck,
+  IconRepeat,
 } from "@tabler/icons-react";
 import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { notifications } from "@mantine/notifications";
 import dayjs from "dayjs";
 import { useAuth } from "../contexts/AuthContext";
 import { supabase } from "../lib/supabase";
+import { fetchTaskTemplates, applyTaskTemplate } from '../utils/taskTemplatesApi';
+import { formatDueOffset } from '../types/taskTemplates';
+import { RecurrenceFields } from './RecurrenceFields';
+import { describeRecurrence, EMPTY_RECURRENCE } from '../utils/recurrence';
 import {
   DndContext,
   closestCenter,
@@ -63,9 +75,37 @@ interface Task {
   position: number;
   is_required: boolean;
   notes?: string;
+  estimated_days?: number | null;
+  depends_on?: string[];
+  auto_blocked?: boolean;
+  recurrence_rule?: string | null;
+  recurrence_start?: string | null;
+  recurrence_offset_days?: number;
+  recurrence_parent_id?: string | null;
+  recurrence_date?: string | null;
   created_at: string;
 }
 
+interface TaskScheduleEntry {
+  task_id: string;
+  earliest_start: string;
+  earliest_finish: string;
+  latest_finish: string | null;
+  slack_days: number | null;
+  is_critical: boolean;
+  blocked_by: string[];
+}
+
+interface TaskSchedule {
+  deadline: string | null;
+  deadline_source: 'internal_deadline' | 'close_date' | null;
+  projected_finish: string | null;
+  slack_days: number | null;
+  critical_path: string[];
+  negative_slack_task_ids: string[];
+  tasks: TaskScheduleEntry[];
+}
+
 interface TaskListProps {
   grantId: string;
   orgId: string;
@@ -94,6 +134,8 @@ const TASK_TYPE_LABELS: Record<string, string> = {
 // SortableTaskItem component for drag-and-drop
 interface SortableTaskItemProps {
   task: Task;
+  schedule?: TaskScheduleEntry;
+  taskTitles: Record<string, string>;
   onToggleComplete: (task: Task) => void;
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
@@ -102,6 +144,8 @@ interface SortableTaskItemProps {
 
 function SortableTaskItem({
   task,
+  schedule,
+  taskTitles,
   onToggleComplete,
   onEdit,
   onDelete,
@@ -183,12 +227,57 @@ function SortableTaskItem({
               Done
             </Badge>
           )}
+          {task.status === 'blocked' && (
+            <Badge size="xs" color="orange" variant="light" leftSection={<IconLock size={12} />}>
+              Blocked
+            </Badge>
+          )}
+          {task.recurrence_rule && (
+            <Tooltip label={describeRecurrence(task.recurrence_rule, task.recurrence_offset_days ?? 0)}>
+              <Badge size="xs" color="cyan" variant="light" leftSection={<IconRepeat size={12} />}>
+                Repeats
+              </Badge>
+            </Tooltip>
+          )}
+          {task.recurrence_parent_id && task.recurrence_date && (
+            <Badge size="xs" color="cyan" variant="light" leftSection={<IconRepeat size={12} />}>
+              Period ending {dayjs(task.recurrence_date).format('MMM D, YYYY')}
+            </Badge>
+          )}
+          {schedule?.is_critical && (
+            <Tooltip
+              label={
+                schedule.latest_finish
+                  ? `Must finish by ${dayjs(schedule.latest_finish).format('MMM D')} to keep the grant on schedule`
+                  : 'On the critical path'
+              }
+            >
+              <Badge size="xs" color="grape" variant="light">
+                Critical path
+              </Badge>
+            </Tooltip>
+          )}
+          {schedule && schedule.slack_days !== null && schedule.slack_days < 0 && (
+            <Badge
+              size="xs"
+              color="red"
+              variant="filled"
+              leftSection={<IconAlertTriangle size={12} />}
+            >
+              {Math.abs(schedule.slack_days)}d behind
+            </Badge>
+          )}
         </Group>
         {task.description && (
           <Text size="xs" c="dimmed">
             {task.description}
           </Text>
         )}
+        {schedule && schedule.blocked_by.length > 0 && (
+          <Text size="xs" c="orange">
+            Waiting on {schedule.blocked_by.map((id) => taskTitles[id] || 'another task').join(', ')}
+          </Text>
+        )}
         <Group gap="md">
           {task.due_date && (
             <Group gap={4}>
@@ -246,12 +335,17 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
   const queryClient = useQueryClient();
   const [addModalOpened, setAddModalOpened] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [templateModalOpened, setTemplateModalOpened] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
   const [newTask, setNewTask] = useState({
     title: "",
     description: "",
     task_type: "custom",
     due_date: "",
     assigned_to: "",
+    estimated_days: null as number | null,
+    depends_on: [] as string[],
+    ...EMPTY_RECURRENCE,
   });
 
   // Set up drag-and-drop sensors
@@ -300,13 +394,52 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
     },
   });
 
+  // Templates that match this grant come first
+  const { data: templates = [] } = useQuery({
+    queryKey: ['taskTemplates', orgId, grantId],
+    queryFn: () => fetchTaskTemplates(orgId, grantId),
+    enabled: templateModalOpened,
+  });
+  const selectedTemplate = templates.find((t) => t.id === selectedTemplateId);
+
   const tasks: Task[] = tasksData?.tasks || [];
+  const schedule: TaskSchedule | undefined = tasksData?.schedule;
+  const scheduleById = new Map((schedule?.tasks || []).map((entry) => [entry.task_id, entry]));
+  const taskTitles = Object.fromEntries(tasks.map((t) => [t.id, t.title]));
+  const dependencyOptions = (excludeId?: string) =>
+    tasks.filter((t) => t.id !== excludeId).map((t) => ({ value: t.id, label: t.title }));
 
   // Calculate completion percentage
   const completedCount = tasks.filter((t) => t.status === "completed").length;
   const totalCount = tasks.length;
   const completionPercentage = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
 
+  // Apply template mutation
+  const applyTemplateMutation = useMutation({
+    mutationFn: (templateId: string) => applyTaskTemplate(templateId, grantId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['grant-tasks', grantId] });
+      notifications.show({
+        title: 'Template applied',
+        message:
+          result.created.length > 0
+            ? `Added ${result.created.length} task${result.created.length === 1 ? '' : 's'}` +
+              (result.skipped > 0 ? ` (${result.skipped} already on this grant)` : '')
+            : "All of this template's tasks are already on this grant",
+        color: 'green',
+      });
+      setTemplateModalOpened(false);
+      setSelectedTemplateId(null);
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
   // Create task mutation
   const createTaskMutation = useMutation({
     mutationFn: async (taskData: any) => {
@@ -330,7 +463,10 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
           position: tasks.length + 1,
         }),
       });
-      if (!res.ok) throw new Error("Failed to create task");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to create task');
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -341,12 +477,21 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
         color: "green",
       });
       setAddModalOpened(false);
-      setNewTask({ title: "", description: "", task_type: "custom", due_date: "", assigned_to: "" });
+      setNewTask({
+        title: '',
+        description: '',
+        task_type: 'custom',
+        due_date: '',
+        assigned_to: '',
+        estimated_days: null,
+        depends_on: [],
+        ...EMPTY_RECURRENCE,
+      });
     },
-    onError: () => {
+    onError: (error: Error) => {
       notifications.show({
         title: "Error",
-        message: "Failed to create task",
+        message: error.message || 'Failed to create task',
         color: "red",
       });
     },
@@ -369,7 +514,10 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
         },
         body: JSON.stringify(updates),
       });
-      if (!res.ok) throw new Error("Failed to update task");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to update task');
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -381,10 +529,10 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
       });
       setEditingTask(null);
     },
-    onError: () => {
+    onError: (error: Error) => {
       notifications.show({
         title: "Error",
-        message: "Failed to update task",
+        message: error.message || 'Failed to update task',
         color: "red",
       });
     },
@@ -526,6 +674,17 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
         </Box>
       )}
 
+      {/* Schedule warning */}
+      {schedule && schedule.slack_days !== null && schedule.slack_days < 0 && (
+        <Alert color="red" variant="light" icon={<IconAlertTriangle size={16} />}>
+          At the current estimates the remaining tasks finish{' '}
+          {schedule.projected_finish && dayjs(schedule.projected_finish).format('MMM D')}, which is{' '}
+          {Math.abs(schedule.slack_days)} day{Math.abs(schedule.slack_days) === 1 ? '' : 's'} past
+          the {schedule.deadline_source === 'internal_deadline' ? 'internal deadline' : 'close date'}
+          {schedule.deadline && ` (${dayjs(schedule.deadline).format('MMM D')})`}.
+        </Alert>
+      )}
+
       {/* Task List with Drag and Drop */}
       <DndContext
         sensors={sensors}
@@ -541,6 +700,8 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
               <SortableTaskItem
                 key={task.id}
                 task={task}
+                schedule={scheduleById.get(task.id)}
+                taskTitles={taskTitles}
                 onToggleComplete={handleToggleComplete}
                 onEdit={setEditingTask}
                 onDelete={deleteTaskMutation.mutate}
@@ -551,15 +712,82 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
         </SortableContext>
       </DndContext>
 
-      {/* Add Task Button */}
-      <Button
-        leftSection={<IconPlus size={16} />}
-        variant="light"
-        onClick={() => setAddModalOpened(true)}
-        fullWidth
+      {/* Add Task Buttons */}
+      <Group grow>
+        <Button
+          leftSection={<IconPlus size={16} />}
+          variant="light"
+          onClick={() => setAddModalOpened(true)}
+        >
+          Add Task
+        </Button>
+        <Button
+          leftSection={<IconListCheck size={16} />}
+          variant="default"
+          onClick={() => setTemplateModalOpened(true)}
+        >
+          Apply Template
+        </Button>
+      </Group>
+
+      {/* Apply Template Modal */}
+      <Modal
+        opened={templateModalOpened}
+        onClose={() => {
+          setTemplateModalOpened(false);
+          setSelectedTemplateId(null);
+        }}
+        title="Apply Task Template"
+        size="md"
       >
-        Add Task
-      </Button>
+        <Stack gap="md">
+          <Select
+            label="Template"
+            placeholder={templates.length === 0 ? 'No templates yet' : 'Select a template'}
+            value={selectedTemplateId}
+            onChange={setSelectedTemplateId}
+            data={templates
+              .filter((t) => t.is_active)
+              .map((t) => ({
+                value: t.id,
+                label: (t.match_rank ?? 0) > 0 ? `${t.name} (matches this grant)` : t.name,
+              }))}
+            searchable
+          />
+          {selectedTemplate && (
+            <Stack gap={4}>
+              {selectedTemplate.description && (
+                <Text size="sm" c="dimmed">
+                  {selectedTemplate.description}
+                </Text>
+              )}
+              {selectedTemplate.task_template_items.map((item) => (
+                <Text key={item.id} size="sm">
+                  • {item.title}
+                  <Text span size="xs" c="dimmed">
+                    {' '}— {formatDueOffset(item)}
+                  </Text>
+                </Text>
+              ))}
+              <Text size="xs" c="dimmed" mt="xs">
+                Tasks already added from this template are skipped.
+              </Text>
+            </Stack>
+          )}
+          <Group justify="flex-end" mt="md">
+            <Button variant="subtle" onClick={() => setTemplateModalOpened(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedTemplateId && applyTemplateMutation.mutate(selectedTemplateId)}
+              loading={applyTemplateMutation.isPending}
+              disabled={!selectedTemplateId}
+            >
+              Apply Template
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
 
       {/* Add Task Modal */}
       <Modal
@@ -603,6 +831,30 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
             value={newTask.due_date}
             onChange={(e) => setNewTask({ ...newTask, due_date: e.target.value })}
           />
+          <RecurrenceFields
+            value={newTask}
+            onChange={(recurrence) => setNewTask({ ...newTask, ...recurrence })}
+            description="The due date follows the schedule. Later occurrences are added as they come up."
+          />
+          <NumberInput
+            label="Estimated Days"
+            description="Used to schedule the critical path (1 day if empty)"
+            min={0}
+            max={365}
+            value={newTask.estimated_days ?? ''}
+            onChange={(value) =>
+              setNewTask({ ...newTask, estimated_days: typeof value === 'number' ? value : null })
+            }
+          />
+          <MultiSelect
+            label="Depends On"
+            placeholder="Tasks that must be completed first"
+            data={dependencyOptions()}
+            value={newTask.depends_on}
+            onChange={(value) => setNewTask({ ...newTask, depends_on: value })}
+            searchable
+            clearable
+          />
           <Select
             label="Assign To"
             placeholder="Select team member"
@@ -678,6 +930,43 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
                 setEditingTask({ ...editingTask, due_date: e.target.value })
               }
             />
+            {editingTask.recurrence_parent_id ? (
+              <Text size="xs" c="dimmed">
+                Part of a repeating series. Change the schedule on the series&apos; first task.
+              </Text>
+            ) : (
+              <RecurrenceFields
+                value={{
+                  recurrence_rule: editingTask.recurrence_rule ?? null,
+                  recurrence_start: editingTask.recurrence_start ?? null,
+                  recurrence_offset_days: editingTask.recurrence_offset_days ?? 0,
+                }}
+                onChange={(recurrence) => setEditingTask({ ...editingTask, ...recurrence })}
+                description="Changing the schedule replaces upcoming occurrences that are not completed."
+              />
+            )}
+            <NumberInput
+              label="Estimated Days"
+              description="Used to schedule the critical path (1 day if empty)"
+              min={0}
+              max={365}
+              value={editingTask.estimated_days ?? ''}
+              onChange={(value) =>
+                setEditingTask({
+                  ...editingTask,
+                  estimated_days: typeof value === 'number' ? value : null,
+                })
+              }
+            />
+            <MultiSelect
+              label="Depends On"
+              placeholder="Tasks that must be completed first"
+              data={dependencyOptions(editingTask.id)}
+              value={editingTask.depends_on || []}
+              onChange={(value) => setEditingTask({ ...editingTask, depends_on: value })}
+              searchable
+              clearable
+            />
             <Select
               label="Status"
               value={editingTask.status}
@@ -727,6 +1016,13 @@ export function TaskList({ grantId, orgId }: TaskListProps) {
                       due_date: editingTask.due_date,
                       status: editingTask.status,
                       assigned_to: editingTask.assigned_to,
+                      estimated_days: editingTask.estimated_days ?? null,
+                      depends_on: editingTask.depends_on || [],
+                      ...(!editingTask.recurrence_parent_id && {
+                        recurrence_rule: editingTask.recurrence_rule ?? null,
+                        recurrence_start: editingTask.recurrence_start ?? null,
+                        recurrence_offset_days: editingTask.recurrence_offset_days ?? 0,
+                      }),
                     },
                   });
                 }}
@@ -0,0 +1,434 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Center,
+  Divider,
+  Group,
+  Loader,
+  Modal,
+  NumberInput,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  Text,
+  ThemeIcon,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconAdjustments, IconAlertTriangle, IconArrowRight, IconGauge } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { useSavedGrants } from '../hooks/useSavedGrants';
+import { usePermission } from '../hooks/usePermission';
+import { fetchTeamCapacity, updateTeamCapacity } from '../utils/teamCapacityApi';
+import { TEMPLATE_TASK_TYPES } from '../types/taskTemplates';
+import { GRANT_SOURCE_LABELS, type EffortSettings } from '../types/teamCapacity';
+
+interface TeamCapacityForecastProps {
+  orgId: string;
+}
+
+function utilizationColor(utilization: number | null, load: number): string {
+  if (utilization === null) {
+    return load > 0 ? 'var(--mantine-color-red-2)' : 'transparent';
+  }
+  if (utilization > 1) {
+    return 'var(--mantine-color-red-2)';
+  }
+  if (utilization >= 0.85) {
+    return 'var(--mantine-color-yellow-2)';
+  }
+  if (utilization > 0) {
+    return 'var(--mantine-color-green-1)';
+  }
+  return 'transparent';
+}
+
+function formatHours(hours: number): string {
+  return Number.isInteger(hours) ? `${hours}h` : `${hours.toFixed(1)}h`;
+}
+
+export function TeamCapacityForecast({ orgId }: TeamCapacityForecastProps) {
+  const queryClient = useQueryClient();
+  const { isAdmin } = usePermission();
+  const { data: savedGrantsData } = useSavedGrants();
+  const [candidateGrantId, setCandidateGrantId] = useState<string | null>(null);
+  const [effortModalOpen, setEffortModalOpen] = useState(false);
+  const [effortDraft, setEffortDraft] = useState<EffortSettings | null>(null);
+
+  const { data: forecast, isLoading } = useQuery({
+    queryKey: ['teamCapacity', orgId, candidateGrantId],
+    queryFn: () => fetchTeamCapacity(orgId, candidateGrantId),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: Parameters<typeof updateTeamCapacity>[1]) =>
+      updateTeamCapacity(orgId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['teamCapacity', orgId] });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  // Grants still awaiting a go/no-go decision
+  const candidateOptions = useMemo(
+    () =>
+      (savedGrantsData?.grants || [])
+        .filter((grant) => grant.status === 'researching' || grant.status === 'go-no-go')
+        .map((grant) => ({ value: grant.id, label: grant.title })),
+    [savedGrantsData],
+  );
+
+  const memberNames = useMemo(
+    () => new Map((forecast?.members || []).map((member) => [member.user_id, member.name])),
+    [forecast],
+  );
+
+  const saveEffort = () => {
+    if (!effortDraft) {
+      return;
+    }
+    updateMutation.mutate(
+      {
+        effort: [
+          ...Object.entries(effortDraft.task_type_hours).map(([key, hours]) => ({
+            kind: 'task_type' as const,
+            key,
+            hours,
+          })),
+          ...Object.entries(effortDraft.grant_source_hours).map(([key, hours]) => ({
+            kind: 'grant_source' as const,
+            key,
+            hours,
+          })),
+        ],
+      },
+      {
+        onSuccess: () => {
+          setEffortModalOpen(false);
+          notifications.show({
+            title: 'Effort estimates saved',
+            message: 'The forecast has been updated',
+            color: 'green',
+          });
+        },
+      },
+    );
+  };
+
+  const candidate = forecast?.candidate;
+  const overbookedCount =
+    forecast?.members.filter((m) => m.overbooked_weeks.length > 0).length || 0;
+
+  return (
+    <Paper p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between" align="flex-start">
+          <Group>
+            <ThemeIcon size="lg" variant="light" color="orange">
+              <IconGauge size={20} />
+            </ThemeIcon>
+            <div>
+              <Title order={3} size="h4">
+                Capacity Forecast
+              </Title>
+              <Text size="sm" c="dimmed">
+                Estimated hours per week from open tasks and grants in drafting, against each
+                member&apos;s weekly capacity
+              </Text>
+            </div>
+          </Group>
+          {isAdmin && (
+            <Button
+              variant="light"
+              size="xs"
+              leftSection={<IconAdjustments size={14} />}
+              disabled={!forecast}
+              onClick={() => {
+                setEffortDraft(forecast?.settings.effort || null);
+                setEffortModalOpen(true);
+              }}
+            >
+              Effort estimates
+            </Button>
+          )}
+        </Group>
+
+        <Divider />
+
+        <Select
+          label="Go/no-go what-if"
+          description="See the load committing to a grant would add for its owner"
+          placeholder="Select a grant under review"
+          data={candidateOptions}
+          value={candidateGrantId}
+          onChange={setCandidateGrantId}
+          searchable
+          clearable
+          maw={480}
+        />
+
+        {candidate && (
+          <Alert
+            color={
+              candidate.already_committed || candidate.newly_overbooked_weeks.length === 0
+                ? 'blue'
+                : 'red'
+            }
+            icon={<IconAlertTriangle size={16} />}
+          >
+            {candidate.already_committed ? (
+              <Text size="sm">
+                {candidate.title} is already in drafting and part of the forecast.
+              </Text>
+            ) : (
+              <Stack gap={4}>
+                <Text size="sm">
+                  {candidate.title} adds about {formatHours(candidate.hours)} for{' '}
+                  {candidate.owner_id ? memberNames.get(candidate.owner_id) : 'an unassigned owner'}
+                  {candidate.hours === 0 && ' (no deadline, or its tasks already cover the effort)'}
+                  .
+                </Text>
+                {candidate.newly_overbooked_weeks.length > 0 && (
+                  <Text size="sm" fw={500}>
+                    This would overbook them in the weeks of{' '}
+                    {candidate.newly_overbooked_weeks
+                      .map((week) => dayjs(forecast?.weeks[week]).format('MMM D'))
+                      .join(', ')}
+                    .
+                  </Text>
+                )}
+              </Stack>
+            )}
+          </Alert>
+        )}
+
+        {isLoading || !forecast ? (
+          <Center h={160}>
+            <Loader />
+          </Center>
+        ) : (
+          <>
+            <Box style={{ overflowX: 'auto' }}>
+              <Table withTableBorder withColumnBorders fz="xs">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th miw={160}>Team Member</Table.Th>
+                    <Table.Th ta="center" miw={90}>
+                      Hours / week
+                    </Table.Th>
+                    {forecast.weeks.map((week) => (
+                      <Table.Th key={week} ta="center" miw={56}>
+                        {dayjs(week).format('MMM D')}
+                      </Table.Th>
+                    ))}
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {forecast.members.map((member) => (
+                    <Table.Tr key={member.user_id}>
+                      <Table.Td>
+                        <Text size="sm" fw={500}>
+                          {member.name}
+                        </Text>
+                        {member.unscheduled_hours > 0 && (
+                          <Text size="xs" c="dimmed">
+                            +{formatHours(member.unscheduled_hours)} undated
+                          </Text>
+                        )}
+                      </Table.Td>
+                      <Table.Td ta="center">
+                        {isAdmin ? (
+                          <NumberInput
+                            key={`${member.user_id}-${member.weekly_capacity}`}
+                            size="xs"
+                            min={0}
+                            max={168}
+                            defaultValue={member.weekly_capacity}
+                            hideControls
+                            w={64}
+                            mx="auto"
+                            onBlur={(event) => {
+                              const raw = event.currentTarget.value.trim();
+                              const hours = raw === '' ? null : Number(raw);
+                              if (
+                                hours !== null &&
+                                (isNaN(hours) || hours === member.weekly_capacity)
+                              ) {
+                                return;
+                              }
+                              updateMutation.mutate({
+                                members: [{ user_id: member.user_id, weekly_hours: hours }],
+                              });
+                            }}
+                          />
+                        ) : (
+                          formatHours(member.weekly_capacity)
+                        )}
+                      </Table.Td>
+                      {member.load.map((hours, week) => {
+                        const added =
+                          candidate && candidate.owner_id === member.user_id
+                            ? candidate.added[week]
+                            : 0;
+                        const total = hours + added;
+                        const utilization =
+                          member.weekly_capacity > 0 ? total / member.weekly_capacity : null;
+                        return (
+                          <Tooltip
+                            key={week}
+                            label={`${formatHours(hours)}${added > 0 ? ` + ${formatHours(added)} what-if` : ''} of ${formatHours(member.weekly_capacity)}`}
+                          >
+                            <Table.Td
+                              ta="center"
+                              style={{
+                                backgroundColor: utilizationColor(utilization, total),
+                                fontWeight:
+                                  utilization !== null && utilization > 1 ? 700 : undefined,
+                                outline:
+                                  added > 0 ? '2px dashed var(--mantine-color-grape-4)' : undefined,
+                                outlineOffset: -2,
+                              }}
+                            >
+                              {total > 0 ? Math.round(total) : ''}
+                            </Table.Td>
+                          </Tooltip>
+                        );
+                      })}
+                    </Table.Tr>
+                  ))}
+                  {forecast.unassigned.load.some((hours) => hours > 0) && (
+                    <Table.Tr>
+                      <Table.Td>
+                        <Text size="sm" c="dimmed" fs="italic">
+                          Unassigned
+                        </Text>
+                      </Table.Td>
+                      <Table.Td />
+                      {forecast.unassigned.load.map((hours, week) => (
+                        <Table.Td key={week} ta="center" c="dimmed">
+                          {hours > 0 ? Math.round(hours) : ''}
+                        </Table.Td>
+                      ))}
+                    </Table.Tr>
+                  )}
+                </Table.Tbody>
+              </Table>
+            </Box>
+
+            <Group gap="xs">
+              {overbookedCount > 0 ? (
+                <Badge color="red" variant="light">
+                  {overbookedCount} member{overbookedCount === 1 ? '' : 's'} overbooked
+                </Badge>
+              ) : (
+                <Badge color="green" variant="light">
+                  No one is overbooked
+                </Badge>
+              )}
+              <Text size="xs" c="dimmed">
+                Default capacity is {forecast.settings.default_weekly_hours}h per week
+              </Text>
+            </Group>
+
+            {forecast.suggestions.length > 0 && (
+              <Stack gap="xs">
+                <Text fw={600} size="sm">
+                  Suggested reassignments
+                </Text>
+                {forecast.suggestions.map((suggestion) => (
+                  <Group key={suggestion.task_id} gap="xs" wrap="nowrap">
+                    <Badge variant="outline" size="sm">
+                      {dayjs(suggestion.week_start).format('MMM D')}
+                    </Badge>
+                    <Text size="sm" lineClamp={1}>
+                      {suggestion.task_title}{' '}
+                      <Text span c="dimmed" size="sm">
+                        ({suggestion.grant_title}, {formatHours(suggestion.hours)})
+                      </Text>
+                    </Text>
+                    <Text size="sm" fw={500}>
+                      {memberNames.get(suggestion.from_user_id)}
+                    </Text>
+                    <IconArrowRight size={14} />
+                    <Text size="sm" fw={500}>
+                      {memberNames.get(suggestion.to_user_id)}
+                    </Text>
+                  </Group>
+                ))}
+              </Stack>
+            )}
+          </>
+        )}
+      </Stack>
+
+      <Modal
+        opened={effortModalOpen}
+        onClose={() => setEffortModalOpen(false)}
+        title="Effort estimates"
+        size="md"
+      >
+        {effortDraft && (
+          <Stack gap="sm">
+            <Text size="sm" c="dimmed">
+              Hours of work per task, by type. Application hours cover a whole application; the part
+              not broken out into tasks is spread up to the grant&apos;s deadline.
+            </Text>
+            {TEMPLATE_TASK_TYPES.map((type) => (
+              <NumberInput
+                key={type.value}
+                label={`${type.label} task`}
+                min={0}
+                suffix=" h"
+                value={effortDraft.task_type_hours[type.value] ?? 0}
+                onChange={(value) =>
+                  setEffortDraft({
+                    ...effortDraft,
+                    task_type_hours: {
+                      ...effortDraft.task_type_hours,
+                      [type.value]: Number(value) || 0,
+                    },
+                  })
+                }
+              />
+            ))}
+            <Divider />
+            {Object.keys(effortDraft.grant_source_hours).map((source) => (
+              <NumberInput
+                key={source}
+                label={GRANT_SOURCE_LABELS[source] || source}
+                min={0}
+                suffix=" h"
+                value={effortDraft.grant_source_hours[source]}
+                onChange={(value) =>
+                  setEffortDraft({
+                    ...effortDraft,
+                    grant_source_hours: {
+                      ...effortDraft.grant_source_hours,
+                      [source]: Number(value) || 0,
+                    },
+                  })
+                }
+              />
+            ))}
+            <Group justify="flex-end" mt="sm">
+              <Button variant="default" onClick={() => setEffortModalOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={saveEffort} loading={updateMutation.isPending}>
+                Save
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+    </Paper>
+  );
+}
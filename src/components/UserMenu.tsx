@@ -6,6 +6,7 @@ import {
   IconLogout,
   IconChevronDown,
   IconPlus,
+  IconBuildingBank,
 } from '@tabler/icons-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
@@ -164,6 +165,13 @@ export function UserMenu() {
           Settings
         </Menu.Item>
 
+        <Menu.Item
+          leftSection={<IconBuildingBank size={16} />}
+          onClick={() => navigate('/reconciliation')}
+        >
+          Reconciliation
+        </Menu.Item>
+
         <Divider my="xs" />
 
         {currentOrg && userOrgs && userOrgs.length > 0 && (
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import {
+  Modal,
+  Stack,
+  Text,
+  Badge,
+  Button,
+  Table,
+  SegmentedControl,
+  Loader,
+  Center,
+  Alert,
+  Tooltip,
+} from '@mantine/core';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notifications } from '@mantine/notifications';
+import { IconAlertTriangle, IconSend } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { supabase } from '../lib/supabase';
+
+dayjs.extend(relativeTime);
+
+interface WebhookDelivery {
+  id: string;
+  event_type: string;
+  status: 'pending' | 'delivered' | 'retrying' | 'dead_letter';
+  attempt_count: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error_message: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  redelivery_of: string | null;
+}
+
+interface WebhookSummary {
+  id: string;
+  name: string;
+  is_active: boolean;
+  disabled_at?: string | null;
+  disabled_reason?: string | null;
+}
+
+interface WebhookDeliveriesModalProps {
+  webhook: WebhookSummary | null;
+  canRedeliver: boolean;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  pending: 'blue',
+  delivered: 'green',
+  retrying: 'yellow',
+  dead_letter: 'red',
+};
+
+const STATUS_LABELS: Record<WebhookDelivery['status'], string> = {
+  pending: 'Sending',
+  delivered: 'Delivered',
+  retrying: 'Retrying',
+  dead_letter: 'Failed',
+};
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return session.access_token;
+}
+
+export function WebhookDeliveriesModal({
+  webhook,
+  canRedeliver,
+  onClose,
+}: WebhookDeliveriesModalProps) {
+  const [statusFilter, setStatusFilter] = useState('all');
+  const queryClient = useQueryClient();
+
+  const { data: deliveries, isLoading } = useQuery({
+    queryKey: ['webhookDeliveries', webhook?.id, statusFilter],
+    queryFn: async () => {
+      if (!webhook) {
+        return [];
+      }
+      const token = await getAccessToken();
+      const params = new URLSearchParams({ webhook_id: webhook.id });
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter);
+      }
+
+      const response = await fetch(`/api/webhooks/deliveries?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch deliveries');
+      }
+
+      const data = await response.json();
+      return data.deliveries as WebhookDelivery[];
+    },
+    enabled: !!webhook,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const token = await getAccessToken();
+      const response = await fetch(`/api/webhooks/deliveries?id=${deliveryId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to redeliver');
+      }
+
+      return data.delivery as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', webhook?.id] });
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      notifications.show({
+        title: delivery.status === 'delivered' ? 'Redelivered' : 'Redelivery failed',
+        message:
+          delivery.status === 'delivered'
+            ? `Receiver responded with HTTP ${delivery.response_status}`
+            : delivery.error_message || 'The receiver did not accept the delivery',
+        color: delivery.status === 'delivered' ? 'green' : 'red',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
+  return (
+    <Modal
+      opened={!!webhook}
+      onClose={onClose}
+      title={webhook ? `Deliveries: ${webhook.name}` : 'Deliveries'}
+      size="xl"
+    >
+      <Stack gap="md">
+        {webhook?.disabled_at && !webhook.is_active && (
+          <Alert icon={<IconAlertTriangle size={16} />} color="red" variant="light">
+            <Text size="sm">{webhook.disabled_reason || 'Disabled after repeated failures.'}</Text>
+            <Text size="xs" mt={4}>
+              Re-enable the webhook once the endpoint is fixed, then redeliver failed events.
+            </Text>
+          </Alert>
+        )}
+
+        <SegmentedControl
+          value={statusFilter}
+          onChange={setStatusFilter}
+          data={[
+            { value: 'all', label: 'All' },
+            { value: 'retrying', label: 'Retrying' },
+            { value: 'dead_letter', label: 'Failed' },
+            { value: 'delivered', label: 'Delivered' },
+          ]}
+        />
+
+        {isLoading ? (
+          <Center py="xl">
+            <Loader size="sm" />
+          </Center>
+        ) : !deliveries || deliveries.length === 0 ? (
+          <Text size="sm" c="dimmed" ta="center" py="md">
+            No deliveries yet
+          </Text>
+        ) : (
+          <Table.ScrollContainer minWidth={700}>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Event</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                  <Table.Th>Attempts</Table.Th>
+                  <Table.Th>Last attempt</Table.Th>
+                  {canRedeliver && <Table.Th />}
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {deliveries.map((delivery) => (
+                  <Table.Tr key={delivery.id}>
+                    <Table.Td>
+                      <Text size="sm" style={{ fontFamily: 'monospace' }}>
+                        {delivery.event_type}
+                      </Text>
+                      {delivery.redelivery_of && (
+                        <Text size="xs" c="dimmed">
+                          Manual redelivery
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Tooltip
+                        label={delivery.error_message}
+                        disabled={!delivery.error_message}
+                        multiline
+                        w={300}
+                      >
+                        <Badge size="sm" variant="light" color={STATUS_COLORS[delivery.status]}>
+                          {STATUS_LABELS[delivery.status]}
+                          {delivery.response_status ? ` · ${delivery.response_status}` : ''}
+                        </Badge>
+                      </Tooltip>
+                      {delivery.status === 'retrying' && delivery.next_attempt_at && (
+                        <Text size="xs" c="dimmed">
+                          Next try {dayjs(delivery.next_attempt_at).fromNow()}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm">{delivery.attempt_count}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs">
+                        {delivery.delivered_at
+                          ? dayjs(delivery.delivered_at).format('MMM D, h:mm:ss A')
+                          : '—'}
+                      </Text>
+                    </Table.Td>
+                    {canRedeliver && (
+                      <Table.Td>
+                        <Button
+                          size="xs"
+                          variant="light"
+                          leftSection={<IconSend size={14} />}
+                          disabled={delivery.status === 'pending'}
+                          loading={
+                            redeliverMutation.isPending &&
+                            redeliverMutation.variables === delivery.id
+                          }
+                          onClick={() => redeliverMutation.mutate(delivery.id)}
+                        >
+                          Redeliver
+                        </Button>
+                      </Table.Td>
+                    )}
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Table.ScrollContainer>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
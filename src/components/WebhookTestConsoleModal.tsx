@@ -0,0 +1,389 @@
+import { useState } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Select,
+  SegmentedControl,
+  Code,
+  Paper,
+  Tabs,
+  Alert,
+  Loader,
+  Center,
+  ScrollArea,
+} from '@mantine/core';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notifications } from '@mantine/notifications';
+import { IconAlertCircle, IconSend, IconTrash } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { useSavedGrants } from '../hooks/useSavedGrants';
+import { supabase } from '../lib/supabase';
+
+interface WebhookSummary {
+  id: string;
+  name: string;
+  url: string;
+  secret?: string | null;
+}
+
+interface EventOptionGroup {
+  group: string;
+  items: { value: string; label: string }[];
+}
+
+interface TestResult {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    body_preview: string | null;
+  } | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+interface WebhookCapture {
+  id: string;
+  delivery_id: string | null;
+  event_type: string | null;
+  headers: Record<string, string>;
+  body: string | null;
+  signature_valid: boolean | null;
+  signature_error: string | null;
+  received_at: string;
+}
+
+interface WebhookTestConsoleModalProps {
+  webhook: WebhookSummary | null;
+  eventOptions: EventOptionGroup[];
+  onClose: () => void;
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return session.access_token;
+}
+
+function formatBody(body: unknown): string {
+  if (typeof body !== 'string') {
+    return JSON.stringify(body, null, 2);
+  }
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+function SignatureBadge({ capture }: { capture: WebhookCapture }) {
+  if (capture.signature_valid === null) {
+    return (
+      <Badge size="sm" variant="light" color="gray">
+        Unsigned
+      </Badge>
+    );
+  }
+  return capture.signature_valid ? (
+    <Badge size="sm" variant="light" color="green">
+      Signature valid
+    </Badge>
+  ) : (
+    <Badge size="sm" variant="light" color="red">
+      {capture.signature_error || 'Signature invalid'}
+    </Badge>
+  );
+}
+
+export function WebhookTestConsoleModal({
+  webhook,
+  eventOptions,
+  onClose,
+}: WebhookTestConsoleModalProps) {
+  const queryClient = useQueryClient();
+  const { data: savedGrants } = useSavedGrants();
+  const [eventType, setEventType] = useState<string | null>('grant.saved');
+  const [grantId, setGrantId] = useState<string | null>(null);
+  const [target, setTarget] = useState('capture');
+  const [result, setResult] = useState<TestResult | null>(null);
+
+  const grantOptions = (savedGrants?.grants || []).map((grant) => ({
+    value: grant.id,
+    label: grant.title,
+  }));
+
+  const { data: captures, isLoading: capturesLoading } = useQuery({
+    queryKey: ['webhookCaptures', webhook?.id],
+    queryFn: async () => {
+      if (!webhook) {
+        return [];
+      }
+      const token = await getAccessToken();
+      const response = await fetch(`/api/webhooks/capture?webhook_id=${webhook.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch captures');
+      }
+      const data = await response.json();
+      return data.captures as WebhookCapture[];
+    },
+    enabled: !!webhook,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      if (!webhook) {
+        throw new Error('No webhook selected');
+      }
+      const token = await getAccessToken();
+      const response = await fetch(`/api/webhooks/test?id=${webhook.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ event: eventType, grant_id: grantId, target }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send test event');
+      }
+      return data as TestResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['webhookCaptures', webhook?.id] });
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
+  const clearCapturesMutation = useMutation({
+    mutationFn: async () => {
+      if (!webhook) {
+        return;
+      }
+      const token = await getAccessToken();
+      const response = await fetch(`/api/webhooks/capture?webhook_id=${webhook.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to clear captures');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhookCaptures', webhook?.id] });
+    },
+  });
+
+  const handleClose = () => {
+    setResult(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      opened={!!webhook}
+      onClose={handleClose}
+      title={webhook ? `Test Console: ${webhook.name}` : 'Test Console'}
+      size="xl"
+    >
+      <Tabs defaultValue="send">
+        <Tabs.List mb="md">
+          <Tabs.Tab value="send">Send Test Event</Tabs.Tab>
+          <Tabs.Tab value="captures">Captured Requests</Tabs.Tab>
+        </Tabs.List>
+
+        <Tabs.Panel value="send">
+          <Stack gap="md">
+            <Group grow align="flex-start">
+              <Select
+                label="Event"
+                data={eventOptions}
+                value={eventType}
+                onChange={setEventType}
+                searchable
+                allowDeselect={false}
+              />
+              <Select
+                label="Grant"
+                placeholder="Pick a saved grant"
+                data={grantOptions}
+                value={grantId}
+                onChange={setGrantId}
+                searchable
+                nothingFoundMessage="No saved grants"
+              />
+            </Group>
+
+            <div>
+              <Text size="sm" fw={500} mb={4}>
+                Send to
+              </Text>
+              <SegmentedControl
+                value={target}
+                onChange={setTarget}
+                data={[
+                  { value: 'capture', label: 'Built-in capture endpoint' },
+                  { value: 'webhook', label: 'Webhook URL' },
+                ]}
+              />
+              <Text size="xs" c="dimmed" mt={4}>
+                {target === 'capture'
+                  ? 'Signed with this webhook’s secret and recorded under Captured Requests, so signing can be checked without an external service.'
+                  : `Delivered to ${webhook?.url}. Test sends are marked with X-Webhook-Test and are not retried.`}
+              </Text>
+            </div>
+
+            <Group justify="flex-end">
+              <Button
+                leftSection={<IconSend size={16} />}
+                onClick={() => sendMutation.mutate()}
+                loading={sendMutation.isPending}
+                disabled={!eventType || !grantId}
+              >
+                Send Test Event
+              </Button>
+            </Group>
+
+            {result && (
+              <Stack gap="sm">
+                {result.error && (
+                  <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+                    {result.error}
+                  </Alert>
+                )}
+
+                <Paper withBorder p="sm">
+                  <Text size="sm" fw={600} mb="xs">
+                    Request
+                  </Text>
+                  <Code block>
+                    {`${result.request.method} ${result.request.url}\n${formatHeaders(result.request.headers)}\n\n${formatBody(result.request.body)}`}
+                  </Code>
+                </Paper>
+
+                <Paper withBorder p="sm">
+                  <Group justify="space-between" mb="xs">
+                    <Text size="sm" fw={600}>
+                      Response
+                    </Text>
+                    <Group gap="xs">
+                      {result.response && (
+                        <Badge
+                          variant="light"
+                          color={
+                            result.response.status >= 200 && result.response.status < 300
+                              ? 'green'
+                              : 'red'
+                          }
+                        >
+                          HTTP {result.response.status}
+                        </Badge>
+                      )}
+                      <Text size="xs" c="dimmed">
+                        {result.duration_ms} ms
+                      </Text>
+                    </Group>
+                  </Group>
+                  {result.response ? (
+                    <Code block>
+                      {result.response.body_preview || '(empty body)'}
+                    </Code>
+                  ) : (
+                    <Text size="sm" c="dimmed">
+                      No response received
+                    </Text>
+                  )}
+                </Paper>
+              </Stack>
+            )}
+          </Stack>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="captures">
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Text size="xs" c="dimmed">
+                Point any webhook at /api/webhooks/capture?webhook_id={webhook?.id} to record its
+                deliveries here.
+              </Text>
+              <Button
+                size="xs"
+                variant="subtle"
+                color="red"
+                leftSection={<IconTrash size={14} />}
+                onClick={() => clearCapturesMutation.mutate()}
+                loading={clearCapturesMutation.isPending}
+                disabled={!captures || captures.length === 0}
+              >
+                Clear
+              </Button>
+            </Group>
+
+            {capturesLoading ? (
+              <Center py="xl">
+                <Loader size="sm" />
+              </Center>
+            ) : !captures || captures.length === 0 ? (
+              <Text size="sm" c="dimmed" ta="center" py="md">
+                No captured requests yet
+              </Text>
+            ) : (
+              <ScrollArea.Autosize mah={500}>
+                <Stack gap="sm">
+                  {captures.map((capture) => (
+                    <Paper key={capture.id} withBorder p="sm">
+                      <Group justify="space-between" mb="xs">
+                        <Group gap="xs">
+                          <Text size="sm" fw={500} style={{ fontFamily: 'monospace' }}>
+                            {capture.event_type || 'unknown event'}
+                          </Text>
+                          <SignatureBadge capture={capture} />
+                        </Group>
+                        <Text size="xs" c="dimmed">
+                          {dayjs(capture.received_at).format('MMM D, h:mm:ss A')}
+                        </Text>
+                      </Group>
+                      {capture.delivery_id && (
+                        <Text size="xs" c="dimmed" mb="xs">
+                          Delivery {capture.delivery_id}
+                        </Text>
+                      )}
+                      <Code block>{formatBody(capture.body || '')}</Code>
+                    </Paper>
+                  ))}
+                </Stack>
+              </ScrollArea.Autosize>
+            )}
+          </Stack>
+        </Tabs.Panel>
+      </Tabs>
+    </Modal>
+  );
+}
@@ -17,6 +17,7 @@ const EVENT_TYPES = [
   { value: 'grant.deadline_passed', label: 'Deadline Passed' },
   { value: 'grant.updated', label: 'Grant Updated' },
   { value: 'grant.task_assigned', label: 'Task Assigned' },
+  { value: 'grant.catalog_changed', label: 'Opportunity Changed' },
 ];
 
 interface WebhookFormData {
@@ -1,5 +1,6 @@
 import { Box, Group, Title, Text, Select } from "@mantine/core";
 import { IconBuilding } from "@tabler/icons-react";
+import { usePipelineStages } from '../../hooks/usePipelineStages';
 
 const PRIORITY_COLORS: Record<string, string> = {
   low: "gray",
@@ -14,6 +15,8 @@ interface GrantHeaderProps {
   aln: string | null;
   priority: string | null;
   status: string;
+  // Limits the stage choices to the grant's pipeline
+  pipelineId?: string;
   onUpdatePriority: (priority: string) => void;
   onUpdateStatus: (status: string) => void;
 }
@@ -24,9 +27,12 @@ export function GrantHeader({
   aln,
   priority,
   status,
+  pipelineId,
   onUpdatePriority,
   onUpdateStatus,
 }: GrantHeaderProps) {
+  const { stages } = usePipelineStages(pipelineId);
+
   return (
     <Box>
       <Group mb="xs" gap="xs">
@@ -65,12 +71,7 @@ export function GrantHeader({
               onUpdateStatus(value);
             }
           }}
-          data={[
-            { value: 'researching', label: 'Researching' },
-            { value: 'drafting', label: 'Drafting' },
-            { value: 'submitted', label: 'Submitted' },
-            { value: 'awarded', label: 'Awarded' },
-          ]}
+          data={stages.map((stage) => ({ value: stage.key, label: stage.label }))}
           size="xs"
           w={130}
           styles={{
@@ -5,10 +5,13 @@
  */
 
 export { AISummaryTab } from './AISummaryTab';
+export { AccountingExportModal } from './AccountingExportModal';
 export { ActivityFeed } from './ActivityFeed';
 export { AppHeader } from './AppHeader';
 export { ApprovalWorkflowManager } from './ApprovalWorkflowManager';
 export { BudgetTab } from './BudgetTab';
+export { BudgetBuilder } from './BudgetBuilder';
+export { BudgetVariance } from './BudgetVariance';
 export { CommentInput } from './CommentInput';
 export { CommentThread } from './CommentThread';
 export { ComplianceTab } from './ComplianceTab';
@@ -33,6 +36,7 @@ export { MarketingHeader } from './MarketingHeader';
 export { MentionBell } from './MentionBell';
 export { MentionTextarea } from './MentionTextarea';
 export { NoOrganization } from './NoOrganization';
+export { NotificationRoutingMatrix } from './NotificationRoutingMatrix';
 export { OrgSwitcher } from './OrgSwitcher';
 export { PaymentScheduleTab } from './PaymentScheduleTab';
 export { PendingApprovalsList } from './PendingApprovalsList';
@@ -41,6 +45,8 @@ export { ProtectedRoute } from './ProtectedRoute';
 export { QuickAddGrantModal } from './QuickAddGrantModal';
 export { QuickSearchModal } from './QuickSearchModal';
 export { RecommendationsSection } from './RecommendationsSection';
+export { ReconciliationWizard } from './ReconciliationWizard';
+export { RecurrenceFields } from './RecurrenceFields';
 export { SaveToPipelineModal } from './SaveToPipelineModal';
 export { SavedViewsPanel } from './SavedViewsPanel';
 export { ScrollToTop } from './ScrollToTop';
@@ -49,6 +55,7 @@ export { StageTransitionButton } from './StageTransitionButton';
 export { StorageQuotaIndicator } from './StorageQuotaIndicator';
 export { SuccessScoreBadge } from './SuccessScoreBadge';
 export { TaskList } from './TaskList';
+export { TeamCapacityForecast } from './TeamCapacityForecast';
 export { UserMenu } from './UserMenu';
 
 // Export types
@@ -1,20 +1,29 @@
 import { Paper, Group, ActionIcon, Text, Button, Menu } from "@mantine/core";
-import { IconX, IconFlag, IconTrash } from "@tabler/icons-react";
+import { IconX, IconFlag, IconTrash, IconArrowsExchange } from '@tabler/icons-react';
+import type { PipelineStage } from '../../types/pipelineStages';
+import type { Pipeline } from '../../types/pipelines';
 
 interface BulkActionsToolbarProps {
+  stages: PipelineStage[];
+  // Pipelines the selected grants can be moved to
+  pipelines: Pipeline[];
   selectedCount: number;
   onDeselectAll: () => void;
   onBulkUpdateStatus: (status: string) => void;
   onBulkUpdatePriority: (priority: string) => void;
+  onBulkMoveToPipeline: (pipelineId: string) => void;
   onBulkDelete: () => void;
   isOperating: boolean;
 }
 
 export function BulkActionsToolbar({
+  stages,
+  pipelines,
   selectedCount,
   onDeselectAll,
   onBulkUpdateStatus,
   onBulkUpdatePriority,
+  onBulkMoveToPipeline,
   onBulkDelete,
   isOperating,
 }: BulkActionsToolbarProps) {
@@ -49,27 +58,11 @@ export function BulkActionsToolbar({
               </Button>
             </Menu.Target>
             <Menu.Dropdown>
-              <Menu.Item onClick={() => onBulkUpdateStatus('researching')}>
-                Researching
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('go-no-go')}>
-                Go/No-Go
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('drafting')}>
-                Drafting
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('submitted')}>
-                Submitted
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('awarded')}>
-                Awarded
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('not-funded')}>
-                Not Funded
-              </Menu.Item>
-              <Menu.Item onClick={() => onBulkUpdateStatus('closed-out')}>
-                Closed Out
-              </Menu.Item>
+              {stages.map((stage) => (
+                <Menu.Item key={stage.key} onClick={() => onBulkUpdateStatus(stage.key)}>
+                  {stage.label}
+                </Menu.Item>
+              ))}
             </Menu.Dropdown>
           </Menu>
           <Menu shadow="md" width={180}>
@@ -99,6 +92,28 @@ export function BulkActionsToolbar({
               </Menu.Item>
             </Menu.Dropdown>
           </Menu>
+          {pipelines.length > 0 && (
+            <Menu shadow="md" width={200}>
+              <Menu.Target>
+                <Button
+                  size="sm"
+                  variant="light"
+                  color="teal"
+                  leftSection={<IconArrowsExchange size={16} />}
+                  loading={isOperating}
+                >
+                  Move to Pipeline
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                {pipelines.map((pipeline) => (
+                  <Menu.Item key={pipeline.id} onClick={() => onBulkMoveToPipeline(pipeline.id)}>
+                    {pipeline.name}
+                  </Menu.Item>
+                ))}
+              </Menu.Dropdown>
+            </Menu>
+          )}
           <Button
             size="sm"
             variant="light"
@@ -1,8 +1,9 @@
 import { Group, Switch, Select } from "@mantine/core";
 import { GrantFilters, type GrantFilterValues } from "../GrantFilters";
+import type { PipelineView } from './PipelineViewToggle';
 
 interface PipelineFiltersProps {
-  view: 'board' | 'list';
+  view: PipelineView;
   filters: GrantFilterValues;
   onFiltersChange: (filters: GrantFilterValues) => void;
   sortBy: string;
@@ -28,7 +29,7 @@ export function PipelineFilters({
         showStatus={view === 'list'}
       />
       <Group>
-        {view === 'list' && (
+        {view !== 'board' && (
           <Select
             placeholder="Sort by"
             value={sortBy}
@@ -2,9 +2,10 @@ import { Group, Title, Text, Button, Menu, Divider } from "@mantine/core";
 import { IconUpload, IconDownload, IconChevronDown, IconPrinter } from "@tabler/icons-react";
 import type { SavedGrant } from "../../hooks/useSavedGrants";
 import { printBoardPacket, exportGrantsToCSV } from "../../utils/printBoardPacket";
+import type { PipelineView } from './PipelineViewToggle';
 
 interface PipelineHeaderProps {
-  view: 'board' | 'list';
+  view: PipelineView;
   filteredGrants: SavedGrant[];
   orgName: string;
   onImportClick: () => void;
@@ -19,7 +20,9 @@ export function PipelineHeader({ view, filteredGrants, orgName, onImportClick }:
           <Text c="dimmed" size="lg">
             {view === 'board'
               ? 'Track grants through your workflow stages'
-              : 'Manage your saved grants and track important deadlines'}
+              : view === 'timeline'
+                ? 'See how application windows and task due dates overlap'
+                : 'Manage your saved grants and track important deadlines'}
           </Text>
         </div>
         <Group>
@@ -46,7 +49,7 @@ export function PipelineHeader({ view, filteredGrants, orgName, onImportClick }:
               <Menu.Item
                 leftSection={<IconPrinter size={16} />}
                 onClick={() => printBoardPacket(filteredGrants, {
-                  title: view === 'board' ? 'Pipeline Board Packet' : 'Saved Grants Report'
+                  title: view === 'list' ? 'Saved Grants Report' : 'Pipeline Board Packet',
                 })}
               >
                 Print Report
@@ -0,0 +1,51 @@
+import { ColorSwatch, Select, type SelectProps } from '@mantine/core';
+import { usePipelines } from '../../hooks/usePipelines';
+
+// Value used for "every pipeline" when allowAll is set
+export const ALL_PIPELINES = 'all';
+
+interface PipelineSelectProps extends Omit<SelectProps, 'data' | 'value' | 'onChange'> {
+  value: string | null;
+  onChange: (pipelineId: string | null) => void;
+  // Adds an "All pipelines" option, reported as null
+  allowAll?: boolean;
+}
+
+/**
+ * Picks one of the organization's pipelines
+ *
+ * Renders nothing while the organization has a single pipeline.
+ */
+export function PipelineSelect({
+  value,
+  onChange,
+  allowAll = false,
+  ...props
+}: PipelineSelectProps) {
+  const { pipelines, getPipeline } = usePipelines();
+
+  if (pipelines.length < 2) {
+    return null;
+  }
+
+  const data = [
+    ...(allowAll ? [{ value: ALL_PIPELINES, label: 'All pipelines' }] : []),
+    ...pipelines.map((pipeline) => ({ value: pipeline.id, label: pipeline.name })),
+  ];
+  const selected = getPipeline(value);
+
+  return (
+    <Select
+      label="Pipeline"
+      data={data}
+      value={value || (allowAll ? ALL_PIPELINES : null)}
+      onChange={(next) => onChange(!next || next === ALL_PIPELINES ? null : next)}
+      leftSection={
+        selected && <ColorSwatch color={`var(--mantine-color-${selected.color}-6)`} size={14} />
+      }
+      allowDeselect={false}
+      w={200}
+      {...props}
+    />
+  );
+}
@@ -0,0 +1,725 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  ScrollArea,
+  SegmentedControl,
+  Switch,
+  Tooltip,
+} from '@mantine/core';
+import { IconCalendarOff } from '@tabler/icons-react';
+import { useNavigate } from 'react-router-dom';
+import dayjs, { type Dayjs } from 'dayjs';
+import type { SavedGrant } from '../../hooks/useSavedGrants';
+import { usePipelineStages } from '../../hooks/usePipelineStages';
+
+export interface TimelineTask {
+  id: string;
+  grant_id: string;
+  title: string;
+  task_type: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  assigned_to: string | null;
+  due_date: string | null;
+  estimated_days: number | null;
+  is_required: boolean;
+}
+
+export interface TimelineMember {
+  value: string;
+  label: string;
+}
+
+type TimelineMode = 'grants' | 'assignees';
+type TimelineZoom = 'weeks' | 'months' | 'quarters';
+
+// Pixels per day at each zoom level
+const DAY_WIDTH: Record<TimelineZoom, number> = {
+  weeks: 28,
+  months: 10,
+  quarters: 4,
+};
+
+const LABEL_WIDTH = 260;
+const GRANT_ROW_HEIGHT = 36;
+const TASK_ROW_HEIGHT = 26;
+const BAR_HEIGHT = 18;
+const TASK_BAR_HEIGHT = 14;
+
+const MARKERS = {
+  loi: { label: 'LOI deadline', color: 'var(--mantine-color-orange-6)' },
+  internal: { label: 'Internal deadline', color: 'var(--mantine-color-grape-6)' },
+  close: { label: 'Close date', color: 'var(--mantine-color-red-6)' },
+} as const;
+
+const TASK_STATUS_COLORS: Record<TimelineTask['status'], string> = {
+  pending: 'gray',
+  in_progress: 'blue',
+  completed: 'green',
+  blocked: 'red',
+};
+
+interface DragState {
+  kind: 'task' | 'internal';
+  id: string;
+  startX: number;
+  deltaDays: number;
+}
+
+// A bar on the timeline, used to stack items in assignee lanes
+interface LaneItem {
+  key: string;
+  start: Dayjs;
+  end: Dayjs;
+  grant?: SavedGrant;
+  task?: TimelineTask;
+}
+
+interface PipelineTimelineViewProps {
+  grants: SavedGrant[];
+  tasks: TimelineTask[];
+  teamMembers: TimelineMember[];
+  isLoadingTasks: boolean;
+  onRescheduleInternalDeadline: (grantId: string, date: string) => void;
+  onRescheduleTask: (taskId: string, date: string) => void;
+}
+
+function grantStart(grant: SavedGrant): Dayjs {
+  return dayjs(grant.open_date || grant.saved_at).startOf('day');
+}
+
+// Latest of the grant's deadlines, or null when it has none
+function grantEnd(grant: SavedGrant): Dayjs | null {
+  const deadlines = [grant.loi_deadline, grant.internal_deadline, grant.close_date]
+    .filter((date): date is string => !!date)
+    .map((date) => dayjs(date).startOf('day'));
+  if (deadlines.length === 0) {
+    return null;
+  }
+  return deadlines.reduce((latest, date) => (date.isAfter(latest) ? date : latest));
+}
+
+// Tasks are drawn as ending on their due date and lasting their estimate
+function taskSpan(task: TimelineTask): { start: Dayjs; end: Dayjs } | null {
+  if (!task.due_date) {
+    return null;
+  }
+  const end = dayjs(task.due_date).startOf('day');
+  const days = Math.max(1, task.estimated_days ?? 1);
+  return { start: end.subtract(days - 1, 'day'), end };
+}
+
+// Greedily place items on the fewest rows without overlaps
+function packRows(items: LaneItem[]): LaneItem[][] {
+  const rows: LaneItem[][] = [];
+  [...items]
+    .sort((a, b) => a.start.valueOf() - b.start.valueOf())
+    .forEach((item) => {
+      const row = rows.find((r) => r[r.length - 1].end.isBefore(item.start));
+      if (row) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    });
+  return rows;
+}
+
+// Most items active on the same day
+function peakLoad(items: LaneItem[]): number {
+  const events = items.flatMap((item) => [
+    { time: item.start.valueOf(), delta: 1 },
+    { time: item.end.add(1, 'day').valueOf(), delta: -1 },
+  ]);
+  events.sort((a, b) => a.time - b.time || a.delta - b.delta);
+  let current = 0;
+  let peak = 0;
+  events.forEach((event) => {
+    current += event.delta;
+    peak = Math.max(peak, current);
+  });
+  return peak;
+}
+
+export function PipelineTimelineView({
+  grants,
+  tasks,
+  teamMembers,
+  isLoadingTasks,
+  onRescheduleInternalDeadline,
+  onRescheduleTask,
+}: PipelineTimelineViewProps) {
+  const navigate = useNavigate();
+  const { getStageLabel, getStageColor } = usePipelineStages();
+  const [mode, setMode] = useState<TimelineMode>('grants');
+  const [zoom, setZoom] = useState<TimelineZoom>('months');
+  const [showTasks, setShowTasks] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = useMemo(() => dayjs().startOf('day'), []);
+
+  const grantIds = useMemo(() => new Set(grants.map((g) => g.id)), [grants]);
+  const grantsById = useMemo(() => new Map(grants.map((g) => [g.id, g])), [grants]);
+  const memberNames = useMemo(
+    () => new Map(teamMembers.map((m) => [m.value, m.label])),
+    [teamMembers],
+  );
+
+  const visibleTasks = useMemo(
+    () =>
+      tasks
+        .filter((task) => grantIds.has(task.grant_id) && task.due_date)
+        .sort((a, b) => dayjs(a.due_date).valueOf() - dayjs(b.due_date).valueOf()),
+    [tasks, grantIds],
+  );
+
+  const tasksByGrant = useMemo(() => {
+    const map = new Map<string, TimelineTask[]>();
+    visibleTasks.forEach((task) => {
+      map.set(task.grant_id, [...(map.get(task.grant_id) || []), task]);
+    });
+    return map;
+  }, [visibleTasks]);
+
+  // Visible range: everything plotted, plus today, padded and capped
+  const { rangeStart, totalDays } = useMemo(() => {
+    const dates: Dayjs[] = [today];
+    grants.forEach((grant) => {
+      dates.push(grantStart(grant));
+      const end = grantEnd(grant);
+      if (end) {
+        dates.push(end);
+      }
+    });
+    visibleTasks.forEach((task) => {
+      const span = taskSpan(task);
+      if (span) {
+        dates.push(span.start, span.end);
+      }
+    });
+
+    const earliest = dates.reduce((min, date) => (date.isBefore(min) ? date : min));
+    const latest = dates.reduce((max, date) => (date.isAfter(max) ? date : max));
+    const floor = today.subtract(1, 'year');
+    const ceiling = today.add(2, 'year');
+
+    const start = (earliest.isBefore(floor) ? floor : earliest).subtract(7, 'day').startOf('month');
+    const end = (latest.isAfter(ceiling) ? ceiling : latest).add(14, 'day').endOf('month');
+
+    return { rangeStart: start, totalDays: end.diff(start, 'day') + 1 };
+  }, [grants, visibleTasks, today]);
+
+  const timelineWidth = totalDays * dayWidth;
+  const x = (date: Dayjs) => date.diff(rangeStart, 'day') * dayWidth;
+
+  const months = useMemo(() => {
+    const result: Dayjs[] = [];
+    let month = rangeStart.startOf('month');
+    while (month.diff(rangeStart, 'day') < totalDays) {
+      result.push(month);
+      month = month.add(1, 'month');
+    }
+    return result;
+  }, [rangeStart, totalDays]);
+
+  const weeks = useMemo(() => {
+    const result: Dayjs[] = [];
+    let week = rangeStart.startOf('week').add(1, 'week');
+    while (week.diff(rangeStart, 'day') < totalDays) {
+      result.push(week);
+      week = week.add(1, 'week');
+    }
+    return result;
+  }, [rangeStart, totalDays]);
+
+  // Drag-to-reschedule
+  const dragOffset = (kind: DragState['kind'], id: string) =>
+    drag && drag.kind === kind && drag.id === id ? drag.deltaDays : 0;
+
+  const dragHandlers = (kind: DragState['kind'], id: string, date: string) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ kind, id, startX: e.clientX, deltaDays: 0 });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!drag || drag.kind !== kind || drag.id !== id) {
+        return;
+      }
+      const deltaDays = Math.round((e.clientX - drag.startX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) {
+        setDrag({ ...drag, deltaDays });
+      }
+    },
+    onPointerUp: () => {
+      if (!drag || drag.kind !== kind || drag.id !== id) {
+        return;
+      }
+      if (drag.deltaDays !== 0) {
+        const newDate = dayjs(date).add(drag.deltaDays, 'day').format('YYYY-MM-DD');
+        if (kind === 'task') {
+          onRescheduleTask(id, newDate);
+        } else {
+          onRescheduleInternalDeadline(id, newDate);
+        }
+      }
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null),
+  });
+
+  const renderMarker = (
+    type: keyof typeof MARKERS,
+    date: string,
+    top: number,
+    grantId?: string,
+  ) => {
+    const draggable = type === 'internal' && grantId;
+    const offset = draggable ? dragOffset('internal', grantId) : 0;
+    const shifted = dayjs(date).add(offset, 'day');
+    const size = 12;
+
+    return (
+      <Tooltip
+        key={type}
+        label={`${MARKERS[type].label}: ${shifted.format('MMM D, YYYY')}${
+          draggable ? ' (drag to reschedule)' : ''
+        }`}
+        withArrow
+      >
+        <Box
+          {...(draggable ? dragHandlers('internal', grantId, date) : {})}
+          style={{
+            position: 'absolute',
+            left: x(shifted.startOf('day')) + dayWidth / 2 - size / 2,
+            top: top - size / 2,
+            width: size,
+            height: size,
+            transform: 'rotate(45deg)',
+            background: MARKERS[type].color,
+            border: '2px solid var(--mantine-color-body)',
+            cursor: draggable ? 'ew-resize' : 'default',
+            zIndex: 3,
+            touchAction: 'none',
+          }}
+        />
+      </Tooltip>
+    );
+  };
+
+  const renderGrantBar = (grant: SavedGrant, top: number, showTitle: boolean) => {
+    const start = grantStart(grant);
+    const end = grantEnd(grant);
+    const barEnd = end && !end.isBefore(start) ? end : start.isAfter(today) ? start : today;
+    const color = getStageColor(grant.status);
+    const center = top + BAR_HEIGHT / 2;
+
+    return (
+      <Box key={`grant-${grant.id}`}>
+        <Tooltip
+          label={`${grant.title} · ${getStageLabel(grant.status)} · ${start.format(
+            'MMM D',
+          )} – ${end ? end.format('MMM D, YYYY') : 'no deadline'}`}
+          withArrow
+        >
+          <Box
+            onClick={() => navigate(`/pipeline/grant/${grant.id}`)}
+            style={{
+              position: 'absolute',
+              left: x(start),
+              top,
+              width: x(barEnd) - x(start) + dayWidth,
+              height: BAR_HEIGHT,
+              borderRadius: 4,
+              background: `var(--mantine-color-${color}-2)`,
+              border: `1px ${end ? 'solid' : 'dashed'} var(--mantine-color-${color}-5)`,
+              overflow: 'hidden',
+              cursor: 'pointer',
+            }}
+          >
+            {showTitle && (
+              <Text size="xs" px={6} lh={`${BAR_HEIGHT - 2}px`} truncate>
+                {grant.title}
+              </Text>
+            )}
+          </Box>
+        </Tooltip>
+        {grant.loi_deadline && renderMarker('loi', grant.loi_deadline, center)}
+        {grant.internal_deadline &&
+          renderMarker('internal', grant.internal_deadline, center, grant.id)}
+        {grant.close_date && renderMarker('close', grant.close_date, center)}
+      </Box>
+    );
+  };
+
+  const renderTaskBar = (task: TimelineTask, top: number, showGrantTitle: boolean) => {
+    const span = taskSpan(task);
+    if (!span) {
+      return null;
+    }
+
+    const offset = dragOffset('task', task.id);
+    const start = span.start.add(offset, 'day');
+    const end = span.end.add(offset, 'day');
+    const color = TASK_STATUS_COLORS[task.status];
+    const grantTitle = grantsById.get(task.grant_id)?.title;
+    const assignee = task.assigned_to ? memberNames.get(task.assigned_to) : null;
+
+    return (
+      <Tooltip
+        key={`task-${task.id}`}
+        label={[
+          task.title,
+          grantTitle && showGrantTitle ? grantTitle : null,
+          `Due ${end.format('MMM D, YYYY')}`,
+          assignee,
+          'Drag to reschedule',
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+        withArrow
+      >
+        <Box
+          {...dragHandlers('task', task.id, span.end.format('YYYY-MM-DD'))}
+          style={{
+            position: 'absolute',
+            left: x(start),
+            top,
+            width: x(end) - x(start) + dayWidth,
+            height: TASK_BAR_HEIGHT,
+            borderRadius: 3,
+            background: `var(--mantine-color-${color}-${task.status === 'completed' ? 2 : 4})`,
+            opacity: task.status === 'completed' ? 0.6 : 1,
+            overflow: 'hidden',
+            cursor: 'ew-resize',
+            zIndex: 2,
+            touchAction: 'none',
+          }}
+        >
+          {zoom !== 'quarters' && (
+            <Text size="10px" c="white" px={4} lh={`${TASK_BAR_HEIGHT}px`} truncate>
+              {task.title}
+            </Text>
+          )}
+        </Box>
+      </Tooltip>
+    );
+  };
+
+  const renderRow = (
+    key: string,
+    label: React.ReactNode,
+    height: number,
+    content: React.ReactNode,
+    shaded = false,
+  ) => (
+    <Group
+      key={key}
+      gap={0}
+      wrap="nowrap"
+      align="stretch"
+      style={{ borderBottom: '1px solid var(--mantine-color-gray-2)' }}
+    >
+      <Box
+        w={LABEL_WIDTH}
+        px="sm"
+        py={4}
+        style={{
+          position: 'sticky',
+          left: 0,
+          zIndex: 4,
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          background: shaded ? 'var(--mantine-color-gray-0)' : 'var(--mantine-color-body)',
+          borderRight: '1px solid var(--mantine-color-gray-3)',
+        }}
+      >
+        {label}
+      </Box>
+      <Box
+        style={{
+          position: 'relative',
+          width: timelineWidth,
+          height,
+          flexShrink: 0,
+          background: shaded ? 'var(--mantine-color-gray-0)' : undefined,
+        }}
+      >
+        {content}
+      </Box>
+    </Group>
+  );
+
+  const grantRows = () =>
+    grants.flatMap((grant) => {
+      const grantTasks = showTasks ? tasksByGrant.get(grant.id) || [] : [];
+      const color = getStageColor(grant.status);
+
+      return [
+        renderRow(
+          grant.id,
+          <Stack gap={0} style={{ minWidth: 0 }}>
+            <Text
+              size="sm"
+              fw={500}
+              truncate
+              style={{ cursor: 'pointer' }}
+              onClick={() => navigate(`/pipeline/grant/${grant.id}`)}
+            >
+              {grant.title}
+            </Text>
+            <Group gap={4}>
+              <Badge size="xs" variant="light" color={color}>
+                {getStageLabel(grant.status)}
+              </Badge>
+              {grant.assigned_to && (
+                <Text size="xs" c="dimmed" truncate>
+                  {memberNames.get(grant.assigned_to) || 'Assigned'}
+                </Text>
+              )}
+            </Group>
+          </Stack>,
+          GRANT_ROW_HEIGHT + 8,
+          renderGrantBar(grant, (GRANT_ROW_HEIGHT + 8 - BAR_HEIGHT) / 2, zoom !== 'quarters'),
+        ),
+        ...grantTasks.map((task) =>
+          renderRow(
+            `${grant.id}-${task.id}`,
+            <Text size="xs" c="dimmed" pl="md" truncate>
+              {task.title}
+            </Text>,
+            TASK_ROW_HEIGHT,
+            renderTaskBar(task, (TASK_ROW_HEIGHT - TASK_BAR_HEIGHT) / 2, false),
+            true,
+          ),
+        ),
+      ];
+    });
+
+  const assigneeLanes = () => {
+    const lanes = new Map<string, LaneItem[]>();
+    const addItem = (assignee: string | null, item: LaneItem) => {
+      const key = assignee || '';
+      lanes.set(key, [...(lanes.get(key) || []), item]);
+    };
+
+    grants.forEach((grant) => {
+      const start = grantStart(grant);
+      const end = grantEnd(grant);
+      addItem(grant.assigned_to, {
+        key: `grant-${grant.id}`,
+        start,
+        end: end && !end.isBefore(start) ? end : start,
+        grant,
+      });
+    });
+    visibleTasks.forEach((task) => {
+      const span = taskSpan(task);
+      if (span) {
+        addItem(task.assigned_to, { key: `task-${task.id}`, ...span, task });
+      }
+    });
+
+    const ordered = Array.from(lanes.keys()).sort((a, b) => {
+      if (!a) {
+        return 1;
+      }
+      if (!b) {
+        return -1;
+      }
+      return (memberNames.get(a) || '').localeCompare(memberNames.get(b) || '');
+    });
+
+    return ordered.map((assignee) => {
+      const items = lanes.get(assignee) || [];
+      const rows = packRows(items);
+      const openTasks = items.filter((item) => item.task && item.task.status !== 'completed');
+      const peak = peakLoad(
+        items.filter((item) => item.grant || item.task?.status !== 'completed'),
+      );
+      const rowHeight = GRANT_ROW_HEIGHT - 8;
+
+      return renderRow(
+        assignee || 'unassigned',
+        <Stack gap={2} style={{ minWidth: 0 }}>
+          <Text size="sm" fw={500} truncate>
+            {assignee ? memberNames.get(assignee) || 'Unknown member' : 'Unassigned'}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {items.filter((item) => item.grant).length} grants · {openTasks.length} open tasks
+          </Text>
+          {assignee && peak > 1 && (
+            <Badge
+              size="xs"
+              variant="light"
+              color={peak >= 5 ? 'red' : peak >= 3 ? 'orange' : 'gray'}
+            >
+              Up to {peak} at once
+            </Badge>
+          )}
+        </Stack>,
+        Math.max(rows.length, 1) * rowHeight + 12,
+        rows.flatMap((row, rowIndex) =>
+          row.map((item) => {
+            const top = 6 + rowIndex * rowHeight;
+            if (item.grant) {
+              return renderGrantBar(item.grant, top + (rowHeight - BAR_HEIGHT) / 2 - 2, true);
+            }
+            return item.task
+              ? renderTaskBar(item.task, top + (rowHeight - TASK_BAR_HEIGHT) / 2 - 2, true)
+              : null;
+          }),
+        ),
+      );
+    });
+  };
+
+  if (grants.length === 0) {
+    return (
+      <Card padding="xl" withBorder>
+        <Stack align="center" gap="md" py="xl">
+          <IconCalendarOff size={32} color="var(--mantine-color-gray-5)" />
+          <Text c="dimmed">No grants to show on the timeline</Text>
+        </Stack>
+      </Card>
+    );
+  }
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Group gap="md">
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as TimelineMode)}
+            data={[
+              { value: 'grants', label: 'By grant' },
+              { value: 'assignees', label: 'By assignee' },
+            ]}
+          />
+          <SegmentedControl
+            size="xs"
+            value={zoom}
+            onChange={(value) => setZoom(value as TimelineZoom)}
+            data={[
+              { value: 'weeks', label: 'Weeks' },
+              { value: 'months', label: 'Months' },
+              { value: 'quarters', label: 'Quarters' },
+            ]}
+          />
+          {mode === 'grants' && (
+            <Switch
+              size="xs"
+              label="Show tasks"
+              checked={showTasks}
+              onChange={(event) => setShowTasks(event.currentTarget.checked)}
+            />
+          )}
+          {isLoadingTasks && (
+            <Text size="xs" c="dimmed">
+              Loading tasks...
+            </Text>
+          )}
+        </Group>
+        <Group gap="md">
+          {Object.values(MARKERS).map((marker) => (
+            <Group key={marker.label} gap={6}>
+              <Box w={10} h={10} style={{ background: marker.color, transform: 'rotate(45deg)' }} />
+              <Text size="xs" c="dimmed">
+                {marker.label}
+              </Text>
+            </Group>
+          ))}
+        </Group>
+      </Group>
+
+      <Text size="xs" c="dimmed">
+        Drag internal deadlines and task bars to reschedule them.
+      </Text>
+
+      <Card padding={0} withBorder>
+        <ScrollArea type="auto">
+          <Box style={{ position: 'relative', width: LABEL_WIDTH + timelineWidth }}>
+            {/* Axis */}
+            {renderRow(
+              'axis',
+              <Text size="xs" fw={600} c="dimmed">
+                {mode === 'grants' ? 'Grant' : 'Assignee'}
+              </Text>,
+              44,
+              <>
+                {months.map((month) => (
+                  <Text
+                    key={month.format('YYYY-MM')}
+                    size="xs"
+                    fw={600}
+                    style={{ position: 'absolute', left: Math.max(x(month), 0) + 4, top: 4 }}
+                  >
+                    {zoom === 'quarters' ? month.format('MMM') : month.format('MMM YYYY')}
+                    {zoom === 'quarters' && month.month() === 0 ? ` ${month.format('YYYY')}` : ''}
+                  </Text>
+                ))}
+                {zoom !== 'quarters' &&
+                  weeks.map((week) => (
+                    <Text
+                      key={week.format('YYYY-MM-DD')}
+                      size="10px"
+                      c="dimmed"
+                      style={{ position: 'absolute', left: x(week) + 2, top: 24 }}
+                    >
+                      {zoom === 'weeks' ? week.format('MMM D') : week.format('D')}
+                    </Text>
+                  ))}
+              </>,
+              true,
+            )}
+
+            {mode === 'grants' ? grantRows() : assigneeLanes()}
+
+            {/* Month gridlines and today */}
+            <Box
+              style={{
+                position: 'absolute',
+                left: LABEL_WIDTH,
+                top: 0,
+                bottom: 0,
+                width: timelineWidth,
+                pointerEvents: 'none',
+              }}
+            >
+              {months.map((month) => (
+                <Box
+                  key={month.format('YYYY-MM')}
+                  style={{
+                    position: 'absolute',
+                    left: x(month),
+                    top: 0,
+                    bottom: 0,
+                    borderLeft: '1px solid var(--mantine-color-gray-3)',
+                  }}
+                />
+              ))}
+              <Box
+                style={{
+                  position: 'absolute',
+                  left: x(today) + dayWidth / 2,
+                  top: 0,
+                  bottom: 0,
+                  borderLeft: '2px solid var(--mantine-color-blue-5)',
+                  zIndex: 1,
+                }}
+              />
+            </Box>
+          </Box>
+        </ScrollArea>
+      </Card>
+    </Stack>
+  );
+}
@@ -1,9 +1,11 @@
 import { Group, SegmentedControl, Text } from "@mantine/core";
-import { IconLayoutBoard, IconList } from "@tabler/icons-react";
+import { IconLayoutBoard, IconList, IconTimeline } from "@tabler/icons-react";
+
+export type PipelineView = 'board' | 'list' | 'timeline';
 
 interface PipelineViewToggleProps {
-  view: 'board' | 'list';
-  onViewChange: (view: 'board' | 'list') => void;
+  view: PipelineView;
+  onViewChange: (view: PipelineView) => void;
   filteredCount: number;
   totalCount: number;
 }
@@ -13,7 +15,7 @@ export function PipelineViewToggle({ view, onViewChange, filteredCount, totalCou
     <Group justify="space-between" align="center">
       <SegmentedControl
         value={view}
-        onChange={(value) => onViewChange(value as 'board' | 'list')}
+        onChange={(value) => onViewChange(value as PipelineView)}
         data={[
           {
             value: 'board',
@@ -33,6 +35,15 @@ export function PipelineViewToggle({ view, onViewChange, filteredCount, totalCou
               </Group>
             ),
           },
+          {
+            value: 'timeline',
+            label: (
+              <Group gap="xs">
+                <IconTimeline size={16} />
+                <span>Timeline</span>
+              </Group>
+            ),
+          },
         ]}
       />
       <Text size="sm" c="dimmed">
@@ -8,4 +8,6 @@ export { use2FAStatus, check2FARequired, verify2FACode } from './use2FA';
 export { useAIFeatures } from './useAIFeatures';
 export { usePageVisibility } from './usePageVisibility';
 export { usePermission } from './usePermission';
+export { usePipelines } from './usePipelines';
+export { usePipelineStages } from './usePipelineStages';
 export { useSavedGrants } from './useSavedGrants';
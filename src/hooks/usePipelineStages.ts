@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { fetchPipelineStages } from '../utils/pipelineStagesApi';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  stagesForPipeline,
+  type PipelineStage,
+} from '../types/pipelineStages';
+
+interface PipelineStagesResult {
+  stages: PipelineStage[];
+  loading: boolean;
+  getStage: (key: string) => PipelineStage | undefined;
+  getStageLabel: (key: string) => string;
+  getStageColor: (key: string) => string;
+}
+
+/**
+ * Hook for the current organization's pipeline stages, in order
+ *
+ * With a pipeline, `stages` holds only that pipeline's stages (plus shared
+ * ones like archived); lookups by key still cover every pipeline. Until they
+ * load, the default stages are returned so labels and colors still resolve
+ * for grants in the standard stages.
+ */
+export function usePipelineStages(pipelineId?: string | null): PipelineStagesResult {
+  const { currentOrg } = useOrganization();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['pipelineStages', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg?.id) {
+        return [];
+      }
+      return fetchPipelineStages(currentOrg.id);
+    },
+    enabled: !!currentOrg?.id,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const allStages = data || DEFAULT_PIPELINE_STAGES;
+  const getStage = (key: string) => allStages.find((stage) => stage.key === key);
+
+  return {
+    stages: pipelineId && data ? stagesForPipeline(allStages, pipelineId) : allStages,
+    loading: isLoading,
+    getStage,
+    getStageLabel: (key: string) => getStage(key)?.label || key,
+    getStageColor: (key: string) => getStage(key)?.color || 'gray',
+  };
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { fetchPipelines } from '../utils/pipelinesApi';
+import type { Pipeline } from '../types/pipelines';
+
+interface PipelinesResult {
+  pipelines: Pipeline[];
+  loading: boolean;
+  defaultPipeline: Pipeline | undefined;
+  getPipeline: (id: string | null | undefined) => Pipeline | undefined;
+}
+
+/**
+ * Hook for the current organization's pipelines the user can access, in order
+ */
+export function usePipelines(): PipelinesResult {
+  const { currentOrg } = useOrganization();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['pipelines', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg?.id) {
+        return [];
+      }
+      return fetchPipelines(currentOrg.id);
+    },
+    enabled: !!currentOrg?.id,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const pipelines = data || [];
+
+  return {
+    pipelines,
+    loading: isLoading,
+    defaultPipeline: pipelines.find((pipeline) => pipeline.is_default) || pipelines[0],
+    getPipeline: (id) => pipelines.find((pipeline) => pipeline.id === id),
+  };
+}
@@ -19,6 +19,7 @@ export interface SavedGrant {
   internal_deadline: string | null;
   description: string | null;
   status: string;
+  pipeline_id: string;
   priority: string | null;
   assigned_to: string | null;
   notes: string | null;
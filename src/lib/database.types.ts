@@ -247,6 +247,7 @@ export interface Database {
           saved_at: string
           created_at: string
           status: string
+          pipeline_id: string
           assigned_to: string | null
           priority: string
           stage_updated_at: string | null
@@ -267,6 +268,7 @@ export interface Database {
           saved_at?: string
           created_at?: string
           status?: string
+          pipeline_id?: string
           assigned_to?: string | null
           priority?: string
           stage_updated_at?: string | null
@@ -287,6 +289,7 @@ export interface Database {
           saved_at?: string
           created_at?: string
           status?: string
+          pipeline_id?: string
           assigned_to?: string | null
           priority?: string
           stage_updated_at?: string | null
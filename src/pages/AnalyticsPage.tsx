@@ -30,6 +30,7 @@ import {
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { AppHeader } from '../components/AppHeader';
 import { ProtectedRoute } from '../components/ProtectedRoute';
+import { PipelineSelect } from '../components/pipeline/PipelineSelect';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { supabase } from '../lib/supabase';
 
@@ -79,11 +80,12 @@ export function AnalyticsPage() {
   const { currentOrg } = useOrganization();
   const [timeframe, setTimeframe] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>('agency');
   const [downloadingCsv, setDownloadingCsv] = useState(false);
 
   const { data: reportData, isLoading, isError, error, refetch } = useQuery<ReportData>({
-    queryKey: ['agencyProgramBreakdown', currentOrg?.id, timeframe, statusFilter],
+    queryKey: ['agencyProgramBreakdown', currentOrg?.id, timeframe, statusFilter, pipelineId],
     queryFn: async () => {
       if (!currentOrg) throw new Error('No organization selected');
 
@@ -122,6 +124,7 @@ export function AnalyticsPage() {
           start_date: startDate,
           end_date: endDate,
           status: statusFilter === 'all' ? undefined : [statusFilter],
+          pipeline_id: pipelineId || undefined,
           timeline_granularity: 'month',
         }),
       });
@@ -176,6 +179,7 @@ export function AnalyticsPage() {
           start_date: startDate,
           end_date: endDate,
           status: statusFilter === 'all' ? undefined : [statusFilter],
+          pipeline_id: pipelineId || undefined,
           format: 'csv',
         }),
       });
@@ -264,6 +268,7 @@ export function AnalyticsPage() {
             </Text>
           </div>
           <Group>
+            <PipelineSelect value={pipelineId} onChange={setPipelineId} allowAll />
             <Select
               label="Timeframe"
               value={timeframe}
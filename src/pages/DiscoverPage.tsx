@@ -49,6 +49,7 @@ import {
 import { AppHeader } from "../components/AppHeader";
 import { QuickSearchModal, useQuickSearchModal } from "../components/QuickSearchModal";
 import { SavedViewsPanel } from "../components/SavedViewsPanel";
+import { PipelineSelect } from '../components/pipeline/PipelineSelect';
 import { FitScoreBadge } from "../components/FitScoreBadge";
 import { QuickAddGrantModal } from "../components/QuickAddGrantModal";
 import { SaveToPipelineModal, type SaveToPipelineData } from "../components/SaveToPipelineModal";
@@ -83,6 +84,9 @@ export function DiscoverPage() {
   const [sortBy, setSortBy] = useState<string>("due_soon"); // relevance, due_soon, newest
   const [currentPage, setCurrentPage] = useState(1);
 
+  // Pipeline that saved views are scoped to and new grants are saved into
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
+
   // Details modal state
   const [selectedGrantId, setSelectedGrantId] = useState<string | null>(null);
   const [detailsModalOpen, setDetailsModalOpen] = useState(false);
@@ -373,6 +377,7 @@ export function DiscoverPage() {
           open_date: grantToSave.openDate,
           close_date: grantToSave.closeDate,
           description: description,
+          pipeline_id: pipelineData.pipeline_id || undefined,
           status: pipelineData.status,
           priority: pipelineData.priority,
           assigned_to: pipelineData.assigned_to,
@@ -427,7 +432,12 @@ export function DiscoverPage() {
                 Search and save grant opportunities from Grants.gov to your pipeline
               </Text>
             </Stack>
-            <Group>
+            <Group align="flex-end">
+              <PipelineSelect
+                value={pipelineId}
+                onChange={setPipelineId}
+                allowAll
+              />
               <Button
                 variant="outline"
                 color="grape"
@@ -463,6 +473,7 @@ export function DiscoverPage() {
               sort_by: sortBy,
             }}
             onLoadView={handleLoadSearch}
+            pipelineId={pipelineId}
           />
 
           {/* Eligibility Profile Banner */}
@@ -1045,6 +1056,7 @@ export function DiscoverPage() {
         onSave={handleSaveWithPipelineData}
         grantTitle={grantToSave?.title || ""}
         saving={isSaving}
+        defaultPipelineId={pipelineId}
       />
     </Box>
   );
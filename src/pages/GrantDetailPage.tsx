@@ -29,6 +29,7 @@ import {
   IconSparkles,
   IconFile,
   IconClipboardCheck,
+  IconHistory,
 } from "@tabler/icons-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
@@ -40,6 +41,7 @@ import { BudgetTab } from "../components/BudgetTab";
 import { PaymentScheduleTab } from "../components/PaymentScheduleTab";
 import { ComplianceTab } from "../components/ComplianceTab";
 import { AISummaryTab } from "../components/AISummaryTab";
+import { CatalogChangesTab } from '../components/CatalogChangesTab';
 import { DocumentsTab } from "../components/DocumentsTab";
 import { PreFlightChecklistTab } from "../components/PreFlightChecklistTab";
 import { MentionTextarea } from "../components/MentionTextarea";
@@ -50,6 +52,8 @@ import { stripHtml } from "../utils/htmlUtils";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
 import { useOrganization } from "../contexts/OrganizationContext";
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { stagesForPipeline } from '../types/pipelineStages';
 
 interface Grant {
   id: string;
@@ -63,6 +67,7 @@ interface Grant {
   loi_deadline: string | null;
   description: string | null;
   status: string;
+  pipeline_id: string;
   priority: string | null;
   notes: string | null;
   org_id: string;
@@ -70,6 +75,7 @@ interface Grant {
   assigned_to: string | null;
   saved_at: string;
   stage_updated_at: string | null;
+  catalog_grant_id: string | null;
   created_at: string;
 }
 
@@ -87,6 +93,7 @@ export function GrantDetailPage() {
   const { user } = useAuth();
   const { currentOrg } = useOrganization();
   const queryClient = useQueryClient();
+  const { stages } = usePipelineStages();
   const [activeTab, setActiveTab] = useState<string | null>("tasks");
   const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [notesValue, setNotesValue] = useState("");
@@ -448,12 +455,10 @@ export function GrantDetailPage() {
                       updateGrantMutation.mutate({ field: 'status', value });
                     }
                   }}
-                  data={[
-                    { value: 'researching', label: 'Researching' },
-                    { value: 'drafting', label: 'Drafting' },
-                    { value: 'submitted', label: 'Submitted' },
-                    { value: 'awarded', label: 'Awarded' },
-                  ]}
+                  data={stagesForPipeline(stages, grant.pipeline_id).map((stage) => ({
+                    value: stage.key,
+                    label: stage.label,
+                  }))}
                   size="xs"
                   w={130}
                   styles={{
@@ -671,7 +676,7 @@ export function GrantDetailPage() {
 
           <Divider />
 
-          {/* Tabs for Tasks, Budget, Payments, Compliance, AI Summary, Pre-Flight Checklist, Notes, and Comments */}
+          {/* Tabs for Tasks, Budget, Payments, Compliance, AI Summary, Catalog Changes, Pre-Flight Checklist, Notes, and Comments */}
           <Tabs value={activeTab} onChange={setActiveTab}>
             <Tabs.List>
               <Tabs.Tab value="tasks">Tasks</Tabs.Tab>
@@ -693,6 +698,11 @@ export function GrantDetailPage() {
               <Tabs.Tab value="ai-summary" leftSection={<IconSparkles size={14} />}>
                 AI Summary
               </Tabs.Tab>
+              {grant.catalog_grant_id && (
+                <Tabs.Tab value="catalog-changes" leftSection={<IconHistory size={14} />}>
+                  What Changed
+                </Tabs.Tab>
+              )}
               <Tabs.Tab value="notes">Notes</Tabs.Tab>
               <Tabs.Tab value="comments">
                 Comments
@@ -733,6 +743,12 @@ export function GrantDetailPage() {
               />
             </Tabs.Panel>
 
+            {grant.catalog_grant_id && (
+              <Tabs.Panel value="catalog-changes" pt="md">
+                <CatalogChangesTab grantId={grant.id} />
+              </Tabs.Panel>
+            )}
+
             <Tabs.Panel value="notes" pt="md">
               <Stack gap="md">
                 {isEditingNotes ? (
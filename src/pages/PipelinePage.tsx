@@ -9,34 +9,33 @@ import {
   Group,
   Text,
 } from "@mantine/core";
-import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { notifications } from "@mantine/notifications";
+import dayjs from 'dayjs';
 import { AppHeader } from "../components/AppHeader";
 import { type GrantFilterValues } from "../components/GrantFilters";
 import { useOrganization } from "../contexts/OrganizationContext";
 import { ImportWizard } from "../components/ImportWizard";
 import { useSavedGrants, type SavedGrant } from "../hooks/useSavedGrants";
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { usePipelines } from '../hooks/usePipelines';
+import { moveGrantToPipeline } from '../utils/pipelinesApi';
+import { ARCHIVED_STAGE_KEY } from '../types/pipelineStages';
 import { useAuth } from "../contexts/AuthContext";
 import { supabase } from "../lib/supabase";
+import type { TeamMember } from '../types/api';
 import { PipelineHeader } from "../components/pipeline/PipelineHeader";
-import { PipelineViewToggle } from "../components/pipeline/PipelineViewToggle";
+import { PipelineViewToggle, type PipelineView } from '../components/pipeline/PipelineViewToggle';
+import { PipelineSelect } from '../components/pipeline/PipelineSelect';
 import { PipelineFilters } from "../components/pipeline/PipelineFilters";
 import { BulkActionsToolbar } from "../components/pipeline/BulkActionsToolbar";
 import { PipelineBoardView } from "../components/pipeline/PipelineBoardView";
 import { PipelineListView } from "../components/pipeline/PipelineListView";
-
-// Pipeline stages
-const PIPELINE_STAGES = [
-  { id: "researching", label: "Researching", color: "blue" },
-  { id: "go-no-go", label: "Go/No-Go", color: "yellow" },
-  { id: "drafting", label: "Drafting", color: "grape" },
-  { id: "submitted", label: "Submitted", color: "orange" },
-  { id: "awarded", label: "Awarded", color: "green" },
-  { id: "not-funded", label: "Not Funded", color: "red" },
-  { id: "closed-out", label: "Closed Out", color: "teal" },
-] as const;
-
-type PipelineStage = typeof PIPELINE_STAGES[number]["id"];
+import {
+  PipelineTimelineView,
+  type TimelineTask,
+  type TimelineMember,
+} from '../components/pipeline/PipelineTimelineView';
 
 export function PipelinePage() {
   const queryClient = useQueryClient();
@@ -44,6 +43,11 @@ export function PipelinePage() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
+  const { pipelines, defaultPipeline, getPipeline } = usePipelines();
+  // The pipeline being worked, kept in the URL; the default pipeline otherwise
+  const pipelineId = searchParams.get('pipeline') || defaultPipeline?.id || null;
+  const { stages, getStage, getStageLabel } = usePipelineStages(pipelineId);
+  const boardStages = stages.filter((stage) => stage.show_on_board);
   const [draggedItem, setDraggedItem] = useState<string | null>(null);
   const [filters, setFilters] = useState<GrantFilterValues>({
     priority: [],
@@ -57,17 +61,17 @@ export function PipelinePage() {
 
   // View state management with URL persistence
   const viewParam = searchParams.get('view');
-  const [view, setView] = useState<'board' | 'list'>(
-    viewParam === 'list' ? 'list' : 'board'
+  const [view, setView] = useState<PipelineView>(
+    viewParam === 'list' || viewParam === 'timeline' ? viewParam : 'board',
   );
 
   // Update URL when view changes
   useEffect(() => {
     const currentView = searchParams.get('view');
-    if (view === 'list' && currentView !== 'list') {
-      searchParams.set('view', 'list');
+    if (view !== 'board' && currentView !== view) {
+      searchParams.set('view', view);
       setSearchParams(searchParams, { replace: true });
-    } else if (view === 'board' && currentView === 'list') {
+    } else if (view === 'board' && currentView) {
       searchParams.delete('view');
       setSearchParams(searchParams, { replace: true });
     }
@@ -76,6 +80,56 @@ export function PipelinePage() {
   // Fetch saved grants using shared hook
   const { data, isLoading, error } = useSavedGrants();
 
+  // Tasks of every grant, for the timeline view
+  const { data: orgTasksData, isLoading: isLoadingTasks } = useQuery<{ tasks: TimelineTask[] }>({
+    queryKey: ['org-tasks', currentOrg?.id],
+    queryFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`/api/tasks?org_id=${currentOrg?.id}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch tasks');
+      }
+
+      return response.json();
+    },
+    enabled: !!currentOrg?.id && view === 'timeline',
+  });
+
+  // Same query as the assignee filter in GrantFilters
+  const { data: teamMembers } = useQuery<TimelineMember[]>({
+    queryKey: ['teamMembers', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg?.id) {
+        return [];
+      }
+
+      // @ts-expect-error - Supabase type inference issue with RPC functions
+      const { data, error } = await supabase.rpc('get_org_team_members', { org_uuid: currentOrg.id });
+
+      if (error) {
+        console.error('Failed to fetch team members:', error);
+        return [];
+      }
+
+      return ((data || []) as unknown as TeamMember[])
+        .filter((member) => member.user_id)
+        .map((member) => ({
+          value: member.user_id,
+          label: member.full_name || member.email || 'Unknown User',
+        }));
+    },
+    enabled: !!currentOrg?.id && view === 'timeline',
+  });
+
   // Handle URL parameters for deep linking from mentions
   useEffect(() => {
     const grantId = searchParams.get('grant');
@@ -96,7 +150,7 @@ export function PipelinePage() {
 
   // Update grant status mutation with optimistic updates
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ grantId, newStatus }: { grantId: string; newStatus: PipelineStage }) => {
+    mutationFn: async ({ grantId, newStatus }: { grantId: string; newStatus: string }) => {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
         throw new Error('Not authenticated');
@@ -171,6 +225,128 @@ export function PipelinePage() {
     },
   });
 
+  // Reschedule internal deadline mutation (timeline drag)
+  const rescheduleInternalDeadlineMutation = useMutation({
+    mutationFn: async ({ grantId, date }: { grantId: string; date: string }) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`/api/saved-status?id=${grantId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ internal_deadline: date }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to reschedule internal deadline');
+      }
+
+      return response.json();
+    },
+    onMutate: async ({ grantId, date }) => {
+      const queryKey = ['savedGrants', currentOrg?.id];
+      await queryClient.cancelQueries({ queryKey });
+      const previousData = queryClient.getQueryData(queryKey);
+
+      queryClient.setQueryData<{ grants: SavedGrant[] }>(queryKey, (old) => {
+        if (!old) {
+          return old;
+        }
+        return {
+          ...old,
+          grants: old.grants.map((grant) =>
+            grant.id === grantId ? { ...grant, internal_deadline: date } : grant,
+          ),
+        };
+      });
+
+      return { previousData };
+    },
+    onSuccess: (_data, { date }) => {
+      queryClient.invalidateQueries({ queryKey: ['savedGrants'] });
+      notifications.show({
+        title: 'Internal deadline moved',
+        message: `Now due ${dayjs(date).format('MMM D, YYYY')}`,
+        color: 'green',
+      });
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(['savedGrants', currentOrg?.id], context.previousData);
+      }
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to reschedule internal deadline',
+        color: 'red',
+      });
+    },
+  });
+
+  // Reschedule task mutation (timeline drag)
+  const rescheduleTaskMutation = useMutation({
+    mutationFn: async ({ taskId, date }: { taskId: string; date: string }) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`/api/tasks?id=${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ due_date: date }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to reschedule task');
+      }
+
+      return response.json();
+    },
+    onMutate: async ({ taskId, date }) => {
+      const queryKey = ['org-tasks', currentOrg?.id];
+      await queryClient.cancelQueries({ queryKey });
+      const previousData = queryClient.getQueryData(queryKey);
+
+      queryClient.setQueryData<{ tasks: TimelineTask[] }>(queryKey, (old) => {
+        if (!old) {
+          return old;
+        }
+        return {
+          ...old,
+          tasks: old.tasks.map((task) =>
+            task.id === taskId ? { ...task, due_date: date } : task,
+          ),
+        };
+      });
+
+      return { previousData };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['org-tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['grant-tasks', data.task?.grant_id] });
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(['org-tasks', currentOrg?.id], context.previousData);
+      }
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to reschedule task',
+        color: 'red',
+      });
+    },
+  });
+
   // Archive grant mutation
   const archiveGrantMutation = useMutation({
     mutationFn: async (grantId: string) => {
@@ -185,7 +361,7 @@ export function PipelinePage() {
           "Content-Type": "application/json",
           'Authorization': `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ status: "archived" }),
+        body: JSON.stringify({ status: ARCHIVED_STAGE_KEY }),
       });
 
       if (!response.ok) {
@@ -204,7 +380,7 @@ export function PipelinePage() {
         return {
           ...old,
           grants: old.grants.map((grant: SavedGrant) =>
-            grant.id === grantId ? { ...grant, status: "archived" } : grant
+            grant.id === grantId ? { ...grant, status: ARCHIVED_STAGE_KEY } : grant,
           ),
         };
       });
@@ -361,14 +537,27 @@ export function PipelinePage() {
         })
       );
 
-      await Promise.all(updatePromises);
+      const responses = await Promise.all(updatePromises);
 
       queryClient.invalidateQueries({ queryKey: ["savedGrants"] });
+
+      // Grants missing the stage's required fields are refused by the server
+      const failed = responses.filter((response) => !response.ok);
+      if (failed.length > 0) {
+        const errorData = await failed[0].json().catch(() => ({}));
+        notifications.show({
+          title: `${failed.length} of ${responses.length} grant(s) not moved`,
+          message: errorData.error || 'Failed to update some grants',
+          color: 'orange',
+        });
+        return;
+      }
+
       deselectAllGrants();
 
       notifications.show({
         title: "Status updated",
-        message: `${selectedGrantIds.size} grant(s) updated to ${status}`,
+        message: `${selectedGrantIds.size} grant(s) updated to ${getStageLabel(status)}`,
         color: "green",
       });
     } catch (error) {
@@ -382,6 +571,43 @@ export function PipelinePage() {
     }
   };
 
+  const handleBulkMoveToPipeline = async (targetPipelineId: string) => {
+    if (selectedGrantIds.size === 0) {
+      return;
+    }
+
+    setIsBulkOperating(true);
+    try {
+      // Grants start in the target pipeline's first open stage
+      const results = await Promise.allSettled(
+        Array.from(selectedGrantIds).map((grantId) => moveGrantToPipeline(grantId, targetPipelineId)),
+      );
+
+      queryClient.invalidateQueries({ queryKey: ['savedGrants'] });
+      queryClient.invalidateQueries({ queryKey: ['pipelines'] });
+
+      const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failed.length > 0) {
+        notifications.show({
+          title: `${failed.length} of ${results.length} grant(s) not moved`,
+          message: failed[0].reason instanceof Error ? failed[0].reason.message : 'Failed to move some grants',
+          color: 'orange',
+        });
+        return;
+      }
+
+      deselectAllGrants();
+
+      notifications.show({
+        title: 'Grants moved',
+        message: `${results.length} grant(s) moved to ${getPipeline(targetPipelineId)?.name || 'the pipeline'}`,
+        color: 'green',
+      });
+    } finally {
+      setIsBulkOperating(false);
+    }
+  };
+
   const handleBulkUpdatePriority = async (priority: string) => {
     if (selectedGrantIds.size === 0) return;
 
@@ -422,9 +648,16 @@ export function PipelinePage() {
     }
   };
 
+  // Grants of the selected pipeline
+  const pipelineGrants = (data?.grants || []).filter(
+    (grant) => !pipelineId || grant.pipeline_id === pipelineId,
+  );
+
   // Filter grants before grouping by stage
-  const filteredGrants = data?.grants ? data.grants.filter((grant) => {
-    if (grant.status === "archived") return false;
+  const filteredGrants = pipelineGrants.filter((grant) => {
+    if (grant.status === ARCHIVED_STAGE_KEY) {
+      return false;
+    }
 
     if (filters.priority && filters.priority.length > 0) {
       if (!grant.priority || !filters.priority.includes(grant.priority)) return false;
@@ -439,7 +672,7 @@ export function PipelinePage() {
     }
 
     return true;
-  }) : [];
+  });
 
   // Sort grants for list view
   const sortedAndFilteredGrants = [...filteredGrants].sort((a, b) => {
@@ -470,10 +703,45 @@ export function PipelinePage() {
   });
 
   // Group grants by status
-  const grantsByStage = PIPELINE_STAGES.reduce((acc, stage) => {
-    acc[stage.id] = filteredGrants.filter((g) => g.status === stage.id);
+  const grantsByStage = boardStages.reduce((acc, stage) => {
+    acc[stage.key] = filteredGrants.filter((g) => g.status === stage.key);
+    return acc;
+  }, {} as Record<string, SavedGrant[]>);
+
+  // WIP limits count every grant in a stage, not just the filtered ones
+  const stageCounts = pipelineGrants.reduce((acc, grant) => {
+    acc[grant.status] = (acc[grant.status] || 0) + 1;
     return acc;
-  }, {} as Record<PipelineStage, SavedGrant[]>);
+  }, {} as Record<string, number>);
+
+  // Move a grant on the board, respecting the target stage's WIP limit
+  const moveGrant = (grantId: string, newStatus: string) => {
+    const grant = data?.grants.find((g) => g.id === grantId);
+    if (!grant || grant.status === newStatus) {
+      return;
+    }
+
+    const stage = getStage(newStatus);
+    const count = stageCounts[newStatus] || 0;
+    if (stage?.wip_limit && count >= stage.wip_limit) {
+      if (stage.wip_limit_mode === 'block') {
+        notifications.show({
+          title: `${stage.label} is full`,
+          message: `It is at its limit of ${stage.wip_limit} grants. Move a grant out of it first.`,
+          color: 'red',
+        });
+        return;
+      }
+
+      notifications.show({
+        title: `${stage.label} is over its WIP limit`,
+        message: `It now holds ${count + 1} grants against a limit of ${stage.wip_limit}.`,
+        color: 'orange',
+      });
+    }
+
+    updateStatusMutation.mutate({ grantId, newStatus });
+  };
 
   // Drag and drop handlers
   const handleDragStart = (e: React.DragEvent, grantId: string) => {
@@ -486,10 +754,10 @@ export function PipelinePage() {
     e.dataTransfer.dropEffect = "move";
   };
 
-  const handleDrop = (e: React.DragEvent, newStatus: PipelineStage) => {
+  const handleDrop = (e: React.DragEvent, newStatus: string) => {
     e.preventDefault();
     if (draggedItem) {
-      updateStatusMutation.mutate({ grantId: draggedItem, newStatus });
+      moveGrant(draggedItem, newStatus);
       setDraggedItem(null);
     }
   };
@@ -523,12 +791,24 @@ export function PipelinePage() {
             onImportClick={() => setImportWizardOpen(true)}
           />
 
+          {/* Pipeline Selector */}
+          <PipelineSelect
+            value={pipelineId}
+            onChange={(value) => {
+              if (value) {
+                searchParams.set('pipeline', value);
+                setSearchParams(searchParams, { replace: true });
+                deselectAllGrants();
+              }
+            }}
+          />
+
           {/* View Toggle */}
           <PipelineViewToggle
             view={view}
             onViewChange={setView}
             filteredCount={filteredGrants.length}
-            totalCount={data?.grants.length || 0}
+            totalCount={pipelineGrants.length}
           />
 
           {/* Filters */}
@@ -545,10 +825,13 @@ export function PipelinePage() {
           {/* Bulk Actions Toolbar (List View Only) */}
           {view === 'list' && (
             <BulkActionsToolbar
+              stages={stages.filter((stage) => stage.key !== ARCHIVED_STAGE_KEY)}
+              pipelines={pipelines.filter((pipeline) => pipeline.id !== pipelineId)}
               selectedCount={selectedGrantIds.size}
               onDeselectAll={deselectAllGrants}
               onBulkUpdateStatus={handleBulkUpdateStatus}
               onBulkUpdatePriority={handleBulkUpdatePriority}
+              onBulkMoveToPipeline={handleBulkMoveToPipeline}
               onBulkDelete={handleBulkDelete}
               isOperating={isBulkOperating}
             />
@@ -576,18 +859,30 @@ export function PipelinePage() {
           ) : view === 'board' ? (
             // Board View
             <PipelineBoardView
+              stages={boardStages}
               grantsByStage={grantsByStage}
+              stageCounts={stageCounts}
               draggedItem={draggedItem}
               onDragStart={handleDragStart}
               onDragEnd={handleDragEnd}
               onDragOver={handleDragOver}
               onDrop={handleDrop}
-              onUpdateStatus={(grantId, newStatus) =>
-                updateStatusMutation.mutate({ grantId, newStatus })
-              }
+              onUpdateStatus={moveGrant}
               onArchive={(grantId) => archiveGrantMutation.mutate(grantId)}
               onRemove={(grantId) => removeFromPipelineMutation.mutate(grantId)}
             />
+          ) : view === 'timeline' ? (
+            // Timeline View
+            <PipelineTimelineView
+              grants={sortedAndFilteredGrants}
+              tasks={orgTasksData?.tasks || []}
+              teamMembers={teamMembers || []}
+              isLoadingTasks={isLoadingTasks}
+              onRescheduleInternalDeadline={(grantId, date) =>
+                rescheduleInternalDeadlineMutation.mutate({ grantId, date })
+              }
+              onRescheduleTask={(taskId, date) => rescheduleTaskMutation.mutate({ taskId, date })}
+            />
           ) : (
             // List View
             <PipelineListView
@@ -606,6 +901,7 @@ export function PipelinePage() {
       {/* Import Wizard Modal */}
       <ImportWizard
         opened={importWizardOpen}
+        pipelineId={pipelineId}
         onClose={() => setImportWizardOpen(false)}
         onSuccess={() => {
           queryClient.invalidateQueries({ queryKey: ['savedGrants'] });
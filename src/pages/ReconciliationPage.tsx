@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Box,
+  Container,
+  Title,
+  Text,
+  Stack,
+  Group,
+  Button,
+  Paper,
+  Table,
+  Badge,
+  Modal,
+  Loader,
+  Center,
+} from '@mantine/core';
+import { IconUpload } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { AppHeader } from '../components/AppHeader';
+import { ReconciliationWizard } from '../components/ReconciliationWizard';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { fetchReconciliations } from '../utils/reconciliationApi';
+import type { BankReconciliation } from '../types/reconciliation';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+export function ReconciliationPage() {
+  const { currentOrg } = useOrganization();
+  const [wizardOpened, setWizardOpened] = useState(false);
+  const [viewing, setViewing] = useState<BankReconciliation | null>(null);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['reconciliations', currentOrg?.id],
+    queryFn: () => fetchReconciliations(currentOrg?.id ?? ''),
+    enabled: !!currentOrg,
+  });
+
+  if (!currentOrg) {
+    return (
+      <Box>
+        <AppHeader subtitle="Reconciliation" />
+        <Container size="xl" py="xl">
+          <Text>Please select an organization</Text>
+        </Container>
+      </Box>
+    );
+  }
+
+  const reconciliations = data?.reconciliations || [];
+
+  return (
+    <Box bg="var(--mantine-color-gray-0)" mih="100vh">
+      <AppHeader subtitle="Reconciliation" />
+
+      <Container size="lg" py="xl">
+        <Stack gap="lg">
+          <Group justify="space-between">
+            <div>
+              <Title order={1}>Reconciliation</Title>
+              <Text c="dimmed" size="lg">
+                Match bank and general-ledger statements to grant disbursements
+              </Text>
+            </div>
+            <Button leftSection={<IconUpload size={16} />} onClick={() => setWizardOpened(true)}>
+              Import Statement
+            </Button>
+          </Group>
+
+          <Paper p="md" withBorder>
+            <Group justify="space-between" mb="md">
+              <Text size="sm" fw={600}>
+                Statement Imports
+              </Text>
+              {data && (
+                <Badge color={data.unreconciled_count > 0 ? 'yellow' : 'green'} variant="light">
+                  {data.unreconciled_count} unreconciled{' '}
+                  {data.unreconciled_count === 1 ? 'disbursement' : 'disbursements'}
+                </Badge>
+              )}
+            </Group>
+
+            {isLoading ? (
+              <Center py="xl">
+                <Loader size="sm" />
+              </Center>
+            ) : reconciliations.length === 0 ? (
+              <Text size="sm" c="dimmed" ta="center" py="xl">
+                No statements imported yet.
+              </Text>
+            ) : (
+              <Table striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Imported</Table.Th>
+                    <Table.Th>File</Table.Th>
+                    <Table.Th>Statement Period</Table.Th>
+                    <Table.Th ta="right">Matched</Table.Th>
+                    <Table.Th>By</Table.Th>
+                    <Table.Th />
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {reconciliations.map((record) => (
+                    <Table.Tr key={record.id}>
+                      <Table.Td>{dayjs(record.created_at).format('MMM D, YYYY')}</Table.Td>
+                      <Table.Td>
+                        <Text size="sm" lineClamp={1}>
+                          {record.file_name}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        {record.statement_start && record.statement_end
+                          ? `${dayjs(record.statement_start).format('MMM D')} – ${dayjs(
+                              record.statement_end,
+                            ).format('MMM D, YYYY')}`
+                          : '—'}
+                      </Table.Td>
+                      <Table.Td ta="right">
+                        {record.matched_count} of {record.row_count}
+                      </Table.Td>
+                      <Table.Td>{record.reconciled_by_name || '—'}</Table.Td>
+                      <Table.Td>
+                        {record.unmatched_rows.length > 0 && (
+                          <Button size="xs" variant="subtle" onClick={() => setViewing(record)}>
+                            {record.unmatched_rows.length} unmatched
+                          </Button>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Paper>
+        </Stack>
+      </Container>
+
+      <ReconciliationWizard
+        opened={wizardOpened}
+        onClose={() => setWizardOpened(false)}
+        onSuccess={() => refetch()}
+      />
+
+      <Modal
+        opened={!!viewing}
+        onClose={() => setViewing(null)}
+        title={viewing ? `Unmatched rows in ${viewing.file_name}` : ''}
+        size="lg"
+      >
+        <Table fz="xs" striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Row</Table.Th>
+              <Table.Th>Date</Table.Th>
+              <Table.Th>Description</Table.Th>
+              <Table.Th ta="right">Amount</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {viewing?.unmatched_rows.map((row) => (
+              <Table.Tr key={row.row}>
+                <Table.Td c="dimmed">{row.row}</Table.Td>
+                <Table.Td>{dayjs(row.date).format('MMM D, YYYY')}</Table.Td>
+                <Table.Td>
+                  {row.description || '—'}
+                  {row.reference && ` (Ref ${row.reference})`}
+                </Table.Td>
+                <Table.Td ta="right">{formatCurrency(row.amount)}</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Modal>
+    </Box>
+  );
+}
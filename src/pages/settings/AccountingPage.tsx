@@ -0,0 +1,478 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Stack,
+  Title,
+  Text,
+  Divider,
+  Paper,
+  Button,
+  Group,
+  TextInput,
+  Select,
+  Alert,
+  ActionIcon,
+  Loader,
+  Center,
+  SimpleGrid,
+  Table,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconAlertCircle, IconPlus, IconTrash } from '@tabler/icons-react';
+import { SettingsLayout } from '../../components/SettingsLayout';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { usePermission } from '../../hooks/usePermission';
+import { fetchAccountingSettings, updateAccountingSettings } from '../../utils/accountingApi';
+import type {
+  AccountingMapping,
+  AccountingSettings,
+  AccountingSettingsResponse,
+} from '../../types/accounting';
+
+// Grant overrides being edited; draftId keeps React keys stable while the
+// grant and category change
+type DraftOverride = AccountingMapping & { draftId: string };
+
+interface Draft {
+  settings: AccountingSettings;
+  // Org-wide account and class per budget category
+  categories: Record<string, { expense_account: string | null; class_name: string | null }>;
+  overrides: DraftOverride[];
+}
+
+const ALL_CATEGORIES = 'all';
+
+let nextDraftId = 0;
+
+function toDraft(data: AccountingSettingsResponse): Draft {
+  const categories: Draft['categories'] = {};
+  for (const category of data.categories) {
+    const mapping = data.mappings.find((m) => m.grant_id === null && m.category === category.value);
+    categories[category.value] = {
+      expense_account: mapping?.expense_account ?? null,
+      class_name: mapping?.class_name ?? null,
+    };
+  }
+
+  return {
+    settings: data.settings,
+    categories,
+    overrides: data.mappings
+      .filter((mapping) => mapping.grant_id !== null)
+      .map((mapping) => ({ ...mapping, draftId: `${mapping.grant_id}:${mapping.category}` })),
+  };
+}
+
+function blankToNull(value: string | null): string | null {
+  return value?.trim() || null;
+}
+
+export function AccountingPage() {
+  const { currentOrg } = useOrganization();
+  const { isAdmin } = usePermission();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['accountingSettings', currentOrg?.id],
+    queryFn: () => fetchAccountingSettings(currentOrg?.id ?? ''),
+    enabled: !!currentOrg,
+  });
+
+  // null until the first edit, so the saved settings show until then
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const current = draft ?? (data ? toDraft(data) : null);
+
+  const updateSettings = (changes: Partial<AccountingSettings>) => {
+    if (current) {
+      setDraft({ ...current, settings: { ...current.settings, ...changes } });
+    }
+  };
+
+  const updateCategory = (category: string, changes: Partial<Draft['categories'][string]>) => {
+    if (current) {
+      setDraft({
+        ...current,
+        categories: {
+          ...current.categories,
+          [category]: { ...current.categories[category], ...changes },
+        },
+      });
+    }
+  };
+
+  const updateOverride = (index: number, changes: Partial<DraftOverride>) => {
+    if (current) {
+      setDraft({
+        ...current,
+        overrides: current.overrides.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+      });
+    }
+  };
+
+  const addOverride = () => {
+    if (current) {
+      setDraft({
+        ...current,
+        overrides: [
+          ...current.overrides,
+          {
+            draftId: `new-${nextDraftId++}`,
+            grant_id: null,
+            category: null,
+            expense_account: null,
+            revenue_account: null,
+            class_name: null,
+          },
+        ],
+      });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: Draft) =>
+      updateAccountingSettings(currentOrg?.id ?? '', {
+        settings: {
+          ...values.settings,
+          bank_account: blankToNull(values.settings.bank_account),
+          revenue_account: blankToNull(values.settings.revenue_account),
+          default_expense_account: blankToNull(values.settings.default_expense_account),
+        },
+        mappings: [
+          ...Object.entries(values.categories).map(([category, mapping]) => ({
+            grant_id: null,
+            category,
+            expense_account: blankToNull(mapping.expense_account),
+            revenue_account: null,
+            class_name: blankToNull(mapping.class_name),
+          })),
+          ...values.overrides.map(({ draftId: _draftId, ...mapping }) => ({
+            ...mapping,
+            expense_account: blankToNull(mapping.expense_account),
+            revenue_account: mapping.category ? null : blankToNull(mapping.revenue_account),
+            class_name: blankToNull(mapping.class_name),
+          })),
+        ],
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountingSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['accountingExport'] });
+      setDraft(null);
+      notifications.show({
+        title: 'Accounting settings saved',
+        message: 'New exports will use the updated accounts.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const grantOptions = (data?.grants || []).map((grant) => ({
+    value: grant.id,
+    label: grant.title || 'Untitled grant',
+  }));
+  const categoryOptions = [
+    { value: ALL_CATEGORIES, label: 'All categories' },
+    ...(data?.categories || []),
+  ];
+
+  const overrides = current?.overrides || [];
+  const missingGrant = overrides.some((row) => !row.grant_id);
+  const overrideKeys = overrides.map((row) => `${row.grant_id}:${row.category}`);
+  const hasDuplicate = new Set(overrideKeys).size !== overrideKeys.length;
+
+  return (
+    <ProtectedRoute>
+      <SettingsLayout>
+        <Stack gap="lg">
+          {/* Header */}
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="sm">
+              <Title order={1}>Accounting</Title>
+              <Text c="dimmed" size="lg">
+                Accounts and classes for exporting grant transactions to QuickBooks and Xero
+              </Text>
+            </Stack>
+          </Group>
+
+          <Divider />
+
+          {!isAdmin && (
+            <Alert icon={<IconAlertCircle size={16} />} color="blue" variant="light">
+              Only organization admins can change accounting settings.
+            </Alert>
+          )}
+
+          <Text size="sm" c="dimmed">
+            Enter account names as they appear in QuickBooks, or account codes for Xero. Expenses
+            are posted to the expense account of their budget category and paid from the bank
+            account; payments received are posted to the revenue account. A grant override beats the
+            category&apos;s account, and an override for one category of a grant beats both. Classes
+            become QuickBooks classes or Xero tracking options.
+          </Text>
+
+          {isLoading || !current ? (
+            <Center py="xl">
+              <Loader size="sm" />
+            </Center>
+          ) : (
+            <>
+              <Paper p="md" withBorder>
+                <Text size="sm" fw={600} mb="md">
+                  Default Accounts
+                </Text>
+                <SimpleGrid cols={{ base: 1, sm: 3 }}>
+                  <TextInput
+                    label="Bank account"
+                    description="Where grant money is paid from and received"
+                    value={current.settings.bank_account || ''}
+                    onChange={(e) => updateSettings({ bank_account: e.currentTarget.value })}
+                    maxLength={255}
+                    disabled={!isAdmin}
+                  />
+                  <TextInput
+                    label="Revenue account"
+                    description="For payments received from funders"
+                    value={current.settings.revenue_account || ''}
+                    onChange={(e) => updateSettings({ revenue_account: e.currentTarget.value })}
+                    maxLength={255}
+                    disabled={!isAdmin}
+                  />
+                  <TextInput
+                    label="Default expense account"
+                    description="For categories without their own account"
+                    value={current.settings.default_expense_account || ''}
+                    onChange={(e) =>
+                      updateSettings({ default_expense_account: e.currentTarget.value })
+                    }
+                    maxLength={255}
+                    disabled={!isAdmin}
+                  />
+                  <TextInput
+                    label="Xero tracking category"
+                    description="The tracking category classes belong to"
+                    value={current.settings.tracking_category}
+                    onChange={(e) => updateSettings({ tracking_category: e.currentTarget.value })}
+                    maxLength={100}
+                    disabled={!isAdmin}
+                    required
+                  />
+                  <TextInput
+                    label="Xero tax rate"
+                    description="Applied to every journal line"
+                    value={current.settings.xero_tax_rate}
+                    onChange={(e) => updateSettings({ xero_tax_rate: e.currentTarget.value })}
+                    maxLength={100}
+                    disabled={!isAdmin}
+                    required
+                  />
+                </SimpleGrid>
+              </Paper>
+
+              <Paper p="md" withBorder>
+                <Text size="sm" fw={600} mb="md">
+                  Budget Categories
+                </Text>
+                <Table>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Category</Table.Th>
+                      <Table.Th>Expense account</Table.Th>
+                      <Table.Th>Class</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {(data?.categories || []).map((category) => (
+                      <Table.Tr key={category.value}>
+                        <Table.Td>{category.label}</Table.Td>
+                        <Table.Td>
+                          <TextInput
+                            size="xs"
+                            placeholder={current.settings.default_expense_account || 'Not set'}
+                            value={current.categories[category.value]?.expense_account || ''}
+                            onChange={(e) =>
+                              updateCategory(category.value, {
+                                expense_account: e.currentTarget.value,
+                              })
+                            }
+                            maxLength={255}
+                            disabled={!isAdmin}
+                          />
+                        </Table.Td>
+                        <Table.Td>
+                          <TextInput
+                            size="xs"
+                            placeholder="None"
+                            value={current.categories[category.value]?.class_name || ''}
+                            onChange={(e) =>
+                              updateCategory(category.value, { class_name: e.currentTarget.value })
+                            }
+                            maxLength={255}
+                            disabled={!isAdmin}
+                          />
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              </Paper>
+
+              <Paper p="md" withBorder>
+                <Group justify="space-between" mb="md">
+                  <Text size="sm" fw={600}>
+                    Grant Overrides
+                  </Text>
+                  {isAdmin && (
+                    <Button
+                      size="xs"
+                      variant="light"
+                      leftSection={<IconPlus size={14} />}
+                      onClick={addOverride}
+                      disabled={grantOptions.length === 0}
+                    >
+                      Add Override
+                    </Button>
+                  )}
+                </Group>
+
+                {overrides.length === 0 ? (
+                  <Text size="sm" c="dimmed" ta="center" py="md">
+                    {grantOptions.length === 0
+                      ? 'Grants can be mapped once they have a budget.'
+                      : 'Every grant uses the category accounts. Add an override to give a grant its own class or accounts.'}
+                  </Text>
+                ) : (
+                  <Table>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Grant</Table.Th>
+                        <Table.Th>Category</Table.Th>
+                        <Table.Th>Expense account</Table.Th>
+                        <Table.Th>Revenue account</Table.Th>
+                        <Table.Th>Class</Table.Th>
+                        <Table.Th />
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {overrides.map((row, index) => (
+                        <Table.Tr key={row.draftId}>
+                          <Table.Td>
+                            <Select
+                              size="xs"
+                              placeholder="Select grant"
+                              data={grantOptions}
+                              value={row.grant_id}
+                              onChange={(value) => updateOverride(index, { grant_id: value })}
+                              searchable
+                              disabled={!isAdmin}
+                            />
+                          </Table.Td>
+                          <Table.Td>
+                            <Select
+                              size="xs"
+                              data={categoryOptions}
+                              value={row.category || ALL_CATEGORIES}
+                              onChange={(value) =>
+                                updateOverride(index, {
+                                  category: !value || value === ALL_CATEGORIES ? null : value,
+                                })
+                              }
+                              allowDeselect={false}
+                              disabled={!isAdmin}
+                            />
+                          </Table.Td>
+                          <Table.Td>
+                            <TextInput
+                              size="xs"
+                              placeholder="Category account"
+                              value={row.expense_account || ''}
+                              onChange={(e) =>
+                                updateOverride(index, { expense_account: e.currentTarget.value })
+                              }
+                              maxLength={255}
+                              disabled={!isAdmin}
+                            />
+                          </Table.Td>
+                          <Table.Td>
+                            <TextInput
+                              size="xs"
+                              placeholder={row.category ? 'Grant-wide only' : 'Default'}
+                              value={row.category ? '' : row.revenue_account || ''}
+                              onChange={(e) =>
+                                updateOverride(index, { revenue_account: e.currentTarget.value })
+                              }
+                              maxLength={255}
+                              disabled={!isAdmin || !!row.category}
+                            />
+                          </Table.Td>
+                          <Table.Td>
+                            <TextInput
+                              size="xs"
+                              placeholder="Category class"
+                              value={row.class_name || ''}
+                              onChange={(e) =>
+                                updateOverride(index, { class_name: e.currentTarget.value })
+                              }
+                              maxLength={255}
+                              disabled={!isAdmin}
+                            />
+                          </Table.Td>
+                          <Table.Td>
+                            {isAdmin && (
+                              <ActionIcon
+                                variant="subtle"
+                                color="red"
+                                onClick={() =>
+                                  setDraft({
+                                    ...current,
+                                    overrides: overrides.filter((_, i) => i !== index),
+                                  })
+                                }
+                                aria-label="Remove override"
+                              >
+                                <IconTrash size={16} />
+                              </ActionIcon>
+                            )}
+                          </Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                )}
+              </Paper>
+            </>
+          )}
+
+          {isAdmin && draft && (
+            <Stack gap="xs">
+              {hasDuplicate && (
+                <Alert icon={<IconAlertCircle size={16} />} color="orange" variant="light">
+                  A grant can only have one override per category.
+                </Alert>
+              )}
+              <Group justify="flex-end">
+                <Button variant="default" onClick={() => setDraft(null)}>
+                  Discard Changes
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate(draft)}
+                  loading={saveMutation.isPending}
+                  disabled={
+                    missingGrant ||
+                    hasDuplicate ||
+                    !draft.settings.tracking_category.trim() ||
+                    !draft.settings.xero_tax_rate.trim()
+                  }
+                >
+                  Save Settings
+                </Button>
+              </Group>
+            </Stack>
+          )}
+        </Stack>
+      </SettingsLayout>
+    </ProtectedRoute>
+  );
+}
@@ -1,5 +1,5 @@
 import { Tabs } from '@mantine/core';
-import { IconApi, IconUserCog, IconBuilding } from '@tabler/icons-react';
+import { IconApi, IconUserCog, IconBuilding, IconRefresh } from '@tabler/icons-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { SettingsLayout } from '../../components/SettingsLayout';
 import { AccessDenied } from '../../components/ProtectedRoute';
@@ -7,6 +7,7 @@ import { usePermission } from '../../hooks/usePermission';
 import { APITestingPage } from './APITestingPage';
 import { AdminUsersPage } from './AdminUsersPage';
 import { AdminOrganizationsPage } from './AdminOrganizationsPage';
+import { AdminSyncPage } from './AdminSyncPage';
 
 export function AdminPage() {
   const { isPlatformAdmin } = usePermission();
@@ -41,6 +42,9 @@ export function AdminPage() {
           <Tabs.Tab value="organizations" leftSection={<IconBuilding size={16} />}>
             Organizations
           </Tabs.Tab>
+          <Tabs.Tab value="grant-sync" leftSection={<IconRefresh size={16} />}>
+            Grant Sync
+          </Tabs.Tab>
         </Tabs.List>
 
         <Tabs.Panel value="api-testing" pt="lg">
@@ -54,6 +58,10 @@ export function AdminPage() {
         <Tabs.Panel value="organizations" pt="lg">
           <AdminOrganizationsPage />
         </Tabs.Panel>
+
+        <Tabs.Panel value="grant-sync" pt="lg">
+          <AdminSyncPage />
+        </Tabs.Panel>
       </Tabs>
     </SettingsLayout>
   );
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import {
+  Stack,
+  Title,
+  Text,
+  Paper,
+  Table,
+  Group,
+  Badge,
+  Alert,
+  Button,
+  Select,
+  Loader,
+  Progress,
+  Tooltip,
+} from '@mantine/core';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { IconAlertCircle, IconPlayerPlay, IconRefresh } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { supabase } from '../../lib/supabase';
+import { notifications } from '@mantine/notifications';
+
+dayjs.extend(relativeTime);
+
+interface SyncJob {
+  id: string;
+  job_type: 'full' | 'incremental' | 'single';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  grants_fetched: number;
+  grants_created: number;
+  grants_updated: number;
+  duplicates_found: number;
+  error_message: string | null;
+  retry_count: number;
+  checkpoint_page: number | null;
+  pages_completed: number | null;
+  total_pages: number | null;
+  total_items: number | null;
+  next_retry_at: string | null;
+  last_heartbeat_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  source: { source_key: string; source_name: string } | null;
+}
+
+interface GrantSourceOption {
+  source_key: string;
+  source_name: string;
+}
+
+async function authorizedFetch(url: string, init: RequestInit = {}) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data;
+}
+
+const getStatusColor = (status: SyncJob['status']) => {
+  switch (status) {
+    case 'completed':
+      return 'green';
+    case 'running':
+      return 'blue';
+    case 'pending':
+      return 'yellow';
+    case 'failed':
+      return 'red';
+    default:
+      return 'gray';
+  }
+};
+
+function JobProgress({ job }: { job: SyncJob }) {
+  if (job.job_type !== 'full') {
+    return (
+      <Text size="xs" c="dimmed">
+        —
+      </Text>
+    );
+  }
+
+  const pages = job.pages_completed || 0;
+
+  if (!job.total_pages) {
+    return <Text size="xs">{pages} pages</Text>;
+  }
+
+  const percent = job.status === 'completed' ? 100 : Math.round((pages / job.total_pages) * 100);
+
+  return (
+    <Stack gap={4}>
+      <Progress value={percent} size="sm" color={getStatusColor(job.status)} />
+      <Text size="xs" c="dimmed">
+        {pages} / {job.total_pages} pages ({percent}%)
+      </Text>
+    </Stack>
+  );
+}
+
+export function AdminSyncPage() {
+  const [sourceKey, setSourceKey] = useState<string | null>(null);
+  const [jobType, setJobType] = useState<string>('full');
+  const queryClient = useQueryClient();
+
+  const {
+    data: jobs,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-sync-jobs'],
+    queryFn: async () => {
+      const data = await authorizedFetch('/api/admin/sync');
+      return data.jobs as SyncJob[];
+    },
+    // Poll while a job is moving so progress stays current
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.status === 'running') ? 10000 : false,
+  });
+
+  const { data: sources } = useQuery({
+    queryKey: ['admin-grant-sources'],
+    queryFn: async () => {
+      const data = await authorizedFetch('/api/admin/grant-sources');
+      return data.sources as GrantSourceOption[];
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: (body: Record<string, string>) =>
+      authorizedFetch('/api/admin/sync', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+    onSuccess: (data) => {
+      notifications.show({
+        title: 'Sync',
+        message: data.message,
+        color: data.job?.status === 'completed' ? 'green' : 'yellow',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Sync failed',
+        message: error.message,
+        color: 'red',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-sync-jobs'] });
+    },
+  });
+
+  return (
+    <Stack gap="lg">
+      <div>
+        <Title order={2}>Grant Sync</Title>
+        <Text c="dimmed" size="sm">
+          Catalog sync jobs by source. Full syncs save a checkpoint after every page; paused or
+          failed jobs are resumed by the hourly sync cron.
+        </Text>
+      </div>
+
+      {error && (
+        <Alert color="red" icon={<IconAlertCircle size={16} />}>
+          <Text size="sm" fw={500}>
+            Error loading sync jobs
+          </Text>
+          <Text size="xs" mt={4}>
+            {error.message}
+          </Text>
+        </Alert>
+      )}
+
+      <Paper p="md" withBorder>
+        <Group align="flex-end">
+          <Select
+            label="Source"
+            placeholder="Select source"
+            value={sourceKey}
+            onChange={setSourceKey}
+            data={(sources || []).map((source) => ({
+              value: source.source_key,
+              label: source.source_name,
+            }))}
+            style={{ width: 260 }}
+          />
+          <Select
+            label="Job type"
+            value={jobType}
+            onChange={(value) => setJobType(value || 'full')}
+            data={[
+              { value: 'full', label: 'Full' },
+              { value: 'incremental', label: 'Incremental' },
+            ]}
+            style={{ width: 160 }}
+          />
+          <Button
+            leftSection={<IconPlayerPlay size={16} />}
+            disabled={!sourceKey}
+            loading={syncMutation.isPending && !syncMutation.variables?.job_id}
+            onClick={() =>
+              sourceKey && syncMutation.mutate({ source_key: sourceKey, job_type: jobType })
+            }
+          >
+            Start sync
+          </Button>
+        </Group>
+      </Paper>
+
+      <Paper p="md" withBorder>
+        <Stack gap="md">
+          <Text fw={600} size="sm">
+            Recent Jobs
+          </Text>
+
+          {isLoading ? (
+            <Group justify="center" py="xl">
+              <Loader size="sm" />
+              <Text size="sm" c="dimmed">
+                Loading sync jobs...
+              </Text>
+            </Group>
+          ) : jobs && jobs.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="xl">
+              No sync jobs yet
+            </Text>
+          ) : (
+            <Table.ScrollContainer minWidth={1000}>
+              <Table striped highlightOnHover>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Source</Table.Th>
+                    <Table.Th>Type</Table.Th>
+                    <Table.Th>Status</Table.Th>
+                    <Table.Th>Progress</Table.Th>
+                    <Table.Th>Grants</Table.Th>
+                    <Table.Th>Started</Table.Th>
+                    <Table.Th>Actions</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {jobs?.map((job) => (
+                    <Table.Tr key={job.id}>
+                      <Table.Td>
+                        <Text size="sm" fw={500}>
+                          {job.source?.source_name || 'Unknown source'}
+                        </Text>
+                        <Text size="xs" c="dimmed">
+                          {job.source?.source_key}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{job.job_type}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Stack gap={4}>
+                          <Tooltip
+                            label={job.error_message}
+                            disabled={!job.error_message}
+                            multiline
+                            w={300}
+                          >
+                            <Badge size="sm" color={getStatusColor(job.status)} variant="light">
+                              {job.status}
+                            </Badge>
+                          </Tooltip>
+                          {job.status === 'pending' && job.next_retry_at && (
+                            <Text size="xs" c="dimmed">
+                              Retry {job.retry_count} {dayjs(job.next_retry_at).fromNow()}
+                            </Text>
+                          )}
+                          {job.status === 'running' && job.last_heartbeat_at && (
+                            <Text size="xs" c="dimmed">
+                              Updated {dayjs(job.last_heartbeat_at).fromNow()}
+                            </Text>
+                          )}
+                        </Stack>
+                      </Table.Td>
+                      <Table.Td style={{ minWidth: 180 }}>
+                        <JobProgress job={job} />
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="xs">
+                          {job.grants_fetched} fetched · {job.grants_created} new ·{' '}
+                          {job.grants_updated} updated
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="xs">
+                          {job.started_at ? dayjs(job.started_at).format('MMM D, h:mm A') : '—'}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        {job.status === 'pending' && (
+                          <Button
+                            size="xs"
+                            variant="light"
+                            leftSection={<IconRefresh size={14} />}
+                            loading={
+                              syncMutation.isPending && syncMutation.variables?.job_id === job.id
+                            }
+                            onClick={() => syncMutation.mutate({ job_id: job.id })}
+                          >
+                            Resume now
+                          </Button>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          )}
+        </Stack>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,446 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Stack,
+  Title,
+  Text,
+  Divider,
+  Paper,
+  Button,
+  Group,
+  Badge,
+  Table,
+  Modal,
+  TextInput,
+  Select,
+  Checkbox,
+  SimpleGrid,
+  Alert,
+  Code,
+  CopyButton,
+  Tooltip,
+  ActionIcon,
+  Loader,
+  Center,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconCopy,
+  IconKey,
+  IconPlus,
+  IconTrash,
+} from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { SettingsLayout } from '../../components/SettingsLayout';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { usePermission } from '../../hooks/usePermission';
+import { supabase } from '../../lib/supabase';
+
+interface ApiKey {
+  id: string;
+  org_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+}
+
+interface ApiKeyScopeOption {
+  scope: string;
+  description: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return session.access_token;
+}
+
+function KeyStatusBadge({ apiKey }: { apiKey: ApiKey }) {
+  if (apiKey.revoked_at) {
+    return (
+      <Badge size="sm" variant="light" color="gray">
+        Revoked
+      </Badge>
+    );
+  }
+  if (apiKey.expires_at && dayjs(apiKey.expires_at).isBefore(dayjs())) {
+    return (
+      <Badge size="sm" variant="light" color="orange">
+        Expired
+      </Badge>
+    );
+  }
+  return (
+    <Badge size="sm" variant="light" color="green">
+      Active
+    </Badge>
+  );
+}
+
+export function ApiKeysPage() {
+  const { currentOrg } = useOrganization();
+  const { isAdmin } = usePermission();
+  const queryClient = useQueryClient();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(['grants:view', 'tasks:view']);
+  const [expiry, setExpiry] = useState<string | null>('90');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['apiKeys', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg) {
+        return null;
+      }
+      const token = await getAccessToken();
+      const response = await fetch(`/api/api-keys?org_id=${currentOrg.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch API keys');
+      }
+      return (await response.json()) as { keys: ApiKey[]; scopes: ApiKeyScopeOption[] };
+    },
+    enabled: !!currentOrg && isAdmin,
+  });
+
+  const keys = data?.keys || [];
+  const scopeOptions = data?.scopes || [];
+
+  const resetForm = () => {
+    setName('');
+    setScopes(['grants:view', 'tasks:view']);
+    setExpiry('90');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentOrg) {
+        throw new Error('No organization selected');
+      }
+      const token = await getAccessToken();
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          org_id: currentOrg.id,
+          name,
+          scopes,
+          expires_at:
+            expiry && expiry !== 'never' ? dayjs().add(Number(expiry), 'day').toISOString() : null,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create API key');
+      }
+      return result as { key: ApiKey; secret: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+      setCreateOpen(false);
+      resetForm();
+      setNewSecret(result.secret);
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      const token = await getAccessToken();
+      const response = await fetch(`/api/api-keys?id=${keyId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revoke API key');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+      notifications.show({
+        title: 'API key revoked',
+        message: 'Requests using this key will now be rejected.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
+  return (
+    <ProtectedRoute>
+      <SettingsLayout>
+        <Stack gap="lg">
+          {/* Header */}
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="sm">
+              <Title order={1}>API Keys</Title>
+              <Text c="dimmed" size="lg">
+                Let scripts and integrations access grants, tasks, budgets and compliance data
+              </Text>
+            </Stack>
+            {isAdmin && (
+              <Button leftSection={<IconPlus size={16} />} onClick={() => setCreateOpen(true)}>
+                New API Key
+              </Button>
+            )}
+          </Group>
+
+          <Divider />
+
+          {!isAdmin ? (
+            <Alert icon={<IconAlertCircle size={16} />} color="blue" variant="light">
+              Only organization admins can manage API keys.
+            </Alert>
+          ) : (
+            <>
+              <Text size="sm" c="dimmed">
+                Send a key as <Code>Authorization: Bearer gck_...</Code> or{' '}
+                <Code>X-API-Key: gck_...</Code>. Requests act as the admin who created the key and
+                are limited to its scopes.
+              </Text>
+
+              <Paper p="md" withBorder>
+                {isLoading ? (
+                  <Center py="xl">
+                    <Loader size="sm" />
+                  </Center>
+                ) : keys.length === 0 ? (
+                  <Stack align="center" gap="xs" py="xl">
+                    <IconKey size={32} color="var(--mantine-color-gray-5)" />
+                    <Text size="sm" c="dimmed">
+                      No API keys yet
+                    </Text>
+                  </Stack>
+                ) : (
+                  <Table.ScrollContainer minWidth={800}>
+                    <Table verticalSpacing="sm">
+                      <Table.Thead>
+                        <Table.Tr>
+                          <Table.Th>Name</Table.Th>
+                          <Table.Th>Key</Table.Th>
+                          <Table.Th>Scopes</Table.Th>
+                          <Table.Th>Status</Table.Th>
+                          <Table.Th>Expires</Table.Th>
+                          <Table.Th>Last used</Table.Th>
+                          <Table.Th />
+                        </Table.Tr>
+                      </Table.Thead>
+                      <Table.Tbody>
+                        {keys.map((apiKey) => (
+                          <Table.Tr key={apiKey.id}>
+                            <Table.Td>
+                              <Text size="sm" fw={500}>
+                                {apiKey.name}
+                              </Text>
+                              <Text size="xs" c="dimmed">
+                                Created {dayjs(apiKey.created_at).format('MMM D, YYYY')}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Code>{apiKey.key_prefix}…</Code>
+                            </Table.Td>
+                            <Table.Td>
+                              <Group gap={4}>
+                                {apiKey.scopes.map((scope) => (
+                                  <Badge key={scope} size="xs" variant="outline">
+                                    {scope}
+                                  </Badge>
+                                ))}
+                              </Group>
+                            </Table.Td>
+                            <Table.Td>
+                              <KeyStatusBadge apiKey={apiKey} />
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm">
+                                {apiKey.expires_at
+                                  ? dayjs(apiKey.expires_at).format('MMM D, YYYY')
+                                  : 'Never'}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm">
+                                {apiKey.last_used_at
+                                  ? dayjs(apiKey.last_used_at).format('MMM D, YYYY h:mm A')
+                                  : 'Never'}
+                              </Text>
+                              {apiKey.last_used_ip && (
+                                <Text size="xs" c="dimmed">
+                                  {apiKey.last_used_ip}
+                                </Text>
+                              )}
+                            </Table.Td>
+                            <Table.Td>
+                              {!apiKey.revoked_at && (
+                                <Tooltip label="Revoke">
+                                  <ActionIcon
+                                    variant="light"
+                                    color="red"
+                                    onClick={() => {
+                                      if (
+                                        confirm(
+                                          `Revoke the API key "${apiKey.name}"? Integrations using it will stop working.`,
+                                        )
+                                      ) {
+                                        revokeMutation.mutate(apiKey.id);
+                                      }
+                                    }}
+                                  >
+                                    <IconTrash size={16} />
+                                  </ActionIcon>
+                                </Tooltip>
+                              )}
+                            </Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </Table.ScrollContainer>
+                )}
+              </Paper>
+            </>
+          )}
+
+          {/* Create Modal */}
+          <Modal
+            opened={createOpen}
+            onClose={() => {
+              setCreateOpen(false);
+              resetForm();
+            }}
+            title="New API Key"
+            size="lg"
+          >
+            <Stack gap="md">
+              <TextInput
+                label="Name"
+                placeholder="e.g., Reporting sync"
+                description="Helps you tell keys apart later"
+                value={name}
+                onChange={(e) => setName(e.currentTarget.value)}
+                maxLength={100}
+                required
+              />
+
+              <Checkbox.Group label="Scopes" value={scopes} onChange={setScopes} required>
+                <SimpleGrid cols={{ base: 1, sm: 2 }} mt="xs">
+                  {scopeOptions.map((option) => (
+                    <Checkbox
+                      key={option.scope}
+                      value={option.scope}
+                      label={option.scope}
+                      description={option.description}
+                    />
+                  ))}
+                </SimpleGrid>
+              </Checkbox.Group>
+
+              <Select
+                label="Expires after"
+                data={EXPIRY_OPTIONS}
+                value={expiry}
+                onChange={setExpiry}
+                allowDeselect={false}
+              />
+
+              <Group justify="flex-end">
+                <Button
+                  variant="default"
+                  onClick={() => {
+                    setCreateOpen(false);
+                    resetForm();
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  loading={createMutation.isPending}
+                  disabled={!name.trim() || scopes.length === 0}
+                >
+                  Create Key
+                </Button>
+              </Group>
+            </Stack>
+          </Modal>
+
+          {/* New Key Modal */}
+          <Modal
+            opened={!!newSecret}
+            onClose={() => setNewSecret(null)}
+            title="API Key Created"
+            size="lg"
+          >
+            <Stack gap="md">
+              <Alert icon={<IconAlertCircle size={16} />} color="yellow" variant="light">
+                Copy this key now. It is stored hashed and cannot be shown again.
+              </Alert>
+              <Group gap="xs" wrap="nowrap">
+                <Code block style={{ flex: 1, wordBreak: 'break-all' }}>
+                  {newSecret}
+                </Code>
+                <CopyButton value={newSecret || ''}>
+                  {({ copied, copy }) => (
+                    <Tooltip label={copied ? 'Copied!' : 'Copy key'}>
+                      <ActionIcon
+                        color={copied ? 'teal' : 'grape'}
+                        variant="light"
+                        onClick={copy}
+                        size="lg"
+                      >
+                        {copied ? <IconCheck size={18} /> : <IconCopy size={18} />}
+                      </ActionIcon>
+                    </Tooltip>
+                  )}
+                </CopyButton>
+              </Group>
+              <Group justify="flex-end">
+                <Button onClick={() => setNewSecret(null)}>Done</Button>
+              </Group>
+            </Stack>
+          </Modal>
+        </Stack>
+      </SettingsLayout>
+    </ProtectedRoute>
+  );
+}
@@ -16,6 +16,7 @@ import {
   Modal,
   TextInput,
   MultiSelect,
+  Select,
   Code,
 } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
@@ -29,19 +30,45 @@ import {
   IconPlus,
   IconTrash,
   IconEdit,
+  IconHistory,
+  IconTestPipe,
 } from '@tabler/icons-react';
 import { SettingsLayout } from '../../components/SettingsLayout';
+import { WebhookDeliveriesModal } from '../../components/WebhookDeliveriesModal';
+import { WebhookTestConsoleModal } from '../../components/WebhookTestConsoleModal';
 import { ProtectedRoute } from '../../components/ProtectedRoute';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { usePermission } from '../../hooks/usePermission';
 import { supabase } from '../../lib/supabase';
 
-const EVENT_TYPES = [
-  { value: 'grant.saved', label: 'Grant Saved' },
-  { value: 'grant.deadline_approaching', label: 'Deadline Approaching' },
-  { value: 'grant.deadline_passed', label: 'Deadline Passed' },
-  { value: 'grant.updated', label: 'Grant Updated' },
-  { value: 'grant.task_assigned', label: 'Task Assigned' },
+interface WebhookEventInfo {
+  type: string;
+  label: string;
+  description: string;
+  category: string;
+}
+
+interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  secret?: string | null;
+  is_active: boolean;
+  disabled_at?: string | null;
+  disabled_reason?: string | null;
+}
+
+const EVENT_CATEGORY_LABELS: Record<string, string> = {
+  grant: 'Grants',
+  task: 'Tasks',
+  approval: 'Approvals',
+  budget: 'Budgets',
+  compliance: 'Compliance',
+};
+
+const PAYLOAD_VERSION_OPTIONS = [
+  { value: '2', label: 'Version 2 (recommended)' },
+  { value: '1', label: 'Version 1 (legacy)' },
 ];
 
 export function CalendarPage() {
@@ -54,6 +81,8 @@ export function CalendarPage() {
   const [webhookModal, setWebhookModal] = useState(false);
   const [teamsModal, setTeamsModal] = useState(false);
   const [editingWebhook, setEditingWebhook] = useState<any>(null);
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<WebhookRow | null>(null);
+  const [testWebhook, setTestWebhook] = useState<WebhookRow | null>(null);
 
   // Form states
   const [webhookForm, setWebhookForm] = useState({
@@ -61,6 +90,7 @@ export function CalendarPage() {
     url: '',
     secret: '',
     events: ['grant.saved', 'grant.deadline_approaching'],
+    payload_version: 2,
   });
   const [teamsWebhookUrl, setTeamsWebhookUrl] = useState('');
 
@@ -118,6 +148,28 @@ export function CalendarPage() {
     enabled: !!currentOrg,
   });
 
+  // Load the webhook event catalog
+  const { data: eventCatalog } = useQuery({
+    queryKey: ['webhookEventCatalog'],
+    queryFn: async () => {
+      const response = await fetch('/api/webhooks/events');
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhook events');
+      }
+      return response.json() as Promise<{ events: WebhookEventInfo[] }>;
+    },
+    staleTime: Infinity,
+  });
+
+  const eventOptions = Object.entries(EVENT_CATEGORY_LABELS)
+    .map(([category, group]) => ({
+      group,
+      items: (eventCatalog?.events || [])
+        .filter((event) => event.category === category)
+        .map((event) => ({ value: event.type, label: event.label })),
+    }))
+    .filter((group) => group.items.length > 0);
+
   const integrations = integrationsData?.integrations || [];
   const webhooks = webhooksData?.webhooks || [];
 
@@ -250,7 +302,7 @@ export function CalendarPage() {
       queryClient.invalidateQueries({ queryKey: ['webhooks'] });
       setWebhookModal(false);
       setEditingWebhook(null);
-      setWebhookForm({ name: '', url: '', secret: '', events: ['grant.saved', 'grant.deadline_approaching'] });
+      setWebhookForm({ name: '', url: '', secret: '', events: ['grant.saved', 'grant.deadline_approaching'], payload_version: 2 });
       notifications.show({
         title: editingWebhook ? 'Webhook Updated' : 'Webhook Created',
         message: 'Your webhook has been saved successfully.',
@@ -291,6 +343,51 @@ export function CalendarPage() {
     },
   });
 
+  // Rotate webhook signing secret
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (webhookId: string) => {
+      const { data: session } = await supabase.auth.getSession();
+      if (!session.session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`/api/webhooks/rotate-secret?id=${webhookId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.session.access_token}`,
+        },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to rotate secret');
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setEditingWebhook(data.webhook);
+      setWebhookForm((form) => ({ ...form, secret: data.secret }));
+      notifications.show({
+        title: 'Secret Rotated',
+        message:
+          data.warning ||
+          (data.webhook.previous_secret_expires_at
+            ? `Deliveries are signed with both secrets until ${new Date(data.webhook.previous_secret_expires_at).toLocaleString()}. Update your receiver before then.`
+            : 'Update your receiver with the new secret.'),
+        color: data.warning ? 'orange' : 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message,
+        color: 'red',
+      });
+    },
+  });
+
   const handleEditWebhook = (webhook: any) => {
     setEditingWebhook(webhook);
     setWebhookForm({
@@ -298,6 +395,7 @@ export function CalendarPage() {
       url: webhook.url,
       secret: webhook.secret || '',
       events: webhook.events,
+      payload_version: webhook.payload_version ?? 1,
     });
     setWebhookModal(true);
   };
@@ -645,6 +743,7 @@ export function CalendarPage() {
                               url: '',
                               secret: '',
                               events: ['grant.saved', 'grant.deadline_approaching'],
+                              payload_version: 2,
                             });
                             setWebhookModal(true);
                           }}
@@ -670,19 +769,48 @@ export function CalendarPage() {
                                   <Badge size="xs" variant="dot" color={webhook.is_active ? 'green' : 'gray'}>
                                     {webhook.is_active ? 'Active' : 'Inactive'}
                                   </Badge>
+                                  {!webhook.is_active && webhook.disabled_at && (
+                                    <Tooltip label={webhook.disabled_reason} multiline w={300}>
+                                      <Badge size="xs" variant="light" color="red">
+                                        Auto-disabled
+                                      </Badge>
+                                    </Tooltip>
+                                  )}
                                   <Text size="xs" c="dimmed">
                                     {webhook.events.length} events
                                   </Text>
                                 </Group>
                               </div>
-                              {isAdmin && (
-                                <Group gap="xs">
+                              <Group gap="xs">
+                                <Tooltip label="Deliveries">
+                                  <ActionIcon
+                                    variant="light"
+                                    color="gray"
+                                    onClick={() => setDeliveriesWebhook(webhook)}
+                                  >
+                                    <IconHistory size={16} />
+                                  </ActionIcon>
+                                </Tooltip>
+                                {isAdmin && (
+                                  <Tooltip label="Test console">
+                                    <ActionIcon
+                                      variant="light"
+                                      color="grape"
+                                      onClick={() => setTestWebhook(webhook)}
+                                    >
+                                      <IconTestPipe size={16} />
+                                    </ActionIcon>
+                                  </Tooltip>
+                                )}
+                                {isAdmin && (
                                   <ActionIcon
                                     variant="light"
                                     onClick={() => handleEditWebhook(webhook)}
                                   >
                                     <IconEdit size={16} />
                                   </ActionIcon>
+                                )}
+                                {isAdmin && (
                                   <ActionIcon
                                     variant="light"
                                     color="red"
@@ -691,8 +819,8 @@ export function CalendarPage() {
                                   >
                                     <IconTrash size={16} />
                                   </ActionIcon>
-                                </Group>
-                              )}
+                                )}
+                              </Group>
                             </Group>
                           </Paper>
                         ))}
@@ -850,7 +978,7 @@ export function CalendarPage() {
           onClose={() => {
             setWebhookModal(false);
             setEditingWebhook(null);
-            setWebhookForm({ name: '', url: '', secret: '', events: [] });
+            setWebhookForm({ name: '', url: '', secret: '', events: [], payload_version: 2 });
           }}
           title={editingWebhook ? 'Edit Webhook' : 'Add Webhook'}
           size="lg"
@@ -878,17 +1006,49 @@ export function CalendarPage() {
               value={webhookForm.secret}
               onChange={(e) => setWebhookForm({ ...webhookForm, secret: e.target.value })}
               description="Used to sign webhook payloads for verification"
+              rightSectionWidth={editingWebhook?.secret ? 80 : undefined}
+              rightSection={
+                editingWebhook?.secret ? (
+                  <Button
+                    size="compact-xs"
+                    variant="subtle"
+                    onClick={() => rotateSecretMutation.mutate(editingWebhook.id)}
+                    loading={rotateSecretMutation.isPending}
+                  >
+                    Rotate
+                  </Button>
+                ) : undefined
+              }
             />
+            {editingWebhook?.previous_secret_expires_at &&
+              new Date(editingWebhook.previous_secret_expires_at) > new Date() && (
+                <Text size="xs" c="dimmed" mt={-8}>
+                  The previous secret also signs deliveries until{' '}
+                  {new Date(editingWebhook.previous_secret_expires_at).toLocaleString()}
+                </Text>
+              )}
 
             <MultiSelect
               label="Events"
               placeholder="Select events to subscribe to"
-              data={EVENT_TYPES}
+              data={eventOptions}
               value={webhookForm.events}
               onChange={(value) => setWebhookForm({ ...webhookForm, events: value })}
+              searchable
               required
             />
 
+            <Select
+              label="Payload Version"
+              data={PAYLOAD_VERSION_OPTIONS}
+              value={String(webhookForm.payload_version)}
+              onChange={(value) =>
+                setWebhookForm({ ...webhookForm, payload_version: Number(value || 2) })
+              }
+              description="Version 2 adds an event id for de-duplication and timestamped, replay-protected signatures. Schemas for every event are listed at /api/webhooks/events"
+              allowDeselect={false}
+            />
+
             <Paper p="md" withBorder bg="var(--mantine-color-gray-0)">
               <Stack gap="xs">
                 <Text size="sm" fw={500}>
@@ -896,15 +1056,28 @@ export function CalendarPage() {
                 </Text>
                 <Code block>
                   {JSON.stringify(
-                    {
-                      event: 'grant.saved',
-                      timestamp: new Date().toISOString(),
-                      data: {
-                        grant_id: 'uuid',
-                        title: 'Grant Title',
-                        deadline: '2024-12-31',
-                      },
-                    },
+                    webhookForm.payload_version === 1
+                      ? {
+                          event: 'grant.saved',
+                          timestamp: new Date().toISOString(),
+                          data: {
+                            grant_id: 'uuid',
+                            grant_title: 'Grant Title',
+                            grant_deadline: '2024-12-31',
+                          },
+                        }
+                      : {
+                          id: 'evt_uuid',
+                          event: 'grant.saved',
+                          version: 2,
+                          created_at: new Date().toISOString(),
+                          org_id: 'uuid',
+                          data: {
+                            grant_id: 'uuid',
+                            grant_title: 'Grant Title',
+                            grant_deadline: '2024-12-31',
+                          },
+                        },
                     null,
                     2
                   )}
@@ -1001,6 +1174,18 @@ export function CalendarPage() {
             </Paper>
           </Stack>
         </Modal>
+
+        <WebhookDeliveriesModal
+          webhook={deliveriesWebhook}
+          canRedeliver={isAdmin}
+          onClose={() => setDeliveriesWebhook(null)}
+        />
+
+        <WebhookTestConsoleModal
+          webhook={testWebhook}
+          eventOptions={eventOptions}
+          onClose={() => setTestWebhook(null)}
+        />
       </SettingsLayout>
     </ProtectedRoute>
   );
@@ -17,6 +17,7 @@ import { notifications } from '@mantine/notifications';
 import { IconLock } from '@tabler/icons-react';
 import { SettingsLayout } from '../../components/SettingsLayout';
 import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { NotificationRoutingMatrix } from '../../components/NotificationRoutingMatrix';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { usePermission } from '../../hooks/usePermission';
 import { supabase } from '../../lib/supabase';
@@ -157,6 +158,9 @@ export function NotificationsPage() {
 
           <Divider />
 
+          {/* Personal routing, editable by every member */}
+          <NotificationRoutingMatrix orgId={currentOrg.id} />
+
           {/* Main Content - Two Column Layout */}
           <SimpleGrid cols={{ base: 1, md: 2 }} spacing="xl">
             {/* Left Column - Form */}
@@ -166,10 +170,10 @@ export function NotificationsPage() {
                 <Stack gap="md">
                   <div>
                     <Title order={3} size="h4" mb="xs">
-                      Deadline Reminders (Email)
+                      Deadline Reminders
                     </Title>
                     <Text size="sm" c="dimmed">
-                      Get email reminders before grant deadlines
+                      When the team is reminded before grant deadlines
                     </Text>
                   </div>
 
@@ -303,7 +307,8 @@ export function NotificationsPage() {
                   <Title order={4}>About Notification Settings</Title>
                   <Text size="sm">
                     These settings apply to all members of your organization. Admins can customize
-                    when and how the team receives deadline and task reminders.
+                    when the team receives deadline and task reminders; each member chooses under
+                    My Notifications which channels they arrive on.
                   </Text>
                   <Text size="sm">
                     Email reminders are sent automatically based on the cadence you set. You can
@@ -0,0 +1,406 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Stack,
+  Title,
+  Text,
+  Divider,
+  Paper,
+  Button,
+  Group,
+  Badge,
+  TextInput,
+  Select,
+  MultiSelect,
+  NumberInput,
+  Switch,
+  Alert,
+  Tooltip,
+  ActionIcon,
+  Loader,
+  Center,
+  ColorSwatch,
+  SimpleGrid,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertCircle,
+  IconArrowDown,
+  IconArrowUp,
+  IconPlus,
+  IconTrash,
+} from '@tabler/icons-react';
+import { SettingsLayout } from '../../components/SettingsLayout';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { usePermission } from '../../hooks/usePermission';
+import { usePipelineStages } from '../../hooks/usePipelineStages';
+import { usePipelines } from '../../hooks/usePipelines';
+import { PipelineSelect } from '../../components/pipeline/PipelineSelect';
+import { savePipelineStages } from '../../utils/pipelineStagesApi';
+import {
+  ARCHIVED_STAGE_KEY,
+  STAGE_COLORS,
+  STAGE_REQUIRED_FIELDS,
+  type SavePipelineStageInput,
+  type StageOutcome,
+  type WipLimitMode,
+} from '../../types/pipelineStages';
+
+// Stages being edited; draftId keeps React keys stable for stages without a key yet
+type DraftStage = SavePipelineStageInput & { draftId: string };
+
+const OUTCOME_OPTIONS = [
+  { value: 'none', label: 'In progress' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+];
+
+const WIP_MODE_OPTIONS = [
+  { value: 'warn', label: 'Warn when exceeded' },
+  { value: 'block', label: 'Block moves when full' },
+];
+
+const COLOR_OPTIONS = STAGE_COLORS.map((color) => ({
+  value: color,
+  label: color.charAt(0).toUpperCase() + color.slice(1),
+}));
+
+let nextDraftId = 0;
+
+export function PipelineStagesPage() {
+  const { currentOrg } = useOrganization();
+  const { isAdmin } = usePermission();
+  const { defaultPipeline, getPipeline } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null);
+  const pipelineId = selectedPipelineId || defaultPipeline?.id || null;
+  const { stages, loading } = usePipelineStages(pipelineId);
+  const queryClient = useQueryClient();
+
+  // null until the first edit, so the saved stages show until then
+  const [draft, setDraft] = useState<DraftStage[] | null>(null);
+
+  const rows: DraftStage[] =
+    draft ??
+    stages.map((stage) => ({
+      draftId: stage.key,
+      key: stage.key,
+      label: stage.label,
+      color: stage.color,
+      outcome: stage.outcome,
+      is_terminal: stage.is_terminal,
+      show_on_board: stage.show_on_board,
+      required_fields: stage.required_fields,
+      wip_limit: stage.wip_limit,
+      wip_limit_mode: stage.wip_limit_mode,
+      stale_after_days: stage.stale_after_days,
+    }));
+
+  const updateRow = (index: number, changes: Partial<DraftStage>) => {
+    setDraft(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const next = [...rows];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setDraft(next);
+  };
+
+  const addRow = () => {
+    // New stages go before the terminal stages
+    const insertAt = rows.findIndex((row) => row.is_terminal);
+    const newRow: DraftStage = {
+      draftId: `new-${nextDraftId++}`,
+      label: '',
+      color: 'blue',
+      outcome: null,
+      is_terminal: false,
+      show_on_board: true,
+      required_fields: [],
+      wip_limit: null,
+      wip_limit_mode: 'warn',
+      stale_after_days: null,
+    };
+    const next = [...rows];
+    next.splice(insertAt === -1 ? rows.length : insertAt, 0, newRow);
+    setDraft(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      if (!currentOrg) {
+        throw new Error('No organization selected');
+      }
+      return savePipelineStages(
+        currentOrg.id,
+        pipelineId || undefined,
+        rows.map(({ draftId: _draftId, ...stage }) => ({ ...stage, label: stage.label.trim() })),
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pipelineStages'] });
+      setDraft(null);
+      notifications.show({
+        title: 'Pipeline stages saved',
+        message: `${getPipeline(pipelineId)?.name || 'Your pipeline'} now uses the updated stages.`,
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const hasEmptyLabel = rows.some((row) => !row.label.trim());
+  const hasOpenStage = rows.some((row) => !row.is_terminal);
+
+  return (
+    <ProtectedRoute>
+      <SettingsLayout>
+        <Stack gap="lg">
+          {/* Header */}
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="sm">
+              <Title order={1}>Pipeline Stages</Title>
+              <Text c="dimmed" size="lg">
+                The stages your grants move through, in board order
+              </Text>
+            </Stack>
+            {isAdmin && (
+              <Button leftSection={<IconPlus size={16} />} onClick={addRow}>
+                Add Stage
+              </Button>
+            )}
+          </Group>
+
+          <Divider />
+
+          <PipelineSelect
+            value={pipelineId}
+            onChange={(value) => {
+              // Unsaved edits belong to the pipeline they were made in
+              setSelectedPipelineId(value);
+              setDraft(null);
+            }}
+          />
+
+          {!isAdmin && (
+            <Alert icon={<IconAlertCircle size={16} />} color="blue" variant="light">
+              Only organization admins can change pipeline stages.
+            </Alert>
+          )}
+
+          <Text size="sm" c="dimmed">
+            New grants start in the first stage that isn&apos;t terminal. Won and lost stages drive
+            win-rate reporting, and terminal stages end reminders and recurring items for their
+            grants. A grant can&apos;t enter a stage until the stage&apos;s required fields are
+            filled in. A stage can only be removed once no grants are in it. Grants that sit in a
+            stage past its stale threshold are highlighted on the board and sent to their owners in
+            a daily digest. Each pipeline has its own stages; the Archived stage is shared by all of
+            them.
+          </Text>
+
+          {loading ? (
+            <Center py="xl">
+              <Loader size="sm" />
+            </Center>
+          ) : (
+            rows.map((row, index) => {
+              const isArchived = row.key === ARCHIVED_STAGE_KEY;
+
+              return (
+                <Paper key={row.draftId} p="md" withBorder>
+                  <Stack gap="sm">
+                    <Group justify="space-between" wrap="nowrap">
+                      <Group gap="xs">
+                        <Badge color={row.color}>{row.label || 'New stage'}</Badge>
+                        {isArchived && (
+                          <Badge size="sm" variant="outline" color="gray">
+                            System stage
+                          </Badge>
+                        )}
+                      </Group>
+                      {isAdmin && (
+                        <Group gap={4} wrap="nowrap">
+                          <ActionIcon
+                            variant="subtle"
+                            color="gray"
+                            disabled={index === 0}
+                            onClick={() => moveRow(index, -1)}
+                            aria-label="Move up"
+                          >
+                            <IconArrowUp size={16} />
+                          </ActionIcon>
+                          <ActionIcon
+                            variant="subtle"
+                            color="gray"
+                            disabled={index === rows.length - 1}
+                            onClick={() => moveRow(index, 1)}
+                            aria-label="Move down"
+                          >
+                            <IconArrowDown size={16} />
+                          </ActionIcon>
+                          <Tooltip
+                            label={
+                              isArchived ? 'The Archived stage is always kept' : 'Remove stage'
+                            }
+                          >
+                            <ActionIcon
+                              variant="subtle"
+                              color="red"
+                              disabled={isArchived}
+                              onClick={() => setDraft(rows.filter((_, i) => i !== index))}
+                              aria-label="Remove stage"
+                            >
+                              <IconTrash size={16} />
+                            </ActionIcon>
+                          </Tooltip>
+                        </Group>
+                      )}
+                    </Group>
+
+                    <SimpleGrid cols={{ base: 1, sm: 3 }}>
+                      <TextInput
+                        label="Name"
+                        value={row.label}
+                        onChange={(e) => updateRow(index, { label: e.currentTarget.value })}
+                        maxLength={50}
+                        disabled={!isAdmin}
+                        required
+                      />
+                      <Select
+                        label="Color"
+                        data={COLOR_OPTIONS}
+                        value={row.color}
+                        onChange={(value) => value && updateRow(index, { color: value })}
+                        leftSection={
+                          <ColorSwatch color={`var(--mantine-color-${row.color}-6)`} size={14} />
+                        }
+                        allowDeselect={false}
+                        disabled={!isAdmin}
+                      />
+                      <Select
+                        label="Outcome"
+                        data={OUTCOME_OPTIONS}
+                        value={row.outcome || 'none'}
+                        onChange={(value) =>
+                          updateRow(index, {
+                            outcome: value === 'none' ? null : (value as StageOutcome),
+                          })
+                        }
+                        allowDeselect={false}
+                        disabled={!isAdmin || isArchived}
+                      />
+                    </SimpleGrid>
+
+                    <MultiSelect
+                      label="Required fields"
+                      description="Grants can't enter this stage until these are filled in"
+                      placeholder={row.required_fields.length === 0 ? 'None' : undefined}
+                      data={STAGE_REQUIRED_FIELDS}
+                      value={row.required_fields}
+                      onChange={(value) =>
+                        updateRow(index, {
+                          required_fields: value as DraftStage['required_fields'],
+                        })
+                      }
+                      disabled={!isAdmin || isArchived}
+                      clearable
+                    />
+
+                    {!isArchived && (
+                      <SimpleGrid cols={{ base: 1, sm: 3 }}>
+                        <NumberInput
+                          label="WIP limit"
+                          description="Most grants the stage should hold"
+                          placeholder="No limit"
+                          min={1}
+                          max={1000}
+                          allowDecimal={false}
+                          value={row.wip_limit ?? ''}
+                          onChange={(value) =>
+                            updateRow(index, {
+                              wip_limit: typeof value === 'number' ? value : null,
+                            })
+                          }
+                          disabled={!isAdmin}
+                        />
+                        <Select
+                          label="When the limit is reached"
+                          description="Warnings still let grants in"
+                          data={WIP_MODE_OPTIONS}
+                          value={row.wip_limit_mode}
+                          onChange={(value) =>
+                            value && updateRow(index, { wip_limit_mode: value as WipLimitMode })
+                          }
+                          allowDeselect={false}
+                          disabled={!isAdmin || !row.wip_limit}
+                        />
+                        <NumberInput
+                          label="Stale after (days)"
+                          description="Flags grants and emails their owners"
+                          placeholder="Never"
+                          min={1}
+                          max={365}
+                          allowDecimal={false}
+                          value={row.stale_after_days ?? ''}
+                          onChange={(value) =>
+                            updateRow(index, {
+                              stale_after_days: typeof value === 'number' ? value : null,
+                            })
+                          }
+                          disabled={!isAdmin || row.is_terminal}
+                        />
+                      </SimpleGrid>
+                    )}
+
+                    <Group gap="xl">
+                      <Switch
+                        label="Terminal"
+                        description="The grant's active work is over"
+                        checked={row.is_terminal}
+                        onChange={(e) => updateRow(index, { is_terminal: e.currentTarget.checked })}
+                        disabled={!isAdmin || isArchived}
+                      />
+                      <Switch
+                        label="Show on board"
+                        description="Appears as a column on the pipeline board"
+                        checked={row.show_on_board}
+                        onChange={(e) =>
+                          updateRow(index, { show_on_board: e.currentTarget.checked })
+                        }
+                        disabled={!isAdmin}
+                      />
+                    </Group>
+                  </Stack>
+                </Paper>
+              );
+            })
+          )}
+
+          {isAdmin && draft && (
+            <Stack gap="xs">
+              {!hasOpenStage && (
+                <Alert icon={<IconAlertCircle size={16} />} color="orange" variant="light">
+                  At least one stage must not be terminal, so new grants have somewhere to start.
+                </Alert>
+              )}
+              <Group justify="flex-end">
+                <Button variant="default" onClick={() => setDraft(null)}>
+                  Discard Changes
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  loading={saveMutation.isPending}
+                  disabled={hasEmptyLabel || !hasOpenStage}
+                >
+                  Save Stages
+                </Button>
+              </Group>
+            </Stack>
+          )}
+        </Stack>
+      </SettingsLayout>
+    </ProtectedRoute>
+  );
+}
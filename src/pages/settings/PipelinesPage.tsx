@@ -0,0 +1,380 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Stack,
+  Title,
+  Text,
+  Divider,
+  Paper,
+  Button,
+  Group,
+  Badge,
+  Modal,
+  TextInput,
+  Textarea,
+  Select,
+  MultiSelect,
+  Alert,
+  Tooltip,
+  ActionIcon,
+  Loader,
+  Center,
+  ColorSwatch,
+  SimpleGrid,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertCircle,
+  IconEdit,
+  IconGitBranch,
+  IconPlus,
+  IconStar,
+  IconTrash,
+} from '@tabler/icons-react';
+import { SettingsLayout } from '../../components/SettingsLayout';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { usePermission } from '../../hooks/usePermission';
+import { usePipelines } from '../../hooks/usePipelines';
+import { supabase } from '../../lib/supabase';
+import type { TeamMember } from '../../types/api';
+import { STAGE_COLORS } from '../../types/pipelineStages';
+import type { CreatePipelineInput, Pipeline } from '../../types/pipelines';
+import { createPipeline, updatePipeline, deletePipeline } from '../../utils/pipelinesApi';
+
+const EMPTY_FORM: CreatePipelineInput = {
+  name: '',
+  description: '',
+  color: 'blue',
+  member_ids: [],
+};
+
+const COLOR_OPTIONS = STAGE_COLORS.map((color) => ({
+  value: color,
+  label: color.charAt(0).toUpperCase() + color.slice(1),
+}));
+
+export function PipelinesPage() {
+  const { currentOrg } = useOrganization();
+  const { isAdmin } = usePermission();
+  const { pipelines, loading } = usePipelines();
+  const queryClient = useQueryClient();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CreatePipelineInput>(EMPTY_FORM);
+
+  const { data: teamMembers = [] } = useQuery<{ value: string; label: string }[]>({
+    queryKey: ['teamMembers', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg) {
+        return [];
+      }
+      // @ts-expect-error - Supabase type inference issue with RPC functions
+      const { data, error } = await supabase.rpc('get_org_team_members', {
+        org_uuid: currentOrg.id,
+      });
+      if (error) {
+        throw error;
+      }
+      return ((data || []) as unknown as TeamMember[]).map((member) => ({
+        value: member.user_id,
+        label: member.full_name || member.email || 'Unknown User',
+      }));
+    },
+    enabled: !!currentOrg,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['pipelines'] });
+    queryClient.invalidateQueries({ queryKey: ['pipelineStages'] });
+  };
+
+  const closeEditor = () => {
+    setEditorOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const openEditor = (pipeline?: Pipeline) => {
+    if (pipeline) {
+      setEditingId(pipeline.id);
+      setForm({
+        name: pipeline.name,
+        description: pipeline.description || '',
+        color: pipeline.color,
+        member_ids: pipeline.member_ids,
+      });
+    } else {
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+    }
+    setEditorOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { ...form, name: form.name.trim() };
+      if (editingId) {
+        const { copy_stages_from: _copyStagesFrom, ...updates } = payload;
+        return updatePipeline(editingId, updates);
+      }
+      if (!currentOrg) {
+        throw new Error('No organization selected');
+      }
+      return createPipeline(currentOrg.id, payload);
+    },
+    onSuccess: () => {
+      invalidate();
+      notifications.show({
+        title: editingId ? 'Pipeline updated' : 'Pipeline created',
+        message: editingId
+          ? form.name
+          : `${form.name} starts with a copy of the stages of another pipeline. Adjust them under Pipeline Stages.`,
+        color: 'green',
+      });
+      closeEditor();
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (pipeline: Pipeline) => updatePipeline(pipeline.id, { is_default: true }),
+    onSuccess: (pipeline) => {
+      invalidate();
+      notifications.show({
+        title: 'Default pipeline changed',
+        message: `New grants now go to ${pipeline.name} unless another pipeline is chosen.`,
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePipeline,
+    onSuccess: () => {
+      invalidate();
+      notifications.show({
+        title: 'Pipeline deleted',
+        message: 'Its stages and approval workflows were removed with it.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const memberNames = (memberIds: string[]) =>
+    memberIds
+      .map((id) => teamMembers.find((member) => member.value === id)?.label)
+      .filter(Boolean)
+      .join(', ');
+
+  return (
+    <ProtectedRoute>
+      <SettingsLayout>
+        <Stack gap="lg">
+          {/* Header */}
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="sm">
+              <Title order={1}>Pipelines</Title>
+              <Text c="dimmed" size="lg">
+                Separate pipelines for different kinds of funding, each with its own stages
+              </Text>
+            </Stack>
+            {isAdmin && (
+              <Button leftSection={<IconPlus size={16} />} onClick={() => openEditor()}>
+                New Pipeline
+              </Button>
+            )}
+          </Group>
+
+          <Divider />
+
+          {!isAdmin && (
+            <Alert icon={<IconAlertCircle size={16} />} color="blue" variant="light">
+              Only organization admins can change pipelines.
+            </Alert>
+          )}
+
+          <Text size="sm" c="dimmed">
+            Grants saved or imported without a pipeline go to the default pipeline. A pipeline with
+            members is only visible to them and to admins; one without members is open to everyone.
+            A pipeline can only be deleted once its grants have been moved elsewhere.
+          </Text>
+
+          {loading ? (
+            <Center py="xl">
+              <Loader size="sm" />
+            </Center>
+          ) : pipelines.length === 0 ? (
+            <Paper p="md" withBorder>
+              <Stack align="center" gap="xs" py="xl">
+                <IconGitBranch size={32} color="var(--mantine-color-gray-5)" />
+                <Text size="sm" c="dimmed">
+                  No pipelines yet
+                </Text>
+              </Stack>
+            </Paper>
+          ) : (
+            pipelines.map((pipeline) => (
+              <Paper key={pipeline.id} p="md" withBorder>
+                <Group justify="space-between" align="flex-start" wrap="nowrap">
+                  <Stack gap={4}>
+                    <Group gap="xs">
+                      <ColorSwatch color={`var(--mantine-color-${pipeline.color}-6)`} size={14} />
+                      <Text fw={600}>{pipeline.name}</Text>
+                      {pipeline.is_default && (
+                        <Badge size="sm" variant="light">
+                          Default
+                        </Badge>
+                      )}
+                      <Badge size="sm" variant="outline" color="gray">
+                        {pipeline.grant_count} grant{pipeline.grant_count === 1 ? '' : 's'}
+                      </Badge>
+                    </Group>
+                    {pipeline.description && (
+                      <Text size="sm" c="dimmed">
+                        {pipeline.description}
+                      </Text>
+                    )}
+                    <Text size="xs" c="dimmed">
+                      {pipeline.member_ids.length === 0
+                        ? 'Open to everyone in the organization'
+                        : `Members: ${memberNames(pipeline.member_ids) || `${pipeline.member_ids.length} users`}`}
+                    </Text>
+                  </Stack>
+
+                  {isAdmin && (
+                    <Group gap="xs" wrap="nowrap">
+                      {!pipeline.is_default && (
+                        <Tooltip label="Make default">
+                          <ActionIcon
+                            variant="light"
+                            color="yellow"
+                            onClick={() => defaultMutation.mutate(pipeline)}
+                            loading={
+                              defaultMutation.isPending &&
+                              defaultMutation.variables?.id === pipeline.id
+                            }
+                          >
+                            <IconStar size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      )}
+                      <Tooltip label="Edit">
+                        <ActionIcon variant="light" onClick={() => openEditor(pipeline)}>
+                          <IconEdit size={16} />
+                        </ActionIcon>
+                      </Tooltip>
+                      <Tooltip
+                        label={
+                          pipeline.is_default
+                            ? 'The default pipeline cannot be deleted'
+                            : pipeline.grant_count > 0
+                              ? 'Move its grants to another pipeline first'
+                              : 'Delete'
+                        }
+                      >
+                        <ActionIcon
+                          variant="light"
+                          color="red"
+                          disabled={pipeline.is_default || pipeline.grant_count > 0}
+                          onClick={() => {
+                            if (confirm(`Delete the pipeline "${pipeline.name}" and its stages?`)) {
+                              deleteMutation.mutate(pipeline.id);
+                            }
+                          }}
+                        >
+                          <IconTrash size={16} />
+                        </ActionIcon>
+                      </Tooltip>
+                    </Group>
+                  )}
+                </Group>
+              </Paper>
+            ))
+          )}
+
+          {/* Editor Modal */}
+          <Modal
+            opened={editorOpen}
+            onClose={closeEditor}
+            title={editingId ? 'Edit Pipeline' : 'New Pipeline'}
+            size="lg"
+          >
+            <Stack gap="md">
+              <SimpleGrid cols={{ base: 1, sm: 2 }}>
+                <TextInput
+                  label="Name"
+                  placeholder="e.g., Foundation Asks"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.currentTarget.value })}
+                  maxLength={100}
+                  required
+                />
+                <Select
+                  label="Color"
+                  data={COLOR_OPTIONS}
+                  value={form.color}
+                  onChange={(value) => value && setForm({ ...form, color: value })}
+                  leftSection={
+                    <ColorSwatch color={`var(--mantine-color-${form.color}-6)`} size={14} />
+                  }
+                  allowDeselect={false}
+                />
+              </SimpleGrid>
+              <Textarea
+                label="Description"
+                value={form.description || ''}
+                onChange={(e) => setForm({ ...form, description: e.currentTarget.value })}
+                autosize
+                minRows={2}
+              />
+              {!editingId && (
+                <Select
+                  label="Start with the stages of"
+                  description="The stages are copied; change them later under Pipeline Stages"
+                  placeholder="Default pipeline"
+                  data={pipelines.map((p) => ({ value: p.id, label: p.name }))}
+                  value={form.copy_stages_from || null}
+                  onChange={(value) => setForm({ ...form, copy_stages_from: value || undefined })}
+                  clearable
+                />
+              )}
+              <MultiSelect
+                label="Members"
+                description="Leave empty to open the pipeline to everyone in the organization"
+                placeholder={form.member_ids?.length ? undefined : 'Everyone'}
+                data={teamMembers}
+                value={form.member_ids || []}
+                onChange={(value) => setForm({ ...form, member_ids: value })}
+                searchable
+                clearable
+              />
+
+              <Group justify="flex-end">
+                <Button variant="default" onClick={closeEditor}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  loading={saveMutation.isPending}
+                  disabled={!form.name.trim()}
+                >
+                  {editingId ? 'Save Pipeline' : 'Create Pipeline'}
+                </Button>
+              </Group>
+            </Stack>
+          </Modal>
+        </Stack>
+      </SettingsLayout>
+    </ProtectedRoute>
+  );
+}
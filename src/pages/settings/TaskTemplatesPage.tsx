@@ -0,0 +1,569 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Stack,
+  Title,
+  Text,
+  Divider,
+  Paper,
+  Button,
+  Group,
+  Badge,
+  Modal,
+  TextInput,
+  Textarea,
+  Select,
+  Switch,
+  Checkbox,
+  NumberInput,
+  Alert,
+  Tooltip,
+  ActionIcon,
+  Loader,
+  Center,
+  SimpleGrid,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertCircle,
+  IconArrowDown,
+  IconArrowUp,
+  IconEdit,
+  IconListCheck,
+  IconPlus,
+  IconTrash,
+} from '@tabler/icons-react';
+import { SettingsLayout } from '../../components/SettingsLayout';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { usePermission } from '../../hooks/usePermission';
+import { usePipelineStages } from '../../hooks/usePipelineStages';
+import { supabase } from '../../lib/supabase';
+import { getAvailableRoles } from '../../lib/rbac';
+import type { GrantStage } from '../../types/approvals';
+import {
+  GRANT_OWNER_ROLE,
+  TEMPLATE_TASK_TYPES,
+  DUE_OFFSET_FROM_OPTIONS,
+  formatDueOffset,
+  type TaskTemplate,
+  type TaskTemplateItemInput,
+  type SaveTaskTemplateRequest,
+} from '../../types/taskTemplates';
+import {
+  fetchTaskTemplates,
+  createTaskTemplate,
+  updateTaskTemplate,
+  deleteTaskTemplate,
+} from '../../utils/taskTemplatesApi';
+
+interface Funder {
+  id: string;
+  name: string;
+}
+
+const EMPTY_ITEM: TaskTemplateItemInput = {
+  title: '',
+  description: null,
+  task_type: 'custom',
+  due_offset_days: null,
+  due_offset_from: 'close_date',
+  default_assignee_role: null,
+  is_required: false,
+  estimated_days: null,
+};
+
+const EMPTY_FORM: SaveTaskTemplateRequest = {
+  name: '',
+  description: '',
+  funder_id: null,
+  agency: '',
+  apply_on_stage: null,
+  is_active: true,
+  items: [],
+};
+
+export function TaskTemplatesPage() {
+  const { currentOrg } = useOrganization();
+  const { isAdmin } = usePermission();
+  const { stages, getStageLabel } = usePipelineStages();
+  const queryClient = useQueryClient();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SaveTaskTemplateRequest>(EMPTY_FORM);
+  const items = form.items || [];
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['taskTemplates', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg) {
+        return [];
+      }
+      return fetchTaskTemplates(currentOrg.id);
+    },
+    enabled: !!currentOrg,
+  });
+
+  const { data: funders = [] } = useQuery<Funder[]>({
+    queryKey: ['funders', currentOrg?.id],
+    queryFn: async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session || !currentOrg) {
+        return [];
+      }
+
+      const response = await fetch(`/api/funders?org_id=${currentOrg.id}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!response.ok) {
+        return [];
+      }
+
+      const result = await response.json();
+      return result.funders || [];
+    },
+    enabled: !!currentOrg,
+  });
+
+  const { data: roles = [] } = useQuery({
+    queryKey: ['availableRoles', currentOrg?.id],
+    queryFn: async () => {
+      if (!currentOrg) {
+        return [];
+      }
+      return getAvailableRoles(currentOrg.id);
+    },
+    enabled: !!currentOrg && editorOpen,
+  });
+
+  const assigneeRoleOptions = [
+    { value: GRANT_OWNER_ROLE, label: 'Grant owner' },
+    ...roles.map((role) => ({ value: role.name, label: role.display_name })),
+  ];
+  const funderName = (funderId: string | null) =>
+    funders.find((f) => f.id === funderId)?.name || 'Specific funder';
+
+  const closeEditor = () => {
+    setEditorOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const openEditor = (template?: TaskTemplate) => {
+    if (template) {
+      setEditingId(template.id);
+      setForm({
+        name: template.name,
+        description: template.description || '',
+        funder_id: template.funder_id,
+        agency: template.agency || '',
+        apply_on_stage: template.apply_on_stage,
+        is_active: template.is_active,
+        items: template.task_template_items.map(
+          ({ id: _id, template_id: _templateId, position: _position, ...item }) => item,
+        ),
+      });
+    } else {
+      setEditingId(null);
+      setForm({ ...EMPTY_FORM, items: [{ ...EMPTY_ITEM }] });
+    }
+    setEditorOpen(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<TaskTemplateItemInput>) => {
+    setForm({
+      ...form,
+      items: items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const next = [...items];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setForm({ ...form, items: next });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      if (!currentOrg) {
+        throw new Error('No organization selected');
+      }
+      const payload = {
+        ...form,
+        items: items.filter((item) => item.title.trim()),
+      };
+      return editingId
+        ? updateTaskTemplate(editingId, payload)
+        : createTaskTemplate(currentOrg.id, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+      notifications.show({
+        title: editingId ? 'Template updated' : 'Template created',
+        message: form.name,
+        color: 'green',
+      });
+      closeEditor();
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (template: TaskTemplate) =>
+      updateTaskTemplate(template.id, { is_active: !template.is_active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTaskTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+      notifications.show({
+        title: 'Template deleted',
+        message: 'Tasks already created from it were kept.',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: 'Error', message: error.message, color: 'red' });
+    },
+  });
+
+  return (
+    <ProtectedRoute>
+      <SettingsLayout>
+        <Stack gap="lg">
+          {/* Header */}
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="sm">
+              <Title order={1}>Task Templates</Title>
+              <Text c="dimmed" size="lg">
+                Standard application tasks, added to grants by hand or when they reach a stage
+              </Text>
+            </Stack>
+            {isAdmin && (
+              <Button leftSection={<IconPlus size={16} />} onClick={() => openEditor()}>
+                New Template
+              </Button>
+            )}
+          </Group>
+
+          <Divider />
+
+          {!isAdmin && (
+            <Alert icon={<IconAlertCircle size={16} />} color="blue" variant="light">
+              Only organization admins can change task templates.
+            </Alert>
+          )}
+
+          <Text size="sm" c="dimmed">
+            When a grant enters a template&apos;s stage, only the most specific active templates are
+            applied: funder templates win over agency templates, which win over general ones. Tasks
+            that were already added from a template are never duplicated.
+          </Text>
+
+          {isLoading ? (
+            <Center py="xl">
+              <Loader size="sm" />
+            </Center>
+          ) : templates.length === 0 ? (
+            <Paper p="md" withBorder>
+              <Stack align="center" gap="xs" py="xl">
+                <IconListCheck size={32} color="var(--mantine-color-gray-5)" />
+                <Text size="sm" c="dimmed">
+                  No task templates yet
+                </Text>
+              </Stack>
+            </Paper>
+          ) : (
+            templates.map((template) => (
+              <Paper key={template.id} p="md" withBorder>
+                <Group justify="space-between" align="flex-start" wrap="nowrap">
+                  <Stack gap={4}>
+                    <Group gap="xs">
+                      <Text fw={600}>{template.name}</Text>
+                      {!template.is_active && (
+                        <Badge size="sm" variant="light" color="gray">
+                          Inactive
+                        </Badge>
+                      )}
+                      {template.funder_id ? (
+                        <Badge size="sm" variant="outline">
+                          {funderName(template.funder_id)}
+                        </Badge>
+                      ) : template.agency ? (
+                        <Badge size="sm" variant="outline">
+                          {template.agency}
+                        </Badge>
+                      ) : (
+                        <Badge size="sm" variant="outline" color="gray">
+                          Any grant
+                        </Badge>
+                      )}
+                      <Badge size="sm" variant="light">
+                        {template.apply_on_stage
+                          ? `On ${getStageLabel(template.apply_on_stage)}`
+                          : 'Manual only'}
+                      </Badge>
+                    </Group>
+                    {template.description && (
+                      <Text size="sm" c="dimmed">
+                        {template.description}
+                      </Text>
+                    )}
+                    <Stack gap={2} mt="xs">
+                      {template.task_template_items.map((item) => (
+                        <Text key={item.id} size="sm">
+                          • {item.title}
+                          <Text span size="xs" c="dimmed">
+                            {' '}
+                            — {formatDueOffset(item)}
+                            {item.is_required && ', required'}
+                          </Text>
+                        </Text>
+                      ))}
+                    </Stack>
+                  </Stack>
+
+                  {isAdmin && (
+                    <Group gap="xs" wrap="nowrap">
+                      <Tooltip label={template.is_active ? 'Deactivate' : 'Activate'}>
+                        <Switch
+                          checked={template.is_active}
+                          onChange={() => toggleMutation.mutate(template)}
+                        />
+                      </Tooltip>
+                      <Tooltip label="Edit">
+                        <ActionIcon variant="light" onClick={() => openEditor(template)}>
+                          <IconEdit size={16} />
+                        </ActionIcon>
+                      </Tooltip>
+                      <Tooltip label="Delete">
+                        <ActionIcon
+                          variant="light"
+                          color="red"
+                          onClick={() => {
+                            if (confirm(`Delete the task template "${template.name}"?`)) {
+                              deleteMutation.mutate(template.id);
+                            }
+                          }}
+                        >
+                          <IconTrash size={16} />
+                        </ActionIcon>
+                      </Tooltip>
+                    </Group>
+                  )}
+                </Group>
+              </Paper>
+            ))
+          )}
+
+          {/* Editor Modal */}
+          <Modal
+            opened={editorOpen}
+            onClose={closeEditor}
+            title={editingId ? 'Edit Task Template' : 'New Task Template'}
+            size="xl"
+          >
+            <Stack gap="md">
+              <TextInput
+                label="Name"
+                placeholder="e.g., Federal application checklist"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.currentTarget.value })}
+                required
+              />
+              <Textarea
+                label="Description"
+                value={form.description || ''}
+                onChange={(e) => setForm({ ...form, description: e.currentTarget.value })}
+                autosize
+                minRows={2}
+              />
+
+              <SimpleGrid cols={{ base: 1, sm: 3 }}>
+                <Select
+                  label="Funder"
+                  description="Only for this funder's grants"
+                  placeholder="Any funder"
+                  data={funders.map((f) => ({ value: f.id, label: f.name }))}
+                  value={form.funder_id || null}
+                  onChange={(value) =>
+                    setForm({ ...form, funder_id: value, agency: value ? '' : form.agency })
+                  }
+                  searchable
+                  clearable
+                />
+                <TextInput
+                  label="Agency"
+                  description="Used when no funder is set"
+                  placeholder="Any agency"
+                  value={form.agency || ''}
+                  onChange={(e) => setForm({ ...form, agency: e.currentTarget.value })}
+                  disabled={!!form.funder_id}
+                />
+                <Select
+                  label="Apply automatically"
+                  description="When a grant enters this stage"
+                  placeholder="Manual only"
+                  data={stages.map((s) => ({ value: s.key, label: s.label }))}
+                  value={form.apply_on_stage || null}
+                  onChange={(value) =>
+                    setForm({ ...form, apply_on_stage: (value as GrantStage) || null })
+                  }
+                  clearable
+                />
+              </SimpleGrid>
+
+              <Switch
+                label="Active"
+                checked={form.is_active ?? true}
+                onChange={(e) => setForm({ ...form, is_active: e.currentTarget.checked })}
+              />
+
+              <Divider label="Tasks" labelPosition="left" />
+
+              {items.map((item, index) => (
+                <Paper key={index} p="sm" withBorder>
+                  <Stack gap="xs">
+                    <Group gap="xs" wrap="nowrap" align="flex-end">
+                      <TextInput
+                        label="Title"
+                        placeholder="e.g., Draft project narrative"
+                        value={item.title}
+                        onChange={(e) => updateItem(index, { title: e.currentTarget.value })}
+                        style={{ flex: 1 }}
+                      />
+                      <ActionIcon
+                        variant="subtle"
+                        disabled={index === 0}
+                        onClick={() => moveItem(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <IconArrowUp size={16} />
+                      </ActionIcon>
+                      <ActionIcon
+                        variant="subtle"
+                        disabled={index === items.length - 1}
+                        onClick={() => moveItem(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <IconArrowDown size={16} />
+                      </ActionIcon>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        onClick={() =>
+                          setForm({ ...form, items: items.filter((_, i) => i !== index) })
+                        }
+                        aria-label="Remove task"
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Group>
+                    <SimpleGrid cols={{ base: 2, sm: 5 }}>
+                      <Select
+                        label="Type"
+                        data={TEMPLATE_TASK_TYPES}
+                        value={item.task_type}
+                        onChange={(value) =>
+                          updateItem(index, {
+                            task_type: (value as TaskTemplateItemInput['task_type']) || 'custom',
+                          })
+                        }
+                        allowDeselect={false}
+                      />
+                      <NumberInput
+                        label="Due (days)"
+                        description="Negative = before"
+                        placeholder="No due date"
+                        value={item.due_offset_days ?? ''}
+                        onChange={(value) =>
+                          updateItem(index, {
+                            due_offset_days: typeof value === 'number' ? value : null,
+                          })
+                        }
+                        allowDecimal={false}
+                      />
+                      <Select
+                        label="Relative to"
+                        description=" "
+                        data={DUE_OFFSET_FROM_OPTIONS}
+                        value={item.due_offset_from}
+                        onChange={(value) =>
+                          updateItem(index, {
+                            due_offset_from:
+                              (value as TaskTemplateItemInput['due_offset_from']) || 'close_date',
+                          })
+                        }
+                        allowDeselect={false}
+                      />
+                      <Select
+                        label="Assign to"
+                        description=" "
+                        placeholder="Unassigned"
+                        data={assigneeRoleOptions}
+                        value={item.default_assignee_role}
+                        onChange={(value) => updateItem(index, { default_assignee_role: value })}
+                        clearable
+                      />
+                      <NumberInput
+                        label="Estimated days"
+                        description=" "
+                        value={item.estimated_days ?? ''}
+                        onChange={(value) =>
+                          updateItem(index, {
+                            estimated_days: typeof value === 'number' ? value : null,
+                          })
+                        }
+                        min={0}
+                        max={365}
+                        allowDecimal={false}
+                      />
+                    </SimpleGrid>
+                    <Checkbox
+                      label="Required for submission"
+                      checked={item.is_required}
+                      onChange={(e) => updateItem(index, { is_required: e.currentTarget.checked })}
+                    />
+                  </Stack>
+                </Paper>
+              ))}
+
+              <Button
+                variant="light"
+                leftSection={<IconPlus size={16} />}
+                onClick={() => setForm({ ...form, items: [...items, { ...EMPTY_ITEM }] })}
+              >
+                Add Task
+              </Button>
+
+              <Group justify="flex-end">
+                <Button variant="default" onClick={closeEditor}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  loading={saveMutation.isPending}
+                  disabled={!form.name.trim()}
+                >
+                  {editingId ? 'Save Template' : 'Create Template'}
+                </Button>
+              </Group>
+            </Stack>
+          </Modal>
+        </Stack>
+      </SettingsLayout>
+    </ProtectedRoute>
+  );
+}
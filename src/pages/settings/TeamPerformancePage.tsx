@@ -30,6 +30,7 @@ import {
 } from '@tabler/icons-react';
 import { SettingsLayout } from '../../components/SettingsLayout';
 import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { TeamCapacityForecast } from '../../components/TeamCapacityForecast';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { supabase } from '../../lib/supabase';
 
@@ -143,7 +144,7 @@ export function TeamPerformancePage() {
             <Stack gap="sm">
               <Title order={1}>Team Performance</Title>
               <Text c="dimmed" size="lg">
-                Track individual contributor metrics and team leaderboard
+                Track individual contributor metrics, team leaderboard and upcoming workload
               </Text>
             </Stack>
             <Select
@@ -160,6 +161,8 @@ export function TeamPerformancePage() {
 
           <Divider />
 
+          <TeamCapacityForecast orgId={currentOrg.id} />
+
           {isLoading ? (
             <Center h={400}>
               <Stack align="center" gap="md">
@@ -5,6 +5,11 @@ export { TeamPerformancePage } from './TeamPerformancePage';
 export { NotificationsPage } from './NotificationsPage';
 export { AlertsPage } from './AlertsPage';
 export { CalendarPage } from './CalendarPage';
+export { ApiKeysPage } from './ApiKeysPage';
+export { TaskTemplatesPage } from './TaskTemplatesPage';
+export { PipelineStagesPage } from './PipelineStagesPage';
+export { PipelinesPage } from './PipelinesPage';
+export { AccountingPage } from './AccountingPage';
 export { BillingPage } from './BillingPage';
 export { ReportsPage } from './ReportsPage';
 export { DangerZonePage } from './DangerZonePage';
@@ -66,6 +66,7 @@ export interface ExportFormat {
   includeFields?: string[];
   filters?: {
     status?: string;
+    pipelineId?: string;
     dateFrom?: string;
     dateTo?: string;
   };
@@ -82,17 +83,24 @@ export interface ExportData {
 // =====================================================
 
 /**
- * Get comprehensive grant metrics for an organization
+ * Get comprehensive grant metrics for an organization, optionally for one pipeline
  */
 export async function getGrantMetrics(
-  orgId: string
+  orgId: string,
+  pipelineId?: string
 ): Promise<ServiceResponse<GrantMetrics>> {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('org_grants_saved')
       .select('*')
       .eq('org_id', orgId);
 
+    if (pipelineId) {
+      query = query.eq('pipeline_id', pipelineId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('[AnalyticsService] Error fetching grant metrics:', error);
       return {
@@ -184,18 +192,25 @@ export async function getGrantMetrics(
  */
 export async function getTimelineMetrics(
   orgId: string,
-  monthsBack: number = 12
+  monthsBack: number = 12,
+  pipelineId?: string
 ): Promise<ServiceResponse<TimelineMetrics>> {
   try {
     const startDate = new Date();
     startDate.setMonth(startDate.getMonth() - monthsBack);
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('org_grants_saved')
       .select('created_at, close_date, status, stage_updated_at')
       .eq('org_id', orgId)
       .gte('created_at', startDate.toISOString());
 
+    if (pipelineId) {
+      query = query.eq('pipeline_id', pipelineId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('[AnalyticsService] Error fetching timeline metrics:', error);
       return {
@@ -254,14 +269,21 @@ export async function getTimelineMetrics(
  * Get pipeline health metrics
  */
 export async function getPipelineHealth(
-  orgId: string
+  orgId: string,
+  pipelineId?: string
 ): Promise<ServiceResponse<PipelineHealth>> {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('org_grants_saved')
       .select('status, created_at, stage_updated_at')
       .eq('org_id', orgId);
 
+    if (pipelineId) {
+      query = query.eq('pipeline_id', pipelineId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('[AnalyticsService] Error fetching pipeline health:', error);
       return {
@@ -341,7 +363,8 @@ export async function getPipelineHealth(
  * Get team performance metrics
  */
 export async function getTeamPerformanceMetrics(
-  orgId: string
+  orgId: string,
+  pipelineId?: string
 ): Promise<ServiceResponse<TeamPerformanceMetrics>> {
   try {
     // Get all team members
@@ -364,11 +387,17 @@ export async function getTeamPerformanceMetrics(
     }
 
     // Get all grants
-    const { data: grants, error: grantsError } = await supabase
+    let grantsQuery = supabase
       .from('org_grants_saved')
       .select('assigned_to, status')
       .eq('org_id', orgId);
 
+    if (pipelineId) {
+      grantsQuery = grantsQuery.eq('pipeline_id', pipelineId);
+    }
+
+    const { data: grants, error: grantsError } = await grantsQuery;
+
     if (grantsError) {
       console.error('[AnalyticsService] Error fetching grants:', grantsError);
       return {
@@ -445,6 +474,9 @@ export async function exportGrantsData(
     if (exportConfig.filters?.status) {
       query = query.eq('status', exportConfig.filters.status);
     }
+    if (exportConfig.filters?.pipelineId) {
+      query = query.eq('pipeline_id', exportConfig.filters.pipelineId);
+    }
     if (exportConfig.filters?.dateFrom) {
       query = query.gte('created_at', exportConfig.filters.dateFrom);
     }
@@ -557,7 +589,8 @@ export function convertToCSV(data: any[]): string {
  * Generate analytics report
  */
 export async function generateAnalyticsReport(
-  orgId: string
+  orgId: string,
+  pipelineId?: string
 ): Promise<ServiceResponse<{
   grantMetrics: GrantMetrics;
   pipelineHealth: PipelineHealth;
@@ -566,10 +599,10 @@ export async function generateAnalyticsReport(
 }>> {
   try {
     const [grantMetrics, pipelineHealth, teamPerformance, timelineMetrics] = await Promise.all([
-      getGrantMetrics(orgId),
-      getPipelineHealth(orgId),
-      getTeamPerformanceMetrics(orgId),
-      getTimelineMetrics(orgId, 12),
+      getGrantMetrics(orgId, pipelineId),
+      getPipelineHealth(orgId, pipelineId),
+      getTeamPerformanceMetrics(orgId, pipelineId),
+      getTimelineMetrics(orgId, 12, pipelineId),
     ]);
 
     if (!grantMetrics.success) {
@@ -626,7 +659,8 @@ export async function generateAnalyticsReport(
  */
 export async function getDashboardSummary(
   orgId: string,
-  userId?: string
+  userId?: string,
+  pipelineId?: string
 ): Promise<ServiceResponse<{
   totalGrants: number;
   activeGrants: number;
@@ -639,11 +673,17 @@ export async function getDashboardSummary(
     thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
 
     // Get basic grant counts
-    const { data: allGrants, error: grantsError } = await supabase
+    let grantsQuery = supabase
       .from('org_grants_saved')
       .select('id, status, close_date, assigned_to')
       .eq('org_id', orgId);
 
+    if (pipelineId) {
+      grantsQuery = grantsQuery.eq('pipeline_id', pipelineId);
+    }
+
+    const { data: allGrants, error: grantsError } = await grantsQuery;
+
     if (grantsError) {
       console.error('[AnalyticsService] Error fetching grants for dashboard:', grantsError);
       return {
@@ -671,12 +711,18 @@ export async function getDashboardSummary(
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    const { count: recentActivity } = await supabase
+    let recentQuery = supabase
       .from('org_grants_saved')
       .select('id', { count: 'exact', head: true })
       .eq('org_id', orgId)
       .gte('created_at', sevenDaysAgo.toISOString());
 
+    if (pipelineId) {
+      recentQuery = recentQuery.eq('pipeline_id', pipelineId);
+    }
+
+    const { count: recentActivity } = await recentQuery;
+
     return {
       success: true,
       data: {
@@ -0,0 +1,83 @@
+// Accounting export types (see api/utils/accounting-export.ts)
+
+export type ExportFormat = 'quickbooks_iif' | 'quickbooks_csv' | 'xero_csv';
+
+export interface AccountingSettings {
+  // Account names (QuickBooks) or codes (Xero)
+  bank_account: string | null;
+  revenue_account: string | null;
+  default_expense_account: string | null;
+  // Xero tracking category the class options belong to
+  tracking_category: string;
+  xero_tax_rate: string;
+}
+
+export interface AccountingMapping {
+  // Null applies to every grant
+  grant_id: string | null;
+  // Null applies to every budget category
+  category: string | null;
+  expense_account: string | null;
+  // Only on grant-wide mappings
+  revenue_account: string | null;
+  // QuickBooks class or Xero tracking option
+  class_name: string | null;
+}
+
+export interface AccountingConfig {
+  settings: AccountingSettings;
+  mappings: AccountingMapping[];
+}
+
+export interface AccountingSettingsResponse extends AccountingConfig {
+  categories: Array<{ value: string; label: string }>;
+  grants: Array<{ id: string; title: string }>;
+}
+
+export interface JournalLine {
+  // Null when no account is mapped
+  account: string | null;
+  debit: number;
+  credit: number;
+  class_name: string | null;
+}
+
+export interface JournalEntry {
+  number: string;
+  kind: 'disbursement' | 'payment_schedule';
+  id: string;
+  entry_type: 'expense' | 'refund' | 'receipt';
+  date: string;
+  amount: number;
+  category: string | null;
+  memo: string;
+  lines: JournalLine[];
+}
+
+export interface AccountingExport {
+  id: string;
+  org_id: string;
+  budget_id: string;
+  grant_id: string;
+  format: ExportFormat;
+  entry_count: number;
+  total_amount: number;
+  period_start: string | null;
+  period_end: string | null;
+  file_name: string;
+  exported_by: string;
+  exported_by_name: string | null;
+  created_at: string;
+}
+
+export interface AccountingExportPreview {
+  // Records not exported yet
+  entries: JournalEntry[];
+  // Accounts that still need to be mapped; exporting fails until they are
+  warnings: string[];
+  // Records left out until approved, and in-kind records never exported
+  awaiting_approval: number;
+  non_cash: number;
+  exports: AccountingExport[];
+  formats: Array<{ value: ExportFormat; label: string }>;
+}
@@ -1,6 +1,9 @@
 // Approval workflow types
 
-export type GrantStage = 'researching' | 'go-no-go' | 'drafting' | 'submitted' | 'awarded' | 'not-funded' | 'closed-out' | 'rejected' | 'withdrawn' | 'archived';
+import { DEFAULT_PIPELINE_STAGES } from './pipelineStages';
+
+// Key of one of the organization's pipeline stages (see types/pipelineStages.ts)
+export type GrantStage = string;
 export type ApprovalRole = 'admin' | 'contributor';
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
 export type ApprovalDecision = 'approved' | 'rejected';
@@ -172,33 +175,13 @@ export interface StageTransition {
 }
 
 // Constants
-export const GRANT_STAGES: { value: GrantStage; label: string; color: string }[] = [
-  { value: 'researching', label: 'Researching', color: 'blue' },
-  { value: 'go-no-go', label: 'Go/No-Go', color: 'yellow' },
-  { value: 'drafting', label: 'Drafting', color: 'grape' },
-  { value: 'submitted', label: 'Submitted', color: 'orange' },
-  { value: 'awarded', label: 'Awarded', color: 'green' },
-  { value: 'not-funded', label: 'Not Funded', color: 'red' },
-  { value: 'closed-out', label: 'Closed Out', color: 'teal' },
-  { value: 'rejected', label: 'Rejected', color: 'pink' },
-  { value: 'withdrawn', label: 'Withdrawn', color: 'gray' },
-  { value: 'archived', label: 'Archived', color: 'dark' },
-];
-
-export const COMMON_STAGE_TRANSITIONS: Omit<StageTransition, 'requiresApproval' | 'workflowId'>[] = [
-  { from: 'researching', to: 'go-no-go', label: 'Move to Go/No-Go Decision' },
-  { from: 'go-no-go', to: 'drafting', label: 'Approved - Start Drafting' },
-  { from: 'go-no-go', to: 'rejected', label: 'No-Go Decision' },
-  { from: 'researching', to: 'drafting', label: 'Start Drafting' },
-  { from: 'drafting', to: 'submitted', label: 'Submit Application' },
-  { from: 'submitted', to: 'awarded', label: 'Mark as Awarded' },
-  { from: 'submitted', to: 'not-funded', label: 'Mark as Not Funded' },
-  { from: 'submitted', to: 'rejected', label: 'Mark as Rejected' },
-  { from: 'awarded', to: 'closed-out', label: 'Close Out Grant' },
-  { from: 'researching', to: 'withdrawn', label: 'Withdraw' },
-  { from: 'go-no-go', to: 'withdrawn', label: 'Withdraw' },
-  { from: 'drafting', to: 'withdrawn', label: 'Withdraw' },
-];
+// Default stages; an organization's own stages come from usePipelineStages()
+export const GRANT_STAGES: { value: GrantStage; label: string; color: string }[] =
+  DEFAULT_PIPELINE_STAGES.map((stage) => ({
+    value: stage.key,
+    label: stage.label,
+    color: stage.color,
+  }));
 
 // Helper functions
 export function getStageLabel(stage: GrantStage): string {
@@ -209,8 +192,12 @@ export function getStageColor(stage: GrantStage): string {
   return GRANT_STAGES.find(s => s.value === stage)?.color || 'gray';
 }
 
-export function formatTransitionLabel(from: GrantStage, to: GrantStage): string {
-  return `${getStageLabel(from)} → ${getStageLabel(to)}`;
+export function formatTransitionLabel(
+  from: GrantStage,
+  to: GrantStage,
+  getLabel: (stage: GrantStage) => string = getStageLabel,
+): string {
+  return `${getLabel(from)} → ${getLabel(to)}`;
 }
 
 export function isRequestPending(request: ApprovalRequest): boolean {
@@ -0,0 +1,112 @@
+// Budget builder types (see api/utils/budget-builder.ts)
+
+export const BUILDER_COST_CATEGORIES = [
+  'travel',
+  'equipment',
+  'supplies',
+  'contractual',
+  'construction',
+  'other_direct',
+] as const;
+
+export type BuilderCostCategory = (typeof BUILDER_COST_CATEGORIES)[number];
+
+export type RollupCategory =
+  | 'personnel'
+  | 'fringe_benefits'
+  | BuilderCostCategory
+  | 'indirect_costs';
+
+export const ROLLUP_CATEGORY_LABELS: Record<RollupCategory, string> = {
+  personnel: 'Personnel',
+  fringe_benefits: 'Fringe Benefits',
+  travel: 'Travel',
+  equipment: 'Equipment',
+  supplies: 'Supplies',
+  contractual: 'Contractual',
+  construction: 'Construction',
+  other_direct: 'Other Direct Costs',
+  indirect_costs: 'Indirect Costs',
+};
+
+export const MAX_BUDGET_PERIODS = 10;
+
+// mtdc: modified total direct costs; tdc: total direct costs
+export type IndirectBase = 'mtdc' | 'tdc';
+
+export interface BudgetPeriod {
+  period_number: number;
+  // YYYY-MM-DD
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface FringeRate {
+  employee_class: string;
+  // Percent of salary
+  rate: number;
+}
+
+export interface PersonnelRow {
+  id?: string;
+  name: string;
+  position_title: string | null;
+  employee_class: string;
+  // Base salary in the first period
+  annual_salary: number;
+  effort_percent: number;
+  // Months on the project in each period
+  months: number;
+  // Salary increase for each period after the first
+  escalation_percent: number;
+  first_period: number;
+  last_period: number | null;
+}
+
+export interface CostItem {
+  id?: string;
+  period_number: number;
+  category: BuilderCostCategory;
+  description: string;
+  amount: number;
+  // Set for subawards; only their first $25,000 counts toward MTDC
+  subrecipient: string | null;
+  // Participant support, tuition remission, rent and other MTDC exclusions
+  mtdc_excluded: boolean;
+}
+
+export interface BudgetBuilderInputs {
+  periods: BudgetPeriod[];
+  fringe_rates: FringeRate[];
+  personnel: PersonnelRow[];
+  cost_items: CostItem[];
+  indirect_rate: number;
+  indirect_base: IndirectBase;
+}
+
+export interface PeriodTotals extends BudgetPeriod {
+  categories: Record<RollupCategory, number>;
+  total_direct: number;
+  indirect_base_amount: number;
+  total: number;
+}
+
+export interface BudgetCalculation {
+  periods: PeriodTotals[];
+  categories: Record<RollupCategory, number>;
+  personnel: Array<{
+    name: string;
+    employee_class: string;
+    periods: Array<{ period_number: number; salary: number; fringe: number }>;
+  }>;
+  total_direct: number;
+  indirect_base_amount: number;
+  total_indirect: number;
+  total: number;
+  warnings: string[];
+}
+
+export interface BudgetBuilder {
+  inputs: BudgetBuilderInputs;
+  calculation: BudgetCalculation;
+}
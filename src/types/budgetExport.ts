@@ -0,0 +1,53 @@
+// Budget export types (see api/utils/sf424a.ts)
+
+import type { RollupCategory } from './budgetBuilder';
+
+export type ExportCell = string | number | null;
+
+// Layout of an exported document; numbers are currency amounts
+export type ExportBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | {
+      type: 'table';
+      header: string[];
+      rows: Array<{ cells: ExportCell[]; bold?: boolean }>;
+    };
+
+export interface Sf424aForm {
+  applicant: string;
+  program: string;
+  aln: string | null;
+  agency: string | null;
+  periods: Array<{
+    period_number: number;
+    start_date: string | null;
+    end_date: string | null;
+    categories: Record<RollupCategory, number>;
+    total_direct: number;
+    total: number;
+  }>;
+  federal_total: number;
+  non_federal: { applicant: number; state: number; other: number; total: number };
+  cash_needs: { federal: number[]; non_federal: number[] };
+  future_funding: number[];
+  direct_charges_note: string;
+  indirect_charges_note: string;
+}
+
+// Totals that don't agree, e.g. line items against the budget builder
+export interface ReconciliationIssue {
+  category: string | null;
+  message: string;
+  expected: number;
+  actual: number;
+}
+
+export interface BudgetExport {
+  form: Sf424aForm;
+  issues: ReconciliationIssue[];
+  documents: {
+    sf424a: ExportBlock[];
+    justification: ExportBlock[];
+  };
+}
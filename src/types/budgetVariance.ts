@@ -0,0 +1,84 @@
+// Budget variance and revision types (see api/utils/budget-variance.ts)
+
+export interface VarianceAmounts {
+  budgeted: number;
+  actual: number;
+  // budgeted - actual; negative when overspent
+  variance: number;
+  variance_percent: number | null;
+  // Actual plus the current spending rate over the rest of the period
+  projected: number;
+  projected_variance: number;
+}
+
+export interface LineVariance extends VarianceAmounts {
+  line_item_id: string;
+  category: string;
+  description: string;
+}
+
+export interface CategoryVariance extends VarianceAmounts {
+  category: string;
+  over_budget: boolean;
+  projected_over_budget: boolean;
+  // Projected overspending that has to move in from other categories
+  transfer_amount: number;
+  // Of the total budget
+  transfer_percent: number;
+  exceeds_threshold: boolean;
+  lines: LineVariance[];
+}
+
+export interface BudgetVariance extends VarianceAmounts {
+  as_of: string;
+  period_start: string | null;
+  period_end: string | null;
+  projection_available: boolean;
+  elapsed_percent: number | null;
+  daily_burn_rate: number;
+  projected_depletion_date: string | null;
+  threshold_percent: number;
+  threshold_amount: number;
+  cumulative_transfer_amount: number;
+  cumulative_transfer_percent: number;
+  requires_revision: boolean;
+  unassigned_actual: number;
+  categories: CategoryVariance[];
+}
+
+export type BudgetRevisionStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface BudgetRevisionLine {
+  id: string;
+  line_item_id: string | null;
+  category: string;
+  description: string;
+  before_amount: number;
+  after_amount: number;
+}
+
+export interface BudgetRevision {
+  id: string;
+  budget_id: string;
+  grant_id: string;
+  status: BudgetRevisionStatus;
+  reason: string;
+  before_total: number;
+  after_total: number;
+  transfer_percent: number;
+  threshold_percent: number;
+  requested_by: string;
+  requested_by_name: string | null;
+  requested_at: string;
+  decided_by: string | null;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  decision_comments: string | null;
+  lines: BudgetRevisionLine[];
+}
+
+export interface BudgetRevisionRequest {
+  budget_id: string;
+  reason: string;
+  lines: Array<{ line_item_id: string; after_amount: number }>;
+}
@@ -0,0 +1,69 @@
+// Notification preference types (see api/utils/notification-preferences.ts)
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'task_assigned',
+  'mention',
+  'approval_requested',
+  'deadline_external',
+  'deadline_loi',
+  'deadline_internal',
+  'deadline_recurring',
+  'alert_match',
+] as const;
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  task_assigned: 'Task assigned to me',
+  mention: '@mentions',
+  approval_requested: 'Approval requests',
+  deadline_external: 'Grant deadlines',
+  deadline_loi: 'LOI deadlines',
+  deadline_internal: 'Internal deadlines',
+  deadline_recurring: 'Recurring tasks & compliance',
+  alert_match: 'Grant alert matches',
+};
+
+export type NotificationChannel = 'email' | 'in_app' | 'slack' | 'teams';
+
+export type NotificationDelivery = 'immediate' | 'digest';
+
+export type DigestFrequency = 'hourly' | 'daily';
+
+export interface NotificationRoute {
+  email: boolean;
+  in_app: boolean;
+  slack: boolean;
+  teams: boolean;
+  // Digest events are emailed in the next digest instead of right away
+  delivery: NotificationDelivery;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  org_id: string;
+  routes: Record<NotificationEventType, NotificationRoute>;
+  // 'HH:MM' in the user's time zone; both null when quiet hours are off
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  digest_frequency: DigestFrequency;
+  // Hour of the day (user's time zone) the daily digest goes out
+  digest_hour: number;
+  last_digest_at: string | null;
+}
+
+export interface UpdateNotificationPreferencesInput {
+  routes?: Partial<Record<NotificationEventType, NotificationRoute>>;
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  timezone?: string;
+  digest_frequency?: DigestFrequency;
+  digest_hour?: number;
+}
+
+// Chat integrations the organization has connected
+export interface ConnectedChannels {
+  slack: boolean;
+  teams: boolean;
+}
@@ -0,0 +1,228 @@
+// Pipeline stage types
+
+export type StageOutcome = 'won' | 'lost';
+
+// block refuses moves into a full stage; warn lets them through with a warning
+export type WipLimitMode = 'warn' | 'block';
+
+// One of an organization's pipeline stages; grants store its key as their status.
+// Keys are unique across the organization; stages without a pipeline_id are
+// shared by every pipeline
+export interface PipelineStage {
+  id?: string;
+  org_id?: string;
+  pipeline_id?: string | null;
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  outcome: StageOutcome | null;
+  is_terminal: boolean;
+  show_on_board: boolean;
+  required_fields: StageRequiredField[];
+  wip_limit: number | null;
+  wip_limit_mode: WipLimitMode;
+  stale_after_days: number | null;
+}
+
+export type StageRequiredField =
+  | 'assigned_to'
+  | 'priority'
+  | 'close_date'
+  | 'loi_deadline'
+  | 'internal_deadline'
+  | 'funder_id'
+  | 'program'
+  | 'aln'
+  | 'description'
+  | 'notes';
+
+// A stage without a key is new; the server derives one from its label
+export type SavePipelineStageInput = Omit<
+  PipelineStage,
+  'id' | 'org_id' | 'pipeline_id' | 'key' | 'position'
+> & {
+  key?: string;
+};
+
+// Used by the Archive action, so every organization keeps it
+export const ARCHIVED_STAGE_KEY = 'archived';
+
+export const STAGE_REQUIRED_FIELDS: { value: StageRequiredField; label: string }[] = [
+  { value: 'assigned_to', label: 'Owner' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'close_date', label: 'Application deadline' },
+  { value: 'loi_deadline', label: 'LOI deadline' },
+  { value: 'internal_deadline', label: 'Internal deadline' },
+  { value: 'funder_id', label: 'Funder' },
+  { value: 'program', label: 'Program' },
+  { value: 'aln', label: 'Assistance listing (ALN)' },
+  { value: 'description', label: 'Description' },
+  { value: 'notes', label: 'Notes' },
+];
+
+export const STAGE_COLORS = [
+  'blue',
+  'cyan',
+  'teal',
+  'green',
+  'lime',
+  'yellow',
+  'orange',
+  'red',
+  'pink',
+  'grape',
+  'violet',
+  'indigo',
+  'gray',
+  'dark',
+];
+
+// Stages every organization starts with (see api/utils/pipeline-stages.ts)
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  {
+    key: 'researching',
+    label: 'Researching',
+    color: 'blue',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'go-no-go',
+    label: 'Go/No-Go',
+    color: 'yellow',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'drafting',
+    label: 'Drafting',
+    color: 'grape',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'submitted',
+    label: 'Submitted',
+    color: 'orange',
+    outcome: null,
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'awarded',
+    label: 'Awarded',
+    color: 'green',
+    outcome: 'won',
+    is_terminal: false,
+    show_on_board: true,
+  },
+  {
+    key: 'not-funded',
+    label: 'Not Funded',
+    color: 'red',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: true,
+  },
+  {
+    key: 'closed-out',
+    label: 'Closed Out',
+    color: 'teal',
+    outcome: 'won',
+    is_terminal: true,
+    show_on_board: true,
+  },
+  {
+    key: 'rejected',
+    label: 'Rejected',
+    color: 'pink',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: false,
+  },
+  {
+    key: 'withdrawn',
+    label: 'Withdrawn',
+    color: 'gray',
+    outcome: 'lost',
+    is_terminal: true,
+    show_on_board: false,
+  },
+  {
+    key: ARCHIVED_STAGE_KEY,
+    label: 'Archived',
+    color: 'dark',
+    outcome: null,
+    is_terminal: true,
+    show_on_board: false,
+  },
+].map(
+  (stage, position) =>
+    ({
+      ...stage,
+      position,
+      required_fields: [],
+      wip_limit: null,
+      wip_limit_mode: 'warn',
+      stale_after_days: null,
+    }) as PipelineStage,
+);
+
+/**
+ * Stages a grant in the given pipeline can be in, including shared stages
+ */
+export function stagesForPipeline(
+  stages: PipelineStage[],
+  pipelineId: string | null | undefined,
+): PipelineStage[] {
+  return stages.filter((stage) => !stage.pipeline_id || stage.pipeline_id === pipelineId);
+}
+
+export function requiredFieldLabel(field: string): string {
+  return STAGE_REQUIRED_FIELDS.find((f) => f.value === field)?.label || field;
+}
+
+/**
+ * Required fields of a stage that are empty on the grant
+ */
+export function missingRequiredFields(
+  stage: PipelineStage | undefined,
+  grant: Record<string, unknown>,
+): StageRequiredField[] {
+  return (stage?.required_fields || []).filter((field) => {
+    const value = grant[field];
+    return value === null || value === undefined || (typeof value === 'string' && !value.trim());
+  });
+}
+
+/**
+ * Whole days a grant has been in its current stage
+ */
+export function daysInStage(
+  grant: { stage_updated_at: string | null; saved_at: string },
+  now: Date = new Date(),
+): number {
+  const enteredAt = new Date(grant.stage_updated_at || grant.saved_at);
+  return Math.max(0, Math.floor((now.getTime() - enteredAt.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * How long a grant has outstayed its stage: stale past the stage's threshold,
+ * overdue past twice the threshold (matches the stale grant digest)
+ */
+export function stageAging(
+  stage: PipelineStage | undefined,
+  days: number,
+): 'fresh' | 'stale' | 'overdue' {
+  if (!stage?.stale_after_days || stage.is_terminal) {
+    return 'fresh';
+  }
+  if (days >= stage.stale_after_days * 2) {
+    return 'overdue';
+  }
+  return days >= stage.stale_after_days ? 'stale' : 'fresh';
+}
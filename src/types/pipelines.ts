@@ -0,0 +1,31 @@
+// Pipeline types
+
+// One of an organization's named pipelines; each grant belongs to exactly one
+export interface Pipeline {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  position: number;
+  // Grants saved or imported without a pipeline go here
+  is_default: boolean;
+  // Empty when the pipeline is open to the whole organization
+  member_ids: string[];
+  grant_count: number;
+}
+
+export interface CreatePipelineInput {
+  name: string;
+  description?: string | null;
+  color?: string;
+  member_ids?: string[];
+  // Pipeline whose stages the new one starts with; the default pipeline if omitted
+  copy_stages_from?: string;
+}
+
+export type UpdatePipelineInput = Partial<
+  Pick<Pipeline, 'name' | 'description' | 'color' | 'position' | 'member_ids'>
+> & {
+  is_default?: true;
+};
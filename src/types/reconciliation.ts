@@ -0,0 +1,87 @@
+// Bank reconciliation types (see api/utils/reconciliation.ts)
+
+export interface StatementRow {
+  // 1-based row number in the statement
+  row: number;
+  date: string;
+  // Positive for money in, negative for money out
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export type CandidateKind = 'disbursement' | 'payment_schedule';
+
+export interface ReconciliationCandidate {
+  kind: CandidateKind;
+  id: string;
+  budget_id: string;
+  grant_id: string | null;
+  grant_title: string | null;
+  // disbursement_type, or 'scheduled_payment'
+  type: string;
+  date: string;
+  amount: number;
+  either_direction: boolean;
+  description: string;
+  reference: string | null;
+}
+
+export type MatchConfidence = 'high' | 'medium';
+
+export interface ReconciliationMatch {
+  row: number;
+  kind: CandidateKind;
+  id: string;
+  confidence: MatchConfidence;
+  score: number;
+  days_apart: number;
+  reference_matched: boolean;
+}
+
+export interface MatchSuggestions {
+  matches: ReconciliationMatch[];
+  unmatched_rows: number[];
+  // `${kind}:${id}` of candidates dated within the statement period
+  unmatched_candidates: string[];
+  candidates: ReconciliationCandidate[];
+}
+
+export interface ReconciliationRequest {
+  org_id: string;
+  file_name: string;
+  rows: StatementRow[];
+  matches: Array<{ row: number; kind: CandidateKind; id: string }>;
+}
+
+export interface BankReconciliation {
+  id: string;
+  org_id: string;
+  file_name: string;
+  statement_start: string | null;
+  statement_end: string | null;
+  row_count: number;
+  matched_count: number;
+  unmatched_rows: StatementRow[];
+  reconciled_by: string;
+  reconciled_by_name: string | null;
+  created_at: string;
+}
+
+export interface ReconciliationResult {
+  reconciliation: BankReconciliation;
+  reconciled: number;
+  payments_recorded: number;
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+// Statement CSV column for each field
+export interface StatementColumns {
+  date: string | null;
+  // A signed amount column, or separate money in / money out columns
+  amount: string | null;
+  money_in: string | null;
+  money_out: string | null;
+  description: string | null;
+  reference: string | null;
+}
@@ -0,0 +1,96 @@
+// Task template types
+
+import type { GrantStage } from './approvals';
+
+export type TemplateTaskType =
+  | 'research'
+  | 'budget'
+  | 'narrative'
+  | 'letters'
+  | 'documents'
+  | 'submission'
+  | 'custom';
+export type DueOffsetFrom = 'close_date' | 'loi_deadline';
+
+// A task copied onto a grant when the template is applied
+export interface TaskTemplateItem {
+  id: string;
+  template_id: string;
+  title: string;
+  description: string | null;
+  task_type: TemplateTaskType;
+  due_offset_days: number | null;
+  due_offset_from: DueOffsetFrom;
+  default_assignee_role: string | null;
+  is_required: boolean;
+  estimated_days: number | null;
+  position: number;
+}
+
+export interface TaskTemplate {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  funder_id: string | null;
+  agency: string | null;
+  apply_on_stage: GrantStage | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  task_template_items: TaskTemplateItem[];
+  // Only when listed for a grant: 2 = funder, 1 = agency, 0 = general, null = no match
+  match_rank?: number | null;
+}
+
+export type TaskTemplateItemInput = Omit<TaskTemplateItem, 'id' | 'template_id' | 'position'>;
+
+export interface SaveTaskTemplateRequest {
+  name: string;
+  description?: string | null;
+  funder_id?: string | null;
+  agency?: string | null;
+  apply_on_stage?: GrantStage | null;
+  is_active?: boolean;
+  items?: TaskTemplateItemInput[];
+}
+
+export interface ApplyTaskTemplateResponse {
+  created: { id: string; title: string }[];
+  skipped: number;
+}
+
+// Assignee role resolved to the grant's owner
+export const GRANT_OWNER_ROLE = 'grant_owner';
+
+export const TEMPLATE_TASK_TYPES: { value: TemplateTaskType; label: string }[] = [
+  { value: 'research', label: 'Research' },
+  { value: 'budget', label: 'Budget' },
+  { value: 'narrative', label: 'Narrative' },
+  { value: 'letters', label: 'Letters' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'submission', label: 'Submission' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const DUE_OFFSET_FROM_OPTIONS: { value: DueOffsetFrom; label: string }[] = [
+  { value: 'close_date', label: 'Close date' },
+  { value: 'loi_deadline', label: 'LOI deadline' },
+];
+
+export function formatDueOffset(
+  item: Pick<TaskTemplateItem, 'due_offset_days' | 'due_offset_from'>,
+): string {
+  if (item.due_offset_days === null) {
+    return 'No due date';
+  }
+  const from = DUE_OFFSET_FROM_OPTIONS.find(
+    (o) => o.value === item.due_offset_from,
+  )?.label.toLowerCase();
+  const days = Math.abs(item.due_offset_days);
+  if (item.due_offset_days === 0) {
+    return `On ${from}`;
+  }
+  return `${days} day${days === 1 ? '' : 's'} ${item.due_offset_days < 0 ? 'before' : 'after'} ${from}`;
+}
@@ -0,0 +1,67 @@
+// Team capacity forecast types
+
+export type EffortKind = 'task_type' | 'grant_source';
+
+export interface EffortSettings {
+  task_type_hours: Record<string, number>;
+  grant_source_hours: Record<string, number>;
+}
+
+export interface MemberForecast {
+  user_id: string;
+  name: string;
+  weekly_capacity: number;
+  // Hours per forecast week
+  load: number[];
+  // Load / capacity per week; null when the member has no capacity
+  utilization: (number | null)[];
+  // Indexes into weeks
+  overbooked_weeks: number[];
+  peak_utilization: number | null;
+  unscheduled_hours: number;
+}
+
+export interface ReassignmentSuggestion {
+  task_id: string;
+  task_title: string;
+  grant_id: string;
+  grant_title: string;
+  hours: number;
+  from_user_id: string;
+  to_user_id: string;
+  week_start: string;
+}
+
+// Load added by committing to a grant under go/no-go review
+export interface CandidateImpact {
+  grant_id: string;
+  title: string;
+  already_committed: boolean;
+  owner_id: string | null;
+  hours: number;
+  added: number[];
+  newly_overbooked_weeks: number[];
+}
+
+export interface CapacityForecast {
+  // Monday of each forecast week (YYYY-MM-DD)
+  weeks: string[];
+  members: MemberForecast[];
+  unassigned: { load: number[]; unscheduled_hours: number };
+  suggestions: ReassignmentSuggestion[];
+  candidate: CandidateImpact | null;
+  settings: {
+    default_weekly_hours: number;
+    effort: EffortSettings;
+  };
+}
+
+export interface UpdateCapacityRequest {
+  members?: { user_id: string; weekly_hours: number | null }[];
+  effort?: { kind: EffortKind; key: string; hours: number }[];
+}
+
+export const GRANT_SOURCE_LABELS: Record<string, string> = {
+  'grants.gov': 'Grants.gov application',
+  custom: 'Other application',
+};
@@ -0,0 +1,147 @@
+import { supabase } from '../lib/supabase';
+import type {
+  AccountingConfig,
+  AccountingExportPreview,
+  AccountingSettingsResponse,
+  ExportFormat,
+} from '../types/accounting';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function ensureOk(response: Response): Promise<void> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    const warnings: string[] = error.warnings || [];
+    throw new Error(
+      [error.error || `HTTP ${response.status}: ${response.statusText}`, ...warnings].join('. '),
+    );
+  }
+}
+
+/**
+ * Save a downloaded file under the name the server gave it
+ */
+async function saveDownload(response: Response, fallbackName: string): Promise<void> {
+  const filename =
+    response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Fetch the organization's accounting settings and mappings
+ */
+export async function fetchAccountingSettings(orgId: string): Promise<AccountingSettingsResponse> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ org_id: orgId });
+
+  const response = await fetch(`${API_BASE_URL}/accounting-settings?${queryParams}`, { headers });
+  await ensureOk(response);
+
+  return response.json();
+}
+
+/**
+ * Save the accounting settings and replace every mapping (admins only)
+ */
+export async function updateAccountingSettings(
+  orgId: string,
+  config: AccountingConfig,
+): Promise<AccountingConfig> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/accounting-settings`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ org_id: orgId, ...config }),
+  });
+  await ensureOk(response);
+
+  return response.json();
+}
+
+/**
+ * Fetch the journal entries a budget's next export would contain, and past exports
+ */
+export async function fetchAccountingExport(budgetId: string): Promise<AccountingExportPreview> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/accounting-export?${queryParams}`, { headers });
+  await ensureOk(response);
+
+  return response.json();
+}
+
+/**
+ * Export the records not exported yet and download the journal file
+ */
+export async function createAccountingExport(
+  budgetId: string,
+  format: ExportFormat,
+  throughDate: string | null,
+): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/accounting-export`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ budget_id: budgetId, format, through_date: throughDate }),
+  });
+  await ensureOk(response);
+
+  await saveDownload(response, format === 'quickbooks_iif' ? 'journal.iif' : 'journal.csv');
+}
+
+/**
+ * Download a past export's file again
+ */
+export async function downloadAccountingExport(exportId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ export_id: exportId });
+
+  const response = await fetch(`${API_BASE_URL}/accounting-export?${queryParams}`, { headers });
+  await ensureOk(response);
+
+  await saveDownload(response, 'journal.csv');
+}
+
+/**
+ * Undo an export so its records are exported again (admins only)
+ */
+export async function deleteAccountingExport(exportId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ export_id: exportId });
+
+  const response = await fetch(`${API_BASE_URL}/accounting-export?${queryParams}`, {
+    method: 'DELETE',
+    headers,
+  });
+  await ensureOk(response);
+}
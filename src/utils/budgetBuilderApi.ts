@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabase';
+import type { BudgetBuilder, BudgetBuilderInputs } from '../types/budgetBuilder';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch a budget's builder inputs and calculated totals
+ */
+export async function fetchBudgetBuilder(budgetId: string): Promise<BudgetBuilder> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-builder?${queryParams}`, { headers });
+
+  return handleResponse<BudgetBuilder>(response);
+}
+
+/**
+ * Save a budget's builder inputs and roll the totals up into its line items
+ */
+export async function saveBudgetBuilder(
+  budgetId: string,
+  inputs: BudgetBuilderInputs,
+): Promise<BudgetBuilder> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/budget-builder`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ budget_id: budgetId, ...inputs }),
+  });
+
+  return handleResponse<BudgetBuilder>(response);
+}
@@ -0,0 +1,65 @@
+import { supabase } from '../lib/supabase';
+import type { BudgetExport } from '../types/budgetExport';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function ensureOk(response: Response): Promise<void> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+}
+
+/**
+ * Fetch a budget's SF-424A, budget justification and reconciliation issues
+ */
+export async function fetchBudgetExport(budgetId: string): Promise<BudgetExport> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-export?${queryParams}`, { headers });
+  await ensureOk(response);
+
+  return response.json();
+}
+
+/**
+ * Download a budget's SF-424A and budget justification as an Excel workbook
+ */
+export async function downloadBudgetWorkbook(budgetId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId, format: 'xlsx' });
+
+  const response = await fetch(`${API_BASE_URL}/budget-export?${queryParams}`, { headers });
+  await ensureOk(response);
+
+  const filename =
+    response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'sf-424a.xlsx';
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,129 @@
+import { supabase } from '../lib/supabase';
+import type {
+  BudgetRevision,
+  BudgetRevisionRequest,
+  BudgetVariance,
+} from '../types/budgetVariance';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch budget-vs-actual variance per category and line item, with the burn
+ * projection and rebudgeting flags
+ */
+export async function fetchBudgetVariance(budgetId: string): Promise<BudgetVariance> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-variance?${queryParams}`, { headers });
+  const data = await handleResponse<{ variance: BudgetVariance }>(response);
+
+  return data.variance;
+}
+
+/**
+ * Set the share of the budget that may move between categories without a
+ * budget revision
+ */
+export async function updateRebudgetThreshold(budgetId: string, percent: number): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/budgets?${queryParams}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ rebudget_threshold_percent: percent }),
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Fetch a budget's revision requests, newest first
+ */
+export async function fetchBudgetRevisions(budgetId: string): Promise<BudgetRevision[]> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ budget_id: budgetId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-revisions?${queryParams}`, { headers });
+  const data = await handleResponse<{ revisions: BudgetRevision[] }>(response);
+
+  return data.revisions;
+}
+
+/**
+ * Request a budget revision; org admins are asked to approve it
+ */
+export async function requestBudgetRevision(request: BudgetRevisionRequest): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/budget-revisions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(request),
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Approve or reject a pending budget revision
+ */
+export async function decideBudgetRevision(
+  revisionId: string,
+  decision: 'approved' | 'rejected',
+  comments?: string,
+): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ revision_id: revisionId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-revisions?${queryParams}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ decision, comments: comments || null }),
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Cancel a pending budget revision
+ */
+export async function cancelBudgetRevision(revisionId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ revision_id: revisionId });
+
+  const response = await fetch(`${API_BASE_URL}/budget-revisions?${queryParams}`, {
+    method: 'DELETE',
+    headers,
+  });
+
+  await handleResponse(response);
+}
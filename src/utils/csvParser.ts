@@ -16,7 +16,7 @@ export interface ParseResult {
 /**
  * Parse CSV file content into structured data
  */
-export function parseCSV(content: string): ParseResult {
+export function parseCSV(content: string, delimiter = ','): ParseResult {
   const errors: string[] = [];
   const lines = content.split(/\r?\n/).filter(line => line.trim());
 
@@ -25,7 +25,7 @@ export function parseCSV(content: string): ParseResult {
   }
 
   // Parse headers
-  const headers = parseCSVLine(lines[0]);
+  const headers = parseCSVLine(lines[0], delimiter);
 
   if (headers.length === 0) {
     return { headers: [], rows: [], errors: ['No headers found in CSV'] };
@@ -34,7 +34,7 @@ export function parseCSV(content: string): ParseResult {
   // Parse rows
   const rows: CSVRow[] = [];
   for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
+    const values = parseCSVLine(lines[i], delimiter);
 
     // Skip empty rows
     if (values.every(v => !v.trim())) {
@@ -59,7 +59,7 @@ export function parseCSV(content: string): ParseResult {
 /**
  * Parse a single CSV line, handling quoted values with commas
  */
-function parseCSVLine(line: string): string[] {
+function parseCSVLine(line: string, delimiter: string): string[] {
   const values: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -77,7 +77,7 @@ function parseCSVLine(line: string): string[] {
         // Toggle quote mode
         inQuotes = !inQuotes;
       }
-    } else if (char === ',' && !inQuotes) {
+    } else if (char === delimiter && !inQuotes) {
       // End of value
       values.push(current.trim());
       current = '';
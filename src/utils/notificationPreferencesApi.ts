@@ -0,0 +1,73 @@
+import { supabase } from '../lib/supabase';
+import type {
+  ConnectedChannels,
+  NotificationPreferences,
+  UpdateNotificationPreferencesInput,
+} from '../types/notificationPreferences';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the current user's notification preferences in an organization,
+ * with the chat channels the organization has connected
+ */
+export async function fetchNotificationPreferences(
+  orgId: string,
+): Promise<{ preferences: NotificationPreferences; channels: ConnectedChannels }> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ org_id: orgId });
+
+  const response = await fetch(`${API_BASE_URL}/notification-preferences?${queryParams}`, {
+    headers,
+  });
+
+  return handleResponse<{ preferences: NotificationPreferences; channels: ConnectedChannels }>(
+    response,
+  );
+}
+
+/**
+ * Update the current user's notification preferences in an organization
+ */
+export async function updateNotificationPreferences(
+  orgId: string,
+  updates: UpdateNotificationPreferencesInput,
+): Promise<NotificationPreferences> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/notification-preferences`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ org_id: orgId, ...updates }),
+  });
+
+  const data = await handleResponse<{ preferences: NotificationPreferences }>(response);
+  return data.preferences;
+}
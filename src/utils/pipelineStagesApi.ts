@@ -0,0 +1,66 @@
+import { supabase } from '../lib/supabase';
+import type { PipelineStage, SavePipelineStageInput } from '../types/pipelineStages';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the stages of every pipeline of an organization, in order
+ */
+export async function fetchPipelineStages(orgId: string): Promise<PipelineStage[]> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ org_id: orgId });
+
+  const response = await fetch(`${API_BASE_URL}/pipeline-stages?${queryParams}`, { headers });
+
+  const data = await handleResponse<{ stages: PipelineStage[] }>(response);
+  return data.stages;
+}
+
+/**
+ * Replace a pipeline's stages with the given list, in order
+ *
+ * Stages left out are removed; the server refuses while grants are still in them.
+ */
+export async function savePipelineStages(
+  orgId: string,
+  pipelineId: string | undefined,
+  stages: SavePipelineStageInput[],
+): Promise<PipelineStage[]> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/pipeline-stages`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ org_id: orgId, pipeline_id: pipelineId, stages }),
+  });
+
+  const data = await handleResponse<{ stages: PipelineStage[] }>(response);
+  return data.stages;
+}
@@ -0,0 +1,120 @@
+import { supabase } from '../lib/supabase';
+import type { CreatePipelineInput, Pipeline, UpdatePipelineInput } from '../types/pipelines';
+import type { SavedGrant } from '../types/grants';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the organization's pipelines the current user can access, in order
+ */
+export async function fetchPipelines(orgId: string): Promise<Pipeline[]> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ org_id: orgId });
+
+  const response = await fetch(`${API_BASE_URL}/pipelines?${queryParams}`, { headers });
+
+  const data = await handleResponse<{ pipelines: Pipeline[] }>(response);
+  return data.pipelines;
+}
+
+/**
+ * Create a pipeline, starting with a copy of another pipeline's stages
+ */
+export async function createPipeline(
+  orgId: string,
+  pipeline: CreatePipelineInput,
+): Promise<Pipeline> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/pipelines`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ org_id: orgId, ...pipeline }),
+  });
+
+  const data = await handleResponse<{ pipeline: Pipeline }>(response);
+  return data.pipeline;
+}
+
+/**
+ * Update a pipeline; member_ids, when given, replace the members
+ */
+export async function updatePipeline(
+  pipelineId: string,
+  updates: UpdatePipelineInput,
+): Promise<Pipeline> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/pipelines?id=${pipelineId}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(updates),
+  });
+
+  const data = await handleResponse<{ pipeline: Pipeline }>(response);
+  return data.pipeline;
+}
+
+/**
+ * Delete an empty pipeline with its stages
+ */
+export async function deletePipeline(pipelineId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/pipelines?id=${pipelineId}`, {
+    method: 'DELETE',
+    headers,
+  });
+
+  await handleResponse<{ success: boolean }>(response);
+}
+
+/**
+ * Move a grant to another pipeline
+ *
+ * Without a stage, the grant starts in the pipeline's first open stage
+ * (archived grants stay archived).
+ */
+export async function moveGrantToPipeline(
+  grantId: string,
+  pipelineId: string,
+  status?: string,
+): Promise<SavedGrant> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/saved-status?id=${grantId}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ pipeline_id: pipelineId, ...(status && { status }) }),
+  });
+
+  const data = await handleResponse<{ grant: SavedGrant }>(response);
+  return data.grant;
+}
@@ -0,0 +1,153 @@
+import type { ExportBlock, ExportCell } from '../types/budgetExport';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatCell(cell: ExportCell): string {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cell);
+  }
+  return escapeHtml(cell);
+}
+
+function renderBlock(block: ExportBlock): string {
+  if (block.type === 'heading') {
+    return `<h2>${escapeHtml(block.text)}</h2>`;
+  }
+
+  if (block.type === 'paragraph') {
+    return `<p>${escapeHtml(block.text)}</p>`;
+  }
+
+  return `
+    <table>
+      <thead>
+        <tr>${block.header.map((label) => `<th>${escapeHtml(label)}</th>`).join('')}</tr>
+      </thead>
+      <tbody>
+        ${block.rows
+          .map(
+            (row) =>
+              `<tr class="${row.bold ? 'total' : ''}">${row.cells
+                .map(
+                  (cell) =>
+                    `<td class="${typeof cell === 'number' ? 'amount' : ''}">${formatCell(cell)}</td>`,
+                )
+                .join('')}</tr>`,
+          )
+          .join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Print an exported budget document (SF-424A or budget justification), e.g.
+ * to save it as a PDF
+ */
+export function printBudgetDocument(title: string, blocks: ExportBlock[]) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    alert('Please allow popups to print the budget');
+    return;
+  }
+
+  // The first heading is the document title
+  const [first, ...rest] = blocks;
+  const heading = first?.type === 'heading' ? first.text : title;
+  const body = first?.type === 'heading' ? rest : blocks;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>
+          @page {
+            size: letter landscape;
+            margin: 0.5in;
+          }
+
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Helvetica Neue', sans-serif;
+            font-size: 9pt;
+            line-height: 1.4;
+            color: #000;
+          }
+
+          h1 {
+            font-size: 14pt;
+            margin-bottom: 0.5rem;
+            border-bottom: 2px solid #000;
+            padding-bottom: 0.25rem;
+          }
+
+          h2 {
+            font-size: 10pt;
+            margin-top: 1rem;
+            margin-bottom: 0.4rem;
+          }
+
+          p {
+            margin-bottom: 0.4rem;
+          }
+
+          table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 0.5rem;
+            page-break-inside: avoid;
+          }
+
+          th, td {
+            border: 1px solid #000;
+            padding: 3px 5px;
+            vertical-align: top;
+          }
+
+          th {
+            background: #f1f3f5;
+            font-weight: 600;
+            text-align: left;
+          }
+
+          td.amount {
+            text-align: right;
+            white-space: nowrap;
+          }
+
+          tr.total td {
+            font-weight: 700;
+          }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(heading)}</h1>
+        ${body.map(renderBlock).join('')}
+      </body>
+    </html>
+  `;
+
+  printWindow.document.write(html);
+  printWindow.document.close();
+
+  printWindow.onload = () => {
+    setTimeout(() => {
+      printWindow.print();
+    }, 250);
+  };
+}
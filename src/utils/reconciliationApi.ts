@@ -0,0 +1,87 @@
+import { supabase } from '../lib/supabase';
+import type {
+  BankReconciliation,
+  MatchSuggestions,
+  ReconciliationRequest,
+  ReconciliationResult,
+  StatementRow,
+} from '../types/reconciliation';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch recent statement imports and the number of disbursements not yet
+ * reconciled
+ */
+export async function fetchReconciliations(
+  orgId: string,
+): Promise<{ reconciliations: BankReconciliation[]; unreconciled_count: number }> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({ org_id: orgId });
+
+  const response = await fetch(`${API_BASE_URL}/reconciliation?${queryParams}`, { headers });
+  return handleResponse(response);
+}
+
+/**
+ * Suggest matches between statement rows and unreconciled disbursements and
+ * open payment schedules
+ */
+export async function suggestReconciliationMatches(
+  orgId: string,
+  rows: StatementRow[],
+): Promise<MatchSuggestions> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/reconciliation`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ org_id: orgId, rows }),
+  });
+
+  return handleResponse<MatchSuggestions>(response);
+}
+
+/**
+ * Reconcile the reviewed matches
+ */
+export async function applyReconciliation(
+  request: ReconciliationRequest,
+): Promise<ReconciliationResult> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/reconciliation`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify(request),
+  });
+
+  return handleResponse<ReconciliationResult>(response);
+}
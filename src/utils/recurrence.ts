@@ -0,0 +1,140 @@
+/**
+ * Recurrence helpers for tasks and compliance requirements
+ *
+ * Rules are stored as RRULE strings (see api/utils/recurrence.ts). The form
+ * offers common post-award cadences as presets, each anchored on the last
+ * day of the period, plus a free-form rule.
+ */
+
+export interface RecurrenceValue {
+  recurrence_rule: string | null;
+  recurrence_start: string | null;
+  recurrence_offset_days: number;
+}
+
+export type RecurrencePreset =
+  | 'none'
+  | 'monthly'
+  | 'quarterly'
+  | 'semiannual'
+  | 'annual'
+  | 'custom';
+export type RecurrenceEnd = 'budget' | 'until' | 'count';
+
+export const RECURRENCE_PRESETS: { value: RecurrencePreset; label: string; rule?: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'monthly', label: 'Monthly', rule: 'FREQ=MONTHLY;BYMONTHDAY=-1' },
+  { value: 'quarterly', label: 'Quarterly', rule: 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1' },
+  { value: 'semiannual', label: 'Every 6 months', rule: 'FREQ=MONTHLY;INTERVAL=6;BYMONTHDAY=-1' },
+  { value: 'annual', label: 'Annually', rule: 'FREQ=YEARLY;BYMONTHDAY=-1' },
+  { value: 'custom', label: 'Custom rule' },
+];
+
+export const EMPTY_RECURRENCE: RecurrenceValue = {
+  recurrence_rule: null,
+  recurrence_start: null,
+  recurrence_offset_days: 0,
+};
+
+export interface RecurrenceParts {
+  preset: RecurrencePreset;
+  end: RecurrenceEnd;
+  until: string | null;
+  count: number | null;
+}
+
+function ruleParts(rule: string): Map<string, string> {
+  const parts = new Map<string, string>();
+  rule
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [key, value = ''] = part.split('=');
+      parts.set(key.toUpperCase(), value.toUpperCase());
+    });
+  return parts;
+}
+
+/**
+ * Split a stored rule into the form's preset and end condition
+ */
+export function splitRecurrenceRule(rule: string | null): RecurrenceParts {
+  if (!rule) {
+    return { preset: 'none', end: 'budget', until: null, count: null };
+  }
+
+  const parts = ruleParts(rule);
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  parts.delete('UNTIL');
+  parts.delete('COUNT');
+
+  const base = Array.from(parts.entries())
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join(';');
+  const preset =
+    RECURRENCE_PRESETS.find((p) => p.rule && p.rule.split(';').sort().join(';') === base)?.value ||
+    'custom';
+
+  return {
+    preset,
+    end: until ? 'until' : count ? 'count' : 'budget',
+    until: until ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : null,
+    count: count ? Number(count) : null,
+  };
+}
+
+/**
+ * Build the rule for a preset and end condition
+ */
+export function buildRecurrenceRule(
+  preset: RecurrencePreset,
+  end: RecurrenceEnd,
+  until: string | null,
+  count: number | null,
+  customRule = '',
+): string | null {
+  if (preset === 'none') {
+    return null;
+  }
+
+  const base =
+    preset === 'custom'
+      ? customRule.trim().replace(/^RRULE:/i, '')
+      : RECURRENCE_PRESETS.find((p) => p.value === preset)?.rule || '';
+  if (!base) {
+    return null;
+  }
+  if (preset === 'custom') {
+    return base;
+  }
+  if (end === 'until' && until) {
+    return `${base};UNTIL=${until.replace(/-/g, '')}`;
+  }
+  if (end === 'count' && count) {
+    return `${base};COUNT=${count}`;
+  }
+  return base;
+}
+
+/**
+ * Short description, e.g. "Quarterly, due 30 days after period end"
+ */
+export function describeRecurrence(rule: string | null, offsetDays: number | null): string | null {
+  if (!rule) {
+    return null;
+  }
+
+  const { preset } = splitRecurrenceRule(rule);
+  const label =
+    preset === 'custom' ? 'Repeats' : RECURRENCE_PRESETS.find((p) => p.value === preset)?.label;
+  const offset = offsetDays || 0;
+
+  if (offset === 0) {
+    return `${label}, due at period end`;
+  }
+  const days = Math.abs(offset);
+  return `${label}, due ${days} day${days === 1 ? '' : 's'} ${offset > 0 ? 'after' : 'before'} period end`;
+}
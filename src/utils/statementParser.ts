@@ -0,0 +1,180 @@
+/**
+ * Statement Parser
+ * Turns a bank or general-ledger CSV export, parsed with csvParser, into
+ * statement rows for reconciliation
+ */
+
+import type { CSVRow } from './csvParser';
+import type { StatementColumns, StatementRow } from '../types/reconciliation';
+
+// Header patterns per field, most specific first. Bank exports name the
+// money-out column "Debit"; the reviewer can swap the columns for ledger
+// exports of a cash account, where debits are money in.
+const COLUMN_PATTERNS: Record<keyof StatementColumns, RegExp[]> = {
+  date: [/^(transaction |posting |posted |post |value )?date$/i, /date/i],
+  amount: [/^(transaction )?amount$/i, /^net( amount)?$/i, /amount/i],
+  money_in: [/^(credit|credits|deposit|deposits|money in|receipts?)$/i, /credit|deposit/i],
+  money_out: [/^(debit|debits|withdrawal|withdrawals|money out|payments?)$/i, /debit|withdrawal/i],
+  description: [/^(description|memo|narrative|details|payee|name)$/i, /description|memo|payee/i],
+  reference: [
+    /^(reference|ref|check|check number|check no|cheque|transaction id|document number|doc no|num)$/i,
+    /reference|check|cheque|ref\b/i,
+  ],
+};
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function detectStatementColumns(headers: string[]): StatementColumns {
+  const used = new Set<string>();
+  const columns: StatementColumns = {
+    date: null,
+    amount: null,
+    money_in: null,
+    money_out: null,
+    description: null,
+    reference: null,
+  };
+
+  for (const field of Object.keys(COLUMN_PATTERNS) as Array<keyof StatementColumns>) {
+    for (const pattern of COLUMN_PATTERNS[field]) {
+      const header = headers.find(
+        (candidate) => !used.has(candidate) && pattern.test(candidate.trim()),
+      );
+      if (header) {
+        columns[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  // A signed amount column makes separate in/out columns unnecessary
+  if (columns.amount && columns.money_in && columns.money_out) {
+    columns.amount = null;
+  }
+
+  return columns;
+}
+
+/**
+ * Parse an amount like "1,234.56", "$-12.00", "(12.00)" or "12.00-"
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) {
+    return null;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const cleaned = text.replace(/[$€£,\s]/g, '');
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) {
+    return null;
+  }
+
+  const amount = parseFloat(cleaned);
+  return Math.round((negative ? -amount : amount) * 100) / 100;
+}
+
+/**
+ * Parse a date like "2025-03-04", "3/4/2025" or "03/04/25" (month first) to
+ * YYYY-MM-DD
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const us = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})\b/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) {
+      year += 2000;
+    }
+  } else {
+    // Written-out dates such as "Mar 4, 2025"
+    const parsed = new Date(text);
+    if (!text || isNaN(parsed.getTime())) {
+      return null;
+    }
+    [year, month, day] = [parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Convert CSV rows to statement rows. Rows without an amount (such as
+ * balance lines) are left out; rows with an unreadable date or amount are
+ * reported.
+ */
+export function parseStatement(
+  rows: CSVRow[],
+  columns: StatementColumns,
+): { rows: StatementRow[]; errors: string[] } {
+  const statementRows: StatementRow[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((csvRow, index) => {
+    const rowNumber = index + 1;
+    const read = (column: string | null) => (column ? (csvRow[column] || '').trim() : '');
+
+    let amount: number | null;
+    if (columns.amount) {
+      amount = parseStatementAmount(read(columns.amount));
+    } else {
+      const moneyIn = parseStatementAmount(read(columns.money_in));
+      const moneyOut = parseStatementAmount(read(columns.money_out));
+      amount =
+        moneyIn === null && moneyOut === null
+          ? null
+          : Math.round((Math.abs(moneyIn || 0) - Math.abs(moneyOut || 0)) * 100) / 100;
+    }
+
+    if (amount === null) {
+      const text = read(columns.amount) || read(columns.money_in) || read(columns.money_out);
+      if (text) {
+        errors.push(`Row ${rowNumber}: Unrecognized amount "${text}"`);
+      }
+      return;
+    }
+    if (amount === 0) {
+      return;
+    }
+
+    const date = parseStatementDate(read(columns.date));
+    if (!date) {
+      errors.push(`Row ${rowNumber}: Unrecognized date "${read(columns.date)}"`);
+      return;
+    }
+
+    statementRows.push({
+      row: rowNumber,
+      date,
+      amount,
+      description: read(columns.description).slice(0, 1000),
+      reference: read(columns.reference).slice(0, 255) || null,
+    });
+  });
+
+  return { rows: statementRows, errors };
+}
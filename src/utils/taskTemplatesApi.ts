@@ -0,0 +1,123 @@
+import { supabase } from '../lib/supabase';
+import type {
+  TaskTemplate,
+  SaveTaskTemplateRequest,
+  ApplyTaskTemplateResponse,
+} from '../types/taskTemplates';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch an organization's task templates
+ *
+ * With a grant, templates that match it come first (see match_rank)
+ */
+export async function fetchTaskTemplates(orgId: string, grantId?: string): Promise<TaskTemplate[]> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({
+    org_id: orgId,
+    ...(grantId && { grant_id: grantId }),
+  });
+
+  const response = await fetch(`${API_BASE_URL}/task-templates?${queryParams}`, { headers });
+
+  const data = await handleResponse<{ templates: TaskTemplate[] }>(response);
+  return data.templates;
+}
+
+/**
+ * Create a task template
+ */
+export async function createTaskTemplate(
+  orgId: string,
+  template: SaveTaskTemplateRequest,
+): Promise<TaskTemplate> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/task-templates`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ org_id: orgId, ...template }),
+  });
+
+  const data = await handleResponse<{ template: TaskTemplate }>(response);
+  return data.template;
+}
+
+/**
+ * Update a task template; items, when given, replace the existing ones
+ */
+export async function updateTaskTemplate(
+  templateId: string,
+  updates: Partial<SaveTaskTemplateRequest>,
+): Promise<TaskTemplate> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/task-templates?id=${templateId}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(updates),
+  });
+
+  const data = await handleResponse<{ template: TaskTemplate }>(response);
+  return data.template;
+}
+
+/**
+ * Delete a task template
+ */
+export async function deleteTaskTemplate(templateId: string): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/task-templates?id=${templateId}`, {
+    method: 'DELETE',
+    headers,
+  });
+
+  await handleResponse<{ success: boolean }>(response);
+}
+
+/**
+ * Create a template's tasks on a grant
+ */
+export async function applyTaskTemplate(
+  templateId: string,
+  grantId: string,
+): Promise<ApplyTaskTemplateResponse> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/task-templates/apply`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ template_id: templateId, grant_id: grantId }),
+  });
+
+  return handleResponse<ApplyTaskTemplateResponse>(response);
+}
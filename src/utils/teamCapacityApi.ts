@@ -0,0 +1,69 @@
+import { supabase } from '../lib/supabase';
+import type { CapacityForecast, UpdateCapacityRequest } from '../types/teamCapacity';
+
+const API_BASE_URL = '/api';
+
+/**
+ * Get authorization header with current user's token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+/**
+ * Handle API response errors
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the team's workload forecast
+ *
+ * With a candidate grant, also returns the load committing to it would add
+ */
+export async function fetchTeamCapacity(
+  orgId: string,
+  candidateGrantId?: string | null,
+): Promise<CapacityForecast> {
+  const headers = await getAuthHeaders();
+  const queryParams = new URLSearchParams({
+    org_id: orgId,
+    ...(candidateGrantId && { candidate_grant_id: candidateGrantId }),
+  });
+
+  const response = await fetch(`${API_BASE_URL}/team-capacity?${queryParams}`, { headers });
+
+  return handleResponse<CapacityForecast>(response);
+}
+
+/**
+ * Update members' weekly hours and the organization's effort estimates
+ */
+export async function updateTeamCapacity(
+  orgId: string,
+  updates: UpdateCapacityRequest,
+): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/team-capacity`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ org_id: orgId, ...updates }),
+  });
+
+  await handleResponse<{ success: boolean }>(response);
+}
@@ -0,0 +1,79 @@
+-- =====================================================
+-- SAM.gov Assistance Listings
+-- Created: 2025-03-17
+-- Purpose: Store program-level Assistance Listings (ALN
+--          objectives, eligibility, historical obligations)
+--          in grants_catalog and link them to opportunities
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG RECORD TYPE AND PROGRAM DETAILS
+-- =====================================================
+ALTER TABLE public.grants_catalog
+  ADD COLUMN IF NOT EXISTS record_type TEXT NOT NULL DEFAULT 'opportunity',
+  ADD COLUMN IF NOT EXISTS program_details JSONB; -- objectives, eligibility, obligations by fiscal year
+
+ALTER TABLE public.grants_catalog
+  DROP CONSTRAINT IF EXISTS grants_catalog_record_type_check;
+
+ALTER TABLE public.grants_catalog
+  ADD CONSTRAINT grants_catalog_record_type_check
+  CHECK (record_type IN ('opportunity', 'assistance_listing'));
+
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_record_type ON public.grants_catalog(record_type);
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_aln_codes ON public.grants_catalog USING gin(aln_codes);
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_cfda_numbers ON public.grants_catalog USING gin(cfda_numbers);
+
+-- =====================================================
+-- 2. SEED DATA - SAM.gov Assistance Listings source
+-- =====================================================
+INSERT INTO public.grant_sources (
+  source_key, source_name, source_type,
+  api_enabled, api_base_url, api_key_required,
+  rate_limit_per_minute, sync_enabled, sync_frequency
+) VALUES (
+  'sam_gov_assistance',
+  'SAM.gov Assistance Listings',
+  'federal',
+  TRUE,
+  'https://api.sam.gov/assistance-listings/v1',
+  TRUE,
+  60,
+  FALSE, -- Disabled by default until SAM_GOV_ASSISTANCE_API_KEY configured
+  'weekly'
+) ON CONFLICT (source_key) DO NOTHING;
+
+-- =====================================================
+-- 3. FUNCTIONS FOR LISTING <-> OPPORTUNITY LINKING
+-- Opportunities carry ALNs in aln_codes and/or the legacy
+-- cfda_numbers column, so match against both
+-- =====================================================
+
+-- Assistance Listings an opportunity is posted under
+CREATE OR REPLACE FUNCTION get_assistance_listings_for_grant(p_grant_id UUID)
+RETURNS SETOF public.grants_catalog AS $$
+  SELECT listing.*
+  FROM public.grants_catalog opp
+  JOIN public.grants_catalog listing
+    ON listing.record_type = 'assistance_listing'
+   AND listing.aln_codes && (COALESCE(opp.aln_codes, '{}') || COALESCE(opp.cfda_numbers, '{}'))
+  WHERE opp.id = p_grant_id
+    AND opp.record_type = 'opportunity'
+  ORDER BY listing.external_id;
+$$ LANGUAGE sql STABLE;
+
+-- Opportunities posted under an Assistance Listing
+CREATE OR REPLACE FUNCTION get_opportunities_for_assistance_listing(p_listing_id UUID)
+RETURNS SETOF public.grants_catalog AS $$
+  SELECT opp.*
+  FROM public.grants_catalog listing
+  JOIN public.grants_catalog opp
+    ON opp.record_type = 'opportunity'
+   AND (
+     COALESCE(opp.aln_codes, '{}') && listing.aln_codes
+     OR COALESCE(opp.cfda_numbers, '{}') && listing.aln_codes
+   )
+  WHERE listing.id = p_listing_id
+    AND listing.record_type = 'assistance_listing'
+  ORDER BY opp.close_date NULLS LAST;
+$$ LANGUAGE sql STABLE;
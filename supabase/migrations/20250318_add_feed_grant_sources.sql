@@ -0,0 +1,36 @@
+-- =====================================================
+-- Generic RSS/Atom/JSON Feed Sources
+-- Created: 2025-03-18
+-- Purpose: Let admins onboard state and foundation grant
+--          feeds by storing a field-mapping spec on the
+--          grant source instead of writing an adapter
+-- =====================================================
+
+-- feed_config shape (see FeedConfig in lib/grants/types.ts):
+-- {
+--   "format": "rss" | "atom" | "json",
+--   "feed_url": "https://...",               -- optional, falls back to api_base_url
+--   "items_path": "rss/channel/item",       -- XPath or JSONPath to the item list
+--   "fields": { "title": "title", "close_date": { "path": "deadline", "date_format": "MM/DD/YYYY" } },
+--   "date_format": "YYYY-MM-DD",
+--   "status_map": { "Open": "posted", "Upcoming": "forecasted" },
+--   "default_status": "posted"
+-- }
+ALTER TABLE public.grant_sources
+  ADD COLUMN IF NOT EXISTS feed_config JSONB;
+
+ALTER TABLE public.grant_sources
+  DROP CONSTRAINT IF EXISTS grant_sources_feed_config_check;
+
+ALTER TABLE public.grant_sources
+  ADD CONSTRAINT grant_sources_feed_config_check
+  CHECK (
+    feed_config IS NULL
+    OR (
+      feed_config->>'format' IN ('rss', 'atom', 'json')
+      AND feed_config ? 'items_path'
+      AND jsonb_typeof(feed_config->'fields') = 'object'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_grant_sources_feed ON public.grant_sources(source_key) WHERE feed_config IS NOT NULL;
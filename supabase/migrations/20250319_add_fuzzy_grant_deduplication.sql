@@ -0,0 +1,87 @@
+-- =====================================================
+-- Fuzzy Cross-Source De-duplication
+-- Created: 2025-03-19
+-- Purpose: Record scored duplicate matches between sources
+--          and collapse confirmed duplicates onto one
+--          canonical catalog record for search
+-- =====================================================
+
+-- =====================================================
+-- 1. MATCH DETAILS AND REJECTIONS
+-- =====================================================
+ALTER TABLE public.grant_duplicates
+  ADD COLUMN IF NOT EXISTS match_details JSONB, -- per-signal scores: opportunity_number, title, aln, close_date
+  ADD COLUMN IF NOT EXISTS is_rejected BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS rejected_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_grant_duplicates_pending
+  ON public.grant_duplicates(match_score DESC)
+  WHERE is_confirmed = FALSE AND is_rejected = FALSE;
+
+-- =====================================================
+-- 2. NORMALIZED OPPORTUNITY NUMBER
+-- Same normalization as normalizeOpportunityNumber() in
+-- lib/grants/dedup.ts, so the de-duplication pass can look
+-- up exact matches with an indexed equality filter
+-- =====================================================
+ALTER TABLE public.grants_catalog
+  ADD COLUMN IF NOT EXISTS opportunity_number_normalized TEXT
+  GENERATED ALWAYS AS (
+    NULLIF(regexp_replace(upper(opportunity_number), '[^A-Z0-9]', '', 'g'), '')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_opportunity_number_normalized
+  ON public.grants_catalog(opportunity_number_normalized)
+  WHERE opportunity_number_normalized IS NOT NULL;
+
+-- =====================================================
+-- 3. CANONICAL RECORD POINTER
+-- Search filters on canonical_grant_id IS NULL so confirmed
+-- duplicates collapse into their primary record
+-- =====================================================
+ALTER TABLE public.grants_catalog
+  ADD COLUMN IF NOT EXISTS canonical_grant_id UUID REFERENCES public.grants_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_canonical
+  ON public.grants_catalog(canonical_grant_id)
+  WHERE canonical_grant_id IS NOT NULL;
+
+-- Keep canonical_grant_id in step with confirmed duplicate rows
+CREATE OR REPLACE FUNCTION sync_grant_canonical_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.grants_catalog
+    SET canonical_grant_id = NULL
+    WHERE id = OLD.duplicate_grant_id
+      AND canonical_grant_id = OLD.primary_grant_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.is_confirmed AND NOT COALESCE(NEW.is_rejected, FALSE) THEN
+    UPDATE public.grants_catalog
+    SET canonical_grant_id = NEW.primary_grant_id
+    WHERE id = NEW.duplicate_grant_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS grant_duplicates_sync_canonical ON public.grant_duplicates;
+CREATE TRIGGER grant_duplicates_sync_canonical
+  AFTER INSERT OR UPDATE OF is_confirmed, is_rejected, primary_grant_id, duplicate_grant_id OR DELETE
+  ON public.grant_duplicates
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_grant_canonical_id();
+
+-- Backfill from rows confirmed before this migration
+UPDATE public.grants_catalog gc
+SET canonical_grant_id = gd.primary_grant_id
+FROM public.grant_duplicates gd
+WHERE gd.duplicate_grant_id = gc.id
+  AND gd.is_confirmed = TRUE
+  AND COALESCE(gd.is_rejected, FALSE) = FALSE;
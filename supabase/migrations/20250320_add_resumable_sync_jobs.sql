@@ -0,0 +1,34 @@
+-- =====================================================
+-- Resumable Sync Jobs
+-- Created: 2025-03-20
+-- Purpose: Checkpoint full syncs page by page so a job cut
+--          off by the function timeout (or a source outage)
+--          is resumed by the next cron tick instead of
+--          starting over
+-- =====================================================
+
+-- =====================================================
+-- 1. CHECKPOINT AND PROGRESS COLUMNS
+-- =====================================================
+ALTER TABLE public.sync_jobs
+  ADD COLUMN IF NOT EXISTS checkpoint_page INTEGER,            -- next page to fetch; NULL once finished
+  ADD COLUMN IF NOT EXISTS pages_completed INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_pages INTEGER,                -- reported by the source, when known
+  ADD COLUMN IF NOT EXISTS total_items INTEGER,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ,          -- backoff gate for failed attempts
+  ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ;      -- bumped after every page
+
+-- =====================================================
+-- 2. INDEXES
+-- Cron looks up unfinished jobs on every tick
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_resumable
+  ON public.sync_jobs(next_retry_at NULLS FIRST)
+  WHERE status IN ('pending', 'running');
+
+-- =====================================================
+-- 3. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.sync_jobs.checkpoint_page IS 'Next source page to fetch when the job is resumed';
+COMMENT ON COLUMN public.sync_jobs.next_retry_at IS 'Earliest time a pending job may be retried (exponential backoff on retry_count)';
+COMMENT ON COLUMN public.sync_jobs.last_heartbeat_at IS 'Last progress write; running jobs with a stale heartbeat are treated as interrupted';
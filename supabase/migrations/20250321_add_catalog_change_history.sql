@@ -0,0 +1,61 @@
+-- =====================================================
+-- Catalog Change History
+-- Created: 2025-03-21
+-- Purpose: Keep a versioned, field-level history of catalog
+--          records so saved grants can show what changed
+--          (deadline slips, award ceiling changes) on re-sync
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG VERSION
+-- =====================================================
+ALTER TABLE public.grants_catalog
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- =====================================================
+-- 2. CHANGE HISTORY TABLE
+-- One row per version; changes holds [{ field, old_value, new_value }]
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.grants_catalog_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  catalog_grant_id UUID NOT NULL REFERENCES public.grants_catalog(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  changes JSONB NOT NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Set once grant.catalog_changed has been sent to orgs tracking the grant
+  notified_at TIMESTAMPTZ,
+
+  UNIQUE(catalog_grant_id, version),
+  CONSTRAINT grants_catalog_changes_array_check CHECK (jsonb_typeof(changes) = 'array')
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_changes_grant
+  ON public.grants_catalog_changes(catalog_grant_id, version DESC);
+
+CREATE INDEX IF NOT EXISTS idx_grants_catalog_changes_unnotified
+  ON public.grants_catalog_changes(changed_at)
+  WHERE notified_at IS NULL;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- Catalog data is public to signed-in users, like grants_catalog
+-- =====================================================
+ALTER TABLE public.grants_catalog_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view catalog changes" ON public.grants_catalog_changes;
+CREATE POLICY "Authenticated users can view catalog changes"
+  ON public.grants_catalog_changes FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Service role can manage catalog changes" ON public.grants_catalog_changes;
+CREATE POLICY "Service role can manage catalog changes"
+  ON public.grants_catalog_changes FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.grants_catalog_changes IS 'Field-level history of catalog records, one row per version';
+COMMENT ON COLUMN public.grants_catalog.version IS 'Current version; incremented by the sync when a tracked field changes';
@@ -0,0 +1,54 @@
+-- =====================================================
+-- Webhook Delivery Retries
+-- Created: 2025-03-22
+-- Purpose: Queue failed webhook deliveries for retry with
+--          exponential backoff, dead-letter deliveries that
+--          exhaust the schedule, and auto-disable webhooks
+--          that keep failing
+-- =====================================================
+
+-- =====================================================
+-- 1. DELIVERY QUEUE COLUMNS
+-- =====================================================
+ALTER TABLE public.webhook_deliveries
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'delivered',
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS redelivery_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing rows were single attempts; failed ones go straight to the dead-letter queue
+UPDATE public.webhook_deliveries
+SET status = 'dead_letter'
+WHERE error_message IS NOT NULL
+  AND status = 'delivered';
+
+UPDATE public.webhook_deliveries
+SET created_at = delivered_at
+WHERE delivered_at IS NOT NULL;
+
+ALTER TABLE public.webhook_deliveries
+  DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE public.webhook_deliveries
+  ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'delivered', 'retrying', 'dead_letter'));
+
+-- The retry worker scans due deliveries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_retry_queue
+  ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'retrying';
+
+-- =====================================================
+-- 2. WEBHOOK FAILURE TRACKING
+-- =====================================================
+ALTER TABLE public.webhooks
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+-- =====================================================
+-- 3. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.webhook_deliveries.status IS 'pending (in flight), delivered, retrying (queued for next_attempt_at) or dead_letter (retries exhausted)';
+COMMENT ON COLUMN public.webhook_deliveries.redelivery_of IS 'Original delivery when an admin redelivered a finished delivery';
+COMMENT ON COLUMN public.webhooks.consecutive_failures IS 'Failed attempts since the last success; the webhook is disabled when this reaches the threshold';
@@ -0,0 +1,27 @@
+-- =====================================================
+-- Webhook Payload Versions
+-- Created: 2025-03-23
+-- Purpose: Pin each webhook to a payload envelope version so
+--          the envelope can evolve without breaking receivers
+-- =====================================================
+
+-- =====================================================
+-- 1. PAYLOAD VERSION
+-- =====================================================
+-- Existing webhooks keep the legacy envelope (1); new webhooks default to 2
+ALTER TABLE public.webhooks
+  ADD COLUMN IF NOT EXISTS payload_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.webhooks
+  ALTER COLUMN payload_version SET DEFAULT 2;
+
+ALTER TABLE public.webhooks
+  DROP CONSTRAINT IF EXISTS webhooks_payload_version_check;
+ALTER TABLE public.webhooks
+  ADD CONSTRAINT webhooks_payload_version_check
+  CHECK (payload_version IN (1, 2));
+
+-- =====================================================
+-- 2. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.webhooks.payload_version IS 'Envelope version for deliveries: 1 = { event, timestamp, data }, 2 = { id, event, version, created_at, org_id, data }. See GET /api/webhooks/events';
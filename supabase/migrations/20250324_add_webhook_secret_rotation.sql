@@ -0,0 +1,21 @@
+-- =====================================================
+-- Webhook Secret Rotation
+-- Created: 2025-03-24
+-- Purpose: Keep the previous signing secret valid for an
+--          overlap window after a rotation so receivers can
+--          switch secrets without dropping deliveries
+-- =====================================================
+
+-- =====================================================
+-- 1. PREVIOUS SECRET
+-- =====================================================
+ALTER TABLE public.webhooks
+  ADD COLUMN IF NOT EXISTS previous_secret TEXT,
+  ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS secret_rotated_at TIMESTAMPTZ;
+
+-- =====================================================
+-- 2. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.webhooks.previous_secret IS 'Secret replaced by the last rotation; version 2 deliveries are signed with it too until previous_secret_expires_at';
+COMMENT ON COLUMN public.webhooks.previous_secret_expires_at IS 'End of the rotation overlap window';
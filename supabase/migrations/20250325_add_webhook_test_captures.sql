@@ -0,0 +1,49 @@
+-- =====================================================
+-- Webhook Test Captures
+-- Created: 2025-03-25
+-- Purpose: Record requests received by the built-in capture
+--          endpoint so admins can inspect test deliveries and
+--          verify signing without an external receiver
+-- =====================================================
+
+-- =====================================================
+-- 1. CAPTURES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.webhook_test_captures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES public.webhooks(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  delivery_id TEXT,
+  event_type TEXT,
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  body TEXT,
+  signature_valid BOOLEAN,
+  signature_error TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_test_captures_webhook
+  ON public.webhook_test_captures(webhook_id, received_at DESC);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.webhook_test_captures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's webhook test captures" ON public.webhook_test_captures;
+CREATE POLICY "Users can view their org's webhook test captures"
+  ON public.webhook_test_captures FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage webhook test captures" ON public.webhook_test_captures;
+CREATE POLICY "Service role can manage webhook test captures"
+  ON public.webhook_test_captures FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 3. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.webhook_test_captures IS 'Requests received by /api/webhooks/capture; only the most recent captures per webhook are kept';
+COMMENT ON COLUMN public.webhook_test_captures.signature_valid IS 'Signature check against the webhook secrets; NULL when the webhook has no secret';
@@ -0,0 +1,57 @@
+-- =====================================================
+-- Organization API Keys
+-- Created: 2025-03-26
+-- Purpose: Named, scoped API keys that let scripts and
+--          integrations call the grants, tasks, budgets and
+--          compliance endpoints without a user session. Only
+--          a SHA-256 hash of each key is stored.
+-- =====================================================
+
+-- =====================================================
+-- 1. API KEYS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.org_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMPTZ,
+  CONSTRAINT org_api_keys_name_not_blank CHECK (length(trim(name)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_api_keys_org
+  ON public.org_api_keys(org_id, created_at DESC);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.org_api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view their org's API keys" ON public.org_api_keys;
+CREATE POLICY "Admins can view their org's API keys"
+  ON public.org_api_keys FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage API keys" ON public.org_api_keys;
+CREATE POLICY "Service role can manage API keys"
+  ON public.org_api_keys FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 3. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.org_api_keys IS 'Organization API keys; requests made with a key act as its creator, limited to the key scopes';
+COMMENT ON COLUMN public.org_api_keys.key_prefix IS 'First characters of the key, shown so admins can tell keys apart';
+COMMENT ON COLUMN public.org_api_keys.key_hash IS 'Hex SHA-256 of the full key; the plaintext is only returned once at creation';
+COMMENT ON COLUMN public.org_api_keys.scopes IS 'Permission names (see src/lib/rbac.ts) the key may use';
+COMMENT ON COLUMN public.org_api_keys.revoked_at IS 'Set when an admin revokes the key; revoked keys are kept for auditing';
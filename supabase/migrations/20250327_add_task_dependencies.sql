@@ -0,0 +1,60 @@
+-- =====================================================
+-- Task Dependencies
+-- Created: 2025-03-27
+-- Purpose: Let a grant task depend on other tasks of the same
+--          grant, so tasks can be blocked until their
+--          predecessors are completed and the grant's critical
+--          path can be scheduled against its deadline
+-- =====================================================
+
+-- =====================================================
+-- 1. DEPENDENCIES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.grant_task_dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.grant_tasks(id) ON DELETE CASCADE,
+  depends_on_task_id UUID NOT NULL REFERENCES public.grant_tasks(id) ON DELETE CASCADE,
+  grant_id UUID NOT NULL REFERENCES public.org_grants_saved(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT grant_task_dependencies_unique UNIQUE (task_id, depends_on_task_id),
+  CONSTRAINT grant_task_dependencies_not_self CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grant_task_dependencies_grant
+  ON public.grant_task_dependencies(grant_id);
+
+CREATE INDEX IF NOT EXISTS idx_grant_task_dependencies_depends_on
+  ON public.grant_task_dependencies(depends_on_task_id);
+
+-- =====================================================
+-- 2. SCHEDULING COLUMNS ON TASKS
+-- =====================================================
+ALTER TABLE public.grant_tasks
+  ADD COLUMN IF NOT EXISTS estimated_days INTEGER CHECK (estimated_days IS NULL OR estimated_days >= 0),
+  ADD COLUMN IF NOT EXISTS auto_blocked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.grant_task_dependencies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view task dependencies in their organization" ON public.grant_task_dependencies;
+CREATE POLICY "Users can view task dependencies in their organization"
+  ON public.grant_task_dependencies FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage task dependencies" ON public.grant_task_dependencies;
+CREATE POLICY "Service role can manage task dependencies"
+  ON public.grant_task_dependencies FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.grant_task_dependencies IS 'task_id cannot finish before depends_on_task_id; cycles are rejected by /api/tasks';
+COMMENT ON COLUMN public.grant_tasks.estimated_days IS 'Calendar days the task takes, used for critical-path scheduling (defaults to 1 when NULL)';
+COMMENT ON COLUMN public.grant_tasks.auto_blocked IS 'TRUE when the task was set to blocked because of unfinished predecessors; such tasks return to pending once the predecessors are completed';
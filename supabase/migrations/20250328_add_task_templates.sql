@@ -0,0 +1,116 @@
+-- =====================================================
+-- Task Templates
+-- Created: 2025-03-28
+-- Purpose: Organization-level sets of application tasks that
+--          can be applied to a grant by hand or automatically
+--          when it enters a stage, optionally limited to a
+--          funder or agency
+-- =====================================================
+
+-- =====================================================
+-- 1. TEMPLATES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Which grants the template is meant for (NULL = any)
+  funder_id UUID REFERENCES public.funders(id) ON DELETE SET NULL,
+  agency TEXT,
+
+  -- Apply automatically when a matching grant enters this stage (NULL = manual only)
+  apply_on_stage TEXT,
+
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_org
+  ON public.task_templates(org_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_stage
+  ON public.task_templates(org_id, apply_on_stage)
+  WHERE is_active = TRUE AND apply_on_stage IS NOT NULL;
+
+-- =====================================================
+-- 2. TEMPLATE ITEMS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.task_template_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  task_type TEXT NOT NULL DEFAULT 'custom'
+    CHECK (task_type IN ('research', 'budget', 'narrative', 'letters', 'documents', 'submission', 'custom')),
+
+  -- Due date relative to the grant's close date or LOI deadline (negative = before)
+  due_offset_days INTEGER,
+  due_offset_from TEXT NOT NULL DEFAULT 'close_date'
+    CHECK (due_offset_from IN ('close_date', 'loi_deadline')),
+
+  -- 'grant_owner' or an RBAC role name (see public.roles)
+  default_assignee_role TEXT,
+
+  is_required BOOLEAN NOT NULL DEFAULT FALSE,
+  estimated_days INTEGER CHECK (estimated_days IS NULL OR estimated_days >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_items_template
+  ON public.task_template_items(template_id, position);
+
+-- Tasks remember the template item they came from so a template is never applied twice
+ALTER TABLE public.grant_tasks
+  ADD COLUMN IF NOT EXISTS template_item_id UUID REFERENCES public.task_template_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grant_tasks_template_item
+  ON public.grant_tasks(grant_id, template_item_id)
+  WHERE template_item_id IS NOT NULL;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_template_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's task templates" ON public.task_templates;
+CREATE POLICY "Users can view their org's task templates"
+  ON public.task_templates FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage task templates" ON public.task_templates;
+CREATE POLICY "Service role can manage task templates"
+  ON public.task_templates FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's task template items" ON public.task_template_items;
+CREATE POLICY "Users can view their org's task template items"
+  ON public.task_template_items FOR SELECT
+  USING (template_id IN (
+    SELECT id FROM public.task_templates
+    WHERE org_id IN (
+      SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+    )
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage task template items" ON public.task_template_items;
+CREATE POLICY "Service role can manage task template items"
+  ON public.task_template_items FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.task_templates IS 'Reusable sets of grant tasks; funder-specific templates take precedence over agency-specific ones, which take precedence over general ones';
+COMMENT ON COLUMN public.task_templates.agency IS 'Matched case-insensitively against org_grants_saved.agency';
+COMMENT ON COLUMN public.task_templates.apply_on_stage IS 'Stage that triggers automatic application; NULL means the template is only applied by hand';
+COMMENT ON COLUMN public.task_template_items.due_offset_days IS 'Days relative to due_offset_from; NULL leaves the task without a due date';
+COMMENT ON COLUMN public.task_template_items.default_assignee_role IS 'grant_owner (the grant''s assigned_to) or an RBAC role; the task goes to the first member holding it';
+COMMENT ON COLUMN public.grant_tasks.template_item_id IS 'Template item the task was created from';
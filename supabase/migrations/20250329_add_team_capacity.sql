@@ -0,0 +1,61 @@
+-- =====================================================
+-- Team Capacity
+-- Created: 2025-03-29
+-- Purpose: Store each member's weekly hours and the
+--          organization's effort estimates per task type and
+--          grant source, used to forecast workload over the
+--          coming weeks
+-- =====================================================
+
+-- =====================================================
+-- 1. WEEKLY CAPACITY ON MEMBERS
+-- =====================================================
+ALTER TABLE public.org_members
+  ADD COLUMN IF NOT EXISTS weekly_capacity_hours NUMERIC(5,1)
+    CHECK (weekly_capacity_hours IS NULL OR (weekly_capacity_hours >= 0 AND weekly_capacity_hours <= 168));
+
+-- =====================================================
+-- 2. EFFORT ESTIMATES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.workload_effort_estimates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- 'task_type' keys are grant_tasks.task_type values;
+  -- 'grant_source' keys are org_grants_saved.external_source values
+  kind TEXT NOT NULL CHECK (kind IN ('task_type', 'grant_source')),
+  key TEXT NOT NULL,
+  hours NUMERIC(6,1) NOT NULL CHECK (hours >= 0),
+
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT workload_effort_estimates_unique UNIQUE (org_id, kind, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workload_effort_estimates_org
+  ON public.workload_effort_estimates(org_id);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.workload_effort_estimates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's effort estimates" ON public.workload_effort_estimates;
+CREATE POLICY "Users can view their org's effort estimates"
+  ON public.workload_effort_estimates FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage effort estimates" ON public.workload_effort_estimates;
+CREATE POLICY "Service role can manage effort estimates"
+  ON public.workload_effort_estimates FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.org_members.weekly_capacity_hours IS 'Hours per week the member can spend on grant work; NULL uses the default of 40';
+COMMENT ON TABLE public.workload_effort_estimates IS 'Organization overrides for the effort (hours) of a task type or of a whole application from a grant source';
+COMMENT ON COLUMN public.workload_effort_estimates.hours IS 'For task types, hours per task; for grant sources, total hours per application including its tasks';
@@ -0,0 +1,81 @@
+-- =====================================================
+-- Recurring Tasks and Compliance Requirements
+-- Created: 2025-03-30
+-- Purpose: Let grant tasks and compliance requirements repeat on
+--          an RRULE-style schedule (e.g. a financial report due
+--          30 days after the end of each quarter, until the
+--          budget period ends). The row holding the rule is the
+--          first occurrence; later occurrences are generated as
+--          rows pointing back to it.
+-- =====================================================
+
+-- =====================================================
+-- 1. RECURRENCE ON TASKS
+-- =====================================================
+ALTER TABLE public.grant_tasks
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+  ADD COLUMN IF NOT EXISTS recurrence_start DATE,
+  ADD COLUMN IF NOT EXISTS recurrence_offset_days INTEGER NOT NULL DEFAULT 0
+    CHECK (recurrence_offset_days BETWEEN -365 AND 365),
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES public.grant_tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_date DATE;
+
+ALTER TABLE public.grant_tasks
+  DROP CONSTRAINT IF EXISTS grant_tasks_recurrence_start_required;
+ALTER TABLE public.grant_tasks
+  ADD CONSTRAINT grant_tasks_recurrence_start_required
+    CHECK (recurrence_rule IS NULL OR recurrence_start IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grant_tasks_recurrence_occurrence
+  ON public.grant_tasks(recurrence_parent_id, recurrence_date)
+  WHERE recurrence_parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grant_tasks_recurring
+  ON public.grant_tasks(org_id)
+  WHERE recurrence_rule IS NOT NULL;
+
+-- =====================================================
+-- 2. RECURRENCE ON COMPLIANCE REQUIREMENTS
+-- =====================================================
+ALTER TABLE public.compliance_requirements
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+  ADD COLUMN IF NOT EXISTS recurrence_start DATE,
+  ADD COLUMN IF NOT EXISTS recurrence_offset_days INTEGER NOT NULL DEFAULT 0
+    CHECK (recurrence_offset_days BETWEEN -365 AND 365),
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES public.compliance_requirements(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_date DATE;
+
+ALTER TABLE public.compliance_requirements
+  DROP CONSTRAINT IF EXISTS compliance_requirements_recurrence_start_required;
+ALTER TABLE public.compliance_requirements
+  ADD CONSTRAINT compliance_requirements_recurrence_start_required
+    CHECK (recurrence_rule IS NULL OR recurrence_start IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_requirements_recurrence_occurrence
+  ON public.compliance_requirements(recurrence_parent_id, recurrence_date)
+  WHERE recurrence_parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_requirements_recurring
+  ON public.compliance_requirements(org_id)
+  WHERE recurrence_rule IS NOT NULL;
+
+-- =====================================================
+-- 3. REMINDER SETTING
+-- =====================================================
+ALTER TABLE public.organization_settings
+  ADD COLUMN IF NOT EXISTS recurring_deadline_reminders_enabled BOOLEAN DEFAULT TRUE;
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.grant_tasks.recurrence_rule IS 'RRULE (FREQ, INTERVAL, BYMONTHDAY, COUNT, UNTIL); without COUNT or UNTIL the series ends with the grant''s budget period';
+COMMENT ON COLUMN public.grant_tasks.recurrence_start IS 'First period end the rule is expanded from (DTSTART)';
+COMMENT ON COLUMN public.grant_tasks.recurrence_offset_days IS 'Days between each period end and the occurrence''s due date';
+COMMENT ON COLUMN public.grant_tasks.recurrence_parent_id IS 'Task holding the rule this occurrence was generated from';
+COMMENT ON COLUMN public.grant_tasks.recurrence_date IS 'Period end this occurrence covers';
+COMMENT ON COLUMN public.compliance_requirements.recurrence_rule IS 'RRULE (FREQ, INTERVAL, BYMONTHDAY, COUNT, UNTIL); without COUNT or UNTIL the series ends with the grant''s budget period';
+COMMENT ON COLUMN public.compliance_requirements.recurrence_start IS 'First period end the rule is expanded from (DTSTART)';
+COMMENT ON COLUMN public.compliance_requirements.recurrence_offset_days IS 'Days between each period end and the occurrence''s due date';
+COMMENT ON COLUMN public.compliance_requirements.recurrence_parent_id IS 'Requirement holding the rule this occurrence was generated from';
+COMMENT ON COLUMN public.compliance_requirements.recurrence_date IS 'Period end this occurrence covers';
+COMMENT ON COLUMN public.organization_settings.recurring_deadline_reminders_enabled IS 'Send reminders for recurring tasks and compliance requirements';
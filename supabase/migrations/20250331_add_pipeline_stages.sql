@@ -0,0 +1,138 @@
+-- =====================================================
+-- Configurable Pipeline Stages
+-- Created: 2025-03-31
+-- Purpose: Replace the hard-coded stage CHECK constraints with
+--          an org-level list of stages. Each organization
+--          orders, names and colors its own stages, marks which
+--          ones are terminal and which count as won or lost, and
+--          can require grant fields before a grant enters a stage.
+--          Existing organizations start with the previous ten
+--          stages.
+-- =====================================================
+
+-- =====================================================
+-- 1. STAGES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- Stored in org_grants_saved.status and approval workflows; never changes
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9][a-z0-9-]*$' AND char_length(key) <= 50),
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'gray',
+  position INTEGER NOT NULL DEFAULT 0,
+
+  -- won / lost for win-rate reporting; NULL for stages without an outcome
+  outcome TEXT CHECK (outcome IN ('won', 'lost')),
+  -- Terminal stages end a grant's active life in the pipeline
+  is_terminal BOOLEAN NOT NULL DEFAULT FALSE,
+  show_on_board BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- org_grants_saved columns that must be filled before a grant enters the stage
+  required_fields TEXT[] NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (org_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_org
+  ON public.pipeline_stages(org_id, position);
+
+-- =====================================================
+-- 2. DEFAULT STAGES
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.seed_default_pipeline_stages(p_org_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.pipeline_stages (org_id, key, label, color, position, outcome, is_terminal, show_on_board)
+  VALUES
+    (p_org_id, 'researching', 'Researching', 'blue', 0, NULL, FALSE, TRUE),
+    (p_org_id, 'go-no-go', 'Go/No-Go', 'yellow', 1, NULL, FALSE, TRUE),
+    (p_org_id, 'drafting', 'Drafting', 'grape', 2, NULL, FALSE, TRUE),
+    (p_org_id, 'submitted', 'Submitted', 'orange', 3, NULL, FALSE, TRUE),
+    (p_org_id, 'awarded', 'Awarded', 'green', 4, 'won', FALSE, TRUE),
+    (p_org_id, 'not-funded', 'Not Funded', 'red', 5, 'lost', TRUE, TRUE),
+    (p_org_id, 'closed-out', 'Closed Out', 'teal', 6, 'won', TRUE, TRUE),
+    (p_org_id, 'rejected', 'Rejected', 'pink', 7, 'lost', TRUE, FALSE),
+    (p_org_id, 'withdrawn', 'Withdrawn', 'gray', 8, 'lost', TRUE, FALSE),
+    (p_org_id, 'archived', 'Archived', 'dark', 9, NULL, TRUE, FALSE)
+  ON CONFLICT (org_id, key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT public.seed_default_pipeline_stages(id) FROM public.organizations;
+
+CREATE OR REPLACE FUNCTION public.handle_new_organization_pipeline_stages()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_default_pipeline_stages(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_organization_created_pipeline_stages ON public.organizations;
+CREATE TRIGGER on_organization_created_pipeline_stages
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_organization_pipeline_stages();
+
+-- =====================================================
+-- 3. STAGE REFERENCES
+-- =====================================================
+-- Grants and workflows now reference the org's own stages instead of a fixed list
+ALTER TABLE public.org_grants_saved
+  DROP CONSTRAINT IF EXISTS org_grants_saved_status_check;
+
+ALTER TABLE public.org_grants_saved
+  DROP CONSTRAINT IF EXISTS org_grants_saved_stage_fkey;
+ALTER TABLE public.org_grants_saved
+  ADD CONSTRAINT org_grants_saved_stage_fkey
+    FOREIGN KEY (org_id, status) REFERENCES public.pipeline_stages(org_id, key);
+
+ALTER TABLE public.approval_workflows
+  DROP CONSTRAINT IF EXISTS approval_workflows_from_stage_check;
+ALTER TABLE public.approval_workflows
+  DROP CONSTRAINT IF EXISTS approval_workflows_to_stage_check;
+
+ALTER TABLE public.approval_workflows
+  DROP CONSTRAINT IF EXISTS approval_workflows_from_stage_fkey;
+ALTER TABLE public.approval_workflows
+  ADD CONSTRAINT approval_workflows_from_stage_fkey
+    FOREIGN KEY (org_id, from_stage) REFERENCES public.pipeline_stages(org_id, key) ON DELETE CASCADE;
+
+ALTER TABLE public.approval_workflows
+  DROP CONSTRAINT IF EXISTS approval_workflows_to_stage_fkey;
+ALTER TABLE public.approval_workflows
+  ADD CONSTRAINT approval_workflows_to_stage_fkey
+    FOREIGN KEY (org_id, to_stage) REFERENCES public.pipeline_stages(org_id, key) ON DELETE CASCADE;
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's pipeline stages" ON public.pipeline_stages;
+CREATE POLICY "Users can view their org's pipeline stages"
+  ON public.pipeline_stages FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage pipeline stages" ON public.pipeline_stages;
+CREATE POLICY "Service role can manage pipeline stages"
+  ON public.pipeline_stages FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 5. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.pipeline_stages IS 'Ordered pipeline stages of an organization; org_grants_saved.status holds a stage key';
+COMMENT ON COLUMN public.pipeline_stages.key IS 'Stable identifier stored on grants and approval workflows; the archived stage is used by the Archive action and cannot be removed';
+COMMENT ON COLUMN public.pipeline_stages.outcome IS 'won or lost; grants with an outcome no longer get application deadline reminders';
+COMMENT ON COLUMN public.pipeline_stages.is_terminal IS 'Grants in terminal stages get no deadline reminders and no new recurring tasks or compliance requirements';
+COMMENT ON COLUMN public.pipeline_stages.show_on_board IS 'Show the stage as a column on the pipeline board';
+COMMENT ON COLUMN public.pipeline_stages.required_fields IS 'Grant fields (e.g. assigned_to, loi_deadline) that must be set before a grant moves into the stage';
+COMMENT ON COLUMN public.org_grants_saved.status IS 'Pipeline stage key from pipeline_stages';
@@ -0,0 +1,48 @@
+-- =====================================================
+-- Stage WIP Limits and Aging
+-- Created: 2025-04-01
+-- Purpose: Let organizations cap how many grants sit in a
+--          pipeline stage at once (warning or blocking moves
+--          past the cap), and flag grants that have stayed in
+--          a stage longer than the stage's threshold. Owners of
+--          stale grants get a daily digest.
+-- =====================================================
+
+-- =====================================================
+-- 1. STAGE SETTINGS
+-- =====================================================
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0),
+  ADD COLUMN IF NOT EXISTS wip_limit_mode TEXT NOT NULL DEFAULT 'warn'
+    CHECK (wip_limit_mode IN ('warn', 'block')),
+  ADD COLUMN IF NOT EXISTS stale_after_days INTEGER
+    CHECK (stale_after_days IS NULL OR stale_after_days > 0);
+
+-- =====================================================
+-- 2. STAGE TIMESTAMP ON NEW GRANTS
+-- =====================================================
+-- update_stage_timestamp() only fires on updates, so grants saved
+-- straight into a stage had no timestamp to age from
+ALTER TABLE public.org_grants_saved
+  ALTER COLUMN stage_updated_at SET DEFAULT NOW();
+
+UPDATE public.org_grants_saved
+SET stage_updated_at = saved_at
+WHERE stage_updated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_org_grants_saved_stage_age
+  ON public.org_grants_saved(org_id, status, stage_updated_at);
+
+-- =====================================================
+-- 3. DIGEST SETTING
+-- =====================================================
+ALTER TABLE public.organization_settings
+  ADD COLUMN IF NOT EXISTS stale_grant_digest_enabled BOOLEAN DEFAULT TRUE;
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.pipeline_stages.wip_limit IS 'Most grants the stage should hold at once; NULL for no limit';
+COMMENT ON COLUMN public.pipeline_stages.wip_limit_mode IS 'warn lets moves past the limit through with a warning; block refuses them';
+COMMENT ON COLUMN public.pipeline_stages.stale_after_days IS 'Days in the stage after which a grant is flagged as stale and included in its owner''s daily digest; NULL to never flag';
+COMMENT ON COLUMN public.organization_settings.stale_grant_digest_enabled IS 'Email grant owners a daily list of their grants that have gone stale in their stage';
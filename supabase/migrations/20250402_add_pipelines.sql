@@ -0,0 +1,211 @@
+-- =====================================================
+-- Multiple Pipelines
+-- Created: 2025-04-02
+-- Purpose: Let an organization run several named pipelines
+--          (e.g. federal grants and foundation asks), each with
+--          its own stages, members and approval workflows.
+--          Every grant belongs to one pipeline and can be moved
+--          between them; saved views can be scoped to a pipeline.
+--          Existing organizations get a "Main Pipeline" holding
+--          their current stages and grants.
+-- =====================================================
+
+-- =====================================================
+-- 1. PIPELINES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.pipelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT,
+  color TEXT NOT NULL DEFAULT 'blue',
+  position INTEGER NOT NULL DEFAULT 0,
+
+  -- Grants saved without a pipeline go here
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (org_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipelines_org
+  ON public.pipelines(org_id, position);
+
+-- One default pipeline per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_one_default
+  ON public.pipelines(org_id)
+  WHERE is_default;
+
+-- =====================================================
+-- 2. PIPELINE MEMBERS
+-- =====================================================
+-- A pipeline without members is open to everyone in the organization
+CREATE TABLE IF NOT EXISTS public.pipeline_members (
+  pipeline_id UUID NOT NULL REFERENCES public.pipelines(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (pipeline_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_members_user
+  ON public.pipeline_members(user_id);
+
+-- =====================================================
+-- 3. DEFAULT PIPELINE FOR EXISTING ORGANIZATIONS
+-- =====================================================
+INSERT INTO public.pipelines (org_id, name, color, position, is_default)
+SELECT id, 'Main Pipeline', 'blue', 0, TRUE
+FROM public.organizations
+ON CONFLICT (org_id, name) DO NOTHING;
+
+-- =====================================================
+-- 4. STAGES BELONG TO A PIPELINE
+-- =====================================================
+-- Stage keys stay unique across the organization, so grants and
+-- workflows keep referencing stages by (org_id, key). The archived
+-- stage has no pipeline: the Archive action works in every pipeline.
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES public.pipelines(id) ON DELETE CASCADE;
+
+UPDATE public.pipeline_stages ps
+SET pipeline_id = p.id
+FROM public.pipelines p
+WHERE p.org_id = ps.org_id
+  AND p.is_default
+  AND ps.pipeline_id IS NULL
+  AND ps.key <> 'archived';
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_pipeline
+  ON public.pipeline_stages(pipeline_id, position);
+
+-- New organizations get a default pipeline holding the default stages
+CREATE OR REPLACE FUNCTION public.seed_default_pipeline_stages(p_org_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_pipeline_id UUID;
+BEGIN
+  INSERT INTO public.pipelines (org_id, name, color, position, is_default)
+  VALUES (p_org_id, 'Main Pipeline', 'blue', 0, TRUE)
+  ON CONFLICT (org_id, name) DO NOTHING;
+
+  SELECT id INTO v_pipeline_id
+  FROM public.pipelines
+  WHERE org_id = p_org_id AND is_default;
+
+  INSERT INTO public.pipeline_stages (org_id, pipeline_id, key, label, color, position, outcome, is_terminal, show_on_board)
+  VALUES
+    (p_org_id, v_pipeline_id, 'researching', 'Researching', 'blue', 0, NULL, FALSE, TRUE),
+    (p_org_id, v_pipeline_id, 'go-no-go', 'Go/No-Go', 'yellow', 1, NULL, FALSE, TRUE),
+    (p_org_id, v_pipeline_id, 'drafting', 'Drafting', 'grape', 2, NULL, FALSE, TRUE),
+    (p_org_id, v_pipeline_id, 'submitted', 'Submitted', 'orange', 3, NULL, FALSE, TRUE),
+    (p_org_id, v_pipeline_id, 'awarded', 'Awarded', 'green', 4, 'won', FALSE, TRUE),
+    (p_org_id, v_pipeline_id, 'not-funded', 'Not Funded', 'red', 5, 'lost', TRUE, TRUE),
+    (p_org_id, v_pipeline_id, 'closed-out', 'Closed Out', 'teal', 6, 'won', TRUE, TRUE),
+    (p_org_id, v_pipeline_id, 'rejected', 'Rejected', 'pink', 7, 'lost', TRUE, FALSE),
+    (p_org_id, v_pipeline_id, 'withdrawn', 'Withdrawn', 'gray', 8, 'lost', TRUE, FALSE),
+    (p_org_id, NULL, 'archived', 'Archived', 'dark', 9, NULL, TRUE, FALSE)
+  ON CONFLICT (org_id, key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- 5. GRANTS BELONG TO A PIPELINE
+-- =====================================================
+ALTER TABLE public.org_grants_saved
+  ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES public.pipelines(id);
+
+UPDATE public.org_grants_saved g
+SET pipeline_id = p.id
+FROM public.pipelines p
+WHERE p.org_id = g.org_id
+  AND p.is_default
+  AND g.pipeline_id IS NULL;
+
+-- Grants saved without a pipeline go to the default one, and a grant's
+-- stage must belong to its pipeline (or be shared, like archived)
+CREATE OR REPLACE FUNCTION public.check_grant_pipeline_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stage_pipeline_id UUID;
+BEGIN
+  IF NEW.pipeline_id IS NULL THEN
+    SELECT id INTO NEW.pipeline_id
+    FROM public.pipelines
+    WHERE org_id = NEW.org_id AND is_default;
+  END IF;
+
+  SELECT pipeline_id INTO v_stage_pipeline_id
+  FROM public.pipeline_stages
+  WHERE org_id = NEW.org_id AND key = NEW.status;
+
+  IF v_stage_pipeline_id IS NOT NULL AND v_stage_pipeline_id <> NEW.pipeline_id THEN
+    RAISE EXCEPTION 'Stage % does not belong to pipeline %', NEW.status, NEW.pipeline_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_grant_pipeline_stage ON public.org_grants_saved;
+CREATE TRIGGER check_grant_pipeline_stage
+  BEFORE INSERT OR UPDATE OF status, pipeline_id ON public.org_grants_saved
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_grant_pipeline_stage();
+
+ALTER TABLE public.org_grants_saved
+  ALTER COLUMN pipeline_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_org_grants_saved_pipeline
+  ON public.org_grants_saved(pipeline_id, status);
+
+-- =====================================================
+-- 6. PIPELINE-SCOPED SAVED VIEWS
+-- =====================================================
+-- NULL keeps a view available in every pipeline
+ALTER TABLE public.saved_views
+  ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES public.pipelines(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 7. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's pipelines" ON public.pipelines;
+CREATE POLICY "Users can view their org's pipelines"
+  ON public.pipelines FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage pipelines" ON public.pipelines;
+CREATE POLICY "Service role can manage pipelines"
+  ON public.pipelines FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's pipeline members" ON public.pipeline_members;
+CREATE POLICY "Users can view their org's pipeline members"
+  ON public.pipeline_members FOR SELECT
+  USING (pipeline_id IN (
+    SELECT p.id FROM public.pipelines p
+    JOIN public.org_members m ON m.org_id = p.org_id
+    WHERE m.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage pipeline members" ON public.pipeline_members;
+CREATE POLICY "Service role can manage pipeline members"
+  ON public.pipeline_members FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 8. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.pipelines IS 'Named pipelines of an organization, each with its own stages, members and approval workflows';
+COMMENT ON COLUMN public.pipelines.is_default IS 'Grants saved or imported without a pipeline go to the default pipeline; exactly one per organization';
+COMMENT ON TABLE public.pipeline_members IS 'Users who can see and work the grants of a pipeline; a pipeline without members is open to the whole organization';
+COMMENT ON COLUMN public.pipeline_stages.pipeline_id IS 'Pipeline the stage belongs to; NULL for stages shared by every pipeline (archived)';
+COMMENT ON COLUMN public.org_grants_saved.pipeline_id IS 'Pipeline the grant is worked in; its status must be a stage of this pipeline or a shared stage';
+COMMENT ON COLUMN public.saved_views.pipeline_id IS 'Pipeline the view belongs to; NULL for views shown in every pipeline';
@@ -0,0 +1,206 @@
+-- =====================================================
+-- Notification Preferences
+-- Created: 2025-04-03
+-- Purpose: Let each user route every kind of notification
+--          (task assigned, mention, approval requested, deadline
+--          by type) to the channels they want (email, in-app,
+--          Slack, Teams), choose immediate or digest delivery,
+--          and set quiet hours. Organization settings still decide
+--          which deadline reminders are sent at all.
+-- =====================================================
+
+-- =====================================================
+-- 1. NOTIFICATION PREFERENCES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- { "<event>": { "email": bool, "in_app": bool, "slack": bool, "teams": bool,
+  --               "delivery": "immediate" | "digest" } }
+  -- Events or channels left out use the defaults
+  routing JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- No email, Slack or Teams between these times (may wrap midnight)
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (user_id, org_id),
+  CONSTRAINT notification_preferences_quiet_hours_check CHECK (
+    (quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_org
+  ON public.notification_preferences(org_id);
+
+-- =====================================================
+-- 2. CHANNEL CHECK FOR DATABASE-CREATED NOTIFICATIONS
+-- =====================================================
+-- For the in-app notifications created by triggers: in-app is on for every
+-- event unless the user turned it off
+CREATE OR REPLACE FUNCTION public.notification_channel_enabled(
+  p_user_id UUID,
+  p_org_id UUID,
+  p_event TEXT,
+  p_channel TEXT
+)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (
+      SELECT (routing -> p_event ->> p_channel)::BOOLEAN
+      FROM public.notification_preferences
+      WHERE user_id = p_user_id AND org_id = p_org_id
+    ),
+    TRUE
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Mentions only reach the in-app feed of users who want them there
+CREATE OR REPLACE FUNCTION create_mention_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  mentioned_user UUID;
+  context_title_val TEXT;
+BEGIN
+  -- Only process if there are mentions
+  IF NEW.mentioned_user_ids IS NOT NULL AND array_length(NEW.mentioned_user_ids, 1) > 0 THEN
+
+    -- Get context title
+    IF TG_TABLE_NAME = 'grant_comments' THEN
+      SELECT title INTO context_title_val
+      FROM public.org_grants_saved
+      WHERE id = NEW.grant_id;
+    ELSIF TG_TABLE_NAME = 'task_comments' THEN
+      SELECT title INTO context_title_val
+      FROM public.grant_tasks
+      WHERE id = NEW.task_id;
+    END IF;
+
+    -- Create notification for each mentioned user
+    FOREACH mentioned_user IN ARRAY NEW.mentioned_user_ids
+    LOOP
+      -- Don't notify if user mentions themselves or turned mentions off in-app
+      IF mentioned_user != NEW.user_id
+        AND public.notification_channel_enabled(mentioned_user, NEW.org_id, 'mention', 'in_app') THEN
+        IF TG_TABLE_NAME = 'grant_comments' THEN
+          INSERT INTO public.mention_notifications (
+            user_id,
+            org_id,
+            mentioned_by_user_id,
+            grant_comment_id,
+            context_type,
+            context_title
+          ) VALUES (
+            mentioned_user,
+            NEW.org_id,
+            NEW.user_id,
+            NEW.id,
+            'grant_comment',
+            context_title_val
+          );
+        ELSIF TG_TABLE_NAME = 'task_comments' THEN
+          INSERT INTO public.mention_notifications (
+            user_id,
+            org_id,
+            mentioned_by_user_id,
+            task_comment_id,
+            context_type,
+            context_title
+          ) VALUES (
+            mentioned_user,
+            NEW.org_id,
+            NEW.user_id,
+            NEW.id,
+            'task_comment',
+            context_title_val
+          );
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Approval requests only reach the in-app feed of approvers who want them there
+CREATE OR REPLACE FUNCTION create_approval_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  grant_record RECORD;
+  approver_record RECORD;
+BEGIN
+  -- Get grant information
+  SELECT title INTO grant_record
+  FROM org_grants_saved
+  WHERE id = NEW.grant_id;
+
+  -- Create notification for each approver at current level
+  FOR approver_record IN
+    SELECT user_id
+    FROM approval_request_approvers
+    WHERE request_id = NEW.id
+      AND approval_level = NEW.current_approval_level
+      AND has_approved = false
+  LOOP
+    IF public.notification_channel_enabled(approver_record.user_id, NEW.org_id, 'approval_requested', 'in_app') THEN
+      INSERT INTO in_app_notifications (
+        user_id,
+        org_id,
+        type,
+        title,
+        message,
+        action_url,
+        action_label
+      )
+      VALUES (
+        approver_record.user_id,
+        NEW.org_id,
+        'system',
+        'Approval Required: ' || COALESCE(grant_record.title, 'Grant Application'),
+        'A grant stage transition requires your approval: ' || NEW.from_stage || ' → ' || NEW.to_stage,
+        '/pipeline?approval=' || NEW.id,
+        'Review Request'
+      );
+    END IF;
+
+    -- Mark as notified
+    UPDATE approval_request_approvers
+    SET notified_at = NOW(), notification_sent = true
+    WHERE request_id = NEW.id
+      AND user_id = approver_record.user_id
+      AND approval_level = NEW.current_approval_level;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can manage own notification preferences"
+  ON public.notification_preferences FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can manage notification preferences" ON public.notification_preferences;
+CREATE POLICY "Service role can manage notification preferences"
+  ON public.notification_preferences FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.notification_preferences IS 'Per-user, per-organization routing of notification events to email, in-app, Slack and Teams';
+COMMENT ON COLUMN public.notification_preferences.routing IS 'Channels and delivery per event type; digest events skip email, Slack and Teams and stay in the notification center. Anything left out uses the defaults';
+COMMENT ON COLUMN public.notification_preferences.quiet_hours_start IS 'Start of quiet hours in the user''s time zone; no email, Slack or Teams is sent during quiet hours';
+COMMENT ON FUNCTION public.notification_channel_enabled IS 'Whether a user wants an event on a channel that is on by default (in-app); TRUE unless turned off';
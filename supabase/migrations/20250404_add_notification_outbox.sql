@@ -0,0 +1,103 @@
+-- =====================================================
+-- Notification Outbox
+-- Created: 2025-04-04
+-- Purpose: Collect the email notifications a user holds back (digest
+--          delivery or quiet hours) and send them as one daily or
+--          hourly digest email grouped by grant. Urgent items
+--          (same-day deadlines, approval requests) skip the digest.
+--          Grant alert matches become a routable notification event.
+-- =====================================================
+
+-- =====================================================
+-- 1. DIGEST SCHEDULE
+-- =====================================================
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS digest_frequency TEXT NOT NULL DEFAULT 'daily'
+    CHECK (digest_frequency IN ('hourly', 'daily')),
+  -- Hour of the day (user's time zone) the daily digest goes out
+  ADD COLUMN IF NOT EXISTS digest_hour SMALLINT NOT NULL DEFAULT 8
+    CHECK (digest_hour BETWEEN 0 AND 23),
+  ADD COLUMN IF NOT EXISTS last_digest_at TIMESTAMPTZ;
+
+-- =====================================================
+-- 2. OUTBOX TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  event TEXT NOT NULL,
+  -- Items are grouped by grant in the digest; NULL for items without one
+  grant_id UUID REFERENCES public.org_grants_saved(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  action_url TEXT NOT NULL,
+
+  -- Held only by quiet hours; sent as soon as they end
+  urgent BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+  ON public.notification_outbox(user_id, org_id, created_at)
+  WHERE sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_sent
+  ON public.notification_outbox(sent_at)
+  WHERE sent_at IS NOT NULL;
+
+-- =====================================================
+-- 3. ALERT MATCHES
+-- =====================================================
+-- Alert matches only reach the in-app feed of members who want them there
+CREATE OR REPLACE FUNCTION create_notification_from_alert_match()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Create in-app notification for all org members who want grant alerts
+  INSERT INTO in_app_notifications (user_id, org_id, type, title, message, related_grant_id, related_alert_id, action_url, action_label)
+  SELECT
+    om.user_id,
+    NEW.org_id,
+    'grant_alert',
+    'New Grant Match: ' || NEW.grant_title,
+    'A new grant matching your alert criteria is available.',
+    NEW.external_id,
+    NEW.alert_id,
+    '/discover',
+    'View Grant'
+  FROM org_members om
+  JOIN grant_alerts ga ON ga.id = NEW.alert_id
+  WHERE om.org_id = NEW.org_id
+    AND ga.notify_in_app = true
+    AND ga.is_active = true
+    AND public.notification_channel_enabled(om.user_id, NEW.org_id, 'alert_match', 'in_app');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification outbox" ON public.notification_outbox;
+CREATE POLICY "Users can view own notification outbox"
+  ON public.notification_outbox FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can manage notification outbox" ON public.notification_outbox;
+CREATE POLICY "Service role can manage notification outbox"
+  ON public.notification_outbox FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 5. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.notification_outbox IS 'Email notifications held back for a user''s digest; sent_at is set once a digest included them';
+COMMENT ON COLUMN public.notification_outbox.urgent IS 'Urgent items skip digest delivery and are only held during quiet hours';
+COMMENT ON COLUMN public.notification_preferences.digest_frequency IS 'How often held email notifications are sent as one digest: hourly or daily at digest_hour';
+COMMENT ON COLUMN public.notification_preferences.last_digest_at IS 'When the last digest email went out';
@@ -0,0 +1,189 @@
+-- =====================================================
+-- Budget Builder
+-- Created: 2025-04-05
+-- Purpose: Build a grant budget from its inputs instead of pasting
+--          totals: budget periods, personnel (salary, effort, months,
+--          annual escalation), fringe rates per employee class, other
+--          direct costs and subawards, and a negotiated indirect rate
+--          on a modified total direct cost (MTDC) base. The calculated
+--          totals roll up into budget_line_items by category.
+-- =====================================================
+
+-- =====================================================
+-- 1. INDIRECT RATE
+-- =====================================================
+ALTER TABLE public.grant_budgets
+  -- Negotiated indirect cost rate, in percent
+  ADD COLUMN IF NOT EXISTS indirect_rate NUMERIC(6,3) NOT NULL DEFAULT 0
+    CHECK (indirect_rate >= 0 AND indirect_rate <= 100),
+  ADD COLUMN IF NOT EXISTS indirect_base TEXT NOT NULL DEFAULT 'mtdc'
+    CHECK (indirect_base IN ('mtdc', 'tdc'));
+
+-- Line items the builder maintains; recalculating overwrites their amounts
+ALTER TABLE public.budget_line_items
+  ADD COLUMN IF NOT EXISTS builder_generated BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =====================================================
+-- 2. BUDGET PERIODS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- 1 for the first year of the project
+  period_number SMALLINT NOT NULL CHECK (period_number BETWEEN 1 AND 10),
+  start_date DATE,
+  end_date DATE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (budget_id, period_number),
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+-- =====================================================
+-- 3. FRINGE RATES
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_fringe_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- e.g. Faculty, Staff, Graduate Student
+  employee_class TEXT NOT NULL,
+  -- Percent of salary
+  rate NUMERIC(6,3) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (budget_id, employee_class)
+);
+
+-- =====================================================
+-- 4. PERSONNEL
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_personnel (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  position_title TEXT,
+  employee_class TEXT NOT NULL,
+
+  -- Base salary in the first period
+  annual_salary NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (annual_salary >= 0),
+  effort_percent NUMERIC(6,3) NOT NULL DEFAULT 100
+    CHECK (effort_percent >= 0 AND effort_percent <= 100),
+  -- Months worked on the project in each period
+  months NUMERIC(4,2) NOT NULL DEFAULT 12 CHECK (months >= 0 AND months <= 12),
+  -- Salary increase applied at the start of each later period, in percent
+  escalation_percent NUMERIC(6,3) NOT NULL DEFAULT 0
+    CHECK (escalation_percent >= 0 AND escalation_percent <= 100),
+  -- Periods the person is on the project
+  first_period SMALLINT NOT NULL DEFAULT 1,
+  last_period SMALLINT,
+
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_personnel_budget
+  ON public.budget_personnel(budget_id, position);
+
+-- =====================================================
+-- 5. OTHER DIRECT COSTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_cost_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  period_number SMALLINT NOT NULL CHECK (period_number BETWEEN 1 AND 10),
+  category TEXT NOT NULL CHECK (category IN (
+    'travel', 'equipment', 'supplies', 'contractual', 'construction', 'other_direct'
+  )),
+  description TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+
+  -- Contractual items with a subrecipient; only the first $25,000 of each
+  -- subaward over the whole project counts toward the MTDC base
+  subrecipient TEXT,
+  -- Other costs outside the MTDC base (participant support, tuition
+  -- remission, rental costs, patient care)
+  mtdc_excluded BOOLEAN NOT NULL DEFAULT FALSE,
+
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_cost_items_budget
+  ON public.budget_cost_items(budget_id, period_number, position);
+
+-- =====================================================
+-- 6. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.budget_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_fringe_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_personnel ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_cost_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's budget periods" ON public.budget_periods;
+CREATE POLICY "Users can view their org's budget periods"
+  ON public.budget_periods FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget periods" ON public.budget_periods;
+CREATE POLICY "Service role can manage budget periods"
+  ON public.budget_periods FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's budget fringe rates" ON public.budget_fringe_rates;
+CREATE POLICY "Users can view their org's budget fringe rates"
+  ON public.budget_fringe_rates FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget fringe rates" ON public.budget_fringe_rates;
+CREATE POLICY "Service role can manage budget fringe rates"
+  ON public.budget_fringe_rates FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's budget personnel" ON public.budget_personnel;
+CREATE POLICY "Users can view their org's budget personnel"
+  ON public.budget_personnel FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget personnel" ON public.budget_personnel;
+CREATE POLICY "Service role can manage budget personnel"
+  ON public.budget_personnel FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's budget cost items" ON public.budget_cost_items;
+CREATE POLICY "Users can view their org's budget cost items"
+  ON public.budget_cost_items FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget cost items" ON public.budget_cost_items;
+CREATE POLICY "Service role can manage budget cost items"
+  ON public.budget_cost_items FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 7. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.budget_periods IS 'Budget periods (project years) of a budget built with the budget builder';
+COMMENT ON TABLE public.budget_fringe_rates IS 'Fringe benefit rate of each employee class, applied to personnel salaries';
+COMMENT ON TABLE public.budget_personnel IS 'Personnel rows of the budget builder; salary escalates each period after the first';
+COMMENT ON TABLE public.budget_cost_items IS 'Non-personnel direct costs of the budget builder, per budget period';
+COMMENT ON COLUMN public.grant_budgets.indirect_rate IS 'Negotiated indirect cost rate in percent, applied to the indirect_base';
+COMMENT ON COLUMN public.grant_budgets.indirect_base IS 'mtdc: modified total direct costs (excludes equipment, subaward amounts over $25,000 and excluded items); tdc: total direct costs';
+COMMENT ON COLUMN public.budget_line_items.builder_generated IS 'Maintained by the budget builder; amounts are overwritten on every recalculation';
@@ -0,0 +1,114 @@
+-- =====================================================
+-- Budget Variance & Revisions
+-- Created: 2025-04-06
+-- Purpose: Rebudgeting threshold for budget-vs-actual variance
+--          analysis, and budget revision requests that move amounts
+--          between line items once an org admin approves them
+-- =====================================================
+
+-- =====================================================
+-- 1. REBUDGETING THRESHOLD
+-- =====================================================
+ALTER TABLE public.grant_budgets
+  -- Cumulative transfers among categories, in percent of the total budget,
+  -- above which a revision needs prior approval (2 CFR 200.308: 10%)
+  ADD COLUMN IF NOT EXISTS rebudget_threshold_percent NUMERIC(5,2) NOT NULL DEFAULT 10
+    CHECK (rebudget_threshold_percent >= 0 AND rebudget_threshold_percent <= 100);
+
+-- =====================================================
+-- 2. BUDGET REVISIONS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  grant_id UUID NOT NULL REFERENCES public.org_grants_saved(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reason TEXT NOT NULL,
+
+  -- Budget totals before and after the revision
+  before_total NUMERIC(12,2) NOT NULL,
+  after_total NUMERIC(12,2) NOT NULL,
+  -- Cumulative transfers at the time of the request, in percent of the
+  -- total budget, and the threshold they were measured against
+  transfer_percent NUMERIC(6,2) NOT NULL DEFAULT 0,
+  threshold_percent NUMERIC(5,2) NOT NULL,
+
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_by UUID REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ,
+  decision_comments TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_revisions_budget
+  ON public.budget_revisions(budget_id, requested_at DESC);
+
+-- One pending revision per budget
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_revisions_pending
+  ON public.budget_revisions(budget_id) WHERE status = 'pending';
+
+-- =====================================================
+-- 3. REVISION LINES
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.budget_revision_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  revision_id UUID NOT NULL REFERENCES public.budget_revisions(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  line_item_id UUID REFERENCES public.budget_line_items(id) ON DELETE SET NULL,
+
+  -- Copied from the line item so the record survives its deletion
+  category TEXT NOT NULL,
+  description TEXT NOT NULL,
+
+  before_amount NUMERIC(12,2) NOT NULL,
+  after_amount NUMERIC(12,2) NOT NULL CHECK (after_amount >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_revision_lines_revision
+  ON public.budget_revision_lines(revision_id);
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.budget_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_revision_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's budget revisions" ON public.budget_revisions;
+CREATE POLICY "Users can view their org's budget revisions"
+  ON public.budget_revisions FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget revisions" ON public.budget_revisions;
+CREATE POLICY "Service role can manage budget revisions"
+  ON public.budget_revisions FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's budget revision lines" ON public.budget_revision_lines;
+CREATE POLICY "Users can view their org's budget revision lines"
+  ON public.budget_revision_lines FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage budget revision lines" ON public.budget_revision_lines;
+CREATE POLICY "Service role can manage budget revision lines"
+  ON public.budget_revision_lines FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 5. COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.grant_budgets.rebudget_threshold_percent IS 'Cumulative transfers among budget categories, in percent of the total budget, that require a budget revision';
+COMMENT ON TABLE public.budget_revisions IS 'Requests to move budgeted amounts between line items; applied when an org admin approves them';
+COMMENT ON TABLE public.budget_revision_lines IS 'Line item amounts before and after a budget revision';
+COMMENT ON COLUMN public.budget_revisions.transfer_percent IS 'Cumulative transfers implied by projected spending when the revision was requested';
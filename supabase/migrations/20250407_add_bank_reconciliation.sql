@@ -0,0 +1,72 @@
+-- =====================================================
+-- Bank Reconciliation
+-- Created: 2025-04-07
+-- Purpose: Record bank and general-ledger statement imports that
+--          reconcile disbursements, and link payments received to the
+--          payment schedule they fulfil
+-- =====================================================
+
+-- =====================================================
+-- 1. STATEMENT IMPORTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.bank_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  file_name TEXT NOT NULL,
+  statement_start DATE,
+  statement_end DATE,
+
+  row_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  -- Statement rows left without a match, kept for follow-up:
+  -- [{ row, date, amount, description, reference }]
+  unmatched_rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  reconciled_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_org
+  ON public.bank_reconciliations(org_id, created_at DESC);
+
+-- =====================================================
+-- 2. DISBURSEMENT RECONCILIATION
+-- =====================================================
+ALTER TABLE public.disbursements
+  ADD COLUMN IF NOT EXISTS reconciled_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reconciliation_id UUID REFERENCES public.bank_reconciliations(id) ON DELETE SET NULL,
+  -- Payment received against a scheduled payment
+  ADD COLUMN IF NOT EXISTS payment_schedule_id UUID REFERENCES public.payment_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_disbursements_unreconciled
+  ON public.disbursements(org_id, disbursement_date) WHERE reconciled = false;
+CREATE INDEX IF NOT EXISTS idx_disbursements_reconciliation
+  ON public.disbursements(reconciliation_id) WHERE reconciliation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_disbursements_payment_schedule
+  ON public.disbursements(payment_schedule_id) WHERE payment_schedule_id IS NOT NULL;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.bank_reconciliations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's bank reconciliations" ON public.bank_reconciliations;
+CREATE POLICY "Users can view their org's bank reconciliations"
+  ON public.bank_reconciliations FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage bank reconciliations" ON public.bank_reconciliations;
+CREATE POLICY "Service role can manage bank reconciliations"
+  ON public.bank_reconciliations FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 4. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.bank_reconciliations IS 'Bank or general-ledger statement imports and the disbursements they reconciled';
+COMMENT ON COLUMN public.bank_reconciliations.unmatched_rows IS 'Statement rows that matched no disbursement or payment schedule';
+COMMENT ON COLUMN public.disbursements.reconciliation_id IS 'Statement import that reconciled the disbursement';
+COMMENT ON COLUMN public.disbursements.payment_schedule_id IS 'Scheduled payment that a payment received fulfils';
@@ -0,0 +1,156 @@
+-- =====================================================
+-- Accounting Export
+-- Created: 2025-04-08
+-- Purpose: Export grant expenses and receipts as journal entries for
+--          QuickBooks and Xero, with an org chart-of-accounts and
+--          class/tracking mapping, and record what has been exported so
+--          nothing is posted twice
+-- =====================================================
+
+-- =====================================================
+-- 1. ACCOUNTING SETTINGS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.accounting_settings (
+  org_id UUID PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+
+  -- Account names (QuickBooks) or codes (Xero)
+  bank_account TEXT,
+  revenue_account TEXT,
+  default_expense_account TEXT,
+
+  -- Xero tracking category the class options belong to
+  tracking_category TEXT NOT NULL DEFAULT 'Grant',
+  xero_tax_rate TEXT NOT NULL DEFAULT 'Tax Exempt',
+
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. ACCOUNT AND CLASS MAPPINGS
+-- =====================================================
+-- A row applies to a grant, a budget category, or one category of one
+-- grant. The most specific row wins: grant and category, then grant, then
+-- category, then the settings' defaults. Accounts and class resolve
+-- separately, so a grant-wide row can set just the class.
+CREATE TABLE IF NOT EXISTS public.accounting_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  grant_id UUID REFERENCES public.org_grants_saved(id) ON DELETE CASCADE,
+  category TEXT CHECK (category IN (
+    'personnel', 'fringe_benefits', 'travel', 'equipment',
+    'supplies', 'contractual', 'construction', 'other_direct',
+    'indirect_costs', 'match_cash'
+  )),
+
+  expense_account TEXT,
+  -- Payments received are not categorized, so only grant-wide rows have one
+  revenue_account TEXT,
+  -- QuickBooks class or Xero tracking option
+  class_name TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT accounting_mappings_scope_check CHECK (grant_id IS NOT NULL OR category IS NOT NULL),
+  CONSTRAINT accounting_mappings_revenue_check CHECK (category IS NULL OR revenue_account IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_mappings_scope
+  ON public.accounting_mappings(
+    org_id,
+    COALESCE(grant_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(category, '')
+  );
+
+-- =====================================================
+-- 3. EXPORTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.accounting_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES public.grant_budgets(id) ON DELETE CASCADE,
+  grant_id UUID NOT NULL REFERENCES public.org_grants_saved(id) ON DELETE CASCADE,
+
+  format TEXT NOT NULL CHECK (format IN ('quickbooks_iif', 'quickbooks_csv', 'xero_csv')),
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  -- Dates of the first and last entry
+  period_start DATE,
+  period_end DATE,
+
+  -- The file as downloaded, so it can be downloaded again unchanged
+  file_name TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+
+  exported_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_exports_budget
+  ON public.accounting_exports(budget_id, created_at DESC);
+
+-- Exported entries point at their export; deleting the export makes them
+-- exportable again
+ALTER TABLE public.disbursements
+  ADD COLUMN IF NOT EXISTS accounting_export_id UUID REFERENCES public.accounting_exports(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payment_schedules
+  ADD COLUMN IF NOT EXISTS accounting_export_id UUID REFERENCES public.accounting_exports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_disbursements_accounting_export
+  ON public.disbursements(accounting_export_id) WHERE accounting_export_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_schedules_accounting_export
+  ON public.payment_schedules(accounting_export_id) WHERE accounting_export_id IS NOT NULL;
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE public.accounting_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their org's accounting settings" ON public.accounting_settings;
+CREATE POLICY "Users can view their org's accounting settings"
+  ON public.accounting_settings FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage accounting settings" ON public.accounting_settings;
+CREATE POLICY "Service role can manage accounting settings"
+  ON public.accounting_settings FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's accounting mappings" ON public.accounting_mappings;
+CREATE POLICY "Users can view their org's accounting mappings"
+  ON public.accounting_mappings FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage accounting mappings" ON public.accounting_mappings;
+CREATE POLICY "Service role can manage accounting mappings"
+  ON public.accounting_mappings FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their org's accounting exports" ON public.accounting_exports;
+CREATE POLICY "Users can view their org's accounting exports"
+  ON public.accounting_exports FOR SELECT
+  USING (org_id IN (
+    SELECT org_id FROM public.org_members WHERE user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Service role can manage accounting exports" ON public.accounting_exports;
+CREATE POLICY "Service role can manage accounting exports"
+  ON public.accounting_exports FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- 5. COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.accounting_settings IS 'Bank, revenue and default expense accounts for journal exports to QuickBooks and Xero';
+COMMENT ON TABLE public.accounting_mappings IS 'Expense and revenue accounts and class/tracking option per grant and budget category';
+COMMENT ON TABLE public.accounting_exports IS 'Journal exports of a grant''s disbursements and received payments';
+COMMENT ON COLUMN public.disbursements.accounting_export_id IS 'Journal export that posted the disbursement';
+COMMENT ON COLUMN public.payment_schedules.accounting_export_id IS 'Journal export that posted the received payment';